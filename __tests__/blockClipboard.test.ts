@@ -0,0 +1,128 @@
+// __tests__/blockClipboard.test.ts
+
+import {
+  copySelection,
+  createUniqueBlockName,
+  getNamespaceBlocks,
+  parseClipboard,
+  pasteSelection,
+  serializeClipboard
+} from '@/lib/blockClipboard'
+import { Sheet } from '@/lib/simulationEngine'
+import { TestModelBuilder } from './utils/TestModelBuilder'
+
+describe('Block clipboard', () => {
+  const [{ blocks, connections: wires }] = new TestModelBuilder()
+    .addBlock('scale', 'Scale1', { gain: 1 })
+    .addBlock('scale', 'Scale2', { gain: 1 })
+    .addBlock('scale', 'Scale3', { gain: 1 })
+    .connect('Scale1', 'Scale2')
+    .connect('Scale2', 'Scale3')
+    .build()
+    .sheets
+  const [scale1ToScale2] = wires
+
+  test('copies only the wires between selected blocks', () => {
+    const data = copySelection(blocks, wires, ['Scale1', 'Scale2'])
+
+    expect(data.blocks.map(b => b.id)).toEqual(['Scale1', 'Scale2'])
+    expect(data.wires.map(w => w.id)).toEqual([scale1ToScale2.id])
+  })
+
+  test('round-trips through clipboard text and rejects anything else', () => {
+    const data = copySelection(blocks, wires, ['Scale1'])
+
+    expect(parseClipboard(serializeClipboard(data))).toEqual(data)
+    expect(parseClipboard('hello')).toBeNull()
+    expect(parseClipboard(JSON.stringify({ blocks: [], wires: [] }))).toBeNull()
+  })
+
+  test('pastes with new IDs and rewires the copied wires', () => {
+    const data = copySelection(blocks, wires, ['Scale1', 'Scale2'])
+    const pasted = pasteSelection(data, blocks, { x: 30, y: 30 })
+
+    const [first, second] = pasted.blocks
+    expect(first.id).not.toBe('Scale1')
+    expect(second.id).not.toBe('Scale2')
+    expect(first.position).toEqual({ x: blocks[0].position.x + 30, y: blocks[0].position.y + 30 })
+    expect(pasted.wires).toHaveLength(1)
+    expect(pasted.wires[0].id).not.toBe(scale1ToScale2.id)
+    expect(pasted.wires[0].sourceBlockId).toBe(first.id)
+    expect(pasted.wires[0].targetBlockId).toBe(second.id)
+  })
+
+  test('makes pasted names unique as C identifiers', () => {
+    const used = new Set(['Scale1', 'Scale2', 'Gain_A'])
+
+    expect(createUniqueBlockName('Scale1', used)).toBe('Scale3')
+    expect(createUniqueBlockName('Gain A', used)).toBe('Gain A2')
+    expect(createUniqueBlockName('Filter', used)).toBe('Filter')
+
+    const pasted = pasteSelection(copySelection(blocks, wires, ['Scale1', 'Scale2']), blocks)
+    expect(pasted.blocks.map(b => b.name)).toEqual(['Scale4', 'Scale5'])
+  })
+
+  test('renames pasted blocks and ports against every root sheet', () => {
+    const sheets = new TestModelBuilder()
+      .addBlock('scale', 'Scale1', { gain: 1 })
+      .addSheet('other', 'Other')
+      .addBlock('input_port', 'Input1', { portName: 'Input1' })
+      .addBlock('scale', 'Gain', { gain: 1 })
+      .build()
+      .sheets
+    const [main, other] = sheets
+    const namespace = getNamespaceBlocks(sheets, 'main', main.blocks)
+
+    const pasted = pasteSelection(copySelection(other.blocks, [], ['Input1', 'Gain']), namespace)
+
+    expect(pasted.blocks.map(b => b.name)).toEqual(['Input2', 'Gain2'])
+    expect(pasted.blocks[0].parameters?.portName).toBe('Input2')
+  })
+
+  test('limits the namespace of a subsystem sheet to its sibling sheets', () => {
+    const builder = new TestModelBuilder()
+      .addSheet('Sub1_main', 'Sub1_main')
+      .addBlock('scale', 'Inner1', { gain: 1 })
+      .addSheet('Sub1_other', 'Sub1_other')
+      .addBlock('scale', 'Inner2', { gain: 1 })
+    const [, inner, innerOther] = builder.build().sheets
+    const sheets = builder
+      .switchToSheet('main')
+      .addBlock('subsystem', 'Sub1', { inputPorts: [], outputPorts: [], sheets: [inner, innerOther] })
+      .build()
+      .sheets
+      .slice(0, 1)
+    const edited = [...inner.blocks, { ...inner.blocks[0], id: 'Inner3', name: 'Inner3' }]
+
+    const namespace = getNamespaceBlocks(sheets, 'Sub1_main', edited)
+
+    expect(namespace.map(b => b.name)).toEqual(['Inner1', 'Inner3', 'Inner2'])
+  })
+
+  test('deep-copies subsystem sheets with new IDs', () => {
+    const builder = new TestModelBuilder()
+      .addSheet('Sub1_main', 'Sub1_main')
+      .addBlock('scale', 'Inner1', { gain: 1 })
+      .addBlock('scale', 'Inner2', { gain: 1 })
+      .connect('Inner1', 'Inner2')
+    const [, inner] = builder.build().sheets
+    const [{ blocks: [subsystem] }] = builder
+      .switchToSheet('main')
+      .addBlock('subsystem', 'Sub1', { inputPorts: [], outputPorts: [], sheets: [inner] })
+      .build()
+      .sheets
+
+    const pasted = pasteSelection(copySelection([subsystem], [], ['Sub1']), [subsystem])
+    const copy = pasted.blocks[0]
+    const copiedSheet: Sheet = copy.parameters!.sheets[0]
+
+    expect(copy.name).toBe('Sub2')
+    expect(copiedSheet.id).toBe(`${copy.id}_main`)
+    expect(copiedSheet.blocks.map(b => b.name)).toEqual(['Inner1', 'Inner2'])
+    expect(copiedSheet.blocks.some(b => b.id === 'Inner1')).toBe(false)
+    expect(copiedSheet.connections[0].sourceBlockId).toBe(copiedSheet.blocks[0].id)
+
+    // The original subsystem is untouched
+    expect(inner.blocks[0].id).toBe('Inner1')
+  })
+})
@@ -0,0 +1,149 @@
+// __tests__/codegen/algebraic-loops.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { findAlgebraicLoops, findModelAlgebraicLoops } from '@/lib/algebraicLoopDetector'
+import { detectAlgebraicLoop } from '@/lib/connectionValidation'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { CodeGenerationValidator } from '@/lib/codegen/CodeGenerationValidator'
+import { ModelFlattener } from '@/lib/codegen/ModelFlattener'
+import { Sheet } from '@/lib/simulationEngine'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+/**
+ * In1 -> Sum1 -> Gain1 -> Output1, with Gain1 fed back into Sum1 through
+ * the given block, or directly when no block is given
+ */
+function feedbackModel(feedback?: { type: string, name: string, parameters: BlockData['parameters'] }): Sheet[] {
+  const builder = new TestModelBuilder()
+    .addBlock('input_port', 'In1', { portName: 'In1', dataType: 'double' })
+    .addBlock('sum', 'Sum1', { signs: '+-', numInputs: 2 })
+    .addBlock('scale', 'Gain1', { gain: 2 })
+    .addBlock('output_port', 'Output1', { portName: 'Output1' })
+    .connect('In1', 'Sum1')
+    .connect('Sum1', 'Gain1')
+    .connect('Gain1', 'Output1')
+  if (feedback) {
+    builder
+      .addBlock(feedback.type, feedback.name, feedback.parameters)
+      .connect('Gain1', feedback.name)
+      .connect(feedback.name, 'Sum1', 0, 1)
+  } else {
+    builder.connect('Gain1', 'Sum1', 0, 1)
+  }
+  return builder.build().sheets
+}
+
+const UNIT_DELAY = { type: 'unit_delay', name: 'Delay1', parameters: { initialCondition: 0 } }
+
+describe('Algebraic loop detection', () => {
+  test('finds a feedback loop of direct-feedthrough blocks', () => {
+    const loops = findModelAlgebraicLoops(feedbackModel())
+
+    expect(loops).toHaveLength(1)
+    expect(loops[0].blockIds).toEqual(['Sum1', 'Gain1'])
+  })
+
+  test('blocks with state break the loop', () => {
+    const delayed = feedbackModel(UNIT_DELAY)
+    const integrated = feedbackModel({ type: 'integrator', name: 'Int1', parameters: { initialCondition: 0 } })
+    const filtered = feedbackModel({ type: 'transfer_function', name: 'TF1', parameters: { numerator: [1], denominator: [1, 1] } })
+
+    expect(findModelAlgebraicLoops(delayed)).toEqual([])
+    expect(findModelAlgebraicLoops(integrated)).toEqual([])
+    expect(findModelAlgebraicLoops(filtered)).toEqual([])
+  })
+
+  test('a biproper transfer function does not break the loop', () => {
+    const loops = findModelAlgebraicLoops(
+      feedbackModel({ type: 'transfer_function', name: 'TF1', parameters: { numerator: [1, 2], denominator: [1, 1] } })
+    )
+
+    expect(loops).toHaveLength(1)
+    expect(loops[0].blockIds).toEqual(['Sum1', 'Gain1', 'TF1'])
+  })
+
+  test('reports a block wired to itself', () => {
+    const [{ blocks, connections }] = new TestModelBuilder()
+      .addBlock('sum', 'Sum1', { signs: '++', numInputs: 2 })
+      .connect('Sum1', 'Sum1', 0, 1)
+      .build()
+      .sheets
+    const loops = findAlgebraicLoops(blocks, connections)
+
+    expect(loops.map(loop => loop.blockIds)).toEqual([['Sum1']])
+  })
+
+  test('follows signals through subsystem ports', () => {
+    const builder = new TestModelBuilder()
+      .addSheet('inner', 'inner')
+      .addBlock('input_port', 'SubIn', { portName: 'In1' })
+      .addBlock('scale', 'SubGain', { gain: 0.5 })
+      .addBlock('output_port', 'SubOut', { portName: 'Out1' })
+      .connect('SubIn', 'SubGain')
+      .connect('SubGain', 'SubOut')
+    const [, inner] = builder.build().sheets
+    const [main] = builder
+      .switchToSheet('main')
+      .addBlock('source', 'Source1', { signalType: 'constant', value: 1, dataType: 'double' })
+      .addBlock('sum', 'Sum1', { signs: '+-', numInputs: 2 })
+      .addBlock('subsystem', 'Subsystem1', { inputPorts: ['In1'], outputPorts: ['Out1'], sheets: [inner] })
+      .connect('Source1', 'Sum1')
+      .connect('Sum1', 'Subsystem1')
+      .connect('Subsystem1', 'Sum1', 0, 1)
+      .build()
+      .sheets
+
+    const loops = findModelAlgebraicLoops([main])
+
+    expect(loops).toHaveLength(1)
+    expect(loops[0].blockIds).toEqual(['Sum1', 'SubGain'])
+  })
+
+  test('rejects only new wires that close an algebraic loop', () => {
+    const [{ blocks, connections }] = new TestModelBuilder()
+      .addBlock('sum', 'Sum1', { signs: '+-', numInputs: 2 })
+      .addBlock('scale', 'Gain1', { gain: 2 })
+      .addBlock('integrator', 'Int1', { initialCondition: 0 })
+      .connect('Sum1', 'Gain1')
+      .connect('Gain1', 'Sum1', 0, 1)
+      .connect('Gain1', 'Int1')
+      .connect('Int1', 'Sum1', 0, 1)
+      .build()
+      .sheets
+    const [sumToGain, gainToSum, gainToIntegrator, integratorToSum] = connections
+
+    const direct = detectAlgebraicLoop(gainToSum, [sumToGain], blocks)
+    const throughIntegrator = detectAlgebraicLoop(integratorToSum, [sumToGain, gainToIntegrator], blocks)
+
+    expect(direct.isValid).toBe(false)
+    expect(throughIntegrator.isValid).toBe(true)
+  })
+
+  describe('code generation', () => {
+    test('validator reports the loop as an error', () => {
+      const { model } = new ModelFlattener().flattenModel(feedbackModel())
+      const result = new CodeGenerationValidator().validate(model)
+
+      const loopErrors = result.errors.filter(e => e.code === 'ALGEBRAIC_LOOP')
+      expect(result.valid).toBe(false)
+      expect(loopErrors).toHaveLength(1)
+      expect(loopErrors[0].details.blockIds).toEqual(['Sum1', 'Gain1'])
+      expect(loopErrors[0].message).toContain('Sum1, Gain1')
+    })
+
+    test('refuses to emit code for a model with a loop', () => {
+      const result = new CodeGenerator({ modelName: 'test_model' }).generate(feedbackModel())
+
+      expect(result.header).toBe('')
+      expect(result.source).toBe('')
+      expect(result.warnings.some(w => w.includes('(ALGEBRAIC_LOOP)'))).toBe(true)
+    })
+
+    test('still emits code when the loop is broken by a delay', () => {
+      const result = new CodeGenerator({ modelName: 'test_model' }).generate(feedbackModel(UNIT_DELAY))
+
+      expect(result.source).toContain('test_model_evaluate_algebraic')
+      expect(result.warnings.some(w => w.includes('ALGEBRAIC_LOOP'))).toBe(false)
+    })
+  })
+})
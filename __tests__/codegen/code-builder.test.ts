@@ -134,6 +134,11 @@ describe('C Code Builder Utilities', () => {
         .toBe('    double velocity; /* Velocity in m/s */')
     })
 
+    test('should keep comments from ending early', () => {
+      expect(CCodeBuilder.generateStructMember('double', 'gain', [], 'x */ system("id"); /*\nnext ??/ line\\'))
+        .toBe('    double gain; /* x * / system("id"); /* next ? ?/ line/ */')
+    })
+
     test('should generate array struct members', () => {
       expect(CCodeBuilder.generateStructMember('double', 'position', [3], 'Position vector'))
         .toBe('    double position[3]; /* Position vector */')
@@ -0,0 +1,121 @@
+// __tests__/codegen/code-verifier.test.ts
+
+import { Sheet } from '@/lib/simulationEngine'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MAX_VERIFICATION_STEPS, compareStepOutputs, verifyGeneratedCode } from '@/lib/codegen/CodeVerifier'
+import { hasCompiler } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+// A first-order lag driven through a gain, with a vector pass-through
+function lagModel(): Sheet[] {
+  return new TestModelBuilder()
+    .addBlock('input_port', 'In1', { portName: 'In1' })
+    .addBlock('input_port', 'Vec', { portName: 'Vec', dataType: 'double[3]' })
+    .addBlock('scale', 'Gain', { gain: 2 })
+    .addBlock('transfer_function', 'Lag', { numerator: [1], denominator: [0.5, 1] })
+    .addBlock('scale', 'VecGain', { gain: 'k' })
+    .addBlock('output_port', 'Out1', { portName: 'Out1' })
+    .addBlock('output_port', 'Out2', { portName: 'Out2' })
+    .connect('In1', 'Gain')
+    .connect('Gain', 'Lag')
+    .connect('Lag', 'Out1')
+    .connect('Vec', 'VecGain')
+    .connect('VecGain', 'Out2')
+    .build()
+    .sheets
+}
+
+const workspace = [{ name: 'k', value: 3 }]
+
+describe('Generated code verification', () => {
+  test('describes the top-level ports of the generated structures', () => {
+    const result = new CodeGenerator({ workspace }).generate(lagModel())
+
+    expect(result.ports.inputs.map(port => [port.portName, port.dataType])).toEqual([['In1', 'double'], ['Vec', 'double[3]']])
+    expect(result.ports.outputs.map(port => [port.portName, port.dataType])).toEqual([['Out1', 'double'], ['Out2', 'double[3]']])
+  })
+
+  test('rejects stimuli for unknown ports or with the wrong dimensions', async () => {
+    const options = { timeStep: 0.01, duration: 0.1, workspace }
+
+    await expect(verifyGeneratedCode(lagModel(), { ...options, inputs: { Missing: 1 } })).rejects.toThrow('Unknown input ports: Missing')
+    await expect(verifyGeneratedCode(lagModel(), { ...options, inputs: { Vec: [1, 2] } })).rejects.toThrow('Input Vec needs 3 values')
+  })
+
+  test('limits the number of time steps', async () => {
+    const duration = (MAX_VERIFICATION_STEPS + 1) * 0.01
+
+    await expect(verifyGeneratedCode(lagModel(), { timeStep: 0.01, duration, workspace }))
+      .rejects.toThrow(`limited to ${MAX_VERIFICATION_STEPS} time steps`)
+  })
+
+  test('reports the first divergent step and signal', () => {
+    const outputs = [
+      { portName: 'Out1', blockName: 'Out1', memberName: 'Out1', dataType: 'double' },
+      { portName: 'Out2', blockName: 'Out2', memberName: 'Out2', dataType: 'double[2]' }
+    ]
+    const simulated = [[0, 1, 2], [1, 1, 2], [2, 1, 2]]
+    const generated = [[0, 1, 2], [1.0000001, 1, 2.5], [2, 1, 3]]
+    const result = compareStepOutputs(outputs, simulated, generated, 0.1, { absoluteTolerance: 1e-6, relativeTolerance: 0 })
+
+    expect(result.passed).toBe(false)
+    expect(result.firstDivergence).toEqual({ step: 1, time: 0.1, signal: 'Out2[1]', simulated: 2, generated: 2.5, difference: 0.5 })
+    expect(result.outputs).toEqual([
+      { portName: 'Out1', dataType: 'double', maxError: expect.closeTo(1e-7), passed: true },
+      { portName: 'Out2', dataType: 'double[2]', maxError: 1, passed: false }
+    ])
+  })
+
+  test('refuses block names that cannot be written into C code', async () => {
+    const sheets = new TestModelBuilder()
+      .addBlock('input_port', 'In1', { portName: 'In1' })
+      .addBlock('scale', 'Gain */ int injected; /*', { gain: 2 })
+      .addBlock('output_port', 'Out1', { portName: 'Out1' })
+      .connect('In1', 'Gain */ int injected; /*')
+      .connect('Gain */ int injected; /*', 'Out1')
+      .build()
+      .sheets
+
+    await expect(verifyGeneratedCode(sheets, { timeStep: 0.01, duration: 0.1 })).rejects.toThrow('INVALID_BLOCK_NAME')
+  })
+
+  test('writes only numeric condition values into the code', () => {
+    const sheets = new TestModelBuilder()
+      .addBlock('input_port', 'In1', { portName: 'In1' })
+      .addBlock('condition', 'Check', { condition: '> 0); exit(1); (0' })
+      .addBlock('output_port', 'Out1', { portName: 'Out1', dataType: 'bool' })
+      .connect('In1', 'Check')
+      .connect('Check', 'Out1')
+      .build()
+      .sheets
+
+    const { source } = new CodeGenerator().generate(sheets)
+
+    const injected = source.split('\n').filter(line => line.includes('exit(1)'))
+    expect(injected.every(line => line.trim().startsWith('// Error: Invalid condition format'))).toBe(true)
+    expect(source).toContain('model->signals.Check = false;')
+  })
+
+  const describeIfCompiler = hasCompiler() ? describe : describe.skip
+
+  describeIfCompiler('with gcc', () => {
+    test('generated code matches the simulation at every step', async () => {
+      const result = await verifyGeneratedCode(lagModel(), {
+        timeStep: 0.01,
+        duration: 1,
+        inputs: { In1: 1.5, Vec: [1, -2, 0.25] },
+        workspace
+      })
+
+      expect(result.firstDivergence).toBeUndefined()
+      expect(result.passed).toBe(true)
+      expect(result.steps).toBe(100)
+      expect(result.outputs.map(output => output.portName)).toEqual(['Out1', 'Out2'])
+    })
+
+    test('reports a compiler that is not installed', async () => {
+      await expect(verifyGeneratedCode(lagModel(), { timeStep: 0.01, duration: 0.1, workspace, compiler: 'no-such-cc' }))
+        .rejects.toThrow('needs the C compiler "no-such-cc"')
+    })
+  })
+})
@@ -0,0 +1,233 @@
+// __tests__/codegen/fixed-point.test.ts
+
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { SimulationEngine } from '@/lib/simulationEngine'
+import { propagateSignalTypes } from '@/lib/signalTypePropagation'
+import { parseType } from '@/lib/typeValidator'
+import { multiplyByGain, quantize, toStoredInteger } from '@/lib/fixedPoint'
+import { compileAndRun, hasCompiler } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.01
+const STEPS = 200
+const Q12 = 'fixdt(1,16,12)'
+
+/**
+ * Input -> Gain -> Sum -> Limit -> Delay, with the delay fed back into the
+ * sum. The gain pushes the sum past the range of the Q3.12 word.
+ */
+function addLoop(builder: TestModelBuilder, input: string, gain: number | string = 1.7): TestModelBuilder {
+  return builder
+    .addBlock('scale', 'Gain', { gain })
+    .addBlock('sum', 'Sum', { signs: '++' })
+    .addBlock('saturation', 'Limit', { lowerLimit: -5, upperLimit: 5 })
+    .addBlock('unit_delay', 'Delay', { initialCondition: 0.3, sampleTime: -1 })
+    .connect(input, 'Gain')
+    .connect('Gain', 'Sum')
+    .connect('Delay', 'Sum', 0, 1)
+    .connect('Sum', 'Limit')
+    .connect('Limit', 'Delay')
+}
+
+// The loop driven by a Q12 sine source
+function createLoop(): TestModelBuilder {
+  return addLoop(
+    new TestModelBuilder().addBlock('source', 'Src', { signalType: 'sine', frequency: 2, amplitude: 6, dataType: Q12 }),
+    'Src'
+  )
+}
+
+// The loop between Q12 model ports, with the given gain
+function createPortLoop(gain?: number | string): TestModelBuilder {
+  const builder = new TestModelBuilder().addBlock('input_port', 'In1', { portName: 'In1', dataType: Q12 })
+  return addLoop(builder, 'In1', gain)
+    .addBlock('output_port', 'Out1', { portName: 'Out1' })
+    .connect('Limit', 'Out1')
+}
+
+function simulate(builder: TestModelBuilder, blockIds: string[]): number[][] {
+  const [{ blocks, connections }] = builder.build().sheets
+  const engine = new SimulationEngine(blocks, connections, { timeStep: TIME_STEP, duration: STEPS * TIME_STEP })
+  const values: number[][] = []
+  for (let i = 0; i < STEPS; i++) {
+    engine.step()
+    values.push(blockIds.map(id => engine.getState().blockStates.get(id)!.outputs[0] as number))
+  }
+  return values
+}
+
+/**
+ * Compile the block modules' fixed-point code into a step loop and print
+ * the stored integers of the given blocks
+ */
+function runGenerated(builder: TestModelBuilder, blockIds: string[]): number[][] {
+  const blockModule = (type: string) => BlockModuleFactory.getBlockModule(type)
+  const [{ blocks: [src, gain, sum, limit, delay] }] = builder.build().sheets
+  const signal = (name: string) => `model->signals.${name}`
+
+  const source = `
+#include <stdio.h>
+#include <stdint.h>
+#include <math.h>
+
+typedef struct {
+    double time;
+    double dt;
+    struct { int16_t Src; int16_t Gain; int16_t Sum; int16_t Limit; int16_t Delay; } signals;
+    struct { double Src_phase; int16_t Delay_state; } states;
+} test_model_t;
+
+static void step(test_model_t* model) {
+${blockModule('unit_delay').generateComputation(delay, [], [Q12])}
+${blockModule('source').generateComputation(src, [])}
+${blockModule('scale').generateComputation(gain, [signal('Src')], [Q12])}
+${blockModule('sum').generateComputation(sum, [signal('Gain'), signal('Delay')], [Q12, Q12])}
+${blockModule('saturation').generateComputation(limit, [signal('Sum')], [Q12])}
+${blockModule('unit_delay').generateDiscreteUpdate!(delay, [signal('Limit')], [Q12])}
+}
+
+int main(void) {
+    test_model_t instance = {0};
+    test_model_t* model = &instance;
+    model->dt = ${TIME_STEP};
+${blockModule('unit_delay').generateInitialization!(delay, Q12)}
+    for (int i = 0; i < ${STEPS}; i++) {
+        step(model);
+        printf("${blockIds.map(() => '%d').join(' ')}\\n", ${blockIds.map(id => signal(id)).join(', ')});
+        model->time += model->dt;
+    }
+    return 0;
+}
+`
+  return compileAndRun({ 'fixed.c': source })
+}
+
+describe('Fixed-point data types', () => {
+  describe('type grammar', () => {
+    test('parses fixdt scalars, vectors and matrices', () => {
+      expect(parseType('fixdt(1,16,12)').fixedPoint).toEqual({ signed: true, wordLength: 16, fractionLength: 12 })
+      expect(parseType('fixdt( 0, 8, 4 )').baseType).toBe('fixdt(0,8,4)')
+
+      const vector = parseType('fixdt(1,32,16)[3]')
+      expect(vector.isArray).toBe(true)
+      expect(vector.arraySize).toBe(3)
+      expect(vector.fixedPoint?.wordLength).toBe(32)
+
+      expect(parseType('fixdt(1,16,12)[2][2]').isMatrix).toBe(true)
+    })
+
+    test('rejects unsupported formats', () => {
+      expect(() => parseType('fixdt(1,12,4)')).toThrow('word length must be 8, 16, 32')
+      expect(() => parseType('fixdt(1,8,9)')).toThrow('exceeds the word length')
+      expect(() => parseType('fixdt(2,16,4)')).toThrow('Invalid fixed-point type')
+    })
+  })
+
+  describe('arithmetic', () => {
+    const format = { signed: true, wordLength: 16, fractionLength: 12 } as const
+
+    test('rounds to the nearest step and saturates', () => {
+      expect(toStoredInteger(1.5, format)).toBe(6144)
+      expect(quantize(0.00014, format)).toBe(1 / 4096)
+      expect(toStoredInteger(100, format)).toBe(32767)
+      expect(toStoredInteger(-100, format)).toBe(-32768)
+      expect(toStoredInteger(-1, { signed: false, wordLength: 8, fractionLength: 4 })).toBe(0)
+    })
+
+    test('floors the shifted gain product like an arithmetic shift', () => {
+      // -3 * 0.5 = -1.5 floors to -2
+      expect(multiplyByGain(-3, 32768)).toBe(-2)
+      expect(multiplyByGain(2147483647, 65536 * 2)).toBe(4294967294)
+    })
+  })
+
+  describe('code generation', () => {
+    const sheets = createPortLoop().build().sheets
+
+    test('stores fixed-point signals and states in integer containers', () => {
+      const result = new CodeGenerator({ modelName: 'fixed_model' }).generate(sheets)
+
+      expect(result.warnings.filter(w => w.startsWith('ERROR'))).toEqual([])
+      expect(result.header).toContain('int16_t In1; /* Input port: In1 */')
+      expect(result.header).toContain('int16_t Out1; /* Output port: Out1 */')
+      expect(result.header).toContain('int16_t Sum;')
+      expect(result.header).toContain('int16_t Delay_state;')
+    })
+
+    test('emits integer arithmetic with explicit shifts and saturation', () => {
+      const { source } = new CodeGenerator({ modelName: 'fixed_model' }).generate(sheets)
+
+      // 1.7 as Q16
+      expect(source).toContain('int64_t Gain_product = ((int64_t)signals->In1 * 111411) >> 16;')
+      expect(source).toContain('int32_t Sum_acc = (int32_t)signals->Gain + (int32_t)signals->Delay;')
+      expect(source).toContain('(int16_t)(Sum_acc > 32767 ? 32767 : (Sum_acc < -32768 ? -32768 : Sum_acc))')
+      expect(source).toContain('signals->Sum > 20480 ? 20480')
+      expect(source).toContain('model->states.Delay_state = 1229;')
+    })
+
+    test('reports blocks without a fixed-point implementation', () => {
+      const unsupported = createPortLoop()
+        .addBlock('transfer_function', 'Tf', { numerator: [1], denominator: [1, 1] })
+        .connect('Sum', 'Tf')
+        .build()
+        .sheets
+
+      const result = new CodeGenerator({ modelName: 'fixed_model' }).generate(unsupported)
+      expect(result.warnings.join('\n')).toContain('does not support fixed-point signals')
+
+      const [{ blocks, connections }] = new TestModelBuilder()
+        .addBlock('input_port', 'In1', { portName: 'In1', dataType: Q12 })
+        .addBlock('transfer_function', 'Tf', { numerator: [1], denominator: [1, 1] })
+        .connect('In1', 'Tf')
+        .build()
+        .sheets
+      const propagation = propagateSignalTypes(blocks, connections)
+      expect(propagation.errors.map(e => e.message)).toContain(
+        `Tf (transfer_function) does not support fixed-point signals (input ${Q12})`
+      )
+    })
+
+    test('reports tunable gains on fixed-point signals', () => {
+      const expression = new CodeGenerator({
+        modelName: 'fixed_model',
+        workspace: [{ name: 'K', value: 1.7 }]
+      }).generate(createPortLoop('K').build().sheets)
+      const selected = new CodeGenerator({ modelName: 'fixed_model', tunableParameters: ['Gain.gain'] }).generate(sheets)
+
+      const message = `ERROR: Scale block 'Gain' needs a constant numeric gain for fixed-point signals (input ${Q12}) (FIXED_POINT_TUNABLE_GAIN)`
+      expect(expression.warnings).toContain(message)
+      expect(selected.warnings).toContain(message)
+      expect(new CodeGenerator({ modelName: 'fixed_model' }).generate(sheets).warnings.join('\n')).not.toContain('FIXED_POINT_TUNABLE_GAIN')
+    })
+  })
+
+  describe('simulation', () => {
+    test('saturates instead of wrapping on overflow', () => {
+      const values = simulate(createLoop(), ['Sum', 'Limit'])
+
+      for (const [sum, limit] of values) {
+        expect(sum).toBeLessThanOrEqual(32767 / 4096)
+        expect(sum).toBeGreaterThanOrEqual(-8)
+        expect(Math.abs(limit)).toBeLessThanOrEqual(5)
+        expect(Number.isInteger(sum * 4096)).toBe(true)
+      }
+      expect(values.some(([sum]) => sum === 32767 / 4096)).toBe(true)
+    })
+  })
+
+  const describeIfCompiler = hasCompiler() ? describe : describe.skip
+
+  describeIfCompiler('Generated C matches simulation', () => {
+    test('bit-exact stored integers for every step', () => {
+      const blockIds = ['Src', 'Gain', 'Sum', 'Limit', 'Delay']
+      const expected = simulate(createLoop(), blockIds)
+      const actual = runGenerated(createLoop(), blockIds)
+
+      expect(actual).toHaveLength(STEPS)
+      for (let i = 0; i < STEPS; i++) {
+        expect(actual[i]).toEqual(expected[i].map(value => value * 4096))
+      }
+    })
+  })
+})
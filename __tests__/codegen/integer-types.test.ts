@@ -0,0 +1,211 @@
+// __tests__/codegen/integer-types.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { BlockState, SimulationEngine, SimulationState } from '@/lib/simulationEngine'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { validateModelTypeCompatibility } from '@/lib/typeCompatibilityValidator'
+import { isValidValue, parseType } from '@/lib/typeValidator'
+import {
+  FIXED_POINT_ROUNDING_MODES,
+  convertToStoredInteger,
+  getFixedPointFormat,
+  toStoredInteger,
+  wrapStoredInteger
+} from '@/lib/fixedPoint'
+import { compileAndRun, hasCompiler } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+interface Conversion {
+  inputType: string
+  parameters: { outputDataType: string, rounding: string, saturateOnOverflow: boolean }
+}
+
+const INPUT_VALUES = [0, 1.5, -1.5, 2.5, -2.5, 0.3, -0.3, 127.6, 128, -129.2, 255.5, 300.25, -300.75, 1000, 0.0625, -0.0390625]
+
+function createConversions(): Conversion[] {
+  const conversions: Conversion[] = []
+  for (const inputType of ['fixdt(1,16,8)', 'uint16', 'double']) {
+    for (const outputDataType of ['int8', 'uint8', 'fixdt(1,16,4)']) {
+      for (const rounding of FIXED_POINT_ROUNDING_MODES) {
+        for (const saturateOnOverflow of [true, false]) {
+          conversions.push({ inputType, parameters: { outputDataType, rounding, saturateOnOverflow } })
+        }
+      }
+    }
+  }
+  return conversions
+}
+
+/**
+ * Converts the input value as the simulation does and returns the stored
+ * integer of the output
+ */
+function simulateConversion(conversion: Conversion, value: number): number {
+  const inputFormat = getFixedPointFormat(conversion.inputType)
+  const input = inputFormat ? toStoredInteger(value, inputFormat) / Math.pow(2, inputFormat.fractionLength) : value
+  const blockState = { internalState: conversion.parameters, outputs: [0] } as unknown as BlockState
+  BlockModuleFactory.getBlockModule('data_type_conversion').executeSimulation(blockState, [input], {} as SimulationState)
+  return (blockState.outputs[0] as number) * Math.pow(2, getFixedPointFormat(conversion.parameters.outputDataType)!.fractionLength)
+}
+
+function createConversionBlock(parameters: BlockData['parameters']): BlockData {
+  const [{ blocks: [block] }] = new TestModelBuilder().addBlock('data_type_conversion', 'Conv', parameters).build().sheets
+  return block
+}
+
+/**
+ * Compile the module's conversion code for every configuration and print
+ * the stored integers of the outputs
+ */
+function runGenerated(conversions: Conversion[]): number[][] {
+  const blockModule = BlockModuleFactory.getBlockModule('data_type_conversion')
+  const functions = conversions.map((conversion, i) => {
+    const block = createConversionBlock(conversion.parameters)
+    const inputCType = parseType(conversion.inputType).fixedPoint ? 'int64_t' : 'double'
+    const outputType = blockModule.getOutputType(block, [conversion.inputType])
+    const outputFormat = getFixedPointFormat(outputType)!
+    const inputFormat = getFixedPointFormat(conversion.inputType)
+    const inputContainer = inputFormat ? CCodeBuilder.getFixedPointCType(inputFormat) : 'double'
+    return `
+typedef struct { struct { ${CCodeBuilder.getFixedPointCType(outputFormat)} Conv; } signals; } convert_${i}_t;
+
+static long long convert_${i}(${inputCType} value) {
+    ${inputContainer} input = (${inputContainer})value;
+    convert_${i}_t instance;
+    convert_${i}_t* model = &instance;
+${blockModule.generateComputation(block, ['input'], [conversion.inputType])}
+    return (long long)model->signals.Conv;
+}`
+  })
+
+  const calls = conversions.map((conversion, i) => {
+    const inputFormat = getFixedPointFormat(conversion.inputType)
+    const literals = INPUT_VALUES.map(value => inputFormat ? `${toStoredInteger(value, inputFormat)}` : `${value}`)
+    return literals.map(literal => `    printf("%lld ", convert_${i}(${literal}));`).join('\n') + '\n    printf("\\n");'
+  })
+
+  const source = `
+#include <stdio.h>
+#include <stdint.h>
+#include <math.h>
+${functions.join('\n')}
+
+int main(void) {
+${calls.join('\n')}
+    return 0;
+}
+`
+  return compileAndRun({ 'convert.c': source })
+}
+
+describe('Integer data types', () => {
+  test('parses sized integers as fixed-point types without fraction bits', () => {
+    expect(parseType('int16').fixedPoint).toEqual({ signed: true, wordLength: 16, fractionLength: 0 })
+    expect(parseType('uint8[4]').fixedPoint).toEqual({ signed: false, wordLength: 8, fractionLength: 0 })
+    expect(parseType('uint32[2][3]').isMatrix).toBe(true)
+    expect(() => parseType('int64')).toThrow('Invalid type')
+
+    expect(isValidValue(200, 'uint8')).toBe(true)
+    expect(isValidValue(1.5, 'int16')).toBe(false)
+  })
+
+  describe('conversion arithmetic', () => {
+    const int8 = { signed: true, wordLength: 8, fractionLength: 0 } as const
+    const uint8 = { signed: false, wordLength: 8, fractionLength: 0 } as const
+
+    test('rounds with each mode', () => {
+      expect(convertToStoredInteger(-2.5, int8, 'floor', true)).toBe(-3)
+      expect(convertToStoredInteger(-2.5, int8, 'ceil', true)).toBe(-2)
+      expect(convertToStoredInteger(-2.7, int8, 'zero', true)).toBe(-2)
+      expect(convertToStoredInteger(-2.5, int8, 'nearest', true)).toBe(-2)
+      expect(convertToStoredInteger(2.5, int8, 'nearest', true)).toBe(3)
+    })
+
+    test('saturates or wraps out-of-range values', () => {
+      expect(convertToStoredInteger(300, uint8, 'floor', true)).toBe(255)
+      expect(convertToStoredInteger(300, uint8, 'floor', false)).toBe(44)
+      expect(convertToStoredInteger(-1, uint8, 'floor', false)).toBe(255)
+      expect(convertToStoredInteger(128, int8, 'floor', false)).toBe(-128)
+      expect(wrapStoredInteger(-129, int8)).toBe(127)
+    })
+  })
+
+  describe('simulation', () => {
+    test('wraps a converted signal and saturates the integer sum', () => {
+      // Src -> Wrap, added to itself
+      const simulate = (value: number) => {
+        const [{ blocks, connections }] = new TestModelBuilder()
+          .addBlock('source', 'Src', { signalType: 'constant', value })
+          .addBlock('data_type_conversion', 'Wrap', { outputDataType: 'uint8', rounding: 'floor', saturateOnOverflow: false })
+          .addBlock('sum', 'Sum', { signs: '++' })
+          .connect('Src', 'Wrap')
+          .connect('Wrap', 'Sum')
+          .connect('Wrap', 'Sum', 0, 1)
+          .build()
+          .sheets
+        const engine = new SimulationEngine(blocks, connections, { timeStep: 0.01, duration: 0.01 })
+        engine.step()
+        return engine.getState().blockStates
+      }
+
+      const states = simulate(300)
+      expect(states.get('Wrap')!.outputs[0]).toBe(44)
+      expect(states.get('Sum')!.outputs[0]).toBe(88)
+
+      expect(simulate(200).get('Sum')!.outputs[0]).toBe(255)
+    })
+  })
+
+  describe('code generation', () => {
+    const sheets = new TestModelBuilder()
+      .addBlock('input_port', 'In1', { portName: 'In1', dataType: 'int16[3]' })
+      .addBlock('data_type_conversion', 'Conv', { outputDataType: 'uint8', rounding: 'nearest', saturateOnOverflow: true })
+      .addBlock('output_port', 'Out1', { portName: 'Out1' })
+      .connect('In1', 'Conv')
+      .connect('Conv', 'Out1')
+      .build()
+      .sheets
+
+    test('declares <stdint.h> types for integer ports and signals', () => {
+      const result = new CodeGenerator({ modelName: 'int_model' }).generate(sheets)
+
+      expect(result.warnings.filter(w => w.startsWith('ERROR'))).toEqual([])
+      expect(result.header).toContain('#include <stdint.h>')
+      expect(result.header).toContain('int16_t In1[3]; /* Input port: In1 */')
+      expect(result.header).toContain('uint8_t Conv[3];')
+      expect(result.header).toContain('uint8_t Out1[3]; /* Output port: Out1 */')
+      expect(result.source).toContain('(uint8_t)(Conv_stored > 255 ? 255 : (Conv_stored < 0 ? 0 : Conv_stored))')
+    })
+
+    test('requires a conversion to mix integer and floating-point signals', () => {
+      const [{ blocks, connections }] = new TestModelBuilder()
+        .addBlock('input_port', 'A', { portName: 'A', dataType: 'int16' })
+        .addBlock('input_port', 'B', { portName: 'B', dataType: 'double' })
+        .addBlock('sum', 'Sum', { signs: '++' })
+        .connect('A', 'Sum')
+        .connect('B', 'Sum', 0, 1)
+        .build()
+        .sheets
+      const result = validateModelTypeCompatibility(blocks, connections)
+
+      expect(result.errors.map(e => e.message).join('\n')).toContain('Use a Data Type Conversion block')
+    })
+  })
+
+  const describeIfCompiler = hasCompiler() ? describe : describe.skip
+
+  describeIfCompiler('Generated C matches simulation', () => {
+    test('bit-exact conversions for every rounding and overflow mode', () => {
+      const conversions = createConversions()
+      const actual = runGenerated(conversions)
+
+      expect(actual).toHaveLength(conversions.length)
+      conversions.forEach((conversion, i) => {
+        const expected = INPUT_VALUES.map(value => simulateConversion(conversion, value))
+        expect({ ...conversion, outputs: actual[i] }).toEqual({ ...conversion, outputs: expected })
+      })
+    })
+  })
+})
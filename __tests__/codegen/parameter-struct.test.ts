@@ -0,0 +1,102 @@
+// __tests__/codegen/parameter-struct.test.ts
+
+import { Sheet } from '@/lib/simulationEngine'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+/**
+ * Input1 -> Controller (Kp gain) -> Plant -> Table -> Output1
+ */
+function createModel(): Sheet[] {
+  const builder = new TestModelBuilder()
+    .addSheet('controller_main', 'controller_main')
+    .addBlock('input_port', 'CtrlIn', { portName: 'e', dataType: 'double' })
+    .addBlock('scale', 'Kp', { gain: 2.5 })
+    .addBlock('output_port', 'CtrlOut', { portName: 'u' })
+    .connect('CtrlIn', 'Kp')
+    .connect('Kp', 'CtrlOut')
+  const [, controller] = builder.build().sheets
+  const [main] = builder
+    .switchToSheet('main')
+    .addBlock('input_port', 'Input1', { portName: 'Input1', dataType: 'double' })
+    .addBlock('subsystem', 'Controller', { sheets: [controller], inputPorts: ['e'], outputPorts: ['u'] })
+    .addBlock('transfer_function', 'Plant', { numerator: [4], denominator: [1, 3, 2] })
+    .addBlock('lookup_1d', 'Table', { inputValues: [0, 1, 2], outputValues: [0, 10, 15] })
+    .addBlock('output_port', 'Output1', { portName: 'Output1' })
+    .connect('Input1', 'Controller')
+    .connect('Controller', 'Plant')
+    .connect('Plant', 'Table')
+    .connect('Table', 'Output1')
+    .build()
+    .sheets
+  return [main]
+}
+
+describe('Tunable block parameters', () => {
+  const tunableParameters = ['Controller/Kp.gain', 'Plant.numerator', 'Plant.denominator', 'Table.outputValues']
+
+  test('declares the selected block parameters in the parameter struct', () => {
+    const result = new CodeGenerator({ modelName: 'test_model', tunableParameters }).generate(createModel())
+
+    expect(result.warnings.filter(w => w.startsWith('ERROR'))).toEqual([])
+    expect(result.header).toContain('test_model_params_t')
+    expect(result.header).toContain('double Controller_Kp_gain;')
+    expect(result.header).toContain('double Plant_numerator[1];')
+    expect(result.header).toContain('double Plant_denominator[3];')
+    expect(result.header).toContain('double Table_outputValues[3];')
+    expect(result.header).toContain('test_model_params_t params;')
+  })
+
+  test('initializes the parameters to their model values', () => {
+    const { source } = new CodeGenerator({ modelName: 'test_model', tunableParameters }).generate(createModel())
+
+    expect(source).toContain('model->params.Controller_Kp_gain = 2.5;')
+    expect(source).toContain('model->params.Plant_denominator[1] = 3.0;')
+    expect(source).toContain('model->params.Table_outputValues[2] = 15.0;')
+  })
+
+  test('reads the parameters from the struct in the step code', () => {
+    const { source } = new CodeGenerator({ modelName: 'test_model', tunableParameters }).generate(createModel())
+
+    expect(source).toContain('* model->params.Controller_Kp_gain;')
+    expect(source).toContain('(model->params.Plant_numerator[0] / model->params.Plant_denominator[0])')
+    expect(source).toContain('(model->params.Plant_denominator[1] / model->params.Plant_denominator[0])')
+    expect(source).toContain('model->params.Table_outputValues[1]')
+    // The tunable table is no longer a static constant
+    expect(source).not.toContain('static const double Table_outputs[]')
+  })
+
+  test('keeps parameters that are not selected baked into the code', () => {
+    const { header, source } = new CodeGenerator({ modelName: 'test_model' }).generate(createModel())
+
+    expect(header).not.toContain('params')
+    expect(source).toContain('* 2.5;')
+    expect(source).toContain('static const double Table_outputs[]')
+  })
+
+  test('exports a name/offset/type table on request', () => {
+    const result = new CodeGenerator({
+      modelName: 'test_model',
+      workspace: [{ name: 'Kd', value: 0.1 }],
+      tunableParameters,
+      generateParameterTable: true
+    }).generate(createModel())
+
+    expect(result.header).toContain('#include <stddef.h>')
+    expect(result.header).toContain('test_model_param_info_t')
+    expect(result.header).toContain('extern const test_model_param_info_t test_model_param_table[];')
+    expect(result.source).toContain('{ "Kd", offsetof(test_model_params_t, Kd), "double", 1 }')
+    expect(result.source).toContain('{ "Plant.denominator", offsetof(test_model_params_t, Plant_denominator), "double", 3 }')
+    expect(result.source).toContain('const int test_model_param_count = 5;')
+  })
+
+  test('reports invalid parameter paths', () => {
+    const generate = (path: string) =>
+      new CodeGenerator({ modelName: 'test_model', tunableParameters: [path] }).generate(createModel())
+
+    expect(generate('Missing/Kp.gain').warnings[0]).toContain('no subsystem named "Missing"')
+    expect(generate('Controller/Ki.gain').warnings[0]).toContain('no block named "Ki"')
+    expect(generate('Table.extrapolation').warnings[0]).toContain('cannot be tuned')
+    expect(generate('Plant').warnings[0]).toContain('expected "Block.parameter"')
+  })
+})
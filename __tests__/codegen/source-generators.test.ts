@@ -0,0 +1,147 @@
+// __tests__/codegen/source-generators.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { SourceBlockModule } from '@/lib/blocks/SourceBlockModule'
+import { SimulationEngine } from '@/lib/simulationEngine'
+import { compileAndRun, hasCompiler } from '../utils/GeneratedCodeRunner'
+
+const TIME_STEP = 0.01
+const STEPS = 300
+
+function createSource(name: string, parameters: BlockData['parameters']): BlockData {
+  return {
+    id: `${name}_id`,
+    type: 'source',
+    name,
+    position: { x: 0, y: 0 },
+    parameters: { dataType: 'double', ...parameters }
+  }
+}
+
+function simulate(block: BlockData, steps: number): number[] {
+  const engine = new SimulationEngine([block], [], { timeStep: TIME_STEP, duration: steps * TIME_STEP })
+  const values: number[] = []
+  for (let i = 0; i < steps; i++) {
+    engine.executeBlockById(block.id)
+    values.push(engine.getState().blockStates.get(block.id)!.outputs[0] as number)
+    engine.advanceTime(TIME_STEP)
+  }
+  return values
+}
+
+function runGenerated(block: BlockData, steps: number): number[] {
+  const blockModule = new SourceBlockModule()
+  const source = `
+#include <stdio.h>
+#include <stdint.h>
+#include <math.h>
+
+typedef struct {
+    double time;
+    double dt;
+    struct { double ${block.name}; } signals;
+    struct { double ${block.name}_phase; } states;
+} test_model_t;
+
+static void step(test_model_t* model) {
+${blockModule.generateComputation(block, [])}
+}
+
+int main(void) {
+    test_model_t instance = {0};
+    test_model_t* model = &instance;
+    model->dt = ${TIME_STEP};
+${blockModule.generateInitialization(block)}
+    for (int i = 0; i < ${steps}; i++) {
+        step(model);
+        printf("%.17g\\n", model->signals.${block.name});
+        model->time += model->dt;
+    }
+    return 0;
+}
+`
+  return compileAndRun({ 'source.c': source }).map(([value]) => value)
+}
+
+const generators: BlockData[] = [
+  createSource('StepSrc', { signalType: 'step', stepTime: 0.5, stepValue: 2.5 }),
+  createSource('RampSrc', { signalType: 'ramp', slope: 3, startTime: 0.25 }),
+  createSource('SineSrc', { signalType: 'sine', frequency: 2, amplitude: 1.5, phase: 0.3, offset: 0.1 }),
+  createSource('SquareSrc', { signalType: 'square', frequency: 3, amplitude: 2 }),
+  createSource('TriangleSrc', { signalType: 'triangle', frequency: 1.5, amplitude: 0.5 }),
+  createSource('NoiseSrc', { signalType: 'noise', amplitude: 0.2, mean: 1, seed: 42 }),
+  createSource('ChirpSrc', { signalType: 'chirp', f0: 0.5, f1: 5, duration: 2, amplitude: 1 })
+]
+
+describe('Source Block Signal Generators', () => {
+  describe('Code Generation', () => {
+    test.each(generators.map(b => [b.parameters!.signalType, b]))(
+      'should generate real code for %s sources',
+      (_signalType, block) => {
+        const code = new SourceBlockModule().generateComputation(block as BlockData, [])
+        expect(code).not.toContain('TODO')
+        expect(code).not.toContain('Placeholder')
+        expect(code).toContain('model->time')
+      }
+    )
+
+    test('should fill vector outputs with the generated value', () => {
+      const block = createSource('VecSine', { signalType: 'sine', dataType: 'double[3]' })
+      const code = new SourceBlockModule().generateComputation(block, [])
+      expect(code).toContain('for (int i = 0; i < 3; i++)')
+      expect(code).toContain('model->signals.VecSine[i] = VecSine_value;')
+    })
+
+    test('should embed the seed in generated noise code', () => {
+      const block = createSource('Noise', { signalType: 'noise', seed: 1234 })
+      const code = new SourceBlockModule().generateComputation(block, [])
+      expect(code).toContain('1234u')
+    })
+  })
+
+  describe('Noise', () => {
+    test('should be reproducible for the same seed', () => {
+      const block = createSource('Noise', { signalType: 'noise', seed: 7 })
+      expect(simulate(block, 50)).toEqual(simulate(block, 50))
+    })
+
+    test('should differ between seeds', () => {
+      const a = simulate(createSource('Noise', { signalType: 'noise', seed: 1 }), 50)
+      const b = simulate(createSource('Noise', { signalType: 'noise', seed: 2 }), 50)
+      expect(a).not.toEqual(b)
+    })
+
+    test('should not change when evaluated repeatedly within a step', () => {
+      const block = createSource('Noise', { signalType: 'noise', seed: 3 })
+      const engine = new SimulationEngine([block], [], { timeStep: TIME_STEP, duration: 1 })
+      engine.executeBlockById(block.id)
+      const first = engine.getState().blockStates.get(block.id)!.outputs[0]
+      engine.executeBlockById(block.id)
+      expect(engine.getState().blockStates.get(block.id)!.outputs[0]).toBe(first)
+    })
+
+    test('should stay within mean ± amplitude', () => {
+      const values = simulate(createSource('Noise', { signalType: 'noise', amplitude: 0.5, mean: 2, seed: 9 }), 500)
+      for (const value of values) {
+        expect(value).toBeGreaterThanOrEqual(1.5)
+        expect(value).toBeLessThan(2.5)
+      }
+    })
+  })
+
+  const describeIfCompiler = hasCompiler() ? describe : describe.skip
+
+  describeIfCompiler('Generated C matches simulation', () => {
+    test.each(generators.map(b => [b.parameters!.signalType, b]))(
+      '%s source',
+      (_signalType, block) => {
+        const expected = simulate(block as BlockData, STEPS)
+        const actual = runGenerated(block as BlockData, STEPS)
+        expect(actual).toHaveLength(STEPS)
+        for (let i = 0; i < STEPS; i++) {
+          expect(actual[i]).toBeCloseTo(expected[i], 12)
+        }
+      }
+    )
+  })
+})
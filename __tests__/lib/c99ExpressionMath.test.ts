@@ -74,6 +74,38 @@ describe('Math Function Support', () => {
       result = validator.validate(parser.parse())
       expect(result.warnings.length).toBeGreaterThan(0)
     })
+
+    test('accepts math constants and known variables', () => {
+      const validator = new C99ExpressionValidator(1, ['K'])
+      expect(validator.validate(new C99ExpressionParser('in(0) * M_PI / K').parse()).valid).toBe(true)
+
+      const result = validator.validate(new C99ExpressionParser('in(0) * Kp').parse())
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]).toContain("Unknown identifier 'Kp'")
+    })
+
+    test('computes the size of vector expressions', () => {
+      const validator = new C99ExpressionValidator(2, ['K'], { inputs: [3, 0], variables: { K: 3 } })
+      expect(validator.validate(new C99ExpressionParser('in(0) * in(1) + K').parse()).size).toBe(3)
+      expect(validator.validate(new C99ExpressionParser('in(0)[2] + K[0]').parse()).size).toBe(0)
+    })
+
+    test('rejects mismatched vectors and bad indices', () => {
+      const validator = new C99ExpressionValidator(2, ['K'], { inputs: [3, 0], variables: { K: 2 } })
+      const cases = [
+        { expr: 'in(0) + K', error: 'same number of elements, got 3 and 2' },
+        { expr: 'in(0)[3]', error: 'out of range' },
+        { expr: 'in(1)[0]', error: 'is a scalar and cannot be indexed' },
+        { expr: 'in(0)[in(1)]', error: 'must be an integer literal' },
+        { expr: 'out(0)', error: 'can only be assigned' }
+      ]
+
+      for (const { expr, error } of cases) {
+        const result = validator.validate(new C99ExpressionParser(expr).parse())
+        expect(result.valid).toBe(false)
+        expect(result.errors.join('\n')).toContain(error)
+      }
+    })
   })
 
   describe('Evaluator', () => {
@@ -130,6 +162,36 @@ describe('Math Function Support', () => {
       const result = evaluator.evaluate(parser.parse())
       expect(result).toBeCloseTo(5, 6)
     })
+
+    test('evaluates min, max, clamp, sign and hypot', () => {
+      const evaluator = new C99ExpressionEvaluator([3, -4])
+
+      const tests = [
+        { expr: 'min(in(0), in(1))', expected: -4 },
+        { expr: 'max(in(0), in(1))', expected: 3 },
+        { expr: 'clamp(in(0), -1, 1)', expected: 1 },
+        { expr: 'clamp(in(1), -1, 1)', expected: -1 },
+        { expr: 'clamp(0.5, -1, 1)', expected: 0.5 },
+        { expr: 'sign(in(1))', expected: -1 },
+        { expr: 'sign(0)', expected: 0 },
+        { expr: 'hypot(in(0), in(1))', expected: 5 },
+      ]
+
+      for (const test of tests) {
+        const result = evaluator.evaluate(new C99ExpressionParser(test.expr).parse())
+        expect(result).toBeCloseTo(test.expected, 6)
+      }
+    })
+
+    test('evaluates constants, variables and vector elements', () => {
+      const evaluator = new C99ExpressionEvaluator([[1, 2, 3], 10], { K: [0.5, 0.25, 2], gain: 4 })
+
+      expect(evaluator.evaluate(new C99ExpressionParser('M_PI * gain').parse())).toBeCloseTo(4 * Math.PI, 6)
+      expect(evaluator.evaluate(new C99ExpressionParser('in(0)[2] * K[0]').parse())).toBeCloseTo(1.5, 6)
+
+      const elementWise = new C99ExpressionParser('in(0) * K + in(1)').parse()
+      expect([0, 1, 2].map(i => evaluator.evaluateElement(elementWise, i))).toEqual([10.5, 10.5, 16])
+    })
   })
 
   describe('Code Generator', () => {
@@ -162,5 +224,31 @@ describe('Math Function Support', () => {
       expect(code).toBe('(pow(sin(theta), 2) + pow(cos(theta), 2))')
       expect(needsMath).toBe(true)
     })
+
+    test('maps the added functions to C99', () => {
+      const tests = [
+        { expr: 'min(in(0), 1)', expected: 'fmin(x, 1)' },
+        { expr: 'max(in(0), 1)', expected: 'fmax(x, 1)' },
+        { expr: 'clamp(in(0), -1, 1)', expected: 'fmin(fmax(x, (-1)), 1)' },
+        { expr: 'sign(in(0))', expected: '((x) > 0 ? 1.0 : ((x) < 0 ? -1.0 : 0.0))' },
+        { expr: 'hypot(in(0), 1)', expected: 'hypot(x, 1)' },
+      ]
+
+      for (const test of tests) {
+        const { code } = c99ExpressionToCode(new C99ExpressionParser(test.expr).parse(), ['x'])
+        expect(code).toBe(test.expected)
+      }
+    })
+
+    test('writes out constants and indexes vectors', () => {
+      const expr = new C99ExpressionParser('in(0) * K + in(1)[1] * M_PI').parse()
+      const { code } = c99ExpressionToCode(expr, ['u', 'v'], { K: 'model->params.K' }, {
+        elementIndex: 'i',
+        vectorInputs: [0, 1],
+        vectorVariables: ['K']
+      })
+
+      expect(code).toBe(`((u[i] * model->params.K[i]) + (v[1] * ${Math.PI}))`)
+    })
   })
 })
\ No newline at end of file
@@ -0,0 +1,96 @@
+// __tests__/lib/signalPlot.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { WireData } from '@/components/Wire'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { Sheet } from '@/lib/simulationEngine'
+import {
+  buildTimePlot, buildXYTraces, fitDomain, panDomain, pixelsToAxis,
+  readCursors, seriesValues, valueAt, zoomDomain
+} from '@/lib/signalPlot'
+
+describe('Signal display plots', () => {
+  test('builds rows for the last samples of scalar and vector signals', () => {
+    const times = [0, 0.1, 0.2, 0.3]
+
+    expect(buildTimePlot(times, [1, 2, true, 4], 3)).toEqual({
+      rows: [{ time: 0.1, value: 2 }, { time: 0.2, value: 1 }, { time: 0.3, value: 4 }],
+      series: ['value']
+    })
+    expect(buildTimePlot(times, [[1, 2], [3, 4], [5, 6], [7, 8]], 2)).toEqual({
+      rows: [{ time: 0.2, element_0: 5, element_1: 6 }, { time: 0.3, element_0: 7, element_1: 8 }],
+      series: ['element_0', 'element_1']
+    })
+  })
+
+  test('pairs x and y samples into traces, element by element for vectors', () => {
+    expect(buildXYTraces([[0, 1], [1, 0], [0, -1]])).toEqual([
+      [{ x: 0, y: 1 }, { x: 1, y: 0 }, { x: 0, y: -1 }]
+    ])
+    expect(buildXYTraces([[[1, 2], [3, 4]], [[5, 6], [7, 8]]])).toEqual([
+      [{ x: 1, y: 3 }, { x: 5, y: 7 }],
+      [{ x: 2, y: 4 }, { x: 6, y: 8 }]
+    ])
+  })
+
+  test('fits the axis to the values in the visible time window', () => {
+    const { rows, series } = buildTimePlot([0, 1, 2, 3], [0, 10, 2, 4])
+
+    expect(fitDomain(seriesValues(rows, series))).toEqual([-1, 11])
+    expect(fitDomain(seriesValues(rows, series, [1.5, 3]))).toEqual([1.8, 4.2])
+    expect(fitDomain([5, 5])).toEqual([4.5, 5.5])
+    expect(fitDomain([])).toEqual([-1, 1])
+  })
+
+  test('zooms to a dragged range and pans by the dragged distance', () => {
+    expect(zoomDomain(4, 2, [0, 10])).toEqual([2, 4])
+    expect(zoomDomain(2, 2.001, [0, 10])).toBeNull()
+
+    const distance = pixelsToAxis(-50, 200, [2, 4])
+    expect(distance).toBe(-0.5)
+    expect(panDomain([2, 4], distance)).toEqual([1.5, 3.5])
+  })
+
+  test('interpolates values under the cursors and measures between them', () => {
+    const { rows, series } = buildTimePlot([0, 1, 2], [[0, 10], [2, 10], [6, 0]])
+
+    expect(valueAt(rows, 'element_0', 1.5)).toBe(4)
+    expect(valueAt(rows, 'element_0', 2)).toBe(6)
+    expect(valueAt(rows, 'element_0', 3)).toBeNull()
+    expect(readCursors(rows, series, 0.5, 1.5)).toEqual({
+      t1: 0.5,
+      t2: 1.5,
+      deltaT: 1,
+      values: [
+        { series: 'element_0', y1: 1, y2: 4, deltaY: 3 },
+        { series: 'element_1', y1: 10, y2: 5, deltaY: -5 }
+      ]
+    })
+  })
+
+  test('an XY display records both of its inputs at each time step', () => {
+    const block = (id: string, type: string, parameters: Record<string, any>): BlockData =>
+      ({ id, type, name: id, position: { x: 0, y: 0 }, parameters })
+    const wire = (source: string, target: string, targetPortIndex: number): WireData =>
+      ({ id: `${source}_${target}_${targetPortIndex}`, sourceBlockId: source, sourcePortIndex: 0, targetBlockId: target, targetPortIndex })
+
+    const sheet: Sheet = {
+      id: 'main',
+      name: 'Main',
+      blocks: [
+        block('X', 'source', { signalType: 'constant', value: 2 }),
+        block('Y', 'source', { signalType: 'constant', value: -3 }),
+        block('Phase', 'signal_display', { maxSamples: 1000, displayMode: 'xy' }),
+        block('Scope', 'signal_display', { maxSamples: 1000 })
+      ],
+      connections: [wire('X', 'Phase', 0), wire('Y', 'Phase', 1), wire('Y', 'Scope', 0)],
+      extents: { width: 800, height: 600 }
+    }
+
+    const results = new MultiSheetSimulationEngine([sheet], { timeStep: 0.1, duration: 0.3 }).run().get('main')!
+
+    expect(results.signalData.get('Phase')!.length).toBe(results.timePoints.length)
+    expect(results.signalData.get('Phase')![0]).toEqual([2, -3])
+    expect(results.signalData.get('Scope')![0]).toBe(-3)
+  })
+})
@@ -0,0 +1,160 @@
+// __tests__/modelStoreHistory.test.ts
+
+import { useModelStore } from '@/lib/modelStore'
+import { TestModelBuilder } from './utils/TestModelBuilder'
+
+jest.mock('../src/lib/supabaseClient', () => ({
+  supabase: {}
+}))
+
+/**
+ * Gains a -> b and a second sheet, for adding to the store one edit at a time
+ */
+function createModel() {
+  const [{ blocks: [a, b], connections: [wire] }, second] = new TestModelBuilder()
+    .addBlock('scale', 'a', { gain: 1 })
+    .addBlock('scale', 'b', { gain: 1 })
+    .connect('a', 'b')
+    .addSheet('second', 'second')
+    .build()
+    .sheets
+  return { a, b, wire, second }
+}
+
+const { a, b, wire, second } = createModel()
+
+const store = () => useModelStore.getState()
+
+beforeEach(() => {
+  const [main] = new TestModelBuilder().build().sheets
+  useModelStore.setState({
+    sheets: [main],
+    activeSheetId: 'main',
+    blocks: [],
+    wires: [],
+    selectedBlockId: null,
+    selectedWireId: null,
+    configBlock: null
+  })
+  store().clearHistory()
+})
+
+describe('Model store undo/redo', () => {
+  test('undoes and redoes block and wire edits in order', () => {
+    store().addBlock(a)
+    store().addBlock(b)
+    store().addWire(wire)
+
+    store().undo()
+    expect(store().wires).toEqual([])
+
+    store().undo()
+    expect(store().blocks.map(block => block.id)).toEqual(['a'])
+
+    store().redo()
+    store().redo()
+    expect(store().blocks.map(block => block.id)).toEqual(['a', 'b'])
+    expect(store().wires.map(w => w.id)).toEqual([wire.id])
+  })
+
+  test('restores a deleted block together with its wires', () => {
+    store().addBlock(a)
+    store().addBlock(b)
+    store().addWire(wire)
+    store().deleteBlock('b')
+
+    expect(store().wires).toEqual([])
+
+    store().undo()
+    expect(store().blocks.map(block => block.id)).toEqual(['a', 'b'])
+    expect(store().wires.map(w => w.id)).toEqual([wire.id])
+  })
+
+  test('undoes parameter edits', () => {
+    store().addBlock(a)
+    store().updateBlock('a', { parameters: { gain: 5 } })
+    store().undo()
+
+    expect(store().blocks[0].parameters).toEqual({ gain: 1 })
+  })
+
+  test('a new edit clears the redo stack', () => {
+    store().addBlock(a)
+    store().undo()
+    store().addBlock(b)
+    store().redo()
+
+    expect(store().blocks.map(block => block.id)).toEqual(['b'])
+    expect(store().redoStack).toHaveLength(0)
+  })
+
+  test('groups the moves of a drag into one step', () => {
+    store().addBlock(a)
+    store().addBlock(b)
+
+    store().beginHistoryGroup('Move blocks')
+    store().updateBlock('a', { position: { x: 10, y: 0 } })
+    store().updateBlock('b', { position: { x: 20, y: 0 } })
+    store().endHistoryGroup()
+
+    expect(store().undoStack.map(entry => entry.label)).toEqual(['Add block', 'Add block', 'Move blocks'])
+
+    store().undo()
+    expect(store().blocks.map(block => block.position.x)).toEqual([a.position.x, b.position.x])
+
+    store().redo()
+    expect(store().blocks.map(block => block.position.x)).toEqual([10, 20])
+  })
+
+  test('an empty group leaves no history entry', () => {
+    store().beginHistoryGroup('Move blocks')
+    store().endHistoryGroup()
+
+    expect(store().undoStack).toHaveLength(0)
+  })
+
+  test('undo returns to the sheet where the edit was made', () => {
+    const builder = new TestModelBuilder()
+      .addSheet('sub_main', 'sub_main')
+      .addBlock('scale', 'inner', { gain: 1 })
+    const [, inner] = builder.build().sheets
+    const [main] = builder
+      .switchToSheet('main')
+      .addBlock('subsystem', 'sub', { sheets: [inner] })
+      .build()
+      .sheets
+    useModelStore.setState({ sheets: [main], blocks: main.blocks })
+
+    store().switchToSheet('sub_main')
+    store().deleteBlock('inner')
+    store().switchToSheet('main')
+    store().undo()
+
+    expect(store().activeSheetId).toBe('sub_main')
+    expect(store().blocks.map(block => block.id)).toEqual(['inner'])
+  })
+
+  test('undoes grouping into a subsystem in one step', () => {
+    store().addBlock(a)
+    store().addBlock(b)
+    store().addWire(wire)
+    store().groupIntoSubsystem(['b'])
+
+    expect(store().blocks.map(block => block.type)).toEqual(['scale', 'subsystem'])
+
+    store().undo()
+    expect(store().blocks.map(block => block.id)).toEqual(['a', 'b'])
+    expect(store().wires.map(w => w.id)).toEqual([wire.id])
+  })
+
+  test('undoes sheet operations', () => {
+    store().addSheet(second)
+    store().renameSheet('second', 'Renamed')
+
+    store().undo()
+    expect(store().sheets.map(sheet => sheet.name)).toEqual(['Main', 'second'])
+
+    store().undo()
+    expect(store().sheets.map(sheet => sheet.id)).toEqual(['main'])
+  })
+})
@@ -0,0 +1,138 @@
+// __tests__/simulation/adaptive-integration.test.ts
+
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { Sheet, SimulationConfig } from '@/lib/simulationEngine'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+/**
+ * Unit step into H(s) = 1 / (tau s + 1), logged by a signal display
+ */
+function firstOrderSheet(id: string, tau: number): Sheet {
+  const { sheets } = new TestModelBuilder()
+    .addSheet(id, id)
+    .addBlock('source', `${id}_src`, { signalType: 'constant', value: 1, dataType: 'double' })
+    .addBlock('transfer_function', `${id}_tf`, { numerator: [1], denominator: [tau, 1] })
+    .addBlock('signal_display', `${id}_display`)
+    .connect(`${id}_src`, `${id}_tf`)
+    .connect(`${id}_tf`, `${id}_display`)
+    .build()
+  return sheets.find(sheet => sheet.id === id)!
+}
+
+function run(sheets: Sheet[], config: SimulationConfig) {
+  const engine = new MultiSheetSimulationEngine(sheets, config)
+  return { engine, results: engine.run() }
+}
+
+describe('Adaptive RK45 integration', () => {
+  test('matches the analytic step response on the fixed log grid', () => {
+    const { results } = run([firstOrderSheet('main', 1)], {
+      timeStep: 0.1,
+      duration: 1.05,
+      integrationMethod: 'rk45',
+      relativeTolerance: 1e-8,
+      absoluteTolerance: 1e-10
+    })
+    const main = results.get('main')!
+    const values = main.signalData.get('main_display') as number[]
+
+    expect(main.timePoints).toHaveLength(11)
+    expect(main.timePoints[10]).toBeCloseTo(1.0, 10)
+    expect(values[10]).toBeCloseTo(1 - Math.exp(-1), 7)
+  })
+
+  test('substeps through dynamics much faster than the time step', () => {
+    // tau = 1 ms is far outside the RK4 stability region at dt = 10 ms
+    const { engine, results } = run([firstOrderSheet('main', 0.001)], {
+      timeStep: 0.01,
+      duration: 0.2,
+      integrationMethod: 'rk45'
+    })
+    const values = results.get('main')!.signalData.get('main_display') as number[]
+    const statistics = engine.getStepStatistics()
+
+    expect(values[values.length - 1]).toBeCloseTo(1, 3)
+    expect(statistics.acceptedSteps).toBeGreaterThan(20)
+    expect(statistics.smallestStep).toBeLessThan(0.01)
+  })
+
+  test('takes fewer steps with looser tolerances', () => {
+    const stepsWith = (relativeTolerance: number) => run([firstOrderSheet('main', 0.05)], {
+      timeStep: 0.1,
+      duration: 1,
+      integrationMethod: 'rk45',
+      relativeTolerance,
+      absoluteTolerance: relativeTolerance * 1e-3
+    }).engine.getStepStatistics().acceptedSteps
+
+    expect(stepsWith(1e-8)).toBeGreaterThan(stepsWith(1e-2))
+  })
+
+  test('steps past the time step and interpolates onto the log grid', () => {
+    const { engine, results } = run([firstOrderSheet('main', 1)], {
+      timeStep: 0.01,
+      duration: 2,
+      integrationMethod: 'rk45'
+    })
+    const main = results.get('main')!
+    const values = main.signalData.get('main_display') as number[]
+    const statistics = engine.getStepStatistics()
+
+    expect(statistics.largestStep).toBeGreaterThan(0.01)
+    expect(statistics.acceptedSteps).toBeLessThan(100)
+    expect(values).toHaveLength(main.timePoints.length)
+    main.timePoints.forEach((time, i) => expect(values[i]).toBeCloseTo(1 - Math.exp(-time), 4))
+  })
+
+  test('evaluates sources at the stage times of long steps', () => {
+    // The integral of cos(t) is sin(t)
+    const { sheets } = new TestModelBuilder()
+      .addBlock('source', 'src', { signalType: 'sine', amplitude: 1, frequency: 1 / (2 * Math.PI), phase: Math.PI / 2, dataType: 'double' })
+      .addBlock('integrator', 'int')
+      .addBlock('signal_display', 'display')
+      .connect('src', 'int')
+      .connect('int', 'display')
+      .build()
+    const { engine, results } = run(sheets, { timeStep: 0.01, duration: 3, integrationMethod: 'rk45' })
+    const main = results.get('main')!
+    const values = main.signalData.get('display') as number[]
+
+    expect(engine.getStepStatistics().largestStep).toBeGreaterThan(0.01)
+    main.timePoints.forEach((time, i) => expect(values[i]).toBeCloseTo(Math.sin(time), 3))
+  })
+
+  test('ends every step on the log grid when the sheet has discrete states', () => {
+    const { sheets } = new TestModelBuilder()
+      .addBlock('source', 'src', { signalType: 'constant', value: 1, dataType: 'double' })
+      .addBlock('unit_delay', 'delay')
+      .addBlock('transfer_function', 'tf', { numerator: [1], denominator: [1, 1] })
+      .connect('src', 'delay')
+      .connect('delay', 'tf')
+      .build()
+    const { engine } = run(sheets, { timeStep: 0.01, duration: 2, integrationMethod: 'rk45' })
+
+    expect(engine.getStepStatistics().largestStep).toBeLessThanOrEqual(0.01 + 1e-12)
+  })
+
+  test('never steps further than the maximum step', () => {
+    const { engine } = run([firstOrderSheet('main', 1)], {
+      timeStep: 0.1,
+      duration: 1,
+      integrationMethod: 'rk45',
+      maxStep: 0.025
+    })
+
+    expect(engine.getStepStatistics().acceptedSteps).toBeGreaterThanOrEqual(40)
+  })
+
+  test('integrates states inside subsystems', () => {
+    const inner = firstOrderSheet('inner', 0.001)
+    const { sheets } = new TestModelBuilder()
+      .addBlock('subsystem', 'subsystem1', { inputPorts: [], outputPorts: [], sheets: [inner] })
+      .build()
+    const { results } = run(sheets, { timeStep: 0.01, duration: 0.1, integrationMethod: 'rk45' })
+    const values = results.get('inner')!.signalData.get('inner_display') as number[]
+
+    expect(values[values.length - 1]).toBeCloseTo(1, 3)
+  })
+})
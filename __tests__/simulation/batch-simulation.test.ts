@@ -0,0 +1,144 @@
+// __tests__/simulation/batch-simulation.test.ts
+
+import {
+  BatchSimulationSpec,
+  computeOutputMetrics,
+  createBatchCases,
+  runBatchSimulation
+} from '@/lib/simulation/batchSimulation'
+import { Sheet } from '@/lib/simulationEngine'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const CONFIG = { timeStep: 0.01, duration: 1 }
+
+// Source1 -> Controller (In1 -> Kp -> Out1) -> Out1
+function createModel(): Sheet[] {
+  const builder = new TestModelBuilder()
+    .addSheet('Controller_main', 'Controller')
+    .addBlock('input_port', 'CtrlIn', { portName: 'In1', dataType: 'double' })
+    .addBlock('scale', 'Kp', { gain: 2 })
+    .addBlock('output_port', 'CtrlOut', { portName: 'Out1' })
+    .connect('CtrlIn', 'Kp')
+    .connect('Kp', 'CtrlOut')
+  const [, controllerSheet] = builder.build().sheets
+  const [mainSheet] = builder
+    .switchToSheet('main')
+    .addBlock('source', 'Source1', { signalType: 'constant', value: 1, dataType: 'double' })
+    .addBlock('subsystem', 'Controller', { inputPorts: ['In1'], outputPorts: ['Out1'], sheets: [controllerSheet] })
+    .addBlock('output_port', 'Output1', { portName: 'Out1' })
+    .connect('Source1', 'Controller')
+    .connect('Controller', 'Output1')
+    .build()
+    .sheets
+  return [mainSheet]
+}
+
+describe('Batch simulation', () => {
+  test('a sweep runs every combination of the parameter grids', () => {
+    const cases = createBatchCases({
+      mode: 'sweep',
+      parameters: [
+        { path: 'A.gain', values: { type: 'list', values: [1, 2] } },
+        { path: 'B.gain', values: { type: 'range', start: 0, stop: 1, count: 3 } }
+      ],
+      outputs: ['Out1']
+    })
+
+    expect(cases.map(c => c.parameters)).toEqual([
+      { 'A.gain': 1, 'B.gain': 0 },
+      { 'A.gain': 1, 'B.gain': 0.5 },
+      { 'A.gain': 1, 'B.gain': 1 },
+      { 'A.gain': 2, 'B.gain': 0 },
+      { 'A.gain': 2, 'B.gain': 0.5 },
+      { 'A.gain': 2, 'B.gain': 1 }
+    ])
+  })
+
+  test('Monte Carlo draws are repeatable with the same seed', () => {
+    const spec: BatchSimulationSpec = {
+      mode: 'monteCarlo',
+      runs: 50,
+      seed: 42,
+      parameters: [
+        { path: 'A.gain', values: { type: 'uniform', min: 1, max: 2 } },
+        { path: 'B.gain', values: { type: 'normal', mean: 10, standardDeviation: 1 } }
+      ],
+      outputs: ['Out1']
+    }
+
+    const cases = createBatchCases(spec)
+
+    expect(cases).toHaveLength(50)
+    expect(createBatchCases(spec)).toEqual(cases)
+    expect(createBatchCases({ ...spec, seed: 7 })).not.toEqual(cases)
+    expect(cases.every(c => c.parameters['A.gain'] >= 1 && c.parameters['A.gain'] < 2)).toBe(true)
+  })
+
+  test('rejects invalid batches', () => {
+    const sweep: BatchSimulationSpec = {
+      mode: 'sweep',
+      parameters: [{ path: 'A.gain', values: { type: 'uniform', min: 0, max: 1 } }],
+      outputs: ['Out1']
+    }
+
+    expect(() => createBatchCases(sweep)).toThrow('need a Monte Carlo batch')
+    expect(() => createBatchCases({ ...sweep, parameters: [] })).toThrow('at least one parameter')
+    expect(() => createBatchCases({ ...sweep, mode: 'monteCarlo', runs: 0 })).toThrow('Monte Carlo runs')
+    expect(() => createBatchCases({
+      ...sweep,
+      parameters: [{ path: 'A.gain', values: { type: 'range', start: 0, stop: 1, count: 2000 } }]
+    })).toThrow('at most 1000')
+  })
+
+  test('measures overshoot, settling time and final value', () => {
+    const timePoints = [0, 1, 2, 3, 4, 5]
+    const values = [0, 1.5, 0.8, 1.1, 1.01, 1]
+
+    const metrics = computeOutputMetrics(timePoints, values)
+
+    expect(metrics.finalValue).toBe(1)
+    expect(metrics.maxOvershoot).toBeCloseTo(50)
+    expect(metrics.settlingTime).toBe(4)
+  })
+
+  test('measures traces longer than the engine argument limit', () => {
+    const timePoints = Array.from({ length: 500000 }, (_, i) => i)
+    const values = timePoints.map(i => (i === 10 ? 2 : i > 0 ? 1 : 0))
+
+    const metrics = computeOutputMetrics(timePoints, values)
+
+    expect(metrics.maxOvershoot).toBeCloseTo(100)
+  })
+
+  test('applies parameters inside subsystems and summarizes the outputs', () => {
+    const results = runBatchSimulation(createModel(), CONFIG, {
+      mode: 'sweep',
+      parameters: [{ path: 'Controller/Kp.gain', values: { type: 'list', values: [1, 2, 3] } }],
+      outputs: ['Out1']
+    })
+
+    expect(results.runs.map(run => run.error)).toEqual([undefined, undefined, undefined])
+    expect(results.runs.map(run => run.metrics.Out1.finalValue)).toEqual([1, 2, 3])
+    expect(results.runs[0].traces.Out1).toHaveLength(results.runs[0].timePoints.length)
+    expect(results.summary.Out1.finalValue).toMatchObject({ min: 1, max: 3, mean: 2 })
+  })
+
+  test('rejects parameter paths and outputs that are not in the model', () => {
+    const spec: BatchSimulationSpec = {
+      mode: 'sweep',
+      parameters: [{ path: 'Controller/Kp.factor', values: { type: 'list', values: [1] } }],
+      outputs: ['Out1']
+    }
+
+    expect(() => runBatchSimulation(createModel(), CONFIG, spec)).toThrow('has no parameter "factor"')
+    expect(() => runBatchSimulation(createModel(), CONFIG, {
+      ...spec,
+      parameters: [{ path: 'Plant/Kp.gain', values: { type: 'list', values: [1] } }]
+    })).toThrow('no subsystem named "Plant"')
+    expect(() => runBatchSimulation(createModel(), CONFIG, {
+      ...spec,
+      parameters: [{ path: 'Controller/Kp.gain', values: { type: 'list', values: [1] } }],
+      outputs: ['Missing']
+    })).toThrow('No top-level output port named "Missing"')
+  })
+})
@@ -0,0 +1,141 @@
+// __tests__/simulation/discrete-blocks.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '@/lib/blocks/BlockModule'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { SimulationEngine } from '@/lib/simulationEngine'
+import { hasCompiler, runGeneratedModel } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.01
+
+/**
+ * A source feeding the block under test, with the source's parameters
+ */
+function sourceInto(type: string, parameters: BlockData['parameters'], sourceParameters: BlockData['parameters']) {
+  return new TestModelBuilder()
+    .addBlock('source', 'src', { dataType: 'double', ...sourceParameters })
+    .addBlock(type, 'block', parameters)
+    .connect('src', 'block')
+}
+
+// Ramp with slope 1 starting at t = 0, so the input at step k is k * dt
+const RAMP = { signalType: 'ramp', slope: 1, startTime: 0 }
+
+function simulate(builder: TestModelBuilder, blockId: string, steps: number): number[] {
+  const [{ blocks, connections }] = builder.build().sheets
+  const engine = new SimulationEngine(blocks, connections, { timeStep: TIME_STEP, duration: steps * TIME_STEP })
+  const values: number[] = []
+  for (let i = 0; i < steps; i++) {
+    engine.step()
+    values.push(engine.getState().blockStates.get(blockId)!.outputs[0] as number)
+  }
+  return values
+}
+
+describe('Discrete-time blocks', () => {
+  describe('sample hits', () => {
+    test('inherited sample time hits every step', () => {
+      expect(BlockModuleUtils.isSampleHit(0.03, TIME_STEP, -1)).toBe(true)
+    })
+
+    test('slower sample time hits on multiples of its period', () => {
+      const hits = [0, 1, 2, 3, 4, 5].map(k => BlockModuleUtils.isSampleHit(k * TIME_STEP, TIME_STEP, 0.03))
+      expect(hits).toEqual([true, false, false, true, false, false])
+    })
+  })
+
+  describe('simulation', () => {
+    test('unit delay outputs the previous input', () => {
+      const values = simulate(sourceInto('unit_delay', { initialCondition: 5, sampleTime: -1 }, RAMP), 'block', 4)
+
+      expect(values[0]).toBe(5)
+      expect(values[1]).toBeCloseTo(0)
+      expect(values[2]).toBeCloseTo(0.01)
+      expect(values[3]).toBeCloseTo(0.02)
+    })
+
+    test('zero-order hold samples only on its sample hits', () => {
+      const values = simulate(sourceInto('zero_order_hold', { sampleTime: 0.03 }, RAMP), 'block', 7)
+
+      expect(values.map(v => Math.round(v * 100))).toEqual([0, 0, 0, 3, 3, 3, 6])
+    })
+
+    test('discrete transfer function matches its difference equation', () => {
+      // H(z) = 0.5 / (z - 0.5): y[k] = 0.5 y[k-1] + 0.5 u[k-1]
+      const model = sourceInto(
+        'discrete_transfer_function',
+        { numerator: [0.5], denominator: [1, -0.5], sampleTime: -1 },
+        { signalType: 'constant', value: 1 }
+      )
+      const values = simulate(model, 'block', 4)
+
+      expect(values[0]).toBeCloseTo(0)
+      expect(values[1]).toBeCloseTo(0.5)
+      expect(values[2]).toBeCloseTo(0.75)
+      expect(values[3]).toBeCloseTo(0.875)
+    })
+
+    test('discrete integrator accumulates and saturates', () => {
+      const model = sourceInto(
+        'discrete_integrator',
+        { gain: 1, initialCondition: 0, upperLimit: 0.25, sampleTime: 0.01 },
+        { signalType: 'constant', value: 10 }
+      )
+      const values = simulate(model, 'block', 5)
+
+      expect(values[0]).toBeCloseTo(0)
+      expect(values[1]).toBeCloseTo(0.1)
+      expect(values[2]).toBeCloseTo(0.2)
+      expect(values[3]).toBeCloseTo(0.25)
+      expect(values[4]).toBeCloseTo(0.25)
+    })
+
+    test('unit delay breaks a feedback loop', () => {
+      // Accumulator: sum = 1 + delay(sum)
+      const delay: BlockData[] = []
+      const model = new TestModelBuilder()
+        .addBlock('source', 'src', { signalType: 'constant', value: 1, dataType: 'double' })
+        .addBlock('sum', 'sum', { signs: '++', numInputs: 2 })
+        .addBlock('unit_delay', 'delay', { initialCondition: 0, sampleTime: -1 }, delay)
+        .connect('src', 'sum', 0, 0)
+        .connect('delay', 'sum', 0, 1)
+        .connect('sum', 'delay')
+      const values = simulate(model, 'sum', 4)
+
+      expect(values).toEqual([1, 2, 3, 4])
+      expect(BlockModuleFactory.breaksAlgebraicDependency(delay[0])).toBe(true)
+    })
+  })
+
+  describe('code generation', () => {
+    test('generates sampled discrete updates after integration', () => {
+      const { sheets } = new TestModelBuilder()
+        .addInput('Input1')
+        .addBlock('unit_delay', 'Delay1', { initialCondition: 0, sampleTime: 0.1 })
+        .addOutput('Output1')
+        .connectByName('Input1', 'Delay1')
+        .connectByName('Delay1', 'Output1')
+        .build()
+
+      const result = new CodeGenerator({ modelName: 'test_model' }).generate(sheets)
+
+      expect(result.source).toContain('if ((model->rates.rate_0_1.counter == 0u)) {')
+      expect(result.header).toContain('Delay1_state')
+    })
+
+    const testIfCompiler = hasCompiler() ? test : test.skip
+
+    testIfCompiler('initializes integer delay states with the initial condition', () => {
+      const model = sourceInto(
+        'unit_delay',
+        { initialCondition: 5, sampleTime: -1 },
+        { signalType: 'constant', value: [1, 2], dataType: 'long[2]' }
+      )
+      const rows = runGeneratedModel(model.build().sheets, ['signals.block[0]', 'signals.block[1]'], { timeStep: TIME_STEP, steps: 2 })
+
+      expect(rows).toEqual([[5, 5], [1, 2]])
+    })
+  })
+})
@@ -0,0 +1,150 @@
+// __tests__/simulation/evaluate-block.test.ts
+
+import { EvaluateBlockModule } from '@/lib/blocks/EvaluateBlockModule'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { propagateSignalTypes } from '@/lib/signalTypePropagation'
+import { Sheet } from '@/lib/simulationEngine'
+import { validateModelTypeCompatibility } from '@/lib/typeCompatibilityValidator'
+import { WorkspaceVariable, resolveWorkspaceParameters } from '@/lib/workspace'
+import { hasCompiler, runGeneratedSignals } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.1
+const STEPS = 10
+
+const workspace: WorkspaceVariable[] = [
+  { name: 'K', value: [0.5, 1, 2] },
+  { name: 'gain', value: 2 }
+]
+
+/**
+ * A step count k scaling a vector of offsets by workspace variables,
+ * one element of the result picked with a conditional, and k converted
+ * into two outputs of one Evaluate block
+ */
+function createEvaluateModel(): Sheet[] {
+  return new TestModelBuilder()
+    .addBlock('source', 'Steps', { signalType: 'ramp', slope: 10 })
+    .addBlock('source', 'Offsets', { signalType: 'constant', dataType: 'double[3]', value: [1, 2, 3] })
+    .addBlock('evaluate', 'Scaled', { numInputs: 2, expression: 'in(1) * K + in(0) * gain' })
+    .addBlock('evaluate', 'Pick', { numInputs: 1, expression: 'in(0)[0] > 4.5 ? M_PI : clamp(in(0)[0], 0, 1)' })
+    .addBlock('evaluate', 'Polar', {
+      numInputs: 1,
+      numOutputs: 2,
+      expression: 'out(0) = hypot(in(0), 3);\nout(1) = sign(in(0) - 4) * max(in(0), 5);'
+    })
+    .addBlock('signal_display', 'ScaledScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'PickScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'NormScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'SignScope', { maxSamples: 1000 })
+    .connect('Steps', 'Scaled')
+    .connect('Offsets', 'Scaled', 0, 1)
+    .connect('Scaled', 'Pick')
+    .connect('Steps', 'Polar')
+    .connect('Scaled', 'ScaledScope')
+    .connect('Pick', 'PickScope')
+    .connect('Polar', 'NormScope')
+    .connect('Polar', 'SignScope', 1)
+    .build()
+    .sheets
+}
+
+function simulate(sheets: Sheet[], scopes: string[]): unknown[][] {
+  const results = new MultiSheetSimulationEngine(resolveWorkspaceParameters(sheets, workspace), {
+    timeStep: TIME_STEP,
+    duration: STEPS * TIME_STEP
+  }).run().get('main')!
+  // The samples after each step, leaving out the one at the final time
+  return scopes.map(scope => results.signalData.get(scope)!.slice(0, STEPS))
+}
+
+const steps = Array.from({ length: STEPS }, (_, k) => k)
+// [1, 2, 3] * [0.5, 1, 2] + 2k
+const expectedScaled = steps.map(k => [0.5 + 2 * k, 2 + 2 * k, 6 + 2 * k])
+const expectedPick = steps.map(k => 0.5 + 2 * k > 4.5 ? Math.PI : Math.min(0.5 + 2 * k, 1))
+const expectedNorm = steps.map(k => Math.hypot(k, 3))
+const expectedSign = steps.map(k => Math.sign(k - 4) * Math.max(k, 5))
+
+function expectCloseTo(actual: unknown[][], expected: unknown[][]): void {
+  const flatten = (value: unknown): number[] => Array.isArray(value) ? value.flatMap(flatten) : [Number(value)]
+  const actualValues = flatten(actual)
+  const expectedValues = flatten(expected)
+  expect(actualValues).toHaveLength(expectedValues.length)
+  actualValues.forEach((value, i) => expect(value).toBeCloseTo(expectedValues[i], 6))
+}
+
+describe('Evaluate block', () => {
+  test('analyzes multi-output expressions', () => {
+    const params = { numInputs: 1, numOutputs: 2, expression: 'out(0) = in(0); out(0) = 1; out(2) = 0;' }
+    expect(EvaluateBlockModule.analyze(params).errors).toEqual([
+      'out(0) is assigned more than once',
+      'out(2) is out of range. Valid range is 0 to 1',
+      'out(1) is never assigned'
+    ])
+
+    expect(EvaluateBlockModule.analyze({ numInputs: 1, numOutputs: 2, expression: 'in(0)' }).errors)
+      .toEqual(['With 2 outputs, assign each one: out(0) = ...; out(1) = ...;'])
+    expect(EvaluateBlockModule.compile({ numInputs: 2, expression: 'in(0) * 2 + in(1)' }, [3, 0]).size).toBe(3)
+  })
+
+  describe('type propagation', () => {
+    test('propagates vector and multiple outputs', () => {
+      const [sheet] = resolveWorkspaceParameters(createEvaluateModel(), workspace)
+      const { blockOutputTypes, errors } = propagateSignalTypes(sheet.blocks, sheet.connections)
+
+      expect(errors).toEqual([])
+      expect(blockOutputTypes.get('Scaled:0')).toBe('double[3]')
+      expect(blockOutputTypes.get('Pick:0')).toBe('double')
+      expect(blockOutputTypes.get('Polar:1')).toBe('double')
+      expect(validateModelTypeCompatibility(sheet.blocks, sheet.connections).errors).toEqual([])
+    })
+
+    test('reports expressions that do not fit their inputs', () => {
+      const [{ blocks, connections }] = new TestModelBuilder()
+        .addBlock('source', 'A', { dataType: 'double[3]' })
+        .addBlock('source', 'B', { dataType: 'double[2]' })
+        .addBlock('evaluate', 'Sum', { numInputs: 2, expression: 'in(0) + in(1)' })
+        .addBlock('evaluate', 'Element', { numInputs: 1, expression: 'in(0)[3]' })
+        .connect('A', 'Sum')
+        .connect('B', 'Sum', 0, 1)
+        .connect('B', 'Element')
+        .build()
+        .sheets
+      const messages = validateModelTypeCompatibility(blocks, connections).errors.map(error => error.message)
+
+      expect(messages).toContain('Sum: Vector operands must have the same number of elements, got 3 and 2')
+      expect(messages).toContain('Element: Index 3 is out of range for in(0), which has 2 elements')
+    })
+  })
+
+  test('simulates vectors, workspace variables and multiple outputs', () => {
+    expectCloseTo(
+      simulate(createEvaluateModel(), ['ScaledScope', 'PickScope', 'NormScope', 'SignScope']),
+      [expectedScaled, expectedPick, expectedNorm, expectedSign]
+    )
+  })
+
+  describe('code generation', () => {
+    test('reads workspace variables from the parameter struct', () => {
+      const { header, source } = new CodeGenerator({ modelName: 'model', workspace }).generate(createEvaluateModel())
+
+      expect(header).toContain('double Scaled[3];')
+      expect(header).toContain('double Polar_0;')
+      expect(header).toContain('double Polar_1;')
+      expect(source).toContain('model->signals.Scaled[i] = ((_eval_in1[i] * model->params.K[i]) + (_eval_in0 * model->params.gain));')
+      expect(source).toContain(`model->signals.Pick = (((_eval_in0[0] > 4.5)) ? (${Math.PI}) : (fmin(fmax(_eval_in0[0], 0), 1)));`)
+    })
+
+    const testIfCompiler = hasCompiler() ? test : test.skip
+
+    testIfCompiler('generated expressions match the simulation', () => {
+      expectCloseTo(runGeneratedSignals(createEvaluateModel(), [
+        { name: 'Scaled', size: 3 },
+        { name: 'Pick' },
+        { name: 'Polar_0' },
+        { name: 'Polar_1' }
+      ], { timeStep: TIME_STEP, steps: STEPS, workspace }), [expectedScaled, expectedPick, expectedNorm, expectedSign])
+    })
+  })
+})
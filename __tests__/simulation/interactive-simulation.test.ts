@@ -0,0 +1,124 @@
+// __tests__/simulation/interactive-simulation.test.ts
+
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { InteractiveSimulation, InteractiveSimulationStatus } from '@/lib/simulation/InteractiveSimulation'
+import { Sheet, SimulationResults } from '@/lib/simulationEngine'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const CONFIG = { timeStep: 0.01, duration: 1 }
+
+// Source1 -> Gain1 -> Display1
+function createModel(): Sheet[] {
+  return new TestModelBuilder()
+    .addBlock('source', 'Source1', { signalType: 'constant', value: 1, dataType: 'double' })
+    .addBlock('scale', 'Gain1', { gain: 2 })
+    .addBlock('signal_display', 'Display1', { maxSamples: 1000 })
+    .connect('Source1', 'Gain1')
+    .connect('Gain1', 'Display1')
+    .build()
+    .sheets
+}
+
+function createSimulation(realTimeFactor = Infinity) {
+  const updates: Map<string, SimulationResults>[] = []
+  const statuses: InteractiveSimulationStatus[] = []
+  const simulation = new InteractiveSimulation(new MultiSheetSimulationEngine(createModel(), CONFIG), {
+    realTimeFactor,
+    onUpdate: results => updates.push(results),
+    onStatusChange: status => statuses.push(status)
+  })
+  return { simulation, updates, statuses }
+}
+
+const displayValues = (results: Map<string, SimulationResults>) => results.get('main')!.signalData.get('Display1')!
+
+describe('Interactive simulation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('stepping the engine gives the same results as run()', () => {
+    const stepped = new MultiSheetSimulationEngine(createModel(), CONFIG)
+    while (stepped.step()) {
+      // Advance to the end
+    }
+
+    const run = new MultiSheetSimulationEngine(createModel(), CONFIG).run()
+
+    expect(stepped.isFinished()).toBe(true)
+    expect(stepped.getResults()).toEqual(run)
+  })
+
+  test('runs in batches and streams results until finished', () => {
+    const { simulation, updates, statuses } = createSimulation()
+
+    simulation.start()
+    expect(updates).toHaveLength(0)
+
+    jest.runAllTimers()
+
+    expect(statuses).toEqual(['running', 'finished'])
+    expect(displayValues(updates[updates.length - 1])).toHaveLength(100)
+  })
+
+  test('paces the run against the wall clock', () => {
+    const { simulation } = createSimulation(1)
+
+    simulation.start()
+    jest.advanceTimersByTime(500)
+
+    expect(simulation.getTime()).toBeGreaterThan(0.4)
+    expect(simulation.getTime()).toBeLessThanOrEqual(0.51)
+    expect(simulation.getStatus()).toBe('running')
+
+    simulation.stop()
+  })
+
+  test('pauses, single-steps and resumes', () => {
+    const { simulation, statuses } = createSimulation(1)
+
+    simulation.start()
+    jest.advanceTimersByTime(100)
+    simulation.pause()
+    const pausedAt = simulation.getTime()
+
+    jest.advanceTimersByTime(1000)
+    expect(simulation.getTime()).toBe(pausedAt)
+
+    simulation.step()
+    expect(simulation.getTime()).toBeCloseTo(pausedAt + CONFIG.timeStep)
+
+    simulation.start()
+    jest.advanceTimersByTime(2000)
+    expect(statuses).toEqual(['running', 'paused', 'running', 'finished'])
+  })
+
+  test('applies tuned parameters from the next step on', () => {
+    const { simulation, updates } = createSimulation()
+
+    for (let i = 0; i < 3; i++) {
+      simulation.step()
+    }
+    expect(simulation.updateBlockParameters('Gain1', { gain: 5 })).toBe(true)
+    expect(simulation.updateBlockParameters('Display1', { maxSamples: 10 })).toBe(false)
+    simulation.step()
+
+    expect(displayValues(updates[updates.length - 1])).toEqual([2, 2, 2, 5])
+  })
+
+  test('keeps the results collected before a stop', () => {
+    const { simulation, updates, statuses } = createSimulation()
+
+    simulation.step()
+    simulation.stop()
+    simulation.start()
+    jest.runAllTimers()
+
+    expect(statuses).toEqual(['stopped'])
+    expect(displayValues(updates[updates.length - 1])).toHaveLength(1)
+  })
+})
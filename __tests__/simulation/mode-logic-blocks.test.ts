@@ -0,0 +1,167 @@
+// __tests__/simulation/mode-logic-blocks.test.ts
+
+import { MultiportSwitchBlockModule } from '@/lib/blocks/MultiportSwitchBlockModule'
+import { SwitchCaseBlockModule } from '@/lib/blocks/SwitchCaseBlockModule'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { Sheet } from '@/lib/simulationEngine'
+import { hasCompiler, runGeneratedModel } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.1
+const STEPS = 12
+
+/**
+ * A Multiport Switch choosing between the constants 10, 20 and 30 by a
+ * ramp index going from -0.75 to 4.75 in steps of 0.5
+ */
+function createSwitchModel(indexBase: string): Sheet[] {
+  return new TestModelBuilder()
+    .addBlock('source', 'Ramp', { signalType: 'ramp', slope: 5 })
+    .addBlock('source', 'Offset', { signalType: 'constant', value: -0.75 })
+    .addBlock('sum', 'Index', { signs: '++' })
+    .addBlock('source', 'A', { signalType: 'constant', value: 10 })
+    .addBlock('source', 'B', { signalType: 'constant', value: 20 })
+    .addBlock('source', 'C', { signalType: 'constant', value: 30 })
+    .addBlock('multiport_switch', 'Switch', { numInputs: 3, indexBase })
+    .addBlock('signal_display', 'Scope', { maxSamples: 1000 })
+    .addBlock('output_port', 'Out', { portName: 'Out' })
+    .connect('Ramp', 'Index', 0, 0)
+    .connect('Offset', 'Index', 0, 1)
+    .connect('Index', 'Switch', 0, 0)
+    .connect('A', 'Switch', 0, 1)
+    .connect('B', 'Switch', 0, 2)
+    .connect('C', 'Switch', 0, 3)
+    .connect('Switch', 'Scope')
+    .connect('Switch', 'Out')
+    .build()
+    .sheets
+}
+
+// An enabled subsystem scaling its input, added to the main sheet
+function addActionSubsystem(builder: TestModelBuilder, id: string, gain: number): TestModelBuilder {
+  const sheetId = `${id}_sheet`
+  const inner = builder
+    .addSheet(sheetId, id)
+    .addBlock('input_port', `${id}_In`, { portName: 'In' })
+    .addBlock('scale', `${id}_Gain`, { gain })
+    .addBlock('output_port', `${id}_Out`, { portName: 'Out' })
+    .connect(`${id}_In`, `${id}_Gain`)
+    .connect(`${id}_Gain`, `${id}_Out`)
+    .build()
+    .sheets.find(sheet => sheet.id === sheetId)!
+  return builder
+    .switchToSheet('main')
+    .addBlock('subsystem', id, { inputPorts: ['In'], outputPorts: ['Out'], sheets: [inner], showEnableInput: true })
+}
+
+/**
+ * A ramp mode signal going from 0.25 to 5.75 in steps of 0.5, selecting with a
+ * Switch Case between a subsystem scaling the ramp by 10 (mode 1) and one
+ * negating it (modes 2 and 3), merged into one signal
+ */
+function createActionModel(): Sheet[] {
+  const builder = new TestModelBuilder()
+    .addBlock('source', 'Ramp', { signalType: 'ramp', slope: 5 })
+    .addBlock('source', 'Offset', { signalType: 'constant', value: 0.25 })
+    .addBlock('sum', 'Value', { signs: '++' })
+    .addBlock('switch_case', 'Mode', { cases: [1, [2, 3]], showDefaultCase: true })
+  addActionSubsystem(builder, 'Times10', 10)
+  addActionSubsystem(builder, 'Negate', -1)
+  const [main] = builder
+    .addBlock('merge', 'Merge', { numInputs: 2, initialOutput: -5 })
+    .addBlock('signal_display', 'Scope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'DefaultScope', { maxSamples: 1000 })
+    .connect('Ramp', 'Value', 0, 0)
+    .connect('Offset', 'Value', 0, 1)
+    .connect('Value', 'Mode')
+    .connect('Value', 'Times10')
+    .connect('Value', 'Negate')
+    .connect('Mode', 'Times10', 0, -1)
+    .connect('Mode', 'Negate', 1, -1)
+    .connect('Mode', 'DefaultScope', 2)
+    .connect('Times10', 'Merge', 0, 0)
+    .connect('Negate', 'Merge', 0, 1)
+    .connect('Merge', 'Scope')
+    .build()
+    .sheets
+  return [main]
+}
+
+function simulate(sheets: Sheet[], scope = 'Scope'): number[] {
+  const results = new MultiSheetSimulationEngine(sheets, { timeStep: TIME_STEP, duration: STEPS * TIME_STEP })
+    .run().get('main')!
+  // The samples after each step, leaving out the one at the final time
+  return results.signalData.get(scope)!.slice(0, STEPS).map((value: unknown) => Math.round(Number(value) * 1e6) / 1e6 + 0)
+}
+
+/**
+ * Build and run the generated code, printing a signal after each step
+ */
+function runGeneratedCode(sheets: Sheet[], signal: string): number[] {
+  return runGeneratedModel(sheets, [`signals.${signal}`], { timeStep: TIME_STEP, steps: STEPS }).map(([value]) => value)
+}
+
+describe('Mode logic blocks', () => {
+  test('Multiport Switch truncates and clamps the index', () => {
+    expect(MultiportSwitchBlockModule.selectIndex(-3, 1, 3)).toBe(1)
+    expect(MultiportSwitchBlockModule.selectIndex(2.9, 1, 3)).toBe(2)
+    expect(MultiportSwitchBlockModule.selectIndex(7, 1, 3)).toBe(3)
+    expect(MultiportSwitchBlockModule.selectIndex(NaN, 0, 3)).toBe(0)
+    expect(MultiportSwitchBlockModule.selectIndex(2.5, 0, 3)).toBe(2)
+  })
+
+  test('Switch Case selects the first matching case or the default', () => {
+    const cases = SwitchCaseBlockModule.parseCases('1, [2, 3], -4')
+    expect(cases).toEqual([[1], [2, 3], [-4]])
+    expect(SwitchCaseBlockModule.formatCases(cases)).toBe('1, [2, 3], -4')
+    expect(() => SwitchCaseBlockModule.parseCases('1, 2.5')).toThrow('Case values must be integers: 2.5')
+
+    expect(SwitchCaseBlockModule.selectCase(3.7, cases)).toBe(1)
+    expect(SwitchCaseBlockModule.selectCase(-4.2, cases)).toBe(2)
+    expect(SwitchCaseBlockModule.selectCase(0, cases)).toBe(3)
+    expect(SwitchCaseBlockModule.getOutputCount({ cases: [1, [2, 3], -4], showDefaultCase: false })).toBe(3)
+  })
+
+  describe('simulation', () => {
+    test('Multiport Switch selects one- and zero-based inputs', () => {
+      expect(simulate(createSwitchModel('one'))).toEqual([10, 10, 10, 10, 10, 10, 20, 20, 30, 30, 30, 30])
+      expect(simulate(createSwitchModel('zero'))).toEqual([10, 10, 10, 10, 20, 20, 30, 30, 30, 30, 30, 30])
+    })
+
+    test('Merge holds the output of the action subsystem that ran last', () => {
+      expect(simulate(createActionModel(), 'DefaultScope')).toEqual([1, 1, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1])
+      // Both subsystems run in the first step, before the mode is known, and
+      // a subsystem enabled again first outputs the value it computed from
+      // its inputs when it was last disabled
+      expect(simulate(createActionModel())).toEqual([-5, 0, 0, 0, 2.5, 17.5, -0.25, -2.75, -3.25, -3.75, -3.75, -3.75])
+    })
+  })
+
+  describe('code generation', () => {
+    test('generates switch statements and one signal per Switch Case output', () => {
+      const { header, source } = new CodeGenerator({ modelName: 'model' }).generate(createActionModel())
+
+      expect(header).toContain('bool Mode_0;')
+      expect(header).toContain('bool Mode_2;')
+      expect(source).toMatch(/switch \(\(int\)\(\(double\)signals->Value\)\) \{\n\s*case 1:\n\s*model->signals\.Mode_0 = true;/)
+      expect(source).toMatch(/case 2:\n\s*case 3:\n\s*model->signals\.Mode_1 = true;/)
+      expect(source).toMatch(/default:\n\s*model->signals\.Mode_2 = true;/)
+      expect(source).toMatch(/if \(model->enable_states\.Negate_enabled\) \{\n\s*model->signals\.Merge = signals->Negate_Gain;/)
+    })
+
+    const testIfCompiler = hasCompiler() ? test : test.skip
+
+    testIfCompiler('generated Multiport Switch matches the simulation', () => {
+      for (const indexBase of ['one', 'zero']) {
+        expect(runGeneratedCode(createSwitchModel(indexBase), 'Switch')).toEqual(simulate(createSwitchModel(indexBase)))
+      }
+    })
+
+    testIfCompiler('generated Merge holds between action subsystem runs', () => {
+      // Enable states are evaluated at the end of the step, one step after the mode
+      expect(runGeneratedCode(createActionModel(), 'Merge'))
+        .toEqual([-0.25, -0.25, -0.25, 17.5, 22.5, -2.75, -3.25, -3.75, -4.25, -4.25, -4.25, -4.25])
+    })
+  })
+})
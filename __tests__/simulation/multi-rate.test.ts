@@ -0,0 +1,170 @@
+// __tests__/simulation/multi-rate.test.ts
+
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { validateSampleTimes } from '@/lib/sampleTimeValidator'
+import { Sheet, SimulationEngine } from '@/lib/simulationEngine'
+import { hasCompiler, runGeneratedModel } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.001
+
+// Inner 1 kHz loop feeding a 50 Hz outer loop
+function createTwoRateModel(): TestModelBuilder {
+  return new TestModelBuilder('Two rate')
+    .addBlock('input_port', 'Input1', { portName: 'Input1', dataType: 'double' })
+    .addBlock('unit_delay', 'Fast', { sampleTime: 0.001 })
+    .addBlock('zero_order_hold', 'Slow', { sampleTime: 0.02 })
+    .addBlock('scale', 'Gain', { gain: 2 })
+    .addBlock('output_port', 'Output1', { portName: 'Output1' })
+    .connect('Input1', 'Fast')
+    .connect('Fast', 'Slow')
+    .connect('Slow', 'Gain')
+    .connect('Gain', 'Output1')
+}
+
+// A ramp sampled by a gain inside a 5 ms subsystem
+function createSlowSubsystemModel(): Sheet[] {
+  const builder = new TestModelBuilder()
+    .addSheet('inner', 'Inner')
+    .addBlock('input_port', 'In', { portName: 'In' })
+    .addBlock('scale', 'Gain', { gain: 2 })
+    .addBlock('output_port', 'Out', { portName: 'Out' })
+    .connect('In', 'Gain')
+    .connect('Gain', 'Out')
+  const [, inner] = builder.build().sheets
+  const [main] = builder
+    .switchToSheet('main')
+    .addBlock('source', 'Ramp', { signalType: 'ramp', slope: 1, startTime: 0, dataType: 'double' })
+    .addBlock('subsystem', 'Sub', { sheets: [inner], inputPorts: ['In'], outputPorts: ['Out'], sampleTime: 0.005 })
+    .addBlock('output_port', 'Output1', { portName: 'Output1' })
+    .connect('Ramp', 'Sub')
+    .connect('Sub', 'Output1')
+    .build()
+    .sheets
+  return [main]
+}
+
+function createTwoRateEngine(): SimulationEngine {
+  const [{ blocks, connections }] = createTwoRateModel().build().sheets
+  return new SimulationEngine(blocks, connections, { timeStep: TIME_STEP, duration: 0.1 })
+}
+
+describe('Multi-rate scheduling', () => {
+  describe('rate transitions', () => {
+    test('detects wires between different sample rates', () => {
+      const transitions = createTwoRateEngine().getRateTransitions()
+      expect(transitions).toHaveLength(1)
+      expect(transitions[0]).toMatchObject({
+        sourceBlockId: 'Fast',
+        targetBlockId: 'Slow',
+        sourceSampleTime: 0.001,
+        targetSampleTime: 0.02,
+        direction: 'fast_to_slow'
+      })
+    })
+
+    test('blocks without a sample time inherit the rate driving them', () => {
+      const engine = createTwoRateEngine()
+
+      expect(engine.getBlockSampleTime('Gain')).toBe(0.02)
+      expect(engine.getBlockSampleTime('Input1')).toBe(TIME_STEP)
+    })
+  })
+
+  describe('validation', () => {
+    test('warns about rate transitions', () => {
+      const warnings = validateSampleTimes(createTwoRateModel().build().sheets, TIME_STEP)
+
+      expect(warnings).toEqual([{
+        sheetId: 'main',
+        wireId: 'Fast_0_Slow_0',
+        message: 'Rate transition from "Fast" (0.001 s) to "Slow" (0.02 s): "Slow" only samples it every 0.02 s'
+      }])
+    })
+
+    test('warns about sample times that are not multiples of the time step', () => {
+      const { sheets } = new TestModelBuilder()
+        .addBlock('source', 'Ramp', { signalType: 'ramp', slope: 1 })
+        .addBlock('zero_order_hold', 'Hold', { sampleTime: 0.025 })
+        .addBlock('unit_delay', 'Delay', { sampleTime: 0.03 })
+        .connect('Ramp', 'Hold')
+        .build()
+      const messages = validateSampleTimes(sheets, 0.01).map(warning => warning.message)
+
+      expect(messages).toContain('Block "Hold" sample time 0.025 s is not a multiple of the 0.01 s time step, so it runs every 0.03 s')
+      expect(messages.some(message => message.startsWith('Block "Delay"'))).toBe(false)
+    })
+  })
+
+  describe('subsystem sample time', () => {
+    test('discrete blocks inside a subsystem run at its rate', () => {
+      const builder = new TestModelBuilder()
+        .addSheet('inner', 'Inner')
+        .addBlock('source', 'Ramp', { signalType: 'ramp', slope: 1, startTime: 0, dataType: 'double' })
+        .addBlock('zero_order_hold', 'Hold', { sampleTime: -1 })
+        .connect('Ramp', 'Hold')
+      const [, innerSheet] = builder.build().sheets
+      builder
+        .switchToSheet('main')
+        .addBlock('subsystem', 'Sub', { sheets: [innerSheet], inputPorts: [], outputPorts: [], sampleTime: 0.005 })
+      const [rootSheet] = builder.build().sheets
+
+      const engine = new MultiSheetSimulationEngine([rootSheet], { timeStep: TIME_STEP, duration: 0.01 })
+      const first = engine.runSingleStepWithLogging()
+      const second = engine.runSingleStepWithLogging()
+
+      // The hold samples at t = 0 and keeps that value until t = 0.005
+      expect(first.signalValues.get('Hold_output_0')).toBeCloseTo(0, 6)
+      expect(second.signalValues.get('Hold_output_0')).toBeCloseTo(0, 6)
+    })
+
+    test('algebraic blocks inside a subsystem hold their outputs between its sample hits', () => {
+      const engine = new MultiSheetSimulationEngine(createSlowSubsystemModel(), { timeStep: TIME_STEP, duration: 0.012 })
+      const outputs: number[] = []
+      while (engine.step()) {
+        outputs.push(Number(engine.getOutputPortValues().get('Output1')))
+      }
+
+      // The subsystem samples its input every fifth step and holds the gain in between
+      expect(new Set(outputs.slice(0, 6))).toEqual(new Set([0]))
+      expect(outputs[6]).toBeGreaterThan(0)
+      expect(new Set(outputs.slice(6, 11))).toEqual(new Set([outputs[6]]))
+      expect(outputs[11]).toBeGreaterThan(outputs[6])
+    })
+  })
+
+  describe('code generation', () => {
+    const testIfCompiler = hasCompiler() ? test : test.skip
+
+    testIfCompiler('generated subsystem blocks hold their outputs between sample hits', () => {
+      const rows = runGeneratedModel(createSlowSubsystemModel(), ['outputs.Output1'], { timeStep: TIME_STEP, steps: 12 })
+      expect(rows.map(([value]) => value)).toEqual([0, 0, 0, 0, 0, 0.01, 0.01, 0.01, 0.01, 0.01, 0.02, 0.02])
+    })
+
+    test('generates a base-rate step with one counter per rate', () => {
+      const result = new CodeGenerator({ modelName: 'two_rate' }).generate(createTwoRateModel().build().sheets)
+
+      expect(result.header).toContain('rate_counter_t rate_0_001;')
+      expect(result.header).toContain('rate_counter_t rate_0_02;')
+      expect(result.header).toContain('two_rate_rates_t rates;')
+      expect(result.source).toContain('model->rates.rate_0_02.period = (uint32_t)floor(0.02 / dt + 0.5);')
+      expect(result.source).toContain('if (++model->rates.rate_0_02.counter >= model->rates.rate_0_02.period) model->rates.rate_0_02.counter = 0u;')
+      expect(result.source).toContain('(model->rates.rate_0_02.counter == 0u)')
+    })
+
+    test('single-rate models have no rate counters', () => {
+      const { sheets } = new TestModelBuilder()
+        .addBlock('input_port', 'Input1', { portName: 'Input1', dataType: 'double' })
+        .addBlock('unit_delay', 'Delay')
+        .addBlock('output_port', 'Output1', { portName: 'Output1' })
+        .connect('Input1', 'Delay')
+        .connect('Delay', 'Output1')
+        .build()
+      const result = new CodeGenerator({ modelName: 'single_rate' }).generate(sheets)
+
+      expect(result.header).not.toContain('rate_counter_t')
+      expect(result.source).not.toContain('model->rates')
+    })
+  })
+})
@@ -0,0 +1,174 @@
+// __tests__/simulation/nonlinear-blocks.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '@/lib/blocks/BlockModule'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { SimulationEngine } from '@/lib/simulationEngine'
+import { hasCompiler, runGeneratedModel } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.01
+
+/**
+ * A source feeding the block under test, with the source's parameters
+ */
+function sourceInto(type: string, parameters: BlockData['parameters'], sourceParameters: BlockData['parameters']) {
+  return new TestModelBuilder()
+    .addBlock('source', 'src', { dataType: 'double', ...sourceParameters })
+    .addBlock(type, 'block', parameters)
+    .connect('src', 'block')
+}
+
+function constant(value: number | number[], dataType = 'double'): BlockData['parameters'] {
+  return { signalType: 'constant', value, dataType }
+}
+
+// Ramp with slope 1 starting at t = 0, so the input at step k is k * dt
+const RAMP = { signalType: 'ramp', slope: 1, startTime: 0 }
+
+/**
+ * Run the full simulation (with continuous integration) and return the
+ * values seen by a signal display connected to the block under test
+ */
+function simulateContinuous(builder: TestModelBuilder, steps: number): number[] {
+  const { sheets } = builder
+    .addBlock('signal_display', 'display')
+    .connect('block', 'display')
+    .build()
+  const engine = new MultiSheetSimulationEngine(sheets, { timeStep: TIME_STEP, duration: (steps - 0.5) * TIME_STEP })
+  return engine.run().get('main')!.signalData.get('display') as number[]
+}
+
+// The block's output elements after each step
+function simulate(builder: TestModelBuilder, steps: number): number[][] {
+  const [{ blocks, connections }] = builder.build().sheets
+  const engine = new SimulationEngine(blocks, connections, { timeStep: TIME_STEP, duration: steps * TIME_STEP })
+  const values: number[][] = []
+  for (let i = 0; i < steps; i++) {
+    engine.step()
+    values.push(BlockModuleUtils.flattenSignal(engine.getState().blockStates.get('block')!.outputs[0]))
+  }
+  return values
+}
+
+describe('Continuous and nonlinear blocks', () => {
+  describe('integrator', () => {
+    test('integrates a constant input', () => {
+      const values = simulateContinuous(sourceInto('integrator', { initialCondition: 1 }, constant(2)), 11)
+
+      expect(values[0]).toBeCloseTo(1, 6)
+      expect(values[10]).toBeCloseTo(1.2, 6)
+    })
+
+    test('holds the state at its limits', () => {
+      const values = simulateContinuous(sourceInto('integrator', { upperLimit: 0.25 }, constant(10)), 10)
+
+      expect(values[2]).toBeCloseTo(0.2, 6)
+      expect(values[3]).toBeCloseTo(0.25, 6)
+      expect(values[9]).toBeCloseTo(0.25, 6)
+    })
+
+    test('resets to the initial condition while the reset input is nonzero', () => {
+      const model = sourceInto('integrator', { initialCondition: 0.5, showResetInput: true }, constant(1))
+        .addBlock('source', 'rst', { signalType: 'step', stepTime: 0.05, stepValue: 1, dataType: 'double' })
+        .connect('rst', 'block', 0, 1)
+      const values = simulateContinuous(model, 10)
+
+      expect(values[3]).toBeCloseTo(0.53, 6)
+      expect(values[9]).toBeCloseTo(0.5, 6)
+    })
+
+    test('is a one-state block without direct feedthrough', () => {
+      const result: BlockData[] = []
+      new TestModelBuilder().addBlock('integrator', 'int', { showResetInput: true }, result)
+      const [block] = result
+
+      expect(BlockModuleFactory.getContinuousStateOrder(block)).toBe(1)
+      expect(BlockModuleFactory.isDirectFeedthrough(block)).toBe(false)
+      expect(BlockModuleFactory.getBlockModule('integrator').getInputPortCount(block)).toBe(2)
+    })
+  })
+
+  describe('derivative', () => {
+    test('approaches the slope of a ramp', () => {
+      const values = simulateContinuous(sourceInto('derivative', { filterCoefficient: 10 }, RAMP), 100)
+
+      // The filter time constant is 1/N = 0.1 s, so it has settled after 1 s;
+      // holding the input over each step adds a lag of about N * dt / 2
+      expect(Math.abs(values[99] - 1)).toBeLessThan(0.1)
+    })
+  })
+
+  describe('static nonlinearities', () => {
+    test('saturation clamps each element', () => {
+      const [output] = simulate(sourceInto('saturation', { lowerLimit: -1, upperLimit: 2 }, constant([-3, 0.5, 3], 'double[3]')), 1)
+
+      expect(output).toEqual([-1, 0.5, 2])
+    })
+
+    test('dead zone removes the band around zero', () => {
+      const [output] = simulate(sourceInto('dead_zone', { start: -0.5, end: 0.5 }, constant([-2, 0.3, 1.5], 'double[3]')), 1)
+
+      expect(output[0]).toBeCloseTo(-1.5)
+      expect(output[1]).toBe(0)
+      expect(output[2]).toBeCloseTo(1)
+    })
+
+    test('quantizer rounds halfway cases away from zero like C round()', () => {
+      const [output] = simulate(sourceInto('quantizer', { interval: 0.5 }, constant([-0.75, 0.74, 0.75], 'double[3]')), 1)
+
+      expect(output).toEqual([-1, 0.5, 1])
+    })
+  })
+
+  describe('rate limiter', () => {
+    test('limits the rise per sample and holds between sample hits', () => {
+      const model = sourceInto(
+        'rate_limiter',
+        { risingSlewRate: 2, fallingSlewRate: -2, initialCondition: 0, sampleTime: 0.02 },
+        constant(1)
+      )
+      const values = simulate(model, 5)
+
+      expect(values.map(([value]) => Math.round(value * 100))).toEqual([4, 4, 8, 8, 12])
+    })
+  })
+
+  describe('code generation', () => {
+    test('generates state derivatives and limits for the integrator', () => {
+      const { sheets } = new TestModelBuilder()
+        .addBlock('input_port', 'Input1', { portName: 'Input1', dataType: 'double' })
+        .addBlock('integrator', 'Integrator1', { initialCondition: 0, upperLimit: 5, lowerLimit: -5 })
+        .addBlock('saturation', 'Saturation1', { upperLimit: 1, lowerLimit: -1 })
+        .addBlock('output_port', 'Output1', { portName: 'Output1' })
+        .connect('Input1', 'Integrator1')
+        .connect('Integrator1', 'Saturation1')
+        .connect('Saturation1', 'Output1')
+        .build()
+
+      const result = new CodeGenerator({ modelName: 'test_model' }).generate(sheets)
+
+      expect(result.header).toContain('Integrator1_states[1]')
+      expect(result.source).toContain('state_derivatives->Integrator1_states[0]')
+      expect(result.source).toContain('model->states.Integrator1_states[0] = fmin(fmax(model->states.Integrator1_states[0], -5.0), 5.0);')
+      expect(result.source).toContain('fmin(fmax(')
+    })
+
+    const testIfCompiler = hasCompiler() ? test : test.skip
+
+    testIfCompiler('initializes integer states with the initial condition', () => {
+      const { sheets } = new TestModelBuilder()
+        .addBlock('source', 'src', constant(4, 'int32'))
+        .addBlock('discrete_integrator', 'integrator', { gain: 1, initialCondition: 3, sampleTime: -1 })
+        .addBlock('rate_limiter', 'limiter', { risingSlewRate: 2, fallingSlewRate: -2, initialCondition: 4, sampleTime: -1 })
+        .connect('src', 'integrator')
+        .connect('src', 'limiter')
+        .build()
+
+      expect(runGeneratedModel(sheets, ['signals.integrator', 'signals.limiter'], { timeStep: TIME_STEP, steps: 1 }))
+        .toEqual([[3, 4]])
+    })
+  })
+})
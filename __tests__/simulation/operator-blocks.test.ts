@@ -0,0 +1,199 @@
+// __tests__/simulation/operator-blocks.test.ts
+
+import { BitwiseOperatorBlockModule } from '@/lib/blocks/BitwiseOperatorBlockModule'
+import { LogicalOperatorBlockModule } from '@/lib/blocks/LogicalOperatorBlockModule'
+import { RelationalOperatorBlockModule } from '@/lib/blocks/RelationalOperatorBlockModule'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { propagateSignalTypes } from '@/lib/signalTypePropagation'
+import { Sheet } from '@/lib/simulationEngine'
+import { validateModelTypeCompatibility } from '@/lib/typeCompatibilityValidator'
+import { INTEGER_TYPE_FORMATS } from '@/lib/typeValidator'
+import { hasCompiler, runGeneratedSignals } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.1
+const STEPS = 10
+
+/**
+ * A step count k compared with per-channel limits and combined with a
+ * scalar window, and the bits of k combined with a uint8 status word
+ */
+function createOperatorModel(): Sheet[] {
+  return new TestModelBuilder()
+    .addBlock('source', 'Steps', { signalType: 'ramp', slope: 10 })
+    .addBlock('source', 'Limits', { signalType: 'constant', dataType: 'double[3]', value: [1.5, 4.5, 7.5] })
+    .addBlock('source', 'Limit', { signalType: 'constant', value: 5.5 })
+    .addBlock('source', 'Status', { signalType: 'constant', dataType: 'uint8', value: 165 })
+    .addBlock('relational_operator', 'Above', { operator: '>=' })
+    .addBlock('relational_operator', 'Window', { operator: '<' })
+    .addBlock('logical_operator', 'Armed', { operator: 'AND', numInputs: 2 })
+    .addBlock('logical_operator', 'Parity', { operator: 'XOR', numInputs: 3 })
+    .addBlock('data_type_conversion', 'Count', { outputDataType: 'uint8', rounding: 'nearest', saturateOnOverflow: true })
+    .addBlock('bitwise_operator', 'Toggled', { operator: 'XOR', numInputs: 2 })
+    .addBlock('bitwise_operator', 'LowBits', { operator: 'AND', useBitMask: true, bitMask: '0x0F' })
+    .addBlock('bitwise_operator', 'Inverted', { operator: 'NOT' })
+    .addBlock('signal_display', 'ArmedScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'ParityScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'ToggledScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'LowBitsScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'InvertedScope', { maxSamples: 1000 })
+    .connect('Steps', 'Above')
+    .connect('Limits', 'Above', 0, 1)
+    .connect('Steps', 'Window')
+    .connect('Limit', 'Window', 0, 1)
+    .connect('Above', 'Armed')
+    .connect('Window', 'Armed', 0, 1)
+    .connect('Above', 'Parity')
+    .connect('Window', 'Parity', 0, 1)
+    .connect('Armed', 'Parity', 0, 2)
+    .connect('Steps', 'Count')
+    .connect('Status', 'Toggled')
+    .connect('Count', 'Toggled', 0, 1)
+    .connect('Toggled', 'LowBits')
+    .connect('Toggled', 'Inverted')
+    .connect('Armed', 'ArmedScope')
+    .connect('Parity', 'ParityScope')
+    .connect('Toggled', 'ToggledScope')
+    .connect('LowBits', 'LowBitsScope')
+    .connect('Inverted', 'InvertedScope')
+    .build()
+    .sheets
+}
+
+const toNumbers = (value: unknown): unknown => Array.isArray(value) ? value.map(toNumbers) : Number(value)
+
+function simulate(sheets: Sheet[], scopes: string[]): unknown[][] {
+  const results = new MultiSheetSimulationEngine(sheets, { timeStep: TIME_STEP, duration: STEPS * TIME_STEP })
+    .run().get('main')!
+  // The samples after each step, leaving out the one at the final time
+  return scopes.map(scope => results.signalData.get(scope)!.slice(0, STEPS).map(toNumbers))
+}
+
+// k >= [1.5, 4.5, 7.5] while k < 5.5
+const expectedArmed = [
+  [0, 0, 0], [0, 0, 0], [1, 0, 0], [1, 0, 0], [1, 0, 0],
+  [1, 1, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0]
+]
+const expectedParity = [
+  [1, 1, 1], [1, 1, 1], [1, 1, 1], [1, 1, 1], [1, 1, 1],
+  [1, 1, 1], [1, 1, 0], [1, 1, 0], [1, 1, 1], [1, 1, 1]
+]
+const expectedToggled = [165, 164, 167, 166, 161, 160, 163, 162, 173, 172]
+const expectedLowBits = [5, 4, 7, 6, 1, 0, 3, 2, 13, 12]
+const expectedInverted = [90, 91, 88, 89, 94, 95, 92, 93, 82, 83]
+
+describe('Operator blocks', () => {
+  test('evaluate single elements', () => {
+    expect(RelationalOperatorBlockModule.compare('<=', 2, 2)).toBe(true)
+    expect(RelationalOperatorBlockModule.compare('!=', 0.1 + 0.2, 0.3)).toBe(true)
+
+    expect(LogicalOperatorBlockModule.evaluate('XOR', [true, true, true])).toBe(true)
+    expect(LogicalOperatorBlockModule.evaluate('NOR', [false, false])).toBe(true)
+    expect(LogicalOperatorBlockModule.getOptions({ operator: 'NOT', numInputs: 4 }).numInputs).toBe(1)
+
+    // Results wrap to the width of the integer type
+    expect(BitwiseOperatorBlockModule.evaluate('NOT', [5], INTEGER_TYPE_FORMATS.uint8)).toBe(250)
+    expect(BitwiseOperatorBlockModule.evaluate('AND', [-1, 0xF0], INTEGER_TYPE_FORMATS.int8)).toBe(-16)
+    expect(BitwiseOperatorBlockModule.evaluate('OR', [2 ** 40, 1])).toBe(2 ** 40 + 1)
+    expect(BitwiseOperatorBlockModule.parseBitMask('0x0F')).toBe(15)
+    expect(() => BitwiseOperatorBlockModule.parseBitMask('-3')).toThrow("Bit mask must be a non-negative integer, got '-3'")
+  })
+
+  describe('type propagation', () => {
+    test('propagates element-wise bool and integer types', () => {
+      const [sheet] = createOperatorModel()
+      const { blockOutputTypes, errors } = propagateSignalTypes(sheet.blocks, sheet.connections)
+
+      expect(errors).toEqual([])
+      expect(blockOutputTypes.get('Above:0')).toBe('bool[3]')
+      expect(blockOutputTypes.get('Window:0')).toBe('bool')
+      expect(blockOutputTypes.get('Parity:0')).toBe('bool[3]')
+      expect(blockOutputTypes.get('Toggled:0')).toBe('uint8')
+    })
+
+    test('propagates bool from Condition blocks and If blocks', () => {
+      const [{ blocks, connections }] = new TestModelBuilder()
+        .addBlock('source', 'Input', { dataType: 'double' })
+        .addBlock('condition', 'Positive', { condition: '> 0' })
+        .addBlock('source', 'Flags', { dataType: 'bool[2]' })
+        .addBlock('if', 'Select')
+        .addBlock('logical_operator', 'Both', { operator: 'AND' })
+        .addBlock('output_port', 'Out')
+        .connect('Input', 'Positive')
+        .connect('Flags', 'Select')
+        .connect('Positive', 'Select', 0, 1)
+        .connect('Flags', 'Select', 0, 2)
+        .connect('Select', 'Both')
+        .connect('Positive', 'Both', 0, 1)
+        .connect('Both', 'Out')
+        .build()
+        .sheets
+      const { signalTypes, errors } = propagateSignalTypes(blocks, connections)
+
+      expect(errors).toEqual([])
+      expect(signalTypes.get('Positive_0_Select_1')?.type).toBe('bool')
+      expect(signalTypes.get('Select_0_Both_0')?.type).toBe('bool[2]')
+      expect(signalTypes.get('Both_0_Out_0')?.type).toBe('bool[2]')
+    })
+
+    test('reports mismatched dimensions', () => {
+      const [{ blocks, connections }] = new TestModelBuilder()
+        .addBlock('source', 'A', { dataType: 'double[3]' })
+        .addBlock('source', 'B', { dataType: 'double[2]' })
+        .addBlock('relational_operator', 'Compare', { operator: '==' })
+        .connect('A', 'Compare')
+        .connect('B', 'Compare', 0, 1)
+        .build()
+        .sheets
+      const messages = validateModelTypeCompatibility(blocks, connections).errors.map(error => error.message)
+
+      expect(messages).toContain('Compare requires vector and matrix inputs of the same dimensions. Found: double[3], double[2]')
+    })
+
+    test('reports non-integer and mixed bitwise inputs', () => {
+      const [{ blocks, connections }] = new TestModelBuilder()
+        .addBlock('source', 'A', { dataType: 'double' })
+        .addBlock('source', 'C', { dataType: 'int16' })
+        .addBlock('bitwise_operator', 'Bits', { operator: 'OR' })
+        .connect('A', 'Bits')
+        .connect('C', 'Bits', 0, 1)
+        .build()
+        .sheets
+      const messages = validateModelTypeCompatibility(blocks, connections).errors.map(error => error.message)
+
+      expect(messages).toContain('Bits requires integer inputs but received double from A')
+      expect(messages).toContain('Bits requires all inputs to have the same integer type. Found: double, int16. Use a Data Type Conversion block to convert them.')
+    })
+  })
+
+  test('simulates element-wise comparisons, logic and bits', () => {
+    expect(simulate(createOperatorModel(), ['ArmedScope', 'ParityScope', 'ToggledScope', 'LowBitsScope', 'InvertedScope']))
+      .toEqual([expectedArmed, expectedParity, expectedToggled, expectedLowBits, expectedInverted])
+  })
+
+  describe('code generation', () => {
+    test('generates element loops with scalar inputs expanded', () => {
+      const { header, source } = new CodeGenerator({ modelName: 'model' }).generate(createOperatorModel())
+
+      expect(header).toContain('bool Above[3];')
+      expect(header).toContain('uint8_t Toggled;')
+      expect(source).toMatch(/for \(int i = 0; i < 3; i\+\+\) \{\n\s*model->signals\.Above\[i\] = signals->Steps >= signals->Limits\[i\];/)
+      expect(source).toContain('model->signals.Parity[i] = (signals->Above[i] != 0) ^ (signals->Window != 0) ^ (signals->Armed[i] != 0);')
+      expect(source).toContain('model->signals.LowBits = (uint8_t)(signals->Toggled & 0xFUL);')
+      expect(source).toContain('model->signals.Inverted = (uint8_t)(~signals->Toggled);')
+    })
+
+    const testIfCompiler = hasCompiler() ? test : test.skip
+
+    testIfCompiler('generated operators match the simulation', () => {
+      expect(runGeneratedSignals(createOperatorModel(), [
+        { name: 'Armed', size: 3 },
+        { name: 'Parity', size: 3 },
+        { name: 'Toggled' },
+        { name: 'LowBits' },
+        { name: 'Inverted' }
+      ], { timeStep: TIME_STEP, steps: STEPS })).toEqual([expectedArmed, expectedParity, expectedToggled, expectedLowBits, expectedInverted])
+    })
+  })
+})
@@ -0,0 +1,147 @@
+// __tests__/simulation/pid-block.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.01
+
+/**
+ * Error of +1, from the block named err
+ */
+function constantError(builder: TestModelBuilder): TestModelBuilder {
+  return builder.addBlock('source', 'err', { signalType: 'constant', value: 1, dataType: 'double' })
+}
+
+/**
+ * Error of +1 that flips to -1 at t = 0.5
+ */
+function flippingError(builder: TestModelBuilder): TestModelBuilder {
+  return builder
+    .addBlock('source', 'one', { signalType: 'constant', value: 1, dataType: 'double' })
+    .addBlock('source', 'flip', { signalType: 'step', stepTime: 0.5, stepValue: -2, dataType: 'double' })
+    .addBlock('sum', 'err', { signs: '++', numInputs: 2 })
+    .connect('one', 'err', 0, 0)
+    .connect('flip', 'err', 0, 1)
+}
+
+/**
+ * Simulate a PID block driven by the given error and return its output at each step
+ */
+function simulatePID(
+  parameters: BlockData['parameters'],
+  steps: number,
+  addError: (builder: TestModelBuilder) => TestModelBuilder = constantError
+): number[] {
+  const { sheets } = addError(new TestModelBuilder())
+    .addBlock('pid', 'pid', parameters)
+    .addBlock('signal_display', 'display')
+    .connect('err', 'pid')
+    .connect('pid', 'display')
+    .build()
+  const engine = new MultiSheetSimulationEngine(sheets, { timeStep: TIME_STEP, duration: (steps - 0.5) * TIME_STEP })
+  return engine.run().get('main')!.signalData.get('display') as number[]
+}
+
+describe('PID controller block', () => {
+  test('proportional term acts on the current error', () => {
+    const values = simulatePID({ kp: 3, ki: 0, kd: 0 }, 3)
+
+    expect(values).toEqual([3, 3, 3])
+  })
+
+  test('parallel form integrates the error with Ki', () => {
+    const values = simulatePID({ kp: 0, ki: 2, kd: 0 }, 11)
+
+    expect(values[10]).toBeCloseTo(0.2, 6)
+  })
+
+  test('ideal form scales the integral term by Kp', () => {
+    const values = simulatePID({ form: 'ideal', kp: 2, ki: 3, kd: 0 }, 11)
+
+    expect(values[0]).toBeCloseTo(2, 6)
+    expect(values[10]).toBeCloseTo(2 + 2 * 3 * 0.1, 6)
+  })
+
+  test('filtered derivative decays after a step in the error', () => {
+    const values = simulatePID({ kp: 0, ki: 0, kd: 1, filterCoefficient: 10 }, 101)
+
+    // D·N·(e - xf) starts at N and decays with time constant 1/N
+    expect(values[0]).toBeCloseTo(10, 6)
+    expect(values[10]).toBeCloseTo(10 * Math.exp(-1), 3)
+    expect(Math.abs(values[100])).toBeLessThan(1e-3)
+  })
+
+  test('output is saturated to the limits', () => {
+    const values = simulatePID({ kp: 5, ki: 0, kd: 0, upperLimit: 2, lowerLimit: -2 }, 2)
+
+    expect(values).toEqual([2, 2])
+  })
+
+  describe('anti-windup', () => {
+    const saturated = { kp: 0, ki: 10, kd: 0, upperLimit: 0.5, lowerLimit: -0.5 }
+
+    test('without anti-windup the integral winds up past the limit', () => {
+      const values = simulatePID({ ...saturated, antiWindup: 'none' }, 61, flippingError)
+
+      // The integral reached 0.5 (output 5) and takes 0.45 s to come back
+      expect(values[60]).toBe(0.5)
+    })
+
+    test('clamping stops integrating while saturated', () => {
+      const values = simulatePID({ ...saturated, antiWindup: 'clamping' }, 61, flippingError)
+
+      expect(values[49]).toBeCloseTo(0.5, 6)
+      expect(values[60]).toBeCloseTo(0.5 - 10 * 0.1, 1)
+    })
+
+    test('back-calculation bleeds the integral back to the limit', () => {
+      const values = simulatePID({ ...saturated, antiWindup: 'back_calculation', backCalculationGain: 10 }, 61, flippingError)
+
+      expect(values[49]).toBe(0.5)
+      expect(values[60]).toBeLessThan(0.5)
+    })
+  })
+
+  test('external reset holds the integral at its initial condition', () => {
+    const values = simulatePID(
+      { kp: 0, ki: 1, kd: 0, initialCondition: 0.5, showResetInput: true },
+      10,
+      builder => constantError(builder)
+        .addBlock('source', 'rst', { signalType: 'step', stepTime: 0.05, stepValue: 1, dataType: 'double' })
+        .connect('rst', 'pid', 0, 1)
+    )
+
+    expect(values[3]).toBeCloseTo(0.53, 6)
+    expect(values[9]).toBeCloseTo(0.5, 6)
+  })
+
+  test('has two continuous states per element and direct feedthrough', () => {
+    const result: BlockData[] = []
+    new TestModelBuilder().addBlock('pid', 'pid', { showResetInput: true }, result)
+    const [block] = result
+
+    expect(BlockModuleFactory.getContinuousStateOrder(block)).toBe(2)
+    expect(BlockModuleFactory.isDirectFeedthrough(block)).toBe(true)
+    expect(BlockModuleFactory.getBlockModule('pid').getInputPortCount(block)).toBe(2)
+  })
+
+  test('generates state derivatives with clamping anti-windup', () => {
+    const { sheets } = new TestModelBuilder()
+      .addBlock('input_port', 'Input1', { portName: 'Input1', dataType: 'double' })
+      .addBlock('pid', 'PID1', { kp: 2, ki: 1, kd: 0.5, filterCoefficient: 100, upperLimit: 10, lowerLimit: -10 })
+      .addBlock('output_port', 'Output1', { portName: 'Output1' })
+      .connect('Input1', 'PID1')
+      .connect('PID1', 'Output1')
+      .build()
+
+    const result = new CodeGenerator({ modelName: 'test_model' }).generate(sheets)
+
+    expect(result.header).toContain('double PID1_states[2];')
+    expect(result.source).toContain('const double v = 2.0 * e + 1.0 * current_states->PID1_states[0] + 50.0 * (e - current_states->PID1_states[1]);')
+    expect(result.source).toContain('if ((v > 10.0 && 1.0 * e > 0.0) || (v < -10.0 && 1.0 * e < 0.0)) state_derivatives->PID1_states[0] = 0.0;')
+    expect(result.source).toContain('state_derivatives->PID1_states[1] = 100.0 * (e - current_states->PID1_states[1]);')
+  })
+})
@@ -0,0 +1,99 @@
+// __tests__/simulation/run-history.test.ts
+
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { Sheet } from '@/lib/simulationEngine'
+import {
+  addRun,
+  compareTraces,
+  createSimulationRun,
+  describeParameterChanges,
+  getSignalTrace
+} from '@/lib/simulation/runHistory'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+// A gain inside a subsystem, with a scope at the top level and inside the subsystem
+function createModel(gain: number): Sheet[] {
+  const builder = new TestModelBuilder()
+    .addSheet('inner', 'Inner')
+    .addBlock('input_port', 'In', { portName: 'In' })
+    .addBlock('scale', 'Gain', { gain })
+    .addBlock('signal_logger', 'InnerScope')
+    .addBlock('output_port', 'Out', { portName: 'Out' })
+    .connect('In', 'Gain')
+    .connect('Gain', 'Out')
+    .connect('Gain', 'InnerScope')
+  const [, inner] = builder.build().sheets
+  const [main] = builder
+    .switchToSheet('main')
+    .addBlock('source', 'Step', { signalType: 'constant', value: 2 })
+    .addBlock('subsystem', 'Controller', { inputPorts: ['In'], outputPorts: ['Out'], sheets: [inner] })
+    .addBlock('signal_display', 'Scope', { maxSamples: 1000 })
+    .connect('Step', 'Controller')
+    .connect('Controller', 'Scope')
+    .build()
+    .sheets
+  return [main]
+}
+
+function runModel(id: number, gain: number, timeStep = 0.1) {
+  const sheets = createModel(gain)
+  const results = new MultiSheetSimulationEngine(sheets, { timeStep, duration: 1 }).run()
+  return createSimulationRun(id, { modelVersion: 3, sheets, workspace: [{ name: 'k', value: gain }], results })
+}
+
+describe('Simulation run history', () => {
+  test('keeps only the most recent runs', () => {
+    const runs = [1, 2, 3].reduce((kept, id) => addRun(kept, runModel(id, 1), 2), [] as ReturnType<typeof runModel>[])
+
+    expect(runs.map(run => run.id)).toEqual([2, 3])
+  })
+
+  test('lists logged signals inside subsystems and reads their traces', () => {
+    const run = runModel(1, 1.5)
+
+    expect(run.signals.map(signal => [signal.key, signal.path])).toEqual([
+      ['inner/InnerScope', 'Controller/InnerScope'],
+      ['main/Scope', 'Scope']
+    ])
+    const trace = getSignalTrace(run, 'inner/InnerScope')!
+    expect(trace.time.length).toBeGreaterThan(0)
+    expect(trace.values[trace.values.length - 1]).toEqual([3])
+    expect(getSignalTrace(run, 'main/Missing')).toBeNull()
+  })
+
+  test('describes the parameter and workspace changes between runs', () => {
+    expect(describeParameterChanges(runModel(1, 1.5), runModel(2, 2))).toEqual([
+      'Controller/Gain.gain: 1.5 → 2',
+      'Workspace k: 1.5 → 2'
+    ])
+  })
+
+  test('compares runs with different time steps within a tolerance band', () => {
+    const reference = getSignalTrace(runModel(1, 1.5), 'main/Scope')!
+    const sameModel = getSignalTrace(runModel(2, 1.5, 0.05), 'main/Scope')!
+    const changedModel = getSignalTrace(runModel(3, 1.6), 'main/Scope')!
+    const tolerance = { absoluteTolerance: 1e-6, relativeTolerance: 0.01 }
+
+    const same = compareTraces(reference, sameModel, tolerance)
+    expect(same.passed).toBe(true)
+    // Only the times both runs cover are compared
+    expect(same.time.length).toBeGreaterThanOrEqual(10)
+    expect(same.time).toEqual(reference.time.slice(0, same.time.length))
+
+    const changed = compareTraces(reference, changedModel, tolerance)
+    expect(changed.passed).toBe(false)
+    expect(changed.maxDifference).toBeCloseTo(0.2)
+    expect(changed.band[changed.band.length - 1][0]).toBeCloseTo(0.03)
+    expect(changed.firstViolation).toEqual({ time: expect.any(Number), element: 0 })
+  })
+
+  test('interpolates the candidate between its samples', () => {
+    const reference = { time: [0, 0.5, 1], values: [[0], [1], [2]] }
+    const candidate = { time: [0, 1], values: [[0], [2]] }
+
+    const comparison = compareTraces(reference, candidate, { absoluteTolerance: 1e-9, relativeTolerance: 0 })
+    expect(comparison.difference).toEqual([[0], [0], [0]])
+    expect(() => compareTraces(reference, { time: [0], values: [[0, 1]] }, { absoluteTolerance: 0, relativeTolerance: 0 }))
+      .toThrow('Cannot compare signals of different widths (1 and 2)')
+  })
+})
@@ -0,0 +1,207 @@
+// __tests__/simulation/simulation-worker.test.ts
+
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { BatchSimulationResults } from '@/lib/simulation/batchSimulation'
+import { InteractiveSimulationStatus } from '@/lib/simulation/InteractiveSimulation'
+import { SimulationWorkerClient, SimulationWorkerLike } from '@/lib/simulation/SimulationWorkerClient'
+import { createSimulationWorkerHandler } from '@/lib/simulation/simulationWorkerHandler'
+import {
+  SheetRunOutputs,
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+  decodeResults,
+  encodeResults
+} from '@/lib/simulation/simulationWorkerProtocol'
+import { Sheet, SimulationResults } from '@/lib/simulationEngine'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const CONFIG = { timeStep: 0.01, duration: 1 }
+
+// Source1 -> Gain1 -> Display1, Gain1 -> Output1
+function createModel(): Sheet[] {
+  return new TestModelBuilder()
+    .addBlock('source', 'Source1', { signalType: 'constant', value: 1, dataType: 'double' })
+    .addBlock('scale', 'Gain1', { gain: 2 })
+    .addBlock('signal_display', 'Display1', { maxSamples: 1000 })
+    .addBlock('output_port', 'Output1', { portName: 'Out1' })
+    .connect('Source1', 'Gain1')
+    .connect('Gain1', 'Display1')
+    .connect('Gain1', 'Output1')
+    .build()
+    .sheets
+}
+
+/**
+ * Connects a client to the worker's handler in-process
+ */
+class LoopbackWorker implements SimulationWorkerLike {
+  onmessage: ((event: MessageEvent<SimulationWorkerResponse>) => void) | null = null
+  terminated = false
+  private handle = createSimulationWorkerHandler(message => {
+    this.onmessage?.({ data: message } as MessageEvent<SimulationWorkerResponse>)
+  })
+
+  postMessage(message: SimulationWorkerRequest): void {
+    if (!this.terminated) {
+      this.handle(message)
+    }
+  }
+
+  terminate(): void {
+    this.terminated = true
+    this.handle({ type: 'cancel' })
+  }
+}
+
+function createClient() {
+  const worker = new LoopbackWorker()
+  const updates: Map<string, SimulationResults>[] = []
+  const statuses: InteractiveSimulationStatus[] = []
+  const progress: number[] = []
+  const completed: SheetRunOutputs[][] = []
+  const errors: string[] = []
+  const batches: BatchSimulationResults[] = []
+  const client = new SimulationWorkerClient(worker, {
+    onResults: results => updates.push(results),
+    onStatusChange: status => statuses.push(status),
+    onProgress: (time, duration) => progress.push(time / duration),
+    onComplete: outputs => completed.push(outputs),
+    onError: message => errors.push(message),
+    onBatchProgress: (done, total) => progress.push(done / total),
+    onBatchComplete: results => batches.push(results)
+  })
+  return { client, worker, updates, statuses, progress, completed, errors, batches }
+}
+
+describe('Simulation worker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('encodes results into typed arrays and back', () => {
+    const results = new Map<string, SimulationResults>([['main', {
+      timePoints: [0, 0.1],
+      signalData: new Map([
+        ['Scalar', [1.5, -2]],
+        ['Vector', [[1, 2, 3], [4, 5, 6]]],
+        ['Matrix', [[[1, 2], [3, 4]], [[5, 6], [7, 8]]]],
+        ['Flag', [true, false]],
+        ['Empty', [[], []]]
+      ]),
+      finalTime: 0.1
+    }]])
+
+    const encoded = encodeResults(results)
+
+    expect(encoded[0].timePoints).toBeInstanceOf(Float64Array)
+    expect(encoded[0].signals.map(signal => signal.shape)).toEqual([[], [3], [2, 2], [], [0]])
+    expect(decodeResults(encoded)).toEqual(results)
+  })
+
+  test('streams progress and partial results, then the final results', () => {
+    const { client, updates, statuses, progress, completed } = createClient()
+
+    client.start(createModel(), CONFIG, Infinity)
+    jest.runAllTimers()
+
+    expect(statuses).toEqual(['running', 'finished'])
+    expect(progress.length).toBeGreaterThan(0)
+    expect(progress[progress.length - 1]).toBeCloseTo(1)
+
+    const expected = new MultiSheetSimulationEngine(createModel(), CONFIG).run()
+    expect(updates[updates.length - 1]).toEqual(expected)
+
+    expect(completed).toHaveLength(1)
+    expect(completed[0][0].sheetId).toBe('main')
+    expect(completed[0][0].outputPortValues).toEqual([['Out1', 2]])
+  })
+
+  test('partial results add up to the samples produced so far', () => {
+    const { client, updates } = createClient()
+
+    client.start(createModel(), CONFIG, 1)
+    jest.advanceTimersByTime(300)
+    client.pause()
+    client.step()
+
+    const display = updates[updates.length - 1].get('main')!.signalData.get('Display1')!
+    const timePoints = updates[updates.length - 1].get('main')!.timePoints
+    expect(display.length).toBe(timePoints.length)
+    expect(display.length).toBeGreaterThan(1)
+    expect(display.every(value => value === 2)).toBe(true)
+
+    client.cancel()
+  })
+
+  test('cancelling keeps the results collected so far', () => {
+    const { client, updates, statuses, completed } = createClient()
+
+    client.start(createModel(), CONFIG, 1)
+    jest.advanceTimersByTime(200)
+    client.cancel()
+    jest.runAllTimers()
+
+    expect(statuses).toEqual(['running', 'stopped'])
+    expect(completed).toHaveLength(1)
+    const samples = updates[updates.length - 1].get('main')!.signalData.get('Display1')!
+    expect(samples.length).toBeGreaterThan(0)
+    expect(samples.length).toBeLessThan(100)
+  })
+
+  test('applies tuned parameters inside the worker', () => {
+    const { client, updates } = createClient()
+
+    client.start(createModel(), CONFIG, 1)
+    client.pause()
+    client.step()
+    client.updateBlockParameters('Gain1', { gain: 5 })
+    client.step()
+
+    expect(updates[updates.length - 1].get('main')!.signalData.get('Display1')).toEqual([2, 5])
+    client.cancel()
+  })
+
+  test('reports a failing step and stops the run', () => {
+    const step = jest.spyOn(MultiSheetSimulationEngine.prototype, 'step').mockImplementation(() => {
+      throw new Error('Step failed')
+    })
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const { client, statuses, errors, completed } = createClient()
+
+    client.start(createModel(), CONFIG, Infinity)
+    jest.runAllTimers()
+
+    expect(errors).toEqual(['Step failed'])
+    expect(statuses).toEqual(['running', 'stopped'])
+    expect(completed).toHaveLength(1)
+    step.mockRestore()
+    consoleError.mockRestore()
+  })
+
+  test('runs a batch one case at a time until cancelled', () => {
+    const { client, progress, batches } = createClient()
+    const spec = {
+      mode: 'sweep' as const,
+      parameters: [{ path: 'Gain1.gain', values: { type: 'list' as const, values: [1, 2, 3] } }],
+      outputs: ['Out1']
+    }
+
+    client.startBatch(createModel(), CONFIG, spec)
+    jest.runAllTimers()
+
+    expect(progress).toEqual([1 / 3, 2 / 3, 1])
+    expect(batches[0].runs.map(run => run.metrics.Out1.finalValue)).toEqual([1, 2, 3])
+
+    client.startBatch(createModel(), CONFIG, spec)
+    jest.runOnlyPendingTimers()
+    client.cancel()
+    jest.runAllTimers()
+
+    expect(batches).toHaveLength(2)
+    expect(batches[1].runs).toHaveLength(1)
+  })
+})
@@ -0,0 +1,138 @@
+// __tests__/simulation/state-chart-block.test.ts
+
+import { StateChartBlockModule, StateChartDefinition } from '@/lib/blocks/StateChartBlockModule'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { Sheet } from '@/lib/simulationEngine'
+import { hasCompiler, runGeneratedModel } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.1
+const STEPS = 12
+
+/**
+ * Controller mode logic driven by the step count k: commanded on from
+ * step 1 to 9, with a fault from step 6 to 7. Arming takes two steps.
+ */
+const modeLogic: StateChartDefinition = {
+  inputs: ['k'],
+  outputs: [
+    { name: 'mode', initialValue: -1 },
+    { name: 'count' },
+    { name: 'faults' }
+  ],
+  states: [
+    { name: 'Idle', entry: 'mode = 0; count = 0' },
+    { name: 'Arming', entry: 'mode = 1; count = 0', during: 'count = count + 1' },
+    { name: 'Active', entry: 'mode = 2' },
+    { name: 'Fault', entry: 'mode = 3' }
+  ],
+  transitions: [
+    { from: 'Idle', to: 'Arming', guard: 'k > 0.5 && k < 9.5' },
+    { from: 'Arming', to: 'Fault', guard: 'k > 5.5 && k < 7.5' },
+    { from: 'Arming', to: 'Active', guard: 'count >= 2' },
+    { from: 'Active', to: 'Fault', guard: 'k > 5.5 && k < 7.5' },
+    { from: 'Active', to: 'Idle', guard: 'k > 9.5' },
+    { from: 'Fault', to: 'Idle', guard: '!(k > 5.5 && k < 7.5)', action: 'faults = faults + 1' }
+  ],
+  initialState: 'Idle'
+}
+
+function createChartModel(): Sheet[] {
+  return new TestModelBuilder()
+    .addBlock('source', 'Steps', { signalType: 'ramp', slope: 10 })
+    .addBlock('state_chart', 'Chart', { ...modeLogic })
+    .addBlock('signal_display', 'ModeScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'CountScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'FaultScope', { maxSamples: 1000 })
+    .connect('Steps', 'Chart')
+    .connect('Chart', 'ModeScope', 0)
+    .connect('Chart', 'CountScope', 1)
+    .connect('Chart', 'FaultScope', 2)
+    .build()
+    .sheets
+}
+
+function simulate(sheets: Sheet[], scopes: string[]): number[][] {
+  const results = new MultiSheetSimulationEngine(sheets, { timeStep: TIME_STEP, duration: STEPS * TIME_STEP })
+    .run().get('main')!
+  // The samples after each step, leaving out the one at the final time
+  return scopes.map(scope => results.signalData.get(scope)!.slice(0, STEPS).map(Number))
+}
+
+/**
+ * Build and run the generated code, printing signals after each step
+ */
+function runGeneratedCode(sheets: Sheet[], signals: string[]): number[][] {
+  const rows = runGeneratedModel(sheets, signals.map(signal => `signals.${signal}`), { timeStep: TIME_STEP, steps: STEPS })
+  return signals.map((_, k) => rows.map(row => row[k]))
+}
+
+const expectedMode = [0, 1, 1, 1, 2, 2, 3, 3, 0, 1, 1, 1]
+const expectedCount = [0, 0, 1, 2, 2, 2, 2, 2, 0, 0, 1, 2]
+const expectedFaults = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1]
+
+describe('State Chart block', () => {
+  test('takes the first transition whose guard is true', () => {
+    const chart = StateChartBlockModule.compile(modeLogic)
+
+    // The first step enters the initial state
+    let result = StateChartBlockModule.step(chart, -1, [-1, 0, 0], [0])
+    expect(result).toEqual({ activeState: 0, variables: [0, 0, 0] })
+
+    // Arming with the count reached, but the fault transition is checked first
+    result = StateChartBlockModule.step(chart, 1, [1, 2, 0], [6])
+    expect(result).toEqual({ activeState: 3, variables: [3, 2, 0] })
+
+    // No guard true: the during action runs
+    result = StateChartBlockModule.step(chart, 1, [1, 1, 0], [3])
+    expect(result).toEqual({ activeState: 1, variables: [1, 2, 0] })
+  })
+
+  test('reports invalid charts', () => {
+    const errors = StateChartBlockModule.validate({
+      ...modeLogic,
+      states: [
+        { name: 'Idle', entry: 'k = 1' },
+        { name: 'Active', during: 'mode = speed * 2' }
+      ],
+      transitions: [
+        { from: 'Idle', to: 'Missing', guard: 'k > 1' },
+        { from: 'Idle', to: 'Active', guard: 'k >' }
+      ]
+    })
+
+    expect(errors).toEqual([
+      "Idle entry: 'k' is not an output",
+      "Active during: Unknown identifier 'speed'. Known names: k, mode, count, faults",
+      "Idle -> Missing: unknown state 'Missing'",
+      expect.stringMatching(/^Idle -> Active guard: Unexpected token/)
+    ])
+    expect(StateChartBlockModule.validate(modeLogic)).toEqual([])
+  })
+
+  test('simulates the mode logic', () => {
+    expect(simulate(createChartModel(), ['ModeScope', 'CountScope', 'FaultScope']))
+      .toEqual([expectedMode, expectedCount, expectedFaults])
+  })
+
+  describe('code generation', () => {
+    test('generates a switch on the active state kept in the state struct', () => {
+      const { header, source } = new CodeGenerator({ modelName: 'model' }).generate(createChartModel())
+
+      expect(header).toContain('int Chart_active_state;')
+      expect(header).toContain('double Chart_data[3];')
+      expect(source).toContain('model->states.Chart_active_state = -1;')
+      expect(source).toContain('switch (model->signals.Chart_active_state) {')
+      expect(source).toMatch(/case 1: \/\* Arming \*\/\n\s*if \(.*\) \{ \/\* k > 5\.5 && k < 7\.5 -> Fault \*\/\n\s*model->signals\.Chart_0 = 3; \/\* entry: mode = 3 \*\/\n\s*model->signals\.Chart_active_state = 3;/)
+      expect(source).toContain('model->states.Chart_active_state = model->signals.Chart_active_state;')
+    })
+
+    const testIfCompiler = hasCompiler() ? test : test.skip
+
+    testIfCompiler('generated chart matches the simulation', () => {
+      expect(runGeneratedCode(createChartModel(), ['Chart_0', 'Chart_1', 'Chart_2']))
+        .toEqual([expectedMode, expectedCount, expectedFaults])
+    })
+  })
+})
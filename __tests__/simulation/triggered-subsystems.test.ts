@@ -0,0 +1,169 @@
+// __tests__/simulation/triggered-subsystems.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { SubsystemBlockModule } from '@/lib/blocks/SubsystemBlockModule'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { Sheet } from '@/lib/simulationEngine'
+import { hasCompiler, runGeneratedModel } from '../utils/GeneratedCodeRunner'
+import { TestModelBuilder } from '../utils/TestModelBuilder'
+
+const TIME_STEP = 0.1
+const STEPS = 12
+
+type SubsystemParameters = BlockData['parameters']
+
+/**
+ * A subsystem that samples a ramp and counts its executions with a unit
+ * delay, controlled by a 2.5 Hz square wave switching between 0.5 and -0.5
+ * (trigger) or between 1 and 0 (enable). A continuous lag can be added
+ * to the subsystem.
+ */
+function createModel(subsystemParameters: SubsystemParameters, withLag = false): Sheet[] {
+  const builder = new TestModelBuilder()
+    .addSheet('inner', 'Inner')
+    .addBlock('input_port', 'In', { portName: 'In' })
+    .addBlock('scale', 'Sample', { gain: 1 })
+    .addBlock('source', 'One', { signalType: 'constant', value: 1 })
+    .addBlock('sum', 'Count', { signs: '++' })
+    .addBlock('unit_delay', 'Delay', { initialCondition: 0 })
+    .addBlock('output_port', 'SampleOut', { portName: 'Sample' })
+    .addBlock('output_port', 'CountOut', { portName: 'Count' })
+    .connect('In', 'Sample')
+    .connect('Sample', 'SampleOut')
+    .connect('One', 'Count', 0, 0)
+    .connect('Delay', 'Count', 0, 1)
+    .connect('Count', 'Delay')
+    .connect('Count', 'CountOut')
+  if (withLag) {
+    builder.addBlock('transfer_function', 'Lag', { numerator: [1], denominator: [1, 1] })
+  }
+  const [, inner] = builder.build().sheets
+
+  builder
+    .switchToSheet('main')
+    .addBlock('source', 'Square', { signalType: 'square', value: 0, frequency: 2.5, amplitude: 0.5 })
+    .addBlock('source', 'Offset', { signalType: 'constant', value: 0.5 })
+    .addBlock('sum', 'Enable', { signs: '++' })
+    .addBlock('source', 'Ramp', { signalType: 'ramp', value: 0, slope: 1 })
+    .addBlock('subsystem', 'Sub', { inputPorts: ['In'], outputPorts: ['Sample', 'Count'], sheets: [inner], ...subsystemParameters })
+    .addBlock('signal_display', 'SampleScope', { maxSamples: 1000 })
+    .addBlock('signal_display', 'CountScope', { maxSamples: 1000 })
+    .addBlock('output_port', 'SampleOutput', { portName: 'Sample' })
+    .addBlock('output_port', 'CountOutput', { portName: 'Count' })
+    .connect('Square', 'Enable', 0, 0)
+    .connect('Offset', 'Enable', 0, 1)
+    .connect('Ramp', 'Sub')
+    .connect('Sub', 'SampleScope', 0)
+    .connect('Sub', 'CountScope', 1)
+    .connect('Sub', 'SampleOutput', 0)
+    .connect('Sub', 'CountOutput', 1)
+  if (subsystemParameters?.showTriggerInput) {
+    builder.connect('Square', 'Sub', 0, -2)
+  } else {
+    builder.connect('Enable', 'Sub', 0, -1)
+  }
+  const [main] = builder.build().sheets
+  return [main]
+}
+
+function simulate(subsystemParameters: SubsystemParameters): { sample: number[], count: number[] } {
+  const results = new MultiSheetSimulationEngine(createModel(subsystemParameters), { timeStep: TIME_STEP, duration: STEPS * TIME_STEP })
+    .run().get('main')!
+  // The samples after each step, leaving out the one at the final time
+  const round = (values: unknown[]) => values.slice(0, STEPS).map(value => Math.round(Number(value) * 1e6) / 1e6)
+  return {
+    sample: round(results.signalData.get('SampleScope')!),
+    count: round(results.signalData.get('CountScope')!)
+  }
+}
+
+/**
+ * Build and run the generated code, reading the output ports after each step
+ */
+function runGeneratedCode(subsystemParameters: SubsystemParameters): { sample: number[], count: number[] } {
+  const rows = runGeneratedModel(createModel(subsystemParameters), ['outputs.Sample', 'outputs.Count'], { timeStep: TIME_STEP, steps: STEPS })
+  return { sample: rows.map(row => row[0]), count: rows.map(row => row[1]) }
+}
+
+describe('Triggered subsystems', () => {
+  test('detects rising, falling and either edges through zero', () => {
+    expect(SubsystemBlockModule.isTriggerEvent('rising', -1, 0)).toBe(true)
+    expect(SubsystemBlockModule.isTriggerEvent('rising', 0, 1)).toBe(true)
+    expect(SubsystemBlockModule.isTriggerEvent('rising', 0, 0)).toBe(false)
+    expect(SubsystemBlockModule.isTriggerEvent('rising', 1, 2)).toBe(false)
+    expect(SubsystemBlockModule.isTriggerEvent('falling', 1, -1)).toBe(true)
+    expect(SubsystemBlockModule.isTriggerEvent('falling', -1, 1)).toBe(false)
+    expect(SubsystemBlockModule.isTriggerEvent('either', -1, 1)).toBe(true)
+    expect(SubsystemBlockModule.isTriggerEvent('function_call', 1, 1)).toBe(true)
+    expect(SubsystemBlockModule.isTriggerEvent('function_call', 1, 0)).toBe(false)
+  })
+
+  describe('simulation', () => {
+    test('a rising edge subsystem runs once per rising edge and holds its outputs', () => {
+      // The trigger starts at 0.5, which counts as rising from zero
+      expect(simulate({ showTriggerInput: true, triggerType: 'rising' })).toEqual({
+        sample: [0, 0, 0, 0, 0.4, 0.4, 0.4, 0.4, 0.4, 0.9, 0.9, 0.9],
+        count: [1, 1, 1, 1, 2, 2, 2, 2, 2, 3, 3, 3]
+      })
+    })
+
+    test('falling and either edge subsystems run on falling edges', () => {
+      // Outputs stay at zero until the first event
+      expect(simulate({ showTriggerInput: true, triggerType: 'falling' })).toEqual({
+        sample: [0, 0, 0.2, 0.2, 0.2, 0.2, 0.2, 0.7, 0.7, 0.7, 0.7, 1.1],
+        count: [0, 0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 3]
+      })
+      expect(simulate({ showTriggerInput: true, triggerType: 'either' }).count).toEqual([1, 1, 2, 2, 3, 3, 3, 4, 4, 5, 5, 6])
+    })
+
+    test('a function-call subsystem runs every step its trigger is nonzero', () => {
+      expect(simulate({ showTriggerInput: true, triggerType: 'function_call' }).count)
+        .toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12])
+    })
+
+    test('an enabled subsystem holds or resets its states when enabled again', () => {
+      expect(simulate({ showEnableInput: true }).count).toEqual([1, 2, 3, 3, 3, 4, 5, 6, 6, 6, 7, 8])
+      expect(simulate({ showEnableInput: true, statesWhenEnabling: 'reset' }).count).toEqual([1, 2, 3, 3, 1, 2, 3, 4, 4, 1, 2, 3])
+    })
+  })
+
+  describe('code generation', () => {
+    test('generates a trigger function called on edge detection', () => {
+      const { header, source } = new CodeGenerator({ modelName: 'model' }).generate(createModel({ showTriggerInput: true, triggerType: 'falling' }))
+
+      expect(header).toContain('double Sub_trigger_prev;')
+      expect(header).toContain('void model_evaluate_triggers(model_t* model);')
+      expect(source).toContain('static void model_Sub_trigger(model_t* model) {')
+      expect(source).toContain('model_evaluate_triggers(model);')
+      expect(source).toMatch(/if \(\(\(model->enable_states\.Sub_trigger_prev > 0\.0 && trigger <= 0\.0\)[^\n]*\n\s*model_Sub_trigger\(model\);/)
+
+      // The counter is computed and updated only in its trigger function
+      const algebraic = source.slice(source.indexOf('void model_evaluate_algebraic'), source.indexOf('static void model_Sub_trigger'))
+      expect(algebraic).not.toContain('model->signals.Count =')
+      expect(algebraic).not.toContain('model->states.Delay_state =')
+    })
+
+    test('rejects continuous states in a triggered subsystem', () => {
+      const sheets = createModel({ showTriggerInput: true }, true)
+
+      const { warnings } = new CodeGenerator({ modelName: 'model' }).generate(sheets)
+      expect(warnings).toContain("ERROR: Block 'Sub_Lag' (transfer_function) has continuous states and cannot be in a triggered subsystem (CONTINUOUS_STATE_IN_TRIGGERED_SUBSYSTEM)")
+    })
+
+    const testIfCompiler = hasCompiler() ? test : test.skip
+
+    testIfCompiler('generated triggered subsystems match the simulation', () => {
+      for (const triggerType of ['rising', 'falling', 'either', 'function_call']) {
+        const parameters = { showTriggerInput: true, triggerType }
+        expect(runGeneratedCode(parameters)).toEqual(simulate(parameters))
+      }
+    })
+
+    testIfCompiler('generated enabled subsystems reset their states when enabled again', () => {
+      // Enable states are evaluated at the end of the step, one step after the simulation
+      expect(runGeneratedCode({ showEnableInput: true, statesWhenEnabling: 'reset' }).count)
+        .toEqual([1, 2, 3, 4, 4, 1, 2, 3, 4, 4, 1, 2])
+    })
+  })
+})
@@ -0,0 +1,169 @@
+// __tests__/subsystemRefactoring.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { WireData } from '@/components/Wire'
+import { expandSubsystem, groupIntoSubsystem } from '@/lib/subsystemRefactoring'
+import { Sheet } from '@/lib/simulationEngine'
+import { TestModelBuilder } from './utils/TestModelBuilder'
+
+// Signal path as "source:port->target:port", independent of wire IDs
+function describeWires(wires: WireData[]): string[] {
+  return wires
+    .map(w => `${w.sourceBlockId}:${w.sourcePortIndex}->${w.targetBlockId}:${w.targetPortIndex}`)
+    .sort()
+}
+
+/**
+ * Src1 -> Gain1 -> Sum1 -> Display1, with Src1 also feeding Sum1 directly
+ */
+function chain() {
+  const [{ blocks, connections: wires }] = new TestModelBuilder()
+    .addBlock('source', 'Src1', { signalType: 'constant', value: 1, dataType: 'double' })
+    .addBlock('scale', 'Gain1', { gain: 2 })
+    .addBlock('sum', 'Sum1', { signs: '++', numInputs: 2 })
+    .addBlock('signal_display', 'Display1')
+    .connect('Src1', 'Gain1')
+    .connect('Src1', 'Sum1', 0, 1)
+    .connect('Gain1', 'Sum1')
+    .connect('Sum1', 'Display1')
+    .build()
+    .sheets
+  return { blocks, wires }
+}
+
+// Move blocks to the given heights
+function placeAt(blocks: BlockData[], heights: Record<string, number>): BlockData[] {
+  return blocks.map(block => block.id in heights ? { ...block, position: { ...block.position, y: heights[block.id] } } : block)
+}
+
+describe('Subsystem refactoring', () => {
+  test('groups a selection behind one port per crossing signal', () => {
+    const { blocks, wires } = chain()
+    const { blocks: parentBlocks, wires: parentWires, subsystem } = groupIntoSubsystem(blocks, wires, ['Gain1', 'Sum1'])
+    const sheet: Sheet = subsystem.parameters!.sheets[0]
+
+    expect(parentBlocks.map(b => b.id)).toEqual(['Src1', 'Display1', subsystem.id])
+    expect(subsystem.parameters!.inputPorts).toEqual(['Input1'])
+    expect(subsystem.parameters!.outputPorts).toEqual(['Output1'])
+    expect(describeWires(parentWires)).toEqual([
+      `${subsystem.id}:0->Display1:0`,
+      `Src1:0->${subsystem.id}:0`
+    ].sort())
+
+    const input = sheet.blocks.find(b => b.type === 'input_port')!
+    const output = sheet.blocks.find(b => b.type === 'output_port')!
+    expect(input.parameters!.dataType).toBe('double')
+    expect(describeWires(sheet.connections)).toEqual([
+      'Gain1:0->Sum1:0',
+      `${input.id}:0->Gain1:0`,
+      `${input.id}:0->Sum1:1`,
+      `Sum1:0->${output.id}:0`
+    ].sort())
+  })
+
+  test('orders ports by the height of the blocks they connect to', () => {
+    const [{ blocks, connections: wires }] = new TestModelBuilder()
+      .addBlock('source', 'A')
+      .addBlock('source', 'B')
+      .addBlock('sum', 'Sum1', { signs: '++', numInputs: 2 })
+      .addBlock('scale', 'Gain1', { gain: 1 })
+      .addBlock('scale', 'Gain2', { gain: 1 })
+      .connect('A', 'Gain1')
+      .connect('B', 'Gain2')
+      .connect('Gain1', 'Sum1')
+      .connect('Gain2', 'Sum1', 0, 1)
+      .build()
+      .sheets
+
+    const { wires: parentWires, subsystem } = groupIntoSubsystem(
+      placeAt(blocks, { A: 300, B: 100, Gain1: 300, Gain2: 100 }),
+      wires,
+      ['Gain1', 'Gain2']
+    )
+
+    expect(describeWires(parentWires.filter(w => w.targetBlockId === subsystem.id))).toEqual([
+      `A:0->${subsystem.id}:1`,
+      `B:0->${subsystem.id}:0`
+    ])
+  })
+
+  test('rejects selections that cannot move into a subsystem', () => {
+    const [{ blocks }] = new TestModelBuilder()
+      .addBlock('input_port', 'In1', { portName: 'In1' })
+      .addBlock('sheet_label_sink', 'Label1')
+      .build()
+      .sheets
+
+    expect(() => groupIntoSubsystem(blocks, [], [])).toThrow('Select at least one block')
+    expect(() => groupIntoSubsystem(blocks, [], ['In1'])).toThrow('Input and output ports')
+    expect(() => groupIntoSubsystem(blocks, [], ['Label1'])).toThrow('Sheet labels')
+  })
+
+  test('names the subsystem uniquely on the sheet', () => {
+    const { blocks, wires } = chain()
+    new TestModelBuilder().addBlock('subsystem', 'Subsystem1', {}, blocks)
+
+    const { subsystem } = groupIntoSubsystem(blocks, wires, ['Gain1'])
+
+    expect(subsystem.name).toBe('Subsystem2')
+  })
+
+  test('expanding a grouped subsystem restores the original wiring', () => {
+    const { blocks, wires } = chain()
+    const grouped = groupIntoSubsystem(blocks, wires, ['Gain1', 'Sum1'])
+
+    const expanded = expandSubsystem(grouped.blocks, grouped.wires, grouped.subsystem.id)
+
+    expect(expanded.blocks.map(b => b.id).sort()).toEqual(['Display1', 'Gain1', 'Src1', 'Sum1'])
+    expect(describeWires(expanded.wires)).toEqual(describeWires(wires))
+  })
+
+  test('expanding wires pass-through ports directly and keeps names unique', () => {
+    const builder = new TestModelBuilder()
+      .addSheet('Sub1_main', 'Sub1 Main')
+      .addBlock('input_port', 'SubIn', { portName: 'In1' })
+      .addBlock('output_port', 'SubOut', { portName: 'Out1' })
+      .addBlock('scale', 'InnerGain', { gain: 3 })
+      .addBlock('output_port', 'SubOut2', { portName: 'Out2' })
+      .connect('SubIn', 'SubOut')
+      .connect('SubIn', 'InnerGain')
+      .connect('InnerGain', 'SubOut2')
+    const [, subsystemSheet] = builder.build().sheets
+    // Named like a block on the parent sheet, so expanding has to rename it
+    const inner: Sheet = {
+      ...subsystemSheet,
+      blocks: subsystemSheet.blocks.map(block => block.id === 'InnerGain' ? { ...block, name: 'Gain1' } : block)
+    }
+    const [{ blocks, connections: wires }] = builder
+      .switchToSheet('main')
+      .addBlock('source', 'Src1')
+      .addBlock('scale', 'Gain1', { gain: 1 })
+      .addBlock('sum', 'Sum1', { signs: '++', numInputs: 2 })
+      .addBlock('subsystem', 'Sub1', { inputPorts: ['In1'], outputPorts: ['Out1', 'Out2'], sheets: [inner] })
+      .connect('Src1', 'Sub1')
+      .connect('Sub1', 'Sum1')
+      .connect('Sub1', 'Sum1', 1, 1)
+      .connect('Sum1', 'Gain1')
+      .build()
+      .sheets
+
+    const expanded = expandSubsystem(blocks, wires, 'Sub1')
+
+    expect(expanded.blocks.map(b => b.name)).toEqual(['Src1', 'Gain1', 'Sum1', 'Gain2'])
+    expect(describeWires(expanded.wires)).toEqual([
+      'InnerGain:0->Sum1:1',
+      'Src1:0->InnerGain:0',
+      'Src1:0->Sum1:0',
+      'Sum1:0->Gain1:0'
+    ])
+  })
+
+  test('refuses to expand an enabled subsystem', () => {
+    const [{ blocks }] = new TestModelBuilder()
+      .addBlock('subsystem', 'Sub1', { showEnableInput: true, sheets: [] })
+      .build()
+      .sheets
+
+    expect(() => expandSubsystem(blocks, [], 'Sub1')).toThrow('enable input')
+  })
+})
@@ -0,0 +1,92 @@
+// __tests__/utils/GeneratedCodeRunner.ts
+
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import { Sheet } from '@/lib/simulationEngine'
+import { WorkspaceVariable } from '@/lib/workspace'
+
+/**
+ * Whether gcc is available to compile generated code
+ */
+export function hasCompiler(): boolean {
+  try {
+    execFileSync('gcc', ['--version'], { stdio: 'ignore' })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Compile C files as strict C99 with all warnings as errors, run the
+ * program and return the lines it prints, split into numbers.
+ */
+export function compileAndRun(files: Record<string, string>): number[][] {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'generated-code-'))
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, name), content)
+    }
+    const sources = Object.keys(files).filter(name => name.endsWith('.c'))
+    execFileSync('gcc', ['-std=c99', '-Wall', '-Werror', '-o', 'program', ...sources, '-lm'], { cwd: dir, stdio: 'pipe' })
+    return execFileSync(path.join(dir, 'program')).toString().trim().split('\n')
+      .map(line => line.trim().split(' ').map(Number))
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Generate code for a model and run it for a number of steps, printing the
+ * model members (such as 'signals.Gain' or 'outputs.Out[1]') after each
+ * step. Returns one row of member values per step.
+ */
+export function runGeneratedModel(
+  sheets: Sheet[],
+  members: string[],
+  options: { timeStep: number, steps: number, workspace?: WorkspaceVariable[] }
+): number[][] {
+  const generated = new CodeGenerator({ modelName: 'model', workspace: options.workspace }).generate(sheets)
+  return compileAndRun({
+    'model.h': generated.header,
+    'model.c': generated.source,
+    'main.c': `#include <stdio.h>
+#include "model.h"
+
+int main(void) {
+    model_t model;
+    model_init(&model, ${options.timeStep});
+    for (int step = 0; step < ${options.steps}; step++) {
+        model_step(&model);
+        printf("${members.map(() => '%.9f').join(' ')}\\n", ${members.map(member => `(double)model.${member}`).join(', ')});
+    }
+    return 0;
+}
+`
+  })
+}
+
+/**
+ * Run the generated code for a model and return each signal's value after
+ * every step. Vector signals, given with their size, are read element by
+ * element and returned as arrays.
+ */
+export function runGeneratedSignals(
+  sheets: Sheet[],
+  signals: { name: string, size?: number }[],
+  options: { timeStep: number, steps: number, workspace?: WorkspaceVariable[] }
+): (number | number[])[][] {
+  const members = signals.flatMap(({ name, size }) =>
+    size ? Array.from({ length: size }, (_, i) => `signals.${name}[${i}]`) : [`signals.${name}`]
+  )
+  const rows = runGeneratedModel(sheets, members, options)
+  let column = 0
+  return signals.map(({ size }) => {
+    const start = column
+    column += size || 1
+    return rows.map(row => size ? row.slice(start, start + size) : row[start])
+  })
+}
@@ -117,6 +117,19 @@ export class TestModelBuilder {
     return this
   }
 
+  /**
+   * Add a block of any type. Its name is also its id, so tests can look
+   * up its state and signals by name.
+   */
+  addBlock(type: string, name: string, parameters: BlockData['parameters'] = {}, result?: BlockData[]): this {
+    const block = this.createBlock(type, name, parameters, name)
+    this.addBlockToCurrentSheet(block)
+    if (result) {
+      result.push(block)
+    }
+    return this
+  }
+
   /**
    * Add an input port block
    */
@@ -387,7 +400,7 @@ export class TestModelBuilder {
     }
 
     const connection: WireData = {
-      id: `wire_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: `${sourceBlockId}_${sourcePortIndex}_${targetBlockId}_${targetPortIndex}`,
       sourceBlockId,
       sourcePortIndex,
       targetBlockId,
@@ -501,8 +514,12 @@ export class TestModelBuilder {
   }
 
   // Private helper methods
-  private createBlock(type: string, name: string, parameters: any): BlockData {
-    const id = `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  private createBlock(
+    type: string,
+    name: string,
+    parameters: any,
+    id: string = `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  ): BlockData {
     const position = { ...this.nextPosition }
     
     // Update position for next block
@@ -0,0 +1,215 @@
+// __tests__/workspace.test.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { Sheet } from '@/lib/simulationEngine'
+import { CodeGenerator } from '@/lib/codegen/CodeGenerator'
+import {
+  WorkspaceVariable,
+  evaluateParameterExpression,
+  formatWorkspaceValue,
+  getWorkspaceVariableError,
+  resolveWorkspaceParameters
+} from '@/lib/workspace'
+import { compileAndRun, hasCompiler } from './utils/GeneratedCodeRunner'
+import { TestModelBuilder } from './utils/TestModelBuilder'
+
+const workspace: WorkspaceVariable[] = [
+  { name: 'Kp', value: 1.5, description: 'Proportional gain' },
+  { name: 'wn', value: 3 },
+  { name: 'breakpoints', value: [0, 1, 2] },
+  { name: 'table', value: [[1, 2], [3, 4]] }
+]
+
+/**
+ * Input1 -> the given block -> Output1
+ */
+function throughBlock(type: string, parameters: BlockData['parameters']): Sheet[] {
+  return new TestModelBuilder()
+    .addBlock('input_port', 'Input1', { portName: 'Input1', dataType: 'double' })
+    .addBlock(type, 'Block1', parameters)
+    .addBlock('output_port', 'Output1', { portName: 'Output1' })
+    .connect('Input1', 'Block1')
+    .connect('Block1', 'Output1')
+    .build()
+    .sheets
+}
+
+describe('Workspace parameter expressions', () => {
+  test('evaluates arithmetic over scalar variables', () => {
+    expect(evaluateParameterExpression('Kp * 2', workspace)).toBe(3)
+    expect(evaluateParameterExpression('wn^2', workspace)).toBe(9)
+    expect(evaluateParameterExpression('2^wn^2', workspace)).toBe(512) // right-associative
+    expect(evaluateParameterExpression('sqrt(wn * wn) + 1', workspace)).toBe(4)
+  })
+
+  test('evaluates vector and matrix literals and variables', () => {
+    expect(evaluateParameterExpression('[1, Kp, wn^2]', workspace)).toEqual([1, 1.5, 9])
+    expect(evaluateParameterExpression('[1, 2; 3, 4]', workspace)).toEqual([[1, 2], [3, 4]])
+    expect(evaluateParameterExpression('[[1, 2], [3, 4]]', workspace)).toEqual([[1, 2], [3, 4]])
+    expect(evaluateParameterExpression('breakpoints', workspace)).toEqual([0, 1, 2])
+    expect(evaluateParameterExpression(' table ', workspace)).toEqual([[1, 2], [3, 4]])
+  })
+
+  test('reports unknown variables and misuse of arrays', () => {
+    expect(() => evaluateParameterExpression('Ki * 2', workspace)).toThrow('Unknown workspace variable "Ki"')
+    expect(() => evaluateParameterExpression('breakpoints * 2', workspace)).toThrow('is not a scalar')
+    expect(() => evaluateParameterExpression('[1, 2; 3]', workspace)).toThrow('same number of elements')
+  })
+
+  test('validates variable definitions', () => {
+    expect(getWorkspaceVariableError(workspace[0], workspace)).toBe('')
+    expect(getWorkspaceVariableError({ name: '2x', value: 1 }, [])).toContain('must start with a letter')
+    expect(getWorkspaceVariableError({ name: 'double', value: 1 }, [])).toContain('reserved C keyword')
+    expect(getWorkspaceVariableError({ name: 'Kp', value: 2 }, [...workspace, { name: 'Kp', value: 2 }]))
+      .toContain('defined more than once')
+  })
+
+  test('formats values for editing', () => {
+    expect(formatWorkspaceValue(1.5)).toBe('1.5')
+    expect(formatWorkspaceValue([0, 1, 2])).toBe('[0, 1, 2]')
+    expect(formatWorkspaceValue([[1, 2], [3, 4]])).toBe('[1, 2; 3, 4]')
+  })
+})
+
+describe('Resolving block parameters', () => {
+  test('replaces expressions, including inside subsystems', () => {
+    const builder = new TestModelBuilder()
+      .addSheet('inner', 'Inner')
+      .addBlock('scale', 'Inner', { gain: 'Kp / 3' })
+    const [, inner] = builder.build().sheets
+    const [main] = builder
+      .switchToSheet('main')
+      .addBlock('scale', 'Gain1', { gain: 'Kp * 2' })
+      .addBlock('lookup_1d', 'Lookup1', { inputValues: 'breakpoints', outputValues: [0, 'wn', 'wn^2'] })
+      .addBlock('saturation', 'Limit1', { lowerLimit: '', upperLimit: '1.0' })
+      .addBlock('subsystem', 'Sub1', { sheets: [inner] })
+      .build()
+      .sheets
+    const sheets = [main]
+
+    const [resolved] = resolveWorkspaceParameters(sheets, workspace)
+    const [gain, lookup, limit, subsystem] = resolved.blocks
+
+    expect(gain.parameters?.gain).toBe(3)
+    expect(lookup.parameters?.inputValues).toEqual([0, 1, 2])
+    expect(lookup.parameters?.outputValues).toEqual([0, 3, 9])
+    expect(limit.parameters).toEqual({ lowerLimit: '', upperLimit: '1.0' })
+    expect(subsystem.parameters?.sheets[0].blocks[0].parameters.gain).toBe(0.5)
+    // The model itself is left unchanged
+    expect(sheets[0].blocks[0].parameters?.gain).toBe('Kp * 2')
+  })
+
+  test('names the block and parameter in errors', () => {
+    const sheets = new TestModelBuilder().addBlock('scale', 'Gain1', { gain: 'Ki' }).build().sheets
+    expect(() => resolveWorkspaceParameters(sheets, workspace))
+      .toThrow('Block "Gain1" parameter "gain": Unknown workspace variable "Ki"')
+  })
+})
+
+describe('Parameter struct code generation', () => {
+  const sheets = throughBlock('scale', { gain: 'Kp * wn' })
+
+  test('declares and initializes the workspace as tunable parameters', () => {
+    const result = new CodeGenerator({ modelName: 'test_model', workspace }).generate(sheets)
+
+    expect(result.header).toContain('test_model_params_t')
+    expect(result.header).toContain('double Kp; /* Proportional gain */')
+    expect(result.header).toContain('double table[2][2];')
+    expect(result.header).toContain('test_model_params_t params;')
+    expect(result.source).toContain('model->params.Kp * model->params.wn')
+    expect(result.source).toContain('model->params.Kp = 1.5;')
+    expect(result.source).toContain('model->params.table[1][0] = 3.0;')
+  })
+
+  test('reads tunable lookup tables and transfer functions from the struct', () => {
+    const lookup = new CodeGenerator({ modelName: 'test_model', workspace }).generate(
+      throughBlock('lookup_1d', { inputValues: 'breakpoints', outputValues: [0, 'wn', 'wn^2'] })
+    )
+    const filter = new CodeGenerator({ modelName: 'test_model', workspace }).generate(
+      throughBlock('transfer_function', { numerator: ['wn^2'], denominator: [1, '2 * wn', 'wn^2'] })
+    )
+
+    expect(lookup.warnings).toEqual([])
+    expect(lookup.source).toContain(
+      'const double Block1_inputs[3] = {model->params.breakpoints[0], model->params.breakpoints[1], model->params.breakpoints[2]};'
+    )
+    expect(lookup.source).toContain('const double Block1_outputs[3] = {0, model->params.wn, pow(model->params.wn, 2.0)};')
+    expect(filter.warnings).toEqual([])
+    expect(filter.source).toContain('((2.0 * model->params.wn) / 1) * current_states->Block1_states[1]')
+  })
+
+  const testIfCompiler = hasCompiler() ? test : test.skip
+
+  testIfCompiler('generated code follows changes to the workspace variables', () => {
+    const { header, source } = new CodeGenerator({ modelName: 'test_model', workspace }).generate(
+      throughBlock('lookup_1d', { inputValues: 'breakpoints', outputValues: [0, 'wn', 'wn^2'] })
+    )
+    const main = `#include <stdio.h>
+#include "test_model.h"
+
+int main(void) {
+    test_model_t model;
+    test_model_init(&model, 0.01);
+    model.inputs.Input1 = 1.5;
+    test_model_step(&model);
+    printf("%.9f\\n", model.outputs.Output1);
+    model.params.wn = 4.0;
+    test_model_step(&model);
+    printf("%.9f\\n", model.outputs.Output1);
+    return 0;
+}
+`
+    const rows = compileAndRun({ 'test_model.h': header, 'test_model.c': source, 'main.c': main })
+
+    // Halfway between wn and wn^2
+    expect(rows).toEqual([[6], [10]])
+  })
+
+  testIfCompiler('derivatives read the transfer function coefficients from the struct', () => {
+    const { header, source } = new CodeGenerator({ modelName: 'test_model', workspace }).generate(
+      throughBlock('transfer_function', { numerator: ['wn^2'], denominator: [1, '2 * wn', 'wn^2'] })
+    )
+    const main = `#include <stdio.h>
+#include "test_model.h"
+
+int main(void) {
+    test_model_t model;
+    test_model_init(&model, 0.01);
+    model.inputs.Input1 = 1.0;
+    for (int step = 0; step < 1000; step++) {
+        test_model_step(&model);
+    }
+    printf("%.3f\\n", model.outputs.Output1);
+    return 0;
+}
+`
+    // A unit DC gain, so the step response settles at the input
+    expect(compileAndRun({ 'test_model.h': header, 'test_model.c': source, 'main.c': main })).toEqual([[1]])
+  })
+
+  test('warns about expressions that the generated code cannot tune', () => {
+    const result = new CodeGenerator({ modelName: 'test_model', workspace }).generate(
+      throughBlock('saturation', { lowerLimit: '-wn', upperLimit: 'wn' })
+    )
+
+    expect(result.warnings).toEqual([
+      'Block "Block1" parameter "lowerLimit" is not tunable: the generated code uses its current value, not the workspace variables',
+      'Block "Block1" parameter "upperLimit" is not tunable: the generated code uses its current value, not the workspace variables'
+    ])
+  })
+
+  test('omits the parameter struct for an empty workspace', () => {
+    const plainSheets = resolveWorkspaceParameters(sheets, workspace)
+    const result = new CodeGenerator({ modelName: 'test_model' }).generate(plainSheets)
+
+    expect(result.header).not.toContain('params')
+    expect(result.source).not.toContain('model->params')
+  })
+
+  test('reports unresolvable parameters', () => {
+    const result = new CodeGenerator({ modelName: 'test_model', workspace: [] }).generate(sheets)
+
+    expect(result.source).toBe('')
+    expect(result.warnings[0]).toContain('Unknown workspace variable "Kp"')
+  })
+})
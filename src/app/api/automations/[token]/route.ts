@@ -2,7 +2,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { CodeGenerator } from '@/lib/codeGeneration'
-import { SimulationEngine } from '@/lib/simulationEngine'
+import { Sheet, SimulationConfig, getSimulationConfig } from '@/lib/simulationEngine'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { BatchSimulationSpec, runBatchSimulation } from '@/lib/simulation/batchSimulation'
+import { WorkspaceVariable, resolveWorkspaceParameters } from '@/lib/workspace'
+import { REQUEST_RUN_TIMEOUT_MS, describeDivergence, getToleranceError, verifyGeneratedCode } from '@/lib/codegen/CodeVerifier'
 import { withErrorHandling, AppError, ErrorTypes, validateRequiredFields } from '@/lib/apiErrorHandler'
 import JSZip from 'jszip'
 
@@ -17,7 +21,7 @@ const supabaseServer = createClient(supabaseUrl, supabaseServiceKey, {
 })
 
 interface AutomationRequest {
-  action: 'generateCode' | 'simulate' | 'validateModel'
+  action: 'generateCode' | 'simulate' | 'validateModel' | 'verifyCode'
   modelId: string
   version?: number
   parameters?: Record<string, any>
@@ -64,7 +68,7 @@ async function automationHandler(
   validateRequiredFields(body, ['action', 'modelId'])
 
   // Validate action type
-  const validActions = ['generateCode', 'simulate', 'validateModel']
+  const validActions = ['generateCode', 'simulate', 'validateModel', 'verifyCode']
   if (!validActions.includes(body.action)) {
     throw new AppError(
       `Invalid action: ${body.action}. Valid actions are: ${validActions.join(', ')}`,
@@ -181,6 +185,9 @@ async function executeAction(
       case 'validateModel':
         return await handleValidateModel(model, versionData, baseResponse)
       
+      case 'verifyCode':
+        return await handleVerifyCode(versionData, baseResponse, parameters)
+      
       default:
         throw new AppError(
           `Unknown action: ${action}`,
@@ -198,8 +205,21 @@ async function executeAction(
   }
 }
 
+// Sheets with parameter expressions evaluated against the model workspace
+function resolveModelSheets(versionData: { data: { sheets?: Sheet[], workspace?: WorkspaceVariable[] } }): Sheet[] {
+  return resolveWorkspaceParameters(versionData.data.sheets || [], versionData.data.workspace ?? [])
+}
+
 async function handleGenerateCode(model: any, versionData: any, baseResponse: AutomationResponse): Promise<AutomationResponse> {
-  const sheets = versionData.data.sheets || []
+  let sheets: Sheet[]
+  try {
+    sheets = resolveModelSheets(versionData)
+  } catch (error) {
+    return {
+      ...baseResponse,
+      errors: [`Invalid block parameter: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    }
+  }
   const mainSheet = sheets.find((s: any) => s.id === 'main') || sheets[0]
 
   if (!mainSheet) {
@@ -268,7 +288,15 @@ async function handleSimulate(
   baseResponse: AutomationResponse, 
   parameters?: Record<string, any>
 ): Promise<AutomationResponse> {
-  const sheets = versionData.data.sheets || []
+  let sheets: Sheet[]
+  try {
+    sheets = resolveModelSheets(versionData)
+  } catch (error) {
+    return {
+      ...baseResponse,
+      errors: [`Invalid block parameter: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    }
+  }
   const mainSheet = sheets.find((s: any) => s.id === 'main') || sheets[0]
 
   if (!mainSheet) {
@@ -279,7 +307,6 @@ async function handleSimulate(
   }
 
   const blocks = mainSheet.blocks || []
-  const wires = mainSheet.connections || []
 
   if (blocks.length === 0) {
     return {
@@ -288,46 +315,42 @@ async function handleSimulate(
     }
   }
 
-  // Validate and use simulation parameters
-  const config = {
-    timeStep: 0.01,
-    duration: 10.0
-  }
+  // Parameters override the model's simulation settings
+  const config = getSimulationConfig(versionData.data.globalSettings)
 
-  if (parameters) {
-    if (parameters.timeStep !== undefined) {
-      if (typeof parameters.timeStep !== 'number' || parameters.timeStep <= 0) {
-        return {
-          ...baseResponse,
-          errors: ['Invalid timeStep parameter: must be a positive number']
-        }
+  for (const key of ['timeStep', 'duration', 'relativeTolerance', 'absoluteTolerance', 'minStep', 'maxStep'] as const) {
+    const value = parameters?.[key]
+    if (value === undefined) continue
+    if (typeof value !== 'number' || value <= 0) {
+      return {
+        ...baseResponse,
+        errors: [`Invalid ${key} parameter: must be a positive number`]
       }
-      config.timeStep = parameters.timeStep
     }
+    config[key] = value
+  }
 
-    if (parameters.duration !== undefined) {
-      if (typeof parameters.duration !== 'number' || parameters.duration <= 0) {
-        return {
-          ...baseResponse,
-          errors: ['Invalid duration parameter: must be a positive number']
-        }
+  if (parameters?.integrationMethod !== undefined) {
+    if (!['euler', 'rk4', 'rk45'].includes(parameters.integrationMethod)) {
+      return {
+        ...baseResponse,
+        errors: ['Invalid integrationMethod parameter: must be euler, rk4 or rk45']
       }
-      config.duration = parameters.duration
     }
+    config.integrationMethod = parameters.integrationMethod
   }
 
-  // Use model defaults if no parameters provided
-  if (!parameters) {
-    config.timeStep = versionData.data.globalSettings?.simulationTimeStep || 0.01
-    config.duration = versionData.data.globalSettings?.simulationDuration || 10.0
+  // Parameter sweep or Monte Carlo batch over all sheets
+  if (parameters?.batch) {
+    return handleBatchSimulate(sheets, config, baseResponse, parameters.batch, parameters.includeTraces === true)
   }
 
-  let engine: SimulationEngine
+  let engine: MultiSheetSimulationEngine
   let results: any
 
   try {
-    engine = new SimulationEngine(blocks, wires, config, undefined, sheets)
-    results = engine.run()
+    engine = new MultiSheetSimulationEngine(sheets, config)
+    results = engine.run().get(mainSheet.id)
   } catch (error) {
     return {
       ...baseResponse,
@@ -336,7 +359,7 @@ async function handleSimulate(
   }
 
   // Collect output port values
-  const outputPortValues = engine.getOutputPortValues()
+  const outputPortValues = engine.getOutputPortValues(mainSheet.id)
   const outputSummary: Record<string, number | boolean | number[] | boolean[]> = {}
   outputPortValues.forEach((value, portName) => {
     outputSummary[portName] = value
@@ -371,6 +394,92 @@ async function handleSimulate(
   }
 }
 
+// Compile the generated code and compare it with a simulation, step by step
+async function handleVerifyCode(
+  versionData: any,
+  baseResponse: AutomationResponse,
+  parameters?: Record<string, any>
+): Promise<AutomationResponse> {
+  const timeStep = parameters?.timeStep ?? versionData.data.globalSettings?.simulationTimeStep ?? 0.01
+  const duration = parameters?.duration ?? versionData.data.globalSettings?.simulationDuration ?? 10.0
+  if (typeof timeStep !== 'number' || timeStep <= 0 || typeof duration !== 'number' || duration <= 0) {
+    return {
+      ...baseResponse,
+      errors: ['Invalid timeStep or duration parameter: must be a positive number']
+    }
+  }
+
+  const toleranceError = getToleranceError(parameters?.tolerance)
+  if (toleranceError) {
+    return {
+      ...baseResponse,
+      errors: [`Invalid tolerance parameter: ${toleranceError}`]
+    }
+  }
+
+  let result
+  try {
+    result = await verifyGeneratedCode(versionData.data.sheets, {
+      timeStep,
+      duration,
+      inputs: parameters?.inputs,
+      tolerance: parameters?.tolerance,
+      workspace: versionData.data.workspace ?? [],
+      runTimeoutMs: REQUEST_RUN_TIMEOUT_MS
+    })
+  } catch (error) {
+    return {
+      ...baseResponse,
+      errors: [`Code verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    }
+  }
+
+  // A divergence fails the action but still reports the comparison
+  return {
+    ...baseResponse,
+    success: result.passed,
+    data: result,
+    ...(result.firstDivergence ? { errors: [describeDivergence(result.firstDivergence)] } : {})
+  }
+}
+
+function handleBatchSimulate(
+  sheets: Sheet[],
+  config: SimulationConfig,
+  baseResponse: AutomationResponse,
+  spec: BatchSimulationSpec,
+  includeTraces: boolean
+): AutomationResponse {
+  let results
+  try {
+    results = runBatchSimulation(sheets, config, spec)
+  } catch (error) {
+    return {
+      ...baseResponse,
+      errors: [`Batch simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    }
+  }
+
+  // Traces are large, so they are only returned on request
+  const runs = results.runs.map(({ timePoints, traces, ...run }) =>
+    includeTraces ? { ...run, timePoints, traces } : run)
+
+  return {
+    ...baseResponse,
+    success: true,
+    data: {
+      batch: {
+        mode: spec.mode,
+        runs,
+        failedRuns: results.runs.filter(run => run.error).length,
+        summary: results.summary,
+        seed: results.seed
+      },
+      config: config
+    }
+  }
+}
+
 async function handleValidateModel(model: any, versionData: any, baseResponse: AutomationResponse): Promise<AutomationResponse> {
   const sheets = versionData.data.sheets || []
   
@@ -504,12 +613,30 @@ function getRequiredInputCount(blockType: string): number {
       return 1 // At least one input required
     case 'scale':
     case 'transfer_function':
+    case 'unit_delay':
+    case 'zero_order_hold':
+    case 'discrete_transfer_function':
+    case 'discrete_integrator':
+    case 'integrator':
+    case 'derivative':
+    case 'pid':
+    case 'saturation':
+    case 'rate_limiter':
+    case 'dead_zone':
+    case 'quantizer':
+    case 'data_type_conversion':
+    case 'switch_case':
+    case 'merge':
+    case 'logical_operator':
+    case 'bitwise_operator':
     case 'lookup_1d':
     case 'signal_display':
     case 'signal_logger':
     case 'output_port':
       return 1
     case 'lookup_2d':
+    case 'multiport_switch':
+    case 'relational_operator':
       return 2
     case 'input_port':
     case 'source':
@@ -35,7 +35,16 @@ async function generateCodeHandler(request: NextRequest): Promise<NextResponse>
   // Validate required fields
   validateRequiredFields(requestBody, ['modelId'])
   
-  const { modelId, version } = requestBody
+  const { modelId, version, tunableParameters, parameterTable } = requestBody
+
+  if (tunableParameters !== undefined &&
+      (!Array.isArray(tunableParameters) || !tunableParameters.every(path => typeof path === 'string'))) {
+    throw new AppError(
+      'tunableParameters must be a list of parameter paths such as "Controller/Kp.gain"',
+      400,
+      ErrorTypes.VALIDATION_ERROR
+    )
+  }
 
   // Validate modelId format (should be UUID)
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
@@ -158,7 +167,11 @@ async function generateCodeHandler(request: NextRequest): Promise<NextResponse>
   // Generate the code
   let codeGenerator: ModelCodeGenerator
   try {
-    codeGenerator = new ModelCodeGenerator()
+    codeGenerator = new ModelCodeGenerator({
+      workspace: versionData.data.workspace ?? [],
+      tunableParameters,
+      generateParameterTable: parameterTable === true
+    })
 
   
   } catch (error) {
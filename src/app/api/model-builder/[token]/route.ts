@@ -1576,7 +1576,7 @@ export async function POST(
         // Check for unconnected required ports
         blocks.forEach((block: any) => {
           // Check for blocks that typically need inputs
-          if (['sum', 'multiply', 'scale', 'transfer_function', 'output_port', 'signal_display', 'signal_logger'].includes(block.type)) {
+          if (['sum', 'multiply', 'scale', 'transfer_function', 'unit_delay', 'zero_order_hold', 'discrete_transfer_function', 'discrete_integrator', 'integrator', 'derivative', 'pid', 'saturation', 'rate_limiter', 'dead_zone', 'quantizer', 'data_type_conversion', 'multiport_switch', 'switch_case', 'merge', 'relational_operator', 'logical_operator', 'bitwise_operator', 'output_port', 'signal_display', 'signal_logger'].includes(block.type)) {
             const hasInputConnection = connections.some((conn: any) => conn.targetBlockId === block.id);
             if (!hasInputConnection) {
               warnings.push(`Block '${block.name || block.id}' (${block.type}) in sheet '${sheet.name}' has no input connections`);
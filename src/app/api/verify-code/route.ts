@@ -0,0 +1,158 @@
+// app/api/verify-code/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { InputStimulus, REQUEST_RUN_TIMEOUT_MS, VerificationTolerance, getToleranceError, verifyGeneratedCode } from '@/lib/codegen/CodeVerifier'
+import { withErrorHandling, AppError, ErrorTypes, validateRequiredFields } from '@/lib/apiErrorHandler'
+
+// Create a server-side Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabaseServer = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    persistSession: false
+  }
+})
+
+type VerifyCodeRequest = {
+  modelId: string
+  version?: number
+  inputs?: Record<string, InputStimulus>
+  tolerance?: Partial<VerificationTolerance>
+}
+
+// Verification compiles and runs the model on the server, so it needs a
+// signed-in user, passed as the Supabase access token
+async function getSignedInUserId(request: NextRequest): Promise<string> {
+  const accessToken = request.headers.get('authorization')?.match(/^Bearer (.+)$/i)?.[1]
+  const { data, error } = accessToken
+    ? await supabaseServer.auth.getUser(accessToken)
+    : { data: null, error: null }
+
+  if (error || !data?.user) {
+    throw new AppError(
+      'Sign in to verify generated code',
+      401,
+      ErrorTypes.UNAUTHORIZED
+    )
+  }
+  return data.user.id
+}
+
+async function verifyCodeHandler(request: NextRequest): Promise<NextResponse> {
+  const userId = await getSignedInUserId(request)
+
+  // Parse and validate request body
+  let requestBody: VerifyCodeRequest
+  try {
+    requestBody = await request.json()
+  } catch {
+    throw new AppError(
+      'Invalid JSON in request body',
+      400,
+      ErrorTypes.VALIDATION_ERROR
+    )
+  }
+
+  validateRequiredFields(requestBody, ['modelId'])
+
+  const { modelId, version, inputs, tolerance } = requestBody
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+  if (!uuidRegex.test(modelId)) {
+    throw new AppError(
+      'Invalid model ID format',
+      400,
+      ErrorTypes.VALIDATION_ERROR,
+      { providedModelId: modelId }
+    )
+  }
+
+  const toleranceError = getToleranceError(tolerance)
+  if (toleranceError) {
+    throw new AppError(toleranceError, 400, ErrorTypes.VALIDATION_ERROR)
+  }
+
+  if (inputs !== undefined && (typeof inputs !== 'object' || inputs === null || Array.isArray(inputs))) {
+    throw new AppError(
+      'inputs must map input port names to values',
+      400,
+      ErrorTypes.VALIDATION_ERROR
+    )
+  }
+
+  const { data: model, error: dbError } = await supabaseServer
+    .from('models')
+    .select('*')
+    .eq('id', modelId)
+    .single()
+
+  // Other users' models are reported as missing
+  if (dbError || !model || model.user_id !== userId) {
+    throw new AppError(
+      'Model not found',
+      404,
+      ErrorTypes.NOT_FOUND,
+      { modelId }
+    )
+  }
+
+  const versionToUse = version || model.latest_version || 1
+
+  const { data: versionData, error: versionError } = await supabaseServer
+    .from('model_versions')
+    .select('*')
+    .eq('model_id', modelId)
+    .eq('version', versionToUse)
+    .single()
+
+  if (versionError || !versionData) {
+    throw new AppError(
+      `Version ${versionToUse} not found for this model`,
+      404,
+      ErrorTypes.NOT_FOUND,
+      { modelId, requestedVersion: versionToUse }
+    )
+  }
+
+  if (!versionData.data || !Array.isArray(versionData.data.sheets) || versionData.data.sheets.length === 0) {
+    throw new AppError(
+      'Invalid model structure: missing or invalid sheets data',
+      400,
+      ErrorTypes.VALIDATION_ERROR,
+      { modelId, modelName: model.name, version: versionToUse }
+    )
+  }
+
+  // Verify over the model's own simulation settings
+  const globalSettings = versionData.data.globalSettings
+  let result
+  try {
+    result = await verifyGeneratedCode(versionData.data.sheets, {
+      timeStep: globalSettings?.simulationTimeStep || 0.01,
+      duration: globalSettings?.simulationDuration || 10.0,
+      inputs,
+      tolerance,
+      workspace: versionData.data.workspace ?? [],
+      runTimeoutMs: REQUEST_RUN_TIMEOUT_MS
+    })
+  } catch (error) {
+    throw new AppError(
+      error instanceof Error ? error.message : 'Code verification failed',
+      400,
+      ErrorTypes.VALIDATION_ERROR,
+      { modelId, modelName: model.name, version: versionToUse }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    modelId,
+    version: versionToUse,
+    verification: result
+  })
+}
+
+// Export the wrapped handler
+export const POST = withErrorHandling(verifyCodeHandler, 'verify-code')
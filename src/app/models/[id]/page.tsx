@@ -5,10 +5,23 @@ import { useUser } from '@/lib/auth'
 import { supabase } from '@/lib/supabaseClient'
 import { BlockData, PortInfo } from '@/components/BlockNode'
 import { WireData } from '@/components/Wire'
-import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { InteractiveSimulationStatus } from '@/lib/simulation/InteractiveSimulation'
+import { SimulationWorkerClient } from '@/lib/simulation/SimulationWorkerClient'
+import { createSimulationWorker } from '@/lib/simulation/createSimulationWorker'
 import { validateMultiSheetTypeCompatibility } from '@/lib/multiSheetTypeValidator'
+import { validateSampleTimes } from '@/lib/sampleTimeValidator'
 import SaveAsDialog from '@/components/SaveAsDialog'
+import BatchSimulationDialog from '@/components/BatchSimulationDialog'
+import DataInspector from '@/components/DataInspector'
+import CodeVerificationDialog from '@/components/CodeVerificationDialog'
+import WorkspaceDialog from '@/components/WorkspaceDialog'
+import SimulationSettingsDialog from '@/components/SimulationSettingsDialog'
+import { getSimulationConfig } from '@/lib/simulationEngine'
+import { BatchSimulationResults, BatchSimulationSpec } from '@/lib/simulation/batchSimulation'
+import type { CodeVerificationResult, VerificationTolerance } from '@/lib/codegen/CodeVerifier'
+import { resolveBlockParameters, resolveWorkspaceParameters } from '@/lib/workspace'
 import CanvasReactFlow from '@/components/CanvasReactFlow'
+import { getNamespaceBlocks } from '@/lib/blockClipboard'
 import BlockLibrarySidebar from '@/components/BlockLibrarySidebar'
 import SignalDisplay from '@/components/SignalDisplay'
 import SheetTabs, { Sheet } from '@/components/SheetTabs'
@@ -17,6 +30,13 @@ import SourceConfig from '@/components/SourceConfig'
 import ScaleConfig from '@/components/ScaleConfig'
 import SubsystemConfig from '@/components/SubsystemConfig'
 import TransferFunctionConfig from '@/components/TransferFunctionConfig'
+import PIDConfig from '@/components/PIDConfig'
+import DiscreteConfig from '@/components/DiscreteConfig'
+import NonlinearConfig from '@/components/NonlinearConfig'
+import DataTypeConversionConfig from '@/components/DataTypeConversionConfig'
+import ModeLogicConfig from '@/components/ModeLogicConfig'
+import StateChartEditor from '@/components/StateChartEditor'
+import OperatorConfig from '@/components/OperatorConfig'
 import TrigConfig from '@/components/TrigConfig'
 import Lookup1DConfig from '@/components/Lookup1DConfig'
 import Lookup2DConfig from '@/components/Lookup2DConfig'
@@ -28,16 +48,18 @@ import ConditionConfig from '@/components/ConditionConfig'
 import EvaluateConfig from '@/components/EvaluateConfig'
 
 import ModelValidationButton from '@/components/ModelValidationButton'
+import { useAlgebraicLoops } from '@/hooks/useAlgebraicLoops'
 import SheetBreadcrumbs from '@/components/SheetBreadcrumbs'
 import { getSheetPath } from '@/lib/navigationUtils'
 import { parseType } from '@/lib/typeValidator'
 import { useModelStore } from '@/lib/modelStore'
 
 import { useAutoSave } from '@/lib/useAutoSave'
-import { use, useEffect, useState } from 'react'
+import { use, useEffect, useMemo, useRef, useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 
+
 interface ModelEditorPageProps {
   params: Promise<{
     id: string
@@ -52,23 +74,70 @@ export default function ModelEditorPage({ params }: ModelEditorPageProps) {
   // Zustand store
   const {
  // State
-  model, sheets, activeSheetId, blocks, wires,
+  model, sheets, activeSheetId, blocks, wires, workspace, globalSettings,
   selectedBlockId, selectedWireId, configBlock,
-  simulationResults, currentSheetSimulationResults, isSimulating, simulationEngine, outputPortValues,
+  simulationResults, currentSheetSimulationResults, isSimulating, outputPortValues,
   modelLoading, saving, error, currentVersion, isOlderVersion,
-  globalSimulationResults, 
+  globalSimulationResults, previousSimulationResults, simulationRuns, runHistoryLimit,
   
   // Actions
   setModel, setError, setModelLoading, saveModel,
   switchToSheet, addSheet, renameSheet, deleteSheet,
-  addBlock, updateBlock, deleteBlock, addWire, deleteWire,
+  addBlock, updateBlock, deleteBlock, addWire, deleteWire, pasteBlocks,
+  groupIntoSubsystem, expandSubsystem, setWorkspace, setGlobalSettings,
   setSelectedBlockId, setSelectedWireId, setConfigBlock,
-  setSimulationResults, setIsSimulating, setSimulationEngine, setOutputPortValues,
-  setGlobalSimulationResults, clearGlobalSimulationResults, 
+  setSimulationResults, setIsSimulating, setOutputPortValues,
+  setGlobalSimulationResults, clearGlobalSimulationResults, keepPreviousSimulationResults,
+  recordSimulationRun, removeSimulationRun, setRunHistoryLimit,
   updateCurrentSheet, saveCurrentSheetData, initializeFromModel, saveAsNewModel,
+  undo, redo, beginHistoryGroup, endHistoryGroup,
   } = useModelStore()
 
   const [showSaveAsDialog, setShowSaveAsDialog] = useState(false)
+  const [showWorkspaceDialog, setShowWorkspaceDialog] = useState(false)
+  const [showSettingsDialog, setShowSettingsDialog] = useState(false)
+  const [showDataInspector, setShowDataInspector] = useState(false)
+
+  // The run in progress, in a Web Worker. Results stream into the store as
+  // it advances.
+  const simulationRef = useRef<SimulationWorkerClient | null>(null)
+  const [simulationStatus, setSimulationStatus] = useState<InteractiveSimulationStatus | null>(null)
+  const [simulationProgress, setSimulationProgress] = useState(0)
+  const [realTimeFactor, setRealTimeFactor] = useState(Infinity)
+
+  // Logger data of the last run by sheet, exported from the worker
+  const loggedDataCsvRef = useRef(new Map<string, string>())
+
+  // Parameter sweeps and Monte Carlo batches run in their own worker
+  const batchRef = useRef<SimulationWorkerClient | null>(null)
+  const [showBatchDialog, setShowBatchDialog] = useState(false)
+  const [showVerifyDialog, setShowVerifyDialog] = useState(false)
+  const [verifying, setVerifying] = useState(false)
+  const [verification, setVerification] = useState<CodeVerificationResult | null>(null)
+  const [verificationError, setVerificationError] = useState('')
+  const [batchProgress, setBatchProgress] = useState<{ completed: number, total: number } | null>(null)
+  const [batchResults, setBatchResults] = useState<BatchSimulationResults | null>(null)
+
+  // Stop runs that are still going when leaving the editor
+  useEffect(() => {
+    return () => {
+      simulationRef.current?.dispose()
+      batchRef.current?.dispose()
+    }
+  }, [])
+
+  // Blocks of algebraic loops are highlighted on the canvas
+  const algebraicLoops = useAlgebraicLoops(blocks, wires)
+  const loopBlockIds = useMemo(
+    () => new Set(algebraicLoops.flatMap(loop => loop.blockIds)),
+    [algebraicLoops]
+  )
+
+  // Pasted blocks are renamed against every sheet sharing the C namespace
+  const namespaceBlocks = useMemo(
+    () => getNamespaceBlocks(sheets, activeSheetId, blocks),
+    [sheets, activeSheetId, blocks]
+  )
   
   // Unwrap the params Promise
   const { id } = use(params)
@@ -195,7 +264,8 @@ export default function ModelEditorPage({ params }: ModelEditorPageProps) {
           f0: 0.1,
           f1: 10,
           duration: 10,
-          mean: 0
+          mean: 0,
+          seed: 0
         }
       case 'input_port':
         return { 
@@ -213,6 +283,79 @@ export default function ModelEditorPage({ params }: ModelEditorPageProps) {
           numerator: [1], 
           denominator: [1, 1]
         }
+      case 'unit_delay':
+        return {
+          initialCondition: 0,
+          sampleTime: -1
+        }
+      case 'zero_order_hold':
+        return { sampleTime: -1 }
+      case 'discrete_transfer_function':
+        return {
+          numerator: [1],
+          denominator: [1, -0.5],
+          sampleTime: -1
+        }
+      case 'discrete_integrator':
+        return {
+          gain: 1,
+          initialCondition: 0,
+          sampleTime: -1
+        }
+      case 'integrator':
+        return { initialCondition: 0 }
+      case 'derivative':
+        return { filterCoefficient: 100 }
+      case 'pid':
+        return {
+          form: 'parallel',
+          kp: 1,
+          ki: 0,
+          kd: 0,
+          filterCoefficient: 100,
+          antiWindup: 'clamping'
+        }
+      case 'rate_limiter':
+        return {
+          risingSlewRate: 1,
+          fallingSlewRate: -1,
+          initialCondition: 0,
+          sampleTime: -1
+        }
+      case 'saturation':
+        return { upperLimit: 1, lowerLimit: -1 }
+      case 'dead_zone':
+        return { start: -0.5, end: 0.5 }
+      case 'quantizer':
+        return { interval: 0.5 }
+      case 'data_type_conversion':
+        return { outputDataType: 'int16', rounding: 'floor', saturateOnOverflow: true }
+      case 'multiport_switch':
+        return { numInputs: 3, indexBase: 'one' }
+      case 'switch_case':
+        return { cases: [1, 2], showDefaultCase: true }
+      case 'merge':
+        return { numInputs: 2, initialOutput: 0 }
+      case 'relational_operator':
+        return { operator: '<=' }
+      case 'logical_operator':
+        return { operator: 'AND', numInputs: 2 }
+      case 'bitwise_operator':
+        return { operator: 'AND', numInputs: 2, useBitMask: false, bitMask: '0xFF' }
+      case 'state_chart':
+        return {
+          inputs: ['u'],
+          outputs: [{ name: 'y', initialValue: 0 }],
+          states: [
+            { name: 'Off', entry: 'y = 0', during: '', exit: '', position: { x: 40, y: 60 } },
+            { name: 'On', entry: 'y = 1', during: '', exit: '', position: { x: 280, y: 60 } }
+          ],
+          transitions: [
+            { from: 'Off', to: 'On', guard: 'u > 0.5', action: '' },
+            { from: 'On', to: 'Off', guard: 'u < -0.5', action: '' }
+          ],
+          initialState: 'Off'
+        }
       case 'lookup_1d':
         return {
           inputValues: [0, 1, 2],
@@ -232,6 +375,7 @@ export default function ModelEditorPage({ params }: ModelEditorPageProps) {
           baseType: 'double'
         }
       case 'signal_display':
+        return { maxSamples: 1000, displayMode: 'time' }
       case 'signal_logger':
         return { maxSamples: 1000 }
       case 'subsystem':
@@ -335,6 +479,29 @@ export default function ModelEditorPage({ params }: ModelEditorPageProps) {
     console.log('Block added:', newBlock)
   }
 
+  const handlePaste = (pastedBlocks: BlockData[], pastedWires: WireData[]) => {
+    pasteBlocks(pastedBlocks, pastedWires)
+    saveCurrentSheetData()
+  }
+
+  const handleGroupIntoSubsystem = (blockIds: string[]) => {
+    try {
+      groupIntoSubsystem(blockIds)
+      saveCurrentSheetData()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not group the blocks into a subsystem')
+    }
+  }
+
+  const handleExpandSubsystem = (subsystemId: string) => {
+    try {
+      expandSubsystem(subsystemId)
+      saveCurrentSheetData()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not expand the subsystem')
+    }
+  }
+
   const handleBlockMove = (blockId: string, position: { x: number; y: number }) => {
     updateBlock(blockId, { position })
     saveCurrentSheetData()
@@ -456,10 +623,8 @@ const handleExportModel = () => {
         description: `Exported from obliq-2 on ${new Date().toLocaleDateString()}`
       },
       sheets,
-      globalSettings: {
-        simulationTimeStep: 0.01,
-        simulationDuration: 10
-      }
+      globalSettings,
+      workspace
     }
   }
   
@@ -497,7 +662,6 @@ const handleExportModel = () => {
     })))
 
     const errors = validationResult.errors
-    const warnings = validationResult.warnings
 
     // Block on errors
     if (errors.length > 0) {
@@ -514,6 +678,31 @@ const handleExportModel = () => {
       return
     }
 
+    // Algebraic loops have no valid execution order
+    if (algebraicLoops.length > 0) {
+      alert(
+        `Cannot run simulation due to ${algebraicLoops.length} algebraic loop${algebraicLoops.length > 1 ? 's' : ''}:\n\n` +
+        algebraicLoops.map(loop => `• ${loop.blockNames.join(', ')}`).join('\n') + '\n\n' +
+        'Insert a delay, integrator or other block with state into each loop. The loop blocks are highlighted on the canvas.'
+      )
+      return
+    }
+
+    // Parameter expressions are evaluated against the workspace before the run
+    let resolvedSheets
+    try {
+      resolvedSheets = resolveWorkspaceParameters(sheets, workspace)
+    } catch (error) {
+      alert(`Cannot run simulation: ${error instanceof Error ? error.message : String(error)}`)
+      return
+    }
+
+    // Sample times are checked once their expressions are resolved
+    const warnings = [
+      ...validationResult.warnings,
+      ...validateSampleTimes(resolvedSheets, getSimulationConfig(globalSettings).timeStep)
+    ]
+
     // Allow bypass for warnings
     if (warnings.length > 0) {
       const warningMessages = warnings.slice(0, 3).map(w => {
@@ -529,59 +718,107 @@ const handleExportModel = () => {
       if (!proceed) return
     }
 
+    simulationRef.current?.dispose()
+    // Signal displays can overlay the last run on the new one
+    keepPreviousSimulationResults()
     setIsSimulating(true)
+    setSimulationProgress(0)
     try {
-      const config = {
-        timeStep: 0.01,
-        duration: 10.0
-      }
-      
-      // Create multi-sheet simulation engine
-      const multiEngine = new MultiSheetSimulationEngine(sheets, config)
-      
-      // Run simulation across ALL sheets - this returns results for all sheets
-      const allResults = multiEngine.run()
-      
-      // Store ALL results globally
-      setGlobalSimulationResults(allResults)
+      const config = getSimulationConfig(globalSettings)
       
-      // Also set the current sheet's engine for CSV export and other operations
-      const currentSheetEngine = multiEngine.getSheetEngine(activeSheetId)
-      if (currentSheetEngine) {
-        setSimulationEngine(currentSheetEngine)
-        setOutputPortValues(multiEngine.getOutputPortValues(activeSheetId) || new Map())
-      }
-      
-      console.log('Simulation completed for all sheets:', {
-        totalSheets: allResults.size,
-        sheetsWithData: Array.from(allResults.keys())
+      // Run the simulation across ALL sheets in a worker, so the editor
+      // stays responsive and displays fill in while it runs
+      const client: SimulationWorkerClient = new SimulationWorkerClient(createSimulationWorker(), {
+        onResults: (allResults) => setGlobalSimulationResults(allResults),
+        onStatusChange: (status) => setSimulationStatus(status),
+        onProgress: (time, duration) => setSimulationProgress(duration > 0 ? time / duration : 1),
+        onComplete: (outputs) => {
+          client.dispose()
+          if (simulationRef.current === client) {
+            simulationRef.current = null
+          }
+          setIsSimulating(false)
+
+          // Keep the run for the data inspector, with the parameters it used
+          recordSimulationRun({ modelVersion: currentVersion, sheets: resolvedSheets, workspace })
+
+          loggedDataCsvRef.current = new Map(outputs.map(output => [output.sheetId, output.loggedDataCsv]))
+          const activeOutputs = outputs.find(output => output.sheetId === activeSheetId)
+          setOutputPortValues(new Map(activeOutputs?.outputPortValues ?? []))
+        },
+        onError: (message) => {
+          console.error('Simulation error:', message)
+          alert('Simulation failed. Check console for details.')
+        }
       })
-      
-      // Log summary of results for debugging
-      for (const [sheetId, results] of allResults) {
-        const sheet = sheets.find(s => s.id === sheetId)
-        console.log(`Sheet "${sheet?.name || sheetId}":`, {
-          displays: results.signalData.size,
-          timePoints: results.timePoints.length
-        })
-      }
-      
+      simulationRef.current = client
+      client.start(resolvedSheets, config, realTimeFactor)
     } catch (error) {
       console.error('Simulation error:', error)
       alert('Simulation failed. Check console for details.')
-    } finally {
       setIsSimulating(false)
     }
   }
 
+  const handleRunBatch = (spec: BatchSimulationSpec) => {
+    saveCurrentSheetData()
+
+    let resolvedSheets
+    try {
+      resolvedSheets = resolveWorkspaceParameters(sheets, workspace)
+    } catch (error) {
+      alert(`Batch simulation failed: ${error instanceof Error ? error.message : String(error)}`)
+      return
+    }
+
+    batchRef.current?.dispose()
+
+    const client: SimulationWorkerClient = new SimulationWorkerClient(createSimulationWorker(), {
+      onBatchProgress: (completed, total) => setBatchProgress({ completed, total }),
+      onBatchComplete: (results) => {
+        finishBatch(client)
+        setBatchResults(results)
+      },
+      onError: (message) => {
+        finishBatch(client)
+        alert(`Batch simulation failed: ${message}`)
+      }
+    })
+    batchRef.current = client
+    setBatchResults(null)
+    setBatchProgress({ completed: 0, total: 0 })
+    client.startBatch(resolvedSheets, getSimulationConfig(globalSettings), spec)
+  }
+
+  const finishBatch = (client: SimulationWorkerClient) => {
+    client.dispose()
+    if (batchRef.current === client) {
+      batchRef.current = null
+      setBatchProgress(null)
+    }
+  }
+
+  // Output ports a batch can trace
+  const topLevelOutputPorts = useMemo(
+    () => sheets.flatMap(sheet => sheet.blocks)
+      .filter(block => block.type === 'output_port')
+      .map(block => block.parameters?.portName ?? block.name),
+    [sheets]
+  )
+
+  const handleRealTimeFactorChange = (factor: number) => {
+    setRealTimeFactor(factor)
+    simulationRef.current?.setRealTimeFactor(factor)
+  }
+
   const handleExportCSV = () => {
-    if (!simulationEngine) {
+    if (!loggedDataCsvRef.current.has(activeSheetId)) {
       alert('No simulation data to export')
       return
     }
 
     try {
-      const csvContent = simulationEngine.exportAllLoggedDataAsCSV()
+      const csvContent = loggedDataCsvRef.current.get(activeSheetId)
       if (!csvContent) {
         alert('No logger blocks found or no data to export')
         return
@@ -646,6 +883,45 @@ const handleExportModel = () => {
     }
   }
 
+  const handleVerifyCode = async (tolerance: Partial<VerificationTolerance>) => {
+    if (!model) {
+      alert('No model loaded')
+      return
+    }
+
+    setVerifying(true)
+    setVerificationError('')
+    try {
+      saveCurrentSheetData()
+
+      // The route compiles and runs the model, so it only serves the owner
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch('/api/verify-code', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token ?? ''}`,
+        },
+        body: JSON.stringify({
+          modelId: model.id,
+          version: currentVersion,
+          tolerance
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Code verification failed')
+      }
+      setVerification(data.verification)
+    } catch (error) {
+      console.error('Code verification error:', error)
+      setVerificationError(error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      setVerifying(false)
+    }
+  }
+
   const handleBlockDoubleClick = (blockId: string) => {
     console.log('handleBlockDoubleClick called with:', blockId)
     const block = blocks.find(b => b.id === blockId)
@@ -660,6 +936,25 @@ const handleExportModel = () => {
       block.type === 'source' ||
       block.type === 'scale' ||
       block.type === 'transfer_function' ||
+      block.type === 'discrete_transfer_function' ||
+      block.type === 'pid' ||
+      block.type === 'unit_delay' ||
+      block.type === 'zero_order_hold' ||
+      block.type === 'discrete_integrator' ||
+      block.type === 'integrator' ||
+      block.type === 'derivative' ||
+      block.type === 'rate_limiter' ||
+      block.type === 'saturation' ||
+      block.type === 'dead_zone' ||
+      block.type === 'quantizer' ||
+      block.type === 'data_type_conversion' ||
+      block.type === 'multiport_switch' ||
+      block.type === 'switch_case' ||
+      block.type === 'merge' ||
+      block.type === 'state_chart' ||
+      block.type === 'relational_operator' ||
+      block.type === 'logical_operator' ||
+      block.type === 'bitwise_operator' ||
       block.type === 'subsystem' ||
       block.type === 'lookup_1d' ||
       block.type === 'lookup_2d' ||
@@ -680,6 +975,16 @@ const handleExportModel = () => {
     if (configBlock) {
       updateBlock(configBlock.id, { parameters })
       saveCurrentSheetData()
+      
+      // Tunable parameters take effect in a running simulation at once
+      if (simulationRef.current) {
+        try {
+          const resolved = resolveBlockParameters({ ...configBlock, parameters }, workspace)
+          simulationRef.current.updateBlockParameters(configBlock.id, resolved.parameters)
+        } catch (error) {
+          alert(`Cannot apply parameters: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      }
     }
   }
 
@@ -827,16 +1132,83 @@ const handleExportModel = () => {
                 onSelectWire={setSelectedWireId}
               />
               
+              <select
+                className="px-2 py-2 rounded-md border border-gray-600 bg-gray-800 text-white text-sm"
+                value={String(realTimeFactor)}
+                onChange={(e) => handleRealTimeFactorChange(Number(e.target.value))}
+                title="Simulated time per second of wall-clock time"
+              >
+                <option value="Infinity">As fast as possible</option>
+                <option value="10">10× real time</option>
+                <option value="1">Real time</option>
+                <option value="0.1">0.1× real time</option>
+              </select>
+              {isSimulating ? (
+                <>
+                  <button 
+                    className="px-4 py-2 rounded-md text-white font-medium border bg-blue-700 hover:bg-blue-800 border-blue-600"
+                    onClick={() => simulationStatus === 'running' ? simulationRef.current?.pause() : simulationRef.current?.resume()}
+                  >
+                    {simulationStatus === 'running' ? 'Pause' : 'Resume'}
+                  </button>
+                  <button 
+                    className="px-4 py-2 rounded-md text-white font-medium border bg-blue-700 hover:bg-blue-800 border-blue-600"
+                    onClick={() => simulationRef.current?.step()}
+                    title="Advance one time step"
+                  >
+                    Step
+                  </button>
+                  <div
+                    className="w-32 h-2 rounded-full bg-gray-700 overflow-hidden"
+                    title={`${Math.round(simulationProgress * 100)}% simulated`}
+                  >
+                    <div
+                      className="h-full bg-blue-500"
+                      style={{ width: `${simulationProgress * 100}%` }}
+                    />
+                  </div>
+                  <button 
+                    className="px-4 py-2 rounded-md text-white font-medium border bg-red-700 hover:bg-red-800 border-red-600"
+                    onClick={() => simulationRef.current?.cancel()}
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <button 
+                  className="px-4 py-2 rounded-md text-white font-medium border bg-blue-700 hover:bg-blue-800 border-blue-600"
+                  onClick={handleRunSimulation}
+                >
+                  Run Simulation
+                </button>
+              )}
               <button 
-                className={`px-4 py-2 rounded-md text-white font-medium border ${
-                  isSimulating 
-                    ? 'bg-gray-500 cursor-not-allowed border-gray-400' 
-                    : 'bg-blue-700 hover:bg-blue-800 border-blue-600'
-                }`}
-                onClick={handleRunSimulation}
-                disabled={isSimulating}
+                className="px-4 py-2 rounded-md text-white font-medium border bg-blue-700 hover:bg-blue-800 border-blue-600"
+                onClick={() => setShowSettingsDialog(true)}
+                title="Time step, duration and solver of simulation runs"
+              >
+                Settings
+              </button>
+              <button 
+                className="px-4 py-2 rounded-md text-white font-medium border bg-blue-700 hover:bg-blue-800 border-blue-600"
+                onClick={() => setShowBatchDialog(true)}
+                title="Parameter sweep or Monte Carlo runs"
+              >
+                Batch Run
+              </button>
+              <button 
+                className="px-4 py-2 rounded-md text-white font-medium border bg-blue-700 hover:bg-blue-800 border-blue-600"
+                onClick={() => setShowDataInspector(true)}
+                title="Compare signals across recent simulation runs"
+              >
+                Data Inspector
+              </button>
+              <button 
+                className="px-4 py-2 rounded-md text-white font-medium border bg-blue-700 hover:bg-blue-800 border-blue-600"
+                onClick={() => setShowWorkspaceDialog(true)}
+                title="Named values that block parameters can refer to"
               >
-                {isSimulating ? 'Running...' : 'Run Simulation'}
+                Workspace
               </button>
               <button 
                 className="px-4 py-2 bg-purple-700 text-white rounded-md hover:bg-purple-800 border border-purple-600 font-medium"
@@ -844,6 +1216,13 @@ const handleExportModel = () => {
               >
                 Generate Code
               </button>
+              <button 
+                className="px-4 py-2 bg-purple-700 text-white rounded-md hover:bg-purple-800 border border-purple-600 font-medium"
+                onClick={() => setShowVerifyDialog(true)}
+                title="Compile the generated code and compare it with the simulation"
+              >
+                Verify Code
+              </button>
 
               <button 
                 className="px-4 py-2 bg-indigo-700 text-white rounded-md hover:bg-indigo-800 border border-indigo-600 font-medium"
@@ -890,8 +1269,12 @@ const handleExportModel = () => {
             wires={wires}
             selectedBlockId={selectedBlockId}
             selectedWireId={selectedWireId}
+            loopBlockIds={loopBlockIds}
+            namespaceBlocks={namespaceBlocks}
             onDrop={handleCanvasDrop}
             onBlockMove={handleBlockMove}
+            onBlockDragStart={() => beginHistoryGroup('Move blocks')}
+            onBlockDragEnd={endHistoryGroup}
             onBlockSelect={setSelectedBlockId}
             onBlockDoubleClick={handleBlockDoubleClick}
             onBlockDelete={handleBlockDelete}
@@ -899,6 +1282,11 @@ const handleExportModel = () => {
             onWireSelect={setSelectedWireId}
             onWireDelete={handleWireDelete}
             onSheetNavigate={switchToSheet}
+            onUndo={undo}
+            onRedo={redo}
+            onPaste={handlePaste}
+            onGroupIntoSubsystem={handleGroupIntoSubsystem}
+            onExpandSubsystem={handleExpandSubsystem}
           />
           </div>
 
@@ -938,12 +1326,18 @@ const handleExportModel = () => {
                       time,
                       value: data[index]
                     }))
+                    const previousResults = previousSimulationResults?.get(activeSheetId)
+                    const previousData = previousResults?.signalData.get(blockId)
+                    const previousSignalData = previousResults && previousData
+                      ? previousResults.timePoints.map((time: number, index: number) => ({ time, value: previousData[index] }))
+                      : undefined
                     
                     return (
                       <div key={blockId} className="mb-6">
                         <SignalDisplay
                           block={block}
                           signalData={signalData}
+                          previousSignalData={previousSignalData}
                           isRunning={false}
                         />
                       </div>
@@ -1063,6 +1457,53 @@ const handleExportModel = () => {
         />
       )}
 
+      {showWorkspaceDialog && (
+        <WorkspaceDialog
+          workspace={workspace}
+          onSave={setWorkspace}
+          onClose={() => setShowWorkspaceDialog(false)}
+        />
+      )}
+
+      {showSettingsDialog && (
+        <SimulationSettingsDialog
+          settings={globalSettings}
+          onSave={setGlobalSettings}
+          onClose={() => setShowSettingsDialog(false)}
+        />
+      )}
+
+      {showBatchDialog && (
+        <BatchSimulationDialog
+          outputPorts={topLevelOutputPorts}
+          progress={batchProgress}
+          results={batchResults}
+          onRun={handleRunBatch}
+          onCancel={() => batchRef.current?.cancel()}
+          onClose={() => setShowBatchDialog(false)}
+        />
+      )}
+
+      {showDataInspector && (
+        <DataInspector
+          runs={simulationRuns}
+          historyLimit={runHistoryLimit}
+          onHistoryLimitChange={setRunHistoryLimit}
+          onRemoveRun={removeSimulationRun}
+          onClose={() => setShowDataInspector(false)}
+        />
+      )}
+
+      {showVerifyDialog && (
+        <CodeVerificationDialog
+          running={verifying}
+          result={verification}
+          error={verificationError}
+          onRun={handleVerifyCode}
+          onClose={() => setShowVerifyDialog(false)}
+        />
+      )}
+
       {/* Configuration Modals */}
       {configBlock && (
         <>
@@ -1077,6 +1518,7 @@ const handleExportModel = () => {
           {configBlock.type === 'evaluate' && (
             <EvaluateConfig
               block={configBlock}
+              workspace={workspace}
               onUpdate={handleBlockConfigUpdate}
               onClose={() => setConfigBlock(null)}
             />
@@ -1109,13 +1551,69 @@ const handleExportModel = () => {
               onClose={() => setConfigBlock(null)}
             />
           )}
-          {configBlock.type === 'transfer_function' && (
+          {(configBlock.type === 'transfer_function' || configBlock.type === 'discrete_transfer_function') && (
             <TransferFunctionConfig
               block={configBlock}
               onUpdate={handleBlockConfigUpdate}
               onClose={() => setConfigBlock(null)}
             />
           )}
+          {configBlock.type === 'pid' && (
+            <PIDConfig
+              block={configBlock}
+              onUpdate={handleBlockConfigUpdate}
+              onClose={() => setConfigBlock(null)}
+            />
+          )}
+          {(configBlock.type === 'unit_delay' ||
+            configBlock.type === 'zero_order_hold' ||
+            configBlock.type === 'discrete_integrator') && (
+            <DiscreteConfig
+              block={configBlock}
+              onUpdate={handleBlockConfigUpdate}
+              onClose={() => setConfigBlock(null)}
+            />
+          )}
+          {(configBlock.type === 'integrator' ||
+            configBlock.type === 'derivative' ||
+            configBlock.type === 'rate_limiter' ||
+            configBlock.type === 'saturation' ||
+            configBlock.type === 'dead_zone' ||
+            configBlock.type === 'quantizer') && (
+            <NonlinearConfig
+              block={configBlock}
+              onUpdate={handleBlockConfigUpdate}
+              onClose={() => setConfigBlock(null)}
+            />
+          )}
+          {configBlock.type === 'data_type_conversion' && (
+            <DataTypeConversionConfig
+              block={configBlock}
+              onUpdate={handleBlockConfigUpdate}
+              onClose={() => setConfigBlock(null)}
+            />
+          )}
+          {(configBlock.type === 'multiport_switch' || configBlock.type === 'switch_case' || configBlock.type === 'merge') && (
+            <ModeLogicConfig
+              block={configBlock}
+              onUpdate={handleBlockConfigUpdate}
+              onClose={() => setConfigBlock(null)}
+            />
+          )}
+          {configBlock.type === 'state_chart' && (
+            <StateChartEditor
+              block={configBlock}
+              onUpdate={handleBlockConfigUpdate}
+              onClose={() => setConfigBlock(null)}
+            />
+          )}
+          {(configBlock.type === 'relational_operator' || configBlock.type === 'logical_operator' || configBlock.type === 'bitwise_operator') && (
+            <OperatorConfig
+              block={configBlock}
+              onUpdate={handleBlockConfigUpdate}
+              onClose={() => setConfigBlock(null)}
+            />
+          )}
           {configBlock.type === 'subsystem' && (
             <SubsystemConfig
               block={configBlock}
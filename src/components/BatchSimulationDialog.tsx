@@ -0,0 +1,326 @@
+// components/BatchSimulationDialog.tsx
+
+'use client'
+
+import { useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts'
+import {
+  BatchParameter,
+  BatchParameterValues,
+  BatchSimulationResults,
+  BatchSimulationSpec,
+  OutputMetrics,
+  createBatchCases
+} from '@/lib/simulation/batchSimulation'
+
+interface BatchSimulationDialogProps {
+  /** Names of the model's top-level output ports */
+  outputPorts: string[]
+
+  /** Runs done so far while a batch is running */
+  progress: { completed: number, total: number } | null
+  results: BatchSimulationResults | null
+  onRun: (spec: BatchSimulationSpec) => void
+  onCancel: () => void
+  onClose: () => void
+}
+
+interface ParameterRow {
+  path: string
+  type: BatchParameterValues['type']
+  fields: Record<string, string>
+}
+
+const FIELDS: Record<BatchParameterValues['type'], { key: string, label: string }[]> = {
+  list: [{ key: 'values', label: 'Values (comma separated)' }],
+  range: [{ key: 'start', label: 'Start' }, { key: 'stop', label: 'Stop' }, { key: 'count', label: 'Count' }],
+  uniform: [{ key: 'min', label: 'Min' }, { key: 'max', label: 'Max' }],
+  normal: [{ key: 'mean', label: 'Mean' }, { key: 'standardDeviation', label: 'Std dev' }]
+}
+
+const METRICS: { key: keyof OutputMetrics, label: string }[] = [
+  { key: 'finalValue', label: 'Final value' },
+  { key: 'maxOvershoot', label: 'Max overshoot (%)' },
+  { key: 'settlingTime', label: 'Settling time (s)' }
+]
+
+// Traces beyond this many runs are left off the plots to keep them fast
+const MAX_PLOTTED_RUNS = 100
+
+const TRACE_COLORS = ['#ef4444', '#10b981', '#3b82f6', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316']
+
+function toValues(row: ParameterRow): BatchParameterValues {
+  const number = (key: string) => Number(row.fields[key] ?? '')
+  switch (row.type) {
+    case 'list':
+      return { type: 'list', values: (row.fields.values ?? '').split(',').filter(v => v.trim()).map(Number) }
+    case 'range':
+      return { type: 'range', start: number('start'), stop: number('stop'), count: number('count') }
+    case 'uniform':
+      return { type: 'uniform', min: number('min'), max: number('max') }
+    case 'normal':
+      return { type: 'normal', mean: number('mean'), standardDeviation: number('standardDeviation') }
+  }
+}
+
+const format = (value: number) => Number.isFinite(value) ? Number(value.toPrecision(4)).toString() : '–'
+
+export default function BatchSimulationDialog({
+  outputPorts,
+  progress,
+  results,
+  onRun,
+  onCancel,
+  onClose
+}: BatchSimulationDialogProps) {
+  const [mode, setMode] = useState<BatchSimulationSpec['mode']>('sweep')
+  const [runs, setRuns] = useState('100')
+  const [seed, setSeed] = useState('1')
+  const [rows, setRows] = useState<ParameterRow[]>([{ path: '', type: 'list', fields: {} }])
+  const [outputs, setOutputs] = useState<string[]>(outputPorts.slice(0, 1))
+  const [error, setError] = useState('')
+
+  const updateRow = (index: number, changes: Partial<ParameterRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...changes } : row))
+    setError('')
+  }
+
+  const toggleOutput = (output: string) => {
+    setOutputs(outputs.includes(output) ? outputs.filter(o => o !== output) : [...outputs, output])
+    setError('')
+  }
+
+  const handleRun = () => {
+    const parameters: BatchParameter[] = rows.map(row => ({ path: row.path.trim(), values: toValues(row) }))
+    const spec: BatchSimulationSpec = {
+      mode,
+      parameters,
+      outputs,
+      ...(mode === 'monteCarlo' ? { runs: Number(runs), seed: Number(seed) } : {})
+    }
+    try {
+      createBatchCases(spec)
+    } catch (specError) {
+      setError(specError instanceof Error ? specError.message : String(specError))
+      return
+    }
+    onRun(spec)
+  }
+
+  const renderTraces = (output: string) => {
+    const plotted = results!.runs.filter(run => !run.error).slice(0, MAX_PLOTTED_RUNS)
+    const timePoints = plotted[0]?.timePoints ?? []
+    const data = timePoints.map((time, sample) => {
+      const row: Record<string, number> = { time }
+      plotted.forEach(run => { row[`run${run.index}`] = run.traces[output][sample] })
+      return row
+    })
+
+    return (
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="time" tick={{ fontSize: 12 }} stroke="#6b7280" tickFormatter={(value) => value.toFixed(2)} />
+            <YAxis tick={{ fontSize: 12 }} stroke="#6b7280" tickFormatter={(value) => value.toFixed(2)} />
+            {plotted.map((run, i) => (
+              <Line
+                key={run.index}
+                type="monotone"
+                dataKey={`run${run.index}`}
+                stroke={TRACE_COLORS[i % TRACE_COLORS.length]}
+                strokeWidth={1}
+                strokeOpacity={0.7}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    )
+  }
+
+  const renderSummary = (output: string) => (
+    <table className="w-full text-sm text-gray-700">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1">Metric</th>
+          <th className="py-1">Min</th>
+          <th className="py-1">Mean</th>
+          <th className="py-1">Max</th>
+          <th className="py-1">Std dev</th>
+        </tr>
+      </thead>
+      <tbody>
+        {METRICS.map(({ key, label }) => {
+          const statistics = results!.summary[output][key]
+          return (
+            <tr key={key} className="border-t border-gray-200">
+              <td className="py-1">{label}</td>
+              <td className="py-1">{format(statistics.min)}</td>
+              <td className="py-1">{format(statistics.mean)}</td>
+              <td className="py-1">{format(statistics.max)}</td>
+              <td className="py-1">{format(statistics.standardDeviation)}</td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+
+  const failedRuns = results ? results.runs.filter(run => run.error) : []
+  const inputClass = 'px-2 py-1 border border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:outline-none focus:border-blue-600'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Batch Simulation</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 px-6 py-4 overflow-y-auto space-y-4">
+          {/* Mode */}
+          <div className="flex items-center gap-4 text-sm text-gray-700">
+            <select className={inputClass} value={mode} onChange={(e) => setMode(e.target.value as BatchSimulationSpec['mode'])}>
+              <option value="sweep">Parameter sweep</option>
+              <option value="monteCarlo">Monte Carlo</option>
+            </select>
+            {mode === 'monteCarlo' && (
+              <>
+                <label className="flex items-center gap-2">
+                  Runs
+                  <input className={`${inputClass} w-20`} value={runs} onChange={(e) => setRuns(e.target.value)} />
+                </label>
+                <label className="flex items-center gap-2">
+                  Seed
+                  <input className={`${inputClass} w-24`} value={seed} onChange={(e) => setSeed(e.target.value)} />
+                </label>
+              </>
+            )}
+          </div>
+
+          {/* Parameters */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Parameters</h3>
+            {rows.map((row, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <input
+                  className={`${inputClass} w-56`}
+                  value={row.path}
+                  placeholder="Subsystem/Block.parameter"
+                  onChange={(e) => updateRow(index, { path: e.target.value })}
+                />
+                <select
+                  className={inputClass}
+                  value={row.type}
+                  onChange={(e) => updateRow(index, { type: e.target.value as ParameterRow['type'], fields: {} })}
+                >
+                  <option value="list">List</option>
+                  <option value="range">Range</option>
+                  {mode === 'monteCarlo' && <option value="uniform">Uniform</option>}
+                  {mode === 'monteCarlo' && <option value="normal">Normal</option>}
+                </select>
+                {FIELDS[row.type].map(({ key, label }) => (
+                  <input
+                    key={key}
+                    className={`${inputClass} ${key === 'values' ? 'w-48' : 'w-20'}`}
+                    placeholder={label}
+                    title={label}
+                    value={row.fields[key] ?? ''}
+                    onChange={(e) => updateRow(index, { fields: { ...row.fields, [key]: e.target.value } })}
+                  />
+                ))}
+                <button
+                  className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-300"
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                  disabled={rows.length === 1}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              className="text-sm text-blue-600 hover:text-blue-800"
+              onClick={() => setRows([...rows, { path: '', type: 'list', fields: {} }])}
+            >
+              + Add parameter
+            </button>
+          </div>
+
+          {/* Outputs */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Outputs</h3>
+            {outputPorts.length === 0 ? (
+              <p className="text-sm text-gray-500">The model has no top-level output ports</p>
+            ) : (
+              <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                {outputPorts.map(output => (
+                  <label key={output} className="flex items-center gap-1">
+                    <input type="checkbox" checked={outputs.includes(output)} onChange={() => toggleOutput(output)} />
+                    {output}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* Run controls */}
+          <div className="flex items-center gap-4">
+            {progress ? (
+              <>
+                <div className="flex-1 h-2 rounded-full bg-gray-200 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500"
+                    style={{ width: `${progress.total > 0 ? progress.completed / progress.total * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="text-sm text-gray-600">{progress.completed} / {progress.total}</span>
+                <button
+                  className="px-4 py-2 rounded-md text-white font-medium border bg-red-700 hover:bg-red-800 border-red-600"
+                  onClick={onCancel}
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button
+                className="px-4 py-2 rounded-md text-white font-medium border bg-blue-700 hover:bg-blue-800 border-blue-600"
+                onClick={handleRun}
+              >
+                Run Batch
+              </button>
+            )}
+          </div>
+
+          {/* Results */}
+          {results && (
+            <div className="space-y-6">
+              {failedRuns.length > 0 && (
+                <p className="text-sm text-yellow-700">
+                  {failedRuns.length} of {results.runs.length} runs failed: {failedRuns[0].error}
+                </p>
+              )}
+              {Object.keys(results.summary).map(output => (
+                <div key={output} className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-900">{output}</h3>
+                  {renderTraces(output)}
+                  {renderSummary(output)}
+                </div>
+              ))}
+              {results.seed !== undefined && (
+                <p className="text-xs text-gray-500">Seed {results.seed}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -17,6 +17,8 @@ interface BlockContextMenuProps {
   onClose: () => void
   onPropertiesClick: (blockId: string) => void
   onSheetNavigate: (sheetId: string) => void
+  onGroupIntoSubsystem?: () => void
+  onExpandSubsystem?: (blockId: string) => void
 }
 
 export default function BlockContextMenu({
@@ -30,6 +32,8 @@ export default function BlockContextMenu({
   onClose,
   onPropertiesClick,
   onSheetNavigate,
+  onGroupIntoSubsystem,
+  onExpandSubsystem,
   ...props
 }: BlockContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null)
@@ -80,6 +84,27 @@ export default function BlockContextMenu({
         Properties...
       </button>
 
+      {/* Hierarchy refactoring */}
+      {(onGroupIntoSubsystem || (isSubsystem && onExpandSubsystem)) && (
+        <div className="border-t border-gray-200 dark:border-gray-700 my-1" />
+      )}
+      {onGroupIntoSubsystem && (
+        <button
+          className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          onClick={onGroupIntoSubsystem}
+        >
+          Group into Subsystem
+        </button>
+      )}
+      {isSubsystem && onExpandSubsystem && (
+        <button
+          className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          onClick={() => onExpandSubsystem(block.id)}
+        >
+          Expand Subsystem
+        </button>
+      )}
+
       {/* Subsystem sheet navigation - only show if subsystem has sheets */}
       {isSubsystem && hasSheets && (
         <>
@@ -61,6 +61,38 @@ const blockTypes: BlockType[] = [
     icon: '-x',
     vectorSupport: 'full'
   },
+  { 
+    id: 'saturation', 
+    name: 'Saturation', 
+    category: 'Math', 
+    description: 'Limits input to upper and lower bounds', 
+    icon: '⊓',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'dead_zone', 
+    name: 'Dead Zone', 
+    category: 'Math', 
+    description: 'Zero output within a range', 
+    icon: '_/',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'quantizer', 
+    name: 'Quantizer', 
+    category: 'Math', 
+    description: 'Rounds input to a quantization interval', 
+    icon: '⌐_',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'data_type_conversion', 
+    name: 'Data Type Conversion', 
+    category: 'Math', 
+    description: 'Converts to an integer, fixed-point or floating-point type', 
+    icon: 'T→',
+    vectorSupport: 'element-wise'
+  },
   
   // Dynamic Systems
   { 
@@ -71,6 +103,72 @@ const blockTypes: BlockType[] = [
     icon: 'H(s)',
     vectorSupport: 'element-wise'
   },
+  { 
+    id: 'integrator', 
+    name: 'Integrator', 
+    category: 'Dynamic', 
+    description: 'Integrator with reset and limits', 
+    icon: '1/s',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'derivative', 
+    name: 'Derivative', 
+    category: 'Dynamic', 
+    description: 'Filtered derivative', 
+    icon: 'du/dt',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'pid', 
+    name: 'PID Controller', 
+    category: 'Dynamic', 
+    description: 'PID controller with anti-windup', 
+    icon: 'PID',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'rate_limiter', 
+    name: 'Rate Limiter', 
+    category: 'Dynamic', 
+    description: 'Limits rate of change of input', 
+    icon: '/‾',
+    vectorSupport: 'element-wise'
+  },
+  
+  // Discrete Systems
+  { 
+    id: 'unit_delay', 
+    name: 'Unit Delay', 
+    category: 'Discrete', 
+    description: 'Delays input by one sample', 
+    icon: 'z⁻¹',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'zero_order_hold', 
+    name: 'Zero-Order Hold', 
+    category: 'Discrete', 
+    description: 'Samples and holds input', 
+    icon: 'ZOH',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'discrete_transfer_function', 
+    name: 'Discrete Transfer Function', 
+    category: 'Discrete', 
+    description: 'Z-domain transfer function', 
+    icon: 'H(z)',
+    vectorSupport: 'element-wise'
+  },
+  { 
+    id: 'discrete_integrator', 
+    name: 'Discrete Integrator', 
+    category: 'Discrete', 
+    description: 'Forward Euler integrator with limits', 
+    icon: 'T/(z-1)',
+    vectorSupport: 'element-wise'
+  },
   
   // Sources & Sinks
   { 
@@ -243,6 +341,62 @@ const blockTypes: BlockType[] = [
     icon: 'x1 ? c',
     vectorSupport: 'scalar-only'
   },
+  { 
+    id: 'multiport_switch', 
+    name: 'Multiport Switch', 
+    category: 'Control', 
+    description: 'Select one of several inputs by index', 
+    icon: '⇶',
+    vectorSupport: 'full'
+  },
+  { 
+    id: 'switch_case', 
+    name: 'Switch Case', 
+    category: 'Control', 
+    description: 'Boolean action outputs for integer cases', 
+    icon: 'case',
+    vectorSupport: 'scalar-only'
+  },
+  { 
+    id: 'merge', 
+    name: 'Merge', 
+    category: 'Control', 
+    description: 'Combine outputs of conditionally executed subsystems', 
+    icon: '⋃',
+    vectorSupport: 'full'
+  },
+  { 
+    id: 'state_chart', 
+    name: 'State Chart', 
+    category: 'Control', 
+    description: 'Mode logic drawn as states and transitions', 
+    icon: '⇄',
+    vectorSupport: 'scalar-only'
+  },
+  { 
+    id: 'relational_operator', 
+    name: 'Relational Operator', 
+    category: 'Control', 
+    description: 'Compare two signals element-wise', 
+    icon: 'a ≤ b',
+    vectorSupport: 'full'
+  },
+  { 
+    id: 'logical_operator', 
+    name: 'Logical Operator', 
+    category: 'Control', 
+    description: 'AND, OR, NAND, NOR, XOR or NOT of signals', 
+    icon: 'AND',
+    vectorSupport: 'full'
+  },
+  { 
+    id: 'bitwise_operator', 
+    name: 'Bitwise Operator', 
+    category: 'Control', 
+    description: 'Bitwise AND, OR, XOR or NOT of integer signals', 
+    icon: '&',
+    vectorSupport: 'full'
+  },
 
 ]
 
@@ -6,6 +6,7 @@ import { memo, CSSProperties, useEffect, useState } from 'react'
 import { Handle, Position, NodeProps } from 'reactflow'
 import { PortCountAdapter } from '@/lib/validation/PortCountAdapter'
 import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { SubsystemBlockModule } from '@/lib/blocks/SubsystemBlockModule'
 
 export interface BlockData {
   id: string
@@ -28,7 +29,8 @@ export interface BlockNodeProps {
 
 // Define custom node data structure that extends BlockData
 export interface BlockNodeData extends Omit<BlockData, 'position'> {
-  // Additional data can be added here if needed
+  /** Highlight the block as part of an algebraic loop */
+  inAlgebraicLoop?: boolean
 }
 
 // Port spacing configuration
@@ -146,6 +148,10 @@ const getBlockSymbol = (data: BlockNodeData) => {
     return renderTransferFunction(data.parameters)
   }
 
+  if (data.type === 'discrete_transfer_function') {
+    return renderTransferFunction(data.parameters, 'z', [1, -0.5])
+  }
+
   // Handle 1D lookup block
   if (data.type === 'lookup_1d') {
     return render1DLookupCurve(data.parameters)
@@ -301,15 +307,37 @@ const getBlockSymbol = (data: BlockNodeData) => {
     'transpose': 'Aᵀ',
     'evaluate': 'f(x)', // Fallback if no expression
     'condition': 'x1?', // Fallback if no condition
+    'unit_delay': 'z⁻¹',
+    'zero_order_hold': 'ZOH',
+    'discrete_integrator': 'K·T/(z-1)',
+    'integrator': '1/s',
+    'derivative': 'du/dt',
+    'pid': 'PID',
+    'rate_limiter': '/‾',
+    'saturation': '⊓',
+    'dead_zone': '_/',
+    'quantizer': '⌐_',
+    'data_type_conversion': 'T→',
+    'multiport_switch': '⇶',
+    'switch_case': 'case',
+    'merge': '⋃',
+    'state_chart': '⇄',
+    'relational_operator': data.parameters?.operator || '<=',
+    'logical_operator': data.parameters?.operator || 'AND',
+    'bitwise_operator': { AND: '&', OR: '|', XOR: '^', NOT: '~' }[data.parameters?.operator as string] || '&',
   }
 
   return symbols[data.type] || '?'
 }
 
 // Helper to render transfer function polynomial
-const renderTransferFunction = (parameters?: Record<string, any>) => {
+const renderTransferFunction = (
+  parameters?: Record<string, any>,
+  variable: string = 's',
+  defaultDenominator: number[] = [1, 1]
+) => {
   const numerator = parameters?.numerator || [1]
-  const denominator = parameters?.denominator || [1, 1]
+  const denominator = parameters?.denominator || defaultDenominator
   
   const formatPolynomial = (coeffs: number[]) => {
     const terms: React.ReactNode[] = []
@@ -333,13 +361,13 @@ const renderTransferFunction = (parameters?: Record<string, any>) => {
       } else if (power === 1) {
         terms.push(
           <span key={index}>
-            {sign}{coeff < 0 && isFirst ? '-' : ''}{coeffStr}s
+            {sign}{coeff < 0 && isFirst ? '-' : ''}{coeffStr}{variable}
           </span>
         )
       } else {
         terms.push(
           <span key={index}>
-            {sign}{coeff < 0 && isFirst ? '-' : ''}{coeffStr}s<sup>{power}</sup>
+            {sign}{coeff < 0 && isFirst ? '-' : ''}{coeffStr}{variable}<sup>{power}</sup>
           </span>
         )
       }
@@ -366,7 +394,7 @@ const renderTransferFunction = (parameters?: Record<string, any>) => {
 
 // Calculate block width based on type and content
 const getBlockWidth = (data: BlockNodeData): number => {
-  if (data.type === 'transfer_function') {
+  if (data.type === 'transfer_function' || data.type === 'discrete_transfer_function') {
     const numerator = data.parameters?.numerator || [1]
     const denominator = data.parameters?.denominator || [1, 1]
     const maxLength = Math.max(numerator.length, denominator.length)
@@ -450,7 +478,7 @@ const getBlockStyle = (data: BlockNodeData, selected: boolean | undefined) => {
     const baseStyle = `
       relative rounded-lg border-2 flex items-center justify-center
       bg-white border-gray-400
-      ${selected ? 'ring-2 ring-blue-500 ring-offset-2' : ''}
+      ${selected ? 'ring-2 ring-blue-500 ring-offset-2' : data.inAlgebraicLoop ? 'ring-2 ring-red-500 ring-offset-2' : ''}
       transition-shadow
     `
 
@@ -527,6 +555,24 @@ export const BlockNode: React.FC<BlockNodeProps> = ({ data, selected }) => {
     boxShadow: '0 0 0 2px #c4b5fd',
   }
 
+  const triggerHandleStyle: CSSProperties = {
+    ...enableHandleStyle,
+    borderRadius: 2,
+    backgroundColor: '#d97706', // Amber color for trigger
+  }
+
+  const triggerHandleHoverStyle: CSSProperties = {
+    backgroundColor: '#f59e0b',
+    boxShadow: '0 0 0 2px #fcd34d',
+  }
+
+  // Enable and trigger ports share the top edge when both are shown
+  const showEnablePort = data.type === 'subsystem' && !!data.parameters?.showEnableInput
+  const triggerType = SubsystemBlockModule.getTriggerType(data)
+  const enablePortX = triggerType ? blockWidth / 3 : blockWidth / 2
+  const triggerPortX = showEnablePort ? blockWidth * 2 / 3 : blockWidth / 2
+  const triggerSymbols = { rising: '↑', falling: '↓', either: '↕', function_call: 'f()' }
+
   // CSS additions for port labels
   const blockNodeStyles = `
     .port-labels {
@@ -682,12 +728,12 @@ export const BlockNode: React.FC<BlockNodeProps> = ({ data, selected }) => {
         </div>
 
         {/* Enable port indicator for subsystems with showEnableInput */}
-        {data.type === 'subsystem' && data.parameters?.showEnableInput && (
+        {showEnablePort && (
           <div
             className="absolute text-purple-700 font-bold pointer-events-none"
             style={{
               top: -8,
-              left: blockWidth / 2 - 6,
+              left: enablePortX - 6,
               fontSize: '0.75rem',
               transform: 'translateX(-50%)',
             }}
@@ -696,6 +742,22 @@ export const BlockNode: React.FC<BlockNodeProps> = ({ data, selected }) => {
           </div>
         )}
 
+        {/* Trigger port indicator for subsystems with showTriggerInput */}
+        {triggerType && (
+          <div
+            className="absolute text-amber-700 font-bold pointer-events-none"
+            style={{
+              top: 6,
+              left: triggerPortX,
+              fontSize: '0.7rem',
+              transform: 'translateX(-50%)',
+            }}
+            title={`Triggered: ${triggerType.replace('_', ' ')}`}
+          >
+            {triggerSymbols[triggerType]}
+          </div>
+        )}
+
         
 
         {/* Main block body */}
@@ -763,7 +825,7 @@ export const BlockNode: React.FC<BlockNodeProps> = ({ data, selected }) => {
         ))}
 
         {/* Enable Handle - Special port at top center for subsystems */}
-        {data.type === 'subsystem' && data.parameters?.showEnableInput && (
+        {showEnablePort && (
           <Handle
             type="target"
             position={Position.Top}
@@ -771,7 +833,7 @@ export const BlockNode: React.FC<BlockNodeProps> = ({ data, selected }) => {
             style={{
               ...enableHandleStyle,
               top: -6,
-              left: blockWidth / 2,
+              left: enablePortX,
               transform: 'translateX(-50%)',
             }}
             onMouseEnter={(e) => {
@@ -785,6 +847,30 @@ export const BlockNode: React.FC<BlockNodeProps> = ({ data, selected }) => {
           />
         )}
 
+        {/* Trigger Handle - Special port on top for triggered subsystems */}
+        {triggerType && (
+          <Handle
+            type="target"
+            position={Position.Top}
+            id="_trigger_"
+            style={{
+              ...triggerHandleStyle,
+              top: -6,
+              left: triggerPortX,
+              transform: 'translateX(-50%)',
+            }}
+            title="Trigger"
+            onMouseEnter={(e) => {
+              const target = e.target as HTMLElement
+              Object.assign(target.style, triggerHandleHoverStyle)
+            }}
+            onMouseLeave={(e) => {
+              const target = e.target as HTMLElement
+              Object.assign(target.style, triggerHandleStyle)
+            }}
+          />
+        )}
+
         {/* Input Handles with tooltips showing signs for sum blocks */}
         {Array.from({ length: inputCount }).map((_, index) => (
           <Handle
@@ -800,7 +886,7 @@ export const BlockNode: React.FC<BlockNodeProps> = ({ data, selected }) => {
             title={
               data.type === 'sum' && sumSigns && sumSigns[index]
                 ? `Input ${index + 1} (${sumSigns[index] === '+' ? 'Add' : 'Subtract'})`
-                : `Input ${index + 1}`
+                : portLabels.inputs?.[index] || `Input ${index + 1}`
             }
             onMouseEnter={(e) => {
               const target = e.target as HTMLElement
@@ -825,6 +911,7 @@ export const BlockNode: React.FC<BlockNodeProps> = ({ data, selected }) => {
               top: calculatePortPosition(index, outputCount, minHeight),
               right: -6,
             }}
+            title={portLabels.outputs?.[index] || `Output ${index + 1}`}
             onMouseEnter={(e) => {
               const target = e.target as HTMLElement
               Object.assign(target.style, handleHoverStyle)
@@ -885,7 +972,7 @@ export const wireDataToEdge = (wire: any) => {
     source: wire.sourceBlockId,
     target: wire.targetBlockId,
     sourceHandle: `output-${wire.sourcePortIndex}`,
-    targetHandle: wire.targetPortIndex === -1 ? '_enable_' : `input-${wire.targetPortIndex}`,
+    targetHandle: wire.targetPortIndex === -1 ? '_enable_' : wire.targetPortIndex === -2 ? '_trigger_' : `input-${wire.targetPortIndex}`,
     type: 'default',
   }
   
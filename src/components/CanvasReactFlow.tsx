@@ -35,6 +35,7 @@ import { WireData } from './Wire'
 import { validateConnection, detectAlgebraicLoop } from '@/lib/connectionValidation'
 import { propagateSignalTypes, SignalType } from '@/lib/signalTypePropagation'
 import { validateWireConnection, TypeCompatibilityError } from '@/lib/typeCompatibilityValidator'
+import { BlockClipboardData, copySelection, parseClipboard, pasteSelection, serializeClipboard } from '@/lib/blockClipboard'
 import BlockContextMenu from './BlockContextMenu'
 
 interface CanvasReactFlowProps {
@@ -42,9 +43,14 @@ interface CanvasReactFlowProps {
   wires?: WireData[]
   selectedBlockId?: string | null
   selectedWireId?: string | null
+  loopBlockIds?: Set<string>
+  // Blocks whose names pasted blocks must not reuse; defaults to `blocks`
+  namespaceBlocks?: BlockData[]
   sheets?: Array<{ id: string; name: string }>
   onDrop?: (x: number, y: number, blockType: string) => void
   onBlockMove?: (id: string, position: { x: number; y: number }) => void
+  onBlockDragStart?: () => void
+  onBlockDragEnd?: () => void
   onBlockSelect?: (id: string | null) => void
   onBlockDoubleClick?: (id: string) => void
   onBlockDelete?: (id: string) => void
@@ -52,6 +58,11 @@ interface CanvasReactFlowProps {
   onWireSelect?: (wireId: string | null) => void
   onWireDelete?: (wireId: string) => void
   onSheetNavigate?: (sheetId: string) => void
+  onUndo?: () => void
+  onRedo?: () => void
+  onPaste?: (blocks: BlockData[], wires: WireData[]) => void
+  onGroupIntoSubsystem?: (blockIds: string[]) => void
+  onExpandSubsystem?: (blockId: string) => void
 }
 
 // Context menu state type
@@ -69,9 +80,13 @@ function CanvasReactFlowInner({
   wires = [],
   selectedBlockId = null,
   selectedWireId = null,
+  loopBlockIds,
+  namespaceBlocks,
   sheets = [],
   onDrop,
   onBlockMove,
+  onBlockDragStart,
+  onBlockDragEnd,
   onBlockSelect,
   onBlockDoubleClick,
   onBlockDelete,
@@ -79,6 +94,11 @@ function CanvasReactFlowInner({
   onWireSelect,
   onWireDelete,
   onSheetNavigate,
+  onUndo,
+  onRedo,
+  onPaste,
+  onGroupIntoSubsystem,
+  onExpandSubsystem,
 }: CanvasReactFlowProps) {
   const reactFlowWrapper = useRef<HTMLDivElement>(null)
   const { project, getNode } = useReactFlow()
@@ -128,13 +148,31 @@ function CanvasReactFlowInner({
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes)
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges)
 
-  // Sync external blocks with ReactFlow state
+  // Blocks to select once a paste reaches the blocks prop
+  const pastedBlockIds = useRef<Set<string> | null>(null)
+
+  // Sync external blocks with ReactFlow state, keeping a multi-block
+  // selection as long as it contains the selected block
   useEffect(() => {
-    setNodes(blocks.map(block => ({
-      ...blockDataToNode(block),
-      selected: block.id === selectedBlockId
-    })))
-  }, [blocks, selectedBlockId, setNodes])
+    setNodes(currentNodes => {
+      let selectedIds = new Set(currentNodes.filter(n => n.selected).map(n => n.id))
+      if (pastedBlockIds.current && blocks.some(block => pastedBlockIds.current!.has(block.id))) {
+        selectedIds = pastedBlockIds.current
+        pastedBlockIds.current = null
+      } else if (!selectedBlockId || !selectedIds.has(selectedBlockId)) {
+        selectedIds = new Set(selectedBlockId ? [selectedBlockId] : [])
+      }
+      
+      return blocks.map(block => {
+        const node = blockDataToNode(block)
+        return {
+          ...node,
+          data: { ...node.data, inAlgebraicLoop: loopBlockIds?.has(block.id) ?? false },
+          selected: selectedIds.has(block.id)
+        }
+      })
+    })
+  }, [blocks, selectedBlockId, loopBlockIds, setNodes])
 
   useEffect(() => {
     // Run type propagation once for all wires
@@ -175,6 +213,11 @@ function CanvasReactFlowInner({
         edgeData.isEnableConnection = true
       }
       
+      // Trigger connections are routed like enable connections
+      if (wire.targetPortIndex === -2) {
+        edgeData.isEnableConnection = true
+      }
+      
       return {
         ...wireDataToEdge(wire),
         type: 'step',
@@ -206,6 +249,8 @@ function CanvasReactFlowInner({
     // Parse target port index
     if (connection.targetHandle === '_enable_') {
       targetPortIndex = -1 // Special enable port
+    } else if (connection.targetHandle === '_trigger_') {
+      targetPortIndex = -2 // Special trigger port
     } else if (connection.targetHandle.startsWith('input-')) {
       targetPortIndex = parseInt(connection.targetHandle.split('-')[1])
     }
@@ -229,7 +274,9 @@ function CanvasReactFlowInner({
       sourceBlockId: edge.source,
       sourcePortIndex: parseInt(edge.sourceHandle?.split('-')[1] || '0'),
       targetBlockId: edge.target,
-      targetPortIndex: edge.targetHandle === '_enable_' ? -1 : parseInt(edge.targetHandle?.split('-')[1] || '0'),
+      targetPortIndex: edge.targetHandle === '_enable_' ? -1
+        : edge.targetHandle === '_trigger_' ? -2
+        : parseInt(edge.targetHandle?.split('-')[1] || '0'),
     }))
     
     //console.log('Current wires for validation:', currentWires)
@@ -246,8 +293,8 @@ function CanvasReactFlowInner({
       return false
     }
 
-    // Check for algebraic loops (unless it's an enable connection)
-    if (targetPortIndex !== -1) {
+    // Check for algebraic loops (unless it's an enable or trigger connection)
+    if (targetPortIndex >= 0) {
       const newWire: WireData = {
         id: 'temp',
         sourceBlockId: connection.source,
@@ -256,7 +303,7 @@ function CanvasReactFlowInner({
         targetPortIndex,
       }
 
-      const loopValidation = detectAlgebraicLoop(newWire, wires)
+      const loopValidation = detectAlgebraicLoop(newWire, wires, blocks)
       if (!loopValidation.isValid) {
         setConnectionError(loopValidation.errorMessage || 'Would create algebraic loop')
         setTimeout(() => setConnectionError(null), 3000)
@@ -286,6 +333,8 @@ function CanvasReactFlowInner({
     // Parse target port index
     if (connection.targetHandle === '_enable_') {
       targetPortIndex = -1 // Special enable port
+    } else if (connection.targetHandle === '_trigger_') {
+      targetPortIndex = -2 // Special trigger port
     } else if (connection.targetHandle.startsWith('input-')) {
       targetPortIndex = parseInt(connection.targetHandle.split('-')[1])
     }
@@ -355,18 +404,26 @@ const handleEdgesChange = useCallback((changes: any[]) => {
     }
   }, [onBlockSelect, onWireSelect])
 
+  // Handle node drag start
+  const onNodeDragStart: NodeDragHandler = useCallback(() => {
+    onBlockDragStart?.()
+  }, [onBlockDragStart])
+
   // Handle node drag
   const onNodeDrag: NodeDragHandler = useCallback((event, node) => {
     // Close context menu when dragging starts
     setContextMenu(null)
   }, [])
 
-  // Handle node drag stop
-  const onNodeDragStop: NodeDragHandler = useCallback((event, node) => {
+  // Handle node drag stop - every block moved by the drag is reported
+  // between the start and end callbacks so it can be undone as one step
+  const onNodeDragStop: NodeDragHandler = useCallback((event, node, draggedNodes) => {
     if (onBlockMove) {
-      onBlockMove(node.id, node.position)
+      const movedNodes = draggedNodes.length > 0 ? draggedNodes : [node]
+      movedNodes.forEach(movedNode => onBlockMove(movedNode.id, movedNode.position))
     }
-  }, [onBlockMove])
+    onBlockDragEnd?.()
+  }, [onBlockMove, onBlockDragEnd])
 
   // Handle selection changes
   const onSelectionChange: OnSelectionChangeFunc = useCallback(({ nodes, edges }) => {
@@ -422,6 +479,101 @@ const handleEdgesChange = useCallback((changes: any[]) => {
     [project, onDrop]
   )
 
+  // Undo with Ctrl+Z, redo with Ctrl+Shift+Z or Ctrl+Y (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave undo inside text fields to the browser
+      const target = event.target as HTMLElement
+      if (target.tagName === 'INPUT' || 
+          target.tagName === 'TEXTAREA' || 
+          target.isContentEditable) {
+        return
+      }
+
+      if (!(event.ctrlKey || event.metaKey)) {
+        return
+      }
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        onUndo?.()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        onRedo?.()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onUndo, onRedo])
+
+  // Copy (Ctrl+C), paste (Ctrl+V) and duplicate (Ctrl+D) the selected
+  // blocks. Copy and paste use the system clipboard so selections can move
+  // between sheets, models and browser tabs.
+  useEffect(() => {
+    const isTextInput = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null
+      return !!element && (element.tagName === 'INPUT' || 
+        element.tagName === 'TEXTAREA' || 
+        element.isContentEditable)
+    }
+    
+    const getSelectedBlockIds = () => nodes.filter((n: Node) => n.selected).map((n: Node) => n.id)
+    
+    const paste = (data: BlockClipboardData, offset: { x: number; y: number }) => {
+      const pasted = pasteSelection(data, namespaceBlocks ?? blocks, offset)
+      pastedBlockIds.current = new Set(pasted.blocks.map(block => block.id))
+      onPaste?.(pasted.blocks, pasted.wires)
+    }
+    
+    const handleCopy = (event: ClipboardEvent) => {
+      const selectedIds = getSelectedBlockIds()
+      if (isTextInput(event.target) || selectedIds.length === 0 || !event.clipboardData) {
+        return
+      }
+      event.clipboardData.setData('text/plain', serializeClipboard(copySelection(blocks, wires, selectedIds)))
+      event.preventDefault()
+    }
+    
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isTextInput(event.target) || !event.clipboardData) {
+        return
+      }
+      const data = parseClipboard(event.clipboardData.getData('text/plain'))
+      if (!data || data.blocks.length === 0) {
+        return
+      }
+      event.preventDefault()
+      
+      // Pasting onto the sheet the blocks came from offsets them so they
+      // do not hide the originals
+      const onSameSheet = data.blocks.some(copied => blocks.some(block => block.id === copied.id))
+      paste(data, onSameSheet ? { x: 30, y: 30 } : { x: 0, y: 0 })
+    }
+    
+    const handleDuplicate = (event: KeyboardEvent) => {
+      if (isTextInput(event.target) || !(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'd') {
+        return
+      }
+      const selectedIds = getSelectedBlockIds()
+      if (selectedIds.length === 0) {
+        return
+      }
+      event.preventDefault()
+      paste(copySelection(blocks, wires, selectedIds), { x: 30, y: 30 })
+    }
+    
+    document.addEventListener('copy', handleCopy)
+    document.addEventListener('paste', handlePaste)
+    document.addEventListener('keydown', handleDuplicate)
+    return () => {
+      document.removeEventListener('copy', handleCopy)
+      document.removeEventListener('paste', handlePaste)
+      document.removeEventListener('keydown', handleDuplicate)
+    }
+  }, [nodes, blocks, wires, namespaceBlocks, onPaste])
+
   /*
   // Handle keyboard shortcuts
   useEffect(() => {
@@ -459,6 +611,13 @@ const handleEdgesChange = useCallback((changes: any[]) => {
   // Get the block data for context menu
   const contextMenuBlock = contextMenu ? blocks.find(b => b.id === contextMenu.nodeId) : null
 
+  // The context menu acts on the whole selection when the clicked block is
+  // part of it, otherwise on the clicked block alone
+  const getContextMenuSelection = () => {
+    const selectedIds = nodes.filter((n: Node) => n.selected).map((n: Node) => n.id)
+    return contextMenu && selectedIds.includes(contextMenu.nodeId) ? selectedIds : [contextMenu!.nodeId]
+  }
+
   // Get available sheets for the current block
   const getAvailableSheets = useCallback((block: BlockData) => {
     if (block.type !== 'subsystem') {
@@ -478,6 +637,7 @@ const handleEdgesChange = useCallback((changes: any[]) => {
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
+        onNodeDragStart={onNodeDragStart}
         onNodeDrag={onNodeDrag}
         onNodeDragStop={onNodeDragStop}
         onSelectionChange={onSelectionChange}
@@ -558,6 +718,14 @@ const handleEdgesChange = useCallback((changes: any[]) => {
             }
             setContextMenu(null)
           }}
+          onGroupIntoSubsystem={onGroupIntoSubsystem && (() => {
+            onGroupIntoSubsystem(getContextMenuSelection())
+            setContextMenu(null)
+          })}
+          onExpandSubsystem={onExpandSubsystem && ((blockId) => {
+            onExpandSubsystem(blockId)
+            setContextMenu(null)
+          })}
         />
       )}
     </div>
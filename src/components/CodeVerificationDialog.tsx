@@ -0,0 +1,139 @@
+// components/CodeVerificationDialog.tsx
+
+'use client'
+
+import { useState } from 'react'
+import type { CodeVerificationResult, VerificationTolerance } from '@/lib/codegen/CodeVerifier'
+
+interface CodeVerificationDialogProps {
+  running: boolean
+  result: CodeVerificationResult | null
+
+  /** Why the last verification could not run, such as a compile error */
+  error: string
+  onRun: (tolerance: Partial<VerificationTolerance>) => void
+  onClose: () => void
+}
+
+const format = (value: number | null) => value !== null && Number.isFinite(value) ? Number(value.toPrecision(6)).toString() : '–'
+
+export default function CodeVerificationDialog({ running, result, error, onRun, onClose }: CodeVerificationDialogProps) {
+  const [absoluteTolerance, setAbsoluteTolerance] = useState('')
+  const [relativeTolerance, setRelativeTolerance] = useState('')
+  const [toleranceError, setToleranceError] = useState('')
+
+  const handleRun = () => {
+    // Empty fields keep the default tolerance
+    const tolerance: Partial<VerificationTolerance> = {}
+    for (const [key, text] of [['absoluteTolerance', absoluteTolerance], ['relativeTolerance', relativeTolerance]] as const) {
+      if (text.trim() === '') continue
+      const value = Number(text)
+      if (!(value >= 0)) {
+        setToleranceError('Tolerances must be non-negative numbers')
+        return
+      }
+      tolerance[key] = value
+    }
+    setToleranceError('')
+    onRun(tolerance)
+  }
+
+  const inputClass = 'px-2 py-1 border border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:outline-none focus:border-blue-600'
+  const divergence = result?.firstDivergence
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Verify Generated Code</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 px-6 py-4 overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-600">
+            Compiles the generated C code of the saved version with gcc, runs it next to a simulation with the same
+            input port values, and compares every output port at every time step.
+          </p>
+
+          {/* Tolerances */}
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              Absolute tolerance
+              <input
+                className={`${inputClass} w-24`}
+                value={absoluteTolerance}
+                placeholder="1e-6"
+                onChange={(e) => setAbsoluteTolerance(e.target.value)}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Relative tolerance
+              <input
+                className={`${inputClass} w-24`}
+                value={relativeTolerance}
+                placeholder="1e-6"
+                onChange={(e) => setRelativeTolerance(e.target.value)}
+              />
+            </label>
+            <button
+              className="px-4 py-2 rounded-md text-white font-medium border bg-purple-700 hover:bg-purple-800 border-purple-600 disabled:opacity-50"
+              onClick={handleRun}
+              disabled={running}
+            >
+              {running ? 'Verifying...' : 'Verify'}
+            </button>
+          </div>
+
+          {(toleranceError || error) && (
+            <pre className="text-sm text-red-600 whitespace-pre-wrap">{toleranceError || error}</pre>
+          )}
+
+          {/* Results */}
+          {result && !error && (
+            <div className="space-y-3">
+              <p className={`text-sm font-medium ${result.passed ? 'text-green-700' : 'text-red-700'}`}>
+                {result.passed
+                  ? `Generated code matches the simulation over ${result.steps} steps`
+                  : `Generated code diverges from the simulation`}
+              </p>
+              {divergence && (
+                <p className="text-sm text-gray-700">
+                  First divergence: <strong>{divergence.signal}</strong> at step {divergence.step} (t = {divergence.time}):
+                  simulation {format(divergence.simulated)}, generated code {format(divergence.generated)}
+                </p>
+              )}
+              <table className="w-full text-sm text-gray-700">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1">Output</th>
+                    <th className="py-1">Type</th>
+                    <th className="py-1">Max error</th>
+                    <th className="py-1">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.outputs.map(output => (
+                    <tr key={output.portName} className="border-t border-gray-200">
+                      <td className="py-1">{output.portName}</td>
+                      <td className="py-1">{output.dataType}</td>
+                      <td className="py-1">{format(output.maxError)}</td>
+                      <td className={`py-1 ${output.passed ? 'text-green-700' : 'text-red-700'}`}>
+                        {output.passed ? 'Match' : 'Diverges'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.outputs.length === 0 && (
+                <p className="text-sm text-gray-500">The model has no connected top-level output ports</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
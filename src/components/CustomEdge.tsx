@@ -70,10 +70,10 @@ export const DefaultEdge: FC<EdgeProps<CustomEdgeData>> = (props) => {
   
   const [isHovered, setIsHovered] = useState(false)
   
-  // Check if this is an enable connection
+  // Check if this is an enable or trigger connection
   // ReactFlow passes the edge object which contains targetHandle
   const edge = (props as any)
-  const isEnableConnection = edge.targetHandle === '_enable_' || data?.isEnableConnection === true
+  const isEnableConnection = edge.targetHandle === '_enable_' || edge.targetHandle === '_trigger_' || data?.isEnableConnection === true
   
   // Debug logging
   if (isEnableConnection) {
@@ -204,8 +204,9 @@ export const AnimatedEdge: FC<EdgeProps<CustomEdgeData & { signalValue?: number
   const { sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition, data } = props
   const [offset, setOffset] = useState(0)
   
-  // Check if this is an enable connection
-  const isEnableConnection = (props as any).targetHandle === '_enable_' || data?.isEnableConnection === true
+  // Check if this is an enable or trigger connection
+  const targetHandle = (props as any).targetHandle
+  const isEnableConnection = targetHandle === '_enable_' || targetHandle === '_trigger_' || data?.isEnableConnection === true
   
   let edgePath: string
   if (isEnableConnection) {
@@ -0,0 +1,318 @@
+// components/DataInspector.tsx
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import {
+  DEFAULT_TRACE_TOLERANCE,
+  MAX_RUN_HISTORY_LIMIT,
+  LoggedSignal,
+  SimulationRun,
+  TraceComparison,
+  compareTraces,
+  describeParameterChanges,
+  getSignalTrace
+} from '@/lib/simulation/runHistory'
+
+interface DataInspectorProps {
+  /** Recorded runs, oldest first */
+  runs: SimulationRun[]
+  historyLimit: number
+  onHistoryLimitChange: (limit: number) => void
+  onRemoveRun: (id: number) => void
+  onClose: () => void
+}
+
+const TRACE_COLORS = ['#ef4444', '#10b981', '#3b82f6', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316']
+
+// Runs are told apart by dash pattern, signals by color
+const RUN_DASHES = ['', '6 3', '2 2', '8 3 2 3']
+
+// Parameter changes listed before the rest are summarized
+const MAX_LISTED_CHANGES = 20
+
+const format = (value: number) => Number.isFinite(value) ? Number(value.toPrecision(4)).toString() : '–'
+
+const runLabel = (run: SimulationRun) => `Run ${run.id}`
+
+export default function DataInspector({ runs, historyLimit, onHistoryLimitChange, onRemoveRun, onClose }: DataInspectorProps) {
+  // Signals of every kept run, named as in the newest run that has them
+  const signals = useMemo(() => {
+    const byKey = new Map<string, LoggedSignal>()
+    for (const run of [...runs].reverse()) {
+      for (const signal of run.signals) {
+        if (!byKey.has(signal.key)) byKey.set(signal.key, signal)
+      }
+    }
+    return Array.from(byKey.values()).sort((a, b) => a.path.localeCompare(b.path))
+  }, [runs])
+
+  const [plottedRunIds, setPlottedRunIds] = useState<number[]>(runs.slice(-2).map(run => run.id))
+  const [plottedSignals, setPlottedSignals] = useState<string[]>(signals.slice(0, 1).map(signal => signal.key))
+  const [referenceRunId, setReferenceRunId] = useState<number | null>((runs[runs.length - 2] ?? runs[0])?.id ?? null)
+  const [candidateRunId, setCandidateRunId] = useState<number | null>(runs[runs.length - 1]?.id ?? null)
+  const [comparedSignal, setComparedSignal] = useState<string>(signals[0]?.key ?? '')
+  const [absoluteTolerance, setAbsoluteTolerance] = useState(String(DEFAULT_TRACE_TOLERANCE.absoluteTolerance))
+  const [relativeTolerance, setRelativeTolerance] = useState(String(DEFAULT_TRACE_TOLERANCE.relativeTolerance))
+
+  const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item]
+  const pathOf = (key: string) => signals.find(signal => signal.key === key)?.path ?? key
+
+  const plottedRuns = runs.filter(run => plottedRunIds.includes(run.id))
+  const referenceRun = runs.find(run => run.id === referenceRunId)
+  const candidateRun = runs.find(run => run.id === candidateRunId)
+
+  // Every element of every plotted signal in every plotted run
+  const traces = plottedSignals.flatMap((key, signalIndex) =>
+    plottedRuns.flatMap((run, runIndex) => {
+      const trace = getSignalTrace(run, key)
+      if (!trace) return []
+      const width = trace.values[0]?.length ?? 0
+      return Array.from({ length: width }, (_, element) => ({
+        id: `${run.id}/${key}/${element}`,
+        name: `${pathOf(key)}${width > 1 ? `[${element}]` : ''} · ${runLabel(run)}`,
+        color: TRACE_COLORS[(signalIndex + element) % TRACE_COLORS.length],
+        dash: RUN_DASHES[runIndex % RUN_DASHES.length],
+        data: trace.time.map((time, i) => ({ time, value: trace.values[i][element] }))
+      }))
+    })
+  )
+
+  let comparison: TraceComparison | null = null
+  let comparisonError = ''
+  const tolerance = { absoluteTolerance: Number(absoluteTolerance), relativeTolerance: Number(relativeTolerance) }
+  if (referenceRun && candidateRun && comparedSignal) {
+    const reference = getSignalTrace(referenceRun, comparedSignal)
+    const candidate = getSignalTrace(candidateRun, comparedSignal)
+    if (!(tolerance.absoluteTolerance >= 0 && tolerance.relativeTolerance >= 0)) {
+      comparisonError = 'Tolerances must be non-negative numbers'
+    } else if (!reference || !candidate) {
+      comparisonError = `${!reference ? runLabel(referenceRun) : runLabel(candidateRun)} did not record ${pathOf(comparedSignal)}`
+    } else {
+      try {
+        comparison = compareTraces(reference, candidate, tolerance)
+      } catch (error) {
+        comparisonError = error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+
+  const differenceData = comparison
+    ? comparison.time.map((time, i) => {
+      const row: Record<string, number> = { time }
+      comparison!.difference[i].forEach((difference, element) => {
+        row[`difference_${element}`] = difference
+        row[`upper_${element}`] = comparison!.band[i][element]
+        row[`lower_${element}`] = -comparison!.band[i][element]
+      })
+      return row
+    })
+    : []
+  const differenceWidth = comparison?.difference[0]?.length ?? 0
+
+  const parameterChanges = referenceRun && candidateRun ? describeParameterChanges(referenceRun, candidateRun) : []
+
+  const inputClass = 'px-2 py-1 border border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:outline-none focus:border-blue-600'
+
+  const renderRunSelect = (value: number | null, onChange: (id: number) => void) => (
+    <select className={inputClass} value={value ?? ''} onChange={(e) => onChange(Number(e.target.value))}>
+      {runs.map(run => (
+        <option key={run.id} value={run.id}>{runLabel(run)}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Data Inspector</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            ✕
+          </button>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-500">
+            No runs recorded yet. Completed simulation runs are kept here for comparison.
+          </p>
+        ) : (
+          <div className="flex-1 overflow-hidden flex">
+            {/* Runs and signals */}
+            <div className="w-72 border-r border-gray-200 overflow-y-auto px-4 py-4 space-y-4 text-sm text-gray-700">
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-medium text-gray-900">Runs</h3>
+                  <label className="flex items-center gap-1 text-xs text-gray-500">
+                    Keep last
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_RUN_HISTORY_LIMIT}
+                      className={`${inputClass} w-16 text-xs`}
+                      value={historyLimit}
+                      onChange={(e) => onHistoryLimitChange(Number(e.target.value))}
+                    />
+                  </label>
+                </div>
+                {[...runs].reverse().map(run => (
+                  <div key={run.id} className="flex items-center gap-2 py-1">
+                    <input
+                      type="checkbox"
+                      checked={plottedRunIds.includes(run.id)}
+                      onChange={() => setPlottedRunIds(toggle(plottedRunIds, run.id))}
+                    />
+                    <span className="flex-1">
+                      {runLabel(run)}
+                      <span className="text-xs text-gray-500">
+                        {' '}· v{run.modelVersion} · {new Date(run.startedAt).toLocaleTimeString()}
+                      </span>
+                    </span>
+                    <button
+                      className="text-xs text-gray-400 hover:text-red-600"
+                      onClick={() => onRemoveRun(run.id)}
+                      title="Remove this run"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Signals</h3>
+                {signals.length === 0 && (
+                  <p className="text-xs text-gray-500">Add a Signal Display or Signal Logger block to record signals.</p>
+                )}
+                {signals.map(signal => (
+                  <label key={signal.key} className="flex items-center gap-2 py-1">
+                    <input
+                      type="checkbox"
+                      checked={plottedSignals.includes(signal.key)}
+                      onChange={() => setPlottedSignals(toggle(plottedSignals, signal.key))}
+                    />
+                    <span className="truncate" title={signal.path}>{signal.path}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Plots */}
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Signals</h3>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 12 }} stroke="#6b7280" tickFormatter={format} />
+                      <YAxis tick={{ fontSize: 12 }} stroke="#6b7280" tickFormatter={format} />
+                      <Tooltip labelFormatter={(time) => `t = ${format(Number(time))} s`} formatter={(value: number) => format(value)} />
+                      <Legend wrapperStyle={{ fontSize: '12px' }} iconType="line" />
+                      {traces.map(trace => (
+                        <Line
+                          key={trace.id}
+                          data={trace.data}
+                          dataKey="value"
+                          name={trace.name}
+                          stroke={trace.color}
+                          strokeDasharray={trace.dash}
+                          strokeWidth={1.5}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                {traces.length === 0 && (
+                  <p className="text-xs text-gray-500">Select runs and signals to plot.</p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium text-gray-900">Difference</h3>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                  <select className={inputClass} value={comparedSignal} onChange={(e) => setComparedSignal(e.target.value)}>
+                    {signals.map(signal => (
+                      <option key={signal.key} value={signal.key}>{signal.path}</option>
+                    ))}
+                  </select>
+                  {renderRunSelect(candidateRunId, setCandidateRunId)}
+                  <span>minus</span>
+                  {renderRunSelect(referenceRunId, setReferenceRunId)}
+                  <label className="flex items-center gap-2">
+                    Absolute tolerance
+                    <input className={`${inputClass} w-20`} value={absoluteTolerance} onChange={(e) => setAbsoluteTolerance(e.target.value)} />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Relative tolerance
+                    <input className={`${inputClass} w-20`} value={relativeTolerance} onChange={(e) => setRelativeTolerance(e.target.value)} />
+                  </label>
+                </div>
+
+                {comparisonError && <p className="text-sm text-red-600">{comparisonError}</p>}
+                {comparison && (
+                  <>
+                    <p className={`text-sm font-medium ${comparison.passed ? 'text-green-700' : 'text-red-700'}`}>
+                      {comparison.passed
+                        ? `Within tolerance; largest difference ${format(comparison.maxDifference)}`
+                        : `Leaves the tolerance band at t = ${format(comparison.firstViolation!.time)}` +
+                          `${differenceWidth > 1 ? ` (element ${comparison.firstViolation!.element})` : ''}` +
+                          `; largest difference ${format(comparison.maxDifference)}`}
+                    </p>
+                    <div className="h-56">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={differenceData} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                          <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 12 }} stroke="#6b7280" tickFormatter={format} />
+                          <YAxis tick={{ fontSize: 12 }} stroke="#6b7280" tickFormatter={format} />
+                          <Tooltip labelFormatter={(time) => `t = ${format(Number(time))} s`} formatter={(value: number) => format(value)} />
+                          {Array.from({ length: differenceWidth }).flatMap((_, element) => [
+                            <Line key={`upper_${element}`} dataKey={`upper_${element}`} name="Tolerance" stroke="#9ca3af" strokeDasharray="4 3" dot={false} isAnimationActive={false} />,
+                            <Line key={`lower_${element}`} dataKey={`lower_${element}`} name="Tolerance" stroke="#9ca3af" strokeDasharray="4 3" dot={false} isAnimationActive={false} />,
+                            <Line
+                              key={`difference_${element}`}
+                              dataKey={`difference_${element}`}
+                              name={differenceWidth > 1 ? `Difference [${element}]` : 'Difference'}
+                              stroke={TRACE_COLORS[element % TRACE_COLORS.length]}
+                              strokeWidth={1.5}
+                              dot={false}
+                              isAnimationActive={false}
+                            />
+                          ])}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </>
+                )}
+
+                {referenceRun && candidateRun && (
+                  <div className="text-sm text-gray-700">
+                    <h4 className="font-medium text-gray-900 mb-1">
+                      Changes from {runLabel(referenceRun)} to {runLabel(candidateRun)}
+                    </h4>
+                    {parameterChanges.length === 0 ? (
+                      <p className="text-xs text-gray-500">Same parameters and workspace</p>
+                    ) : (
+                      <ul className="text-xs font-mono space-y-0.5">
+                        {parameterChanges.slice(0, MAX_LISTED_CHANGES).map(change => (
+                          <li key={change}>{change}</li>
+                        ))}
+                        {parameterChanges.length > MAX_LISTED_CHANGES && (
+                          <li className="text-gray-500">...and {parameterChanges.length - MAX_LISTED_CHANGES} more</li>
+                        )}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
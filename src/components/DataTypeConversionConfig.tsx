@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { BlockData } from './BlockNode'
+import { parseType } from '@/lib/typeValidator'
+
+interface DataTypeConversionConfigProps {
+  block: BlockData
+  onUpdate: (parameters: Record<string, string | boolean>) => void
+  onClose: () => void
+}
+
+const OUTPUT_TYPE_SUGGESTIONS = [
+  'double', 'float',
+  'int8', 'int16', 'int32', 'uint8', 'uint16', 'uint32',
+  'fixdt(1,16,12)', 'fixdt(1,32,16)'
+]
+
+const inputClassName = 'w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none'
+
+// Conversions target a single element type; the input sets the dimensions
+const validateOutputDataType = (outputDataType: string): string => {
+  try {
+    const parsed = parseType(outputDataType)
+    if (parsed.isArray || parsed.isMatrix) {
+      return 'Output data type must be a scalar type; vectors and matrices keep their dimensions'
+    }
+    if (parsed.baseType === 'bool' || parsed.baseType === 'long') {
+      return `Cannot convert to ${parsed.baseType}`
+    }
+    return ''
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid output data type'
+  }
+}
+
+export default function DataTypeConversionConfig({ block, onUpdate, onClose }: DataTypeConversionConfigProps) {
+  const [outputDataType, setOutputDataType] = useState<string>(block.parameters?.outputDataType || 'int16')
+  const [rounding, setRounding] = useState<string>(block.parameters?.rounding || 'floor')
+  const [saturateOnOverflow, setSaturateOnOverflow] = useState<boolean>(block.parameters?.saturateOnOverflow ?? true)
+  const [error, setError] = useState<string>('')
+
+  const handleSave = () => {
+    const trimmed = outputDataType.trim()
+    const validationError = validateOutputDataType(trimmed)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    onUpdate({ outputDataType: trimmed, rounding, saturateOnOverflow })
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-96">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Configure Data Type Conversion: {block.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Output Data Type
+            </label>
+            <input
+              type="text"
+              list="data-type-conversion-types"
+              value={outputDataType}
+              onChange={(e) => setOutputDataType(e.target.value)}
+              className={inputClassName}
+            />
+            <datalist id="data-type-conversion-types">
+              {OUTPUT_TYPE_SUGGESTIONS.map(type => (
+                <option key={type} value={type} />
+              ))}
+            </datalist>
+            <p className="text-xs text-gray-500 mt-1">
+              A floating-point, integer or fixdt(signed, wordLength, fractionLength) type.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Rounding
+            </label>
+            <select
+              value={rounding}
+              onChange={(e) => setRounding(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="floor">Floor (toward -∞)</option>
+              <option value="ceil">Ceiling (toward +∞)</option>
+              <option value="zero">Zero (truncate)</option>
+              <option value="nearest">Nearest (halfway cases up)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              On Overflow
+            </label>
+            <select
+              value={saturateOnOverflow ? 'saturate' : 'wrap'}
+              onChange={(e) => setSaturateOnOverflow(e.target.value === 'saturate')}
+              className={inputClassName}
+            >
+              <option value="saturate">Saturate to the range of the type</option>
+              <option value="wrap">Wrap around</option>
+            </select>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="bg-purple-50 p-3 rounded-md">
+            <p className="text-sm text-purple-800">
+              <strong>Data Type Conversion:</strong> Converts each element of the input to the output data type.
+              Rounding and overflow only apply to integer and fixed-point outputs.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
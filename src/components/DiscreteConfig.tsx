@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { BlockData } from './BlockNode'
+
+interface DiscreteConfigProps {
+  block: BlockData
+  onUpdate: (parameters: Record<string, number>) => void
+  onClose: () => void
+}
+
+const titles: Record<string, string> = {
+  unit_delay: 'Unit Delay',
+  zero_order_hold: 'Zero-Order Hold',
+  discrete_integrator: 'Discrete Integrator'
+}
+
+const descriptions: Record<string, string> = {
+  unit_delay: 'Outputs the input from the previous sample (z⁻¹). The output before the first sample is the initial condition.',
+  zero_order_hold: 'Samples the input on each sample hit and holds it constant until the next hit.',
+  discrete_integrator: 'Accumulates the input with forward Euler: y[k+1] = y[k] + K·T·u[k], saturated to the optional limits.'
+}
+
+// Parse an optional limit field; empty means unlimited
+const parseLimit = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+export default function DiscreteConfig({ block, onUpdate, onClose }: DiscreteConfigProps) {
+  const hasInitialCondition = block.type === 'unit_delay' || block.type === 'discrete_integrator'
+  const isIntegrator = block.type === 'discrete_integrator'
+
+  const [sampleTime, setSampleTime] = useState<number>(block.parameters?.sampleTime ?? -1)
+  const [initialCondition, setInitialCondition] = useState<number>(block.parameters?.initialCondition || 0)
+  const [gain, setGain] = useState<number>(block.parameters?.gain ?? 1)
+  const [lowerLimit, setLowerLimit] = useState<string>(block.parameters?.lowerLimit?.toString() ?? '')
+  const [upperLimit, setUpperLimit] = useState<string>(block.parameters?.upperLimit?.toString() ?? '')
+  const [error, setError] = useState<string>('')
+
+  const handleSave = () => {
+    const parameters: Record<string, number> = {
+      sampleTime: sampleTime > 0 ? sampleTime : -1
+    }
+
+    if (hasInitialCondition) {
+      parameters.initialCondition = initialCondition
+    }
+
+    if (isIntegrator) {
+      const lower = parseLimit(lowerLimit)
+      const upper = parseLimit(upperLimit)
+      if (lower !== undefined && upper !== undefined && lower > upper) {
+        setError('Lower limit must not be greater than upper limit')
+        return
+      }
+      parameters.gain = gain
+      if (lower !== undefined) parameters.lowerLimit = lower
+      if (upper !== undefined) parameters.upperLimit = upper
+    }
+
+    onUpdate(parameters)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-96">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Configure {titles[block.type] || 'Discrete Block'}: {block.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sample Time (s)
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={sampleTime}
+              onChange={(e) => setSampleTime(parseFloat(e.target.value) || -1)}
+              className="w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use -1 to run at the simulation time step. Slower sample times update only on their own sample hits.
+            </p>
+          </div>
+
+          {hasInitialCondition && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Initial Condition
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={initialCondition}
+                onChange={(e) => setInitialCondition(parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
+              />
+            </div>
+          )}
+
+          {isIntegrator && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Gain (K)
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  value={gain}
+                  onChange={(e) => setGain(parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
+                />
+              </div>
+              <div className="flex space-x-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Lower Limit
+                  </label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={lowerLimit}
+                    onChange={(e) => setLowerLimit(e.target.value)}
+                    placeholder="None"
+                    className="w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Upper Limit
+                  </label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={upperLimit}
+                    onChange={(e) => setUpperLimit(e.target.value)}
+                    placeholder="None"
+                    className="w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="bg-purple-50 p-3 rounded-md">
+            <p className="text-sm text-purple-800">
+              <strong>{titles[block.type] || 'Discrete Block'}:</strong> {descriptions[block.type]}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,17 +4,20 @@
 
 import { useState, useEffect } from 'react'
 import { BlockData } from './BlockNode'
-import { C99ExpressionParser } from '@/lib/c99ExpressionParser'
-import { C99ExpressionValidator } from '@/lib/c99ExpressionValidator'
+import { EvaluateBlockModule } from '@/lib/blocks/EvaluateBlockModule'
+import { WorkspaceVariable, resolveBlockParameters } from '@/lib/workspace'
 
 interface EvaluateConfigProps {
   block: BlockData
+  /** Workspace variables the expression can read by name */
+  workspace?: WorkspaceVariable[]
   onUpdate: (parameters: Record<string, any>) => void
   onClose: () => void
 }
 
-export default function EvaluateConfig({ block, onUpdate, onClose }: EvaluateConfigProps) {
+export default function EvaluateConfig({ block, workspace = [], onUpdate, onClose }: EvaluateConfigProps) {
   const [numInputs, setNumInputs] = useState(block?.parameters?.numInputs || 2)
+  const [numOutputs, setNumOutputs] = useState(block?.parameters?.numOutputs || 1)
   const [expression, setExpression] = useState(block?.parameters?.expression || 'in(0) + in(1)')
   const [isValid, setIsValid] = useState(true)
   const [errors, setErrors] = useState<string[]>([])
@@ -24,22 +27,21 @@ export default function EvaluateConfig({ block, onUpdate, onClose }: EvaluateCon
   // Validate expression on change
   useEffect(() => {
     validateExpression()
-  }, [expression, numInputs])
+  }, [expression, numInputs, numOutputs, workspace])
 
   const validateExpression = () => {
     try {
-      // Parse the expression
-      const parser = new C99ExpressionParser(expression)
-      const ast = parser.parse()
-      
-      // Validate it
-      const validator = new C99ExpressionValidator(numInputs)
-      const result = validator.validate(ast)
-      
-      setIsValid(result.valid)
+      // Copy the workspace variables the expression reads into the block, as for a run
+      const { parameters } = resolveBlockParameters(
+        { ...block, parameters: { ...block.parameters, numInputs, numOutputs, expression } },
+        workspace
+      )
+      const result = EvaluateBlockModule.analyze(parameters || {})
+
+      setIsValid(result.errors.length === 0)
       setErrors(result.errors)
       setWarnings(result.warnings)
-      setUsedInputs(Array.from(result.usedInputs).sort((a, b) => a - b))
+      setUsedInputs(result.usedInputs)
       
     } catch (error) {
       setIsValid(false)
@@ -56,15 +58,22 @@ export default function EvaluateConfig({ block, onUpdate, onClose }: EvaluateCon
     }
   }
 
+  const handleNumOutputsChange = (value: string) => {
+    const num = parseInt(value)
+    if (!isNaN(num) && num >= 1 && num <= 10) {
+      setNumOutputs(num)
+    }
+  }
+
   const handleSave = () => {
     if (isValid) {
-      onUpdate({ numInputs, expression })
+      onUpdate({ numInputs, numOutputs, expression })
       onClose()
     }
   }
 
   // Expression templates
-  const templates = [
+  const templates: { name: string, expr: string, inputs: number, outputs?: number }[] = [
     { name: 'Sum', expr: 'in(0) + in(1)', inputs: 2 },
     { name: 'Difference', expr: 'in(0) - in(1)', inputs: 2 },
     { name: 'Product', expr: 'in(0) * in(1)', inputs: 2 },
@@ -91,10 +100,15 @@ export default function EvaluateConfig({ block, onUpdate, onClose }: EvaluateCon
     { name: 'Sign', expr: 'signbit(in(0)) ? -1 : 1', inputs: 1 },
     { name: 'Absolute Value', expr: 'fabs(in(0))', inputs: 1 },
     { name: 'Round to Integer', expr: 'round(in(0))', inputs: 1 },
-    ]
+    { name: 'Limit', expr: 'clamp(in(0), -1, 1)', inputs: 1 },
+    { name: 'Degrees', expr: 'in(0) * 180 / M_PI', inputs: 1 },
+    { name: 'Vector Element', expr: 'in(0)[0]', inputs: 1 },
+    { name: 'Polar', expr: 'out(0) = hypot(in(0), in(1));\nout(1) = atan2(in(1), in(0));', inputs: 2, outputs: 2 },
+  ]
 
   const applyTemplate = (template: typeof templates[0]) => {
     setNumInputs(template.inputs)
+    setNumOutputs(template.outputs || 1)
     setExpression(template.expr)
   }
 
@@ -128,7 +142,25 @@ export default function EvaluateConfig({ block, onUpdate, onClose }: EvaluateCon
               className="w-24 px-3 py-2 border-2 border-gray-400 rounded text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
             />
             <p className="text-xs text-gray-600 mt-1">
-              Number of scalar input ports (1-10)
+              Number of scalar or vector input ports (1-10)
+            </p>
+          </div>
+
+          {/* Number of Outputs */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Number of Outputs
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={numOutputs}
+              onChange={(e) => handleNumOutputsChange(e.target.value)}
+              className="w-24 px-3 py-2 border-2 border-gray-400 rounded text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
+            />
+            <p className="text-xs text-gray-600 mt-1">
+              With more than one output, assign each as out(0) = ...; out(1) = ...;
             </p>
           </div>
 
@@ -180,6 +212,9 @@ export default function EvaluateConfig({ block, onUpdate, onClose }: EvaluateCon
               <p className="text-gray-600">• in(0) - First input</p>
               <p className="text-gray-600">• in(1) - Second input</p>
               <p className="text-gray-600">• in(n) - (n+1)th input</p>
+              <p className="text-gray-600">• in(0)[2] - Vector element</p>
+              <p className="text-gray-600">• K, K[1] - Workspace variable</p>
+              <p className="text-gray-600">• out(n) = ... - Output assignment</p>
             </div>
             <div>
               <h5 className="font-medium text-gray-900 mb-1">Operators</h5>
@@ -195,7 +230,9 @@ export default function EvaluateConfig({ block, onUpdate, onClose }: EvaluateCon
               <p className="text-gray-600">• sin, cos, tan, atan, atan2</p>
               <p className="text-gray-600">• ceil, floor, round, trunc</p>
               <p className="text-gray-600">• log, log2, log10</p>
-              <p className="text-gray-600">• fmin, fmax, signbit</p>
+              <p className="text-gray-600">• min, max, fmin, fmax, clamp</p>
+              <p className="text-gray-600">• sign, signbit, hypot</p>
+              <p className="text-gray-600">• M_PI, M_E, M_SQRT2 (constants)</p>
             </div>
           </div>
 
@@ -222,6 +259,7 @@ export default function EvaluateConfig({ block, onUpdate, onClose }: EvaluateCon
             <p className="text-sm text-blue-800">
               <strong>Evaluate Block:</strong> Computes an output value using a C-style arithmetic/logical expression. 
               Use in(n) to access the nth input (0-indexed). The expression is evaluated at each simulation step.
+              With vector inputs it is evaluated element by element, and scalars apply to every element.
             </p>
             <p className="text-sm text-blue-800 mt-2">
               <strong>Example:</strong> Expression "(in(0) + in(1)) / 2" computes the average of two inputs.
@@ -0,0 +1,204 @@
+'use client'
+
+import { useState } from 'react'
+import { BlockData } from './BlockNode'
+import { SwitchCaseBlockModule } from '@/lib/blocks/SwitchCaseBlockModule'
+
+interface ModeLogicConfigProps {
+  block: BlockData
+  onUpdate: (parameters: Record<string, unknown>) => void
+  onClose: () => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none'
+
+const blockTitles: Record<string, string> = {
+  multiport_switch: 'Multiport Switch',
+  switch_case: 'Switch Case',
+  merge: 'Merge'
+}
+
+/**
+ * Configuration for the Multiport Switch, Switch Case and Merge blocks
+ */
+export default function ModeLogicConfig({ block, onUpdate, onClose }: ModeLogicConfigProps) {
+  const params = block.parameters || {}
+  const [numInputs, setNumInputs] = useState<string>(String(params.numInputs ?? (block.type === 'merge' ? 2 : 3)))
+  const [indexBase, setIndexBase] = useState<string>(params.indexBase || 'one')
+  const [casesText, setCasesText] = useState<string>(SwitchCaseBlockModule.formatCases(SwitchCaseBlockModule.getCases(params)))
+  const [showDefaultCase, setShowDefaultCase] = useState<boolean>(SwitchCaseBlockModule.hasDefaultCase(params))
+  const [initialOutput, setInitialOutput] = useState<string>(String(params.initialOutput ?? 0))
+  const [error, setError] = useState<string>('')
+
+  const handleSave = () => {
+    if (block.type === 'switch_case') {
+      let cases: number[][]
+      try {
+        cases = SwitchCaseBlockModule.parseCases(casesText)
+      } catch (parseError) {
+        setError(parseError instanceof Error ? parseError.message : 'Invalid case values')
+        return
+      }
+      if (cases.length === 0) {
+        setError('Enter at least one case value')
+        return
+      }
+      const values = cases.flat()
+      if (new Set(values).size !== values.length) {
+        setError('Each case value may only appear in one case')
+        return
+      }
+
+      onUpdate({ cases: cases.map(values => values.length === 1 ? values[0] : values), showDefaultCase })
+      onClose()
+      return
+    }
+
+    const inputs = Number(numInputs)
+    if (!Number.isInteger(inputs) || inputs < 1 || inputs > 32) {
+      setError('Number of data inputs must be an integer between 1 and 32')
+      return
+    }
+
+    if (block.type === 'multiport_switch') {
+      onUpdate({ numInputs: inputs, indexBase })
+    } else {
+      const initial = Number(initialOutput)
+      if (!isFinite(initial)) {
+        setError('Initial output must be a number')
+        return
+      }
+      onUpdate({ numInputs: inputs, initialOutput: initial })
+    }
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-96">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Configure {blockTitles[block.type] || block.type}: {block.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {block.type === 'switch_case' ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Case Values
+                </label>
+                <input
+                  type="text"
+                  value={casesText}
+                  onChange={(e) => setCasesText(e.target.value)}
+                  className={inputClassName}
+                  placeholder="1, [2, 3]"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  One output per case. Bracket several values to share a case, e.g. 1, [2, 3].
+                </p>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showDefaultCase}
+                  onChange={(e) => setShowDefaultCase(e.target.checked)}
+                />
+                <span>Show default case output</span>
+              </label>
+            </>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Number of Data Inputs
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={32}
+                value={numInputs}
+                onChange={(e) => setNumInputs(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {block.type === 'multiport_switch' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Data Port Indices
+              </label>
+              <select
+                value={indexBase}
+                onChange={(e) => setIndexBase(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="one">One-based (1, 2, 3, ...)</option>
+                <option value="zero">Zero-based (0, 1, 2, ...)</option>
+              </select>
+            </div>
+          )}
+
+          {block.type === 'merge' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Initial Output
+              </label>
+              <input
+                type="number"
+                value={initialOutput}
+                onChange={(e) => setInitialOutput(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="bg-purple-50 p-3 rounded-md">
+            <p className="text-sm text-purple-800">
+              {block.type === 'multiport_switch' && (
+                <><strong>Multiport Switch:</strong> Passes the data input selected by the index input.
+                Indices are truncated, and out-of-range indices select the first or last input.</>
+              )}
+              {block.type === 'switch_case' && (
+                <><strong>Switch Case:</strong> Sets the output of the case matching the integer input.
+                Connect the outputs to the enable inputs of action subsystems.</>
+              )}
+              {block.type === 'merge' && (
+                <><strong>Merge:</strong> Outputs the input updated most recently.
+                Inputs from enabled subsystems only update while the subsystem runs.</>
+              )}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -45,7 +45,9 @@ export default function ModelValidationModal({
   }
 
   const getLocationDescription = (item: TypeCompatibilityError): string => {
-    if (item.sourceBlockId && item.targetBlockId) {
+    if (item.loopBlockIds) {
+      return 'Algebraic Loop'
+    } else if (item.sourceBlockId && item.targetBlockId) {
       const sourceName = blockNameMap.get(item.sourceBlockId) || 'Unknown'
       const targetName = blockNameMap.get(item.targetBlockId) || 'Unknown'
       return `${sourceName} → ${targetName}`
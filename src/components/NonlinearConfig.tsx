@@ -0,0 +1,198 @@
+'use client'
+
+import { useState } from 'react'
+import { BlockData } from './BlockNode'
+
+interface NonlinearConfigProps {
+  block: BlockData
+  onUpdate: (parameters: Record<string, number | boolean>) => void
+  onClose: () => void
+}
+
+interface ParameterField {
+  key: string
+  label: string
+  defaultValue?: number // Fields without a default are optional limits
+}
+
+const titles: Record<string, string> = {
+  integrator: 'Integrator',
+  derivative: 'Derivative',
+  rate_limiter: 'Rate Limiter',
+  saturation: 'Saturation',
+  dead_zone: 'Dead Zone',
+  quantizer: 'Quantizer'
+}
+
+const descriptions: Record<string, string> = {
+  integrator: 'Integrates the input continuously (1/s). The state stops at the optional limits, and a nonzero reset input sets it back to the initial condition.',
+  derivative: 'Approximates du/dt with a first-order filter N·s/(s + N). Larger N tracks faster but amplifies noise.',
+  rate_limiter: 'Limits how fast the output may rise or fall per second. The output changes on each sample hit and holds in between.',
+  saturation: 'Clamps the input between the lower and upper limits.',
+  dead_zone: 'Outputs zero while the input is inside [start, end], and the distance past the nearest edge outside it.',
+  quantizer: 'Rounds the input to the nearest multiple of the quantization interval.'
+}
+
+const fields: Record<string, ParameterField[]> = {
+  integrator: [
+    { key: 'initialCondition', label: 'Initial Condition', defaultValue: 0 },
+    { key: 'lowerLimit', label: 'Lower Limit' },
+    { key: 'upperLimit', label: 'Upper Limit' }
+  ],
+  derivative: [
+    { key: 'filterCoefficient', label: 'Filter Coefficient (N)', defaultValue: 100 }
+  ],
+  rate_limiter: [
+    { key: 'risingSlewRate', label: 'Rising Slew Rate (1/s)', defaultValue: 1 },
+    { key: 'fallingSlewRate', label: 'Falling Slew Rate (1/s)', defaultValue: -1 },
+    { key: 'initialCondition', label: 'Initial Condition', defaultValue: 0 },
+    { key: 'sampleTime', label: 'Sample Time (s)', defaultValue: -1 }
+  ],
+  saturation: [
+    { key: 'lowerLimit', label: 'Lower Limit', defaultValue: -1 },
+    { key: 'upperLimit', label: 'Upper Limit', defaultValue: 1 }
+  ],
+  dead_zone: [
+    { key: 'start', label: 'Start of Dead Zone', defaultValue: -0.5 },
+    { key: 'end', label: 'End of Dead Zone', defaultValue: 0.5 }
+  ],
+  quantizer: [
+    { key: 'interval', label: 'Quantization Interval', defaultValue: 0.5 }
+  ]
+}
+
+// Check the parameters against the constraints of each block type
+const validate = (type: string, parameters: Record<string, number>): string => {
+  const lower = parameters.lowerLimit
+  const upper = parameters.upperLimit
+  if (lower !== undefined && upper !== undefined && lower > upper) {
+    return 'Lower limit must not be greater than upper limit'
+  }
+  if (type === 'dead_zone' && parameters.start > parameters.end) {
+    return 'Start of dead zone must not be greater than its end'
+  }
+  if (type === 'derivative' && !(parameters.filterCoefficient > 0)) {
+    return 'Filter coefficient must be positive'
+  }
+  if (type === 'quantizer' && !(parameters.interval > 0)) {
+    return 'Quantization interval must be positive'
+  }
+  if (type === 'rate_limiter' && (parameters.risingSlewRate < 0 || parameters.fallingSlewRate > 0)) {
+    return 'Rising slew rate must be non-negative and falling slew rate non-positive'
+  }
+  return ''
+}
+
+export default function NonlinearConfig({ block, onUpdate, onClose }: NonlinearConfigProps) {
+  const blockFields = fields[block.type] || []
+
+  // Keep the inputs as text so that optional limits can be left empty
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(blockFields.map(field => [
+      field.key,
+      (block.parameters?.[field.key] ?? field.defaultValue ?? '').toString()
+    ]))
+  )
+  const [showResetInput, setShowResetInput] = useState<boolean>(!!block.parameters?.showResetInput)
+  const [error, setError] = useState<string>('')
+
+  const handleSave = () => {
+    const parameters: Record<string, number> = {}
+    for (const field of blockFields) {
+      const text = values[field.key]?.trim() ?? ''
+      const parsed = parseFloat(text)
+      if (text === '' || isNaN(parsed)) {
+        if (field.defaultValue === undefined) continue // Empty limit means unlimited
+        setError(`${field.label} must be a number`)
+        return
+      }
+      parameters[field.key] = parsed
+    }
+
+    const validationError = validate(block.type, parameters)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    onUpdate(block.type === 'integrator' ? { ...parameters, showResetInput } : parameters)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-96">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Configure {titles[block.type] || 'Block'}: {block.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {blockFields.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={values[field.key]}
+                onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                placeholder={field.defaultValue === undefined ? 'None' : undefined}
+                className="w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
+              />
+              {field.key === 'sampleTime' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Use -1 to run at the simulation time step.
+                </p>
+              )}
+            </div>
+          ))}
+
+          {block.type === 'integrator' && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showResetInput}
+                onChange={(e) => setShowResetInput(e.target.checked)}
+              />
+              <span>Show reset input</span>
+            </label>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="bg-purple-50 p-3 rounded-md">
+            <p className="text-sm text-purple-800">
+              <strong>{titles[block.type] || 'Block'}:</strong> {descriptions[block.type]}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
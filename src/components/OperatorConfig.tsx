@@ -0,0 +1,194 @@
+'use client'
+
+import { useState } from 'react'
+import { BlockData } from './BlockNode'
+import { RELATIONAL_OPERATORS } from '@/lib/blocks/RelationalOperatorBlockModule'
+import { LOGICAL_OPERATORS } from '@/lib/blocks/LogicalOperatorBlockModule'
+import { BITWISE_OPERATORS, BitwiseOperatorBlockModule } from '@/lib/blocks/BitwiseOperatorBlockModule'
+
+interface OperatorConfigProps {
+  block: BlockData
+  onUpdate: (parameters: Record<string, unknown>) => void
+  onClose: () => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none'
+
+const blockTitles: Record<string, string> = {
+  relational_operator: 'Relational Operator',
+  logical_operator: 'Logical Operator',
+  bitwise_operator: 'Bitwise Operator'
+}
+
+const blockOperators: Record<string, readonly string[]> = {
+  relational_operator: RELATIONAL_OPERATORS,
+  logical_operator: LOGICAL_OPERATORS,
+  bitwise_operator: BITWISE_OPERATORS
+}
+
+/**
+ * Configuration for the Relational, Logical and Bitwise Operator blocks
+ */
+export default function OperatorConfig({ block, onUpdate, onClose }: OperatorConfigProps) {
+  const params = block.parameters || {}
+  const operators = blockOperators[block.type] || []
+  const [operator, setOperator] = useState<string>(params.operator || (block.type === 'relational_operator' ? '<=' : 'AND'))
+  const [numInputs, setNumInputs] = useState<string>(String(params.numInputs ?? 2))
+  const [useBitMask, setUseBitMask] = useState<boolean>(!!params.useBitMask)
+  const [bitMask, setBitMask] = useState<string>(String(params.bitMask ?? '0xFF'))
+  const [error, setError] = useState<string>('')
+
+  const singleInput = operator === 'NOT' || (block.type === 'bitwise_operator' && useBitMask)
+
+  const handleSave = () => {
+    if (block.type === 'relational_operator') {
+      onUpdate({ operator })
+      onClose()
+      return
+    }
+
+    const inputs = Number(numInputs)
+    if (!singleInput && (!Number.isInteger(inputs) || inputs < 2 || inputs > 32)) {
+      setError('Number of inputs must be an integer between 2 and 32')
+      return
+    }
+    const parameters: Record<string, unknown> = { operator, numInputs: singleInput ? params.numInputs ?? 2 : inputs }
+
+    if (block.type === 'bitwise_operator') {
+      if (singleInput && operator !== 'NOT') {
+        try {
+          if (BitwiseOperatorBlockModule.parseBitMask(bitMask) === null) {
+            setError('Enter a bit mask')
+            return
+          }
+        } catch (maskError) {
+          setError(maskError instanceof Error ? maskError.message : 'Invalid bit mask')
+          return
+        }
+      }
+      parameters.useBitMask = useBitMask && operator !== 'NOT'
+      parameters.bitMask = bitMask.trim()
+    }
+
+    onUpdate(parameters)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-96">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Configure {blockTitles[block.type] || block.type}: {block.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Operator
+            </label>
+            <select
+              value={operator}
+              onChange={(e) => setOperator(e.target.value)}
+              className={inputClassName}
+            >
+              {operators.map(op => (
+                <option key={op} value={op}>{op}</option>
+              ))}
+            </select>
+          </div>
+
+          {block.type === 'bitwise_operator' && operator !== 'NOT' && (
+            <>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={useBitMask}
+                  onChange={(e) => setUseBitMask(e.target.checked)}
+                />
+                <span>Combine a single input with a bit mask</span>
+              </label>
+
+              {useBitMask && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Bit Mask
+                  </label>
+                  <input
+                    type="text"
+                    value={bitMask}
+                    onChange={(e) => setBitMask(e.target.value)}
+                    className={`${inputClassName} font-mono`}
+                    placeholder="0xFF"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    A decimal or 0x hexadecimal integer.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+
+          {block.type !== 'relational_operator' && !singleInput && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Number of Inputs
+              </label>
+              <input
+                type="number"
+                min={2}
+                max={32}
+                value={numInputs}
+                onChange={(e) => setNumInputs(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="bg-purple-50 p-3 rounded-md">
+            <p className="text-sm text-purple-800">
+              {block.type === 'relational_operator' && (
+                <><strong>Relational Operator:</strong> Compares input a with input b element-wise.
+                A scalar input is compared with every element of a vector or matrix input.</>
+              )}
+              {block.type === 'logical_operator' && (
+                <><strong>Logical Operator:</strong> Combines the inputs element-wise, treating nonzero values as true.
+                XOR is true when an odd number of inputs is true.</>
+              )}
+              {block.type === 'bitwise_operator' && (
+                <><strong>Bitwise Operator:</strong> Combines the bits of integer inputs of one type element-wise.
+                The result wraps to the width of that type.</>
+              )}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState } from 'react'
+import { BlockData } from './BlockNode'
+import ParameterInput from './ParameterInput'
+
+interface PIDConfigProps {
+  block: BlockData
+  onUpdate: (parameters: Record<string, any>) => void
+  onClose: () => void
+}
+
+// Parse an optional limit field; empty means unlimited
+const parseLimit = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+const inputClassName = 'w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none'
+
+export default function PIDConfig({ block, onUpdate, onClose }: PIDConfigProps) {
+  const [form, setForm] = useState<string>(block.parameters?.form || 'parallel')
+  const [kp, setKp] = useState<number | string>(block.parameters?.kp ?? 1)
+  const [ki, setKi] = useState<number | string>(block.parameters?.ki ?? 0)
+  const [kd, setKd] = useState<number | string>(block.parameters?.kd ?? 0)
+  const [filterCoefficient, setFilterCoefficient] = useState<number | string>(block.parameters?.filterCoefficient ?? 100)
+  const [lowerLimit, setLowerLimit] = useState<string>(block.parameters?.lowerLimit?.toString() ?? '')
+  const [upperLimit, setUpperLimit] = useState<string>(block.parameters?.upperLimit?.toString() ?? '')
+  const [antiWindup, setAntiWindup] = useState<string>(block.parameters?.antiWindup || 'clamping')
+  const [backCalculationGain, setBackCalculationGain] = useState<number | string>(block.parameters?.backCalculationGain ?? 1)
+  const [initialCondition, setInitialCondition] = useState<number | string>(block.parameters?.initialCondition || 0)
+  const [showResetInput, setShowResetInput] = useState<boolean>(!!block.parameters?.showResetInput)
+  const [error, setError] = useState<string>('')
+
+  const hasLimits = lowerLimit.trim() !== '' || upperLimit.trim() !== ''
+
+  const handleSave = () => {
+    const lower = parseLimit(lowerLimit)
+    const upper = parseLimit(upperLimit)
+    if (lower !== undefined && upper !== undefined && lower > upper) {
+      setError('Lower limit must not be greater than upper limit')
+      return
+    }
+    if (typeof filterCoefficient === 'number' && !(filterCoefficient > 0)) {
+      setError('Filter coefficient must be positive')
+      return
+    }
+
+    const parameters: Record<string, string | number | boolean> = {
+      form,
+      kp,
+      ki,
+      kd,
+      filterCoefficient,
+      antiWindup,
+      backCalculationGain,
+      initialCondition,
+      showResetInput
+    }
+    if (lower !== undefined) parameters.lowerLimit = lower
+    if (upper !== undefined) parameters.upperLimit = upper
+
+    onUpdate(parameters)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-96 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Configure PID Controller: {block.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Form
+            </label>
+            <select
+              value={form}
+              onChange={(e) => setForm(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="parallel">Parallel: Kp + Ki/s + Kd·s</option>
+              <option value="ideal">Ideal: Kp·(1 + Ki/s + Kd·s)</option>
+            </select>
+          </div>
+
+          <div className="flex space-x-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Kp
+              </label>
+              <ParameterInput
+                value={kp}
+                onChange={setKp}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Ki
+              </label>
+              <ParameterInput
+                value={ki}
+                onChange={setKi}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Kd
+              </label>
+              <ParameterInput
+                value={kd}
+                onChange={setKd}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Derivative Filter Coefficient (N)
+            </label>
+            <ParameterInput
+              value={filterCoefficient}
+              onChange={setFilterCoefficient}
+              className={inputClassName}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              The derivative term is filtered by N/(s + N). Larger N tracks faster but amplifies noise.
+            </p>
+          </div>
+
+          <div className="flex space-x-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Lower Limit
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={lowerLimit}
+                onChange={(e) => setLowerLimit(e.target.value)}
+                placeholder="None"
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Upper Limit
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={upperLimit}
+                onChange={(e) => setUpperLimit(e.target.value)}
+                placeholder="None"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {hasLimits && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Anti-Windup
+              </label>
+              <select
+                value={antiWindup}
+                onChange={(e) => setAntiWindup(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="clamping">Clamping (stop integrating while saturated)</option>
+                <option value="back_calculation">Back-calculation</option>
+                <option value="none">None</option>
+              </select>
+            </div>
+          )}
+
+          {hasLimits && antiWindup === 'back_calculation' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Back-Calculation Gain (Kb)
+              </label>
+              <ParameterInput
+                value={backCalculationGain}
+                onChange={setBackCalculationGain}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Integrator Initial Condition
+            </label>
+            <ParameterInput
+              value={initialCondition}
+              onChange={setInitialCondition}
+              className={inputClassName}
+            />
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showResetInput}
+              onChange={(e) => setShowResetInput(e.target.checked)}
+            />
+            <span>Show external reset input</span>
+          </label>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="bg-purple-50 p-3 rounded-md">
+            <p className="text-sm text-purple-800">
+              <strong>PID Controller:</strong> Acts on the error input. The output is saturated to the optional limits, and a nonzero reset input holds the integrator at its initial condition.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
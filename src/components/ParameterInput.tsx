@@ -0,0 +1,58 @@
+// components/ParameterInput.tsx
+'use client'
+
+import { useState } from 'react'
+import { useModelStore } from '@/lib/modelStore'
+import { evaluateParameterExpression, formatWorkspaceValue, isParameterExpression } from '@/lib/workspace'
+
+interface ParameterInputProps {
+  /** A number, or an expression over the workspace such as "Kp * 2" */
+  value: number | string
+  onChange: (value: number | string) => void
+  className?: string
+  containerClassName?: string
+  placeholder?: string
+}
+
+/**
+ * Input for a numeric block parameter that also accepts workspace
+ * expressions. Numbers are passed on as numbers, anything else as the
+ * expression text, with its current value or error shown below.
+ */
+export default function ParameterInput({ value, onChange, className, containerClassName, placeholder }: ParameterInputProps) {
+  const workspace = useModelStore(state => state.workspace)
+  const [text, setText] = useState(String(value))
+
+  const handleChange = (newText: string) => {
+    setText(newText)
+    if (newText.trim() === '') {
+      onChange(0)
+    } else {
+      onChange(isParameterExpression(newText) ? newText.trim() : Number(newText))
+    }
+  }
+
+  let preview = ''
+  let error = ''
+  if (isParameterExpression(text)) {
+    try {
+      preview = `= ${formatWorkspaceValue(evaluateParameterExpression(text, workspace))}`
+    } catch (evaluationError) {
+      error = evaluationError instanceof Error ? evaluationError.message : String(evaluationError)
+    }
+  }
+
+  return (
+    <div className={containerClassName}>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        className={`${className ?? ''} ${error ? 'border-red-500' : ''}`}
+        placeholder={placeholder}
+      />
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      {preview && <p className="text-xs text-gray-500 mt-1">{preview}</p>}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react'
 import { BlockData } from './BlockNode'
+import ParameterInput from './ParameterInput'
 
 interface ScaleConfigProps {
   block: BlockData
@@ -10,7 +11,7 @@ interface ScaleConfigProps {
 }
 
 export default function ScaleConfig({ block, onUpdate, onClose }: ScaleConfigProps) {
-  const [gain, setGain] = useState(block.parameters?.gain || 1)
+  const [gain, setGain] = useState<number | string>(block.parameters?.gain || 1)
 
   const handleSave = () => {
     const parameters = {
@@ -40,16 +41,14 @@ export default function ScaleConfig({ block, onUpdate, onClose }: ScaleConfigPro
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Gain
             </label>
-            <input
-              type="number"
-              step="any"
+            <ParameterInput
               value={gain}
-              onChange={(e) => setGain(parseFloat(e.target.value) || 0)}
+              onChange={setGain}
               className="w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
-              placeholder="Enter gain value"
+              placeholder="Enter gain value or workspace expression"
             />
             <p className="text-xs text-gray-500 mt-1">
-              Multiplier applied to the input signal (Output = Input × Gain)
+              Multiplier applied to the input signal (Output = Input × Gain). May refer to workspace variables, e.g. Kp * 2
             </p>
           </div>
 
@@ -2,16 +2,28 @@
 
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { useState, useMemo, useRef } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea, ReferenceLine } from 'recharts'
+import type { CategoricalChartState } from 'recharts/types/chart/types'
 import { BlockData } from './BlockNode'
+import {
+  AxisDomain, DisplaySample, SignalDisplayMode,
+  buildTimePlot, buildXYTraces, fitDomain, timeExtent, seriesValues, seriesLabel,
+  zoomDomain, panDomain, pixelsToAxis, readCursors
+} from '@/lib/signalPlot'
 
 interface SignalDisplayProps {
   block: BlockData
-  signalData?: { time: number; value: number | number[] | boolean | boolean[] }[]
+  signalData?: { time: number; value: DisplaySample }[]
+
+  /** The same display's samples from the run before, drawn for comparison */
+  previousSignalData?: { time: number; value: DisplaySample }[]
   isRunning?: boolean
 }
 
+// What dragging or clicking on a time plot does
+type PlotTool = 'zoom' | 'pan' | 'cursors'
+
 // Color palette for multi-line plots
 const LINE_COLORS = [
   '#ef4444', // red
@@ -24,122 +36,251 @@ const LINE_COLORS = [
   '#f97316', // orange
 ]
 
-export default function SignalDisplay({ block, signalData = [], isRunning = false }: SignalDisplayProps) {
-  const [chartData, setChartData] = useState<any[]>([])
-  const [vectorSize, setVectorSize] = useState(1)
-  const [isVector, setIsVector] = useState(false)
-  
+const PREVIOUS_RUN_COLOR = '#9ca3af'
+const CURSOR_COLORS = ['#2563eb', '#db2777']
+
+const formatTick = (value: number) => Number(value.toPrecision(4)).toString()
+const formatValue = (value: number | null) => value !== null ? Number(value.toPrecision(6)).toString() : '–'
+
+export default function SignalDisplay({ block, signalData = [], previousSignalData, isRunning = false }: SignalDisplayProps) {
+  const [tool, setTool] = useState<PlotTool>('zoom')
+  // A null domain follows the data
+  const [xDomain, setXDomain] = useState<AxisDomain | null>(null)
+  const [yDomain, setYDomain] = useState<AxisDomain | null>(null)
+  const [stacked, setStacked] = useState(false)
+  const [showPrevious, setShowPrevious] = useState(true)
+  const [cursors, setCursors] = useState<number[]>([])
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null)
+  const panStart = useRef<{ chartX: number; domain: AxisDomain } | null>(null)
+
   const maxSamples = block.parameters?.maxSamples || 1000
+  const displayMode: SignalDisplayMode = block.parameters?.displayMode === 'xy' ? 'xy' : 'time'
   const displayName = block.name
 
-  console.log('SignalDisplay maxSamples:', maxSamples, 'from block:', block)
+  const plot = useMemo(
+    () => buildTimePlot(signalData.map(point => point.time), signalData.map(point => point.value), maxSamples),
+    [signalData, maxSamples]
+  )
+  const previousPlot = useMemo(
+    () => previousSignalData && previousSignalData.length > 0
+      ? buildTimePlot(previousSignalData.map(point => point.time), previousSignalData.map(point => point.value), maxSamples)
+      : null,
+    [previousSignalData, maxSamples]
+  )
+  const traces = useMemo(
+    () => displayMode === 'xy' ? buildXYTraces(signalData.map(point => point.value), maxSamples) : [],
+    [displayMode, signalData, maxSamples]
+  )
+  const previousTraces = useMemo(
+    () => displayMode === 'xy' && previousSignalData ? buildXYTraces(previousSignalData.map(point => point.value), maxSamples) : [],
+    [displayMode, previousSignalData, maxSamples]
+  )
+
+  const overlay = showPrevious ? previousPlot : null
+  const sampleCount = displayMode === 'xy' ? (traces[0]?.length ?? 0) : plot.rows.length
+  const isVector = displayMode === 'time' && plot.series[0] !== 'value'
+
+  // Axis ranges: the zoomed or frozen domain, or a fit of everything shown
+  const shownTraces = showPrevious ? [...traces, ...previousTraces] : traces
+  const shownX: AxisDomain = xDomain ?? (displayMode === 'xy'
+    ? fitDomain(shownTraces.flat().map(point => point.x))
+    : timeExtent(plot.rows))
+  const fitSeries = (series: string[]) => fitDomain([
+    ...seriesValues(plot.rows, series, shownX),
+    ...(overlay ? seriesValues(overlay.rows, series.filter(key => overlay.series.includes(key)), shownX) : [])
+  ])
+  const shownY: AxisDomain = yDomain ?? (displayMode === 'xy'
+    ? fitDomain(shownTraces.flat().map(point => point.y))
+    : fitSeries(plot.series))
+
+  const readout = displayMode === 'time' && cursors.length === 2
+    ? readCursors(plot.rows, plot.series, cursors[0], cursors[1])
+    : null
 
-useEffect(() => {
-  if (signalData.length === 0) {
-    setChartData([])
-    return
+  const resetView = () => {
+    setXDomain(null)
+    setYDomain(null)
+    setCursors([])
   }
-  
-  console.log('SignalDisplay useEffect - signalData:', {
-    length: signalData.length,
-    isArray: Array.isArray(signalData),
-    first: signalData[0],
-    last: signalData[signalData.length - 1]
-  })
-  
-  // Determine if we're dealing with vector data
-  const firstValue = signalData[0]?.value
-  const isVectorData = Array.isArray(firstValue)
-  setIsVector(isVectorData)
-  
-  if (isVectorData) {
-    const size = (firstValue as any[]).length
-    setVectorSize(size)
-    
-    // Transform vector data for multi-line chart
-    console.log('About to slice with maxSamples:', maxSamples)
-    const slicedData = signalData.slice(-maxSamples)
-    console.log('After slice:', slicedData.length, 'samples')
-  
 
-    const transformedData = slicedData.map((point, index) => {
-      const dataPoint: any = { 
-        time: point.time,  // Keep as number, not string
+  const handleMouseDown = (state: CategoricalChartState) => {
+    const time = Number(state?.activeLabel)
+    if (tool === 'pan') {
+      if (state?.chartX !== undefined) {
+        panStart.current = { chartX: state.chartX, domain: shownX }
       }
-      
-      if (Array.isArray(point.value)) {
-        point.value.forEach((val, i) => {
-          dataPoint[`element_${i}`] = typeof val === 'number' ? val : (val ? 1 : 0)
-        })
-      }
-      
-      return dataPoint
-    })
-    
-    console.log('Final transformedData length:', transformedData.length)
-    console.log('Sample of transformed data:', transformedData.slice(0, 3))
-    console.log('Chart data being set with', transformedData.length, 'points')
-    
-    setChartData(transformedData)
-  } else {
-      // Transform scalar data
-      const transformedData = signalData.slice(-maxSamples).map((point) => ({
-        time: point.time,
-        value: typeof point.value === 'number' ? point.value : (point.value ? 1 : 0)
-      }))
-      
-      setChartData(transformedData)
+      return
     }
-  }, [signalData, maxSamples])
-  
-  // Calculate Y-axis domain
-const getYDomain = () => {
-  if (chartData.length === 0) return [-1, 1]
-  
-  let min = Infinity
-  let max = -Infinity
-  
-  console.log('getYDomain - checking data, isVector:', isVector, 'vectorSize:', vectorSize)
-  
-  chartData.forEach((point, idx) => {
-    if (idx < 3) console.log('Point sample:', point) // Log first few points
-    
-    if (isVector) {
-      for (let i = 0; i < vectorSize; i++) {
-        const val = point[`element_${i}`]
-        if (typeof val === 'number') {
-          min = Math.min(min, val)
-          max = Math.max(max, val)
-        }
-      }
+    if (!Number.isFinite(time)) return
+    if (tool === 'zoom') {
+      setSelection({ start: time, end: time })
     } else {
-      if (typeof point.value === 'number') {
-        min = Math.min(min, point.value)
-        max = Math.max(max, point.value)
-      }
+      // A third click starts a new pair of cursors
+      setCursors(previous => previous.length >= 2 ? [time] : [...previous, time])
     }
-  })
-  
-  console.log('getYDomain result:', { min, max })
-  
-  // Add some padding
-  const range = max - min
-  const padding = range * 0.1 || 0.1
-  return [min - padding, max + padding]
-}
-  
-  const yDomain = getYDomain()
+  }
 
-  console.log('SignalDisplay render - chartData:', {
-  length: chartData.length,
-  sample: chartData.slice(0, 3),
-  hasData: chartData.length > 0
-})
+  const handleMouseMove = (state: CategoricalChartState) => {
+    if (tool === 'pan' && panStart.current && state?.chartX !== undefined) {
+      const { chartX, domain } = panStart.current
+      const distance = pixelsToAxis(chartX - state.chartX, state.offset?.width ?? 0, domain)
+      setXDomain(panDomain(domain, distance))
+      return
+    }
+    const time = Number(state?.activeLabel)
+    if (tool === 'zoom' && selection && Number.isFinite(time)) {
+      setSelection({ ...selection, end: time })
+    }
+  }
+
+  const handleMouseUp = () => {
+    panStart.current = null
+    if (selection) {
+      const zoomed = zoomDomain(selection.start, selection.end, shownX)
+      if (zoomed) setXDomain(zoomed)
+      setSelection(null)
+    }
+  }
+
+  const renderTimeChart = (series: string[], height: number, showLegend: boolean, syncId?: string) => (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart
+        data={plot.rows}
+        syncId={syncId}
+        margin={{ top: 5, right: 5, left: 0, bottom: 5 }}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          domain={shownX}
+          allowDataOverflow
+          label={{ value: 'Time (s)', position: 'insideBottom', offset: -5 }}
+          tick={{ fontSize: 12 }}
+          stroke="#6b7280"
+          tickFormatter={formatTick}
+        />
+        <YAxis
+          domain={stacked ? (yDomain ?? fitSeries(series)) : shownY}
+          allowDataOverflow
+          label={{ value: series.length === 1 && series[0] !== 'value' ? seriesLabel(series[0]) : 'Value', angle: -90, position: 'insideLeft' }}
+          tick={{ fontSize: 12 }}
+          stroke="#6b7280"
+          tickFormatter={formatTick}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: 'rgba(255, 255, 255, 0.95)',
+            border: '1px solid #e5e7eb',
+            borderRadius: '6px',
+            fontSize: '12px'
+          }}
+          labelFormatter={(time) => `t = ${formatTick(Number(time))} s`}
+          formatter={(value: number | string) => typeof value === 'number' ? value.toFixed(4) : value}
+        />
+        {showLegend && <Legend wrapperStyle={{ fontSize: '12px' }} iconType="line" />}
+
+        {overlay && series.filter(key => overlay.series.includes(key)).map(key => (
+          <Line
+            key={`previous_${key}`}
+            data={overlay.rows}
+            type="monotone"
+            dataKey={key}
+            stroke={PREVIOUS_RUN_COLOR}
+            strokeDasharray="4 3"
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+            name={`${seriesLabel(key)} (previous run)`}
+          />
+        ))}
+        {series.map(key => (
+          <Line
+            key={key}
+            type="monotone"
+            dataKey={key}
+            stroke={LINE_COLORS[plot.series.indexOf(key) % LINE_COLORS.length]}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+            name={seriesLabel(key)}
+          />
+        ))}
+
+        {selection && (
+          <ReferenceArea x1={selection.start} x2={selection.end} strokeOpacity={0.3} fill="#3b82f6" fillOpacity={0.15} />
+        )}
+        {cursors.map((time, index) => (
+          <ReferenceLine key={`cursor_${index}`} x={time} stroke={CURSOR_COLORS[index]} strokeDasharray="3 3" />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  )
+
+  const renderXYChart = () => (
+    <ResponsiveContainer width="100%" height={256}>
+      <LineChart margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis
+          dataKey="x"
+          type="number"
+          domain={shownX}
+          allowDataOverflow
+          label={{ value: 'Input 1 (x)', position: 'insideBottom', offset: -5 }}
+          tick={{ fontSize: 12 }}
+          stroke="#6b7280"
+          tickFormatter={formatTick}
+        />
+        <YAxis
+          dataKey="y"
+          type="number"
+          domain={shownY}
+          allowDataOverflow
+          label={{ value: 'Input 2 (y)', angle: -90, position: 'insideLeft' }}
+          tick={{ fontSize: 12 }}
+          stroke="#6b7280"
+          tickFormatter={formatTick}
+        />
+        {traces.length > 1 && <Legend wrapperStyle={{ fontSize: '12px' }} iconType="line" />}
+
+        {showPrevious && previousTraces.map((trace, i) => (
+          <Line
+            key={`previous_${i}`}
+            data={trace}
+            dataKey="y"
+            stroke={PREVIOUS_RUN_COLOR}
+            strokeDasharray="4 3"
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+            name={traces.length > 1 ? `Element ${i} (previous run)` : 'Previous run'}
+          />
+        ))}
+        {traces.map((trace, i) => (
+          <Line
+            key={`trace_${i}`}
+            data={trace}
+            dataKey="y"
+            stroke={LINE_COLORS[i % LINE_COLORS.length]}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+            name={`Element ${i}`}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  )
+
+  const buttonClass = (active: boolean) =>
+    `px-2 py-0.5 rounded border text-xs ${active
+      ? 'bg-blue-600 border-blue-600 text-white'
+      : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50'}`
 
-console.log('Y-axis domain:', yDomain)
-console.log('First few data points:', chartData.slice(0, 5))
-console.log('Last few data points:', chartData.slice(-5))
-  
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md dark:shadow-gray-900 p-4">
       <div className="flex items-center justify-between mb-2">
@@ -152,80 +293,95 @@ console.log('Last few data points:', chartData.slice(-5))
             </span>
           )}
           <span className="text-xs text-gray-500 dark:text-gray-400">
-            {chartData.length} / {maxSamples} samples
+            {sampleCount} / {maxSamples} samples
           </span>
         </div>
       </div>
-      
-      <div className="h-64">
-        <ResponsiveContainer width="100%" height={256}>
-          <LineChart
-              key={`chart-${chartData.length}-${vectorSize}`}  
-              data={chartData}
-              margin={{ top: 5, right: 5, left: 0, bottom: 5 }}
-            >
-            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-            <XAxis 
-              dataKey="time"
-              label={{ value: 'Time (s)', position: 'insideBottom', offset: -5 }}
-              tick={{ fontSize: 12 }}
-              stroke="#6b7280"
-              tickFormatter={(value) => value.toFixed(2)}
-            />
-            <YAxis 
-              domain={yDomain}
-              label={{ value: 'Value', angle: -90, position: 'insideLeft' }}
-              tick={{ fontSize: 12 }}
-              stroke="#6b7280"
-              tickFormatter={(value) => value.toFixed(2)}
-            />
-            <Tooltip 
-              contentStyle={{ 
-                backgroundColor: 'rgba(255, 255, 255, 0.95)', 
-                border: '1px solid #e5e7eb',
-                borderRadius: '6px',
-                fontSize: '12px'
-              }}
-              formatter={(value: any) => typeof value === 'number' ? value.toFixed(4) : value}
-            />
-            
-           {isVector ? (
-            // Remove the fragment and render Lines directly
-            [
-              <Legend 
-                key="legend"
-                wrapperStyle={{ fontSize: '12px' }}
-                iconType="line"
-              />,
-              ...Array.from({ length: vectorSize }).map((_, i) => (
-                <Line
-                  key={`element_${i}`}
-                  type="monotone"
-                  dataKey={`element_${i}`}
-                  stroke={LINE_COLORS[i % LINE_COLORS.length]}
-                  strokeWidth={2}
-                  dot={false}
-                  name={`Element ${i}`}
-                />
-              ))
-            ]
-          ) : (
-            <Line
-              type="monotone"
-              dataKey="value"
-              stroke={LINE_COLORS[0]}
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-          )}
-          </LineChart>
-        </ResponsiveContainer>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-gray-700 dark:text-gray-300">
+        {displayMode === 'time' && (
+          <div className="flex gap-1">
+            <button className={buttonClass(tool === 'zoom')} onClick={() => setTool('zoom')} title="Drag across the plot to zoom the time axis">
+              Zoom
+            </button>
+            <button className={buttonClass(tool === 'pan')} onClick={() => setTool('pan')} title="Drag the plot to move along the time axis">
+              Pan
+            </button>
+            <button className={buttonClass(tool === 'cursors')} onClick={() => setTool('cursors')} title="Click two times to place measurement cursors">
+              Cursors
+            </button>
+          </div>
+        )}
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={xDomain === null} onChange={(e) => setXDomain(e.target.checked ? null : shownX)} />
+          Auto X
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={yDomain === null} onChange={(e) => setYDomain(e.target.checked ? null : shownY)} />
+          Auto Y
+        </label>
+        {isVector && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={stacked} onChange={(e) => setStacked(e.target.checked)} />
+            Stacked axes
+          </label>
+        )}
+        {(previousPlot || previousTraces.length > 0) && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={showPrevious} onChange={(e) => setShowPrevious(e.target.checked)} />
+            Previous run
+          </label>
+        )}
+        <button className={buttonClass(false)} onClick={resetView}>
+          Reset
+        </button>
       </div>
-      
-      {isVector && (
+
+      {displayMode === 'xy' ? (
+        <div className="h-64">{renderXYChart()}</div>
+      ) : stacked && isVector ? (
+        <div className="space-y-1">
+          {plot.series.map(key => (
+            <div key={key}>{renderTimeChart([key], 128, false, block.id)}</div>
+          ))}
+        </div>
+      ) : (
+        <div className="h-64">{renderTimeChart(plot.series, 256, isVector || overlay !== null)}</div>
+      )}
+
+      {/* Cursor measurements */}
+      {displayMode === 'time' && tool === 'cursors' && !readout && (
+        <div className="mt-2 text-xs text-gray-500">
+          Click {cursors.length === 0 ? 'two points' : 'a second point'} on the plot to measure between cursors
+        </div>
+      )}
+      {readout && (
+        <table className="mt-2 w-full text-xs text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal">Signal</th>
+              <th className="font-normal" style={{ color: CURSOR_COLORS[0] }}>t1 = {formatValue(readout.t1)}</th>
+              <th className="font-normal" style={{ color: CURSOR_COLORS[1] }}>t2 = {formatValue(readout.t2)}</th>
+              <th className="font-normal">Δt = {formatValue(readout.deltaT)}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {readout.values.map(value => (
+              <tr key={value.series}>
+                <td>{seriesLabel(value.series)}</td>
+                <td>{formatValue(value.y1)}</td>
+                <td>{formatValue(value.y2)}</td>
+                <td>Δy = {formatValue(value.deltaY)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {isVector && !stacked && (
         <div className="mt-2 text-xs text-gray-600">
-          Displaying {vectorSize} vector elements
+          Displaying {plot.series.length} vector elements
         </div>
       )}
     </div>
@@ -241,9 +397,10 @@ interface SignalDisplayConfigProps {
 
 export function SignalDisplayConfig({ block, onUpdate, onClose }: SignalDisplayConfigProps) {
   const [maxSamples, setMaxSamples] = useState(block.parameters?.maxSamples || 1000)
+  const [displayMode, setDisplayMode] = useState<SignalDisplayMode>(block.parameters?.displayMode === 'xy' ? 'xy' : 'time')
   
   const handleSave = () => {
-    onUpdate({ maxSamples })
+    onUpdate({ maxSamples, displayMode })
     onClose()
   }
   
@@ -279,11 +436,26 @@ export function SignalDisplayConfig({ block, onUpdate, onClose }: SignalDisplayC
               Number of data points to display (10-10000)
             </p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Display Mode
+            </label>
+            <select
+              value={displayMode}
+              onChange={(e) => setDisplayMode(e.target.value as SignalDisplayMode)}
+              className="w-full px-3 py-2 border-2 border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none"
+            >
+              <option value="time">Signal over time</option>
+              <option value="xy">XY plot (input 1 against input 2)</option>
+            </select>
+          </div>
           
           <div className="bg-blue-50 p-3 rounded-md">
             <p className="text-sm text-blue-800">
               <strong>Signal Display:</strong> Shows real-time signal values during simulation. 
               Vector signals will be displayed as multiple lines with different colors.
+              In XY mode the block has two inputs and plots the second against the first, such as a phase plane.
             </p>
           </div>
         </div>
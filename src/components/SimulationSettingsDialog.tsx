@@ -0,0 +1,151 @@
+// components/SimulationSettingsDialog.tsx
+'use client'
+
+import { useState } from 'react'
+import { GlobalSettings } from '@/lib/modelSchema'
+
+interface SimulationSettingsDialogProps {
+  settings: GlobalSettings
+  onSave: (settings: GlobalSettings) => void
+  onClose: () => void
+}
+
+type IntegrationMethod = NonNullable<GlobalSettings['integrationMethod']>
+
+// Optional RK45 settings, with the defaults the solver uses when they are empty
+const ADAPTIVE_FIELDS = [
+  { key: 'relativeTolerance', label: 'Relative tolerance', placeholder: '1e-3' },
+  { key: 'absoluteTolerance', label: 'Absolute tolerance', placeholder: '1e-6' },
+  { key: 'minStep', label: 'Minimum step (s)', placeholder: 'auto' },
+  { key: 'maxStep', label: 'Maximum step (s)', placeholder: 'auto' }
+] as const
+
+type AdaptiveField = typeof ADAPTIVE_FIELDS[number]['key']
+
+export default function SimulationSettingsDialog({ settings, onSave, onClose }: SimulationSettingsDialogProps) {
+  const [timeStep, setTimeStep] = useState(String(settings.simulationTimeStep))
+  const [duration, setDuration] = useState(String(settings.simulationDuration))
+  const [integrationMethod, setIntegrationMethod] = useState<IntegrationMethod>(settings.integrationMethod ?? 'rk4')
+  const [adaptive, setAdaptive] = useState<Record<AdaptiveField, string>>({
+    relativeTolerance: settings.relativeTolerance?.toString() ?? '',
+    absoluteTolerance: settings.absoluteTolerance?.toString() ?? '',
+    minStep: settings.minStep?.toString() ?? '',
+    maxStep: settings.maxStep?.toString() ?? ''
+  })
+  const [error, setError] = useState('')
+
+  const handleSave = () => {
+    const simulationTimeStep = Number(timeStep)
+    const simulationDuration = Number(duration)
+    if (!(simulationTimeStep > 0) || !(simulationDuration > 0)) {
+      setError('Time step and duration must be positive numbers')
+      return
+    }
+
+    const result: GlobalSettings = { simulationTimeStep, simulationDuration, integrationMethod }
+    if (integrationMethod === 'rk45') {
+      // Empty fields keep the solver defaults
+      for (const { key, label } of ADAPTIVE_FIELDS) {
+        if (adaptive[key].trim() === '') continue
+        const value = Number(adaptive[key])
+        if (!(value > 0)) {
+          setError(`${label} must be a positive number`)
+          return
+        }
+        result[key] = value
+      }
+      if (result.minStep !== undefined && result.maxStep !== undefined && result.minStep > result.maxStep) {
+        setError('Minimum step must not be larger than the maximum step')
+        return
+      }
+    }
+
+    onSave(result)
+    onClose()
+  }
+
+  const inputClass = 'px-2 py-1 border border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:outline-none focus:border-blue-600'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Simulation Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 px-6 py-4 overflow-y-auto space-y-4 text-sm text-gray-700">
+          <div className="grid grid-cols-2 gap-3 items-center">
+            <label htmlFor="simulation-time-step">Time step (s)</label>
+            <input
+              id="simulation-time-step"
+              className={inputClass}
+              value={timeStep}
+              onChange={(e) => { setTimeStep(e.target.value); setError('') }}
+            />
+            <label htmlFor="simulation-duration">Duration (s)</label>
+            <input
+              id="simulation-duration"
+              className={inputClass}
+              value={duration}
+              onChange={(e) => { setDuration(e.target.value); setError('') }}
+            />
+            <label htmlFor="simulation-solver">Solver</label>
+            <select
+              id="simulation-solver"
+              className={inputClass}
+              value={integrationMethod}
+              onChange={(e) => { setIntegrationMethod(e.target.value as IntegrationMethod); setError('') }}
+            >
+              <option value="euler">Euler (fixed step)</option>
+              <option value="rk4">RK4 (fixed step)</option>
+              <option value="rk45">RK45 (adaptive step)</option>
+            </select>
+          </div>
+
+          {integrationMethod === 'rk45' && (
+            <>
+              <p className="text-gray-600">
+                Steps are as long as the tolerances allow, and results are interpolated onto the time step.
+              </p>
+              <div className="grid grid-cols-2 gap-3 items-center">
+                {ADAPTIVE_FIELDS.map(({ key, label, placeholder }) => (
+                  <div key={key} className="contents">
+                    <label htmlFor={`simulation-${key}`}>{label}</label>
+                    <input
+                      id={`simulation-${key}`}
+                      className={inputClass}
+                      value={adaptive[key]}
+                      placeholder={placeholder}
+                      onChange={(e) => { setAdaptive({ ...adaptive, [key]: e.target.value }); setError('') }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react'
 import { BlockData } from './BlockNode'
 import { isValidType, getTypeValidationError, parseType } from '@/lib/typeValidator'
+import { useModelStore } from '@/lib/modelStore'
+import { evaluateParameterExpression } from '@/lib/workspace'
 
 interface SourceConfigProps {
   block: BlockData
@@ -11,6 +13,7 @@ interface SourceConfigProps {
 }
 
 export default function SourceConfig({ block, onUpdate, onClose }: SourceConfigProps) {
+  const workspace = useModelStore(state => state.workspace)
   const [signalType, setSignalType] = useState(block?.parameters?.signalType || 'constant')
   const [dataType, setDataType] = useState(block?.parameters?.dataType || 'double')
   const [value, setValue] = useState(block?.parameters?.value || 0)
@@ -27,6 +30,7 @@ export default function SourceConfig({ block, onUpdate, onClose }: SourceConfigP
   const [f1, setF1] = useState(block?.parameters?.f1 || 10)
   const [duration, setDuration] = useState(block?.parameters?.duration || 10)
   const [mean, setMean] = useState(block?.parameters?.mean || 0)
+  const [seed, setSeed] = useState(block?.parameters?.seed || 0)
   const [typeError, setTypeError] = useState<string>('')
   const [valueError, setValueError] = useState<string>('')
   const [isVector, setIsVector] = useState(false)
@@ -73,8 +77,29 @@ export default function SourceConfig({ block, onUpdate, onClose }: SourceConfigP
     }
   }, [dataType])
 
+  // Accept a workspace expression in place of a literal when its value has
+  // the shape of the data type; the expression itself is saved
+  const parseValue = (input: string): { value: number | number[] | number[][] | string, error: string } => {
+    const result = parseLiteralValue(input)
+    if (!result.error) {
+      return result
+    }
+
+    try {
+      const evaluated = evaluateParameterExpression(input, workspace)
+      const expected = parseLiteralValue(
+        Array.isArray(evaluated) && Array.isArray(evaluated[0])
+          ? `{${(evaluated as number[][]).map(row => `{${row.join(', ')}}`).join(', ')}}`
+          : Array.isArray(evaluated) ? `[${evaluated.join(', ')}]` : String(evaluated)
+      )
+      return expected.error ? expected : { value: input.trim(), error: '' }
+    } catch {
+      return result
+    }
+  }
+
   // Parse value string based on whether it's a matrix, vector, or scalar
-  const parseValue = (input: string): { value: number | number[] | number[][], error: string } => {
+  const parseLiteralValue = (input: string): { value: number | number[] | number[][], error: string } => {
     const trimmed = input.trim()
     
     if (isMatrix && matrixDims) {
@@ -164,7 +189,7 @@ export default function SourceConfig({ block, onUpdate, onClose }: SourceConfigP
     const result = parseValue(valueString)
     setValue(result.value)
     setValueError(result.error)
-  }, [valueString, isVector, isMatrix, dataType])
+  }, [valueString, isVector, isMatrix, dataType, workspace])
 
   // Auto-focus first input when dialog opens
   useEffect(() => {
@@ -190,7 +215,8 @@ export default function SourceConfig({ block, onUpdate, onClose }: SourceConfigP
       f0,
       f1,
       duration,
-      mean
+      mean,
+      seed
     }
     onUpdate(parameters)
     onClose()
@@ -226,7 +252,7 @@ export default function SourceConfig({ block, onUpdate, onClose }: SourceConfigP
                     ? `Matrix constant (e.g., {{1.0, 2.0}, {3.0, 4.0}} for ${matrixDims?.rows}×${matrixDims?.cols})` 
                     : isVector 
                     ? "Vector constant (e.g., [1.0, 2.0, 3.0])" 
-                    : "Constant output value"}
+                    : "Constant output value or workspace expression, e.g. Kp * 2"}
                 </p>
               )}
             </div>
@@ -437,6 +463,20 @@ export default function SourceConfig({ block, onUpdate, onClose }: SourceConfigP
               />
               <p className="text-xs text-gray-500 mt-1">Average value</p>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Seed
+              </label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={seed}
+                onChange={(e) => setSeed(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Same seed produces the same noise sequence in simulation and generated code</p>
+            </div>
           </div>
         )
 
@@ -0,0 +1,520 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { BlockData } from './BlockNode'
+import {
+  StateChartBlockModule,
+  StateChartOutput,
+  StateChartState
+} from '@/lib/blocks/StateChartBlockModule'
+
+interface StateChartEditorProps {
+  block: BlockData
+  onUpdate: (parameters: Record<string, unknown>) => void
+  onClose: () => void
+}
+
+/**
+ * A transition between states referenced by index, so that renaming a
+ * state while typing never reconnects transitions
+ */
+interface EditorTransition {
+  from: number
+  to: number
+  guard: string
+  action: string
+}
+
+type Selection = { kind: 'state', index: number } | { kind: 'transition', index: number } | null
+
+const CANVAS_WIDTH = 640
+const CANVAS_HEIGHT = 440
+const STATE_WIDTH = 130
+const STATE_HEIGHT = 60
+
+const inputClassName = 'w-full px-2 py-1 border-2 border-gray-400 rounded text-sm bg-white text-gray-900 focus:border-blue-600 focus:outline-none'
+const codeClassName = `${inputClassName} font-mono`
+
+const stateCenter = (state: StateChartState) => ({
+  x: (state.position?.x ?? 0) + STATE_WIDTH / 2,
+  y: (state.position?.y ?? 0) + STATE_HEIGHT / 2
+})
+
+/**
+ * The point where a line from the center of a state towards (dx, dy)
+ * leaves its box
+ */
+const boxExit = (center: { x: number, y: number }, dx: number, dy: number) => {
+  const scale = Math.min(
+    dx !== 0 ? (STATE_WIDTH / 2) / Math.abs(dx) : Infinity,
+    dy !== 0 ? (STATE_HEIGHT / 2) / Math.abs(dy) : Infinity
+  )
+  return { x: center.x + dx * scale, y: center.y + dy * scale }
+}
+
+const truncate = (text: string, maxLength: number) =>
+  text.length <= maxLength ? text : text.substring(0, maxLength - 3) + '...'
+
+/**
+ * Editor for the State Chart block: states and transitions are drawn on a
+ * canvas, their guards and actions edited in the side panel
+ */
+export default function StateChartEditor({ block, onUpdate, onClose }: StateChartEditorProps) {
+  const definition = StateChartBlockModule.getDefinition(block.parameters || {})
+  const [inputsText, setInputsText] = useState<string>(definition.inputs.join(', '))
+  const [outputs, setOutputs] = useState<StateChartOutput[]>(definition.outputs.map(output => ({ ...output })))
+  const [states, setStates] = useState<StateChartState[]>(definition.states.map((state, index) => ({
+    ...state,
+    position: state.position ?? { x: 40 + (index % 4) * 150, y: 40 + Math.floor(index / 4) * 110 }
+  })))
+  const [transitions, setTransitions] = useState<EditorTransition[]>(() => {
+    const names = definition.states.map(state => state.name)
+    return definition.transitions
+      .map(transition => ({
+        from: names.indexOf(transition.from),
+        to: names.indexOf(transition.to),
+        guard: transition.guard || '',
+        action: transition.action || ''
+      }))
+      .filter(transition => transition.from >= 0 && transition.to >= 0)
+  })
+  const [initialState, setInitialState] = useState<number>(
+    Math.max(0, definition.states.findIndex(state => state.name === definition.initialState))
+  )
+  const [selection, setSelection] = useState<Selection>(null)
+  const [connectFrom, setConnectFrom] = useState<number | null>(null)
+  const [isConnecting, setIsConnecting] = useState(false)
+  const dragRef = useRef<{ index: number, offsetX: number, offsetY: number } | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  const parameters = useMemo(() => ({
+    inputs: inputsText.split(',').map(name => name.trim()).filter(Boolean),
+    outputs: outputs.map(output => ({ name: output.name.trim(), initialValue: Number(output.initialValue) || 0 })),
+    states: states.map(state => ({ ...state, name: state.name.trim() })),
+    transitions: transitions.map(transition => ({
+      from: states[transition.from].name.trim(),
+      to: states[transition.to].name.trim(),
+      guard: transition.guard.trim(),
+      action: transition.action.trim()
+    })),
+    initialState: states[initialState]?.name.trim() ?? ''
+  }), [inputsText, outputs, states, transitions, initialState])
+
+  const errors = useMemo(() => StateChartBlockModule.validate(parameters), [parameters])
+
+  const toCanvas = (event: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  const handleStateMouseDown = (event: React.MouseEvent, index: number) => {
+    event.stopPropagation()
+    if (isConnecting) {
+      if (connectFrom === null) {
+        setConnectFrom(index)
+      } else {
+        setTransitions([...transitions, { from: connectFrom, to: index, guard: '', action: '' }])
+        setSelection({ kind: 'transition', index: transitions.length })
+        setConnectFrom(null)
+        setIsConnecting(false)
+      }
+      return
+    }
+
+    const point = toCanvas(event)
+    const position = states[index].position!
+    dragRef.current = { index, offsetX: point.x - position.x, offsetY: point.y - position.y }
+    setSelection({ kind: 'state', index })
+  }
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const point = toCanvas(event)
+    const x = Math.min(Math.max(0, point.x - drag.offsetX), CANVAS_WIDTH - STATE_WIDTH)
+    const y = Math.min(Math.max(0, point.y - drag.offsetY), CANVAS_HEIGHT - STATE_HEIGHT)
+    setStates(states.map((state, i) => i === drag.index ? { ...state, position: { x, y } } : state))
+  }
+
+  const updateState = (index: number, changes: Partial<StateChartState>) => {
+    setStates(states.map((state, i) => i === index ? { ...state, ...changes } : state))
+  }
+
+  const updateTransition = (index: number, changes: Partial<EditorTransition>) => {
+    setTransitions(transitions.map((transition, i) => i === index ? { ...transition, ...changes } : transition))
+  }
+
+  const handleAddState = () => {
+    let number = states.length + 1
+    while (states.some(state => state.name === `State${number}`)) number++
+    const index = states.length
+    setStates([...states, {
+      name: `State${number}`,
+      entry: '',
+      during: '',
+      exit: '',
+      position: { x: 20 + (index % 4) * 150, y: 20 + (Math.floor(index / 4) % 4) * 100 }
+    }])
+    setSelection({ kind: 'state', index })
+  }
+
+  const handleDeleteSelection = () => {
+    if (selection?.kind === 'state') {
+      const removed = selection.index
+      const reindex = (i: number) => i > removed ? i - 1 : i
+      setStates(states.filter((_, i) => i !== removed))
+      setTransitions(transitions
+        .filter(transition => transition.from !== removed && transition.to !== removed)
+        .map(transition => ({ ...transition, from: reindex(transition.from), to: reindex(transition.to) })))
+      setInitialState(initialState === removed ? 0 : reindex(initialState))
+    } else if (selection?.kind === 'transition') {
+      setTransitions(transitions.filter((_, i) => i !== selection.index))
+    }
+    setSelection(null)
+  }
+
+  /**
+   * Swap a transition with the previous or next transition leaving the
+   * same state, changing the order in which their guards are checked
+   */
+  const moveTransition = (index: number, direction: -1 | 1) => {
+    const from = transitions[index].from
+    let other = index + direction
+    while (other >= 0 && other < transitions.length && transitions[other].from !== from) {
+      other += direction
+    }
+    if (other < 0 || other >= transitions.length) return
+    const reordered = [...transitions]
+    reordered[index] = transitions[other]
+    reordered[other] = transitions[index]
+    setTransitions(reordered)
+    setSelection({ kind: 'transition', index: other })
+  }
+
+  const handleSave = () => {
+    if (errors.length > 0) return
+    onUpdate(parameters)
+    onClose()
+  }
+
+  const renderTransition = (transition: EditorTransition, index: number) => {
+    const source = states[transition.from]
+    const target = states[transition.to]
+    const selected = selection?.kind === 'transition' && selection.index === index
+    const color = selected ? '#2563eb' : '#4b5563'
+    const label = `${transition.guard ? `[${truncate(transition.guard, 24)}]` : ''}${transition.action ? ` / ${truncate(transition.action, 20)}` : ''}`
+    const priority = transitions.filter((t, i) => t.from === transition.from && i <= index).length
+
+    let path: string
+    let labelPoint: { x: number, y: number }
+    if (transition.from === transition.to) {
+      // Self transition: a loop above the state
+      const { x, y } = source.position!
+      const left = x + STATE_WIDTH / 2 - 22
+      const right = x + STATE_WIDTH / 2 + 22
+      path = `M ${left} ${y} C ${left - 10} ${y - 45}, ${right + 10} ${y - 45}, ${right} ${y}`
+      labelPoint = { x: x + STATE_WIDTH / 2, y: y - 40 }
+    } else {
+      const start = stateCenter(source)
+      const end = stateCenter(target)
+      const dx = end.x - start.x
+      const dy = end.y - start.y
+      const length = Math.hypot(dx, dy) || 1
+      // Offset both directions of a pair of transitions so they do not overlap
+      const nx = (-dy / length) * 8
+      const ny = (dx / length) * 8
+      const from = boxExit(start, dx, dy)
+      const to = boxExit(end, -dx, -dy)
+      path = `M ${from.x + nx} ${from.y + ny} L ${to.x + nx} ${to.y + ny}`
+      labelPoint = { x: (from.x + to.x) / 2 + nx * 2, y: (from.y + to.y) / 2 + ny * 2 }
+    }
+
+    return (
+      <g
+        key={`transition-${index}`}
+        onMouseDown={(event) => {
+          event.stopPropagation()
+          setSelection({ kind: 'transition', index })
+        }}
+        className="cursor-pointer"
+      >
+        <path d={path} fill="none" stroke="transparent" strokeWidth={10} />
+        <path d={path} fill="none" stroke={color} strokeWidth={selected ? 2.5 : 1.5} markerEnd={`url(#arrow-${selected ? 'selected' : 'normal'})`} />
+        <text x={labelPoint.x} y={labelPoint.y} textAnchor="middle" fontSize={11} fill={color} className="font-mono select-none">
+          {priority}: {label || '(always)'}
+        </text>
+      </g>
+    )
+  }
+
+  const selectedState = selection?.kind === 'state' ? states[selection.index] : undefined
+  const selectedTransition = selection?.kind === 'transition' ? transitions[selection.index] : undefined
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-[1120px] max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Edit State Chart: {block.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex space-x-4">
+          <div>
+            <div className="flex space-x-2 mb-2">
+              <button
+                onClick={handleAddState}
+                className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Add State
+              </button>
+              <button
+                onClick={() => {
+                  setIsConnecting(!isConnecting)
+                  setConnectFrom(null)
+                }}
+                className={`px-3 py-1 border rounded text-sm ${isConnecting ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              >
+                {isConnecting ? (connectFrom === null ? 'Click the source state…' : 'Click the destination state…') : 'Add Transition'}
+              </button>
+              <button
+                onClick={handleDeleteSelection}
+                disabled={!selection}
+                className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                Delete
+              </button>
+            </div>
+
+            <svg
+              ref={svgRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="border-2 border-gray-300 rounded bg-gray-50"
+              onMouseMove={handleMouseMove}
+              onMouseUp={() => { dragRef.current = null }}
+              onMouseLeave={() => { dragRef.current = null }}
+              onMouseDown={() => setSelection(null)}
+            >
+              <defs>
+                <marker id="arrow-normal" markerWidth="10" markerHeight="8" refX="9" refY="4" orient="auto">
+                  <path d="M 0 0 L 10 4 L 0 8 z" fill="#4b5563" />
+                </marker>
+                <marker id="arrow-selected" markerWidth="10" markerHeight="8" refX="9" refY="4" orient="auto">
+                  <path d="M 0 0 L 10 4 L 0 8 z" fill="#2563eb" />
+                </marker>
+              </defs>
+
+              {transitions.map(renderTransition)}
+
+              {states.map((state, index) => {
+                const { x, y } = state.position!
+                const selected = selection?.kind === 'state' && selection.index === index
+                return (
+                  <g key={`state-${index}`} onMouseDown={(event) => handleStateMouseDown(event, index)} className="cursor-move">
+                    {index === initialState && (
+                      <>
+                        <circle cx={x - 24} cy={y + STATE_HEIGHT / 2} r={4} fill="#111827" />
+                        <line x1={x - 20} y1={y + STATE_HEIGHT / 2} x2={x} y2={y + STATE_HEIGHT / 2} stroke="#111827" strokeWidth={1.5} markerEnd="url(#arrow-normal)" />
+                      </>
+                    )}
+                    <rect
+                      x={x}
+                      y={y}
+                      width={STATE_WIDTH}
+                      height={STATE_HEIGHT}
+                      rx={12}
+                      fill={connectFrom === index ? '#dbeafe' : 'white'}
+                      stroke={selected ? '#2563eb' : '#6b7280'}
+                      strokeWidth={selected ? 2.5 : 1.5}
+                    />
+                    <text x={x + STATE_WIDTH / 2} y={y + 20} textAnchor="middle" fontSize={13} fontWeight="bold" fill="#111827" className="select-none">
+                      {truncate(state.name, 16)}
+                    </text>
+                    {state.entry && (
+                      <text x={x + 8} y={y + 38} fontSize={10} fill="#4b5563" className="font-mono select-none">
+                        en: {truncate(state.entry, 16)}
+                      </text>
+                    )}
+                    {state.during && (
+                      <text x={x + 8} y={y + 51} fontSize={10} fill="#4b5563" className="font-mono select-none">
+                        du: {truncate(state.during, 16)}
+                      </text>
+                    )}
+                  </g>
+                )
+              })}
+            </svg>
+            <p className="text-xs text-gray-500 mt-1">
+              Drag states to move them. Transition labels show their priority, [guard] and / action.
+            </p>
+          </div>
+
+          <div className="flex-1 space-y-4">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-900">Chart Data</h4>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Inputs (comma separated)</label>
+                <input
+                  type="text"
+                  value={inputsText}
+                  onChange={(e) => setInputsText(e.target.value)}
+                  className={codeClassName}
+                  placeholder="u, enable"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Outputs and initial values</label>
+                {outputs.map((output, index) => (
+                  <div key={index} className="flex space-x-2 mb-1">
+                    <input
+                      type="text"
+                      value={output.name}
+                      onChange={(e) => setOutputs(outputs.map((o, i) => i === index ? { ...o, name: e.target.value } : o))}
+                      className={codeClassName}
+                    />
+                    <input
+                      type="number"
+                      value={output.initialValue ?? 0}
+                      onChange={(e) => setOutputs(outputs.map((o, i) => i === index ? { ...o, initialValue: Number(e.target.value) } : o))}
+                      className={`${inputClassName} w-24`}
+                    />
+                    <button
+                      onClick={() => setOutputs(outputs.filter((_, i) => i !== index))}
+                      className="px-2 text-gray-400 hover:text-red-600"
+                      title="Remove output"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setOutputs([...outputs, { name: `y${outputs.length}`, initialValue: 0 }])}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  + Add output
+                </button>
+              </div>
+            </div>
+
+            {selectedState && selection?.kind === 'state' && (
+              <div className="space-y-2 border-t pt-3">
+                <h4 className="text-sm font-medium text-gray-900">State</h4>
+                <input
+                  type="text"
+                  value={selectedState.name}
+                  onChange={(e) => updateState(selection.index, { name: e.target.value })}
+                  className={inputClassName}
+                />
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={initialState === selection.index}
+                    onChange={() => setInitialState(selection.index)}
+                  />
+                  <span>Initial state</span>
+                </label>
+                {(['entry', 'during', 'exit'] as const).map(action => (
+                  <div key={action}>
+                    <label className="block text-xs font-medium text-gray-700 mb-1 capitalize">{action} action</label>
+                    <input
+                      type="text"
+                      value={selectedState[action] || ''}
+                      onChange={(e) => updateState(selection.index, { [action]: e.target.value })}
+                      className={codeClassName}
+                      placeholder="y = 0; n = n + 1"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selectedTransition && selection?.kind === 'transition' && (
+              <div className="space-y-2 border-t pt-3">
+                <h4 className="text-sm font-medium text-gray-900">
+                  Transition {states[selectedTransition.from].name} → {states[selectedTransition.to].name}
+                </h4>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Guard (empty: always)</label>
+                  <input
+                    type="text"
+                    value={selectedTransition.guard}
+                    onChange={(e) => updateTransition(selection.index, { guard: e.target.value })}
+                    className={codeClassName}
+                    placeholder="u > 0.5 && !fault"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Transition action</label>
+                  <input
+                    type="text"
+                    value={selectedTransition.action}
+                    onChange={(e) => updateTransition(selection.index, { action: e.target.value })}
+                    className={codeClassName}
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => moveTransition(selection.index, -1)}
+                    className="px-2 py-1 border border-gray-300 rounded text-xs text-gray-700 hover:bg-gray-50"
+                  >
+                    Check earlier
+                  </button>
+                  <button
+                    onClick={() => moveTransition(selection.index, 1)}
+                    className="px-2 py-1 border border-gray-300 rounded text-xs text-gray-700 hover:bg-gray-50"
+                  >
+                    Check later
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {errors.length > 0 && (
+              <div className="space-y-1">
+                {errors.map((error, i) => (
+                  <p key={i} className="text-sm text-red-600">❌ {error}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-purple-50 p-3 rounded-md">
+              <p className="text-sm text-purple-800">
+                <strong>State Chart:</strong> Enters the initial state in the first step. In each later step it takes
+                the first transition of the active state whose guard is true, running the exit, transition and entry
+                actions, or runs the during action. Guards and actions use C expressions over the inputs and
+                outputs; actions assign outputs, e.g. <code>y = 1; n = n + 1</code>.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={errors.length > 0}
+            className={`px-4 py-2 rounded-md text-sm font-medium ${
+              errors.length === 0
+                ? 'bg-blue-600 text-white hover:bg-blue-700'
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
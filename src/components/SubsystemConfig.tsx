@@ -4,6 +4,7 @@
 import { useState } from 'react'
 import { BlockData } from './BlockNode'
 import { Sheet } from '@/lib/modelStore'
+import { StatesWhenEnabling, TriggerType } from '@/lib/blocks/SubsystemBlockModule'
 
 interface SubsystemConfigProps {
   block: BlockData
@@ -22,6 +23,10 @@ export default function SubsystemConfig({ block, availableSheets = [], onUpdate,
   const [editingSheetId, setEditingSheetId] = useState<string | null>(null)
   const [editingSheetName, setEditingSheetName] = useState('')
   const [showEnableInput, setShowEnableInput] = useState(block.parameters?.showEnableInput || false)
+  const [statesWhenEnabling, setStatesWhenEnabling] = useState<StatesWhenEnabling>(block.parameters?.statesWhenEnabling || 'held')
+  const [showTriggerInput, setShowTriggerInput] = useState(block.parameters?.showTriggerInput || false)
+  const [triggerType, setTriggerType] = useState<TriggerType>(block.parameters?.triggerType || 'rising')
+  const [sampleTime, setSampleTime] = useState<number>(block.parameters?.sampleTime ?? -1)
 
   const handleSave = () => {
     const parameters = {
@@ -29,7 +34,11 @@ export default function SubsystemConfig({ block, availableSheets = [], onUpdate,
       sheetName,
       inputPorts: inputPorts.filter((port: string) => port.trim() !== ''),
       outputPorts: outputPorts.filter((port: string) => port.trim() !== ''),
-      showEnableInput
+      showEnableInput,
+      statesWhenEnabling,
+      showTriggerInput,
+      triggerType,
+      sampleTime: sampleTime > 0 ? sampleTime : -1
     }
     onUpdate(parameters)
     onClose()
@@ -328,6 +337,75 @@ export default function SubsystemConfig({ block, availableSheets = [], onUpdate,
               When enabled, adds a special boolean input port that controls whether the subsystem is active. 
               When false, the subsystem's state is frozen.
             </p>
+            {showEnableInput && (
+              <div className="mt-2 ml-6">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  States When Enabling
+                </label>
+                <select
+                  value={statesWhenEnabling}
+                  onChange={(e) => setStatesWhenEnabling(e.target.value as StatesWhenEnabling)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="held">Held</option>
+                  <option value="reset">Reset</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Reset returns the states inside to their initial conditions each time the subsystem is enabled again.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Trigger Input Checkbox */}
+          <div>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={showTriggerInput}
+                onChange={(e) => setShowTriggerInput(e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+              />
+              <span className="text-sm font-medium text-gray-700">
+                Show Trigger Input
+              </span>
+            </label>
+            <p className="mt-1 ml-6 text-xs text-gray-500">
+              Adds a trigger port on top. The subsystem runs only on trigger events and holds its outputs in between.
+            </p>
+            {showTriggerInput && (
+              <div className="mt-2 ml-6">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Trigger Type
+                </label>
+                <select
+                  value={triggerType}
+                  onChange={(e) => setTriggerType(e.target.value as TriggerType)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="rising">Rising edge</option>
+                  <option value="falling">Falling edge</option>
+                  <option value="either">Either edge</option>
+                  <option value="function_call">Function call (every step the trigger is nonzero)</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sample Time (s)
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={sampleTime}
+              onChange={(e) => setSampleTime(parseFloat(e.target.value) || -1)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Blocks inside that inherit their sample time (-1) run at this rate and hold their outputs between its sample hits; continuous states still integrate every time step. Use -1 to inherit from the parent.
+            </p>
           </div>
 
           <div className="bg-gray-50 p-3 rounded-md">
@@ -2,6 +2,16 @@
 
 import { useState } from 'react'
 import { BlockData } from './BlockNode'
+import ParameterInput from './ParameterInput'
+
+// A coefficient is a number or a workspace expression
+type Coefficient = number | string
+
+// A whole-array expression is edited as a single coefficient
+const toCoefficients = (value: unknown, fallback: Coefficient[]): Coefficient[] => {
+  if (value === undefined || value === null) return fallback
+  return Array.isArray(value) ? value : [value as Coefficient]
+}
 
 interface TransferFunctionConfigProps {
   block: BlockData
@@ -10,13 +20,20 @@ interface TransferFunctionConfigProps {
 }
 
 export default function TransferFunctionConfig({ block, onUpdate, onClose }: TransferFunctionConfigProps) {
-  const [numerator, setNumerator] = useState<number[]>(block.parameters?.numerator || [1])
-  const [denominator, setDenominator] = useState<number[]>(block.parameters?.denominator || [1, 1])
+  // Discrete transfer functions share this dialog, in powers of z
+  const isDiscrete = block.type === 'discrete_transfer_function'
+  const variable = isDiscrete ? 'z' : 's'
+  const [numerator, setNumerator] = useState<Coefficient[]>(toCoefficients(block.parameters?.numerator, [1]))
+  const [denominator, setDenominator] = useState<Coefficient[]>(toCoefficients(block.parameters?.denominator, isDiscrete ? [1, -0.5] : [1, 1]))
+  const [sampleTime, setSampleTime] = useState<number>(block.parameters?.sampleTime ?? -1)
 
   const handleSave = () => {
-    const parameters = {
-      numerator: numerator.filter(val => !isNaN(val)),
-      denominator: denominator.filter(val => !isNaN(val))
+    const parameters: { numerator: Coefficient[], denominator: Coefficient[], sampleTime?: number } = {
+      numerator: numerator.filter(val => typeof val === 'string' || !isNaN(val)),
+      denominator: denominator.filter(val => typeof val === 'string' || !isNaN(val))
+    }
+    if (isDiscrete) {
+      parameters.sampleTime = sampleTime > 0 ? sampleTime : -1
     }
     
     // Validate that we have at least one coefficient in each
@@ -31,15 +48,15 @@ export default function TransferFunctionConfig({ block, onUpdate, onClose }: Tra
     onClose()
   }
 
-  const updateNumerator = (index: number, value: string) => {
+  const updateNumerator = (index: number, value: Coefficient) => {
     const newNumerator = [...numerator]
-    newNumerator[index] = parseFloat(value) || 0
+    newNumerator[index] = value
     setNumerator(newNumerator)
   }
 
-  const updateDenominator = (index: number, value: string) => {
+  const updateDenominator = (index: number, value: Coefficient) => {
     const newDenominator = [...denominator]
-    newDenominator[index] = parseFloat(value) || 0
+    newDenominator[index] = value
     setDenominator(newDenominator)
   }
 
@@ -68,15 +85,15 @@ export default function TransferFunctionConfig({ block, onUpdate, onClose }: Tra
     const numStr = numerator.map((coeff, idx) => {
       const power = numerator.length - 1 - idx
       if (power === 0) return coeff.toString()
-      if (power === 1) return `${coeff}s`
-      return `${coeff}s^${power}`
+      if (power === 1) return `${coeff}${variable}`
+      return `${coeff}${variable}^${power}`
     }).join(' + ').replace(/\+ -/g, '- ')
 
     const denStr = denominator.map((coeff, idx) => {
       const power = denominator.length - 1 - idx
       if (power === 0) return coeff.toString()
-      if (power === 1) return `${coeff}s`
-      return `${coeff}s^${power}`
+      if (power === 1) return `${coeff}${variable}`
+      return `${coeff}${variable}^${power}`
     }).join(' + ').replace(/\+ -/g, '- ')
 
     return (
@@ -96,7 +113,7 @@ export default function TransferFunctionConfig({ block, onUpdate, onClose }: Tra
       <div className="bg-white rounded-lg shadow-xl p-6 w-[500px] max-h-[900px] overflow-y-auto">
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-lg font-medium text-gray-900">
-            Configure Transfer Function: {block.name}
+            Configure {isDiscrete ? 'Discrete ' : ''}Transfer Function: {block.name}
           </h3>
           <button
             onClick={onClose}
@@ -110,7 +127,7 @@ export default function TransferFunctionConfig({ block, onUpdate, onClose }: Tra
           {/* Transfer Function Display */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Transfer Function H(s)
+              Transfer Function H({variable})
             </label>
             {renderTransferFunction()}
           </div>
@@ -123,14 +140,14 @@ export default function TransferFunctionConfig({ block, onUpdate, onClose }: Tra
             {numerator.map((coeff, index) => (
               <div key={index} className="flex items-center space-x-2 mb-2">
                 <span className="text-sm text-gray-500 w-12">
-                  s^{numerator.length - 1 - index}:
+                  {variable}^{numerator.length - 1 - index}:
                 </span>
-                <input
-                  type="number"
-                  step="any"
+                <ParameterInput
+                  key={`${numerator.length}-${index}`}
                   value={coeff}
-                  onChange={(e) => updateNumerator(index, e.target.value)}
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  onChange={(value) => updateNumerator(index, value)}
+                  containerClassName="flex-1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                 />
                 <button
                   onClick={() => removeNumeratorCoeff(index)}
@@ -157,14 +174,14 @@ export default function TransferFunctionConfig({ block, onUpdate, onClose }: Tra
             {denominator.map((coeff, index) => (
               <div key={index} className="flex items-center space-x-2 mb-2">
                 <span className="text-sm text-gray-500 w-12">
-                  s^{denominator.length - 1 - index}:
+                  {variable}^{denominator.length - 1 - index}:
                 </span>
-                <input
-                  type="number"
-                  step="any"
+                <ParameterInput
+                  key={`${denominator.length}-${index}`}
                   value={coeff}
-                  onChange={(e) => updateDenominator(index, e.target.value)}
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  onChange={(value) => updateDenominator(index, value)}
+                  containerClassName="flex-1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                 />
                 <button
                   onClick={() => removeDenominatorCoeff(index)}
@@ -183,15 +200,45 @@ export default function TransferFunctionConfig({ block, onUpdate, onClose }: Tra
             </button>
           </div>
 
-          <div className="bg-red-50 p-3 rounded-md">
-            <p className="text-sm text-red-800">
-              <strong>Transfer Function Block:</strong> Implements H(s) = N(s)/D(s) using RK4 integration. 
-              Coefficients are ordered from highest to lowest power of s.
-            </p>
-            <p className="text-xs text-red-600 mt-1">
-              Example: For H(s) = (2s + 1)/(s² + 3s + 2), enter Numerator: [2, 1], Denominator: [1, 3, 2]
-            </p>
-          </div>
+          {isDiscrete && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sample Time (s)
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={sampleTime}
+                onChange={(e) => setSampleTime(parseFloat(e.target.value) || -1)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Use -1 to run at the simulation time step
+              </p>
+            </div>
+          )}
+
+          {isDiscrete ? (
+            <div className="bg-red-50 p-3 rounded-md">
+              <p className="text-sm text-red-800">
+                <strong>Discrete Transfer Function Block:</strong> Implements H(z) = N(z)/D(z) as a difference equation, 
+                updated once per sample. Coefficients are ordered from highest to lowest power of z.
+              </p>
+              <p className="text-xs text-red-600 mt-1">
+                Example: For H(z) = 0.5z/(z - 0.5), enter Numerator: [0.5, 0], Denominator: [1, -0.5]
+              </p>
+            </div>
+          ) : (
+            <div className="bg-red-50 p-3 rounded-md">
+              <p className="text-sm text-red-800">
+                <strong>Transfer Function Block:</strong> Implements H(s) = N(s)/D(s) using RK4 integration. 
+                Coefficients are ordered from highest to lowest power of s.
+              </p>
+              <p className="text-xs text-red-600 mt-1">
+                Example: For H(s) = (2s + 1)/(s² + 3s + 2), enter Numerator: [2, 1], Denominator: [1, 3, 2]
+              </p>
+            </div>
+          )}
         </div>
 
         <div className="flex justify-end space-x-3 mt-6">
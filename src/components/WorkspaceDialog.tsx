@@ -0,0 +1,150 @@
+// components/WorkspaceDialog.tsx
+'use client'
+
+import { useState } from 'react'
+import {
+  WorkspaceVariable,
+  evaluateParameterExpression,
+  formatWorkspaceValue,
+  getWorkspaceVariableError
+} from '@/lib/workspace'
+
+interface WorkspaceDialogProps {
+  workspace: WorkspaceVariable[]
+  onSave: (workspace: WorkspaceVariable[]) => void
+  onClose: () => void
+}
+
+interface VariableRow {
+  name: string
+  value: string
+  description: string
+}
+
+function toRow(variable: WorkspaceVariable): VariableRow {
+  return {
+    name: variable.name,
+    value: formatWorkspaceValue(variable.value),
+    description: variable.description ?? ''
+  }
+}
+
+export default function WorkspaceDialog({ workspace, onSave, onClose }: WorkspaceDialogProps) {
+  const [rows, setRows] = useState<VariableRow[]>(workspace.map(toRow))
+  const [error, setError] = useState('')
+
+  const updateRow = (index: number, changes: Partial<VariableRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...changes } : row))
+    setError('')
+  }
+
+  const handleSave = () => {
+    const variables: WorkspaceVariable[] = []
+    for (const row of rows) {
+      const name = row.name.trim()
+      let value
+      try {
+        // Values are literals: numbers, [1, 2, 3] or [1, 2; 3, 4]
+        value = evaluateParameterExpression(row.value, [])
+      } catch (valueError) {
+        setError(`${name || 'Unnamed variable'}: ${valueError instanceof Error ? valueError.message : String(valueError)}`)
+        return
+      }
+      const description = row.description.trim()
+      variables.push({ name, value, ...(description ? { description } : {}) })
+    }
+
+    for (const variable of variables) {
+      const variableError = getWorkspaceVariableError(variable, variables)
+      if (variableError) {
+        setError(variableError)
+        return
+      }
+    }
+
+    onSave(variables)
+    onClose()
+  }
+
+  const inputClass = 'px-2 py-1 border border-gray-400 rounded-md text-sm bg-white text-gray-900 focus:outline-none focus:border-blue-600'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Model Workspace</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 px-6 py-4 overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-600">
+            Block parameters can refer to these values by name, e.g. <code>Kp * 2</code> or <code>wn^2</code>.
+            Generated code holds them in a tunable parameter struct.
+          </p>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500">The workspace is empty</p>
+          ) : (
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    className={`${inputClass} w-32`}
+                    value={row.name}
+                    placeholder="Name"
+                    onChange={(e) => updateRow(index, { name: e.target.value })}
+                  />
+                  <input
+                    className={`${inputClass} w-48`}
+                    value={row.value}
+                    placeholder="1.0 or [1, 2; 3, 4]"
+                    onChange={(e) => updateRow(index, { value: e.target.value })}
+                  />
+                  <input
+                    className={`${inputClass} flex-1`}
+                    value={row.description}
+                    placeholder="Description"
+                    onChange={(e) => updateRow(index, { description: e.target.value })}
+                  />
+                  <button
+                    className="text-sm text-red-600 hover:text-red-800"
+                    onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <button
+            className="text-sm text-blue-600 hover:text-blue-800"
+            onClick={() => setRows([...rows, { name: '', value: '0', description: '' }])}
+          >
+            + Add variable
+          </button>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
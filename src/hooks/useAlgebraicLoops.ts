@@ -0,0 +1,65 @@
+// hooks/useAlgebraicLoops.ts
+
+import { useMemo } from 'react'
+import { BlockData } from '@/components/BlockNode'
+import { WireData } from '@/components/Wire'
+import { Sheet } from '@/lib/simulationEngine'
+import { AlgebraicLoop, findModelAlgebraicLoops } from '@/lib/algebraicLoopDetector'
+import { useModelStore } from '@/lib/modelStore'
+
+/**
+ * Replace the contents of one sheet, wherever it is nested, with the
+ * blocks and wires being edited on the canvas
+ */
+function withSheetContents(
+  sheets: Sheet[],
+  sheetId: string,
+  blocks: BlockData[],
+  wires: WireData[]
+): Sheet[] {
+  return sheets.map(sheet => {
+    if (sheet.id === sheetId) {
+      return { ...sheet, blocks, connections: wires }
+    }
+    return {
+      ...sheet,
+      blocks: sheet.blocks.map(block => {
+        if (block.type === 'subsystem' && block.parameters?.sheets) {
+          return {
+            ...block,
+            parameters: {
+              ...block.parameters,
+              sheets: withSheetContents(block.parameters.sheets, sheetId, blocks, wires)
+            }
+          }
+        }
+        return block
+      })
+    }
+  })
+}
+
+/**
+ * Hook to find algebraic loops across the whole model, including the
+ * unsaved edits on the active sheet
+ */
+export function useAlgebraicLoops(
+  blocks: BlockData[],
+  wires: WireData[]
+): AlgebraicLoop[] {
+  const sheets = useModelStore(state => state.sheets)
+  const activeSheetId = useModelStore(state => state.activeSheetId)
+
+  return useMemo(() => {
+    const modelSheets = sheets.length > 0
+      ? withSheetContents(sheets, activeSheetId, blocks, wires)
+      : [{ id: activeSheetId, name: 'Main', blocks, connections: wires, extents: { width: 1000, height: 800 } }]
+
+    try {
+      return findModelAlgebraicLoops(modelSheets)
+    } catch (error) {
+      console.error('Error during algebraic loop detection:', error)
+      return []
+    }
+  }, [sheets, activeSheetId, blocks, wires])
+}
@@ -5,6 +5,8 @@ import { BlockData } from '@/components/Block'
 import { WireData } from '@/components/Wire'
 import { validateModelTypeCompatibility, TypeCompatibilityError, validateModelTypeCompatibilityMultiSheet } from '@/lib/typeCompatibilityValidator'
 import { validateSheetLabels } from '@/lib/sheetLabelUtils'
+import { formatAlgebraicLoop } from '@/lib/algebraicLoopDetector'
+import { useAlgebraicLoops } from './useAlgebraicLoops'
 import { useModelStore } from '@/lib/modelStore'
 
 interface UseWireValidationResult {
@@ -24,6 +26,7 @@ export function useWireValidation(
   const [allWarnings, setAllWarnings] = useState<TypeCompatibilityError[]>([])
   const [isValidating, setIsValidating] = useState(false)
   const sheets = useModelStore(state => state.sheets)
+  const algebraicLoops = useAlgebraicLoops(blocks, wires)
 
   // Memoize the validation function
 const validate = useMemo(() => {
@@ -71,6 +74,18 @@ const validate = useMemo(() => {
         ]
       }
       
+      // Algebraic loops are found across all sheets, so point each error
+      // at a loop block on the current sheet when there is one
+      const blockIds = new Set(blocks.map(b => b.id))
+      for (const loop of algebraicLoops) {
+        combinedErrors.push({
+          message: formatAlgebraicLoop(loop),
+          blockId: loop.blockIds.find(id => blockIds.has(id)) ?? loop.blockIds[0],
+          loopBlockIds: loop.blockIds,
+          severity: 'error'
+        })
+      }
+      
       // Create a map of wire IDs to errors for quick lookup
       const errorMap = new Map<string, TypeCompatibilityError>()
       
@@ -92,7 +107,7 @@ const validate = useMemo(() => {
       setIsValidating(false)
     }
   }
-}, [blocks, wires, sheets])
+}, [blocks, wires, sheets, algebraicLoops])
 
   // Run validation when blocks or wires change
   useEffect(() => {
@@ -0,0 +1,134 @@
+// lib/algebraicLoopDetector.ts
+import { BlockData } from '@/components/BlockNode'
+import { Sheet } from '@/lib/simulationEngine'
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { FlattenedModel, ModelFlattener } from '@/lib/codegen/ModelFlattener'
+
+/**
+ * A set of direct-feedthrough blocks whose outputs depend on each other
+ * within the same time step
+ */
+export interface AlgebraicLoop {
+  /** Original block IDs, in model order */
+  blockIds: string[]
+
+  /** Block names matching blockIds */
+  blockNames: string[]
+}
+
+/**
+ * Minimal connection shape shared by wires and flattened connections
+ */
+export interface DependencyConnection {
+  sourceBlockId: string
+  targetBlockId: string
+}
+
+/**
+ * Find the algebraic loops in a single set of blocks and connections.
+ *
+ * A connection is a same-step dependency when its target is direct
+ * feedthrough; blocks without feedthrough (delays, integrators, transfer
+ * functions with a strictly proper denominator) compute their output from
+ * stored state and break the chain. Every strongly connected component of
+ * the remaining graph with more than one block, or with a block feeding
+ * itself, is reported as a loop.
+ */
+export function findAlgebraicLoops(
+  blocks: BlockData[],
+  connections: DependencyConnection[]
+): AlgebraicLoop[] {
+  const blockById = new Map(blocks.map(block => [block.id, block]))
+  const successors = new Map<string, string[]>(blocks.map(block => [block.id, []]))
+  const selfLoops = new Set<string>()
+
+  for (const connection of connections) {
+    const source = blockById.get(connection.sourceBlockId)
+    const target = blockById.get(connection.targetBlockId)
+    if (!source || !target || !BlockModuleFactory.isDirectFeedthrough(target)) continue
+
+    successors.get(source.id)!.push(target.id)
+    if (source.id === target.id) {
+      selfLoops.add(source.id)
+    }
+  }
+
+  // Tarjan's strongly connected components
+  const indices = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const components: string[][] = []
+  let nextIndex = 0
+
+  const connect = (blockId: string) => {
+    indices.set(blockId, nextIndex)
+    lowLinks.set(blockId, nextIndex)
+    nextIndex++
+    stack.push(blockId)
+    onStack.add(blockId)
+
+    for (const successor of successors.get(blockId)!) {
+      if (!indices.has(successor)) {
+        connect(successor)
+        lowLinks.set(blockId, Math.min(lowLinks.get(blockId)!, lowLinks.get(successor)!))
+      } else if (onStack.has(successor)) {
+        lowLinks.set(blockId, Math.min(lowLinks.get(blockId)!, indices.get(successor)!))
+      }
+    }
+
+    if (lowLinks.get(blockId) === indices.get(blockId)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== blockId)
+      components.push(component)
+    }
+  }
+
+  for (const block of blocks) {
+    if (!indices.has(block.id)) {
+      connect(block.id)
+    }
+  }
+
+  const modelOrder = new Map(blocks.map((block, index) => [block.id, index]))
+
+  return components
+    .filter(component => component.length > 1 || selfLoops.has(component[0]))
+    .map(component => component.sort((a, b) => modelOrder.get(a)! - modelOrder.get(b)!))
+    .sort((a, b) => modelOrder.get(a[0])! - modelOrder.get(b[0])!)
+    .map(blockIds => ({
+      blockIds,
+      blockNames: blockIds.map(id => blockById.get(id)!.name)
+    }))
+}
+
+/**
+ * Find the algebraic loops in a model, following signals through subsystem
+ * ports and sheet labels by flattening the sheet hierarchy first
+ */
+export function findModelAlgebraicLoops(sheets: Sheet[]): AlgebraicLoop[] {
+  const flattener = new ModelFlattener({ generateEnableTracking: false })
+  return findFlattenedAlgebraicLoops(flattener.flattenModel(sheets).model)
+}
+
+/**
+ * Find the algebraic loops in an already flattened model
+ */
+export function findFlattenedAlgebraicLoops(model: FlattenedModel): AlgebraicLoop[] {
+  return findAlgebraicLoops(
+    model.blocks.map(flattenedBlock => ({ ...flattenedBlock.block, id: flattenedBlock.originalId })),
+    model.connections
+  )
+}
+
+/**
+ * Describe a loop for validation messages
+ */
+export function formatAlgebraicLoop(loop: AlgebraicLoop): string {
+  return `Algebraic loop through ${loop.blockNames.join(', ')}: these blocks all have direct feedthrough, so none of their outputs can be computed first. Insert a delay, integrator or other block with state to break the loop.`
+}
@@ -0,0 +1,191 @@
+// lib/blockClipboard.ts
+import { BlockData } from '@/components/BlockNode'
+import { WireData } from '@/components/Wire'
+import { Sheet } from '@/lib/simulationEngine'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+
+/**
+ * Identifies our JSON on the system clipboard, so the text can be pasted
+ * into another sheet, another model or another browser tab
+ */
+export const BLOCK_CLIPBOARD_FORMAT = 'block-diagram-selection'
+export const BLOCK_CLIPBOARD_VERSION = 1
+
+export interface BlockClipboardData {
+  format: typeof BLOCK_CLIPBOARD_FORMAT
+  version: number
+  blocks: BlockData[]
+  wires: WireData[]
+}
+
+export interface PastedSelection {
+  blocks: BlockData[]
+  wires: WireData[]
+}
+
+let idCounter = 0
+
+// Unique ID in the same style as the editor's `${type}_${Date.now()}` IDs;
+// the counter keeps IDs created within the same millisecond apart
+function createId(prefix: string): string {
+  idCounter = (idCounter + 1) % 1000000
+  return `${prefix}_${Date.now()}_${idCounter}`
+}
+
+/**
+ * Copy the selected blocks together with the wires between them. Wires to
+ * blocks outside the selection are left behind.
+ */
+export function copySelection(
+  blocks: BlockData[],
+  wires: WireData[],
+  selectedBlockIds: Iterable<string>
+): BlockClipboardData {
+  const selected = new Set(selectedBlockIds)
+  return {
+    format: BLOCK_CLIPBOARD_FORMAT,
+    version: BLOCK_CLIPBOARD_VERSION,
+    blocks: blocks.filter(block => selected.has(block.id)),
+    wires: wires.filter(wire => selected.has(wire.sourceBlockId) && selected.has(wire.targetBlockId))
+  }
+}
+
+export function serializeClipboard(data: BlockClipboardData): string {
+  return JSON.stringify(data)
+}
+
+/**
+ * Parse clipboard text, returning null for anything that is not a copied
+ * block selection
+ */
+export function parseClipboard(text: string): BlockClipboardData | null {
+  try {
+    const data = JSON.parse(text)
+    if (data?.format !== BLOCK_CLIPBOARD_FORMAT ||
+        typeof data.version !== 'number' || data.version > BLOCK_CLIPBOARD_VERSION ||
+        !Array.isArray(data.blocks) || !Array.isArray(data.wires)) {
+      return null
+    }
+    return data as BlockClipboardData
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Make a name unique among the given C identifiers. Names that already
+ * end in a number count up from it, so "Scale1" becomes "Scale2".
+ */
+export function createUniqueBlockName(name: string, usedIdentifiers: Set<string>): string {
+  if (!usedIdentifiers.has(CCodeBuilder.sanitizeIdentifier(name))) {
+    return name
+  }
+  const match = name.match(/^(.*?)(\d+)$/)
+  const base = match ? match[1] : name
+  let index = match ? parseInt(match[2], 10) + 1 : 2
+  while (usedIdentifiers.has(CCodeBuilder.sanitizeIdentifier(`${base}${index}`))) {
+    index++
+  }
+  return `${base}${index}`
+}
+
+// Re-ID the blocks and wires of one sheet level, recursing into subsystems
+function cloneContents(blocks: BlockData[], wires: WireData[]): PastedSelection {
+  const idMap = new Map<string, string>()
+  for (const block of blocks) {
+    idMap.set(block.id, createId(block.type))
+  }
+
+  const clonedBlocks = blocks.map(block => {
+    const newId = idMap.get(block.id)!
+    const clone: BlockData = JSON.parse(JSON.stringify({ ...block, id: newId }))
+    if (block.type === 'subsystem' && Array.isArray(block.parameters?.sheets)) {
+      clone.parameters = {
+        ...clone.parameters,
+        sheets: (block.parameters!.sheets as Sheet[]).map(sheet => cloneSheet(sheet, block.id, newId))
+      }
+    }
+    return clone
+  })
+
+  const clonedWires = wires
+    .filter(wire => idMap.has(wire.sourceBlockId) && idMap.has(wire.targetBlockId))
+    .map(wire => ({
+      ...wire,
+      id: createId('wire'),
+      sourceBlockId: idMap.get(wire.sourceBlockId)!,
+      targetBlockId: idMap.get(wire.targetBlockId)!
+    }))
+
+  return { blocks: clonedBlocks, wires: clonedWires }
+}
+
+// Deep-copy a subsystem sheet. Sheet IDs follow the `${subsystemId}_main`
+// convention, so they are renamed along with their subsystem.
+function cloneSheet(sheet: Sheet, oldSubsystemId: string, newSubsystemId: string): Sheet {
+  const id = sheet.id.startsWith(oldSubsystemId)
+    ? newSubsystemId + sheet.id.slice(oldSubsystemId.length)
+    : `${newSubsystemId}_${sheet.id}`
+  const { blocks, wires } = cloneContents(sheet.blocks, sheet.connections)
+  return { ...sheet, id, blocks, connections: wires }
+}
+
+/**
+ * Blocks of every sheet whose names share a C namespace with the active
+ * sheet: the root sheets, or the sheets of the subsystem holding it. The
+ * active sheet's blocks come from the editor, as the stored copy may be stale.
+ */
+export function getNamespaceBlocks(sheets: Sheet[], activeSheetId: string, activeBlocks: BlockData[]): BlockData[] {
+  const findSiblings = (candidates: Sheet[]): Sheet[] | null => {
+    if (candidates.some(sheet => sheet.id === activeSheetId)) {
+      return candidates
+    }
+    for (const block of candidates.flatMap(sheet => sheet.blocks)) {
+      const siblings = block.type === 'subsystem' && Array.isArray(block.parameters?.sheets)
+        ? findSiblings(block.parameters!.sheets as Sheet[])
+        : null
+      if (siblings) {
+        return siblings
+      }
+    }
+    return null
+  }
+
+  const siblings = findSiblings(sheets) ?? []
+  return [
+    ...activeBlocks,
+    ...siblings.filter(sheet => sheet.id !== activeSheetId).flatMap(sheet => sheet.blocks)
+  ]
+}
+
+/**
+ * Prepare copied blocks for pasting onto a sheet: every block, wire and
+ * nested subsystem sheet gets a new ID, top-level block names and port
+ * names are made unique among the blocks sharing the sheet's C namespace
+ * (see getNamespaceBlocks), and blocks are moved by the given offset.
+ */
+export function pasteSelection(
+  data: BlockClipboardData,
+  namespaceBlocks: BlockData[],
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+): PastedSelection {
+  const usedIdentifiers = new Set(namespaceBlocks.map(block => CCodeBuilder.sanitizeIdentifier(block.name)))
+  const usedPortNames = new Set(namespaceBlocks.filter(isPortBlock).map(block => String(block.parameters?.portName)))
+
+  const pasted = cloneContents(data.blocks, data.wires)
+  for (const block of pasted.blocks) {
+    block.name = createUniqueBlockName(block.name, usedIdentifiers)
+    usedIdentifiers.add(CCodeBuilder.sanitizeIdentifier(block.name))
+    if (isPortBlock(block) && typeof block.parameters?.portName === 'string') {
+      const portName = createUniqueBlockName(block.parameters.portName, usedPortNames)
+      usedPortNames.add(portName)
+      block.parameters = { ...block.parameters, portName }
+    }
+    block.position = { x: block.position.x + offset.x, y: block.position.y + offset.y }
+  }
+  return pasted
+}
+
+function isPortBlock(block: BlockData): boolean {
+  return block.type === 'input_port' || block.type === 'output_port'
+}
@@ -1,7 +1,13 @@
 // lib/blockParameterValidator.ts
 
 import { BlockType, BlockTypes, getBlockType } from './blockTypeRegistry';
-import { isValidType, getTypeValidationError } from './typeValidator';
+import { isValidType, getTypeValidationError, parseType } from './typeValidator';
+import { FIXED_POINT_ROUNDING_MODES } from './fixedPoint';
+import { StateChartBlockModule } from './blocks/StateChartBlockModule';
+import { RELATIONAL_OPERATORS } from './blocks/RelationalOperatorBlockModule';
+import { LOGICAL_OPERATORS } from './blocks/LogicalOperatorBlockModule';
+import { BITWISE_OPERATORS, BitwiseOperatorBlockModule } from './blocks/BitwiseOperatorBlockModule';
+import { isOutputAssignmentList, parseC99Expression, parseC99OutputAssignments } from './c99ExpressionParser';
 
 export interface ValidationResult {
   valid: boolean;
@@ -163,6 +169,184 @@ export function validateBlockParameters(
       }
       break;
 
+    case BlockTypes.UNIT_DELAY:
+    case BlockTypes.DISCRETE_INTEGRATOR:
+      // Validate initial condition
+      if (parameters.initialCondition !== undefined) {
+        const initialCondition = Number(parameters.initialCondition);
+        if (isNaN(initialCondition)) {
+          errors.push('initialCondition must be a number');
+        } else {
+          sanitized.initialCondition = initialCondition;
+        }
+      } else {
+        sanitized.initialCondition = defaults.initialCondition;
+      }
+      
+      if (blockType === BlockTypes.DISCRETE_INTEGRATOR) {
+        // Validate gain
+        if (parameters.gain !== undefined) {
+          const gain = Number(parameters.gain);
+          if (isNaN(gain)) {
+            errors.push('gain must be a number');
+          } else {
+            sanitized.gain = gain;
+          }
+        } else {
+          sanitized.gain = defaults.gain;
+        }
+        
+        // Limits are optional; leave them out for an unbounded integrator
+        validateOptionalLimits(parameters, sanitized, errors);
+      }
+      
+      validateSampleTime(parameters, sanitized, errors, defaults);
+      break;
+      
+    case BlockTypes.ZERO_ORDER_HOLD:
+      validateSampleTime(parameters, sanitized, errors, defaults);
+      break;
+      
+    case BlockTypes.DISCRETE_TRANSFER_FUNCTION:
+      // Validate numerator array
+      if (parameters.numerator !== undefined) {
+        if (!Array.isArray(parameters.numerator) || parameters.numerator.length == 0) {
+          errors.push('numerator must be a non-empty array of numbers');
+        } else if (!parameters.numerator.every((n: unknown) => typeof n === 'number')) {
+          errors.push('numerator must contain only numbers');
+        } else {
+          sanitized.numerator = parameters.numerator;
+        }
+      } else {
+        errors.push('a numerator coefficient array must be defined');
+      }
+      
+      // Validate denominator array
+      if (parameters.denominator !== undefined) {
+        if (!Array.isArray(parameters.denominator) || parameters.denominator.length == 0) {
+          errors.push('denominator must be a non-empty array of numbers');
+        } else if (!parameters.denominator.every((n: unknown) => typeof n === 'number')) {
+          errors.push('denominator must contain only numbers');
+        } else if (parameters.denominator[0] === 0) {
+          errors.push('denominator leading coefficient cannot be zero');
+        } else {
+          sanitized.denominator = parameters.denominator;
+        }
+      } else {
+        errors.push('a denominator coefficient array must be defined');
+      }
+      
+      // Causal filters need deg(numerator) <= deg(denominator)
+      if (sanitized.numerator && sanitized.denominator &&
+          sanitized.numerator.length > sanitized.denominator.length) {
+        errors.push('numerator order cannot exceed denominator order');
+      }
+      
+      validateSampleTime(parameters, sanitized, errors, defaults);
+      break;
+
+    case BlockTypes.INTEGRATOR:
+      validateNumberParameter('initialCondition', parameters, sanitized, errors, defaults);
+      validateOptionalLimits(parameters, sanitized, errors);
+      sanitized.showResetInput = parameters.showResetInput !== undefined
+        ? Boolean(parameters.showResetInput)
+        : defaults.showResetInput;
+      break;
+      
+    case BlockTypes.DERIVATIVE:
+      validateNumberParameter('filterCoefficient', parameters, sanitized, errors, defaults);
+      if (sanitized.filterCoefficient !== undefined && sanitized.filterCoefficient <= 0) {
+        errors.push('filterCoefficient must be positive');
+      }
+      break;
+      
+    case BlockTypes.PID:
+      if (parameters.form !== undefined && !['parallel', 'ideal'].includes(parameters.form)) {
+        errors.push('form must be one of: parallel, ideal');
+      } else {
+        sanitized.form = parameters.form ?? defaults.form;
+      }
+      validateNumberParameter('kp', parameters, sanitized, errors, defaults);
+      validateNumberParameter('ki', parameters, sanitized, errors, defaults);
+      validateNumberParameter('kd', parameters, sanitized, errors, defaults);
+      validateNumberParameter('filterCoefficient', parameters, sanitized, errors, defaults);
+      if (sanitized.filterCoefficient !== undefined && sanitized.filterCoefficient <= 0) {
+        errors.push('filterCoefficient must be positive');
+      }
+      validateOptionalLimits(parameters, sanitized, errors);
+      if (parameters.antiWindup !== undefined && !['none', 'clamping', 'back_calculation'].includes(parameters.antiWindup)) {
+        errors.push('antiWindup must be one of: none, clamping, back_calculation');
+      } else {
+        sanitized.antiWindup = parameters.antiWindup ?? defaults.antiWindup;
+      }
+      validateNumberParameter('backCalculationGain', parameters, sanitized, errors, defaults);
+      validateNumberParameter('initialCondition', parameters, sanitized, errors, defaults);
+      sanitized.showResetInput = parameters.showResetInput !== undefined
+        ? Boolean(parameters.showResetInput)
+        : defaults.showResetInput;
+      break;
+      
+    case BlockTypes.RATE_LIMITER:
+      validateNumberParameter('risingSlewRate', parameters, sanitized, errors, defaults);
+      validateNumberParameter('fallingSlewRate', parameters, sanitized, errors, defaults);
+      validateNumberParameter('initialCondition', parameters, sanitized, errors, defaults);
+      if (sanitized.risingSlewRate !== undefined && sanitized.risingSlewRate < 0) {
+        errors.push('risingSlewRate must not be negative');
+      }
+      if (sanitized.fallingSlewRate !== undefined && sanitized.fallingSlewRate > 0) {
+        errors.push('fallingSlewRate must not be positive');
+      }
+      validateSampleTime(parameters, sanitized, errors, defaults);
+      break;
+      
+    case BlockTypes.SATURATION:
+      validateNumberParameter('upperLimit', parameters, sanitized, errors, defaults);
+      validateNumberParameter('lowerLimit', parameters, sanitized, errors, defaults);
+      if (sanitized.lowerLimit > sanitized.upperLimit) {
+        errors.push('lowerLimit must not be greater than upperLimit');
+      }
+      break;
+      
+    case BlockTypes.DEAD_ZONE:
+      validateNumberParameter('start', parameters, sanitized, errors, defaults);
+      validateNumberParameter('end', parameters, sanitized, errors, defaults);
+      if (sanitized.start > sanitized.end) {
+        errors.push('start must not be greater than end');
+      }
+      break;
+      
+    case BlockTypes.QUANTIZER:
+      validateNumberParameter('interval', parameters, sanitized, errors, defaults);
+      if (sanitized.interval !== undefined && sanitized.interval <= 0) {
+        errors.push('interval must be positive');
+      }
+      break;
+
+    case BlockTypes.DATA_TYPE_CONVERSION:
+      if (parameters.outputDataType !== undefined) {
+        if (!isValidType(parameters.outputDataType)) {
+          errors.push(`Invalid outputDataType: ${getTypeValidationError(parameters.outputDataType)}`);
+        } else {
+          const parsed = parseType(parameters.outputDataType);
+          if (parsed.isArray || parsed.isMatrix || parsed.baseType === 'bool' || parsed.baseType === 'long') {
+            errors.push('outputDataType must be a scalar double, float, integer or fixed-point type');
+          } else {
+            sanitized.outputDataType = parameters.outputDataType;
+          }
+        }
+      } else {
+        sanitized.outputDataType = defaults.outputDataType;
+      }
+      if (parameters.rounding !== undefined && !FIXED_POINT_ROUNDING_MODES.includes(parameters.rounding)) {
+        errors.push(`rounding must be one of: ${FIXED_POINT_ROUNDING_MODES.join(', ')}`);
+      } else {
+        sanitized.rounding = parameters.rounding ?? defaults.rounding;
+      }
+      sanitized.saturateOnOverflow = parameters.saturateOnOverflow !== undefined
+        ? Boolean(parameters.saturateOnOverflow)
+        : defaults.saturateOnOverflow;
+      break;
+
     case BlockTypes.TRIG:
       if (parameters.function !== undefined) {
         if (typeof parameters.function !== 'string') {
@@ -415,6 +599,10 @@ export function validateBlockParameters(
       } else {
         sanitized.linkedSheetId = defaults.linkedSheetId;
       }
+      // Optional sample time inherited by the blocks inside
+      if (parameters.sampleTime !== undefined) {
+        validateSampleTime(parameters, sanitized, errors, defaults);
+      }
       break;
 
     case BlockTypes.CONDITION:
@@ -455,6 +643,154 @@ export function validateBlockParameters(
     case BlockTypes.IF:
       // type validation performed at connection time
       break;
+
+    case BlockTypes.MULTIPORT_SWITCH:
+    case BlockTypes.MERGE:
+      if (parameters.numInputs !== undefined) {
+        const num = Number(parameters.numInputs);
+        if (!Number.isInteger(num) || num < 1 || num > 32) {
+          errors.push('numInputs must be an integer between 1 and 32');
+        } else {
+          sanitized.numInputs = num;
+        }
+      } else {
+        sanitized.numInputs = defaults.numInputs;
+      }
+      if (blockType === BlockTypes.MULTIPORT_SWITCH) {
+        if (parameters.indexBase !== undefined && !['one', 'zero'].includes(parameters.indexBase)) {
+          errors.push('indexBase must be one of: one, zero');
+        } else {
+          sanitized.indexBase = parameters.indexBase ?? defaults.indexBase;
+        }
+      } else if (parameters.initialOutput !== undefined) {
+        if (typeof parameters.initialOutput !== 'number' || !isFinite(parameters.initialOutput)) {
+          errors.push('initialOutput must be a finite number');
+        } else {
+          sanitized.initialOutput = parameters.initialOutput;
+        }
+      } else {
+        sanitized.initialOutput = defaults.initialOutput;
+      }
+      break;
+
+    case BlockTypes.SWITCH_CASE:
+      if (parameters.cases !== undefined) {
+        const cases = Array.isArray(parameters.cases) ? parameters.cases : null;
+        const values = cases?.flatMap((entry: unknown) => Array.isArray(entry) ? entry : [entry]);
+        if (!cases || cases.length === 0 || cases.some((entry: unknown) => Array.isArray(entry) && entry.length === 0)) {
+          errors.push('cases must be a non-empty array of integers or integer arrays');
+        } else if (!values!.every((value: unknown) => Number.isInteger(value))) {
+          errors.push('case values must be integers');
+        } else if (new Set(values).size !== values!.length) {
+          errors.push('case values must not repeat across cases');
+        } else {
+          sanitized.cases = parameters.cases;
+        }
+      } else {
+        sanitized.cases = defaults.cases;
+      }
+      sanitized.showDefaultCase = parameters.showDefaultCase !== undefined
+        ? Boolean(parameters.showDefaultCase)
+        : defaults.showDefaultCase;
+      break;
+
+    case BlockTypes.STATE_CHART: {
+      const chart = { ...defaults, ...parameters };
+      if (!Array.isArray(chart.inputs) || !Array.isArray(chart.outputs) ||
+          !Array.isArray(chart.states) || !Array.isArray(chart.transitions)) {
+        errors.push('inputs, outputs, states and transitions must be arrays');
+        break;
+      }
+      const chartErrors = StateChartBlockModule.validate(StateChartBlockModule.getDefinition(chart));
+      if (chartErrors.length > 0) {
+        errors.push(...chartErrors);
+      } else {
+        sanitized.inputs = chart.inputs;
+        sanitized.outputs = chart.outputs;
+        sanitized.states = chart.states;
+        sanitized.transitions = chart.transitions;
+        sanitized.initialState = chart.initialState;
+      }
+      break;
+    }
+
+    case BlockTypes.RELATIONAL_OPERATOR:
+      if (parameters.operator !== undefined && !RELATIONAL_OPERATORS.includes(parameters.operator)) {
+        errors.push(`operator must be one of: ${RELATIONAL_OPERATORS.join(', ')}`);
+      } else {
+        sanitized.operator = parameters.operator ?? defaults.operator;
+      }
+      break;
+
+    case BlockTypes.LOGICAL_OPERATOR:
+    case BlockTypes.BITWISE_OPERATOR: {
+      const operators: readonly string[] = blockType === BlockTypes.LOGICAL_OPERATOR ? LOGICAL_OPERATORS : BITWISE_OPERATORS;
+      if (parameters.operator !== undefined && !operators.includes(parameters.operator)) {
+        errors.push(`operator must be one of: ${operators.join(', ')}`);
+      } else {
+        sanitized.operator = parameters.operator ?? defaults.operator;
+      }
+      if (parameters.numInputs !== undefined) {
+        const num = Number(parameters.numInputs);
+        if (!Number.isInteger(num) || num < 2 || num > 32) {
+          errors.push('numInputs must be an integer between 2 and 32');
+        } else {
+          sanitized.numInputs = num;
+        }
+      } else {
+        sanitized.numInputs = defaults.numInputs;
+      }
+      if (blockType === BlockTypes.BITWISE_OPERATOR) {
+        sanitized.useBitMask = parameters.useBitMask !== undefined
+          ? Boolean(parameters.useBitMask)
+          : defaults.useBitMask;
+        const bitMask = parameters.bitMask ?? defaults.bitMask;
+        try {
+          BitwiseOperatorBlockModule.parseBitMask(bitMask);
+          sanitized.bitMask = bitMask;
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
+        }
+        if (sanitized.useBitMask && sanitized.operator === 'NOT') {
+          errors.push('NOT cannot be combined with a bit mask');
+        }
+      }
+      break;
+    }
+
+    case BlockTypes.EVALUATE:
+      for (const name of ['numInputs', 'numOutputs']) {
+        if (parameters[name] !== undefined) {
+          const num = Number(parameters[name]);
+          if (!Number.isInteger(num) || num < 1 || num > 32) {
+            errors.push(`${name} must be an integer between 1 and 32`);
+          } else {
+            sanitized[name] = num;
+          }
+        } else {
+          sanitized[name] = defaults[name];
+        }
+      }
+      if (parameters.expression !== undefined) {
+        if (typeof parameters.expression !== 'string') {
+          errors.push('expression must be a string');
+        } else {
+          // Only the syntax: workspace variables and input sizes are checked with the model
+          try {
+            if (isOutputAssignmentList(parameters.expression)) {
+              parseC99OutputAssignments(parameters.expression);
+            } else {
+              parseC99Expression(parameters.expression);
+            }
+            sanitized.expression = parameters.expression;
+          } catch (error) {
+            errors.push(`expression: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      } else {
+        sanitized.expression = defaults.expression;
+      }
+      break;
       
     default:
       errors.push(`No validation rules defined for block type: ${blockType}`);
@@ -467,6 +803,77 @@ export function validateBlockParameters(
   };
 }
 
+/**
+ * Validate the sample time of a discrete block.
+ * -1 (or any non-positive value) inherits the simulation time step.
+ */
+function validateSampleTime(
+  parameters: Record<string, unknown>,
+  sanitized: Record<string, unknown>,
+  errors: string[],
+  defaults: Record<string, unknown>
+): void {
+  if (parameters.sampleTime !== undefined) {
+    const sampleTime = Number(parameters.sampleTime);
+    if (isNaN(sampleTime)) {
+      errors.push('sampleTime must be a number');
+    } else if (sampleTime !== -1 && sampleTime <= 0) {
+      errors.push('sampleTime must be positive, or -1 to inherit the simulation time step');
+    } else {
+      sanitized.sampleTime = sampleTime;
+    }
+  } else {
+    sanitized.sampleTime = defaults.sampleTime;
+  }
+}
+
+/**
+ * Validate a numeric parameter, falling back to its default when missing.
+ */
+function validateNumberParameter(
+  name: string,
+  parameters: Record<string, unknown>,
+  sanitized: Record<string, any>,
+  errors: string[],
+  defaults: Record<string, unknown>
+): void {
+  if (parameters[name] !== undefined) {
+    const value = Number(parameters[name]);
+    if (isNaN(value)) {
+      errors.push(`${name} must be a number`);
+    } else {
+      sanitized[name] = value;
+    }
+  } else {
+    sanitized[name] = defaults[name];
+  }
+}
+
+/**
+ * Validate optional lowerLimit/upperLimit parameters; missing or empty
+ * limits leave the signal unbounded on that side.
+ */
+function validateOptionalLimits(
+  parameters: Record<string, unknown>,
+  sanitized: Record<string, any>,
+  errors: string[]
+): void {
+  for (const limit of ['lowerLimit', 'upperLimit']) {
+    if (parameters[limit] !== undefined && parameters[limit] !== null && parameters[limit] !== '') {
+      const value = Number(parameters[limit]);
+      if (isNaN(value)) {
+        errors.push(`${limit} must be a number`);
+      } else {
+        sanitized[limit] = value;
+      }
+    }
+  }
+  if (sanitized.lowerLimit !== undefined && sanitized.upperLimit !== undefined &&
+      sanitized.lowerLimit > sanitized.upperLimit) {
+    errors.push('lowerLimit must not be greater than upperLimit');
+  }
+}
+
 /**
  * Validate C-style identifier
  */
@@ -27,9 +27,23 @@ export const BlockTypes = {
   ABS: 'abs',
   UMINUS: 'uminus',
   EVALUATE: 'evaluate',
+  SATURATION: 'saturation',
+  DEAD_ZONE: 'dead_zone',
+  QUANTIZER: 'quantizer',
+  DATA_TYPE_CONVERSION: 'data_type_conversion',
   
   // Dynamic blocks
   TRANSFER_FUNCTION: 'transfer_function',
+  INTEGRATOR: 'integrator',
+  DERIVATIVE: 'derivative',
+  PID: 'pid',
+  RATE_LIMITER: 'rate_limiter',
+  
+  // Discrete blocks
+  UNIT_DELAY: 'unit_delay',
+  ZERO_ORDER_HOLD: 'zero_order_hold',
+  DISCRETE_TRANSFER_FUNCTION: 'discrete_transfer_function',
+  DISCRETE_INTEGRATOR: 'discrete_integrator',
   
   // Lookup blocks
   LOOKUP_1D: 'lookup_1d',
@@ -60,6 +74,13 @@ export const BlockTypes = {
   // Control blocks
   IF: 'if',
   CONDITION: 'condition',
+  MULTIPORT_SWITCH: 'multiport_switch',
+  SWITCH_CASE: 'switch_case',
+  MERGE: 'merge',
+  STATE_CHART: 'state_chart',
+  RELATIONAL_OPERATOR: 'relational_operator',
+  LOGICAL_OPERATOR: 'logical_operator',
+  BITWISE_OPERATOR: 'bitwise_operator',
   
 
 } as const;
@@ -142,6 +163,7 @@ export const blockTypeRegistry: Record<BlockType, BlockTypeDefinition> = {
     category: 'Math',
     defaultParameters: {
       numInputs: 2,
+      numOutputs: 1,
       expression: 'in(0) + in(1)'
     },
     inputs: [
@@ -165,6 +187,119 @@ export const blockTypeRegistry: Record<BlockType, BlockTypeDefinition> = {
     description: 'Laplace transfer function with RK4 integration'
   },
   
+  [BlockTypes.INTEGRATOR]: {
+    type: BlockTypes.INTEGRATOR,
+    displayName: 'Integrator',
+    category: 'Dynamic',
+    defaultParameters: {
+      initialCondition: 0,
+      showResetInput: false
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Continuous integrator with optional reset input and anti-windup limits'
+  },
+  
+  [BlockTypes.DERIVATIVE]: {
+    type: BlockTypes.DERIVATIVE,
+    displayName: 'Derivative',
+    category: 'Dynamic',
+    defaultParameters: {
+      filterCoefficient: 100
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Filtered derivative N·s/(s + N)'
+  },
+  
+  [BlockTypes.PID]: {
+    type: BlockTypes.PID,
+    displayName: 'PID Controller',
+    category: 'Dynamic',
+    defaultParameters: {
+      form: 'parallel', // 'parallel' or 'ideal'
+      kp: 1,
+      ki: 0,
+      kd: 0,
+      filterCoefficient: 100,
+      antiWindup: 'clamping', // 'none', 'clamping' or 'back_calculation'
+      backCalculationGain: 1,
+      initialCondition: 0,
+      showResetInput: false
+    },
+    inputs: [{ name: 'error' }],
+    outputs: [{ name: 'output' }],
+    description: 'PID controller with filtered derivative, output limits and anti-windup'
+  },
+  
+  [BlockTypes.RATE_LIMITER]: {
+    type: BlockTypes.RATE_LIMITER,
+    displayName: 'Rate Limiter',
+    category: 'Dynamic',
+    defaultParameters: {
+      risingSlewRate: 1,
+      fallingSlewRate: -1,
+      initialCondition: 0,
+      sampleTime: -1
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Limits the rising and falling rate of change of the input'
+  },
+  
+  [BlockTypes.UNIT_DELAY]: {
+    type: BlockTypes.UNIT_DELAY,
+    displayName: 'Unit Delay',
+    category: 'Discrete',
+    defaultParameters: {
+      initialCondition: 0,
+      sampleTime: -1
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Delays the input by one sample period (z^-1)'
+  },
+  
+  [BlockTypes.ZERO_ORDER_HOLD]: {
+    type: BlockTypes.ZERO_ORDER_HOLD,
+    displayName: 'Zero-Order Hold',
+    category: 'Discrete',
+    defaultParameters: {
+      sampleTime: -1
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Samples the input and holds it for one sample period'
+  },
+  
+  [BlockTypes.DISCRETE_TRANSFER_FUNCTION]: {
+    type: BlockTypes.DISCRETE_TRANSFER_FUNCTION,
+    displayName: 'Discrete Transfer Function',
+    category: 'Discrete',
+    defaultParameters: {
+      numerator: [1],
+      denominator: [1, -0.5],
+      sampleTime: -1
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Z-domain transfer function in transposed direct form II'
+  },
+  
+  [BlockTypes.DISCRETE_INTEGRATOR]: {
+    type: BlockTypes.DISCRETE_INTEGRATOR,
+    displayName: 'Discrete Integrator',
+    category: 'Discrete',
+    defaultParameters: {
+      gain: 1,
+      initialCondition: 0,
+      sampleTime: -1
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Forward Euler integrator with optional output limits'
+  },
+  
   [BlockTypes.LOOKUP_1D]: {
     type: BlockTypes.LOOKUP_1D,
     displayName: '1-D Lookup',
@@ -412,6 +547,128 @@ export const blockTypeRegistry: Record<BlockType, BlockTypeDefinition> = {
     description: 'Compares input signal against a constant value'
   },
 
+  [BlockTypes.MULTIPORT_SWITCH]: {
+    type: BlockTypes.MULTIPORT_SWITCH,
+    displayName: 'Multiport Switch',
+    category: 'Control',
+    defaultParameters: {
+      numInputs: 3,
+      indexBase: 'one'
+    },
+    inputs: [
+      { name: 'index' },
+      { name: 'input1' },
+      { name: 'input2' },
+      { name: 'input3' }
+    ], // Dynamic based on numInputs
+    outputs: [{ name: 'output' }],
+    description: 'Passes the data input selected by the index input; out-of-range indices select the first or last input'
+  },
+
+  [BlockTypes.SWITCH_CASE]: {
+    type: BlockTypes.SWITCH_CASE,
+    displayName: 'Switch Case',
+    category: 'Control',
+    defaultParameters: {
+      cases: [1, 2],
+      showDefaultCase: true
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [
+      { name: 'case1' },
+      { name: 'case2' },
+      { name: 'default' }
+    ], // Dynamic based on cases
+    description: 'Sets the boolean output of the case matching the integer input, or the default output, to drive action subsystems'
+  },
+
+  [BlockTypes.MERGE]: {
+    type: BlockTypes.MERGE,
+    displayName: 'Merge',
+    category: 'Control',
+    defaultParameters: {
+      numInputs: 2,
+      initialOutput: 0
+    },
+    inputs: [
+      { name: 'input1' },
+      { name: 'input2' }
+    ], // Dynamic based on numInputs
+    outputs: [{ name: 'output' }],
+    description: 'Outputs the input updated most recently, holding it while the enabled subsystems driving it are disabled'
+  },
+
+  [BlockTypes.STATE_CHART]: {
+    type: BlockTypes.STATE_CHART,
+    displayName: 'State Chart',
+    category: 'Control',
+    defaultParameters: {
+      inputs: ['u'],
+      outputs: [{ name: 'y', initialValue: 0 }],
+      states: [
+        { name: 'Off', entry: 'y = 0', during: '', exit: '', position: { x: 40, y: 60 } },
+        { name: 'On', entry: 'y = 1', during: '', exit: '', position: { x: 280, y: 60 } }
+      ],
+      transitions: [
+        { from: 'Off', to: 'On', guard: 'u > 0.5', action: '' },
+        { from: 'On', to: 'Off', guard: 'u < -0.5', action: '' }
+      ],
+      initialState: 'Off'
+    },
+    inputs: [{ name: 'u' }], // Dynamic based on the chart inputs
+    outputs: [{ name: 'y' }], // Dynamic based on the chart outputs
+    description: 'Mode logic as states and transitions with guards and entry, during and exit actions'
+  },
+
+  [BlockTypes.RELATIONAL_OPERATOR]: {
+    type: BlockTypes.RELATIONAL_OPERATOR,
+    displayName: 'Relational Operator',
+    category: 'Control',
+    defaultParameters: {
+      operator: '<='
+    },
+    inputs: [
+      { name: 'a' },
+      { name: 'b' }
+    ],
+    outputs: [{ name: 'output' }],
+    description: 'Compares two signals element-wise (==, !=, <, <=, >, >=), giving a bool signal'
+  },
+
+  [BlockTypes.LOGICAL_OPERATOR]: {
+    type: BlockTypes.LOGICAL_OPERATOR,
+    displayName: 'Logical Operator',
+    category: 'Control',
+    defaultParameters: {
+      operator: 'AND',
+      numInputs: 2
+    },
+    inputs: [
+      { name: 'input1' },
+      { name: 'input2' }
+    ], // Dynamic based on operator and numInputs
+    outputs: [{ name: 'output' }],
+    description: 'Combines signals element-wise with AND, OR, NAND, NOR, XOR or NOT, treating nonzero values as true'
+  },
+
+  [BlockTypes.BITWISE_OPERATOR]: {
+    type: BlockTypes.BITWISE_OPERATOR,
+    displayName: 'Bitwise Operator',
+    category: 'Control',
+    defaultParameters: {
+      operator: 'AND',
+      numInputs: 2,
+      useBitMask: false,
+      bitMask: '0xFF'
+    },
+    inputs: [
+      { name: 'input1' },
+      { name: 'input2' }
+    ], // Dynamic based on operator, numInputs and useBitMask
+    outputs: [{ name: 'output' }],
+    description: 'Combines the bits of integer signals element-wise with AND, OR, XOR or NOT, or with a bit mask'
+  },
+
   [BlockTypes.ABS]: {
     type: BlockTypes.ABS,
     displayName: 'Absolute Value',
@@ -431,6 +688,58 @@ export const blockTypeRegistry: Record<BlockType, BlockTypeDefinition> = {
     outputs: [{ name: 'output' }],
     description: 'Negates input (element-wise for vectors/matrices)'
   },
+
+  [BlockTypes.SATURATION]: {
+    type: BlockTypes.SATURATION,
+    displayName: 'Saturation',
+    category: 'Math',
+    defaultParameters: {
+      upperLimit: 1,
+      lowerLimit: -1
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Limits input to upper and lower bounds (element-wise for vectors/matrices)'
+  },
+
+  [BlockTypes.DEAD_ZONE]: {
+    type: BlockTypes.DEAD_ZONE,
+    displayName: 'Dead Zone',
+    category: 'Math',
+    defaultParameters: {
+      start: -0.5,
+      end: 0.5
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Zero output inside the dead zone, offset input outside it'
+  },
+
+  [BlockTypes.QUANTIZER]: {
+    type: BlockTypes.QUANTIZER,
+    displayName: 'Quantizer',
+    category: 'Math',
+    defaultParameters: {
+      interval: 0.5
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Rounds input to the nearest multiple of the quantization interval'
+  },
+
+  [BlockTypes.DATA_TYPE_CONVERSION]: {
+    type: BlockTypes.DATA_TYPE_CONVERSION,
+    displayName: 'Data Type Conversion',
+    category: 'Math',
+    defaultParameters: {
+      outputDataType: 'int16',
+      rounding: 'floor',
+      saturateOnOverflow: true
+    },
+    inputs: [{ name: 'input' }],
+    outputs: [{ name: 'output' }],
+    description: 'Converts input to another data type, rounding and saturating or wrapping (element-wise for vectors/matrices)'
+  },
   
 };
 
@@ -520,6 +829,60 @@ export function generateDynamicPorts(type: BlockType, parameters: any): {
     };
   }
 
+  if (type === BlockTypes.MULTIPORT_SWITCH || type === BlockTypes.MERGE) {
+    const numInputs = parameters.numInputs || (type === BlockTypes.MERGE ? 2 : 3)
+    const inputs: PortDefinition[] = type === BlockTypes.MULTIPORT_SWITCH ? [{ name: 'index' }] : []
+    
+    for (let i = 1; i <= numInputs; i++) {
+      inputs.push({ name: `input${i}` })
+    }
+    
+    return {
+      inputs,
+      outputs: baseDefinition.outputs
+    }
+  }
+
+  if (type === BlockTypes.SWITCH_CASE) {
+    const cases = Array.isArray(parameters.cases) ? parameters.cases : [1, 2]
+    const outputs: PortDefinition[] = cases.map((_: unknown, i: number) => ({ name: `case${i + 1}` }))
+    if (parameters.showDefaultCase ?? true) {
+      outputs.push({ name: 'default' })
+    }
+    
+    return {
+      inputs: baseDefinition.inputs,
+      outputs
+    }
+  }
+
+  if (type === BlockTypes.STATE_CHART) {
+    const inputs: string[] = Array.isArray(parameters.inputs) ? parameters.inputs : []
+    const outputs: { name: string }[] = Array.isArray(parameters.outputs) ? parameters.outputs : []
+    
+    return {
+      inputs: inputs.map(name => ({ name })),
+      outputs: outputs.map(output => ({ name: output.name }))
+    }
+  }
+
+  if (type === BlockTypes.LOGICAL_OPERATOR || type === BlockTypes.BITWISE_OPERATOR) {
+    // NOT and a bit mask act on a single input
+    const singleInput = parameters.operator === 'NOT' ||
+      (type === BlockTypes.BITWISE_OPERATOR && parameters.useBitMask)
+    const numInputs = singleInput ? 1 : (parameters.numInputs || 2)
+    const inputs: PortDefinition[] = []
+    
+    for (let i = 1; i <= numInputs; i++) {
+      inputs.push({ name: `input${i}` })
+    }
+    
+    return {
+      inputs,
+      outputs: baseDefinition.outputs
+    }
+  }
+
   if (type === BlockTypes.EVALUATE) {
     const numInputs = parameters.numInputs || 2
     const inputs: PortDefinition[] = []
@@ -527,10 +890,16 @@ export function generateDynamicPorts(type: BlockType, parameters: any): {
     for (let i = 0; i < numInputs; i++) {
       inputs.push({ name: `in${i}` })
     }
+
+    // With several outputs each one is assigned as out(n) = ...
+    const numOutputs = parameters.numOutputs || 1
+    const outputs: PortDefinition[] = numOutputs > 1
+      ? Array.from({ length: numOutputs }, (_, k) => ({ name: `out${k}` }))
+      : baseDefinition.outputs
     
     return {
       inputs,
-      outputs: baseDefinition.outputs
+      outputs
     }
   }
   
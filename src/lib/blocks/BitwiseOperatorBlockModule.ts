@@ -0,0 +1,162 @@
+// lib/blocks/BitwiseOperatorBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { SignalValue } from '@/lib/modelSchema'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { FixedPointFormat } from '@/lib/typeValidator'
+
+export const BITWISE_OPERATORS = ['AND', 'OR', 'XOR', 'NOT'] as const
+export type BitwiseOperator = typeof BITWISE_OPERATORS[number]
+
+/**
+ * Integer base types a Bitwise Operator accepts. long is a 64-bit
+ * signed integer on the targets the generated code runs on.
+ */
+export const BITWISE_INTEGER_TYPES = ['long', 'int8', 'int16', 'int32', 'uint8', 'uint16', 'uint32']
+
+/**
+ * Bitwise Operator: combines the bits of integer signals element-wise,
+ * e.g. to pack or test flags. The inputs all have the same integer type,
+ * which is also the output type. With a bit mask the block has a single
+ * input, combined with the mask instead of with other inputs.
+ */
+export class BitwiseOperatorBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const { operator, bitMask } = BitwiseOperatorBlockModule.getOptions(block.parameters || {})
+
+    let code = `    // Bitwise Operator block: ${block.name} (${operator})\n`
+    if (inputs.length === 0) {
+      code += `    // Error: Bitwise Operator block has no inputs\n`
+      return code
+    }
+
+    const types = inputs.map((_, k) => inputTypes?.[k] || 'long')
+    const outputType = this.getOutputType(block, types)
+    const cType = CCodeBuilder.getCType(BlockModuleUtils.parseType(outputType))
+    const mask = bitMask !== null ? `0x${bitMask.toString(16).toUpperCase()}UL` : null
+
+    code += BlockModuleUtils.generateElementWiseCombination(outputName, outputType, inputs, types, elements => {
+      const operands = mask ? [elements[0], mask] : elements
+      const expression = operator === 'NOT'
+        ? `~${operands[0]}`
+        : operands.join(` ${BitwiseOperatorBlockModule.C_OPERATORS[operator]} `)
+      // Narrow the promoted result back to the output width
+      return `(${cType})(${expression})`
+    })
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    return BlockModuleUtils.getElementWiseType(inputTypes) || inputTypes[0] || 'long'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    if (inputs.length === 0) {
+      blockState.outputs[0] = 0
+      return
+    }
+
+    const { operator, bitMask } = BitwiseOperatorBlockModule.getOptions(blockState.internalState || {})
+    const format = blockState.outputTypes?.[0]?.fixedPoint
+    blockState.outputs[0] = BlockModuleUtils.combineSignals(
+      bitMask !== null ? [inputs[0], bitMask] : inputs,
+      elements => BitwiseOperatorBlockModule.evaluate(operator, elements, format)
+    ) as SignalValue
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return BitwiseOperatorBlockModule.getOptions(block.parameters || {}).numInputs
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  private static readonly C_OPERATORS: Record<Exclude<BitwiseOperator, 'NOT'>, string> = {
+    AND: '&',
+    OR: '|',
+    XOR: '^'
+  }
+
+  /**
+   * Apply a bitwise operator to one element of each input, wrapping the
+   * result into the integer format like the cast in the generated code.
+   * Without a format the values are 64-bit signed (long).
+   */
+  static evaluate(operator: BitwiseOperator, values: number[], format?: FixedPointFormat): number {
+    const operands = values.map(value => BigInt(Math.trunc(value)))
+    let result: bigint
+    switch (operator) {
+      case 'AND':
+        result = operands.reduce((a, b) => a & b)
+        break
+      case 'OR':
+        result = operands.reduce((a, b) => a | b)
+        break
+      case 'XOR':
+        result = operands.reduce((a, b) => a ^ b)
+        break
+      case 'NOT':
+        result = ~operands[0]
+        break
+    }
+    const bits = format?.wordLength ?? 64
+    return Number(format && !format.signed ? BigInt.asUintN(bits, result) : BigInt.asIntN(bits, result))
+  }
+
+  /**
+   * Parse a bit mask given as a number or a decimal or 0x hex string.
+   * Returns null for an empty mask.
+   */
+  static parseBitMask(value: unknown): number | null {
+    if (value === undefined || value === null || String(value).trim() === '') {
+      return null
+    }
+    const mask = Number(String(value).trim())
+    if (!Number.isSafeInteger(mask) || mask < 0) {
+      throw new Error(`Bit mask must be a non-negative integer, got '${value}'`)
+    }
+    return mask
+  }
+
+  static getOptions(params: { operator?: string, numInputs?: number, useBitMask?: boolean, bitMask?: unknown }): {
+    operator: BitwiseOperator,
+    numInputs: number,
+    bitMask: number | null
+  } {
+    const operator = BITWISE_OPERATORS.includes(params.operator as BitwiseOperator)
+      ? params.operator as BitwiseOperator
+      : 'AND'
+    let bitMask: number | null = null
+    if (params.useBitMask && operator !== 'NOT') {
+      try {
+        bitMask = BitwiseOperatorBlockModule.parseBitMask(params.bitMask)
+      } catch {
+        // Reported by the parameter validator; the block runs without the mask
+      }
+    }
+    const numInputs = operator === 'NOT' || bitMask !== null
+      ? 1
+      : Math.max(2, Math.floor(Number(params.numInputs) || 2))
+    return { operator, numInputs, bitMask }
+  }
+}
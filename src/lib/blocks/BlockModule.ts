@@ -2,7 +2,8 @@
 
 import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
-import { parseType, normalizeType, isValidType } from '@/lib/typeValidator'
+import { parseType, normalizeType, isValidType, FixedPointFormat } from '@/lib/typeValidator'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
 
 /**
  * Interface for block-specific code generation and simulation modules.
@@ -53,9 +54,10 @@ export interface IBlockModule {
   /**
    * Generate initialization code for this block (optional).
    * @param block - The block data
+   * @param outputType - The propagated output type, when known
    * @returns C code for initialization or undefined if not needed
    */
-  generateInitialization?(block: BlockData): string
+  generateInitialization?(block: BlockData, outputType?: string): string
 
   /**
    * Execute the simulation logic for this block.
@@ -125,6 +127,83 @@ export interface IBlockModule {
     inputs: (number | number[] | boolean | boolean[] | number[][])[],
     time: number
   ): number[] | undefined
+
+  /**
+   * Get the number of continuous states per signal element (optional).
+   * Blocks implementing this store their states as
+   * `<name>_states[order]`, `<name>_states[n][order]` or
+   * `<name>_states[rows][cols][order]` for scalar, vector and matrix signals.
+   * @param block - The block data containing parameters
+   * @returns Number of states integrated for each element
+   */
+  getContinuousStateOrder?(block: BlockData): number
+
+  /**
+   * Generate C code for this block's state derivatives (optional).
+   * Emitted in the derivatives function, which writes to `state_derivatives`.
+   * @param block - The block data containing parameters
+   * @param inputExpr - C expression for the first input (e.g. "signals->Sum1")
+   * @param stateAccessor - Pointer name of the states being differentiated
+   * @param outputType - The C type string of the block output
+   * @returns C code that fills the block's state derivatives
+   */
+  generateStateDerivative?(
+    block: BlockData,
+    inputExpr: string,
+    stateAccessor: string,
+    outputType: string
+  ): string
+
+  /**
+   * Apply limits and resets to continuous states after integration (optional).
+   * Called once per time step after the integrator has updated the states.
+   *
+   * @param blockState - The current state of the block
+   * @param inputs - Array of input values from the start of the step
+   * @param simulationState - The global simulation state
+   */
+  constrainStates?(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void
+
+  /**
+   * Generate C code that applies limits and resets to continuous states
+   * after integration (optional). Placed in the step function right after
+   * the state update, where model->signals still holds the step's inputs.
+   * @param block - The block data containing parameters
+   * @param inputs - Array of C expressions for input values
+   * @param inputTypes - Optional array of C type strings for inputs
+   * @returns C code that constrains the block's states
+   */
+  generateStateConstraints?(block: BlockData, inputs: string[], inputTypes?: string[]): string
+
+  /**
+   * Update discrete states for this block (optional).
+   * Called once per time step on the block's sample hits, after all outputs
+   * have been computed. Outputs must not be changed here.
+   *
+   * @param blockState - The current state of the block
+   * @param inputs - Array of input values at the current sample
+   * @param simulationState - The global simulation state
+   */
+  updateDiscreteStates?(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void
+
+  /**
+   * Generate C code that updates this block's discrete states (optional).
+   * The caller places this code in the step function after state
+   * integration and guards it with the block's sample hit condition.
+   * @param block - The block data containing parameters
+   * @param inputs - Array of C expressions for input values
+   * @param inputTypes - Optional array of C type strings for inputs
+   * @returns C code that computes the next discrete state
+   */
+  generateDiscreteUpdate?(block: BlockData, inputs: string[], inputTypes?: string[]): string
 }
 
 /**
@@ -151,6 +230,29 @@ export class BlockModuleUtils {
     return safe
   }
 
+  /**
+   * Name of the signals struct member holding one output of a block.
+   * Blocks with several outputs store each in its own member, suffixed
+   * with the port index.
+   */
+  static getOutputSignalName(blockName: string, portIndex: number, outputCount: number): string {
+    const safeName = this.sanitizeIdentifier(blockName)
+    return outputCount > 1 ? `${safeName}_${portIndex}` : safeName
+  }
+
+  /**
+   * Generate a C expression reading the first element of a signal as a
+   * double, with fixed-point stored integers scaled to their real values
+   */
+  static generateScalarValue(expr: string, typeString: string): string {
+    const typeInfo = this.parseType(typeString)
+    const element = typeInfo.isMatrix ? '[0][0]' : typeInfo.isArray ? '[0]' : ''
+    const value = `(double)${expr}${element}`
+    return typeInfo.fixedPoint
+      ? `${value} / ${this.formatDouble(Math.pow(2, typeInfo.fixedPoint.fractionLength))}`
+      : value
+  }
+
   /**
    * Parse a C type string to extract base type and dimensions
    * Now uses the typeValidator for consistent parsing
@@ -162,6 +264,7 @@ export class BlockModuleUtils {
     isMatrix: boolean
     rows?: number
     cols?: number
+    fixedPoint?: FixedPointFormat
   } {
     try {
       const parsed = parseType(typeString)
@@ -171,7 +274,8 @@ export class BlockModuleUtils {
         arraySize: parsed.arraySize,
         isMatrix: parsed.isMatrix || false,
         rows: parsed.rows,
-        cols: parsed.cols
+        cols: parsed.cols,
+        fixedPoint: parsed.fixedPoint
       }
     } catch (error) {
       console.warn(`Failed to parse type "${typeString}":`, error)
@@ -200,14 +304,240 @@ export class BlockModuleUtils {
     }
     
     const parsed = this.parseType(normalizedType)
+    const cType = CCodeBuilder.getCType(parsed)
     
     if (parsed.isMatrix && parsed.rows && parsed.cols) {
-      return `    ${parsed.baseType} ${safeName}[${parsed.rows}][${parsed.cols}];`
+      return `    ${cType} ${safeName}[${parsed.rows}][${parsed.cols}];`
     } else if (parsed.isArray && parsed.arraySize) {
-      return `    ${parsed.baseType} ${safeName}[${parsed.arraySize}];`
+      return `    ${cType} ${safeName}[${parsed.arraySize}];`
+    } else {
+      return `    ${cType} ${safeName};`
+    }
+  }
+
+  /**
+   * Get the sample time of a discrete block.
+   * Returns -1 when the block inherits the base simulation time step.
+   */
+  static getSampleTime(block: BlockData): number {
+    const sampleTime = Number(block.parameters?.sampleTime)
+    return sampleTime > 0 ? sampleTime : -1
+  }
+
+  /**
+   * Check whether the given time is a sample hit for a sample time.
+   * Blocks with an inherited sample time (<= 0) hit on every base step.
+   * Matches the rate counters emitted in generated code.
+   */
+  static isSampleHit(time: number, timeStep: number, sampleTime: number): boolean {
+    if (!(sampleTime > 0) || !(timeStep > 0)) {
+      return true
+    }
+    const period = Math.floor(sampleTime / timeStep + 0.5)
+    const step = Math.floor(time / timeStep + 0.5)
+    return period <= 1 || step % period === 0
+  }
+
+  /**
+   * Generate a C condition that is true on the block's sample hits,
+   * or null if the block runs at the base rate.
+   */
+  static generateSampleHitCondition(block: BlockData): string | null {
+    const sampleTime = this.getSampleTime(block)
+    if (sampleTime <= 0) {
+      return null
+    }
+    return `(model->rates.${this.getRateName(sampleTime)}.counter == 0u)`
+  }
+
+  /**
+   * Get the C identifier of the rate counter for a sample time (e.g. rate_0_02)
+   */
+  static getRateName(sampleTime: number): string {
+    return `rate_${String(sampleTime).replace(/[^0-9a-zA-Z]/g, '_')}`
+  }
+
+  /**
+   * Generate the C expression for a block's effective sample period
+   */
+  static generateSamplePeriod(block: BlockData): string {
+    const sampleTime = this.getSampleTime(block)
+    return sampleTime > 0 ? this.formatDouble(sampleTime) : 'model->dt'
+  }
+
+  /**
+   * Format a number as a C double literal
+   */
+  static formatDouble(value: number): string {
+    const text = String(value)
+    return /[.eE]/.test(text) || !isFinite(value) ? text : `${text}.0`
+  }
+
+  /**
+   * Parse an optional limit parameter; empty or non-numeric values mean unbounded
+   */
+  static parseLimit(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined
+    }
+    const limit = Number(value)
+    return Number.isFinite(limit) ? limit : undefined
+  }
+
+  /**
+   * Clamp a value into optional lower/upper limits
+   */
+  static clamp(value: number, lowerLimit?: number, upperLimit?: number): number {
+    if (upperLimit !== undefined && value > upperLimit) return upperLimit
+    if (lowerLimit !== undefined && value < lowerLimit) return lowerLimit
+    return value
+  }
+
+  /**
+   * Generate a C expression clamping an expression into optional limits
+   */
+  static generateClamp(expr: string, lowerLimit?: number, upperLimit?: number): string {
+    let code = expr
+    if (lowerLimit !== undefined) {
+      code = `fmax(${code}, ${this.formatDouble(lowerLimit)})`
+    }
+    if (upperLimit !== undefined) {
+      code = `fmin(${code}, ${this.formatDouble(upperLimit)})`
+    }
+    return code
+  }
+
+  /**
+   * Flatten a scalar, vector or matrix signal into a list of numbers
+   */
+  static flattenSignal(value: number | number[] | boolean | boolean[] | number[][] | undefined): number[] {
+    if (Array.isArray(value)) {
+      return (value as (number | boolean | number[])[]).flat().map(v => Number(v) || 0)
+    }
+    return [Number(value) || 0]
+  }
+
+  /**
+   * Apply a function element-wise, preserving the shape of the signal.
+   * The callback receives the flat (row-major) element index.
+   */
+  static mapSignal(
+    value: number | number[] | boolean | boolean[] | number[][] | undefined,
+    fn: (element: number, index: number) => number
+  ): number | number[] | number[][] {
+    if (Array.isArray(value) && Array.isArray(value[0])) {
+      const matrix = value as number[][]
+      const cols = matrix[0].length
+      return matrix.map((row, i) => row.map((v, j) => fn(Number(v) || 0, i * cols + j)))
+    } else if (Array.isArray(value)) {
+      return (value as (number | boolean)[]).map((v, i) => fn(Number(v) || 0, i))
+    }
+    return fn(Number(value) || 0, 0)
+  }
+
+  /**
+   * Generate C statements applied to every element of a signal type.
+   * The body callback receives the index suffix ('', '[i]' or '[i][j]')
+   * and returns the statements for one element.
+   */
+  static generateElementLoop(
+    typeInfo: ReturnType<typeof BlockModuleUtils.parseType>,
+    body: (index: string) => string[]
+  ): string {
+    let code = ''
+    
+    if (typeInfo.isMatrix && typeInfo.rows && typeInfo.cols) {
+      code += `    for (int i = 0; i < ${typeInfo.rows}; i++) {\n`
+      code += `        for (int j = 0; j < ${typeInfo.cols}; j++) {\n`
+      for (const line of body('[i][j]')) {
+        code += `            ${line}\n`
+      }
+      code += `        }\n`
+      code += `    }\n`
+    } else if (typeInfo.isArray && typeInfo.arraySize) {
+      code += `    for (int i = 0; i < ${typeInfo.arraySize}; i++) {\n`
+      for (const line of body('[i]')) {
+        code += `        ${line}\n`
+      }
+      code += `    }\n`
     } else {
-      return `    ${parsed.baseType} ${safeName};`
+      for (const line of body('')) {
+        code += `    ${line}\n`
+      }
+    }
+    
+    return code
+  }
+
+  /**
+   * Get the shape of an element-wise combination of signals: the type of
+   * the first vector or matrix input, or of the first input when all are
+   * scalars. Scalars expand to the shape; null if the other vector or
+   * matrix inputs have different dimensions.
+   */
+  static getElementWiseType(inputTypes: string[]): string | null {
+    const parsed = inputTypes.map(type => this.parseType(type))
+    const shaped = parsed.filter(type => type.isArray || type.isMatrix)
+    if (shaped.length === 0) {
+      return inputTypes[0] ?? null
     }
+    const first = shaped[0]
+    const sameShape = shaped.every(type =>
+      type.isMatrix === first.isMatrix &&
+      type.arraySize === first.arraySize &&
+      type.rows === first.rows &&
+      type.cols === first.cols
+    )
+    return sameShape ? inputTypes[parsed.indexOf(first)] : null
+  }
+
+  /**
+   * Combine signals element-wise, expanding scalar inputs to the shape of
+   * the first vector or matrix input. The callback receives one element
+   * of each input, with booleans as 0 or 1.
+   */
+  static combineSignals<T extends number | boolean>(
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    fn: (elements: number[]) => T
+  ): T | T[] | T[][] {
+    const element = (input: unknown, i: number, j: number): number => {
+      if (Array.isArray(input)) {
+        const value = Array.isArray(input[0]) ? (input as unknown[][])[i]?.[j] : input[i]
+        return Number(value) || 0
+      }
+      return Number(input) || 0
+    }
+
+    const shaped = inputs.find(input => Array.isArray(input))
+    if (Array.isArray(shaped) && Array.isArray(shaped[0])) {
+      return (shaped as unknown[][]).map((row, i) =>
+        row.map((_, j) => fn(inputs.map(input => element(input, i, j))))
+      )
+    } else if (Array.isArray(shaped)) {
+      return shaped.map((_, i) => fn(inputs.map(input => element(input, i, 0))))
+    }
+    return fn(inputs.map(input => element(input, 0, 0)))
+  }
+
+  /**
+   * Generate C statements combining signals element-wise into an output,
+   * with scalar inputs expanded to the output shape. The callback
+   * receives one element expression of each input.
+   */
+  static generateElementWiseCombination(
+    outputName: string,
+    outputType: string,
+    inputs: string[],
+    inputTypes: string[],
+    combine: (elements: string[]) => string
+  ): string {
+    const shaped = inputTypes.map(type => {
+      const typeInfo = this.parseType(type)
+      return typeInfo.isArray || typeInfo.isMatrix
+    })
+    return this.generateElementLoop(this.parseType(outputType), index => [
+      `${outputName}${index} = ${combine(inputs.map((input, k) => shaped[k] ? `${input}${index}` : input))};`
+    ])
   }
 
   /**
@@ -1,6 +1,7 @@
 // lib/blocks/BlockModuleFactory.ts
 
-import { IBlockModule } from './BlockModule'
+import { BlockData } from '@/components/BlockNode'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
 import { SumBlockModule } from './SumBlockModule'
 import { MultiplyBlockModule } from './MultiplyBlockModule'
 import { InputPortBlockModule } from './InputPortBlockModule'
@@ -23,6 +24,25 @@ import { IfBlockModule } from './IfBlockModule'
 import { ConditionBlockModule } from './ConditionBlockModule'
 import { AbsoluteValueBlockModule } from './AbsoluteValueBlockModule'
 import { UnaryMinusBlockModule } from './UnaryMinusBlockModule'
+import { UnitDelayBlockModule } from './UnitDelayBlockModule'
+import { ZeroOrderHoldBlockModule } from './ZeroOrderHoldBlockModule'
+import { DiscreteTransferFunctionBlockModule } from './DiscreteTransferFunctionBlockModule'
+import { DiscreteIntegratorBlockModule } from './DiscreteIntegratorBlockModule'
+import { IntegratorBlockModule } from './IntegratorBlockModule'
+import { DerivativeBlockModule } from './DerivativeBlockModule'
+import { PIDBlockModule } from './PIDBlockModule'
+import { SaturationBlockModule } from './SaturationBlockModule'
+import { RateLimiterBlockModule } from './RateLimiterBlockModule'
+import { DeadZoneBlockModule } from './DeadZoneBlockModule'
+import { QuantizerBlockModule } from './QuantizerBlockModule'
+import { DataTypeConversionBlockModule } from './DataTypeConversionBlockModule'
+import { MultiportSwitchBlockModule } from './MultiportSwitchBlockModule'
+import { SwitchCaseBlockModule } from './SwitchCaseBlockModule'
+import { MergeBlockModule } from './MergeBlockModule'
+import { StateChartBlockModule } from './StateChartBlockModule'
+import { RelationalOperatorBlockModule } from './RelationalOperatorBlockModule'
+import { LogicalOperatorBlockModule } from './LogicalOperatorBlockModule'
+import { BitwiseOperatorBlockModule } from './BitwiseOperatorBlockModule'
 
 import { SheetLabelSinkBlockModule } from './SheetLabelSinkBlockModule'
 import { SheetLabelSourceBlockModule } from './SheetLabelSourceBlockModule'
@@ -144,6 +164,63 @@ export class BlockModuleFactory {
 
       case 'uminus':
         return new UnaryMinusBlockModule()
+
+      case 'unit_delay':
+        return new UnitDelayBlockModule()
+
+      case 'zero_order_hold':
+        return new ZeroOrderHoldBlockModule()
+
+      case 'discrete_transfer_function':
+        return new DiscreteTransferFunctionBlockModule()
+
+      case 'discrete_integrator':
+        return new DiscreteIntegratorBlockModule()
+
+      case 'integrator':
+        return new IntegratorBlockModule()
+
+      case 'derivative':
+        return new DerivativeBlockModule()
+
+      case 'pid':
+        return new PIDBlockModule()
+
+      case 'saturation':
+        return new SaturationBlockModule()
+
+      case 'rate_limiter':
+        return new RateLimiterBlockModule()
+
+      case 'dead_zone':
+        return new DeadZoneBlockModule()
+
+      case 'quantizer':
+        return new QuantizerBlockModule()
+
+      case 'data_type_conversion':
+        return new DataTypeConversionBlockModule()
+
+      case 'multiport_switch':
+        return new MultiportSwitchBlockModule()
+
+      case 'switch_case':
+        return new SwitchCaseBlockModule()
+
+      case 'merge':
+        return new MergeBlockModule()
+
+      case 'state_chart':
+        return new StateChartBlockModule()
+
+      case 'relational_operator':
+        return new RelationalOperatorBlockModule()
+
+      case 'logical_operator':
+        return new LogicalOperatorBlockModule()
+
+      case 'bitwise_operator':
+        return new BitwiseOperatorBlockModule()
         
       default:
         return null
@@ -184,9 +261,98 @@ export class BlockModuleFactory {
       'if',
       'condition',
       'abs',
-      'uminus'
+      'uminus',
+      'unit_delay',
+      'zero_order_hold',
+      'discrete_transfer_function',
+      'discrete_integrator',
+      'integrator',
+      'derivative',
+      'pid',
+      'saturation',
+      'rate_limiter',
+      'dead_zone',
+      'quantizer',
+      'data_type_conversion',
+      'multiport_switch',
+      'switch_case',
+      'merge',
+      'state_chart',
+      'relational_operator',
+      'logical_operator',
+      'bitwise_operator'
     ]
   }
+
+  /**
+   * Check whether a block's output depends directly on its current inputs.
+   * Blocks without direct feedthrough (e.g. unit delays) break dependency
+   * chains when ordering execution.
+   */
+  static isDirectFeedthrough(block: BlockData): boolean {
+    if (!this.isSupported(block.type)) {
+      return true
+    }
+    return this.getBlockModule(block.type).isDirectFeedthrough?.(block) ?? true
+  }
+
+  /**
+   * Check whether a block has discrete states that are updated once per
+   * sample hit, after all outputs of the step have been computed.
+   */
+  static hasDiscreteStates(block: BlockData): boolean {
+    return this.isSupported(block.type) && !!this.getBlockModule(block.type).updateDiscreteStates
+  }
+
+  /**
+   * Get the number of continuous states per signal element, or 0 for
+   * blocks without continuous states.
+   */
+  static getContinuousStateOrder(block: BlockData): number {
+    if (!this.isSupported(block.type)) {
+      return 0
+    }
+    const blockModule = this.getBlockModule(block.type)
+    return blockModule.requiresState(block) ? blockModule.getContinuousStateOrder?.(block) ?? 0 : 0
+  }
+
+  /**
+   * Check whether wires into this block can be ignored when ordering
+   * execution. Only discrete blocks qualify: their outputs come from stored
+   * states, and the states are updated after the whole step has executed.
+   */
+  static breaksAlgebraicDependency(block: BlockData): boolean {
+    return this.hasDiscreteStates(block) && !this.isDirectFeedthrough(block)
+  }
+
+  /**
+   * Name of the signals struct member holding one output of a block
+   */
+  static getOutputSignalName(block: BlockData, portIndex: number): string {
+    const outputCount = this.isSupported(block.type) ? this.getBlockModule(block.type).getOutputPortCount(block) : 1
+    return BlockModuleUtils.getOutputSignalName(block.name, portIndex, outputCount)
+  }
+
+  /**
+   * Apply the sample time of an enclosing subsystem to a block that inherits
+   * its sample time. Nested subsystems pass it on to their own contents.
+   * Returns the block unchanged otherwise.
+   */
+  static inheritSampleTime(block: BlockData, sampleTime: number): BlockData {
+    if (!(sampleTime > 0) || block.type === 'subsystem' || BlockModuleUtils.getSampleTime(block) > 0) {
+      return block
+    }
+    return { ...block, parameters: { ...block.parameters, sampleTime } }
+  }
+
+  /**
+   * Check whether a block computes its outputs only on its sample hits and
+   * holds them in between. Blocks with discrete states are left out: their
+   * outputs come from states that only change on sample hits anyway.
+   */
+  static holdsOutputsBetweenHits(block: BlockData): boolean {
+    return BlockModuleUtils.getSampleTime(block) > 0 && !this.hasDiscreteStates(block)
+  }
   
   /**
    * Clear the instance cache (useful for testing)
@@ -3,6 +3,7 @@
 import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
 
 export class ConditionBlockModule implements IBlockModule {
   generateComputation(block: BlockData, inputs: string[]): string {
@@ -23,14 +24,15 @@ export class ConditionBlockModule implements IBlockModule {
     const validOperators = ['>', '<', '>=', '<=', '==', '!=']
     const operatorMatch = condition.match(/^\s*(>|<|>=|<=|==|!=)\s*(.+)$/)
     
-    if (!operatorMatch) {
-      code += `    // Error: Invalid condition format: ${condition}\n`
+    // The comparison value is written into the code, so only numeric literals are accepted
+    const value = operatorMatch?.[2].trim()
+    if (!operatorMatch || !/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?[fFlL]?$/.test(value!)) {
+      code += `    // Error: Invalid condition format: ${CCodeBuilder.escapeComment(condition)}\n`
       code += `    ${outputName} = false;\n`
       return code
     }
     
     const operator = operatorMatch[1]
-    const value = operatorMatch[2].trim()
     
     code += `    // Evaluate condition: input ${operator} ${value}\n`
     code += `    ${outputName} = (${input} ${operator} ${value});\n`
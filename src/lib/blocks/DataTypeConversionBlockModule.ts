@@ -0,0 +1,192 @@
+// lib/blocks/DataTypeConversionBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import {
+  FIXED_POINT_ROUNDING_MODES,
+  FixedPointRounding,
+  convertToStoredInteger,
+  fromStoredInteger,
+  getFixedPointFormat
+} from '@/lib/fixedPoint'
+import { FixedPointFormat, withBaseType } from '@/lib/typeValidator'
+
+/**
+ * Data Type Conversion: converts the input to the element type set by
+ * outputDataType, keeping the signal's dimensions. Conversions to integer
+ * and fixed-point types round with the selected mode and either saturate
+ * or wrap on overflow.
+ */
+export class DataTypeConversionBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const inputInfo = BlockModuleUtils.parseType(inputTypes?.[0] || 'double')
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const { rounding, saturateOnOverflow } = DataTypeConversionBlockModule.getOptions(block.parameters || {})
+
+    if (inputs.length === 0) {
+      return `    ${outputName} = 0; // No input\n`
+    }
+
+    const overflow = saturateOnOverflow ? 'saturate' : 'wrap'
+    let code = `    // Data Type Conversion block: ${block.name} (${inputInfo.baseType} to ${typeInfo.baseType}, ${rounding}, ${overflow})\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const input = `${inputs[0]}${index}`
+      const output = `${outputName}${index}`
+
+      if (!typeInfo.fixedPoint) {
+        const value = inputInfo.fixedPoint
+          ? `(double)${input} / ${BlockModuleUtils.formatDouble(Math.pow(2, inputInfo.fixedPoint.fractionLength))}`
+          : `(double)${input}`
+        return [typeInfo.baseType === 'float' ? `${output} = (float)(${value});` : `${output} = ${value};`]
+      }
+
+      const format = typeInfo.fixedPoint
+      if (inputInfo.fixedPoint) {
+        const stored = `${blockName}_stored`
+        return [
+          `int64_t ${stored} = ${DataTypeConversionBlockModule.generateStoredShift(input, inputInfo.fixedPoint, format, rounding)};`,
+          `${output} = ${DataTypeConversionBlockModule.generateNarrowing(stored, format, saturateOnOverflow)};`
+        ]
+      }
+
+      // Floating-point inputs are rounded in double before narrowing
+      const rounded = `${blockName}_rounded`
+      const scaled = format.fractionLength === 0
+        ? `(double)${input}`
+        : `(double)${input} * ${BlockModuleUtils.formatDouble(Math.pow(2, format.fractionLength))}`
+      return [
+        `double ${rounded} = ${DataTypeConversionBlockModule.generateRounding(scaled, rounding)};`,
+        `${output} = ${saturateOnOverflow
+          ? CCodeBuilder.generateFixedPointSaturation(rounded, format)
+          : `(${CCodeBuilder.getFixedPointCType(format)})(int64_t)${rounded}`};`
+      ]
+    })
+
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output keeps the input's dimensions with the configured element type
+    const inputType = inputTypes[0] || 'double'
+    try {
+      return withBaseType(inputType, DataTypeConversionBlockModule.getOutputDataType(block.parameters || {}))
+    } catch {
+      return inputType
+    }
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const params = blockState.internalState || {}
+    const outputDataType = DataTypeConversionBlockModule.getOutputDataType(params)
+    const format = getFixedPointFormat(outputDataType)
+    const { rounding, saturateOnOverflow } = DataTypeConversionBlockModule.getOptions(params)
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(inputs[0], value => {
+      if (format) {
+        return fromStoredInteger(convertToStoredInteger(value, format, rounding, saturateOnOverflow), format)
+      }
+      return outputDataType === 'float' ? Math.fround(value) : value
+    })
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  /**
+   * Shift a stored integer from the input's binary point to the output's,
+   * rounding the bits shifted out with integer arithmetic
+   */
+  private static generateStoredShift(
+    input: string,
+    inputFormat: FixedPointFormat,
+    outputFormat: FixedPointFormat,
+    rounding: FixedPointRounding
+  ): string {
+    const wide = `(int64_t)${input}`
+    const shift = inputFormat.fractionLength - outputFormat.fractionLength
+    if (shift <= 0) {
+      return CCodeBuilder.generateFixedPointShift(wide, shift)
+    }
+
+    switch (rounding) {
+      case 'nearest':
+        return CCodeBuilder.generateFixedPointShift(`${wide} + ${Math.pow(2, shift - 1)}`, shift)
+      case 'ceil':
+        return CCodeBuilder.generateFixedPointShift(`${wide} + ${Math.pow(2, shift) - 1}`, shift)
+      case 'zero':
+        // Unsigned values cannot be negative, so they simply floor
+        if (inputFormat.signed) {
+          return `${input} < 0 ? -(${CCodeBuilder.generateFixedPointShift(`-${wide}`, shift)}) : ${CCodeBuilder.generateFixedPointShift(wide, shift)}`
+        }
+        return CCodeBuilder.generateFixedPointShift(wide, shift)
+      default:
+        return CCodeBuilder.generateFixedPointShift(wide, shift)
+    }
+  }
+
+  /**
+   * Round a double expression to an integral value with the given mode
+   */
+  private static generateRounding(expression: string, rounding: FixedPointRounding): string {
+    switch (rounding) {
+      case 'floor':
+        return `floor(${expression})`
+      case 'ceil':
+        return `ceil(${expression})`
+      case 'zero':
+        return `trunc(${expression})`
+      default:
+        return `floor(${expression} + 0.5)`
+    }
+  }
+
+  /**
+   * Narrow a 64-bit stored integer to the output container, clamping to
+   * its range or letting the cast wrap it
+   */
+  private static generateNarrowing(variable: string, format: FixedPointFormat, saturate: boolean): string {
+    if (saturate) {
+      return CCodeBuilder.generateFixedPointSaturation(variable, format)
+    }
+    return `(${CCodeBuilder.getFixedPointCType(format)})${variable}`
+  }
+
+  private static getOutputDataType(params: { outputDataType?: string }): string {
+    return params.outputDataType || 'int16'
+  }
+
+  private static getOptions(params: { rounding?: string, saturateOnOverflow?: boolean }): {
+    rounding: FixedPointRounding,
+    saturateOnOverflow: boolean
+  } {
+    const rounding = FIXED_POINT_ROUNDING_MODES.includes(params.rounding as FixedPointRounding)
+      ? params.rounding as FixedPointRounding
+      : 'floor'
+    return { rounding, saturateOnOverflow: params.saturateOnOverflow ?? true }
+  }
+}
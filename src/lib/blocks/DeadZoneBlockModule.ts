@@ -0,0 +1,76 @@
+// lib/blocks/DeadZoneBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+/**
+ * Dead Zone: outputs zero inside [start, end] and the distance past the
+ * nearest edge outside it, element-wise for vector and matrix inputs.
+ */
+export class DeadZoneBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const { start, end } = DeadZoneBlockModule.getZone(block.parameters || {})
+    const f = (value: number) => BlockModuleUtils.formatDouble(value)
+
+    if (inputs.length === 0) {
+      return `    ${outputName} = 0.0; // No input\n`
+    }
+
+    let code = `    // Dead zone block: ${block.name} [${start}, ${end}]\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const u = `${inputs[0]}${index}`
+      return [`${outputName}${index} = ${u} > ${f(end)} ? ${u} - ${f(end)} : (${u} < ${f(start)} ? ${u} - ${f(start)} : 0.0);`]
+    })
+
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const { start, end } = DeadZoneBlockModule.getZone(blockState.internalState || {})
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(inputs[0], value => {
+      if (value > end) return value - end
+      if (value < start) return value - start
+      return 0
+    })
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  private static getZone(params: { start?: number, end?: number }): { start: number, end: number } {
+    return {
+      start: BlockModuleUtils.parseLimit(params.start) ?? -0.5,
+      end: BlockModuleUtils.parseLimit(params.end) ?? 0.5
+    }
+  }
+}
@@ -0,0 +1,133 @@
+// lib/blocks/DerivativeBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+/**
+ * Filtered derivative, N·s / (s + N):
+ *
+ *   dx/dt = N * (u - x)
+ *   y     = N * (u - x)
+ *
+ * The first-order filter with coefficient N keeps the output bounded for
+ * step inputs; larger N approaches the ideal derivative. The filter state
+ * starts at zero. Scalar, vector and matrix inputs are differentiated
+ * element-wise.
+ */
+export class DerivativeBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const n = BlockModuleUtils.formatDouble(DerivativeBlockModule.getFilterCoefficient(block.parameters || {}))
+
+    if (inputs.length === 0) {
+      return `    ${outputName} = 0.0; // No input\n`
+    }
+
+    let code = `    // Derivative block: ${block.name} (N = ${n})\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `${outputName}${index} = ${n} * (${inputs[0]}${index} - model->states.${blockName}_states${index}[0]);`
+    ])
+
+    return code
+  }
+
+  generateStateDerivative(
+    block: BlockData,
+    inputExpr: string,
+    stateAccessor: string = 'current_states',
+    outputType: string
+  ): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(outputType)
+    const n = BlockModuleUtils.formatDouble(DerivativeBlockModule.getFilterCoefficient(block.parameters || {}))
+
+    let code = `    /* State derivatives for ${block.name} */\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `state_derivatives->${blockName}_states${index}[0] = ${n} * (${inputExpr}${index} - ${stateAccessor}->${blockName}_states${index}[0]);`
+    ])
+
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return true
+  }
+
+  getContinuousStateOrder(block: BlockData): number {
+    return 1
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(outputType)
+
+    if (typeInfo.isMatrix && typeInfo.rows && typeInfo.cols) {
+      return [`    double ${blockName}_states[${typeInfo.rows}][${typeInfo.cols}][1];`]
+    } else if (typeInfo.isArray && typeInfo.arraySize) {
+      return [`    double ${blockName}_states[${typeInfo.arraySize}][1];`]
+    }
+    return [`    double ${blockName}_states[1];`]
+  }
+
+  generateInitialization(block: BlockData): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    return `    memset(model->states.${blockName}_states, 0, sizeof(model->states.${blockName}_states));\n`
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const internalState = blockState.internalState
+    const n = DerivativeBlockModule.getFilterCoefficient(internalState)
+    const size = BlockModuleUtils.flattenSignal(inputs[0]).length
+
+    if (!internalState.states || internalState.states.length !== size) {
+      internalState.states = new Array(size).fill(0)
+    }
+    const states: number[] = internalState.states
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(inputs[0], (u, k) => n * (u - states[k]))
+  }
+
+  computeDerivatives(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    time: number
+  ): number[] | undefined {
+    const n = DerivativeBlockModule.getFilterCoefficient(blockState.internalState)
+    const states: number[] = blockState.internalState.states || []
+
+    return BlockModuleUtils.flattenSignal(inputs[0]).map((u, k) => n * (u - (states[k] ?? 0)))
+  }
+
+  isDirectFeedthrough(block: BlockData): boolean {
+    return true
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  private static getFilterCoefficient(params: { filterCoefficient?: number }): number {
+    const n = Number(params.filterCoefficient)
+    return n > 0 ? n : 100
+  }
+}
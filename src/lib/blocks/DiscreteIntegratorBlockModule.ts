@@ -0,0 +1,157 @@
+// lib/blocks/DiscreteIntegratorBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+interface IntegratorLimits {
+  lowerLimit?: number
+  upperLimit?: number
+}
+
+/**
+ * Discrete-time integrator using forward Euler:
+ *
+ *   y[k]   = x[k]
+ *   x[k+1] = sat(x[k] + K * Ts * u[k])
+ *
+ * The optional lower/upper limits saturate both the state and the output.
+ */
+export class DiscreteIntegratorBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+
+    let code = `    // Discrete integrator block: ${block.name}\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `${outputName}${index} = model->states.${blockName}_state${index};`
+    ])
+
+    return code
+  }
+
+  generateDiscreteUpdate(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const gain = Number(block.parameters?.gain ?? 1)
+    const { lowerLimit, upperLimit } = DiscreteIntegratorBlockModule.getLimits(block.parameters || {})
+    const samplePeriod = BlockModuleUtils.generateSamplePeriod(block)
+    const f = (value: number) => BlockModuleUtils.formatDouble(value)
+
+    if (inputs.length === 0) {
+      return `    // Discrete integrator ${block.name} has no input\n`
+    }
+
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const state = `model->states.${blockName}_state${index}`
+      const lines = [`${state} += ${f(gain)} * ${samplePeriod} * ${inputs[0]}${index};`]
+      if (upperLimit !== undefined) {
+        lines.push(`if (${state} > ${f(upperLimit)}) ${state} = ${f(upperLimit)};`)
+      }
+      if (lowerLimit !== undefined) {
+        lines.push(`if (${state} < ${f(lowerLimit)}) ${state} = ${f(lowerLimit)};`)
+      }
+      return lines
+    })
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return true
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return [BlockModuleUtils.generateStructMember(`${block.name}_state`, outputType)]
+  }
+
+  generateInitialization(block: BlockData, outputType?: string): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const initialCondition = DiscreteIntegratorBlockModule.getInitialCondition(block.parameters || {})
+    const state = `model->states.${blockName}_state`
+
+    if (initialCondition === 0) {
+      return ''
+    }
+
+    const value = BlockModuleUtils.formatDouble(initialCondition)
+    return BlockModuleUtils.generateElementLoop(BlockModuleUtils.parseType(outputType || 'double'), index => [`${state}${index} = ${value};`])
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const initialCondition = DiscreteIntegratorBlockModule.getInitialCondition(blockState.internalState || {})
+    const state: number[] = blockState.internalState?.state || []
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(
+      inputs[0],
+      (_, k) => state[k] ?? initialCondition
+    )
+  }
+
+  updateDiscreteStates(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const internalState = blockState.internalState
+    const initialCondition = DiscreteIntegratorBlockModule.getInitialCondition(internalState)
+    const gain = Number(internalState.gain ?? 1)
+    const sampleTime = internalState.sampleTime > 0 ? internalState.sampleTime : simulationState.timeStep
+    const state: number[] = internalState.state || []
+
+    internalState.state = BlockModuleUtils.flattenSignal(inputs[0]).map((u, k) =>
+      DiscreteIntegratorBlockModule.saturate(
+        (state[k] ?? initialCondition) + gain * sampleTime * u,
+        internalState
+      )
+    )
+  }
+
+  isDirectFeedthrough(block: BlockData): boolean {
+    // Forward Euler output depends only on the stored state
+    return false
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  /**
+   * Initial condition, clamped into the saturation limits.
+   */
+  private static getInitialCondition(params: IntegratorLimits & { initialCondition?: number }): number {
+    return DiscreteIntegratorBlockModule.saturate(Number(params.initialCondition) || 0, params)
+  }
+
+  private static saturate(value: number, params: IntegratorLimits): number {
+    const { lowerLimit, upperLimit } = DiscreteIntegratorBlockModule.getLimits(params)
+    if (upperLimit !== undefined && value > upperLimit) return upperLimit
+    if (lowerLimit !== undefined && value < lowerLimit) return lowerLimit
+    return value
+  }
+
+  /**
+   * Limits are optional; empty or non-numeric values mean unbounded.
+   */
+  private static getLimits(params: IntegratorLimits): IntegratorLimits {
+    const parse = (value: unknown) =>
+      typeof value === 'number' && Number.isFinite(value) ? value : undefined
+    return { lowerLimit: parse(params.lowerLimit), upperLimit: parse(params.upperLimit) }
+  }
+}
@@ -0,0 +1,182 @@
+// lib/blocks/DiscreteTransferFunctionBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+/**
+ * Discrete transfer function H(z) = N(z)/D(z), coefficients in descending
+ * powers of z. Implemented in transposed direct form II:
+ *
+ *   y[k]      = b0*u[k] + s0[k]
+ *   si[k+1]   = s(i+1)[k] + b(i+1)*u[k] - a(i+1)*y[k]
+ *   s(n-1)[k+1] = bn*u[k] - an*y[k]
+ *
+ * with all coefficients normalized by the leading denominator coefficient.
+ */
+export class DiscreteTransferFunctionBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const { b, order } = DiscreteTransferFunctionBlockModule.getCoefficients(block.parameters || {})
+
+    let code = `    // Discrete transfer function block: ${block.name}\n`
+
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const terms: string[] = []
+      if (inputs.length > 0 && b[0] !== 0) {
+        terms.push(`${BlockModuleUtils.formatDouble(b[0])} * ${inputs[0]}${index}`)
+      }
+      if (order > 0) {
+        terms.push(`model->states.${blockName}_states${index}[0]`)
+      }
+      return [`${outputName}${index} = ${terms.length > 0 ? terms.join(' + ') : '0.0'};`]
+    })
+
+    return code
+  }
+
+  generateDiscreteUpdate(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const { a, b, order } = DiscreteTransferFunctionBlockModule.getCoefficients(block.parameters || {})
+    const f = (value: number) => BlockModuleUtils.formatDouble(value)
+
+    if (order === 0) {
+      return ''
+    }
+
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const state = `model->states.${blockName}_states${index}`
+      const lines: string[] = []
+
+      // Ascending order reads s[i+1] before it is overwritten
+      for (let i = 0; i < order; i++) {
+        let expr = i < order - 1 ? `${state}[${i + 1}]` : ''
+        if (inputs.length > 0 && b[i + 1] !== 0) {
+          expr += `${expr ? ' + ' : ''}${f(b[i + 1])} * ${inputs[0]}${index}`
+        }
+        if (a[i + 1] !== 0) {
+          expr += `${expr ? ' - ' : '-'}${f(a[i + 1])} * ${outputName}${index}`
+        }
+        lines.push(`${state}[${i}] = ${expr || '0.0'};`)
+      }
+
+      return lines
+    })
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type, processed element-wise
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    const denominator = block.parameters?.denominator || [1, -0.5]
+    return denominator.length > 1
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    const { order } = DiscreteTransferFunctionBlockModule.getCoefficients(block.parameters || {})
+
+    if (order === 0) {
+      return []
+    }
+
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(outputType)
+
+    if (typeInfo.isMatrix && typeInfo.rows && typeInfo.cols) {
+      return [`    double ${blockName}_states[${typeInfo.rows}][${typeInfo.cols}][${order}];`]
+    } else if (typeInfo.isArray && typeInfo.arraySize) {
+      return [`    double ${blockName}_states[${typeInfo.arraySize}][${order}];`]
+    }
+    return [`    double ${blockName}_states[${order}];`]
+  }
+
+  generateInitialization(block: BlockData): string {
+    const { order } = DiscreteTransferFunctionBlockModule.getCoefficients(block.parameters || {})
+
+    if (order === 0) {
+      return ''
+    }
+
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    return `    memset(model->states.${blockName}_states, 0, sizeof(model->states.${blockName}_states));\n`
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const { b, order } = DiscreteTransferFunctionBlockModule.getCoefficients(blockState.internalState || {})
+    const elementStates: number[][] = blockState.internalState?.elementStates || []
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(inputs[0], (u, k) => {
+      const s0 = order > 0 ? (elementStates[k]?.[0] ?? 0) : 0
+      return b[0] * u + s0
+    })
+  }
+
+  updateDiscreteStates(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const { a, b, order } = DiscreteTransferFunctionBlockModule.getCoefficients(blockState.internalState || {})
+    const elementStates: number[][] = blockState.internalState.elementStates || []
+
+    if (order === 0) {
+      return
+    }
+
+    blockState.internalState.elementStates = BlockModuleUtils.flattenSignal(inputs[0]).map((u, k) => {
+      const s = elementStates[k] || new Array(order).fill(0)
+      const y = b[0] * u + s[0]
+      const next = new Array(order)
+      for (let i = 0; i < order; i++) {
+        next[i] = (i < order - 1 ? s[i + 1] : 0) + b[i + 1] * u - a[i + 1] * y
+      }
+      return next
+    })
+  }
+
+  isDirectFeedthrough(block: BlockData): boolean {
+    // Feedthrough only when the numerator has the same degree as the denominator
+    const { b } = DiscreteTransferFunctionBlockModule.getCoefficients(block.parameters || {})
+    return b[0] !== 0
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  /**
+   * Normalize coefficients by the leading denominator coefficient and pad
+   * the numerator to the denominator length.
+   */
+  static getCoefficients(params: { numerator?: number[], denominator?: number[] }): { a: number[], b: number[], order: number } {
+    const numerator = params.numerator || [1]
+    const denominator = params.denominator || [1, -0.5]
+    const a0 = denominator[0] || 1
+    const order = Math.max(0, denominator.length - 1)
+
+    const a = denominator.map(coeff => coeff / a0)
+    // Improper numerators are truncated to their lowest order terms
+    const padded = [...new Array(Math.max(0, order + 1 - numerator.length)).fill(0), ...numerator]
+    const b = padded.slice(padded.length - (order + 1)).map(coeff => coeff / a0)
+
+    return { a, b, order }
+  }
+}
@@ -3,85 +3,134 @@
 import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { IBlockModule, BlockModuleUtils } from './BlockModule'
-import { C99ExpressionParser } from '@/lib/c99ExpressionParser'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import {
+  C99ExpressionParser,
+  Expression,
+  isOutputAssignmentList,
+  parseC99OutputAssignments
+} from '@/lib/c99ExpressionParser'
 import { C99ExpressionValidator } from '@/lib/c99ExpressionValidator'
 import { C99ExpressionEvaluator } from '@/lib/c99ExpressionEvaluator'
 import { c99ExpressionToCode } from '@/lib/c99ExpressionCodeGen'
+import { WorkspaceValue } from '@/lib/modelSchema'
 
+interface EvaluateParameters {
+  expression?: string
+  numInputs?: number
+  numOutputs?: number
+  /** Workspace variables the expression reads, filled in when the model is resolved */
+  workspaceVariables?: Record<string, WorkspaceValue>
+}
+
+/**
+ * An Evaluate block expression ready to run, with one expression per output
+ */
+export interface CompiledEvaluate {
+  outputs: Expression[]
+  /** Number of elements of every output, 0 for scalar outputs */
+  size: number
+  usesMathFunctions: boolean
+}
+
+export interface EvaluateAnalysis {
+  errors: string[]
+  warnings: string[]
+  usedInputs: number[]
+  compiled: CompiledEvaluate
+}
+
+/**
+ * Evaluate: computes its outputs from a C99 expression over the inputs
+ * in(n), math functions and constants, and the model workspace variables.
+ * Vector inputs and variables are combined element-wise, with scalars
+ * used for every element, and in(0)[2] reads a single element. A block
+ * with several outputs assigns each one: `out(0) = ...; out(1) = ...;`.
+ * All outputs have the size of the vector outputs; scalar results are
+ * copied to every element.
+ */
 export class EvaluateBlockModule implements IBlockModule {
-  generateComputation(block: BlockData, inputs: string[]): string {
-    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
-    const expression = block.parameters?.expression || '0'
-    const numInputs = block.parameters?.numInputs || 1
-    
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const params: EvaluateParameters = block.parameters || {}
+    const expression = params.expression || '0'
+    const numInputs = params.numInputs || 1
+    const outputNames = this.getOutputSignalNames(block).map(name => `model->signals.${name}`)
+
     let code = `    // Evaluate block: ${block.name}\n`
-    code += `    // Expression: ${expression}\n`
-    
+    code += `    // Expression: ${CCodeBuilder.escapeComment(expression.replace(/\s+/g, ' ').trim())}\n`
+    const fail = (message: string) =>
+      code + `    // Error: ${CCodeBuilder.escapeComment(message)}\n` + outputNames.map(name => `    ${name} = 0.0;\n`).join('')
+
     // Validate we have the right number of inputs
     if (inputs.length !== numInputs) {
-      code += `    // Error: Expected ${numInputs} inputs, got ${inputs.length}\n`
-      code += `    ${outputName} = 0.0;\n`
-      return code
-    }
-    
-    // Create sanitized input variables
-    const sanitizedInputs: string[] = []
-    const inputDeclarations: string[] = []
-    
-    // Generate temporary variables with sanitized names
-    for (let i = 0; i < inputs.length; i++) {
-      const tempVarName = `_eval_in${i}`
-      sanitizedInputs.push(tempVarName)
-      // QUIRK: Had to manually replace spaces with '_' in inputs[i]
-      const sanitized_rhs = inputs[i].replace(/\s+/g, '_')
-      inputDeclarations.push(`    double ${tempVarName} = ${sanitized_rhs};`)
+      return fail(`Expected ${numInputs} inputs, got ${inputs.length}`)
     }
-    
+
+    let sizes: number[]
+    let compiled: CompiledEvaluate
     try {
-      // Parse the expression
-      const parser = new C99ExpressionParser(expression)
-      const ast = parser.parse()
-      
-      // Validate it
-      const validator = new C99ExpressionValidator(numInputs)
-      const validation = validator.validate(ast)
-      
-      if (!validation.valid) {
-        code += `    // Error: ${validation.errors.join('; ')}\n`
-        code += `    ${outputName} = 0.0;\n`
-        return code
-      }
-      
-      // Add input variable declarations
-      if (inputDeclarations.length > 0) {
-        code += `    // Input variables\n`
-        code += inputDeclarations.join('\n') + '\n'
-      }
-      
-      // Generate C code from the AST using sanitized input names
-      const { code: exprCode, needsMath } = c99ExpressionToCode(ast, sanitizedInputs)
-      
-      if (needsMath) {
-        code += `    // Note: This expression requires #include <math.h>\n`
-      }
-      
-      code += `    ${outputName} = ${exprCode};\n`
-      
+      sizes = EvaluateBlockModule.getInputSizes(inputs.map((_, i) => inputTypes?.[i] || 'double'))
+      compiled = EvaluateBlockModule.compile(params, sizes)
     } catch (error) {
-      code += `    // Error parsing expression: ${error}\n`
-      code += `    ${outputName} = 0.0;\n`
+      return fail(error instanceof Error ? error.message : String(error))
+    }
+
+    // Copy the inputs into doubles with sanitized names
+    const sanitizedInputs = inputs.map((_, i) => `_eval_in${i}`)
+    code += `    {\n`
+    code += `        // Input variables\n`
+    inputs.forEach((input, i) => {
+      // QUIRK: Had to manually replace spaces with '_' in inputs[i]
+      const sanitized_rhs = input.replace(/\s+/g, '_')
+      if (sizes[i] > 0) {
+        code += `        double ${sanitizedInputs[i]}[${sizes[i]}];\n`
+        code += `        for (int i = 0; i < ${sizes[i]}; i++) {\n`
+        code += `            ${sanitizedInputs[i]}[i] = ${sanitized_rhs}[i];\n`
+        code += `        }\n`
+      } else {
+        code += `        double ${sanitizedInputs[i]} = ${sanitized_rhs};\n`
+      }
+    })
+
+    if (compiled.usesMathFunctions) {
+      code += `        // Note: This expression requires #include <math.h>\n`
+    }
+
+    // Workspace variables are members of the parameter struct
+    const workspaceVariables = params.workspaceVariables || {}
+    const variables = Object.fromEntries(
+      Object.keys(workspaceVariables).map(name => [name, `model->params.${name}`])
+    )
+    const options = {
+      elementIndex: compiled.size > 0 ? 'i' : undefined,
+      vectorInputs: sizes.flatMap((size, i) => size > 0 ? [i] : []),
+      vectorVariables: Object.keys(workspaceVariables).filter(name => Array.isArray(workspaceVariables[name]))
+    }
+    const element = compiled.size > 0 ? '[i]' : ''
+    const assignments = compiled.outputs.map((output, k) =>
+      `${outputNames[k]}${element} = ${c99ExpressionToCode(output, sanitizedInputs, variables, options).code};`
+    )
+
+    if (compiled.size > 0) {
+      code += `        for (int i = 0; i < ${compiled.size}; i++) {\n`
+      code += assignments.map(line => `            ${line}\n`).join('')
+      code += `        }\n`
+    } else {
+      code += assignments.map(line => `        ${line}\n`).join('')
     }
-    
+    code += `    }\n`
+
     return code
   }
 
   getOutputType(block: BlockData, inputTypes: string[]): string {
-    // Evaluate block always outputs double
-    return 'double'
+    return EvaluateBlockModule.getOutputTypeFor(block.parameters || {}, inputTypes)
   }
 
   generateStructMember(block: BlockData, outputType: string): string | null {
-    return BlockModuleUtils.generateStructMember(block.name, outputType)
+    return this.getOutputSignalNames(block)
+      .map(name => BlockModuleUtils.generateStructMember(name, outputType))
+      .join('\n')
   }
 
   requiresState(block: BlockData): boolean {
@@ -94,16 +143,8 @@ export class EvaluateBlockModule implements IBlockModule {
 
   // Add new method to check if math.h is needed
   requiresMathHeader(block: BlockData): boolean {
-    const expression = block.parameters?.expression || '0'
-    const numInputs = block.parameters?.numInputs || 1
-    
     try {
-      const parser = new C99ExpressionParser(expression)
-      const ast = parser.parse()
-      const validator = new C99ExpressionValidator(numInputs)
-      const validation = validator.validate(ast)
-      
-      return validation.valid && validation.usesMathFunctions
+      return EvaluateBlockModule.compile(block.parameters || {}).usesMathFunctions
     } catch {
       return false
     }
@@ -114,47 +155,61 @@ export class EvaluateBlockModule implements IBlockModule {
     inputs: (number | number[] | boolean | boolean[] | number[][])[],
     simulationState: SimulationState
   ): void {
-    const expression = blockState.internalState?.expression || '0'
-    const numInputs = blockState.internalState?.numInputs || 1
-    
+    const params: EvaluateParameters & { compiled?: CompiledEvaluate | null } = blockState.internalState || {}
+    const numInputs = params.numInputs || 1
+    const outputCount = EvaluateBlockModule.getOutputCount(params)
+
     // Convert inputs to numbers
-    const numericInputs: number[] = []
+    const numericInputs: (number | number[])[] = []
     for (let i = 0; i < numInputs; i++) {
       const input = inputs[i]
       if (typeof input === 'number') {
         numericInputs.push(input)
       } else if (typeof input === 'boolean') {
         numericInputs.push(input ? 1 : 0)
+      } else if (Array.isArray(input) && !input.some(element => Array.isArray(element))) {
+        numericInputs.push((input as (number | boolean)[]).map(Number))
       } else {
-        console.warn(`Evaluate block requires scalar inputs, got ${typeof input}`)
+        console.warn(`Evaluate block requires scalar or vector inputs, got ${typeof input}`)
         numericInputs.push(0)
       }
     }
-    
-    try {
-      // Parse and evaluate the expression
-      const parser = new C99ExpressionParser(expression)
-      const ast = parser.parse()
-      
-      // Validate
-      const validator = new C99ExpressionValidator(numInputs)
-      const validation = validator.validate(ast)
-      
-      if (!validation.valid) {
-        console.warn(`Expression validation failed: ${validation.errors.join('; ')}`)
-        blockState.outputs[0] = 0
-        return
+
+    // Compile once, for the input sizes of the first step
+    if (params.compiled === undefined) {
+      try {
+        const sizes = numericInputs.map(input => Array.isArray(input) ? input.length : 0)
+        params.compiled = EvaluateBlockModule.compile(params, sizes)
+      } catch (error) {
+        console.warn(`Expression validation failed: ${error instanceof Error ? error.message : error}`)
+        params.compiled = null
       }
-      
-      // Evaluate
-      const evaluator = new C99ExpressionEvaluator(numericInputs)
-      const result = evaluator.evaluate(ast)
-      
-      blockState.outputs[0] = result
-      
+    }
+
+    const compiled = params.compiled
+    const zeroOutputs = () => {
+      for (let k = 0; k < outputCount; k++) {
+        blockState.outputs[k] = 0
+      }
+    }
+    if (!compiled) {
+      zeroOutputs()
+      return
+    }
+
+    try {
+      const evaluator = new C99ExpressionEvaluator(
+        numericInputs,
+        (params.workspaceVariables || {}) as Record<string, number | number[]>
+      )
+      compiled.outputs.forEach((output, k) => {
+        blockState.outputs[k] = compiled.size > 0
+          ? Array.from({ length: compiled.size }, (_, i) => evaluator.evaluateElement(output, i))
+          : evaluator.evaluate(output)
+      })
     } catch (error) {
       console.warn(`Expression evaluation error: ${error}`)
-      blockState.outputs[0] = 0
+      zeroOutputs()
     }
   }
 
@@ -163,7 +218,7 @@ export class EvaluateBlockModule implements IBlockModule {
   }
 
   getOutputPortCount(block: BlockData): number {
-    return 1
+    return EvaluateBlockModule.getOutputCount(block.parameters || {})
   }
 
   getInputPortLabels(block: BlockData): string[] | undefined {
@@ -174,4 +229,144 @@ export class EvaluateBlockModule implements IBlockModule {
     }
     return labels
   }
-}
\ No newline at end of file
+
+  getOutputPortLabels(block: BlockData): string[] | undefined {
+    const count = this.getOutputPortCount(block)
+    return count > 1 ? Array.from({ length: count }, (_, k) => `out${k}`) : undefined
+  }
+
+  private getOutputSignalNames(block: BlockData): string[] {
+    const outputCount = this.getOutputPortCount(block)
+    return Array.from({ length: outputCount }, (_, port) =>
+      BlockModuleUtils.getOutputSignalName(block.name, port, outputCount)
+    )
+  }
+
+  static getOutputCount(params: EvaluateParameters): number {
+    return Math.max(1, Math.floor(Number(params.numOutputs) || 1))
+  }
+
+  /**
+   * The type every output of the block has for the given input types
+   */
+  static getOutputTypeFor(params: EvaluateParameters, inputTypes: string[]): string {
+    if (inputTypes.length !== (params.numInputs || 1)) {
+      return 'double'
+    }
+    try {
+      const { size } = EvaluateBlockModule.compile(params, EvaluateBlockModule.getInputSizes(inputTypes))
+      return size > 0 ? `double[${size}]` : 'double'
+    } catch {
+      // Invalid expressions output a scalar zero
+      return 'double'
+    }
+  }
+
+  /**
+   * Compile the expression of an Evaluate block, throwing on the first
+   * problem found
+   * @param inputSizes - Number of elements of each input, 0 for scalars; unchecked when omitted
+   */
+  static compile(params: EvaluateParameters, inputSizes?: number[]): CompiledEvaluate {
+    const analysis = EvaluateBlockModule.analyze(params, inputSizes)
+    if (analysis.errors.length > 0) {
+      throw new Error(analysis.errors[0])
+    }
+    return analysis.compiled
+  }
+
+  /**
+   * All problems and warnings of the expression of an Evaluate block
+   */
+  static analyze(params: EvaluateParameters, inputSizes?: number[]): EvaluateAnalysis {
+    const errors: string[] = []
+    const warnings: string[] = []
+    const usedInputs = new Set<number>()
+    const text = params.expression || '0'
+    const numInputs = params.numInputs || 1
+    const numOutputs = EvaluateBlockModule.getOutputCount(params)
+
+    const variableSizes: Record<string, number> = {}
+    for (const [name, value] of Object.entries(params.workspaceVariables || {})) {
+      if (Array.isArray(value) && Array.isArray(value[0])) {
+        errors.push(`Workspace variable '${name}' is a matrix; expressions can only use scalars and vectors`)
+      } else {
+        variableSizes[name] = Array.isArray(value) ? value.length : 0
+      }
+    }
+
+    const outputs: (Expression | undefined)[] = new Array(numOutputs).fill(undefined)
+    try {
+      if (isOutputAssignmentList(text)) {
+        for (const assignment of parseC99OutputAssignments(text)) {
+          if (assignment.output >= numOutputs) {
+            errors.push(`out(${assignment.output}) is out of range. Valid range is 0 to ${numOutputs - 1}`)
+          } else if (outputs[assignment.output]) {
+            errors.push(`out(${assignment.output}) is assigned more than once`)
+          } else {
+            outputs[assignment.output] = assignment.value
+          }
+        }
+        outputs.forEach((output, k) => {
+          if (!output) {
+            errors.push(`out(${k}) is never assigned`)
+          }
+        })
+      } else if (numOutputs > 1) {
+        errors.push(`With ${numOutputs} outputs, assign each one: out(0) = ...; out(1) = ...;`)
+      } else {
+        outputs[0] = new C99ExpressionParser(text).parse()
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Invalid expression')
+    }
+
+    const validator = new C99ExpressionValidator(numInputs, Object.keys(variableSizes), {
+      inputs: inputSizes,
+      variables: variableSizes
+    })
+    let size = 0
+    let sizeOutput = 0
+    let usesMathFunctions = false
+    outputs.forEach((output, k) => {
+      if (!output) return
+      const result = validator.validate(output)
+      const context = isOutputAssignmentList(text) ? `out(${k}): ` : ''
+      errors.push(...result.errors.map(error => `${context}${error}`))
+      warnings.push(...result.warnings.map(warning => `${context}${warning}`))
+      result.usedInputs.forEach(index => usedInputs.add(index))
+      usesMathFunctions = usesMathFunctions || result.usesMathFunctions
+
+      if (result.size && size > 0 && result.size !== size) {
+        errors.push(`out(${k}) has ${result.size} elements but out(${sizeOutput}) has ${size}; vector outputs must have the same number of elements`)
+      } else if (result.size) {
+        size = result.size
+        sizeOutput = k
+      }
+    })
+
+    return {
+      errors,
+      warnings,
+      usedInputs: Array.from(usedInputs).sort((a, b) => a - b),
+      compiled: {
+        outputs: outputs.filter((output): output is Expression => output !== undefined),
+        size,
+        usesMathFunctions
+      }
+    }
+  }
+
+  /**
+   * Number of elements of each input type, 0 for scalars
+   */
+  static getInputSizes(inputTypes: string[]): number[] {
+    return inputTypes.map(type => {
+      const typeInfo = BlockModuleUtils.parseType(type)
+      if (typeInfo.isMatrix) {
+        throw new Error(`Evaluate block inputs must be scalars or vectors, got ${type}`)
+      }
+      return typeInfo.isArray ? typeInfo.arraySize || 0 : 0
+    })
+  }
+}
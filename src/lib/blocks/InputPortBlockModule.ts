@@ -3,6 +3,7 @@
 import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { getFixedPointFormat, quantizeSignal } from '@/lib/fixedPoint'
 
 export class InputPortBlockModule implements IBlockModule {
   generateComputation(block: BlockData, inputs: string[]): string {
@@ -77,6 +78,7 @@ export class InputPortBlockModule implements IBlockModule {
     if (blockState.outputs.length > 0 && blockState.outputs[0] !== undefined) {
       // Value already set, likely by test inputs - keep it
       //console.log(`InputPort ${blockState.blockId} keeping existing value:`, blockState.outputs[0]);
+      InputPortBlockModule.applyFixedPoint(blockState)
       return
     }
     
@@ -115,6 +117,18 @@ export class InputPortBlockModule implements IBlockModule {
     blockState.internalState.dataType = dataType
     blockState.internalState.defaultValue = defaultValue
     blockState.internalState.isConnectedToParent = false
+    InputPortBlockModule.applyFixedPoint(blockState)
+  }
+
+  /**
+   * Round the port value onto the grid of a fixed-point data type, as the
+   * generated code only receives stored integers
+   */
+  private static applyFixedPoint(blockState: BlockState): void {
+    const fixedPoint = getFixedPointFormat(blockState.blockData?.parameters?.dataType)
+    if (fixedPoint) {
+      blockState.outputs[0] = quantizeSignal(blockState.outputs[0], fixedPoint)
+    }
   }
 
   getInputPortCount(block: BlockData): number {
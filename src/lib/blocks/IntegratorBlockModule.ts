@@ -0,0 +1,229 @@
+// lib/blocks/IntegratorBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+interface IntegratorParameters {
+  initialCondition?: number
+  lowerLimit?: number
+  upperLimit?: number
+  showResetInput?: boolean
+}
+
+/**
+ * Continuous integrator (1/s):
+ *
+ *   dx/dt = u
+ *   y     = sat(x)
+ *
+ * With limits, integration stops while the state sits on a limit and the
+ * input pushes it further out (anti-windup), and the state is clamped after
+ * each step. The optional reset input holds the state at the initial
+ * condition while it is nonzero. Scalar, vector and matrix inputs are
+ * integrated element-wise.
+ */
+export class IntegratorBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const { lowerLimit, upperLimit } = IntegratorBlockModule.getLimits(block.parameters || {})
+
+    let code = `    // Integrator block: ${block.name}\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `${outputName}${index} = ${BlockModuleUtils.generateClamp(`model->states.${blockName}_states${index}[0]`, lowerLimit, upperLimit)};`
+    ])
+
+    return code
+  }
+
+  generateStateDerivative(
+    block: BlockData,
+    inputExpr: string,
+    stateAccessor: string = 'current_states',
+    outputType: string
+  ): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(outputType)
+    const { lowerLimit, upperLimit } = IntegratorBlockModule.getLimits(block.parameters || {})
+    const f = (value: number) => BlockModuleUtils.formatDouble(value)
+
+    let code = `    /* State derivatives for ${block.name} */\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const state = `${stateAccessor}->${blockName}_states${index}[0]`
+      const derivative = `state_derivatives->${blockName}_states${index}[0]`
+      const lines = [`${derivative} = ${inputExpr}${index};`]
+      // Anti-windup: stop integrating outward from a limit
+      if (upperLimit !== undefined) {
+        lines.push(`if (${state} >= ${f(upperLimit)} && ${derivative} > 0.0) ${derivative} = 0.0;`)
+      }
+      if (lowerLimit !== undefined) {
+        lines.push(`if (${state} <= ${f(lowerLimit)} && ${derivative} < 0.0) ${derivative} = 0.0;`)
+      }
+      return lines
+    })
+
+    return code
+  }
+
+  generateStateConstraints(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const params = block.parameters || {}
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const { lowerLimit, upperLimit } = IntegratorBlockModule.getLimits(params)
+    const initialCondition = IntegratorBlockModule.getInitialCondition(params)
+    const resetInput = params.showResetInput ? inputs[1] : undefined
+    const resetIsScalar = !BlockModuleUtils.parseType(inputTypes?.[1] || 'double').isArray
+
+    if (lowerLimit === undefined && upperLimit === undefined && !resetInput) {
+      return ''
+    }
+
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const state = `model->states.${blockName}_states${index}[0]`
+      const lines: string[] = []
+      if (lowerLimit !== undefined || upperLimit !== undefined) {
+        lines.push(`${state} = ${BlockModuleUtils.generateClamp(state, lowerLimit, upperLimit)};`)
+      }
+      if (resetInput) {
+        const reset = resetIsScalar ? resetInput : `${resetInput}${index}`
+        lines.push(`if (${reset} != 0) ${state} = ${BlockModuleUtils.formatDouble(initialCondition)};`)
+      }
+      return lines
+    })
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches the integrated input
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return true
+  }
+
+  getContinuousStateOrder(block: BlockData): number {
+    return 1
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(outputType)
+
+    if (typeInfo.isMatrix && typeInfo.rows && typeInfo.cols) {
+      return [`    double ${blockName}_states[${typeInfo.rows}][${typeInfo.cols}][1];`]
+    } else if (typeInfo.isArray && typeInfo.arraySize) {
+      return [`    double ${blockName}_states[${typeInfo.arraySize}][1];`]
+    }
+    return [`    double ${blockName}_states[1];`]
+  }
+
+  generateInitialization(block: BlockData): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const initialCondition = IntegratorBlockModule.getInitialCondition(block.parameters || {})
+    const state = `model->states.${blockName}_states`
+
+    if (initialCondition === 0) {
+      return ''
+    }
+
+    // sizeof works for scalar, vector and matrix state members alike
+    let code = `    for (size_t k = 0; k < sizeof(${state}) / sizeof(double); k++) {\n`
+    code += `        ((double*)&${state})[k] = ${BlockModuleUtils.formatDouble(initialCondition)};\n`
+    code += `    }\n`
+    return code
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const internalState = blockState.internalState
+    const { lowerLimit, upperLimit } = IntegratorBlockModule.getLimits(internalState)
+    const size = BlockModuleUtils.flattenSignal(inputs[0]).length
+
+    // One state per element, sized once the input shape is known
+    if (!internalState.states || internalState.states.length !== size) {
+      internalState.states = new Array(size).fill(IntegratorBlockModule.getInitialCondition(internalState))
+    }
+    const states: number[] = internalState.states
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(
+      inputs[0],
+      (_, k) => BlockModuleUtils.clamp(states[k], lowerLimit, upperLimit)
+    )
+  }
+
+  computeDerivatives(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    time: number
+  ): number[] | undefined {
+    const internalState = blockState.internalState
+    const { lowerLimit, upperLimit } = IntegratorBlockModule.getLimits(internalState)
+    const states: number[] = internalState.states || []
+
+    return BlockModuleUtils.flattenSignal(inputs[0]).map((u, k) => {
+      const x = states[k] ?? 0
+      if (upperLimit !== undefined && x >= upperLimit && u > 0) return 0
+      if (lowerLimit !== undefined && x <= lowerLimit && u < 0) return 0
+      return u
+    })
+  }
+
+  constrainStates(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const internalState = blockState.internalState
+    const { lowerLimit, upperLimit } = IntegratorBlockModule.getLimits(internalState)
+    const initialCondition = IntegratorBlockModule.getInitialCondition(internalState)
+    const reset = internalState.showResetInput && inputs[1] !== undefined
+      ? BlockModuleUtils.flattenSignal(inputs[1])
+      : []
+    const states: number[] = internalState.states || []
+
+    internalState.states = states.map((x, k) =>
+      (reset[k] ?? reset[0]) ? initialCondition : BlockModuleUtils.clamp(x, lowerLimit, upperLimit)
+    )
+  }
+
+  isDirectFeedthrough(block: BlockData): boolean {
+    // Output depends only on the integrated state
+    return false
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return block.parameters?.showResetInput ? 2 : 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getInputPortLabels(block: BlockData): string[] | undefined {
+    return block.parameters?.showResetInput ? ['u', 'reset'] : undefined
+  }
+
+  /**
+   * Initial condition, clamped into the limits.
+   */
+  private static getInitialCondition(params: IntegratorParameters): number {
+    const { lowerLimit, upperLimit } = IntegratorBlockModule.getLimits(params)
+    return BlockModuleUtils.clamp(Number(params.initialCondition) || 0, lowerLimit, upperLimit)
+  }
+
+  private static getLimits(params: IntegratorParameters): { lowerLimit?: number, upperLimit?: number } {
+    return {
+      lowerLimit: BlockModuleUtils.parseLimit(params.lowerLimit),
+      upperLimit: BlockModuleUtils.parseLimit(params.upperLimit)
+    }
+  }
+}
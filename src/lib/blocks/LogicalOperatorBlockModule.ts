@@ -0,0 +1,120 @@
+// lib/blocks/LogicalOperatorBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { SignalValue } from '@/lib/modelSchema'
+import { withBaseType } from '@/lib/typeValidator'
+
+export const LOGICAL_OPERATORS = ['AND', 'OR', 'NAND', 'NOR', 'XOR', 'NOT'] as const
+export type LogicalOperator = typeof LOGICAL_OPERATORS[number]
+
+/**
+ * Logical Operator: combines any number of inputs element-wise into a
+ * bool signal, treating nonzero values as true. XOR is true when an odd
+ * number of inputs is true; NOT has a single input. Scalar inputs expand
+ * to the shape of the vector or matrix inputs.
+ */
+export class LogicalOperatorBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const { operator } = LogicalOperatorBlockModule.getOptions(block.parameters || {})
+
+    let code = `    // Logical Operator block: ${block.name} (${operator})\n`
+    if (inputs.length === 0) {
+      code += `    // Error: Logical Operator block has no inputs\n`
+      return code
+    }
+
+    const types = inputs.map((_, k) => inputTypes?.[k] || 'double')
+    code += BlockModuleUtils.generateElementWiseCombination(
+      outputName,
+      this.getOutputType(block, types),
+      inputs,
+      types,
+      elements => LogicalOperatorBlockModule.generateExpression(operator, elements)
+    )
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    const shape = BlockModuleUtils.getElementWiseType(inputTypes) || inputTypes[0] || 'bool'
+    return withBaseType(shape, 'bool')
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    if (inputs.length === 0) {
+      blockState.outputs[0] = false
+      return
+    }
+
+    const { operator } = LogicalOperatorBlockModule.getOptions(blockState.internalState || {})
+    blockState.outputs[0] = BlockModuleUtils.combineSignals(
+      inputs,
+      elements => LogicalOperatorBlockModule.evaluate(operator, elements.map(element => element !== 0))
+    ) as unknown as SignalValue
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return LogicalOperatorBlockModule.getOptions(block.parameters || {}).numInputs
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  /**
+   * Apply a logical operator to the truth values of one element of each input
+   */
+  static evaluate(operator: LogicalOperator, values: boolean[]): boolean {
+    switch (operator) {
+      case 'AND': return values.every(value => value)
+      case 'OR': return values.some(value => value)
+      case 'NAND': return !values.every(value => value)
+      case 'NOR': return !values.some(value => value)
+      case 'XOR': return values.filter(value => value).length % 2 === 1
+      case 'NOT': return !values[0]
+    }
+  }
+
+  /**
+   * C expression applying a logical operator to one element of each input
+   */
+  static generateExpression(operator: LogicalOperator, elements: string[]): string {
+    switch (operator) {
+      case 'AND': return elements.join(' && ')
+      case 'OR': return elements.join(' || ')
+      case 'NAND': return `!(${elements.join(' && ')})`
+      case 'NOR': return `!(${elements.join(' || ')})`
+      case 'XOR': return elements.map(element => `(${element} != 0)`).join(' ^ ')
+      case 'NOT': return `!${elements[0]}`
+    }
+  }
+
+  static getOptions(params: { operator?: string, numInputs?: number }): {
+    operator: LogicalOperator,
+    numInputs: number
+  } {
+    const operator = LOGICAL_OPERATORS.includes(params.operator as LogicalOperator)
+      ? params.operator as LogicalOperator
+      : 'AND'
+    const numInputs = operator === 'NOT' ? 1 : Math.max(2, Math.floor(Number(params.numInputs) || 2))
+    return { operator, numInputs }
+  }
+}
@@ -0,0 +1,135 @@
+// lib/blocks/MergeBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { SubsystemBlockModule } from './SubsystemBlockModule'
+import { SignalValue } from '@/lib/modelSchema'
+
+/**
+ * Merge: combines the outputs of mutually exclusive subsystems into one
+ * signal. The output takes the value of the input updated most recently,
+ * and holds it while no input is updated. An input driven by an enabled
+ * subsystem is updated only in the steps that subsystem runs; any other
+ * input is updated in every step. When several inputs are updated in the
+ * same step, the last of them wins.
+ */
+export class MergeBlockModule implements IBlockModule {
+  /**
+   * @param updateConditions - For each input, a C condition that is true
+   *   when the input was updated this step, or null if it always is
+   */
+  generateComputation(
+    block: BlockData,
+    inputs: string[],
+    inputTypes?: string[],
+    updateConditions: (string | null)[] = []
+  ): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const copy = (input: string) => typeInfo.isArray || typeInfo.isMatrix
+      ? `memcpy(&${outputName}, &${input}, sizeof(${outputName}));`
+      : `${outputName} = ${input};`
+
+    let code = `    // Merge block: ${block.name} (holds its output while no input is updated)\n`
+    inputs.forEach((input, index) => {
+      const condition = updateConditions[index]
+      if (condition) {
+        code += `    if (${condition}) {\n`
+        code += `        ${copy(input)}\n`
+        code += `    }\n`
+      } else {
+        code += `    ${copy(input)}\n`
+      }
+    })
+
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches the inputs, which must all be the same
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  generateInitialization(block: BlockData, outputType?: string): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const typeInfo = BlockModuleUtils.parseType(outputType || 'double')
+    const initialOutput = BlockModuleUtils.formatDouble(MergeBlockModule.getInitialOutput(block.parameters || {}))
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => [`${outputName}${index} = ${initialOutput};`])
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const params = blockState.internalState || {}
+    const updatedInputs: boolean[] = params.updatedInputs ?? inputs.map(() => true)
+
+    let output: SignalValue | undefined = params.heldOutput
+    inputs.forEach((input, index) => {
+      if (updatedInputs[index]) {
+        output = (Array.isArray(input)
+          ? (input as (number | boolean | number[])[]).map(v => Array.isArray(v) ? [...v] : v)
+          : input) as SignalValue
+      }
+    })
+
+    if (output === undefined) {
+      const initialOutput = MergeBlockModule.getInitialOutput(params)
+      output = BlockModuleUtils.mapSignal(inputs[0], () => initialOutput) as SignalValue
+    }
+    params.heldOutput = output
+    blockState.internalState = params
+    blockState.outputs[0] = output
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return MergeBlockModule.getNumInputs(block.parameters || {})
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  /**
+   * Whether an input driven by the given block was updated: only enabled
+   * subsystems that did not run in the last step skip updates
+   */
+  static isInputUpdated(source: BlockData | undefined, sourceState: BlockState | undefined): boolean {
+    if (!source || !MergeBlockModule.isConditionalSource(source)) {
+      return true
+    }
+    return sourceState?.outputsUpdated ?? false
+  }
+
+  /**
+   * Whether a block is a subsystem that only runs while enabled. Triggered
+   * subsystems are not, and update merged signals in every step.
+   */
+  static isConditionalSource(source: BlockData): boolean {
+    return source.type === 'subsystem' &&
+      !!source.parameters?.showEnableInput &&
+      !SubsystemBlockModule.getTriggerType(source)
+  }
+
+  static getNumInputs(params: { numInputs?: number }): number {
+    return Math.max(1, Math.floor(Number(params.numInputs) || 2))
+  }
+
+  static getInitialOutput(params: { initialOutput?: number }): number {
+    return Number(params.initialOutput) || 0
+  }
+}
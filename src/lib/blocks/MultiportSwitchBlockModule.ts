@@ -0,0 +1,119 @@
+// lib/blocks/MultiportSwitchBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { SignalValue } from '@/lib/modelSchema'
+
+export type MultiportSwitchIndexBase = 'one' | 'zero'
+
+/**
+ * Multiport Switch: the first input is an index selecting which of the
+ * data inputs is passed to the output. The index is truncated toward zero
+ * and clamped to the range of data inputs, so out-of-range indices select
+ * the first or last input.
+ */
+export class MultiportSwitchBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const { numInputs, firstIndex } = MultiportSwitchBlockModule.getOptions(block.parameters || {})
+    const lastIndex = firstIndex + numInputs - 1
+
+    if (inputs.length < 2) {
+      return `    // Multiport Switch block: ${block.name} - no data inputs\n`
+    }
+
+    const outputType = this.getOutputType(block, inputTypes || [])
+    const typeInfo = BlockModuleUtils.parseType(outputType)
+    const control = BlockModuleUtils.generateScalarValue(inputs[0], inputTypes?.[0] || 'double')
+
+    let code = `    // Multiport Switch block: ${block.name} (index ${firstIndex} to ${lastIndex}, clamped)\n`
+    code += `    {\n`
+    code += `        const double ${blockName}_control = ${control};\n`
+    code += `        const int ${blockName}_index = ${blockName}_control >= ${lastIndex} ? ${lastIndex} : `
+    code += `${blockName}_control > ${firstIndex} ? (int)${blockName}_control : ${firstIndex};\n`
+    code += `        switch (${blockName}_index) {\n`
+    for (let port = 1; port < inputs.length && port <= numInputs; port++) {
+      code += `            case ${firstIndex + port - 1}:\n`
+      code += typeInfo.isArray || typeInfo.isMatrix
+        ? `                memcpy(&${outputName}, &${inputs[port]}, sizeof(${outputName}));\n`
+        : `                ${outputName} = ${inputs[port]};\n`
+      code += `                break;\n`
+    }
+    code += `        }\n`
+    code += `    }\n`
+
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches the data inputs, which must all be the same
+    return inputTypes[1] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const { numInputs, firstIndex } = MultiportSwitchBlockModule.getOptions(blockState.internalState || {})
+
+    if (inputs.length < 2) {
+      blockState.outputs[0] = 0
+      return
+    }
+
+    const control = BlockModuleUtils.flattenSignal(inputs[0])[0]
+    const index = MultiportSwitchBlockModule.selectIndex(control, firstIndex, numInputs)
+    const selected = inputs[Math.min(index - firstIndex + 1, inputs.length - 1)]
+
+    // Copy arrays so the output does not alias the input signal
+    blockState.outputs[0] = (Array.isArray(selected)
+      ? (selected as (number | boolean | number[])[]).map(v => Array.isArray(v) ? [...v] : v)
+      : selected) as SignalValue
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return MultiportSwitchBlockModule.getOptions(block.parameters || {}).numInputs + 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getInputPortLabels(block: BlockData): string[] | undefined {
+    const { numInputs, firstIndex } = MultiportSwitchBlockModule.getOptions(block.parameters || {})
+    return ['index', ...Array.from({ length: numInputs }, (_, i) => String(firstIndex + i))]
+  }
+
+  /**
+   * The index selected by a control value: truncated toward zero and
+   * clamped to the data inputs. NaN selects the first input.
+   */
+  static selectIndex(control: number, firstIndex: number, numInputs: number): number {
+    const lastIndex = firstIndex + numInputs - 1
+    if (control >= lastIndex) return lastIndex
+    return control > firstIndex ? Math.trunc(control) : firstIndex
+  }
+
+  static getOptions(params: { numInputs?: number, indexBase?: string }): {
+    numInputs: number,
+    firstIndex: number
+  } {
+    const numInputs = Math.max(1, Math.floor(Number(params.numInputs) || 3))
+    return { numInputs, firstIndex: params.indexBase === 'zero' ? 0 : 1 }
+  }
+}
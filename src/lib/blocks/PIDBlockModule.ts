@@ -0,0 +1,332 @@
+// lib/blocks/PIDBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+export type PIDForm = 'parallel' | 'ideal'
+export type PIDAntiWindup = 'none' | 'clamping' | 'back_calculation'
+
+interface PIDParameters {
+  form?: PIDForm
+  kp?: number
+  ki?: number
+  kd?: number
+  filterCoefficient?: number
+  upperLimit?: number
+  lowerLimit?: number
+  antiWindup?: PIDAntiWindup
+  backCalculationGain?: number
+  initialCondition?: number
+  showResetInput?: boolean
+}
+
+/**
+ * Gains of the parallel form P + I/s + D·N·s/(s + N). The ideal form
+ * Kp·(1 + Ki/s + Kd·N·s/(s + N)) is converted to it.
+ */
+interface PIDGains {
+  p: number
+  i: number
+  d: number
+  n: number
+}
+
+/**
+ * PID controller acting on the error input e. Each element has two
+ * continuous states, the error integral xi and the derivative filter xf:
+ *
+ *   dxi/dt = e              (modified by anti-windup)
+ *   dxf/dt = N (e - xf)
+ *   v      = P e + I xi + D N (e - xf)
+ *   y      = sat(v)
+ *
+ * With output limits, clamping anti-windup stops integrating while the
+ * output is saturated and the error drives it further out; back-calculation
+ * bleeds the integral with Kb (y - v). The optional reset input holds the
+ * integral at its initial condition while it is nonzero.
+ */
+export class PIDBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const params = block.parameters || {}
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const { lowerLimit, upperLimit } = PIDBlockModule.getLimits(params)
+
+    let code = `    // PID controller block: ${block.name} (${PIDBlockModule.getForm(params)} form)\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const error = inputs.length > 0 ? `${inputs[0]}${index}` : '0.0'
+      const output = PIDBlockModule.generateUnsaturatedOutput(params, error, `model->states.${blockName}_states${index}`)
+      return [`${outputName}${index} = ${BlockModuleUtils.generateClamp(output, lowerLimit, upperLimit)};`]
+    })
+
+    return code
+  }
+
+  generateStateDerivative(
+    block: BlockData,
+    inputExpr: string,
+    stateAccessor: string = 'current_states',
+    outputType: string
+  ): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const params = block.parameters || {}
+    const typeInfo = BlockModuleUtils.parseType(outputType)
+    const gains = PIDBlockModule.getGains(params)
+    const { lowerLimit, upperLimit } = PIDBlockModule.getLimits(params)
+    const antiWindup = PIDBlockModule.getAntiWindup(params)
+    const f = (value: number) => BlockModuleUtils.formatDouble(value)
+
+    let code = `    /* State derivatives for ${block.name}: [0] error integral, [1] derivative filter */\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const states = `${stateAccessor}->${blockName}_states${index}`
+      const derivatives = `state_derivatives->${blockName}_states${index}`
+      const lines = [
+        '{',
+        `    const double e = ${inputExpr}${index};`
+      ]
+
+      if (antiWindup !== 'none') {
+        lines.push(`    const double v = ${PIDBlockModule.generateUnsaturatedOutput(params, 'e', states)};`)
+      }
+
+      if (antiWindup === 'back_calculation') {
+        const kb = PIDBlockModule.getBackCalculationGain(params)
+        lines.push(`    ${derivatives}[0] = e + ${f(kb)} * (${BlockModuleUtils.generateClamp('v', lowerLimit, upperLimit)} - v);`)
+      } else {
+        lines.push(`    ${derivatives}[0] = e;`)
+      }
+
+      if (antiWindup === 'clamping') {
+        // Stop integrating while saturated and the integral pushes further out
+        const conditions: string[] = []
+        if (upperLimit !== undefined) {
+          conditions.push(`(v > ${f(upperLimit)} && ${f(gains.i)} * e > 0.0)`)
+        }
+        if (lowerLimit !== undefined) {
+          conditions.push(`(v < ${f(lowerLimit)} && ${f(gains.i)} * e < 0.0)`)
+        }
+        lines.push(`    if (${conditions.join(' || ')}) ${derivatives}[0] = 0.0;`)
+      }
+
+      lines.push(`    ${derivatives}[1] = ${f(gains.n)} * (e - ${states}[1]);`)
+      lines.push('}')
+      return lines
+    })
+
+    return code
+  }
+
+  generateStateConstraints(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const params = block.parameters || {}
+    const resetInput = params.showResetInput ? inputs[1] : undefined
+
+    if (!resetInput) {
+      return ''
+    }
+
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const resetIsScalar = !BlockModuleUtils.parseType(inputTypes?.[1] || 'double').isArray
+    const initialCondition = BlockModuleUtils.formatDouble(PIDBlockModule.getInitialCondition(params))
+
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const reset = resetIsScalar ? resetInput : `${resetInput}${index}`
+      return [`if (${reset} != 0) model->states.${blockName}_states${index}[0] = ${initialCondition};`]
+    })
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches the error input
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return true
+  }
+
+  getContinuousStateOrder(block: BlockData): number {
+    return 2
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(outputType)
+
+    if (typeInfo.isMatrix && typeInfo.rows && typeInfo.cols) {
+      return [`    double ${blockName}_states[${typeInfo.rows}][${typeInfo.cols}][2];`]
+    } else if (typeInfo.isArray && typeInfo.arraySize) {
+      return [`    double ${blockName}_states[${typeInfo.arraySize}][2];`]
+    }
+    return [`    double ${blockName}_states[2];`]
+  }
+
+  generateInitialization(block: BlockData): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const initialCondition = PIDBlockModule.getInitialCondition(block.parameters || {})
+    const states = `model->states.${blockName}_states`
+
+    if (initialCondition === 0) {
+      return ''
+    }
+
+    // Integral states sit at even offsets; the filter states start at zero
+    let code = `    for (size_t k = 0; k < sizeof(${states}) / sizeof(double); k += 2) {\n`
+    code += `        ((double*)&${states})[k] = ${BlockModuleUtils.formatDouble(initialCondition)};\n`
+    code += `    }\n`
+    return code
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const internalState = blockState.internalState
+    const size = BlockModuleUtils.flattenSignal(inputs[0]).length
+
+    // Two states per element, sized once the input shape is known
+    if (!internalState.states || internalState.states.length !== 2 * size) {
+      const initialCondition = PIDBlockModule.getInitialCondition(internalState)
+      internalState.states = Array.from({ length: 2 * size }, (_, k) => k % 2 === 0 ? initialCondition : 0)
+    }
+    const states: number[] = internalState.states
+    const { lowerLimit, upperLimit } = PIDBlockModule.getLimits(internalState)
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(inputs[0], (e, k) =>
+      BlockModuleUtils.clamp(PIDBlockModule.computeUnsaturatedOutput(internalState, e, states[2 * k], states[2 * k + 1]), lowerLimit, upperLimit)
+    )
+  }
+
+  computeDerivatives(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    time: number
+  ): number[] | undefined {
+    const internalState = blockState.internalState
+    const gains = PIDBlockModule.getGains(internalState)
+    const { lowerLimit, upperLimit } = PIDBlockModule.getLimits(internalState)
+    const antiWindup = PIDBlockModule.getAntiWindup(internalState)
+    const states: number[] = internalState.states || []
+
+    return BlockModuleUtils.flattenSignal(inputs[0]).flatMap((e, k) => {
+      const integral = states[2 * k] ?? 0
+      const filter = states[2 * k + 1] ?? 0
+      const v = PIDBlockModule.computeUnsaturatedOutput(internalState, e, integral, filter)
+      const y = BlockModuleUtils.clamp(v, lowerLimit, upperLimit)
+
+      let integralDerivative = e
+      if (antiWindup === 'back_calculation') {
+        integralDerivative = e + PIDBlockModule.getBackCalculationGain(internalState) * (y - v)
+      } else if (antiWindup === 'clamping' && ((v > y && gains.i * e > 0) || (v < y && gains.i * e < 0))) {
+        integralDerivative = 0
+      }
+
+      return [integralDerivative, gains.n * (e - filter)]
+    })
+  }
+
+  constrainStates(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const internalState = blockState.internalState
+    if (!internalState.showResetInput || inputs[1] === undefined) {
+      return
+    }
+
+    const reset = BlockModuleUtils.flattenSignal(inputs[1])
+    const initialCondition = PIDBlockModule.getInitialCondition(internalState)
+    const states: number[] = internalState.states || []
+
+    internalState.states = states.map((x, k) =>
+      k % 2 === 0 && (reset[k / 2] ?? reset[0]) ? initialCondition : x
+    )
+  }
+
+  isDirectFeedthrough(block: BlockData): boolean {
+    // The proportional and derivative terms act on the current error
+    return true
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return block.parameters?.showResetInput ? 2 : 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getInputPortLabels(block: BlockData): string[] | undefined {
+    return block.parameters?.showResetInput ? ['e', 'reset'] : undefined
+  }
+
+  /**
+   * C expression for the controller output before saturation
+   */
+  private static generateUnsaturatedOutput(params: PIDParameters, error: string, states: string): string {
+    const { p, i, d, n } = PIDBlockModule.getGains(params)
+    const f = (value: number) => BlockModuleUtils.formatDouble(value)
+    const terms = [`${f(p)} * ${error}`]
+    if (i !== 0) {
+      terms.push(`${f(i)} * ${states}[0]`)
+    }
+    if (d !== 0) {
+      terms.push(`${f(d * n)} * (${error} - ${states}[1])`)
+    }
+    return terms.join(' + ')
+  }
+
+  private static computeUnsaturatedOutput(params: PIDParameters, error: number, integral: number, filter: number): number {
+    const { p, i, d, n } = PIDBlockModule.getGains(params)
+    return p * error + i * integral + d * n * (error - filter)
+  }
+
+  private static getGains(params: PIDParameters): PIDGains {
+    const kp = Number(params.kp ?? 1)
+    const ki = Number(params.ki) || 0
+    const kd = Number(params.kd) || 0
+    const filterCoefficient = Number(params.filterCoefficient)
+    const n = filterCoefficient > 0 ? filterCoefficient : 100
+
+    if (PIDBlockModule.getForm(params) === 'ideal') {
+      return { p: kp, i: kp * ki, d: kp * kd, n }
+    }
+    return { p: kp, i: ki, d: kd, n }
+  }
+
+  private static getForm(params: PIDParameters): PIDForm {
+    return params.form === 'ideal' ? 'ideal' : 'parallel'
+  }
+
+  private static getAntiWindup(params: PIDParameters): PIDAntiWindup {
+    const { lowerLimit, upperLimit } = PIDBlockModule.getLimits(params)
+    if (lowerLimit === undefined && upperLimit === undefined) {
+      return 'none' // Nothing to wind up against
+    }
+    return params.antiWindup === 'none' || params.antiWindup === 'back_calculation'
+      ? params.antiWindup
+      : 'clamping'
+  }
+
+  private static getBackCalculationGain(params: PIDParameters): number {
+    return BlockModuleUtils.parseLimit(params.backCalculationGain) ?? 1
+  }
+
+  private static getInitialCondition(params: PIDParameters): number {
+    return Number(params.initialCondition) || 0
+  }
+
+  private static getLimits(params: PIDParameters): { lowerLimit?: number, upperLimit?: number } {
+    return {
+      lowerLimit: BlockModuleUtils.parseLimit(params.lowerLimit),
+      upperLimit: BlockModuleUtils.parseLimit(params.upperLimit)
+    }
+  }
+}
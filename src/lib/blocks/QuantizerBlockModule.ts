@@ -0,0 +1,72 @@
+// lib/blocks/QuantizerBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+/**
+ * Quantizer: rounds the input to the nearest multiple of the quantization
+ * interval, y = q * round(u / q), element-wise for vector and matrix inputs.
+ */
+export class QuantizerBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const q = BlockModuleUtils.formatDouble(QuantizerBlockModule.getInterval(block.parameters || {}))
+
+    if (inputs.length === 0) {
+      return `    ${outputName} = 0.0; // No input\n`
+    }
+
+    let code = `    // Quantizer block: ${block.name} (interval = ${q})\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `${outputName}${index} = ${q} * round(${inputs[0]}${index} / ${q});`
+    ])
+
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const q = QuantizerBlockModule.getInterval(blockState.internalState || {})
+
+    // C round() rounds halfway cases away from zero; Math.round does not
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(
+      inputs[0],
+      value => q * Math.sign(value) * Math.round(Math.abs(value) / q)
+    )
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  private static getInterval(params: { interval?: number }): number {
+    const interval = Number(params.interval)
+    return interval > 0 ? interval : 0.5
+  }
+}
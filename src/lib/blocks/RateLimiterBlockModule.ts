@@ -0,0 +1,152 @@
+// lib/blocks/RateLimiterBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+interface RateLimiterParameters {
+  risingSlewRate?: number
+  fallingSlewRate?: number
+  initialCondition?: number
+  sampleTime?: number
+}
+
+/**
+ * Rate Limiter: limits how fast the output can change per sample,
+ *
+ *   y[k] = y[k-1] + clamp(u[k] - y[k-1], F * Ts, R * Ts)
+ *
+ * with rising slew rate R > 0 and falling slew rate F < 0. The previous
+ * output is a discrete state, so the block runs at its sample time (or the
+ * simulation time step) and holds its output between sample hits.
+ */
+export class RateLimiterBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const hitCondition = BlockModuleUtils.generateSampleHitCondition(block)
+
+    let code = `    // Rate limiter block: ${block.name}\n`
+
+    if (inputs.length === 0) {
+      code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+        `${outputName}${index} = model->states.${blockName}_state${index};`
+      ])
+      return code
+    }
+
+    const { rising, falling } = RateLimiterBlockModule.getSlewRates(block.parameters || {})
+    const samplePeriod = BlockModuleUtils.generateSamplePeriod(block)
+    const f = (value: number) => BlockModuleUtils.formatDouble(value)
+
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => {
+      const state = `model->states.${blockName}_state${index}`
+      const limited = `${state} + fmin(fmax(${inputs[0]}${index} - ${state}, ${f(falling)} * ${samplePeriod}), ${f(rising)} * ${samplePeriod})`
+      return [`${outputName}${index} = ${hitCondition ? `${hitCondition} ? ${limited} : ${state}` : limited};`]
+    })
+    return code
+  }
+
+  generateDiscreteUpdate(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+
+    // The limited output computed this step becomes the previous output
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `model->states.${blockName}_state${index} = model->signals.${blockName}${index};`
+    ])
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return true
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    // The previous output has the same shape as the output
+    return [BlockModuleUtils.generateStructMember(`${block.name}_state`, outputType)]
+  }
+
+  generateInitialization(block: BlockData, outputType?: string): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const initialCondition = Number(block.parameters?.initialCondition) || 0
+    const state = `model->states.${blockName}_state`
+
+    if (initialCondition === 0) {
+      return ''
+    }
+
+    const value = BlockModuleUtils.formatDouble(initialCondition)
+    return BlockModuleUtils.generateElementLoop(BlockModuleUtils.parseType(outputType || 'double'), index => [`${state}${index} = ${value};`])
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const internalState = blockState.internalState
+    const sampleTime = internalState?.sampleTime ?? -1
+    const isHit = BlockModuleUtils.isSampleHit(simulationState.time, simulationState.timeStep, sampleTime)
+    const initialCondition = Number(internalState?.initialCondition) || 0
+    const state: number[] = internalState?.state || []
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(inputs[0], (value, k) => {
+      const previous = state[k] ?? initialCondition
+      return isHit ? RateLimiterBlockModule.limit(value, previous, internalState, simulationState.timeStep) : previous
+    })
+  }
+
+  updateDiscreteStates(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    // Recompute the output from the inputs sampled at the start of the step,
+    // since outputs may have been overwritten by intermediate RK4 stages
+    const internalState = blockState.internalState
+    const initialCondition = Number(internalState.initialCondition) || 0
+    const state: number[] = internalState.state || []
+
+    internalState.state = BlockModuleUtils.flattenSignal(inputs[0]).map((value, k) =>
+      RateLimiterBlockModule.limit(value, state[k] ?? initialCondition, internalState, simulationState.timeStep)
+    )
+  }
+
+  isDirectFeedthrough(block: BlockData): boolean {
+    return true
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  /**
+   * Move from the previous output towards the input by at most one sample's slew
+   */
+  private static limit(input: number, previous: number, params: RateLimiterParameters, timeStep: number): number {
+    const { rising, falling } = RateLimiterBlockModule.getSlewRates(params)
+    const sampleTime = Number(params.sampleTime) > 0 ? Number(params.sampleTime) : timeStep
+    return previous + BlockModuleUtils.clamp(input - previous, falling * sampleTime, rising * sampleTime)
+  }
+
+  private static getSlewRates(params: RateLimiterParameters): { rising: number, falling: number } {
+    return {
+      rising: BlockModuleUtils.parseLimit(params.risingSlewRate) ?? 1,
+      falling: BlockModuleUtils.parseLimit(params.fallingSlewRate) ?? -1
+    }
+  }
+}
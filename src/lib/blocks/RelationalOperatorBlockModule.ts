@@ -0,0 +1,117 @@
+// lib/blocks/RelationalOperatorBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { SignalValue } from '@/lib/modelSchema'
+import { withBaseType } from '@/lib/typeValidator'
+
+export const RELATIONAL_OPERATORS = ['==', '!=', '<', '<=', '>', '>='] as const
+export type RelationalOperator = typeof RELATIONAL_OPERATORS[number]
+
+/**
+ * Relational Operator: compares its two inputs element-wise, giving a
+ * bool signal of the shape of the vector or matrix input. A scalar input
+ * is compared with every element of the other. Fixed-point inputs are
+ * compared by their real values.
+ */
+export class RelationalOperatorBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const operator = RelationalOperatorBlockModule.getOperator(block.parameters || {})
+
+    let code = `    // Relational Operator block: ${block.name} (a ${operator} b)\n`
+    if (inputs.length < 2) {
+      code += `    // Error: Relational Operator block requires 2 inputs\n`
+      return code
+    }
+
+    const types = inputs.map((_, k) => inputTypes?.[k] || 'double')
+    code += BlockModuleUtils.generateElementWiseCombination(
+      outputName,
+      this.getOutputType(block, types),
+      inputs.slice(0, 2),
+      types.slice(0, 2),
+      ([a, b]) => `${RelationalOperatorBlockModule.generateRealValue(a, types[0])} ${operator} ${RelationalOperatorBlockModule.generateRealValue(b, types[1])}`
+    )
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    const shape = BlockModuleUtils.getElementWiseType(inputTypes.slice(0, 2)) || inputTypes[0] || 'bool'
+    return withBaseType(shape, 'bool')
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    if (inputs.length < 2) {
+      console.warn('Relational Operator block requires 2 inputs')
+      blockState.outputs[0] = false
+      return
+    }
+
+    const operator = RelationalOperatorBlockModule.getOperator(blockState.internalState || {})
+    blockState.outputs[0] = BlockModuleUtils.combineSignals(
+      inputs.slice(0, 2),
+      ([a, b]) => RelationalOperatorBlockModule.compare(operator, a, b)
+    ) as unknown as SignalValue
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 2
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getInputPortLabels(block: BlockData): string[] | undefined {
+    return ['a', 'b']
+  }
+
+  /**
+   * Compare two values exactly, as the generated C code does
+   */
+  static compare(operator: RelationalOperator, a: number, b: number): boolean {
+    switch (operator) {
+      case '==': return a === b
+      case '!=': return a !== b
+      case '<': return a < b
+      case '<=': return a <= b
+      case '>': return a > b
+      case '>=': return a >= b
+    }
+  }
+
+  static getOperator(params: { operator?: string }): RelationalOperator {
+    return RELATIONAL_OPERATORS.includes(params.operator as RelationalOperator)
+      ? params.operator as RelationalOperator
+      : '<='
+  }
+
+  /**
+   * C expression for the real value of one element: fixed-point stored
+   * integers with fraction bits are scaled, anything else is used as is
+   */
+  private static generateRealValue(expr: string, typeString: string): string {
+    const fixedPoint = BlockModuleUtils.parseType(typeString).fixedPoint
+    return fixedPoint && fixedPoint.fractionLength > 0
+      ? `((double)${expr} / ${BlockModuleUtils.formatDouble(Math.pow(2, fixedPoint.fractionLength))})`
+      : expr
+  }
+}
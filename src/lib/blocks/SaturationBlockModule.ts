@@ -0,0 +1,95 @@
+// lib/blocks/SaturationBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { quantize, toStoredInteger } from '@/lib/fixedPoint'
+import { FixedPointFormat } from '@/lib/typeValidator'
+
+/**
+ * Saturation: limits the input to [lowerLimit, upperLimit], element-wise
+ * for vector and matrix inputs.
+ */
+export class SaturationBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const { lowerLimit, upperLimit } = SaturationBlockModule.getLimits(block.parameters || {})
+
+    if (inputs.length === 0) {
+      return `    ${outputName} = 0.0; // No input\n`
+    }
+
+    if (typeInfo.fixedPoint) {
+      // Compare stored integers against the limits on the signal's grid
+      const lower = CCodeBuilder.formatStoredInteger(toStoredInteger(lowerLimit, typeInfo.fixedPoint))
+      const upper = CCodeBuilder.formatStoredInteger(toStoredInteger(upperLimit, typeInfo.fixedPoint))
+      let code = `    // Saturation block: ${block.name} [${lowerLimit}, ${upperLimit}] as stored integers [${lower}, ${upper}]\n`
+      code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+        `${outputName}${index} = ${inputs[0]}${index} > ${upper} ? ${upper} : (${inputs[0]}${index} < ${lower} ? ${lower} : ${inputs[0]}${index});`
+      ])
+      return code
+    }
+
+    let code = `    // Saturation block: ${block.name} [${lowerLimit}, ${upperLimit}]\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `${outputName}${index} = ${BlockModuleUtils.generateClamp(`${inputs[0]}${index}`, lowerLimit, upperLimit)};`
+    ])
+
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const fixedPoint = blockState.outputTypes?.[0]?.fixedPoint
+    const { lowerLimit, upperLimit } = SaturationBlockModule.getLimits(blockState.internalState || {}, fixedPoint)
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(
+      inputs[0],
+      value => BlockModuleUtils.clamp(value, lowerLimit, upperLimit)
+    )
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  private static getLimits(
+    params: { lowerLimit?: number, upperLimit?: number },
+    fixedPoint?: FixedPointFormat
+  ): { lowerLimit: number, upperLimit: number } {
+    const lowerLimit = BlockModuleUtils.parseLimit(params.lowerLimit) ?? -1
+    const upperLimit = BlockModuleUtils.parseLimit(params.upperLimit) ?? 1
+
+    // Fixed-point limits are rounded onto the signal's grid like the generated code
+    if (fixedPoint) {
+      return { lowerLimit: quantize(lowerLimit, fixedPoint), upperLimit: quantize(upperLimit, fixedPoint) }
+    }
+    return { lowerLimit, upperLimit }
+  }
+}
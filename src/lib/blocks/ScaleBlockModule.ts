@@ -3,6 +3,16 @@
 import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import {
+  FIXED_POINT_GAIN_FRACTION_LENGTH,
+  fromStoredInteger,
+  multiplyByGain,
+  saturateStoredInteger,
+  toGainStoredInteger,
+  toStoredInteger
+} from '@/lib/fixedPoint'
+import { FixedPointFormat } from '@/lib/typeValidator'
 
 export class ScaleBlockModule implements IBlockModule {
   generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
@@ -19,6 +29,10 @@ export class ScaleBlockModule implements IBlockModule {
     const inputType = inputTypes && inputTypes.length > 0 ? inputTypes[0] : 'double'
     const typeInfo = BlockModuleUtils.parseType(inputType)
     
+    if (typeInfo.fixedPoint) {
+      return this.generateFixedPointComputation(block, input, typeInfo, typeInfo.fixedPoint)
+    }
+    
     let code = `    // Scale block: ${block.name} (gain = ${gain})\n`
     
     if (typeInfo.isMatrix && typeInfo.rows && typeInfo.cols) {
@@ -41,6 +55,54 @@ export class ScaleBlockModule implements IBlockModule {
     return code
   }
 
+  /**
+   * Multiply by the gain as a Q16 integer in a 64-bit product and shift
+   * the product back onto the signal's binary point
+   */
+  private generateFixedPointComputation(
+    block: BlockData,
+    input: string,
+    typeInfo: ReturnType<typeof BlockModuleUtils.parseType>,
+    format: FixedPointFormat
+  ): string {
+    const gain = block.parameters?.gain ?? 1
+    if (typeof gain !== 'number') {
+      // A tunable gain would have to be converted at run time in floating point.
+      // CodeGenerationValidator reports this, so it only shows in code generated despite errors.
+      return `#error "Scale block ${block.name}: fixed-point signals need a constant numeric gain, got ${gain}"\n`
+    }
+
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const productName = `${BlockModuleUtils.sanitizeIdentifier(block.name)}_product`
+    const gainStored = CCodeBuilder.formatStoredInteger(toGainStoredInteger(gain))
+    const shifted = CCodeBuilder.generateFixedPointShift(
+      `(int64_t)${input}${typeInfo.isMatrix ? '[i][j]' : typeInfo.isArray ? '[i]' : ''} * ${gainStored}`,
+      FIXED_POINT_GAIN_FRACTION_LENGTH
+    )
+    const saturated = CCodeBuilder.generateFixedPointSaturation(productName, format)
+
+    let code = `    // Scale block: ${block.name} (gain = ${gain} as Q${FIXED_POINT_GAIN_FRACTION_LENGTH} ${gainStored}, saturating)\n`
+    if (typeInfo.isMatrix && typeInfo.rows && typeInfo.cols) {
+      code += `    for (int i = 0; i < ${typeInfo.rows}; i++) {\n`
+      code += `        for (int j = 0; j < ${typeInfo.cols}; j++) {\n`
+      code += `            int64_t ${productName} = ${shifted};\n`
+      code += `            ${outputName}[i][j] = ${saturated};\n`
+      code += `        }\n`
+      code += `    }\n`
+    } else if (typeInfo.isArray && typeInfo.arraySize) {
+      code += `    for (int i = 0; i < ${typeInfo.arraySize}; i++) {\n`
+      code += `        int64_t ${productName} = ${shifted};\n`
+      code += `        ${outputName}[i] = ${saturated};\n`
+      code += `    }\n`
+    } else {
+      code += `    {\n`
+      code += `        int64_t ${productName} = ${shifted};\n`
+      code += `        ${outputName} = ${saturated};\n`
+      code += `    }\n`
+    }
+    return code
+  }
+
   getOutputType(block: BlockData, inputTypes: string[]): string {
     // Scale block output type matches the input type
     if (inputTypes.length === 0) {
@@ -82,6 +144,12 @@ export class ScaleBlockModule implements IBlockModule {
       return
     }
     
+    const fixedPoint = blockState.outputTypes?.[0]?.fixedPoint
+    if (fixedPoint) {
+      blockState.outputs[0] = ScaleBlockModule.scaleFixedPoint(input, gain, fixedPoint)
+      return
+    }
+    
     // Handle different input types
     if (Array.isArray(input)) {
       if (Array.isArray(input[0])) {
@@ -103,6 +171,20 @@ export class ScaleBlockModule implements IBlockModule {
     }
   }
 
+  /**
+   * Bit-accurate model of the generated fixed-point multiply
+   */
+  private static scaleFixedPoint<T>(input: T, gain: number, format: FixedPointFormat): T {
+    if (Array.isArray(input)) {
+      return input.map(element => ScaleBlockModule.scaleFixedPoint(element, gain, format)) as unknown as T
+    }
+    if (typeof input !== 'number') {
+      return 0 as unknown as T
+    }
+    const product = multiplyByGain(toStoredInteger(input, format), toGainStoredInteger(gain))
+    return fromStoredInteger(saturateStoredInteger(product, format), format) as unknown as T
+  }
+
   getInputPortCount(block: BlockData): number {
     // Scale blocks have exactly 1 input
     return 1
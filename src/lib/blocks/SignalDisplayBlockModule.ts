@@ -41,14 +41,18 @@ export class SignalDisplayBlockModule implements IBlockModule {
     inputs: (number | number[] | boolean | boolean[] | number[][])[],
     simulationState: SimulationState
   ): void {
-    const input = inputs[0]
-    const { samples, maxSamples } = blockState.internalState
+    const { samples, maxSamples, displayMode } = blockState.internalState
     
     // Check if input is a matrix and reject it
-    if (Array.isArray(input) && Array.isArray(input[0])) {
+    if (inputs.some(input => Array.isArray(input) && Array.isArray(input[0]))) {
       console.error(`Signal display block ${blockState.blockId} cannot display matrix signals. Use separate displays for each matrix element.`)
       return
     }
+
+    // XY displays record both inputs together as [x, y]
+    const input = displayMode === 'xy'
+      ? [inputs[0] ?? 0, inputs[1] ?? 0] as number[] | number[][]
+      : inputs[0]
     
     // Store the current input value
     // For vectors, we'll store the entire vector
@@ -65,8 +69,8 @@ export class SignalDisplayBlockModule implements IBlockModule {
   }
 
   getInputPortCount(block: BlockData): number {
-    // Signal display blocks have exactly 1 input
-    return 1
+    // XY displays take x and y; time displays have exactly 1 input
+    return block.parameters?.displayMode === 'xy' ? 2 : 1
   }
 
   getOutputPortCount(block: BlockData): number {
@@ -74,9 +78,8 @@ export class SignalDisplayBlockModule implements IBlockModule {
     return 0
   }
 
-  // No custom port labels needed
   getInputPortLabels?(block: BlockData): string[] | undefined {
-    return undefined
+    return block.parameters?.displayMode === 'xy' ? ['x', 'y'] : undefined
   }
 
   getOutputPortLabels?(block: BlockData): string[] | undefined {
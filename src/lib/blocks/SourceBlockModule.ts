@@ -4,6 +4,28 @@ import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { IBlockModule, BlockModuleUtils } from './BlockModule'
 import { parseType, ParsedType } from '@/lib/typeValidator'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { quantizeSignal, toStoredInteger } from '@/lib/fixedPoint'
+
+// 2*pi as a literal, since M_PI is not part of standard C
+const TWO_PI_LITERAL = '6.283185307179586'
+
+interface SourceGeneratorParameters {
+  constantValue: number
+  stepTime: number
+  stepValue: number
+  slope: number
+  startTime: number
+  frequency: number
+  amplitude: number
+  phase: number
+  offset: number
+  f0: number
+  f1: number
+  duration: number
+  mean: number
+  seed: number
+}
 
 export class SourceBlockModule implements IBlockModule {
   generateComputation(block: BlockData, inputs: string[]): string {
@@ -12,7 +34,13 @@ export class SourceBlockModule implements IBlockModule {
     const dataType = block.parameters?.dataType || 'double'
     const typeInfo = BlockModuleUtils.parseType(dataType)
     
-    let code = `    // Source block: ${block.name} (${signalType})\n`
+    let code = `    // Source block: ${block.name} (${CCodeBuilder.escapeComment(signalType)})\n`
+    
+    // Fixed-point constants are written as their stored integers
+    const fixedPoint = typeInfo.fixedPoint
+    const literal = (element: number | string): number | string => fixedPoint
+      ? CCodeBuilder.formatStoredInteger(toStoredInteger(Number(element) || 0, fixedPoint))
+      : element
     
     if (signalType === 'constant') {
       // For constants, use the value directly
@@ -23,31 +51,166 @@ export class SourceBlockModule implements IBlockModule {
         code += `    // Matrix constant\n`
         for (let i = 0; i < value.length; i++) {
           for (let j = 0; j < value[i].length; j++) {
-            code += `    ${outputName}[${i}][${j}] = ${value[i][j]};\n`
+            code += `    ${outputName}[${i}][${j}] = ${literal(value[i][j])};\n`
           }
         }
       } else if (typeInfo.isArray && Array.isArray(value)) {
         // Vector constant
         code += `    // Vector constant\n`
         for (let i = 0; i < value.length; i++) {
-          code += `    ${outputName}[${i}] = ${value[i]};\n`
+          code += `    ${outputName}[${i}] = ${literal(value[i])};\n`
         }
       } else {
         // Scalar constant
         const constantValue = value !== undefined ? value : 0
-        code += `    ${outputName} = ${constantValue};\n`
+        code += `    ${outputName} = ${literal(constantValue)};\n`
       }
     } else {
-      // For signal generators, we need to implement the signal generation
-      // This is a simplified version - real implementation would need time tracking
-      code += `    // Signal generator type: ${signalType}\n`
-      code += `    // TODO: Implement ${signalType} signal generation\n`
-      code += `    ${outputName} = 0.0; // Placeholder\n`
+      // Signal generators are evaluated from the model time so that the
+      // generated code reproduces the simulation sample-for-sample
+      const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+      const p = SourceBlockModule.resolveGeneratorParameters(block.parameters || {})
+      let valueName = `${blockName}_value`
+
+      code += `    {\n`
+      code += this.generateSignalValue(signalType, p, blockName, valueName)
+
+      // Generated signals are computed in floating point and rounded onto
+      // the fixed-point grid, saturating at the limits of the word
+      if (fixedPoint) {
+        const storedName = `${blockName}_stored`
+        code += `        int64_t ${storedName} = (int64_t)floor(${valueName} * ${BlockModuleUtils.formatDouble(Math.pow(2, fixedPoint.fractionLength))} + 0.5);\n`
+        code += `        ${CCodeBuilder.getFixedPointCType(fixedPoint)} ${blockName}_fixed = ${CCodeBuilder.generateFixedPointSaturation(storedName, fixedPoint)};\n`
+        valueName = `${blockName}_fixed`
+      }
+
+      if (typeInfo.isMatrix && typeInfo.rows && typeInfo.cols) {
+        code += `        for (int i = 0; i < ${typeInfo.rows}; i++) {\n`
+        code += `            for (int j = 0; j < ${typeInfo.cols}; j++) {\n`
+        code += `                ${outputName}[i][j] = ${valueName};\n`
+        code += `            }\n`
+        code += `        }\n`
+      } else if (typeInfo.isArray && typeInfo.arraySize) {
+        code += `        for (int i = 0; i < ${typeInfo.arraySize}; i++) {\n`
+        code += `            ${outputName}[i] = ${valueName};\n`
+        code += `        }\n`
+      } else {
+        code += `        ${outputName} = ${valueName};\n`
+      }
+      code += `    }\n`
     }
     
     return code
   }
 
+  /**
+   * Generate the C statements that compute the current generator value
+   * into a local variable. Periodic generators also store their phase in
+   * the block's _phase state member.
+   */
+  private generateSignalValue(
+    signalType: string,
+    p: SourceGeneratorParameters,
+    blockName: string,
+    valueName: string
+  ): string {
+    const phaseName = `model->states.${blockName}_phase`
+    const f = (value: number) => BlockModuleUtils.formatDouble(value)
+    let code = ''
+
+    switch (signalType) {
+      case 'step':
+        code += `        double ${valueName} = (model->time >= ${f(p.stepTime)}) ? ${f(p.stepValue)} : 0.0;\n`
+        break
+
+      case 'ramp':
+        code += `        double ${valueName} = (model->time >= ${f(p.startTime)}) ? ${f(p.slope)} * (model->time - ${f(p.startTime)}) : 0.0;\n`
+        break
+
+      case 'sine':
+        code += `        ${phaseName} = ${TWO_PI_LITERAL} * ${f(p.frequency)} * model->time + ${f(p.phase)};\n`
+        code += `        double ${valueName} = ${f(p.offset)} + ${f(p.amplitude)} * sin(${phaseName});\n`
+        break
+
+      case 'square':
+        code += `        ${phaseName} = fmod(model->time, ${f(1.0 / p.frequency)}) / ${f(1.0 / p.frequency)};\n`
+        code += `        double ${valueName} = (${phaseName} < 0.5) ? ${f(p.amplitude)} : ${f(-p.amplitude)};\n`
+        break
+
+      case 'triangle':
+        code += `        ${phaseName} = fmod(model->time, ${f(1.0 / p.frequency)}) / ${f(1.0 / p.frequency)};\n`
+        code += `        double ${valueName} = (${phaseName} < 0.5)\n`
+        code += `            ? ${f(p.amplitude)} * (4.0 * ${phaseName} - 1.0)\n`
+        code += `            : ${f(p.amplitude)} * (3.0 - 4.0 * ${phaseName});\n`
+        break
+
+      case 'noise':
+        // Counter-based hash of the sample index, matching sampleNoise()
+        code += `        uint32_t ${blockName}_k = (model->dt > 0.0) ? (uint32_t)floor(model->time / model->dt + 0.5) : 0u;\n`
+        code += `        uint32_t ${blockName}_h = ${p.seed}u ^ (${blockName}_k * 0x9E3779B9u);\n`
+        code += `        ${blockName}_h ^= ${blockName}_h >> 16;\n`
+        code += `        ${blockName}_h *= 0x7FEB352Du;\n`
+        code += `        ${blockName}_h ^= ${blockName}_h >> 15;\n`
+        code += `        ${blockName}_h *= 0x846CA68Bu;\n`
+        code += `        ${blockName}_h ^= ${blockName}_h >> 16;\n`
+        code += `        double ${valueName} = ${f(p.mean)} + ${f(p.amplitude)} * (((double)${blockName}_h / 4294967296.0) - 0.5) * 2.0;\n`
+        break
+
+      case 'chirp':
+        code += `        double ${blockName}_t = fmin(model->time, ${f(p.duration)});\n`
+        code += `        double ${blockName}_f = ${f(p.f0)} + ${f(p.f1 - p.f0)} * ${blockName}_t / ${f(p.duration)};\n`
+        code += `        ${phaseName} = ${TWO_PI_LITERAL} * ${blockName}_f * ${blockName}_t;\n`
+        code += `        double ${valueName} = ${f(p.amplitude)} * sin(${phaseName});\n`
+        break
+
+      default:
+        code += `        double ${valueName} = ${f(p.constantValue)};\n`
+    }
+
+    return code
+  }
+
+  /**
+   * Resolve generator parameters with the same defaults the simulation
+   * engine applies, so simulation and generated code agree.
+   */
+  private static resolveGeneratorParameters(params: NonNullable<BlockData['parameters']>): SourceGeneratorParameters {
+    const value = params.value
+    const constantValue = (Array.isArray(value) ? value[0] : value) || 0
+    return {
+      constantValue: typeof constantValue === 'number' ? constantValue : 0,
+      stepTime: params.stepTime || 1.0,
+      stepValue: params.stepValue || 1.0,
+      slope: params.slope || 1.0,
+      startTime: params.startTime || 0,
+      frequency: params.frequency || 1.0,
+      amplitude: params.amplitude || 1.0,
+      phase: params.phase || 0,
+      offset: params.offset || 0,
+      f0: params.f0 || 0.1,
+      f1: params.f1 || 10,
+      duration: params.duration || 10,
+      mean: params.mean || 0,
+      seed: (params.seed || 0) >>> 0
+    }
+  }
+
+  /**
+   * Uniform noise in [mean - amplitude, mean + amplitude) for a given
+   * sample index. Uses a stateless 32-bit integer hash so the sequence is
+   * reproducible and identical to the generated C code.
+   */
+  static sampleNoise(seed: number, sampleIndex: number, amplitude: number, mean: number): number {
+    let h = ((seed >>> 0) ^ Math.imul(sampleIndex >>> 0, 0x9E3779B9)) >>> 0
+    h ^= h >>> 16
+    h = Math.imul(h, 0x7FEB352D) >>> 0
+    h ^= h >>> 15
+    h = Math.imul(h, 0x846CA68B) >>> 0
+    h ^= h >>> 16
+    h >>>= 0
+    return mean + amplitude * ((h / 4294967296) - 0.5) * 2
+  }
+
   getOutputType(block: BlockData, inputTypes: string[]): string {
     // Source block output type is defined by its dataType parameter
     return block.parameters?.dataType || 'double'
@@ -107,16 +270,14 @@ export class SourceBlockModule implements IBlockModule {
         if (Array.isArray(blockState.internalState.value)) {
             // Output the vector
             blockState.outputs[0] = [...blockState.internalState.value]
-            return
         } else {
             // Output scalar value
             blockState.outputs[0] = blockState.internalState.value
-            return
         }
+        SourceBlockModule.applyFixedPoint(blockState, parsedType)
+        return
       }    
 
-    console.log(`ERROR: Should not reach here for constant array signal!`)
-    
     // Generate the signal value (for scalars or non-constant vectors)
     let scalarValue = 0
     const constantValue = blockState.internalState.constantValue || 0
@@ -171,8 +332,13 @@ export class SourceBlockModule implements IBlockModule {
       case 'noise':
         const noiseAmplitude = blockState.internalState.amplitude || 0.1
         const noiseMean = blockState.internalState.mean || 0
-        // Simple uniform noise
-        scalarValue = noiseMean + noiseAmplitude * (Math.random() - 0.5) * 2
+        const noiseSeed = blockState.internalState.seed || 0
+        // Derive the sample from the step index rather than Math.random() so
+        // repeated evaluations within a step (e.g. RK4 stages) are stable
+        const sampleIndex = simulationState.timeStep > 0
+          ? Math.floor(time / simulationState.timeStep + 0.5)
+          : 0
+        scalarValue = SourceBlockModule.sampleNoise(noiseSeed, sampleIndex, noiseAmplitude, noiseMean)
         break
         
       case 'chirp':
@@ -203,6 +369,16 @@ export class SourceBlockModule implements IBlockModule {
     } else {
       blockState.outputs[0] = scalarValue
     }
+    SourceBlockModule.applyFixedPoint(blockState, parsedType)
+  }
+
+  /**
+   * Round the output onto the grid of a fixed-point data type
+   */
+  private static applyFixedPoint(blockState: BlockState, parsedType: ParsedType): void {
+    if (parsedType.fixedPoint) {
+      blockState.outputs[0] = quantizeSignal(blockState.outputs[0], parsedType.fixedPoint)
+    }
   }
 
   getInputPortCount(block: BlockData): number {
@@ -0,0 +1,485 @@
+// lib/blocks/StateChartBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { C99ExpressionParser, Expression } from '@/lib/c99ExpressionParser'
+import { C99ExpressionValidator } from '@/lib/c99ExpressionValidator'
+import { C99ExpressionEvaluator } from '@/lib/c99ExpressionEvaluator'
+import { c99ExpressionToCode } from '@/lib/c99ExpressionCodeGen'
+
+export interface StateChartState {
+  name: string
+  /** Actions run when the state is entered, in each step it stays active, and when it is left */
+  entry?: string
+  during?: string
+  exit?: string
+  /** Position of the state in the chart editor */
+  position?: { x: number, y: number }
+}
+
+export interface StateChartTransition {
+  from: string
+  to: string
+  /** Condition for taking the transition; an empty guard is always true */
+  guard?: string
+  /** Action run after the exit action of the source state */
+  action?: string
+}
+
+export interface StateChartOutput {
+  name: string
+  initialValue?: number
+}
+
+export interface StateChartDefinition {
+  inputs: string[]
+  outputs: StateChartOutput[]
+  states: StateChartState[]
+  transitions: StateChartTransition[]
+  initialState: string
+}
+
+/**
+ * One statement of an action: `target = value`
+ */
+export interface StateChartAssignment {
+  target: string
+  value: Expression
+  text: string
+}
+
+interface CompiledTransition {
+  to: number
+  guard: Expression | null
+  guardText: string
+  action: StateChartAssignment[]
+}
+
+interface CompiledState {
+  name: string
+  entry: StateChartAssignment[]
+  during: StateChartAssignment[]
+  exit: StateChartAssignment[]
+  /** Outgoing transitions in the order they are checked */
+  transitions: CompiledTransition[]
+}
+
+export interface CompiledStateChart {
+  inputs: string[]
+  outputs: string[]
+  initialValues: number[]
+  states: CompiledState[]
+  initialState: number
+}
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/
+
+/**
+ * State Chart: mode logic written as states and transitions. Guards and
+ * the entry, during and exit actions use the C99 expression subset of the
+ * Evaluate block, reading the inputs and outputs by name; actions are
+ * assignments to outputs separated by semicolons, e.g. `y = 0; n = n + 1`.
+ *
+ * In its first step the chart enters the initial state and runs its entry
+ * action. In each later step it takes the first outgoing transition of the
+ * active state whose guard is true, running the exit action of the state,
+ * the transition action and the entry action of the next state, or runs the
+ * during action when no guard is true. Outputs hold their values between
+ * the actions assigning them.
+ *
+ * The active state and output values are discrete states, latched at the
+ * end of the step. The generated code executes the chart as a switch on the
+ * active state, stored in the model's state struct.
+ */
+export class StateChartBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const activeState = `model->signals.${blockName}_active_state`
+    const definition = StateChartBlockModule.getDefinition(block.parameters || {})
+    const outputNames = this.getOutputSignalNames(block)
+
+    let chart: CompiledStateChart
+    try {
+      chart = StateChartBlockModule.compile(definition)
+    } catch (error) {
+      let code = `    // State chart block: ${block.name} - ${error instanceof Error ? error.message : error}\n`
+      outputNames.forEach((name, k) => {
+        code += `    model->signals.${name} = model->states.${blockName}_data[${k}];\n`
+      })
+      return code
+    }
+
+    // Inputs are read as doubles, outputs are updated in place
+    const variables: Record<string, string> = {}
+    chart.inputs.forEach((name, i) => {
+      variables[name] = i < inputs.length
+        ? `(${BlockModuleUtils.generateScalarValue(inputs[i], inputTypes?.[i] || 'double')})`
+        : '0.0'
+    })
+    chart.outputs.forEach((name, k) => {
+      variables[name] = `model->signals.${outputNames[k]}`
+    })
+    const expression = (expr: Expression) => c99ExpressionToCode(expr, [], variables).code
+    const actions = (label: string, assignments: StateChartAssignment[], indent: string) =>
+      assignments.map(assignment =>
+        `${indent}${variables[assignment.target]} = ${expression(assignment.value)}; /* ${label}: ${CCodeBuilder.escapeComment(assignment.text)} */\n`
+      ).join('')
+
+    let code = `    // State chart block: ${block.name}\n`
+    code += `    ${activeState} = model->states.${blockName}_active_state;\n`
+    outputNames.forEach((name, k) => {
+      code += `    model->signals.${name} = model->states.${blockName}_data[${k}];\n`
+    })
+    code += `    switch (${activeState}) {\n`
+    chart.states.forEach((state, index) => {
+      code += `        case ${index}: /* ${CCodeBuilder.escapeComment(state.name)} */\n`
+      const indent = state.transitions.length > 0 ? '                ' : '            '
+      state.transitions.forEach((transition, t) => {
+        const target = chart.states[transition.to]
+        const keyword = t === 0 ? 'if' : '} else if'
+        const condition = transition.guard ? expression(transition.guard) : '1'
+        code += `            ${keyword} (${condition}) { /* ${CCodeBuilder.escapeComment(`${transition.guardText || 'always'} -> ${target.name}`)} */\n`
+        code += actions('exit', state.exit, indent)
+        code += actions('transition', transition.action, indent)
+        code += actions('entry', target.entry, indent)
+        code += `${indent}${activeState} = ${transition.to};\n`
+      })
+      if (state.transitions.length > 0) {
+        code += `            } else {\n`
+        code += actions('during', state.during, indent)
+        code += `            }\n`
+      } else {
+        code += actions('during', state.during, indent)
+      }
+      code += `            break;\n`
+    })
+    code += `        default: /* Enter the initial state ${CCodeBuilder.escapeComment(chart.states[chart.initialState].name)} */\n`
+    code += actions('entry', chart.states[chart.initialState].entry, '            ')
+    code += `            ${activeState} = ${chart.initialState};\n`
+    code += `            break;\n`
+    code += `    }\n`
+
+    return code
+  }
+
+  generateDiscreteUpdate(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+
+    // The chart already ran this step; latch its active state and outputs
+    let code = `    model->states.${blockName}_active_state = model->signals.${blockName}_active_state;\n`
+    this.getOutputSignalNames(block).forEach((name, k) => {
+      code += `    model->states.${blockName}_data[${k}] = model->signals.${name};\n`
+    })
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Chart outputs are always double
+    return 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    return [
+      ...this.getOutputSignalNames(block).map(name => `    double ${name};`),
+      `    int ${blockName}_active_state;`
+    ].join('\n')
+  }
+
+  requiresState(block: BlockData): boolean {
+    return true
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputCount = Math.max(1, this.getOutputPortCount(block))
+    return [
+      `    int ${blockName}_active_state;`,
+      `    double ${blockName}_data[${outputCount}];`
+    ]
+  }
+
+  generateInitialization(block: BlockData, outputType?: string): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const definition = StateChartBlockModule.getDefinition(block.parameters || {})
+
+    // No state is active until the chart first runs
+    let code = `    model->states.${blockName}_active_state = -1;\n`
+    definition.outputs.forEach((output, k) => {
+      const initialValue = Number(output.initialValue) || 0
+      if (initialValue !== 0) {
+        code += `    model->states.${blockName}_data[${k}] = ${BlockModuleUtils.formatDouble(initialValue)};\n`
+      }
+    })
+    return code
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const params = blockState.internalState || {}
+    const chart = StateChartBlockModule.getCompiledChart(params)
+    const variables: number[] = params.variables ?? []
+
+    const result = chart
+      ? StateChartBlockModule.step(chart, params.activeState ?? -1, variables, StateChartBlockModule.toNumbers(inputs))
+      : { activeState: -1, variables }
+    result.variables.forEach((value, k) => {
+      blockState.outputs[k] = value
+    })
+  }
+
+  updateDiscreteStates(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const params = blockState.internalState
+    const chart = StateChartBlockModule.getCompiledChart(params)
+    if (!chart) return
+
+    const result = StateChartBlockModule.step(chart, params.activeState ?? -1, params.variables ?? [], StateChartBlockModule.toNumbers(inputs))
+    params.activeState = result.activeState
+    params.variables = result.variables
+  }
+
+  isDirectFeedthrough(block: BlockData): boolean {
+    // Guards and actions read the inputs of the current step
+    return true
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return StateChartBlockModule.getDefinition(block.parameters || {}).inputs.length
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return StateChartBlockModule.getDefinition(block.parameters || {}).outputs.length
+  }
+
+  getInputPortLabels(block: BlockData): string[] | undefined {
+    return StateChartBlockModule.getDefinition(block.parameters || {}).inputs
+  }
+
+  getOutputPortLabels(block: BlockData): string[] | undefined {
+    return StateChartBlockModule.getDefinition(block.parameters || {}).outputs.map(output => output.name)
+  }
+
+  private getOutputSignalNames(block: BlockData): string[] {
+    const outputCount = this.getOutputPortCount(block)
+    return Array.from({ length: outputCount }, (_, port) =>
+      BlockModuleUtils.getOutputSignalName(block.name, port, outputCount)
+    )
+  }
+
+  /**
+   * Execute one step of a chart: enter the initial state if no state is
+   * active, otherwise take the first transition whose guard is true or run
+   * the during action of the active state. Returns the state active after
+   * the step and the output values.
+   */
+  static step(
+    chart: CompiledStateChart,
+    activeState: number,
+    variables: number[],
+    inputs: number[]
+  ): { activeState: number, variables: number[] } {
+    const scope: Record<string, number> = {}
+    chart.inputs.forEach((name, i) => { scope[name] = inputs[i] ?? 0 })
+    chart.outputs.forEach((name, k) => { scope[name] = variables[k] ?? chart.initialValues[k] })
+
+    const evaluator = new C99ExpressionEvaluator([], scope)
+    const run = (assignments: StateChartAssignment[]) => {
+      for (const assignment of assignments) {
+        scope[assignment.target] = evaluator.evaluate(assignment.value)
+      }
+    }
+
+    let nextState = activeState
+    try {
+      const state = chart.states[activeState]
+      if (!state) {
+        run(chart.states[chart.initialState].entry)
+        nextState = chart.initialState
+      } else {
+        const transition = state.transitions.find(t => !t.guard || evaluator.evaluate(t.guard) !== 0)
+        if (transition) {
+          run(state.exit)
+          run(transition.action)
+          run(chart.states[transition.to].entry)
+          nextState = transition.to
+        } else {
+          run(state.during)
+        }
+      }
+    } catch (error) {
+      // A failing action leaves the chart in its state with the values assigned so far
+      console.warn(`State chart evaluation error: ${error}`)
+    }
+
+    return { activeState: nextState, variables: chart.outputs.map(name => scope[name]) }
+  }
+
+  /**
+   * Compile a chart definition, throwing on the first problem found
+   */
+  static compile(definition: StateChartDefinition): CompiledStateChart {
+    const errors: string[] = []
+    const chart = StateChartBlockModule.compileChart(definition, errors)
+    if (errors.length > 0) {
+      throw new Error(errors[0])
+    }
+    return chart
+  }
+
+  /**
+   * All problems in a chart definition, empty when the chart is valid
+   */
+  static validate(definition: StateChartDefinition): string[] {
+    const errors: string[] = []
+    StateChartBlockModule.compileChart(definition, errors)
+    return errors
+  }
+
+  private static compileChart(definition: StateChartDefinition, errors: string[]): CompiledStateChart {
+    const inputs = definition.inputs
+    const outputs = definition.outputs.map(output => output.name)
+    const names = [...inputs, ...outputs]
+
+    for (const name of names) {
+      if (!NAME_PATTERN.test(name)) {
+        errors.push(`'${name}' is not a valid name; names start with a letter followed by letters, digits or underscores`)
+      }
+    }
+    const duplicateName = names.find((name, i) => names.indexOf(name) !== i)
+    if (duplicateName) {
+      errors.push(`The name '${duplicateName}' is used more than once`)
+    }
+    if (outputs.length === 0) {
+      errors.push('A state chart needs at least one output')
+    }
+
+    const stateNames = definition.states.map(state => state.name)
+    if (stateNames.length === 0) {
+      errors.push('A state chart needs at least one state')
+    }
+    for (const name of stateNames) {
+      if (!NAME_PATTERN.test(name)) {
+        errors.push(`'${name}' is not a valid state name`)
+      }
+    }
+    const duplicateState = stateNames.find((name, i) => stateNames.indexOf(name) !== i)
+    if (duplicateState) {
+      errors.push(`The state name '${duplicateState}' is used more than once`)
+    }
+
+    const validator = new C99ExpressionValidator(0, names)
+    const parseExpression = (text: string, context: string): Expression | null => {
+      try {
+        const expr = new C99ExpressionParser(text).parse()
+        const result = validator.validate(expr)
+        errors.push(...result.errors.map(error => `${context}: ${error}`))
+        return result.valid ? expr : null
+      } catch (error) {
+        errors.push(`${context}: ${error instanceof Error ? error.message : error}`)
+        return null
+      }
+    }
+    const parseAction = (text: string | undefined, context: string): StateChartAssignment[] => {
+      const assignments: StateChartAssignment[] = []
+      for (const statement of (text || '').split(';').map(s => s.trim()).filter(Boolean)) {
+        const match = statement.match(/^([A-Za-z_]\w*)\s*=(?!=)\s*([\s\S]*)$/)
+        if (!match) {
+          errors.push(`${context}: expected an assignment 'output = expression', got '${statement}'`)
+          continue
+        }
+        if (!outputs.includes(match[1])) {
+          errors.push(`${context}: '${match[1]}' is not an output`)
+          continue
+        }
+        const value = parseExpression(match[2], context)
+        if (value) {
+          assignments.push({ target: match[1], value, text: statement })
+        }
+      }
+      return assignments
+    }
+
+    const states: CompiledState[] = definition.states.map(state => ({
+      name: state.name,
+      entry: parseAction(state.entry, `${state.name} entry`),
+      during: parseAction(state.during, `${state.name} during`),
+      exit: parseAction(state.exit, `${state.name} exit`),
+      transitions: []
+    }))
+
+    for (const transition of definition.transitions) {
+      const context = `${transition.from} -> ${transition.to}`
+      const from = stateNames.indexOf(transition.from)
+      const to = stateNames.indexOf(transition.to)
+      if (from < 0 || to < 0) {
+        errors.push(`${context}: unknown state '${from < 0 ? transition.from : transition.to}'`)
+        continue
+      }
+      const guardText = (transition.guard || '').trim()
+      states[from].transitions.push({
+        to,
+        guard: guardText ? parseExpression(guardText, `${context} guard`) : null,
+        guardText,
+        action: parseAction(transition.action, `${context} action`)
+      })
+    }
+
+    const initialState = stateNames.indexOf(definition.initialState)
+    if (stateNames.length > 0 && initialState < 0) {
+      errors.push(`Unknown initial state '${definition.initialState}'`)
+    }
+
+    return {
+      inputs,
+      outputs,
+      initialValues: definition.outputs.map(output => Number(output.initialValue) || 0),
+      states,
+      initialState: Math.max(0, initialState)
+    }
+  }
+
+  /**
+   * The chart definition in block parameters, with defaults for missing fields
+   */
+  static getDefinition(params: Partial<StateChartDefinition>): StateChartDefinition {
+    const states = Array.isArray(params.states) ? params.states : []
+    return {
+      inputs: Array.isArray(params.inputs) ? params.inputs.map(String) : [],
+      outputs: Array.isArray(params.outputs) ? params.outputs : [],
+      states,
+      transitions: Array.isArray(params.transitions) ? params.transitions : [],
+      initialState: params.initialState ?? states[0]?.name ?? ''
+    }
+  }
+
+  /**
+   * The compiled chart kept in a block's internal state, or null when the
+   * chart is invalid
+   */
+  private static getCompiledChart(
+    params: Partial<StateChartDefinition> & { compiledChart?: CompiledStateChart | null }
+  ): CompiledStateChart | null {
+    if (params.compiledChart === undefined) {
+      try {
+        params.compiledChart = StateChartBlockModule.compile(StateChartBlockModule.getDefinition(params))
+      } catch (error) {
+        console.warn(`Invalid state chart: ${error instanceof Error ? error.message : error}`)
+        params.compiledChart = null
+      }
+    }
+    return params.compiledChart ?? null
+  }
+
+  private static toNumbers(inputs: (number | number[] | boolean | boolean[] | number[][])[]): number[] {
+    return inputs.map(input => BlockModuleUtils.flattenSignal(input)[0])
+  }
+}
@@ -4,6 +4,16 @@ import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { IBlockModule, BlockModuleUtils } from './BlockModule'
 
+/**
+ * When a subsystem with a trigger input runs. Edge triggers run once on
+ * each crossing of zero by the trigger signal; function-call triggers run on
+ * every step the trigger signal is nonzero.
+ */
+export type TriggerType = 'rising' | 'falling' | 'either' | 'function_call'
+
+/** What an enabled subsystem's states do when it is enabled again */
+export type StatesWhenEnabling = 'held' | 'reset'
+
 export class SubsystemBlockModule implements IBlockModule {
   generateComputation(block: BlockData, inputs: string[]): string {
     // Subsystem blocks are flattened during code generation
@@ -89,4 +99,57 @@ export class SubsystemBlockModule implements IBlockModule {
     const outputPorts = block.parameters?.outputPorts || []
     return outputPorts.length > 0 ? outputPorts : undefined
   }
+
+  // The trigger input is a separate handle on top of the block (target port
+  // index -2), so it is not counted or labelled with the input ports
+
+  static getTriggerType(block: BlockData): TriggerType | null {
+    if (block.type !== 'subsystem' || !block.parameters?.showTriggerInput) {
+      return null
+    }
+    return block.parameters?.triggerType || 'rising'
+  }
+
+  static getStatesWhenEnabling(block: BlockData): StatesWhenEnabling {
+    return block.parameters?.statesWhenEnabling === 'reset' ? 'reset' : 'held'
+  }
+
+  /**
+   * Whether the trigger signal going from previous to current is a trigger
+   * event. As in Simulink, a rising edge goes from negative to zero or
+   * positive, or from zero to positive; a falling edge is the mirror image.
+   */
+  static isTriggerEvent(triggerType: TriggerType, previous: number, current: number): boolean {
+    const rising = (previous < 0 && current >= 0) || (previous === 0 && current > 0)
+    const falling = (previous > 0 && current <= 0) || (previous === 0 && current < 0)
+    switch (triggerType) {
+      case 'rising':
+        return rising
+      case 'falling':
+        return falling
+      case 'either':
+        return rising || falling
+      case 'function_call':
+        return current !== 0
+    }
+  }
+
+  /**
+   * C condition matching isTriggerEvent for the given previous and current
+   * trigger signal expressions
+   */
+  static generateTriggerCondition(triggerType: TriggerType, previous: string, current: string): string {
+    const rising = `((${previous} < 0.0 && ${current} >= 0.0) || (${previous} == 0.0 && ${current} > 0.0))`
+    const falling = `((${previous} > 0.0 && ${current} <= 0.0) || (${previous} == 0.0 && ${current} < 0.0))`
+    switch (triggerType) {
+      case 'rising':
+        return rising
+      case 'falling':
+        return falling
+      case 'either':
+        return `(${rising} || ${falling})`
+      case 'function_call':
+        return `(${current} != 0.0)`
+    }
+  }
 }
\ No newline at end of file
@@ -3,7 +3,9 @@
 import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { IBlockModule, BlockModuleUtils } from './BlockModule'
-import { parseType, ParsedType } from '@/lib/typeValidator'
+import { parseType, ParsedType, FixedPointFormat } from '@/lib/typeValidator'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { quantizeSignal } from '@/lib/fixedPoint'
 
 export class SumBlockModule implements IBlockModule {
   generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
@@ -30,6 +32,10 @@ export class SumBlockModule implements IBlockModule {
       parsedType = { baseType: 'double', isArray: false, isMatrix: false }
     }
     
+    if (parsedType.fixedPoint) {
+      return this.generateFixedPointComputation(block, inputs, signs, parsedType, parsedType.fixedPoint)
+    }
+    
     // Generate computation based on parsed type
     if (parsedType.isMatrix && parsedType.rows && parsedType.cols) {
       // Matrix addition with signs
@@ -77,6 +83,56 @@ export class SumBlockModule implements IBlockModule {
     }
   }
 
+  /**
+   * Sum fixed-point inputs in a wider integer and saturate the result
+   * into the output word. All inputs share the output's binary point.
+   */
+  private generateFixedPointComputation(
+    block: BlockData,
+    inputs: string[],
+    signs: string,
+    parsedType: ParsedType,
+    format: FixedPointFormat
+  ): string {
+    const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
+    const accType = CCodeBuilder.getFixedPointAccumulatorType(format)
+    const accName = `${BlockModuleUtils.sanitizeIdentifier(block.name)}_acc`
+
+    let index = ''
+    let indent = '    '
+    let code = `    // Sum block: ${block.name} (${parsedType.baseType}, saturating)\n`
+    if (parsedType.isMatrix && parsedType.rows && parsedType.cols) {
+      code += `    for (int i = 0; i < ${parsedType.rows}; i++) {\n`
+      code += `        for (int j = 0; j < ${parsedType.cols}; j++) {\n`
+      index = '[i][j]'
+      indent = '            '
+    } else if (parsedType.isArray && parsedType.arraySize) {
+      code += `    for (int i = 0; i < ${parsedType.arraySize}; i++) {\n`
+      index = '[i]'
+      indent = '        '
+    } else {
+      code += `    {\n`
+      indent = '        '
+    }
+
+    let sum = ''
+    for (let k = 0; k < inputs.length; k++) {
+      const sign = signs[k] || '+'
+      if (k > 0) sum += ` ${sign} `
+      else if (sign === '-') sum += `-`
+      sum += `(${accType})${inputs[k]}${index}`
+    }
+
+    code += `${indent}${accType} ${accName} = ${sum};\n`
+    code += `${indent}${outputName}${index} = ${CCodeBuilder.generateFixedPointSaturation(accName, format)};\n`
+
+    if (parsedType.isMatrix && parsedType.rows && parsedType.cols) {
+      code += `        }\n`
+    }
+    code += `    }\n`
+    return code
+  }
+
   getOutputType(block: BlockData, inputTypes: string[]): string {
     // Sum block output type matches the first input type
     // (assumes all inputs have the same type, which is validated elsewhere)
@@ -196,6 +252,13 @@ export class SumBlockModule implements IBlockModule {
       
       blockState.outputs[0] = sum
     }
+
+    // Fixed-point inputs sit on the output's grid, so the exact sum only
+    // needs to be saturated into the output word
+    const fixedPoint = blockState.outputTypes?.[0]?.fixedPoint
+    if (fixedPoint) {
+      blockState.outputs[0] = quantizeSignal(blockState.outputs[0], fixedPoint)
+    }
   }
 
   getInputPortCount(block: BlockData): number {
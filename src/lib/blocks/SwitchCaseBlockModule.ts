@@ -0,0 +1,165 @@
+// lib/blocks/SwitchCaseBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+/**
+ * Switch Case: compares an integer input against lists of case values and
+ * sets the output of the first matching case, or the default output when
+ * none matches. Each output is a boolean action signal, meant to drive the
+ * enable or function-call trigger input of an action subsystem. The input
+ * is truncated toward zero, as by a C int conversion.
+ */
+export class SwitchCaseBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const cases = SwitchCaseBlockModule.getCases(block.parameters || {})
+    const showDefaultCase = SwitchCaseBlockModule.hasDefaultCase(block.parameters || {})
+    const outputCount = this.getOutputPortCount(block)
+    const output = (port: number) =>
+      `model->signals.${BlockModuleUtils.getOutputSignalName(block.name, port, outputCount)}`
+
+    let code = `    // Switch Case block: ${block.name}\n`
+    for (let port = 0; port < outputCount; port++) {
+      code += `    ${output(port)} = false;\n`
+    }
+
+    if (inputs.length === 0) {
+      return code
+    }
+
+    // A value listed again in a later case never reaches it
+    const seen = new Set<number>()
+    code += `    switch ((int)(${BlockModuleUtils.generateScalarValue(inputs[0], inputTypes?.[0] || 'double')})) {\n`
+    cases.forEach((values, port) => {
+      const labels = values.filter(value => !seen.has(value))
+      labels.forEach(value => seen.add(value))
+      if (labels.length === 0) return
+
+      for (const value of labels) {
+        code += `        case ${value}:\n`
+      }
+      code += `            ${output(port)} = true;\n`
+      code += `            break;\n`
+    })
+    if (showDefaultCase) {
+      code += `        default:\n`
+      code += `            ${output(cases.length)} = true;\n`
+      code += `            break;\n`
+    }
+    code += `    }\n`
+
+    return code
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    return 'bool'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    const outputCount = this.getOutputPortCount(block)
+    return Array.from({ length: outputCount }, (_, port) =>
+      `    bool ${BlockModuleUtils.getOutputSignalName(block.name, port, outputCount)};`
+    ).join('\n')
+  }
+
+  requiresState(block: BlockData): boolean {
+    return false
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return []
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const params = blockState.internalState || {}
+    const cases = SwitchCaseBlockModule.getCases(params)
+    const outputCount = SwitchCaseBlockModule.getOutputCount(params)
+
+    const selected = inputs.length > 0
+      ? SwitchCaseBlockModule.selectCase(BlockModuleUtils.flattenSignal(inputs[0])[0], cases)
+      : -1
+    for (let port = 0; port < outputCount; port++) {
+      blockState.outputs[port] = port === selected
+    }
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return SwitchCaseBlockModule.getOutputCount(block.parameters || {})
+  }
+
+  getInputPortLabels(block: BlockData): string[] | undefined {
+    return ['u']
+  }
+
+  getOutputPortLabels(block: BlockData): string[] | undefined {
+    const params = block.parameters || {}
+    const labels = SwitchCaseBlockModule.getCases(params).map(values => `case ${values.join(', ')}`)
+    return SwitchCaseBlockModule.hasDefaultCase(params) ? [...labels, 'default'] : labels
+  }
+
+  /**
+   * The output port of the first case listing the truncated input, the
+   * default port (one past the cases) when none does
+   */
+  static selectCase(input: number, cases: number[][]): number {
+    const value = Math.trunc(input)
+    const match = cases.findIndex(values => values.includes(value))
+    return match >= 0 ? match : cases.length
+  }
+
+  /**
+   * The case values of each case. A case may list one value or several,
+   * e.g. [1, [2, 3]] has a case for 1 and a case for 2 or 3.
+   */
+  static getCases(params: { cases?: unknown }): number[][] {
+    const cases = Array.isArray(params.cases) ? params.cases : [1, 2]
+    return cases
+      .map(entry => (Array.isArray(entry) ? entry : [entry]).map(Number).filter(Number.isInteger))
+      .filter(values => values.length > 0)
+  }
+
+  /**
+   * One output for each case, and one for the default case when shown
+   */
+  static getOutputCount(params: { cases?: unknown, showDefaultCase?: boolean }): number {
+    return SwitchCaseBlockModule.getCases(params).length + (SwitchCaseBlockModule.hasDefaultCase(params) ? 1 : 0)
+  }
+
+  static hasDefaultCase(params: { showDefaultCase?: boolean }): boolean {
+    return params.showDefaultCase ?? true
+  }
+
+  /**
+   * Format case values for editing, e.g. "1, [2, 3]"
+   */
+  static formatCases(cases: number[][]): string {
+    return cases.map(values => values.length === 1 ? String(values[0]) : `[${values.join(', ')}]`).join(', ')
+  }
+
+  /**
+   * Parse case values written as in formatCases. Throws on values that
+   * are not integers.
+   */
+  static parseCases(text: string): number[][] {
+    const cases: number[][] = []
+    for (const match of text.matchAll(/\[([^\]]*)\]|([^,\s[\]]+)/g)) {
+      const values = (match[1] ?? match[2]).split(/[\s,]+/).filter(Boolean).map(Number)
+      if (values.some(value => !Number.isInteger(value))) {
+        throw new Error(`Case values must be integers: ${match[0]}`)
+      }
+      if (values.length > 0) {
+        cases.push(values)
+      }
+    }
+    return cases
+  }
+}
@@ -21,7 +21,8 @@ export class TransferFunctionBlockModule implements IBlockModule {
     if (stateOrder === 0) {
       // Pure gain (no dynamics)
       const numerator = block.parameters?.numerator || [1]
-      const gain = (numerator[0] || 0) / (denominator[0] || 1)
+      const ratio = TransferFunctionBlockModule.coefficientRatio(numerator[0] || 0, denominator[0] || 1)
+      const gain = typeof ratio === 'number' ? ratio : `(${ratio})`
       const inputExpr = inputs[0]
       
       // Get type info for proper handling
@@ -88,6 +89,11 @@ export class TransferFunctionBlockModule implements IBlockModule {
     return denominator.length > 1
   }
 
+  getContinuousStateOrder(block: BlockData): number {
+    const denominator = block.parameters?.denominator || [1, 1]
+    return Math.max(0, denominator.length - 1)
+  }
+
   generateStateStructMembers(block: BlockData, outputType: string): string[] {
     const denominator = block.parameters?.denominator || [1, 1]
     const stateOrder = Math.max(0, denominator.length - 1)
@@ -424,17 +430,18 @@ executeSimulation(
     inputExpr: string,
     stateAccessor: string,
     derivativeAccessor: string,
-    numerator: number[],
-    denominator: number[],
+    numerator: (number | string)[],
+    denominator: (number | string)[],
     stateOrder: number,
     indentLevel: number
   ): string {
     const indent = '    '.repeat(indentLevel)
+    const isZero = (coefficient: number | string) => typeof coefficient === 'number' && Math.abs(coefficient) < 1e-10
     let code = ''
     
     // Normalize by leading coefficient
     const a_n = denominator[0]
-    if (Math.abs(a_n) < 1e-10) {
+    if (isZero(a_n)) {
       return `${indent}/* Error: Leading denominator coefficient is zero */\n`
     }
     
@@ -456,8 +463,8 @@ executeSimulation(
         // Input contribution: b[0]/a[n] * u
         // For transfer functions, we typically only have b[0] (or b[n] depending on notation)
         const b_0 = numerator[0] || 0
-        if (Math.abs(b_0) > 1e-10) {
-          code += `(${b_0 / a_n}) * ${inputExpr}`
+        if (!isZero(b_0)) {
+          code += `(${TransferFunctionBlockModule.coefficientRatio(b_0, a_n)}) * ${inputExpr}`
         } else {
           code += `0.0`
         }
@@ -465,8 +472,8 @@ executeSimulation(
         // Feedback terms: -a[i]/a[n] * x[i]
         for (let j = 0; j < stateOrder; j++) {
           const a_j = denominator[denominator.length - 1 - j] || 0
-          if (Math.abs(a_j) > 1e-10) {
-            code += ` - (${a_j / a_n}) * ${stateAccessor}[${j}]`
+          if (!isZero(a_j)) {
+            code += ` - (${TransferFunctionBlockModule.coefficientRatio(a_j, a_n)}) * ${stateAccessor}[${j}]`
           }
         }
         
@@ -477,6 +484,17 @@ executeSimulation(
     return code
   }
 
+  /**
+   * Ratio of two coefficients. Coefficients read from the tunable parameter
+   * struct are C expressions, so their ratio is left to the generated code.
+   */
+  private static coefficientRatio(coefficient: number | string, leading: number | string): number | string {
+    if (typeof coefficient === 'number' && typeof leading === 'number') {
+      return coefficient / leading
+    }
+    return `${coefficient} / ${leading}`
+  }
+
   // lib/blocks/TransferFunctionBlockModule.ts - Add this method to the class
 
   computeDerivatives(
@@ -3,13 +3,14 @@
 import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
 
 export class TrigBlockModule implements IBlockModule {
   generateComputation(block: BlockData, inputs: string[]): string {
     const outputName = `model->signals.${BlockModuleUtils.sanitizeIdentifier(block.name)}`
     const func = block.parameters?.function || 'sin'
     
-    let code = `    // Trig block: ${block.name} (${func})\n`
+    let code = `    // Trig block: ${block.name} (${CCodeBuilder.escapeComment(func)})\n`
     
     if (func === 'atan2') {
       // atan2 requires 2 inputs
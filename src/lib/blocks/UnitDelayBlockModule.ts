@@ -0,0 +1,113 @@
+// lib/blocks/UnitDelayBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { quantize, toStoredInteger } from '@/lib/fixedPoint'
+
+/**
+ * Unit Delay (z^-1): outputs the input from the previous sample hit.
+ * Scalar, vector and matrix inputs are delayed element-wise.
+ */
+export class UnitDelayBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+
+    let code = `    // Unit delay block: ${block.name}\n`
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `${outputName}${index} = model->states.${blockName}_state${index};`
+    ])
+
+    return code
+  }
+
+  generateDiscreteUpdate(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+
+    if (inputs.length === 0) {
+      return `    // Unit delay ${block.name} has no input\n`
+    }
+
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `model->states.${blockName}_state${index} = ${inputs[0]}${index};`
+    ])
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return true
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    // The delayed value has the same shape as the output
+    return [BlockModuleUtils.generateStructMember(`${block.name}_state`, outputType)]
+  }
+
+  generateInitialization(block: BlockData, outputType?: string): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const initialCondition = Number(block.parameters?.initialCondition) || 0
+    const state = `model->states.${blockName}_state`
+
+    if (initialCondition === 0) {
+      return ''
+    }
+
+    // Fixed-point states hold the stored integer of the initial condition
+    const typeInfo = BlockModuleUtils.parseType(outputType || 'double')
+    const value = typeInfo.fixedPoint
+      ? CCodeBuilder.formatStoredInteger(toStoredInteger(initialCondition, typeInfo.fixedPoint))
+      : BlockModuleUtils.formatDouble(initialCondition)
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => [`${state}${index} = ${value};`])
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const fixedPoint = blockState.outputTypes?.[0]?.fixedPoint
+    const initialCondition = fixedPoint
+      ? quantize(blockState.internalState?.initialCondition || 0, fixedPoint)
+      : blockState.internalState?.initialCondition || 0
+    const state: number[] = blockState.internalState?.state || []
+
+    // Output the stored sample, shaped like the input
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(
+      inputs[0],
+      (_, k) => state[k] ?? initialCondition
+    )
+  }
+
+  updateDiscreteStates(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    blockState.internalState.state = BlockModuleUtils.flattenSignal(inputs[0])
+  }
+
+  isDirectFeedthrough(block: BlockData): boolean {
+    // Output depends only on the stored state
+    return false
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+}
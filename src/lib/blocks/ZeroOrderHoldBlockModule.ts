@@ -0,0 +1,101 @@
+// lib/blocks/ZeroOrderHoldBlockModule.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { BlockState, SimulationState } from '@/lib/simulationEngine'
+import { IBlockModule, BlockModuleUtils } from './BlockModule'
+
+/**
+ * Zero-Order Hold: samples the input on its sample hits and holds the
+ * value constant until the next hit.
+ */
+export class ZeroOrderHoldBlockModule implements IBlockModule {
+  generateComputation(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const outputName = `model->signals.${blockName}`
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+    const hitCondition = BlockModuleUtils.generateSampleHitCondition(block)
+
+    let code = `    // Zero-order hold block: ${block.name}\n`
+
+    if (inputs.length === 0) {
+      code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+        `${outputName}${index} = model->states.${blockName}_held${index};`
+      ])
+      return code
+    }
+
+    if (!hitCondition) {
+      // Sampled every base step, so the hold is a pass-through
+      code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+        `${outputName}${index} = ${inputs[0]}${index};`
+      ])
+      return code
+    }
+
+    code += BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `${outputName}${index} = ${hitCondition} ? ${inputs[0]}${index} : model->states.${blockName}_held${index};`
+    ])
+    return code
+  }
+
+  generateDiscreteUpdate(block: BlockData, inputs: string[], inputTypes?: string[]): string {
+    const blockName = BlockModuleUtils.sanitizeIdentifier(block.name)
+    const typeInfo = BlockModuleUtils.parseType(this.getOutputType(block, inputTypes || []))
+
+    if (inputs.length === 0) {
+      return `    // Zero-order hold ${block.name} has no input\n`
+    }
+
+    return BlockModuleUtils.generateElementLoop(typeInfo, index => [
+      `model->states.${blockName}_held${index} = ${inputs[0]}${index};`
+    ])
+  }
+
+  getOutputType(block: BlockData, inputTypes: string[]): string {
+    // Output type matches input type
+    return inputTypes[0] || 'double'
+  }
+
+  generateStructMember(block: BlockData, outputType: string): string | null {
+    return BlockModuleUtils.generateStructMember(block.name, outputType)
+  }
+
+  requiresState(block: BlockData): boolean {
+    return true
+  }
+
+  generateStateStructMembers(block: BlockData, outputType: string): string[] {
+    return [BlockModuleUtils.generateStructMember(`${block.name}_held`, outputType)]
+  }
+
+  executeSimulation(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const sampleTime = blockState.internalState?.sampleTime ?? -1
+    const held: number[] = blockState.internalState?.held || []
+    const isHit = BlockModuleUtils.isSampleHit(simulationState.time, simulationState.timeStep, sampleTime)
+
+    blockState.outputs[0] = BlockModuleUtils.mapSignal(
+      inputs[0],
+      (value, k) => isHit ? value : (held[k] ?? 0)
+    )
+  }
+
+  updateDiscreteStates(
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    blockState.internalState.held = BlockModuleUtils.flattenSignal(inputs[0])
+  }
+
+  getInputPortCount(block: BlockData): number {
+    return 1
+  }
+
+  getOutputPortCount(block: BlockData): number {
+    return 1
+  }
+}
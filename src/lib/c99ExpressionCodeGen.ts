@@ -1,26 +1,43 @@
 // lib/c99ExpressionCodeGen.ts - Updated version
 
 import { Expression, BinaryExpression, UnaryExpression, 
-         FunctionCall, ConditionalExpression } from './c99ExpressionParser'
+         FunctionCall, ConditionalExpression, IndexExpression } from './c99ExpressionParser'
+import { MATH_CONSTANTS } from './c99ExpressionValidator'
 
 // Math functions that need special handling in C
 const MATH_FUNCTIONS = new Set([
   'sqrt', 'pow', 'sin', 'cos', 'tan', 'atan', 'atan2', 'acos', 'asin',
   'ceil', 'floor', 'trunc', 'round', 'lround', 'log', 'log2', 'log10',
-  'abs', 'labs', 'fabs', 'fmax', 'fmin', 'signbit'
+  'abs', 'labs', 'fabs', 'fmax', 'fmin', 'signbit',
+  'min', 'max', 'sign', 'hypot', 'clamp'
 ])
 
+export interface C99CodeOptions {
+  /**
+   * Loop index of element-wise code, e.g. "i". The vector inputs and
+   * variables read their element at this index unless indexed explicitly.
+   */
+  elementIndex?: string
+  vectorInputs?: number[]
+  vectorVariables?: string[]
+}
+
 /**
  * Convert an expression AST to C code
  * @param expr The expression AST
  * @param inputVars Array of C variable names for inputs (e.g., ["input1", "input2"])
+ * @param variables C code for identifiers the expression may reference (e.g., { Kp: "model_params.Kp" })
+ * @param options Vector operands of element-wise code
  * @returns Object with code and whether math.h is needed
  */
 export function c99ExpressionToCode(
   expr: Expression, 
-  inputVars: string[]
+  inputVars: string[],
+  variables: Record<string, string> = {},
+  options: C99CodeOptions = {}
 ): { code: string; needsMath: boolean } {
   let needsMath = false
+  const element = options.elementIndex ? `[${options.elementIndex}]` : ''
   
   function generateExpression(expr: Expression): string {
     switch (expr.type) {
@@ -32,6 +49,15 @@ export function c99ExpressionToCode(
         return expr.value.toString()
 
       case 'Identifier':
+        if (Object.prototype.hasOwnProperty.call(variables, expr.name)) {
+          return options.vectorVariables?.includes(expr.name)
+            ? `${variables[expr.name]}${element}`
+            : variables[expr.name]
+        }
+        if (Object.prototype.hasOwnProperty.call(MATH_CONSTANTS, expr.name)) {
+          // Written out, as the M_ macros are not part of C99
+          return String(MATH_CONSTANTS[expr.name])
+        }
         throw new Error(`Unexpected identifier in expression: ${expr.name}`)
 
       case 'BinaryExpression':
@@ -46,6 +72,9 @@ export function c99ExpressionToCode(
       case 'ConditionalExpression':
         return generateConditionalExpression(expr)
 
+      case 'IndexExpression':
+        return generateIndexExpression(expr)
+
       default:
         throw new Error(`Unknown expression type: ${(expr as any).type}`)
     }
@@ -71,19 +100,23 @@ export function c99ExpressionToCode(
     throw new Error(`Unsupported unary operator: ${expr.operator}`)
   }
 
+  function getInputIndex(expr: FunctionCall): number {
+    if (expr.arguments.length !== 1 || expr.arguments[0].type !== 'NumberLiteral') {
+      throw new Error('Invalid in() function call')
+    }
+    
+    const index = Math.floor(expr.arguments[0].value)
+    if (index < 0 || index >= inputVars.length) {
+      throw new Error(`in(${index}) out of range`)
+    }
+    return index
+  }
+
   function generateFunctionCall(expr: FunctionCall, inputVars: string[]): string {
     if (expr.name === 'in') {
-      if (expr.arguments.length !== 1 || expr.arguments[0].type !== 'NumberLiteral') {
-        throw new Error('Invalid in() function call')
-      }
-      
-      const index = Math.floor(expr.arguments[0].value)
-      if (index < 0 || index >= inputVars.length) {
-        throw new Error(`in(${index}) out of range`)
-      }
-      
       // Return the sanitized variable name
-      return inputVars[index]
+      const index = getInputIndex(expr)
+      return options.vectorInputs?.includes(index) ? `${inputVars[index]}${element}` : inputVars[index]
     }
     
     // Math functions
@@ -109,6 +142,18 @@ export function c99ExpressionToCode(
         case 'lround':
           // lround returns long
           return `lround(${args[0]})`
+
+        case 'min':
+          return `fmin(${args[0]}, ${args[1]})`
+
+        case 'max':
+          return `fmax(${args[0]}, ${args[1]})`
+
+        case 'clamp':
+          return `fmin(fmax(${args[0]}, ${args[1]}), ${args[2]})`
+
+        case 'sign':
+          return `((${args[0]}) > 0 ? 1.0 : ((${args[0]}) < 0 ? -1.0 : 0.0))`
           
         default:
           // Most functions map directly
@@ -127,6 +172,20 @@ export function c99ExpressionToCode(
     return `((${condition}) ? (${trueBranch}) : (${falseBranch}))`
   }
 
+  function generateIndexExpression(expr: IndexExpression): string {
+    const { object, index } = expr
+    if (index.type !== 'NumberLiteral') {
+      throw new Error('Index must be an integer literal')
+    }
+    if (object.type === 'FunctionCall' && object.name === 'in') {
+      return `${inputVars[getInputIndex(object)]}[${index.value}]`
+    }
+    if (object.type === 'Identifier' && Object.prototype.hasOwnProperty.call(variables, object.name)) {
+      return `${variables[object.name]}[${index.value}]`
+    }
+    throw new Error('Only inputs and variables can be indexed')
+  }
+
   const code = generateExpression(expr)
   return { code, needsMath }
 }
@@ -1,13 +1,30 @@
 // lib/c99ExpressionEvaluator.ts - Updated version
 
 import { Expression, NumberLiteral, BinaryExpression, UnaryExpression, 
-         FunctionCall, ConditionalExpression } from './c99ExpressionParser'
+         FunctionCall, ConditionalExpression, IndexExpression } from './c99ExpressionParser'
+import { MATH_CONSTANTS } from './c99ExpressionValidator'
 
 export class C99ExpressionEvaluator {
-  private inputs: number[]
+  private inputs: (number | number[])[]
+  private variables: Record<string, number | number[]>
+  private element: number = 0
 
-  constructor(inputs: number[]) {
+  constructor(inputs: (number | number[])[], variables: Record<string, number | number[]> = {}) {
     this.inputs = inputs
+    this.variables = variables
+  }
+
+  /**
+   * Evaluate one element of an element-wise expression: vector inputs and
+   * variables read their element at the index, scalars are used as they are
+   */
+  evaluateElement(expr: Expression, index: number): number {
+    this.element = index
+    try {
+      return this.evaluate(expr)
+    } finally {
+      this.element = 0
+    }
   }
 
   evaluate(expr: Expression): number {
@@ -16,7 +33,7 @@ export class C99ExpressionEvaluator {
         return expr.value
 
       case 'Identifier':
-        throw new Error(`Unexpected identifier: ${expr.name}`)
+        return this.readElement(this.readValue(expr))
 
       case 'BinaryExpression':
         return this.evaluateBinary(expr)
@@ -30,6 +47,9 @@ export class C99ExpressionEvaluator {
       case 'ConditionalExpression':
         return this.evaluateConditional(expr)
 
+      case 'IndexExpression':
+        return this.evaluateIndex(expr)
+
       default:
         throw new Error(`Unknown expression type: ${(expr as any).type}`)
     }
@@ -88,8 +108,21 @@ export class C99ExpressionEvaluator {
     }
   }
 
-  private evaluateFunction(expr: FunctionCall): number {
-    if (expr.name === 'in') {
+  /**
+   * The whole value of an input or variable, before picking an element
+   */
+  private readValue(expr: Expression): number | number[] {
+    if (expr.type === 'Identifier') {
+      if (Object.prototype.hasOwnProperty.call(this.variables, expr.name)) {
+        return this.variables[expr.name]
+      }
+      if (Object.prototype.hasOwnProperty.call(MATH_CONSTANTS, expr.name)) {
+        return MATH_CONSTANTS[expr.name]
+      }
+      throw new Error(`Unexpected identifier: ${expr.name}`)
+    }
+
+    if (expr.type === 'FunctionCall' && expr.name === 'in') {
       if (expr.arguments.length !== 1) {
         throw new Error('in() requires exactly one argument')
       }
@@ -107,6 +140,27 @@ export class C99ExpressionEvaluator {
       return this.inputs[index]
     }
 
+    throw new Error('Only inputs and variables can be indexed')
+  }
+
+  private readElement(value: number | number[]): number {
+    return Array.isArray(value) ? value[this.element] : value
+  }
+
+  private evaluateIndex(expr: IndexExpression): number {
+    const value = this.readValue(expr.object)
+    const index = this.evaluate(expr.index)
+    if (!Array.isArray(value) || !Number.isInteger(index) || index < 0 || index >= value.length) {
+      throw new Error(`Index ${index} out of range`)
+    }
+    return value[index]
+  }
+
+  private evaluateFunction(expr: FunctionCall): number {
+    if (expr.name === 'in') {
+      return this.readElement(this.readValue(expr))
+    }
+
     // Math functions
     const args = expr.arguments.map(arg => this.evaluate(arg))
     
@@ -131,12 +185,19 @@ export class C99ExpressionEvaluator {
       case 'labs': return Math.abs(args[0] | 0) // Long abs (same in JS)
       case 'fabs': return Math.abs(args[0])
       case 'signbit': return args[0] < 0 ? 1 : 0
+      case 'sign': return args[0] > 0 ? 1 : (args[0] < 0 ? -1 : 0)
       
       // Two argument functions
       case 'pow': return Math.pow(args[0], args[1])
       case 'atan2': return Math.atan2(args[0], args[1])
       case 'fmax': return Math.max(args[0], args[1])
       case 'fmin': return Math.min(args[0], args[1])
+      case 'max': return Math.max(args[0], args[1])
+      case 'min': return Math.min(args[0], args[1])
+      case 'hypot': return Math.hypot(args[0], args[1])
+
+      // Three argument functions
+      case 'clamp': return Math.min(Math.max(args[0], args[1]), args[2])
       
       default:
         throw new Error(`Unknown function: ${expr.name}`)
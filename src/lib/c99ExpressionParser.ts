@@ -45,6 +45,12 @@ export interface ConditionalExpression extends ASTNode {
   falseBranch: Expression
 }
 
+export interface IndexExpression extends ASTNode {
+  type: 'IndexExpression'
+  object: Expression
+  index: Expression
+}
+
 export type Expression = 
   | NumberLiteral 
   | Identifier 
@@ -52,6 +58,16 @@ export type Expression =
   | UnaryExpression 
   | FunctionCall 
   | ConditionalExpression
+  | IndexExpression
+
+/**
+ * One statement `out(n) = expression` of a multi-output expression
+ */
+export interface OutputAssignment {
+  output: number
+  value: Expression
+  position: number
+}
 
 // Operator precedence (higher number = higher precedence)
 const PRECEDENCE: Record<string, number> = {
@@ -67,12 +83,25 @@ const PRECEDENCE: Record<string, number> = {
   '*': 10, '/': 10, '%': 10,
 }
 
+// Precedence of '^' when it is read as exponentiation
+const POWER_PRECEDENCE = 11
+
+export interface C99ParserOptions {
+  /**
+   * Read '^' as right-associative exponentiation (parsed as a pow() call)
+   * instead of bitwise XOR, as in parameter expressions like wn^2
+   */
+  caretIsPower?: boolean
+}
+
 export class C99ExpressionParser {
   private tokens: C99Token[]
   private current: number = 0
+  private options: C99ParserOptions
 
-  constructor(expression: string) {
+  constructor(expression: string, options: C99ParserOptions = {}) {
     this.tokens = c99Tokenizer(expression)
+    this.options = options
   }
 
   parse(): Expression {
@@ -83,6 +112,38 @@ export class C99ExpressionParser {
     return expr
   }
 
+  /**
+   * Parse output assignments `out(0) = ...; out(1) = ...;`. The semicolon
+   * after the last assignment is optional.
+   */
+  parseOutputAssignments(): OutputAssignment[] {
+    const assignments: OutputAssignment[] = []
+
+    while (!this.isAtEnd()) {
+      const target = this.peek()
+      if (target.type !== C99TokenType.IDENTIFIER || target.value !== 'out') {
+        throw new Error(`Expected 'out(n) = expression' at position ${target.column}`)
+      }
+      this.advance()
+      this.consume(C99TokenType.LPAREN, "Expected '(' after out")
+      const output = this.consume(C99TokenType.INTEGER_LITERAL, 'Expected an output number')
+      this.consume(C99TokenType.RPAREN, "Expected ')' after output number")
+      this.consume(C99TokenType.EQ, "Expected '=' after out(n)")
+      const value = this.parseExpression()
+
+      assignments.push({ output: this.parseNumber(output.value), value, position: target.column })
+
+      if (!this.match(C99TokenType.SEMICOLON) && !this.isAtEnd()) {
+        throw new Error(`Expected ';' after assignment at position ${this.peek().column}`)
+      }
+    }
+
+    if (assignments.length === 0) {
+      throw new Error('Expected at least one output assignment')
+    }
+    return assignments
+  }
+
   private parseExpression(): Expression {
     return this.parseConditional()
   }
@@ -113,16 +174,28 @@ export class C99ExpressionParser {
     while (true) {
       const operator = this.peek()
       if (!this.isBinaryOperator(operator) || 
-          (PRECEDENCE[operator.value] || 0) < minPrecedence) {
+          this.getPrecedence(operator.value) < minPrecedence) {
         break
       }
 
       this.advance()
-      const precedence = PRECEDENCE[operator.value] || 0
-      const associativity = 'left' // C99 is left-associative for most operators
+      const precedence = this.getPrecedence(operator.value)
+      const isPower = this.isPowerOperator(operator.value)
+      // C99 is left-associative for most operators; exponentiation is right-associative
+      const associativity = isPower ? 'right' : 'left'
       const nextMinPrecedence = associativity === 'left' ? precedence + 1 : precedence
       
       const right = this.parseBinary(nextMinPrecedence)
+
+      if (isPower) {
+        left = {
+          type: 'FunctionCall',
+          name: 'pow',
+          arguments: [left, right],
+          position: operator.column
+        }
+        continue
+      }
       
       left = {
         type: 'BinaryExpression',
@@ -180,6 +253,17 @@ export class C99ExpressionParser {
           arguments: args,
           position: expr.position
         }
+      } else if (this.match(C99TokenType.LBRACKET)) {
+        // Element of a vector
+        const index = this.parseExpression()
+        this.consume(C99TokenType.RBRACKET, "Expected ']' after index")
+
+        expr = {
+          type: 'IndexExpression',
+          object: expr,
+          index,
+          position: expr.position
+        }
       } else {
         break
       }
@@ -240,6 +324,17 @@ export class C99ExpressionParser {
     return parseFloat(value)
   }
 
+  private getPrecedence(operator: string): number {
+    if (this.isPowerOperator(operator)) {
+      return POWER_PRECEDENCE
+    }
+    return PRECEDENCE[operator] || 0
+  }
+
+  private isPowerOperator(operator: string): boolean {
+    return operator === '^' && this.options.caretIsPower === true
+  }
+
   private isBinaryOperator(token: C99Token): boolean {
     const binaryOps = [
       C99TokenType.PLUS, C99TokenType.MINUS, C99TokenType.STAR, 
@@ -301,7 +396,19 @@ export class C99ExpressionParser {
 }
 
 // Export a convenience function for parsing expressions
-export function parseC99Expression(expression: string): Expression {
-  const parser = new C99ExpressionParser(expression)
+export function parseC99Expression(expression: string, options: C99ParserOptions = {}): Expression {
+  const parser = new C99ExpressionParser(expression, options)
   return parser.parse()
 }
+
+/**
+ * Whether an expression is written as output assignments `out(n) = ...`
+ */
+export function isOutputAssignmentList(text: string): boolean {
+  return /^\s*out\s*\(\s*\d+\s*\)\s*=(?!=)/.test(text)
+}
+
+export function parseC99OutputAssignments(text: string): OutputAssignment[] {
+  const parser = new C99ExpressionParser(text)
+  return parser.parseOutputAssignments()
+}
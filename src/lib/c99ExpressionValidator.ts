@@ -1,6 +1,6 @@
 // lib/c99ExpressionValidator.ts - Updated version
 
-import { Expression, FunctionCall, Identifier } from './c99ExpressionParser'
+import { Expression, FunctionCall, IndexExpression } from './c99ExpressionParser'
 
 export interface ValidationResult {
   valid: boolean
@@ -9,6 +9,37 @@ export interface ValidationResult {
   usedInputs: Set<number>
   hasFloatOperations: boolean
   usesMathFunctions: boolean
+  /** Number of elements of the result: 0 for a scalar, null when not known */
+  size: number | null
+}
+
+/**
+ * Sizes of the inputs and variables an expression reads: 0 for a scalar,
+ * n for a vector of n elements. Values of unknown size are not checked.
+ */
+export interface ExpressionSizes {
+  inputs?: number[]
+  variables?: Record<string, number>
+}
+
+/**
+ * Named constants of math.h. Strict C99 does not define them, so the
+ * generated code writes out their values.
+ */
+export const MATH_CONSTANTS: Record<string, number> = {
+  'M_E': Math.E,
+  'M_LOG2E': Math.LOG2E,
+  'M_LOG10E': Math.LOG10E,
+  'M_LN2': Math.LN2,
+  'M_LN10': Math.LN10,
+  'M_PI': Math.PI,
+  'M_PI_2': Math.PI / 2,
+  'M_PI_4': Math.PI / 4,
+  'M_1_PI': 1 / Math.PI,
+  'M_2_PI': 2 / Math.PI,
+  'M_2_SQRTPI': 2 / Math.sqrt(Math.PI),
+  'M_SQRT2': Math.SQRT2,
+  'M_SQRT1_2': Math.SQRT1_2
 }
 
 // Math function signatures
@@ -33,12 +64,19 @@ const MATH_FUNCTIONS: Record<string, { args: number, description: string }> = {
   'labs': { args: 1, description: 'absolute value (long)' },
   'fabs': { args: 1, description: 'absolute value (float)' },
   'signbit': { args: 1, description: 'sign bit test' },
+  'sign': { args: 1, description: 'sign (-1, 0 or 1)' },
   
   // Two argument functions
   'pow': { args: 2, description: 'power (x^y)' },
   'atan2': { args: 2, description: 'arc tangent of y/x' },
   'fmax': { args: 2, description: 'maximum value' },
   'fmin': { args: 2, description: 'minimum value' },
+  'max': { args: 2, description: 'maximum value' },
+  'min': { args: 2, description: 'minimum value' },
+  'hypot': { args: 2, description: 'length of the hypotenuse sqrt(x*x + y*y)' },
+
+  // Three argument functions
+  'clamp': { args: 3, description: 'x limited to [lo, hi]' },
 }
 
 export class C99ExpressionValidator {
@@ -48,9 +86,18 @@ export class C99ExpressionValidator {
   private hasFloatOperations: boolean = false
   private usesMathFunctions: boolean = false
   private numInputs: number
+  private variables: Set<string>
+  private sizes: ExpressionSizes
 
-  constructor(numInputs: number) {
+  /**
+   * @param numInputs - Number of inputs readable with in(n)
+   * @param variables - Names the expression may reference as identifiers
+   * @param sizes - Sizes of the inputs and variables, for checking vector operations
+   */
+  constructor(numInputs: number, variables: string[] = [], sizes: ExpressionSizes = {}) {
     this.numInputs = numInputs
+    this.variables = new Set(variables)
+    this.sizes = sizes
   }
 
   validate(expr: Expression): ValidationResult {
@@ -60,8 +107,9 @@ export class C99ExpressionValidator {
     this.hasFloatOperations = false
     this.usesMathFunctions = false
 
+    let size: number | null = 0
     try {
-      this.validateExpression(expr)
+      size = this.validateExpression(expr)
     } catch (error) {
       this.errors.push(error instanceof Error ? error.message : 'Unknown validation error')
     }
@@ -72,25 +120,37 @@ export class C99ExpressionValidator {
       warnings: [...this.warnings],
       usedInputs: new Set(this.usedInputs),
       hasFloatOperations: this.hasFloatOperations,
-      usesMathFunctions: this.usesMathFunctions
+      usesMathFunctions: this.usesMathFunctions,
+      size
     }
   }
 
-  private validateExpression(expr: Expression): void {
+  /**
+   * Check an expression, returning the number of elements of its value
+   */
+  private validateExpression(expr: Expression): number | null {
     switch (expr.type) {
       case 'NumberLiteral':
         if (expr.isFloat) {
           this.hasFloatOperations = true
         }
-        break
+        return 0
 
       case 'Identifier':
-        this.errors.push(`Unexpected identifier '${expr.name}'. Only in(n) functions, math functions, and literals are allowed.`)
-        break
+        if (this.variables.has(expr.name)) {
+          return this.sizes.variables?.[expr.name] ?? null
+        }
+        if (MATH_CONSTANTS[expr.name] !== undefined) {
+          this.hasFloatOperations = true
+          return 0
+        }
+        this.errors.push(this.variables.size > 0
+          ? `Unknown identifier '${expr.name}'. Known names: ${Array.from(this.variables).join(', ')}`
+          : `Unexpected identifier '${expr.name}'. Only in(n) functions, math functions, math constants and literals are allowed.`)
+        return 0
 
-      case 'BinaryExpression':
-        this.validateExpression(expr.left)
-        this.validateExpression(expr.right)
+      case 'BinaryExpression': {
+        const size = this.combineSizes([this.validateExpression(expr.left), this.validateExpression(expr.right)])
         
         // Check for division by zero with literals
         if (expr.operator === '/' || expr.operator === '%') {
@@ -105,53 +165,106 @@ export class C99ExpressionValidator {
             this.warnings.push(`Bitwise operator '${expr.operator}' used with floating-point values`)
           }
         }
-        break
+        return size
+      }
 
-      case 'UnaryExpression':
-        this.validateExpression(expr.operand)
+      case 'UnaryExpression': {
+        const size = this.validateExpression(expr.operand)
         
         // Increment/decrement not allowed in expressions
         if (expr.operator === '++' || expr.operator === '--') {
           this.errors.push(`Operator '${expr.operator}' not allowed in evaluate expressions`)
         }
-        break
+        return size
+      }
 
       case 'FunctionCall':
-        this.validateFunctionCall(expr)
-        break
+        return this.validateFunctionCall(expr)
 
       case 'ConditionalExpression':
-        this.validateExpression(expr.condition)
-        this.validateExpression(expr.trueBranch)
-        this.validateExpression(expr.falseBranch)
-        break
+        return this.combineSizes([
+          this.validateExpression(expr.condition),
+          this.validateExpression(expr.trueBranch),
+          this.validateExpression(expr.falseBranch)
+        ])
+
+      case 'IndexExpression':
+        this.validateIndex(expr)
+        return 0
 
       //default:
       //  this.errors.push(`Unsupported expression type: ${expr.type}`)
     }
   }
 
-  private validateFunctionCall(call: FunctionCall): void {
+  /**
+   * Size of an element-wise result: vector operands must have the same
+   * number of elements, and a scalar is used with every element
+   */
+  private combineSizes(sizes: (number | null)[]): number | null {
+    let result: number | null = 0
+    for (const size of sizes) {
+      if (size === null) {
+        if (result === 0) result = null
+      } else if (size > 0) {
+        if (result !== null && result > 0 && result !== size) {
+          this.errors.push(`Vector operands must have the same number of elements, got ${result} and ${size}`)
+        } else {
+          result = size
+        }
+      }
+    }
+    return result
+  }
+
+  /**
+   * Check an element read like in(0)[2] or gains[1]. The index is a
+   * literal, so that it can be checked against the vector size.
+   */
+  private validateIndex(expr: IndexExpression): void {
+    const { object, index } = expr
+    const isInput = object.type === 'FunctionCall' && object.name === 'in'
+    if (!isInput && object.type !== 'Identifier') {
+      this.errors.push('Only inputs in(n) and workspace variables can be indexed')
+      return
+    }
+
+    const size = this.validateExpression(object)
+    const label = object.type === 'Identifier'
+      ? object.name
+      : `in(${object.type === 'FunctionCall' && object.arguments[0]?.type === 'NumberLiteral' ? object.arguments[0].value : ''})`
+
+    if (index.type !== 'NumberLiteral' || !Number.isInteger(index.value)) {
+      this.errors.push(`Index of ${label} must be an integer literal`)
+    } else if (size === 0) {
+      this.errors.push(`${label} is a scalar and cannot be indexed`)
+    } else if (size !== null && index.value >= size) {
+      this.errors.push(`Index ${index.value} is out of range for ${label}, which has ${size} elements`)
+    }
+  }
+
+  private validateFunctionCall(call: FunctionCall): number | null {
     if (call.name === 'in') {
       // Validate in(n) function
       if (call.arguments.length !== 1) {
         this.errors.push(`in() function requires exactly 1 argument, got ${call.arguments.length}`)
-        return
+        return 0
       }
 
       const arg = call.arguments[0]
       if (arg.type !== 'NumberLiteral') {
         this.errors.push('in() function argument must be a number literal')
-        return
+        return 0
       }
 
       const index = Math.floor(arg.value)
       if (index < 0 || index >= this.numInputs) {
         this.errors.push(`in(${index}) is out of range. Valid range is 0 to ${this.numInputs - 1}`)
-        return
+        return 0
       }
 
       this.usedInputs.add(index)
+      return this.sizes.inputs?.[index] ?? null
     } else if (MATH_FUNCTIONS[call.name]) {
       // Validate math function
       const funcInfo = MATH_FUNCTIONS[call.name]
@@ -160,13 +273,11 @@ export class C99ExpressionValidator {
       
       if (call.arguments.length !== funcInfo.args) {
         this.errors.push(`${call.name}() requires exactly ${funcInfo.args} argument(s), got ${call.arguments.length}`)
-        return
+        return 0
       }
       
       // Validate all arguments are expressions (not just literals)
-      for (const arg of call.arguments) {
-        this.validateExpression(arg)
-      }
+      const size = this.combineSizes(call.arguments.map(arg => this.validateExpression(arg)))
       
       // Special validation for certain functions
       if (call.name === 'sqrt' && call.arguments[0].type === 'NumberLiteral' && call.arguments[0].value < 0) {
@@ -178,8 +289,12 @@ export class C99ExpressionValidator {
           this.warnings.push(`${call.name}() of non-positive number will produce NaN or -Infinity`)
         }
       }
+      return size
+    } else if (call.name === 'out') {
+      this.errors.push('out(n) can only be assigned, as in out(0) = in(0) * 2')
     } else {
       this.errors.push(`Unknown function '${call.name}'. Supported: in(n), ${Object.keys(MATH_FUNCTIONS).join(', ')}`)
     }
+    return 0
   }
 }
\ No newline at end of file
@@ -3,6 +3,8 @@
 import { FlattenedModel, FlattenedBlock } from './ModelFlattener'
 import { CCodeBuilder } from './CCodeBuilder'
 import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '../blocks/BlockModule'
+import { MergeBlockModule } from '../blocks/MergeBlockModule'
 
 /**
  * Generates the algebraic evaluation function for a flattened model.
@@ -24,27 +26,25 @@ export class AlgebraicEvaluator {
    */
   generate(): string {
     let code = CCodeBuilder.generateCommentBlock([
-      'Evaluate algebraic relationships (pure function, no state changes)',
-      'Computes all block outputs based on current inputs and states'
+      'Evaluate algebraic relationships (no state changes)',
+      'Computes all block outputs based on the current inputs and states of the model'
     ])
     
     code += CCodeBuilder.generateFunctionHeader(
       'void',
       `${this.modelName}_evaluate_algebraic`,
-      [
-        `const ${this.modelName}_inputs_t* inputs`,
-        `const ${this.modelName}_states_t* states`,
-        `${this.modelName}_signals_t* signals`,
-        `${this.modelName}_outputs_t* outputs`,
-        `const enable_states_t* enable_states`
-      ]
+      [`${this.modelName}_t* model`]
     )
     
+    code += this.generateShorthands()
+    
     // Copy inputs to local references for easier access
     code += this.generateInputCopy()
     
-    // Compute execution order
+    // Compute execution order; blocks of triggered subsystems are computed
+    // in the subsystems' trigger functions
     const executionOrder = this.calculateExecutionOrder()
+      .filter(block => block.triggerScope === null)
     
     // Generate block computations in order
     code += this.generateBlockComputations(executionOrder)
@@ -56,6 +56,29 @@ export class AlgebraicEvaluator {
     return code
   }
   
+  /**
+   * Generate the computations of the blocks run by a triggered subsystem's
+   * trigger function, with the same shorthands as evaluate_algebraic
+   */
+  generateTriggeredComputations(subsystemId: string): string {
+    const executionOrder = this.calculateExecutionOrder()
+      .filter(block => block.triggerScope === subsystemId)
+    
+    return this.generateShorthands() + this.generateBlockComputations(executionOrder)
+  }
+  
+  /**
+   * Block code addresses the model directly or through these shorthands
+   */
+  generateShorthands(): string {
+    let code = `    const ${this.modelName}_inputs_t* inputs = &model->inputs;\n`
+    code += `    const ${this.modelName}_states_t* states = &model->states;\n`
+    code += `    ${this.modelName}_signals_t* signals = &model->signals;\n`
+    code += `    ${this.modelName}_outputs_t* outputs = &model->outputs;\n`
+    code += '    (void)inputs; (void)states; (void)signals; (void)outputs;\n\n'
+    return code
+  }
+  
   /**
    * Generate code to copy inputs for easier access
    */
@@ -99,6 +122,11 @@ export class AlgebraicEvaluator {
     }
     
     for (const connection of this.model.connections) {
+      // Discrete blocks without feedthrough read their inputs only in the
+      // discrete state update, after evaluate_algebraic has finished
+      const target = this.model.blocks.find(b => b.originalId === connection.targetBlockId)
+      if (target && BlockModuleFactory.breaksAlgebraicDependency(target.block)) continue
+      
       const deps = dependencies.get(connection.targetBlockId)
       if (deps && !deps.includes(connection.sourceBlockId)) {
         deps.push(connection.sourceBlockId)
@@ -177,15 +205,32 @@ export class AlgebraicEvaluator {
         code += ' */\n'
         
         // For transfer functions, we need special handling to use states
+        let computation: string
         if (block.block.type === 'transfer_function') {
           const modifiedInputs = this.getTransferFunctionInputs(block, inputs)
-          code += generator.generateComputation(block.block, modifiedInputs, inputTypes)
+          computation = generator.generateComputation(block.block, modifiedInputs, inputTypes)
+        } else if (block.block.type === 'merge') {
+          computation = (generator as MergeBlockModule).generateComputation(
+            block.block, inputs, inputTypes, this.getMergeUpdateConditions(block)
+          )
         } else {
-          code += generator.generateComputation(block.block, inputs, inputTypes)
+          computation = generator.generateComputation(block.block, inputs, inputTypes)
+        }
+        
+        // Blocks of a slower subsystem keep their signals until its next sample hit
+        const sampleHit = BlockModuleFactory.holdsOutputsBetweenHits(block.block)
+          ? BlockModuleUtils.generateSampleHitCondition(block.block)
+          : null
+        if (sampleHit) {
+          code += `    if (${sampleHit}) {\n`
+          code += computation.split('\n').map(line => line ? '    ' + line : line).join('\n')
+          code += '    }\n'
+        } else {
+          code += computation
         }
         
       } catch (error) {
-        code += `    /* Error generating code for ${block.block.type}: ${error} */\n`
+        code += `    /* Error generating code for ${block.block.type}: ${CCodeBuilder.escapeComment(String(error))} */\n`
       }
     }
     
@@ -232,6 +277,30 @@ export class AlgebraicEvaluator {
     return [...inputs, `states->${safeName}_states`]
   }
   
+  /**
+   * For each input of a Merge block, the condition under which it is
+   * updated: the enable state of the enabled subsystem that computes it,
+   * or null when it is updated in every step
+   */
+  private getMergeUpdateConditions(block: FlattenedBlock): (string | null)[] {
+    return this.model.connections
+      .filter(c => c.targetBlockId === block.originalId)
+      .sort((a, b) => a.targetPortIndex - b.targetPortIndex)
+      .map(c => this.model.blocks.find(b => b.originalId === c.sourceBlockId))
+      .filter((source): source is FlattenedBlock => source !== undefined)
+      .map(source => {
+        // The subsystem in the Merge block's own sheet that contains the source
+        const containing = this.model.subsystemEnableInfo.filter(info =>
+          info.blockIds.includes(source.originalId) && !info.blockIds.includes(block.originalId)
+        )
+        const subsystem = containing.find(info => !containing.some(other => other.subsystemId === info.parentSubsystemId))
+        if (!subsystem?.hasEnableInput || subsystem.triggerType !== null) {
+          return null
+        }
+        return `model->enable_states.${CCodeBuilder.sanitizeIdentifier(subsystem.subsystemName)}_enabled`
+      })
+  }
+  
   /**
    * Generate expression to access a signal value
    */
@@ -240,14 +309,13 @@ export class AlgebraicEvaluator {
     portIndex: number,
     signalsVar: string = 'signals'
   ): string {
-    const safeName = CCodeBuilder.sanitizeIdentifier(block.block.name)
-    return `${signalsVar}->${safeName}`
+    return `${signalsVar}->${BlockModuleFactory.getOutputSignalName(block.block, portIndex)}`
   }
   
   /**
    * Generate code to copy signals to outputs
    */
-  private generateOutputCopy(): string {
+  generateOutputCopy(): string {
     const outputPorts = this.model.blocks.filter(b => b.block.type === 'output_port')
     
     if (outputPorts.length === 0) {
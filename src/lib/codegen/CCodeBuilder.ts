@@ -1,5 +1,8 @@
 // lib/codegen/CCodeBuilder.ts
 
+import { FixedPointFormat } from '@/lib/typeValidator'
+import { getStoredIntegerRange } from '@/lib/fixedPoint'
+
 /**
  * Utility class for building C code structures and expressions
  */
@@ -42,6 +45,19 @@ export class CCodeBuilder {
     return sanitized
   }
   
+  /**
+   * Make text from the model safe to write into a C comment: line breaks
+   * and control characters become spaces, and comment delimiters,
+   * backslashes and trigraphs are broken up
+   */
+  static escapeComment(text: string): string {
+    return String(text)
+      .replace(/[\x00-\x1f\x7f]/g, ' ')
+      .replace(/\*\//g, '* /')
+      .replace(/\\/g, '/')
+      .replace(/\?(?=\?)/g, '? ')
+  }
+  
   /**
    * Generate array declaration with optional initialization
    */
@@ -88,12 +104,77 @@ export class CCodeBuilder {
     member += ';'
     
     if (comment) {
-      member += ` /* ${comment} */`
+      member += ` /* ${this.escapeComment(comment)} */`
     }
     
     return member
   }
   
+  /**
+   * Get the C type that stores a signal of the given parsed type: the
+   * integer container for fixed-point types, the base type otherwise
+   */
+  static getCType(parsed: { baseType: string, fixedPoint?: FixedPointFormat }): string {
+    return parsed.fixedPoint ? this.getFixedPointCType(parsed.fixedPoint) : parsed.baseType
+  }
+
+  /**
+   * Get the stdint.h container type of a fixed-point format
+   */
+  static getFixedPointCType(format: FixedPointFormat): string {
+    return `${format.signed ? '' : 'u'}int${format.wordLength}_t`
+  }
+
+  /**
+   * Get a signed type wide enough to add or multiply two values of a
+   * fixed-point format without overflowing before saturation
+   */
+  static getFixedPointAccumulatorType(format: FixedPointFormat): string {
+    return format.wordLength < 32 ? 'int32_t' : 'int64_t'
+  }
+
+  /**
+   * Format a stored integer as a C literal. The most negative 32-bit
+   * value has no literal of its own, so it is written as an expression.
+   */
+  static formatStoredInteger(stored: number): string {
+    if (stored === -2147483648) {
+      return '(-2147483647 - 1)'
+    }
+    if (stored > 2147483647) {
+      return `${stored}U`
+    }
+    return stored.toString()
+  }
+
+  /**
+   * Generate an expression that clamps an accumulator variable to the
+   * range of a fixed-point format and narrows it to the container type.
+   * The variable is evaluated more than once, so it must not have side effects.
+   */
+  static generateFixedPointSaturation(variable: string, format: FixedPointFormat): string {
+    const { min, max } = getStoredIntegerRange(format)
+    const cType = this.getFixedPointCType(format)
+    const minLiteral = this.formatStoredInteger(min)
+    const maxLiteral = this.formatStoredInteger(max)
+    return `(${cType})(${variable} > ${maxLiteral} ? ${maxLiteral} : (${variable} < ${minLiteral} ? ${minLiteral} : ${variable}))`
+  }
+
+  /**
+   * Generate a binary-point shift: an arithmetic right shift for positive
+   * amounts and a multiplication for negative ones, since left-shifting a
+   * negative value is undefined in C
+   */
+  static generateFixedPointShift(expression: string, shift: number): string {
+    if (shift > 0) {
+      return `(${expression}) >> ${shift}`
+    }
+    if (shift < 0) {
+      return `(${expression}) * ${Math.pow(2, -shift)}`
+    }
+    return expression
+  }
+
   /**
    * Generate boolean expression for enable signal evaluation
    */
@@ -207,10 +288,10 @@ export class CCodeBuilder {
     if (lines.length === 0) return ''
     
     if (style === 'single') {
-      return lines.map(line => `// ${line}`).join('\n')
+      return lines.map(line => `// ${this.escapeComment(line)}`).join('\n')
     } else {
       let comment = '/*\n'
-      comment += lines.map(line => ` * ${line}`).join('\n')
+      comment += lines.map(line => ` * ${this.escapeComment(line)}`).join('\n')
       comment += '\n */\n'
       return comment
     }
@@ -224,7 +305,7 @@ export class CCodeBuilder {
     let macro = `#define ${safeName} ${value}`
     
     if (comment) {
-      macro += ` /* ${comment} */`
+      macro += ` /* ${this.escapeComment(comment)} */`
     }
     
     return macro
@@ -308,14 +389,16 @@ export class CCodeBuilder {
   static generateEnableStateStruct(subsystemEnableInfo: Array<{
     subsystemId: string,
     subsystemName: string,
-    hasEnableInput: boolean
+    hasEnableInput: boolean,
+    triggerType?: string | null
   }>): string {
     const members: string[] = []
     
-    // Add enable state for each subsystem that has enable input
+    // Add enable state for each subsystem that has enable input, and the
+    // last trigger signal for each subsystem that has a trigger input
     for (const info of subsystemEnableInfo) {
+      const safeName = this.sanitizeIdentifier(info.subsystemName)
       if (info.hasEnableInput) {
-        const safeName = this.sanitizeIdentifier(info.subsystemName)
         members.push(this.generateStructMember(
           'int',
           `${safeName}_enabled`,
@@ -323,6 +406,14 @@ export class CCodeBuilder {
           `Enable state for ${info.subsystemName}`
         ))
       }
+      if (info.triggerType) {
+        members.push(this.generateStructMember(
+          'double',
+          `${safeName}_trigger_prev`,
+          undefined,
+          `Trigger signal of ${info.subsystemName} at the last step`
+        ))
+      }
     }
     
     // If no subsystems have enable inputs, add a dummy member
@@ -363,16 +454,21 @@ export class CCodeBuilder {
     subsystemId: string,
     subsystemName: string,
     hasEnableInput: boolean,
-    parentSubsystemId: string | null
+    parentSubsystemId: string | null,
+    triggerType?: string | null
   }>): string {
     let code = '    /* Initialize enable states */\n'
     
     for (const info of subsystemEnableInfo) {
+      const safeName = this.sanitizeIdentifier(info.subsystemName)
       if (info.hasEnableInput) {
-        const safeName = this.sanitizeIdentifier(info.subsystemName)
         // Initialize to enabled by default
         code += `    model->enable_states.${safeName}_enabled = 1;\n`
       }
+      if (info.triggerType) {
+        // Trigger signals start from zero, as in the simulation
+        code += `    model->enable_states.${safeName}_trigger_prev = 0.0;\n`
+      }
     }
     
     return code
@@ -387,7 +483,8 @@ export class CCodeBuilder {
       subsystemName: string,
       hasEnableInput: boolean,
       parentSubsystemId: string | null,
-      enableWireSourceExpr?: string
+      enableWireSourceExpr?: string,
+      resetCode?: string
     }>,
     modelName: string
   ): string {
@@ -404,7 +501,7 @@ export class CCodeBuilder {
       'When disabled:',
       '- State integration is skipped',
       '- Outputs use last computed values',
-      '- States remain frozen'
+      '- States remain frozen, or are reset when enabled again'
     ])
     
     code += this.generateFunctionHeader(
@@ -422,6 +519,13 @@ export class CCodeBuilder {
       return depthA - depthB
     })
     
+    // Remember the enable states of subsystems that reset when enabled
+    const resetSubsystems = sortedSubsystems.filter(info => info.hasEnableInput && info.resetCode)
+    for (const info of resetSubsystems) {
+      const safeSysName = this.sanitizeIdentifier(info.subsystemName)
+      code += `    const int ${safeSysName}_was_enabled = model->enable_states.${safeSysName}_enabled;\n`
+    }
+    
     for (const info of sortedSubsystems) {
       if (!info.hasEnableInput) continue
       
@@ -463,6 +567,14 @@ export class CCodeBuilder {
       }
     }
     
+    for (const info of resetSubsystems) {
+      const safeSysName = this.sanitizeIdentifier(info.subsystemName)
+      code += `\n    /* Reset the states of ${info.subsystemName} when enabled again */\n`
+      code += `    if (!${safeSysName}_was_enabled && model->enable_states.${safeSysName}_enabled) {\n`
+      code += info.resetCode!.split('\n').map(line => line ? '    ' + line : line).join('\n')
+      code += '    }\n'
+    }
+    
     code += '}\n'
     return code
   }
@@ -2,6 +2,11 @@
 
 import { FlattenedModel, FlattenedBlock } from './ModelFlattener'
 import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+import { findFlattenedAlgebraicLoops, formatAlgebraicLoop } from '../algebraicLoopDetector'
+import { TypePropagator } from './TypePropagator'
+import { ParameterStructGenerator } from './ParameterStructGenerator'
+import { CCodeBuilder } from './CCodeBuilder'
+import { FIXED_POINT_BLOCK_TYPES, getFixedPointFormat } from '../fixedPoint'
 
 /**
  * Validation error with severity and details
@@ -29,6 +34,11 @@ export interface ValidationResult {
 export class CodeGenerationValidator {
   private errors: ValidationError[] = []
   private warnings: ValidationError[] = []
+  private parameters: ParameterStructGenerator
+
+  constructor(parameters?: ParameterStructGenerator) {
+    this.parameters = parameters || new ParameterStructGenerator()
+  }
   
   /**
    * Validate a flattened model for code generation
@@ -40,7 +50,9 @@ export class CodeGenerationValidator {
     // Run all validation checks
     this.validateBlocks(model)
     this.validateConnections(model)
+    this.validateAlgebraicLoops(model)
     this.validateEnableSignals(model)
+    this.validateTriggerSignals(model)
     this.validateDataTypes(model)
     this.validateBlockParameters(model)
     this.validateSignalNames(model)
@@ -70,16 +82,16 @@ export class CodeGenerationValidator {
         }
       }
       
-      // Validate block name
-      /*
-      if (!this.isValidCIdentifier(block.block.name)) {
+      // Validate block name: the flattened name (with the names of the
+      // enclosing subsystems) is an identifier and the name goes into comments
+      if (!this.isValidCIdentifier(block.flattenedName) ||
+          CCodeBuilder.escapeComment(block.block.name) !== block.block.name) {
         this.addError({
           code: 'INVALID_BLOCK_NAME',
-          message: `Block name '${block.block.name}' is not a valid C identifier`,
+          message: `Block name '${block.block.name}' (${block.flattenedName}) cannot be written into C code`,
           blockId: block.originalId
         })
       }
-        */
       
       // Check for duplicate flattened names
       const duplicates = model.blocks.filter(b => 
@@ -164,6 +176,21 @@ export class CodeGenerationValidator {
     }
   }
   
+  /**
+   * Validate that no direct-feedthrough blocks depend on each other within
+   * a step; the generated evaluation order would be arbitrary for them
+   */
+  private validateAlgebraicLoops(model: FlattenedModel): void {
+    for (const loop of findFlattenedAlgebraicLoops(model)) {
+      this.addError({
+        code: 'ALGEBRAIC_LOOP',
+        message: formatAlgebraicLoop(loop),
+        blockId: loop.blockIds[0],
+        details: { blockIds: loop.blockIds }
+      })
+    }
+  }
+  
   /**
    * Validate enable signals
    */
@@ -199,13 +226,47 @@ export class CodeGenerationValidator {
     }
   }
   
+  /**
+   * Validate trigger signals and the contents of triggered subsystems
+   */
+  private validateTriggerSignals(model: FlattenedModel): void {
+    for (const triggerInfo of model.subsystemEnableInfo) {
+      if (!triggerInfo.triggerType) continue
+      
+      if (!triggerInfo.triggerWire) {
+        this.addWarning({
+          code: 'UNCONNECTED_TRIGGER',
+          message: `Subsystem '${triggerInfo.subsystemName}' has trigger input but no trigger wire connected`,
+          blockId: triggerInfo.subsystemId
+        })
+      }
+    }
+    
+    // Triggered subsystems run at irregular times, so only discrete states
+    // can be updated inside them
+    for (const block of model.blocks) {
+      if (!block.triggerScope) continue
+      
+      try {
+        const generator = BlockModuleFactory.getBlockModule(block.block.type)
+        if (generator.requiresState(block.block) && !generator.generateDiscreteUpdate) {
+          this.addError({
+            code: 'CONTINUOUS_STATE_IN_TRIGGERED_SUBSYSTEM',
+            message: `Block '${block.flattenedName}' (${block.block.type}) has continuous states and cannot be in a triggered subsystem`,
+            blockId: block.originalId
+          })
+        }
+      } catch {
+        // Unsupported blocks are reported by validateBlocks
+      }
+    }
+  }
+  
   /**
    * Validate data types
    */
   private validateDataTypes(model: FlattenedModel): void {
-    // This is a placeholder for future type propagation validation
-    // For now, just check that input/output ports have valid types
-    
+    // Check that input/output ports have valid types
     const validTypes = ['bool', 'int', 'long', 'float', 'double']
     const arrayPattern = /^(bool|int|long|float|double)(\[\d+\]){1,2}$/
     
@@ -213,7 +274,7 @@ export class CodeGenerationValidator {
       if (block.block.type === 'input_port' || block.block.type === 'output_port') {
         const dataType = block.block.parameters?.dataType || 'double'
         
-        if (!validTypes.includes(dataType) && !arrayPattern.test(dataType)) {
+        if (!validTypes.includes(dataType) && !arrayPattern.test(dataType) && !getFixedPointFormat(dataType)) {
           this.addError({
             code: 'INVALID_DATA_TYPE',
             message: `Invalid data type '${dataType}' for ${block.block.type}`,
@@ -222,6 +283,33 @@ export class CodeGenerationValidator {
         }
       }
     }
+
+    // Fixed-point signals may only enter blocks with integer implementations
+    if (!model.blocks.some(block => getFixedPointFormat(block.block.parameters?.dataType))) {
+      return
+    }
+    const typeMap = new TypePropagator(model).propagate()
+    for (const block of model.blocks) {
+      const fixedInput = model.connections.find(c =>
+        c.targetBlockId === block.originalId && getFixedPointFormat(typeMap.get(c.sourceBlockId))
+      )
+      if (!fixedInput) continue
+
+      if (!FIXED_POINT_BLOCK_TYPES.includes(block.block.type)) {
+        this.addError({
+          code: 'FIXED_POINT_UNSUPPORTED',
+          message: `Block '${block.flattenedName}' (${block.block.type}) does not support fixed-point signals (input ${typeMap.get(fixedInput.sourceBlockId)})`,
+          blockId: block.originalId
+        })
+      } else if (block.block.type === 'scale' && !this.hasConstantGain(block)) {
+        // The gain is converted to an integer when the code is generated
+        this.addError({
+          code: 'FIXED_POINT_TUNABLE_GAIN',
+          message: `Scale block '${block.flattenedName}' needs a constant numeric gain for fixed-point signals (input ${typeMap.get(fixedInput.sourceBlockId)})`,
+          blockId: block.originalId
+        })
+      }
+    }
   }
   
   /**
@@ -234,6 +322,11 @@ export class CodeGenerationValidator {
           this.validateTransferFunction(block)
           break
           
+        case 'discrete_transfer_function':
+          this.validateTransferFunction(block)
+          this.validateDiscreteTransferFunction(block)
+          break
+          
         case 'lookup_1d':
           this.validateLookup1D(block)
           break
@@ -286,6 +379,23 @@ export class CodeGenerationValidator {
     }
   }
   
+  /**
+   * Validate discrete transfer function parameters
+   */
+  private validateDiscreteTransferFunction(block: FlattenedBlock): void {
+    const params = block.block.parameters || {}
+    const numerator = params.numerator || []
+    const denominator = params.denominator || []
+    
+    if (numerator.length > denominator.length) {
+      this.addError({
+        code: 'IMPROPER_DISCRETE_TF',
+        message: `Discrete transfer function '${block.flattenedName}' is not causal (numerator order exceeds denominator order)`,
+        blockId: block.originalId
+      })
+    }
+  }
+  
   /**
    * Validate 1D lookup parameters
    */
@@ -386,6 +496,15 @@ export class CodeGenerationValidator {
     }
   }
   
+  /**
+   * Whether a scale block's gain is a number that the code does not read
+   * from the parameter struct
+   */
+  private hasConstantGain(block: FlattenedBlock): boolean {
+    const gain = block.block.parameters?.gain ?? 1
+    return typeof gain === 'number' && !this.parameters.isTunableParameter(block.originalId, 'gain')
+  }
+
   /**
    * Validate signal names
    */
@@ -2,15 +2,20 @@
 
 import { Sheet } from '@/lib/simulationEngine'
 import { ModelFlattener } from './ModelFlattener'
-import { HeaderGenerator } from './HeaderGenerator'
+import { HeaderGenerator, GeneratedPorts } from './HeaderGenerator'
 import { InitFunctionGenerator } from './InitFunctionGenerator'
 import { AlgebraicEvaluator } from './AlgebraicEvaluator'
 import { IntegrationOrchestrator } from './IntegrationOrchestrator'
 import { EnableEvaluator } from './EnableEvaluator'
+import { TriggerEvaluator } from './TriggerEvaluator'
 import { RK4Generator } from './RK4Generator'
 import { CCodeBuilder } from './CCodeBuilder'
 import { CodeGenerationValidator } from './CodeGenerationValidator'
 import { TypePropagator } from './TypePropagator'
+import { ParameterStructGenerator } from './ParameterStructGenerator'
+import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+import { WorkspaceVariable } from '@/lib/workspace'
+
 /**
  * Options for code generation
  */
@@ -26,6 +31,21 @@ export interface CodeGenerationOptions {
   
   /** Whether to generate a main() function for testing */
   generateMain?: boolean
+
+  /**
+   * Model workspace. Its variables become the tunable <model>_params_t
+   * struct, and parameter expressions over them are resolved against it.
+   */
+  workspace?: WorkspaceVariable[]
+
+  /**
+   * Block parameters to read from <model>_params_t instead of baking them
+   * into the step code, as paths like "Controller/Kp.gain"
+   */
+  tunableParameters?: string[]
+
+  /** Whether to export a name/offset/type table of the tunable parameters */
+  generateParameterTable?: boolean
 }
 
 /**
@@ -40,6 +60,9 @@ export interface CodeGenerationResult {
   
   /** Any warnings generated during code generation */
   warnings: string[]
+
+  /** Top-level ports of the generated inputs and outputs structures */
+  ports: GeneratedPorts
   
   /** Statistics about the generated code */
   stats: {
@@ -48,6 +71,7 @@ export interface CodeGenerationResult {
     subsystemsFlattened: number
     statesGenerated: number
     enabledSubsystems: number
+    triggeredSubsystems: number
   }
 }
 
@@ -62,7 +86,10 @@ export class CodeGenerator {
       modelName: options.modelName || 'model',
       generateEnableTracking: options.generateEnableTracking ?? true,
       includeDebugComments: options.includeDebugComments ?? true,
-      generateMain: options.generateMain ?? false
+      generateMain: options.generateMain ?? false,
+      workspace: options.workspace ?? [],
+      tunableParameters: options.tunableParameters ?? [],
+      generateParameterTable: options.generateParameterTable ?? false
     }
   }
   
@@ -70,6 +97,31 @@ export class CodeGenerator {
    * Generate C code from model sheets
    */
   generate(sheets: Sheet[]): CodeGenerationResult {
+    // Step 0: Resolve parameter expressions against the workspace
+    const parameters = new ParameterStructGenerator(this.options.workspace, {
+      tunableParameters: this.options.tunableParameters,
+      generateTable: this.options.generateParameterTable
+    })
+    try {
+      sheets = parameters.resolveSheets(sheets)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return {
+        header: '',
+        source: '',
+        warnings: [`ERROR: ${message} (INVALID_PARAMETER)`],
+        ports: { inputs: [], outputs: [] },
+        stats: {
+          blocksProcessed: 0,
+          connectionsProcessed: 0,
+          subsystemsFlattened: 0,
+          statesGenerated: 0,
+          enabledSubsystems: 0,
+          triggeredSubsystems: 0
+        }
+      }
+    }
+
     // Step 1: Flatten the model
     const flattener = new ModelFlattener({
       preserveOriginalNames: this.options.includeDebugComments,
@@ -82,15 +134,26 @@ export class CodeGenerator {
     const model = flatteningResult.model
     
     // Step 2: Validate the flattened model
-    const validator = new CodeGenerationValidator()
+    const validator = new CodeGenerationValidator(parameters)
     const validationResult = validator.validate(model)
     
-    // Combine warnings from flattening and validation
+    // Combine warnings from parameter resolution, flattening and validation
     const allWarnings = [
+      ...parameters.getWarnings(),
       ...flatteningResult.warnings,
       ...validationResult.warnings.map(w => w.message)
     ]
     
+    // Collect statistics
+    const stats = {
+      blocksProcessed: model.blocks.length,
+      connectionsProcessed: model.connections.length,
+      subsystemsFlattened: model.metadata.subsystemCount,
+      statesGenerated: this.countStates(model),
+      enabledSubsystems: model.subsystemEnableInfo.filter(info => info.hasEnableInput).length,
+      triggeredSubsystems: model.subsystemEnableInfo.filter(info => info.triggerType).length
+    }
+    
     // Check for validation errors
     if (!validationResult.valid) {
       // Filter out known flattening artifacts from errors
@@ -99,7 +162,7 @@ export class CodeGenerator {
         if (e.code === 'INVALID_CONNECTION' && e.details?.connectionId) {
           const connId = e.details.connectionId as string
           // These are generated by the flattening process
-          if (connId.includes('_enable') || connId.includes('_wire')) {
+          if (connId.includes('_enable') || connId.includes('_trigger') || connId.includes('_wire')) {
             return false
           }
         }
@@ -115,32 +178,39 @@ export class CodeGenerator {
         
         console.error('Code generation validation errors:', realErrors)
       }
+      
+      // Algebraic loops have no valid evaluation order, so no code is emitted
+      if (realErrors.some(e => e.code === 'ALGEBRAIC_LOOP')) {
+        return {
+          header: '',
+          source: '',
+          warnings: allWarnings,
+          ports: { inputs: [], outputs: [] },
+          stats
+        }
+      }
     }
     
-    // Step 3: Propagate types through the model
+    // Step 3: Point tunable block parameters at the parameter struct
+    parameters.bindBlockParameters(model)
+    
+    // Step 4: Propagate types through the model
     const typePropagator = new TypePropagator(model)
     const typeMap = typePropagator.propagate()
     
-    // Step 4: Generate header file
-    const headerGenerator = new HeaderGenerator(model, typeMap)
+    // Step 5: Generate header file
+    const headerGenerator = new HeaderGenerator(model, typeMap, parameters)
     const header = headerGenerator.generate()
+    const ports = headerGenerator.getPorts()
     
-    // Step 5: Generate source file
-    const source = this.generateSource(model, typeMap)
-    
-    // Step 6: Collect statistics
-    const stats = {
-      blocksProcessed: model.blocks.length,
-      connectionsProcessed: model.connections.length,
-      subsystemsFlattened: model.metadata.subsystemCount,
-      statesGenerated: this.countStates(model),
-      enabledSubsystems: model.subsystemEnableInfo.filter(info => info.hasEnableInput).length
-    }
+    // Step 6: Generate source file
+    const source = this.generateSource(model, typeMap, parameters)
     
     return {
       header,
       source,
       warnings: allWarnings,
+      ports,
       stats
     }
   }
@@ -149,7 +219,7 @@ export class CodeGenerator {
    * Generate the source file
    */
 
-  private generateSource(model: any, typeMap: Map<string, string>): string {
+  private generateSource(model: any, typeMap: Map<string, string>, parameters: ParameterStructGenerator): string {
     const modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
     let source = ''
     
@@ -169,17 +239,22 @@ export class CodeGenerator {
     source += '#include <math.h>\n\n'
     
     // Enable state macro if needed
-    const enableEvaluator = new EnableEvaluator(model)
+    const enableEvaluator = new EnableEvaluator(model, typeMap)
     const enableMacro = enableEvaluator.generateEnableCheckMacro()
     if (enableMacro) {
       source += enableMacro
     }
     
     // Static lookup tables and constants
-    source += this.generateStaticData(model)
+    source += this.generateStaticData(model, parameters)
+    
+    // Calibration table of the tunable parameters
+    if (parameters.hasTable()) {
+      source += parameters.generateTable(modelName)
+    }
     
     // Init function
-    const initGenerator = new InitFunctionGenerator(model)
+    const initGenerator = new InitFunctionGenerator(model, parameters, typeMap)
     source += initGenerator.generate()
     source += '\n'
     
@@ -195,8 +270,15 @@ export class CodeGenerator {
     source += algebraicEvaluator.generate()
     source += '\n'
     
+    // Trigger functions of triggered subsystems (if needed)
+    const triggerCode = new TriggerEvaluator(model, typeMap).generate()
+    if (triggerCode) {
+      source += triggerCode
+      source += '\n'
+    }
+    
     // Derivatives function (if needed)
-    const rk4Generator = new RK4Generator(model)
+    const rk4Generator = new RK4Generator(model, typeMap)
     const derivativesCode = rk4Generator.generate()
     if (derivativesCode) {
       source += derivativesCode
@@ -207,7 +289,7 @@ export class CodeGenerator {
     const integrationOrchestrator = new IntegrationOrchestrator(model, {
       integrationMethod: 'rk4', // Could make this configurable
       includeComments: this.options.includeDebugComments
-    })
+    }, typeMap)
     source += integrationOrchestrator.generate()
     
     // Optional main function
@@ -222,12 +304,17 @@ export class CodeGenerator {
   /**
    * Generate static data (lookup tables, etc.)
    */
-  private generateStaticData(model: any): string {
+  private generateStaticData(model: any, parameters: ParameterStructGenerator): string {
     let code = ''
     let hasStaticData = false
     
     // Generate lookup tables for 1D and 2D lookup blocks
     for (const block of model.blocks) {
+      // Tunable tables are read from the parameter struct instead
+      if (parameters.isTunableBlock(block.originalId)) {
+        continue
+      }
+      
       if (block.block.type === 'lookup_1d') {
         if (!hasStaticData) {
           code += CCodeBuilder.generateCommentBlock(['Static lookup tables'])
@@ -365,20 +452,17 @@ export class CodeGenerator {
     let count = 0
     
     for (const block of model.blocks) {
-      if (block.block.type === 'transfer_function') {
-        const denominator = block.block.parameters?.denominator || [1, 1]
-        const stateOrder = Math.max(0, denominator.length - 1)
+      const stateOrder = BlockModuleFactory.getContinuousStateOrder(block.block)
+      
+      if (stateOrder > 0) {
+        // Check if vector/matrix
+        const outputType = block.block.parameters?.dataType || 'double'
+        const arrayMatch = outputType.match(/\[(\d+)\]/)
         
-        if (stateOrder > 0) {
-          // Check if vector/matrix
-          const outputType = block.block.parameters?.dataType || 'double'
-          const arrayMatch = outputType.match(/\[(\d+)\]/)
-          
-          if (arrayMatch) {
-            count += stateOrder * parseInt(arrayMatch[1])
-          } else {
-            count += stateOrder
-          }
+        if (arrayMatch) {
+          count += stateOrder * parseInt(arrayMatch[1])
+        } else {
+          count += stateOrder
         }
       }
     }
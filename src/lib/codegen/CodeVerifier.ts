@@ -0,0 +1,417 @@
+// lib/codegen/CodeVerifier.ts
+
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { promisify } from 'util'
+import { MultiSheetSimulationEngine } from '../multiSheetSimulation'
+import { Sheet } from '../simulationEngine'
+import { WorkspaceVariable, resolveWorkspaceParameters } from '../workspace'
+import { getFixedPointFormat, toStoredInteger } from '../fixedPoint'
+import { parseType } from '../typeValidator'
+import { BlockModuleUtils } from '../blocks/BlockModule'
+import { CodeGenerationResult, CodeGenerator } from './CodeGenerator'
+import { GeneratedPort } from './HeaderGenerator'
+
+/**
+ * Most time steps a single verification may run. The reference simulation
+ * runs on the request's thread, so this also bounds how long it blocks.
+ */
+export const MAX_VERIFICATION_STEPS = 20000
+
+/** Run timeout for verifications requested over HTTP, which wait for the result */
+export const REQUEST_RUN_TIMEOUT_MS = 10000
+
+export const DEFAULT_VERIFICATION_TOLERANCE: VerificationTolerance = {
+  absoluteTolerance: 1e-6,
+  relativeTolerance: 1e-6
+}
+
+const COMPILE_TIMEOUT_MS = 60000
+const DEFAULT_RUN_TIMEOUT_MS = 60000
+
+// The compiled model runs in a network namespace of its own, without
+// environment variables, and limited to 512 MB of memory, no file writes,
+// no child processes and the CPU time of its run timeout
+const SANDBOX_COMMAND = ['unshare', '--net', '--map-root-user', 'prlimit']
+const SANDBOX_LIMITS = ['--as=536870912', '--fsize=0', '--nofile=16', '--nproc=1', '--core=0']
+const SANDBOX_ENV = {} as NodeJS.ProcessEnv
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * A generated value matches the simulated one when their difference is at
+ * most absoluteTolerance + relativeTolerance * |simulated|
+ */
+export interface VerificationTolerance {
+  absoluteTolerance: number
+  relativeTolerance: number
+}
+
+/** Constant value of an input port, broadcast over vector and matrix ports */
+export type InputStimulus = number | boolean | number[] | number[][]
+
+export interface CodeVerificationOptions {
+  timeStep: number
+  duration: number
+
+  /**
+   * Input port name to its value. Ports left out hold their default value,
+   * as they do in simulation.
+   */
+  inputs?: Record<string, InputStimulus>
+  tolerance?: Partial<VerificationTolerance>
+  workspace?: WorkspaceVariable[]
+
+  /** C compiler to build the generated code with (defaults to gcc) */
+  compiler?: string
+
+  /** Longest the compiled model may run, in milliseconds (defaults to 60 s) */
+  runTimeoutMs?: number
+}
+
+/** The first output element where the generated code left the tolerance */
+export interface SignalDivergence {
+  step: number
+  time: number
+
+  /** Output port name, with the element index for vectors and matrices */
+  signal: string
+  simulated: number
+  generated: number
+  difference: number
+}
+
+export interface OutputVerification {
+  portName: string
+  dataType: string
+
+  /** Largest absolute difference over all steps and elements */
+  maxError: number
+  passed: boolean
+}
+
+export interface CodeVerificationResult {
+  passed: boolean
+  steps: number
+  tolerance: VerificationTolerance
+  outputs: OutputVerification[]
+  firstDivergence?: SignalDivergence
+}
+
+/**
+ * Compile the generated C code with the local compiler, drive it with the
+ * same input port values as a simulation of the model, and compare every
+ * output port at every time step
+ */
+export async function verifyGeneratedCode(sheets: Sheet[], options: CodeVerificationOptions): Promise<CodeVerificationResult> {
+  const tolerance = { ...DEFAULT_VERIFICATION_TOLERANCE, ...options.tolerance }
+  const inputs = options.inputs ?? {}
+  if (!(options.timeStep > 0) || !(options.duration > 0)) {
+    throw new Error('Time step and duration must be positive')
+  }
+  if (options.duration / options.timeStep > MAX_VERIFICATION_STEPS) {
+    throw new Error(`Verification is limited to ${MAX_VERIFICATION_STEPS} time steps`)
+  }
+
+  const generated = new CodeGenerator({ modelName: 'model', workspace: options.workspace }).generate(sheets)
+  const errors = generated.warnings.filter(w => w.startsWith('ERROR'))
+  if (errors.length > 0 || !generated.source) {
+    throw new Error(`Code generation failed:\n${errors.join('\n') || 'No code was generated'}`)
+  }
+
+  const unknownInputs = Object.keys(inputs).filter(name => !generated.ports.inputs.some(port => port.portName === name))
+  if (unknownInputs.length > 0) {
+    throw new Error(`Unknown input ports: ${unknownInputs.join(', ')}`)
+  }
+
+  const resolvedSheets = resolveWorkspaceParameters(sheets, options.workspace ?? [])
+  const defaults = getDefaultInputs(resolvedSheets)
+  const stimuli = new Map(generated.ports.inputs.map(port =>
+    [port.portName, expandStimulus(port, inputs[port.portName] ?? defaults[port.portName] ?? 0)]
+  ))
+  const simulated = simulate(resolvedSheets, options, generated.ports.outputs, stimuli)
+  const actual = await runGeneratedCode(generated, stimuli, simulated.length, options)
+
+  return compareStepOutputs(generated.ports.outputs, simulated, actual, options.timeStep, tolerance)
+}
+
+/**
+ * Default values of the input ports on the root sheet, which drive the
+ * model when a simulation sets no inputs
+ */
+function getDefaultInputs(sheets: Sheet[]): Record<string, InputStimulus> {
+  const defaults: Record<string, InputStimulus> = {}
+  for (const block of sheets[0]?.blocks ?? []) {
+    if (block.type === 'input_port' && block.parameters?.portName) {
+      defaults[block.parameters.portName] = block.parameters.defaultValue ?? 0
+    }
+  }
+  return defaults
+}
+
+/**
+ * Flatten an input stimulus to one value per port element, rejecting
+ * values with the wrong dimensions
+ */
+function expandStimulus(port: GeneratedPort, stimulus: InputStimulus): number[] {
+  const values = flattenValue(stimulus)
+  if (!values.every(Number.isFinite)) {
+    throw new Error(`Input ${port.portName} must be given finite numbers`)
+  }
+
+  const elements = broadcast(values, getElementCount(port.dataType))
+  if (!elements) {
+    throw new Error(`Input ${port.portName} needs ${getElementCount(port.dataType)} values for type ${port.dataType}, got ${values.length}`)
+  }
+  return elements
+}
+
+/**
+ * Simulate the model and collect the output port elements at each step
+ */
+function simulate(
+  sheets: Sheet[],
+  options: CodeVerificationOptions,
+  outputs: GeneratedPort[],
+  stimuli: Map<string, number[]>
+): number[][] {
+  const engine = new MultiSheetSimulationEngine(sheets, { timeStep: options.timeStep, duration: options.duration })
+  const inputs: Record<string, number | number[]> = {}
+  for (const [portName, values] of stimuli) {
+    inputs[portName] = values.length === 1 ? values[0] : values
+  }
+
+  const rootSheetId = engine.getRootSheetId()
+  const steps: number[][] = []
+  engine.setTestInputs(inputs)
+  while (engine.step()) {
+    const values = engine.getOutputPortValues(rootSheetId)
+    steps.push(outputs.flatMap(port => {
+      const count = getElementCount(port.dataType)
+      const value = values.get(port.portName)
+      return (value !== undefined && broadcast(flattenValue(value), count)) || new Array(count).fill(NaN)
+    }))
+  }
+  return steps
+}
+
+/**
+ * Build the generated code with a driver that prints the output port
+ * elements after every step, then run it
+ */
+async function runGeneratedCode(
+  generated: CodeGenerationResult,
+  stimuli: Map<string, number[]>,
+  steps: number,
+  options: CodeVerificationOptions
+): Promise<number[][]> {
+  const compiler = options.compiler || 'gcc'
+  try {
+    await execFileAsync(compiler, ['--version'])
+  } catch {
+    throw new Error(`Verifying generated code needs the C compiler "${compiler}", which was not found on the server`)
+  }
+  try {
+    await execFileAsync(SANDBOX_COMMAND[0], [...SANDBOX_COMMAND.slice(1), '--', 'true'], { env: SANDBOX_ENV })
+  } catch {
+    throw new Error('Verifying generated code needs unshare and prlimit to sandbox the compiled model, which are not available on the server')
+  }
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'verify-code-'))
+  try {
+    const executable = path.join(dir, 'verify')
+    await fs.writeFile(path.join(dir, 'model.h'), generated.header)
+    await fs.writeFile(path.join(dir, 'model.c'), generated.source)
+    await fs.writeFile(path.join(dir, 'verify_main.c'), generateDriver(generated.ports, stimuli, steps, options.timeStep))
+
+    try {
+      await execFileAsync(compiler, ['-std=c99', '-o', executable, 'model.c', 'verify_main.c', '-lm'], {
+        cwd: dir,
+        timeout: COMPILE_TIMEOUT_MS
+      })
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new Error(`Generated code failed to compile:\n${stderr || (error instanceof Error ? error.message : String(error))}`)
+    }
+
+    const runTimeout = options.runTimeoutMs ?? DEFAULT_RUN_TIMEOUT_MS
+    let output: string
+    try {
+      const limits = [`--cpu=${Math.ceil(runTimeout / 1000)}`, ...SANDBOX_LIMITS]
+      output = (await execFileAsync(SANDBOX_COMMAND[0], [...SANDBOX_COMMAND.slice(1), ...limits, '--', executable], {
+        cwd: dir,
+        env: SANDBOX_ENV,
+        timeout: runTimeout,
+        maxBuffer: 256 * 1024 * 1024
+      })).stdout
+    } catch (error) {
+      throw new Error(`Generated code failed to run: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    const scales = generated.ports.outputs.flatMap(port => {
+      const format = getFixedPointFormat(port.dataType)
+      return new Array(getElementCount(port.dataType)).fill(format ? Math.pow(2, format.fractionLength) : 1)
+    })
+    return output.trim().split('\n').filter(line => line.length > 0).map(line =>
+      line.trim().split(' ').map((text, i) => Number(text) / scales[i])
+    )
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * C program that sets the inputs before every step and prints one line of
+ * output elements per step. Fixed-point ports use stored integers.
+ */
+function generateDriver(
+  ports: CodeGenerationResult['ports'],
+  stimuli: Map<string, number[]>,
+  steps: number,
+  timeStep: number
+): string {
+  const assignments = ports.inputs.flatMap(port => {
+    const format = getFixedPointFormat(port.dataType)
+    return getElementIndices(port.dataType).map((index, i) => {
+      const value = stimuli.get(port.portName)![i]
+      return `        model.inputs.${port.memberName}${index} = ${format ? toStoredInteger(value, format) : value};`
+    })
+  })
+  const prints = ports.outputs.flatMap(port =>
+    getElementIndices(port.dataType).map(index => `        printf(" %.17g", (double)model.outputs.${port.memberName}${index});`)
+  )
+
+  return `#include <stdio.h>
+#include "model.h"
+
+int main(void) {
+    model_t model;
+    model_init(&model, ${BlockModuleUtils.formatDouble(timeStep)});
+    for (int step = 0; step < ${steps}; step++) {
+${assignments.join('\n')}
+        model_step(&model);
+${prints.join('\n')}
+        printf("\\n");
+    }
+    return 0;
+}
+`
+}
+
+/**
+ * Compare simulated and generated output elements step by step. Each step
+ * lists the elements of the output ports in order.
+ */
+export function compareStepOutputs(
+  outputs: GeneratedPort[],
+  simulated: number[][],
+  generated: number[][],
+  timeStep: number,
+  tolerance: VerificationTolerance
+): CodeVerificationResult {
+  if (generated.length !== simulated.length) {
+    throw new Error(`Generated code ran ${generated.length} of ${simulated.length} steps`)
+  }
+
+  const signals = outputs.flatMap(port => getElementIndices(port.dataType).map(index => ({ port, index })))
+  const maxErrors = new Map(outputs.map(port => [port.portName, 0]))
+  const failed = new Set<string>()
+  let firstDivergence: SignalDivergence | undefined
+
+  simulated.forEach((simulatedStep, step) => {
+    signals.forEach(({ port, index }, i) => {
+      const expected = simulatedStep[i]
+      const actual = generated[step][i]
+      const difference = Math.abs(actual - expected)
+      const bothNaN = Number.isNaN(expected) && Number.isNaN(actual)
+      if (bothNaN || difference <= tolerance.absoluteTolerance + tolerance.relativeTolerance * Math.abs(expected)) {
+        maxErrors.set(port.portName, Math.max(maxErrors.get(port.portName)!, bothNaN ? 0 : difference))
+        return
+      }
+
+      maxErrors.set(port.portName, Number.isNaN(difference) ? NaN : Math.max(maxErrors.get(port.portName)!, difference))
+      failed.add(port.portName)
+      if (!firstDivergence) {
+        firstDivergence = {
+          step,
+          time: Number((step * timeStep).toPrecision(12)),
+          signal: `${port.portName}${index}`,
+          simulated: expected,
+          generated: actual,
+          difference
+        }
+      }
+    })
+  })
+
+  return {
+    passed: !firstDivergence,
+    steps: simulated.length,
+    tolerance,
+    outputs: outputs.map(port => ({
+      portName: port.portName,
+      dataType: port.dataType,
+      maxError: maxErrors.get(port.portName)!,
+      passed: !failed.has(port.portName)
+    })),
+    firstDivergence
+  }
+}
+
+/**
+ * Check tolerances received from a request, returning '' when they are valid
+ */
+export function getToleranceError(tolerance: unknown): string {
+  if (tolerance === undefined) {
+    return ''
+  }
+  if (typeof tolerance !== 'object' || tolerance === null) {
+    return 'tolerance must be an object with absoluteTolerance and relativeTolerance'
+  }
+  for (const key of ['absoluteTolerance', 'relativeTolerance']) {
+    const value = (tolerance as Record<string, unknown>)[key]
+    if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+      return `${key} must be a non-negative number`
+    }
+  }
+  return ''
+}
+
+/** One line saying where the generated code left the simulation */
+export function describeDivergence(divergence: SignalDivergence): string {
+  return `${divergence.signal} diverges at step ${divergence.step} (t = ${divergence.time}): ` +
+    `simulation ${divergence.simulated}, generated code ${divergence.generated}`
+}
+
+/** C index suffixes of a type's elements in row-major order, '' for scalars */
+function getElementIndices(dataType: string): string[] {
+  const parsed = parseType(dataType)
+  if (parsed.isMatrix && parsed.rows && parsed.cols) {
+    return Array.from({ length: parsed.rows * parsed.cols }, (_, i) => `[${Math.floor(i / parsed.cols!)}][${i % parsed.cols!}]`)
+  }
+  if (parsed.isArray && parsed.arraySize) {
+    return Array.from({ length: parsed.arraySize }, (_, i) => `[${i}]`)
+  }
+  return ['']
+}
+
+function getElementCount(dataType: string): number {
+  return getElementIndices(dataType).length
+}
+
+/** The values, with a single value repeated to the element count */
+function broadcast(values: number[], count: number): number[] | null {
+  if (values.length === 1) {
+    return new Array(count).fill(values[0])
+  }
+  return values.length === count ? values : null
+}
+
+function flattenValue(value: InputStimulus | boolean[]): number[] {
+  if (Array.isArray(value)) {
+    return (value as (number | boolean | number[])[]).flatMap(element => flattenValue(element))
+  }
+  return [Number(value)]
+}
@@ -2,6 +2,7 @@
 
 import { FlattenedModel, SubsystemEnableInfo } from './ModelFlattener'
 import { CCodeBuilder } from './CCodeBuilder'
+import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
 
 /**
  * Generates the enable state evaluation function
@@ -9,10 +10,12 @@ import { CCodeBuilder } from './CCodeBuilder'
 export class EnableEvaluator {
   private model: FlattenedModel
   private modelName: string
+  private typeMap: Map<string, string>
   
-  constructor(model: FlattenedModel) {
+  constructor(model: FlattenedModel, typeMap: Map<string, string> = new Map()) {
     this.model = model
     this.modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
+    this.typeMap = typeMap
   }
   
   /**
@@ -42,6 +45,7 @@ export class EnableEvaluator {
     hasEnableInput: boolean
     parentSubsystemId: string | null
     enableWireSourceExpr?: string
+    resetCode?: string
   }> {
     return this.model.subsystemEnableInfo.map(info => {
       const result = {
@@ -49,7 +53,12 @@ export class EnableEvaluator {
         subsystemName: info.subsystemName,
         hasEnableInput: info.hasEnableInput,
         parentSubsystemId: info.parentSubsystemId,
-        enableWireSourceExpr: undefined as string | undefined
+        enableWireSourceExpr: undefined as string | undefined,
+        resetCode: undefined as string | undefined
+      }
+      
+      if (info.hasEnableInput && info.statesWhenEnabling === 'reset') {
+        result.resetCode = this.generateStateReset(info.blockIds)
       }
       
       if (info.hasEnableInput && info.enableWire) {
@@ -70,6 +79,36 @@ export class EnableEvaluator {
     })
   }
   
+  /**
+   * Generate code that returns the states of the given blocks to their
+   * initial values: zeroed, then initialized as in the init function
+   */
+  private generateStateReset(blockIds: string[]): string {
+    let code = ''
+    
+    for (const block of this.model.blocks.filter(b => blockIds.includes(b.originalId))) {
+      try {
+        const generator = BlockModuleFactory.getBlockModule(block.block.type)
+        if (!generator.requiresState(block.block)) continue
+        
+        const outputType = this.typeMap.get(block.originalId) || 'double'
+        code += `    /* ${block.flattenedName} */\n`
+        for (const member of generator.generateStateStructMembers(block.block, outputType)) {
+          const name = member.match(/(\w+)\s*(\[[^;]*\])?\s*;/)?.[1]
+          if (name) {
+            code += `    memset(&model->states.${name}, 0, sizeof(model->states.${name}));\n`
+          }
+        }
+        code += generator.generateInitialization?.(block.block, outputType) ?? ''
+      } catch {
+        // Block type not supported for code generation
+        continue
+      }
+    }
+    
+    return code
+  }
+  
   /**
    * Generate the expression to read the enable signal value
    */
@@ -77,7 +116,7 @@ export class EnableEvaluator {
     sourceBlock: typeof this.model.blocks[0],
     portIndex: number
   ): string {
-    const safeName = CCodeBuilder.sanitizeIdentifier(sourceBlock.block.name)
+    const safeName = BlockModuleFactory.getOutputSignalName(sourceBlock.block, portIndex)
     
     // Determine where the signal value comes from
     switch (sourceBlock.block.type) {
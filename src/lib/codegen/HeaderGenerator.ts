@@ -2,7 +2,30 @@
 
 import { FlattenedModel } from './ModelFlattener'
 import { CCodeBuilder } from './CCodeBuilder'
+import { parseType } from '../typeValidator'
 import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+import { RateScheduler } from './RateScheduler'
+import { ParameterStructGenerator } from './ParameterStructGenerator'
+
+/**
+ * An input or output port of the generated model
+ */
+export interface GeneratedPort {
+  /** Port name as set on the port block */
+  portName: string
+  blockName: string
+
+  /** Member name in the <model>_inputs_t or <model>_outputs_t structure */
+  memberName: string
+
+  /** Signal type of the port, such as double[3] or fixdt(1,16,8) */
+  dataType: string
+}
+
+export interface GeneratedPorts {
+  inputs: GeneratedPort[]
+  outputs: GeneratedPort[]
+}
 
 /**
  * Generates the C header file for a flattened model
@@ -11,11 +34,15 @@ export class HeaderGenerator {
   private model: FlattenedModel
   private modelName: string
   private typeMap: Map<string, string>
+  private rateScheduler: RateScheduler
+  private parameters: ParameterStructGenerator
   
-  constructor(model: FlattenedModel, typeMap: Map<string, string>) {
+  constructor(model: FlattenedModel, typeMap: Map<string, string>, parameters?: ParameterStructGenerator) {
     this.model = model
     this.modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
     this.typeMap = typeMap
+    this.rateScheduler = new RateScheduler(model)
+    this.parameters = parameters || new ParameterStructGenerator()
   }
   
   /**
@@ -58,10 +85,17 @@ export class HeaderGenerator {
    * Generate include statements
    */
   private generateIncludes(): string {
-    return `#include <stdint.h>
+    let includes = `#include <stdint.h>
 #include <stdbool.h>
 #include <string.h>
 #include <math.h>\n`
+    
+    // size_t and offsetof for the parameter table
+    if (this.parameters.hasTable()) {
+      includes += '#include <stddef.h>\n'
+    }
+    
+    return includes
   }
   
   /**
@@ -88,50 +122,72 @@ export class HeaderGenerator {
     
     // Generate enable states structure if needed OR if we have stateful blocks
     // This ensures the type is always defined when referenced
-    if (this.hasStatefulBlocks() || this.model.subsystemEnableInfo.some(info => info.hasEnableInput)) {
+    if (this.hasStatefulBlocks() || this.model.subsystemEnableInfo.some(info => info.hasEnableInput || info.triggerType)) {
       types += CCodeBuilder.generateEnableStateStruct(this.model.subsystemEnableInfo)
       types += '\n'
     }
     
+    // Generate rate counters for blocks with their own sample time
+    if (this.rateScheduler.hasRates()) {
+      types += this.rateScheduler.generateTypeDefinitions()
+      types += '\n'
+    }
+    
+    // Generate tunable parameters structure (workspace and selected block parameters)
+    if (this.parameters.hasParameters()) {
+      types += this.parameters.generateStruct(this.modelName)
+      types += '\n'
+    }
+    
     return types
   }
   
+  /**
+   * Top-level input and output ports with their member names in the
+   * inputs and outputs structures
+   */
+  getPorts(): GeneratedPorts {
+    const inputs = this.model.blocks
+      .filter(b => b.block.type === 'input_port')
+      .map(port => this.describePort(port, port.block.parameters?.dataType || 'double'))
+
+    const outputs: GeneratedPort[] = []
+    for (const port of this.model.blocks.filter(b => b.block.type === 'output_port')) {
+      // Find the wire connected to this output port
+      const inputWire = this.model.connections.find(c => 
+        c.targetBlockId === port.originalId && c.targetPortIndex === 0
+      )
+      
+      // Get the source block to determine output type
+      const sourceBlock = inputWire && this.model.blocks.find(b => b.originalId === inputWire.sourceBlockId)
+      if (sourceBlock) {
+        outputs.push(this.describePort(port, this.getBlockOutputType(sourceBlock)))
+      }
+    }
+
+    return { inputs, outputs }
+  }
+
+  private describePort(port: typeof this.model.blocks[0], dataType: string): GeneratedPort {
+    const portName = port.block.parameters?.portName || port.flattenedName
+    return {
+      portName,
+      blockName: port.block.name,
+      memberName: CCodeBuilder.sanitizeIdentifier(portName),
+      dataType
+    }
+  }
+
   /**
    * Generate inputs structure
    */
   private generateInputsStruct(): string {
     const members: string[] = []
     
-    // Find all input port blocks
-    const inputPorts = this.model.blocks.filter(b => b.block.type === 'input_port')
-    
-    for (const port of inputPorts) {
-      const portName = port.block.parameters?.portName || port.flattenedName
-      const dataType = port.block.parameters?.dataType || 'double'
-      
-      // Parse array dimensions if present
-      const typeMatch = dataType.match(/^(\w+)(\[[\d\[\]]+\])?$/)
-      if (typeMatch) {
-        const baseType = typeMatch[1]
-        const dimensions = typeMatch[2]
-        
-        if (dimensions) {
-          // Extract dimension values
-          const dims = dimensions.match(/\d+/g)?.map((d:any) => parseInt(d)) || []
-          members.push(CCodeBuilder.generateStructMember(
-            baseType,
-            portName,
-            dims,
-            `Input port: ${port.block.name}`
-          ))
-        } else {
-          members.push(CCodeBuilder.generateStructMember(
-            baseType,
-            portName,
-            undefined,
-            `Input port: ${port.block.name}`
-          ))
-        }
+    for (const port of this.getPorts().inputs) {
+      const member = this.generatePortMember(port.dataType, port.portName, `Input port: ${port.blockName}`)
+      if (member) {
+        members.push(member)
       }
     }
     
@@ -152,53 +208,45 @@ export class HeaderGenerator {
     )
   }
   
+  /**
+   * Generate an input or output struct member. Fixed-point ports are
+   * stored as their integer container type.
+   */
+  private generatePortMember(typeString: string, portName: string, comment: string): string | null {
+    let baseType: string
+    let dims: number[] = []
+
+    try {
+      const parsed = parseType(typeString)
+      baseType = CCodeBuilder.getCType(parsed)
+      if (parsed.isMatrix && parsed.rows && parsed.cols) {
+        dims = [parsed.rows, parsed.cols]
+      } else if (parsed.isArray && parsed.arraySize) {
+        dims = [parsed.arraySize]
+      }
+    } catch {
+      // Pass other C types such as int through unchanged
+      const typeMatch = typeString.match(/^(\w+)(\[[\d\[\]]+\])?$/)
+      if (!typeMatch) {
+        return null
+      }
+      baseType = typeMatch[1]
+      dims = typeMatch[2]?.match(/\d+/g)?.map(d => parseInt(d)) || []
+    }
+
+    return CCodeBuilder.generateStructMember(baseType, portName, dims.length > 0 ? dims : undefined, comment)
+  }
+  
   /**
    * Generate outputs structure
    */
   private generateOutputsStruct(): string {
     const members: string[] = []
     
-    // Find all output port blocks
-    const outputPorts = this.model.blocks.filter(b => b.block.type === 'output_port')
-    
-    for (const port of outputPorts) {
-      const portName = port.block.parameters?.portName || port.flattenedName
-      
-      // Find the wire connected to this output port
-      const inputWire = this.model.connections.find(c => 
-        c.targetBlockId === port.originalId && c.targetPortIndex === 0
-      )
-      
-      if (inputWire) {
-        // Get the source block to determine output type
-        const sourceBlock = this.model.blocks.find(b => b.originalId === inputWire.sourceBlockId)
-        if (sourceBlock) {
-          const outputType = this.getBlockOutputType(sourceBlock)
-          
-          // Parse type for array dimensions
-          const typeMatch = outputType.match(/^(\w+)(\[[\d\[\]]+\])?$/)
-          if (typeMatch) {
-            const baseType = typeMatch[1]
-            const dimensions = typeMatch[2]
-            
-            if (dimensions) {
-              const dims = dimensions.match(/\d+/g)?.map(d => parseInt(d)) || []
-              members.push(CCodeBuilder.generateStructMember(
-                baseType,
-                portName,
-                dims,
-                `Output port: ${port.block.name}`
-              ))
-            } else {
-              members.push(CCodeBuilder.generateStructMember(
-                baseType,
-                portName,
-                undefined,
-                `Output port: ${port.block.name}`
-              ))
-            }
-          }
-        }
+    for (const port of this.getPorts().outputs) {
+      const member = this.generatePortMember(port.dataType, port.portName, `Output port: ${port.blockName}`)
+      if (member) {
+        members.push(member)
       }
     }
     
@@ -227,8 +275,8 @@ export class HeaderGenerator {
     
     // Process each block that needs signal storage
     for (const block of this.model.blocks) {
-      // Skip input/output ports - they don't need signal storage
-      if (block.block.type === 'input_port' || block.block.type === 'output_port') {
+      // Skip output ports - they write to the outputs structure
+      if (block.block.type === 'output_port') {
         continue
       }
       
@@ -320,10 +368,21 @@ export class HeaderGenerator {
     members.push(`    ${this.modelName}_states_t states;`)
     
     // Add enable states if needed OR if we have stateful blocks
-    if (this.hasStatefulBlocks() || this.model.subsystemEnableInfo.some(info => info.hasEnableInput)) {
+    if (this.hasStatefulBlocks() || this.model.subsystemEnableInfo.some(info => info.hasEnableInput || info.triggerType)) {
       members.push(`    enable_states_t enable_states;`)
     }
     
+    // Add rate counters if the model is multi-rate
+    const ratesMember = this.rateScheduler.generateStructMember()
+    if (ratesMember) {
+      members.push(ratesMember)
+    }
+    
+    // Add tunable parameters
+    if (this.parameters.hasParameters()) {
+      members.push(this.parameters.generateStructMember(this.modelName))
+    }
+    
     // Add time tracking
     members.push(`    double time;`)
     members.push(`    double dt; /* Time step */`)
@@ -353,14 +412,8 @@ export class HeaderGenerator {
     prototypes += CCodeBuilder.generateFunctionPrototype(
       'void',
       `${this.modelName}_evaluate_algebraic`,
-      [
-        `const ${this.modelName}_inputs_t* inputs`,
-        `const ${this.modelName}_states_t* states`,
-        `${this.modelName}_signals_t* signals`,
-        `${this.modelName}_outputs_t* outputs`,
-        `const enable_states_t* enable_states`
-      ],
-      'Evaluate algebraic relationships (pure function, no state changes)'
+      [`${this.modelName}_t* model`],
+      'Evaluate algebraic relationships into the model signals and outputs (no state changes)'
     ) + '\n'
     
     // Step function
@@ -374,6 +427,7 @@ export class HeaderGenerator {
     // Derivatives function (for RK4) - only if we have stateful blocks
     if (this.hasStatefulBlocks()) {
       const params = [
+        `const ${this.modelName}_t* model`,
         'double t',
         `const ${this.modelName}_inputs_t* inputs`,
         `const ${this.modelName}_signals_t* signals`,  // Add signals parameter
@@ -405,6 +459,21 @@ export class HeaderGenerator {
       ) + '\n'
     }
     
+    // Trigger evaluation function - only if we have subsystems with trigger inputs
+    if (this.model.subsystemEnableInfo.some(info => info.triggerType)) {
+      prototypes += CCodeBuilder.generateFunctionPrototype(
+        'void',
+        `${this.modelName}_evaluate_triggers`,
+        [`${this.modelName}_t* model`],
+        'Run the triggered subsystems whose trigger events occurred'
+      ) + '\n'
+    }
+    
+    // Parameter table for calibration tools
+    if (this.parameters.hasTable()) {
+      prototypes += '\n' + this.parameters.generateTableDeclarations(this.modelName)
+    }
+    
     return prototypes
   }
   
@@ -3,6 +3,9 @@
 import { FlattenedModel } from './ModelFlattener'
 import { CCodeBuilder } from './CCodeBuilder'
 import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+import { RateScheduler } from './RateScheduler'
+import { ParameterStructGenerator } from './ParameterStructGenerator'
+import { getFixedPointFormat, toStoredInteger } from '../fixedPoint'
 
 /**
  * Generates the initialization function for a flattened model
@@ -10,10 +13,14 @@ import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
 export class InitFunctionGenerator {
   private model: FlattenedModel
   private modelName: string
+  private parameters: ParameterStructGenerator
+  private typeMap: Map<string, string>
   
-  constructor(model: FlattenedModel) {
+  constructor(model: FlattenedModel, parameters?: ParameterStructGenerator, typeMap?: Map<string, string>) {
     this.model = model
     this.modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
+    this.parameters = parameters || new ParameterStructGenerator()
+    this.typeMap = typeMap || new Map()
   }
   
   /**
@@ -37,8 +44,16 @@ export class InitFunctionGenerator {
     // Initialize all structures to zero
     code += this.generateStructureInit()
     
-    // Initialize enable states
-    if (this.model.subsystemEnableInfo.some(info => info.hasEnableInput)) {
+    // Initialize tunable parameters to their model values
+    if (this.parameters.hasParameters()) {
+      code += this.parameters.generateInit()
+    }
+    
+    // Initialize rate counters
+    code += new RateScheduler(this.model).generateInit()
+    
+    // Initialize enable and trigger states
+    if (this.model.subsystemEnableInfo.some(info => info.hasEnableInput || info.triggerType)) {
       code += this.generateEnableStateInit()
     }
     
@@ -96,11 +111,11 @@ export class InitFunctionGenerator {
     
     for (const block of this.model.blocks) {
       try {
-        const generator = BlockModuleFactory.getModuleGenerator(block.block.type)
+        const generator = BlockModuleFactory.getBlockModule(block.block.type)
         
         // Check if this block type has initialization
         if (generator.generateInitialization) {
-          const initCode = generator.generateInitialization(block.block)
+          const initCode = generator.generateInitialization(block.block, this.typeMap.get(block.originalId))
           if (initCode && initCode.trim()) {
             if (!hasBlockInit) {
               code += '    /* Initialize block-specific states */\n'
@@ -142,9 +157,9 @@ export class InitFunctionGenerator {
     const sourceBlocks = this.model.blocks.filter(b => b.block.type === 'source')
     
     for (const block of sourceBlocks) {
-      const sourceType = block.block.parameters?.sourceType || 'constant'
+      const signalType = block.block.parameters?.signalType || 'constant'
       
-      if (sourceType === 'constant') {
+      if (signalType === 'constant') {
         const value = block.block.parameters?.value || '0.0'
         const dataType = block.block.parameters?.dataType || 'double'
         const signalName = `model->signals.${CCodeBuilder.sanitizeIdentifier(block.block.name)}`
@@ -160,8 +175,12 @@ export class InitFunctionGenerator {
           // Array or matrix constant
           code += this.generateArrayConstantInit(signalName, value, dataType, block.flattenedName)
         } else {
-          // Scalar constant
-          code += `    ${signalName} = ${value}; /* ${block.flattenedName} */\n`
+          // Scalar constant, as its stored integer for fixed-point types
+          const fixedPoint = getFixedPointFormat(dataType)
+          const literal = fixedPoint
+            ? CCodeBuilder.formatStoredInteger(toStoredInteger(Number(value) || 0, fixedPoint))
+            : value
+          code += `    ${signalName} = ${literal}; /* ${block.flattenedName} */\n`
         }
       }
     }
@@ -188,6 +207,11 @@ export class InitFunctionGenerator {
     try {
       // Handle different formats: [1,2,3] or [[1,2],[3,4]] etc.
       const parsedValue = this.parseArrayValue(value)
+      const fixedPoint = getFixedPointFormat(dataType)
+      const elementType = fixedPoint ? CCodeBuilder.getFixedPointCType(fixedPoint) : 'double'
+      const literal = (element: number | string): number | string => fixedPoint
+        ? CCodeBuilder.formatStoredInteger(toStoredInteger(Number(element) || 0, fixedPoint))
+        : element
       
       if (Array.isArray(parsedValue)) {
         // Determine dimensions
@@ -196,7 +220,7 @@ export class InitFunctionGenerator {
         if (dims.length === 1) {
           // 1D array
           code += `    {\n`
-          code += `        const double init_values[] = ${CCodeBuilder.generateArrayInitializer(parsedValue.flat())};\n`
+          code += `        const ${elementType} init_values[] = ${CCodeBuilder.generateArrayInitializer(parsedValue.flat().map(literal))};\n`
           code += `        memcpy(${signalName}, init_values, sizeof(init_values));\n`
           code += `    }\n`
         } else if (dims.length === 2) {
@@ -205,7 +229,7 @@ export class InitFunctionGenerator {
           for (let i = 0; i < dims[0]; i++) {
             for (let j = 0; j < dims[1]; j++) {
               const val = (parsedValue[i] && parsedValue[i][j]) || 0
-              code += `        ${signalName}[${i}][${j}] = ${val};\n`
+              code += `        ${signalName}[${i}][${j}] = ${literal(val)};\n`
             }
           }
           code += `    }\n`
@@ -3,6 +3,7 @@
 import { FlattenedModel } from './ModelFlattener'
 import { CCodeBuilder } from './CCodeBuilder'
 import { StateIntegrator } from './StateIntegrator'
+import { RateScheduler } from './RateScheduler'
 
 /**
  * Options for integration orchestrator code generation
@@ -27,10 +28,12 @@ export class IntegrationOrchestrator {
   private modelName: string
   private options: Required<IntegrationOrchestratorOptions>
   private stateIntegrator: StateIntegrator
+  private rateScheduler: RateScheduler
   
   constructor(
     model: FlattenedModel,
-    options: IntegrationOrchestratorOptions = {}
+    options: IntegrationOrchestratorOptions = {},
+    typeMap: Map<string, string> = new Map()
   ) {
     this.model = model
     this.modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
@@ -41,7 +44,8 @@ export class IntegrationOrchestrator {
     }
     this.stateIntegrator = new StateIntegrator(model, {
       includeComments: this.options.includeComments
-    })
+    }, typeMap)
+    this.rateScheduler = new RateScheduler(model)
   }
   
   /**
@@ -54,7 +58,8 @@ export class IntegrationOrchestrator {
       code += CCodeBuilder.generateCommentBlock([
         'Main simulation step function',
         'Orchestrates algebraic evaluation and state integration',
-        `Integration method: ${this.options.integrationMethod.toUpperCase()}`
+        `Integration method: ${this.options.integrationMethod.toUpperCase()}`,
+        ...this.generateRateComments()
       ])
     }
     
@@ -66,15 +71,16 @@ export class IntegrationOrchestrator {
     
     // Call algebraic evaluation function
     code += '    /* Evaluate algebraic relationships */\n'
-    code += `    ${this.modelName}_evaluate_algebraic(\n`
-    code += '        &model->inputs,\n'
-    code += '        &model->states,\n'
-    code += '        &model->signals,\n'
-    code += '        &model->outputs,\n'
-    code += '        &model->enable_states\n'
-    code += '    );\n'
+    code += `    ${this.modelName}_evaluate_algebraic(model);\n`
     code += '\n'
     
+    // Run the triggered subsystems on their trigger events
+    if (this.hasTriggeredSubsystems()) {
+      code += '    /* Run triggered subsystems */\n'
+      code += `    ${this.modelName}_evaluate_triggers(model);\n`
+      code += '\n'
+    }
+    
     // State integration
     if (this.stateIntegrator.hasStatefulBlocks()) {
       if (this.options.integrationMethod === 'euler') {
@@ -86,6 +92,19 @@ export class IntegrationOrchestrator {
         code += '    /* Unsupported integration method */\n'
       }
       code += '\n'
+
+      // Limits and resets on the integrated states
+      const constraints = this.stateIntegrator.generateStateConstraints()
+      if (constraints) {
+        code += constraints
+        code += '\n'
+      }
+    }
+    
+    // Discrete state updates, using the signals from the start of the step
+    if (this.stateIntegrator.hasDiscreteBlocks()) {
+      code += this.stateIntegrator.generateDiscreteUpdate()
+      code += '\n'
     }
     
     // Evaluate enable states at end of step (if needed)
@@ -95,6 +114,12 @@ export class IntegrationOrchestrator {
       code += '\n'
     }
     
+    // Advance the rate counters of slower sample rates
+    if (this.rateScheduler.hasRates()) {
+      code += this.rateScheduler.generateTick()
+      code += '\n'
+    }
+    
     // Update simulation time
     code += '    /* Update simulation time */\n'
     code += '    model->time += model->dt;\n'
@@ -112,6 +137,19 @@ export class IntegrationOrchestrator {
     return `${this.modelName}_step`
   }
   
+  /**
+   * Describe the sample rates run by this base-rate step function
+   */
+  private generateRateComments(): string[] {
+    if (!this.rateScheduler.hasRates()) {
+      return []
+    }
+    return [
+      'Call once per base-rate tick (dt); slower rates run on their counter hits:',
+      ...this.rateScheduler.getRates().map(rate => `  ${rate.name}: ${rate.sampleTime} s`)
+    ]
+  }
+  
   /**
    * Check if the model has stateful blocks
    */
@@ -125,4 +163,11 @@ export class IntegrationOrchestrator {
   private hasEnableSubsystems(): boolean {
     return this.model.subsystemEnableInfo.some(info => info.hasEnableInput)
   }
+  
+  /**
+   * Check if the model has subsystems with trigger inputs
+   */
+  private hasTriggeredSubsystems(): boolean {
+    return this.model.subsystemEnableInfo.some(info => info.triggerType !== null)
+  }
 }
\ No newline at end of file
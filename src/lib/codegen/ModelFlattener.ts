@@ -4,6 +4,9 @@ import { BlockData } from '@/components/BlockNode'
 import { WireData } from '@/components/Wire'
 import { Sheet } from '@/lib/simulationEngine'
 import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '@/lib/blocks/BlockModule'
+import { StatesWhenEnabling, SubsystemBlockModule, TriggerType } from '@/lib/blocks/SubsystemBlockModule'
 /**
  * A flattened block includes the original block data plus hierarchy information
  */
@@ -20,6 +23,9 @@ export interface FlattenedBlock {
   /** ID of the subsystem that controls this block's enable state (null for root) */
   enableScope: string | null
   
+  /** ID of the innermost triggered subsystem containing this block (null if none) */
+  triggerScope: string | null
+  
   /** Original sheet ID where this block resides */
   originalSheetId: string
   
@@ -103,6 +109,18 @@ export interface SubsystemEnableInfo {
   
   /** IDs of all blocks controlled by this subsystem's enable */
   controlledBlockIds: string[]
+  
+  /** Trigger type if this subsystem has a trigger input */
+  triggerType: TriggerType | null
+  
+  /** Wire that connects to the trigger input (if any) */
+  triggerWire?: FlattenedConnection
+  
+  /** Whether states are held or reset when the subsystem is re-enabled */
+  statesWhenEnabling: StatesWhenEnabling
+  
+  /** IDs of all blocks inside this subsystem, including nested subsystems */
+  blockIds: string[]
 }
 
 /**
@@ -222,7 +240,10 @@ export class ModelFlattener {
             subsystemName: this.generateFlattenedName(block.name, []),
             hasEnableInput,
             parentSubsystemId: subsystemId,
-            controlledBlockIds: []
+            controlledBlockIds: [],
+            triggerType: SubsystemBlockModule.getTriggerType(block),
+            statesWhenEnabling: SubsystemBlockModule.getStatesWhenEnabling(block),
+            blockIds: []
           }
           
           this.subsystemEnableInfo.push(enableInfo)
@@ -291,7 +312,9 @@ export class ModelFlattener {
     sheets: Sheet[],
     subsystemPath: string[] = [],
     parentEnableScope: string | null = null,
-    parentSheetId: string = 'root'
+    parentSheetId: string = 'root',
+    parentSampleTime: number = -1,
+    parentTriggerScope: string | null = null
   ): {
     blocks: FlattenedBlock[],
     connections: WireData[],
@@ -308,47 +331,31 @@ export class ModelFlattener {
           // Handle subsystem block
           const hasEnableInput = block.parameters?.showEnableInput === true
           const currentEnableScope = hasEnableInput ? block.id : parentEnableScope
+          const currentTriggerScope = SubsystemBlockModule.getTriggerType(block) ? block.id : parentTriggerScope
+          const subsystemSampleTime = BlockModuleUtils.getSampleTime(block)
+          const currentSampleTime = subsystemSampleTime > 0 ? subsystemSampleTime : parentSampleTime
           
           // Create port mapping for this subsystem
-          const portMapping: SubsystemPortMapping = {
-            subsystemId: block.id,
-            inputPorts: new Map(),
-            outputPorts: new Map()
-          }
+          const portMapping = this.createPortMapping(block)
           
           // Process subsystem's internal sheets
+          let containedBlockIds: string[] = []
           if (block.parameters?.sheets) {
             const subsystemSheets = block.parameters.sheets as Sheet[]
             const newPath = [...subsystemPath, block.name]
             
-            // Find input/output port blocks inside subsystem
-            for (const subSheet of subsystemSheets) {
-              for (const subBlock of subSheet.blocks) {
-                if (subBlock.type === 'input_port') {
-                  const portName = subBlock.parameters?.portName
-                  const portIndex = block.parameters.inputPorts?.indexOf(portName) ?? -1
-                  if (portIndex >= 0) {
-                    portMapping.inputPorts.set(portIndex, subBlock.id)
-                  }
-                } else if (subBlock.type === 'output_port') {
-                  const portName = subBlock.parameters?.portName
-                  const portIndex = block.parameters.outputPorts?.indexOf(portName) ?? -1
-                  if (portIndex >= 0) {
-                    portMapping.outputPorts.set(portIndex, subBlock.id)
-                  }
-                }
-              }
-            }
-            
             // Recursively flatten subsystem contents
             const subsystemResult = this.flattenSubsystems(
               subsystemSheets,
               newPath,
               currentEnableScope,
-              sheet.id
+              sheet.id,
+              currentSampleTime,
+              currentTriggerScope
             )
             
             flattenedBlocks.push(...subsystemResult.blocks)
+            containedBlockIds = subsystemResult.blocks.map(fb => fb.originalId)
             allConnections.push(...subsystemResult.connections)
             
             // Merge port mappings
@@ -359,8 +366,11 @@ export class ModelFlattener {
           
           portMappings.set(block.id, portMapping)
           
-          // Update subsystem enable info with controlled blocks
+          // Update subsystem enable info with contained and controlled blocks
           const enableInfo = this.subsystemEnableInfo.find(info => info.subsystemId === block.id)
+          if (enableInfo) {
+            enableInfo.blockIds = containedBlockIds
+          }
           if (enableInfo && hasEnableInput) {
             // Find all blocks in this enable scope
             enableInfo.controlledBlockIds = flattenedBlocks
@@ -373,10 +383,11 @@ export class ModelFlattener {
           const flattenedName = this.generateFlattenedName(block.name, subsystemPath)
           
           const flattenedBlock: FlattenedBlock = {
-            block: { ...block },
+            block: { ...BlockModuleFactory.inheritSampleTime(block, parentSampleTime) },
             flattenedName,
             subsystemPath: [...subsystemPath],
             enableScope: parentEnableScope,
+            triggerScope: parentTriggerScope,
             originalSheetId: sheet.id,
             originalId: block.id
           }
@@ -395,6 +406,39 @@ export class ModelFlattener {
     return { blocks: flattenedBlocks, connections: allConnections, portMappings }
   }
   
+  /**
+   * Map a subsystem's port indices to the input/output port blocks on its
+   * internal sheets, matched by port name
+   */
+  createPortMapping(subsystem: BlockData): SubsystemPortMapping {
+    const portMapping: SubsystemPortMapping = {
+      subsystemId: subsystem.id,
+      inputPorts: new Map(),
+      outputPorts: new Map()
+    }
+    
+    const subsystemSheets = (subsystem.parameters?.sheets || []) as Sheet[]
+    for (const subSheet of subsystemSheets) {
+      for (const subBlock of subSheet.blocks) {
+        if (subBlock.type === 'input_port') {
+          const portName = subBlock.parameters?.portName
+          const portIndex = subsystem.parameters?.inputPorts?.indexOf(portName) ?? -1
+          if (portIndex >= 0) {
+            portMapping.inputPorts.set(portIndex, subBlock.id)
+          }
+        } else if (subBlock.type === 'output_port') {
+          const portName = subBlock.parameters?.portName
+          const portIndex = subsystem.parameters?.outputPorts?.indexOf(portName) ?? -1
+          if (portIndex >= 0) {
+            portMapping.outputPorts.set(portIndex, subBlock.id)
+          }
+        }
+      }
+    }
+    
+    return portMapping
+  }
+  
   /**
    * Get all sheets recursively including those in subsystems
    */
@@ -483,7 +527,7 @@ export class ModelFlattener {
       let connectionType: FlattenedConnection['connectionType'] = 'direct'
       
       // Skip connections from/to port blocks entirely - they'll be replaced
-      if (portBlockIds.has(sourceBlockId) || (portBlockIds.has(targetBlockId) && targetPortIndex !== -1)) {
+      if (portBlockIds.has(sourceBlockId) || (portBlockIds.has(targetBlockId) && targetPortIndex >= 0)) {
         continue
       }
 
@@ -595,6 +639,26 @@ export class ModelFlattener {
             enableInfo.enableWire = flatConnection
           }
           continue
+        } else if (targetPortIndex === -2) {
+          // Special case: Trigger port connection
+          const flatConnection: FlattenedConnection = {
+            id: `${wire.id}_trigger`,
+            sourceBlockId,
+            sourcePortIndex,
+            targetBlockId,
+            targetPortIndex: -2, // Preserve special trigger port index
+            originalWireId: wire.id,
+            connectionType: 'direct'
+          }
+          flattenedConnections.push(flatConnection)
+          
+          const triggerInfo = this.subsystemEnableInfo.find(info =>
+            info.subsystemId === targetBlockId
+          )
+          if (triggerInfo) {
+            triggerInfo.triggerWire = flatConnection
+          }
+          continue
         }
       }
       
@@ -894,6 +958,9 @@ export class ModelFlattener {
       if (enableInfo.hasEnableInput && !enableInfo.enableWire) {
         this.addWarning(`Subsystem ${enableInfo.subsystemName} has enable input but no enable wire connected`)
       }
+      if (enableInfo.triggerType && !enableInfo.triggerWire) {
+        this.addWarning(`Subsystem ${enableInfo.subsystemName} has trigger input but no trigger wire connected`)
+      }
     }
     
     // Check for orphaned blocks (no connections)
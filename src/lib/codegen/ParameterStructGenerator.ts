@@ -0,0 +1,421 @@
+// lib/codegen/ParameterStructGenerator.ts
+
+import { Sheet } from '@/lib/simulationEngine'
+import { Expression } from '@/lib/c99ExpressionParser'
+import { c99ExpressionToCode } from '@/lib/c99ExpressionCodeGen'
+import { C99TokenType, c99Tokenizer } from '@/lib/c99Tokenizer'
+import {
+  WorkspaceValue,
+  WorkspaceVariable,
+  getExpressionVariables,
+  getWorkspaceVariableError,
+  isParameterExpression,
+  parseParameterExpression,
+  resolveParameterValue,
+  resolveWorkspaceParameters
+} from '@/lib/workspace'
+import { BlockData } from '@/components/BlockNode'
+import { CCodeBuilder } from './CCodeBuilder'
+import { FlattenedModel } from './ModelFlattener'
+import { BlockModuleUtils } from '../blocks/BlockModule'
+
+/**
+ * Block parameters that the generated step code can read from
+ * model->params. They can be moved into the parameter struct as a whole,
+ * and an expression over the workspace in one of them stays tunable: it
+ * is emitted as code reading the workspace variables. Expressions in any
+ * other parameter are evaluated once, when the code is generated.
+ */
+const TUNABLE_BLOCK_PARAMETERS: Record<string, string[]> = {
+  scale: ['gain'],
+  transfer_function: ['numerator', 'denominator'],
+  lookup_1d: ['inputValues', 'outputValues'],
+  lookup_2d: ['input1Values', 'input2Values', 'outputTable']
+}
+
+export interface ParameterStructOptions {
+  /** Block parameters to make tunable, as paths like "Controller/Kp.gain" */
+  tunableParameters?: string[]
+
+  /** Whether to export a name/offset/type table of the parameters */
+  generateTable?: boolean
+}
+
+/**
+ * One member of the parameter struct
+ */
+interface ParameterMember {
+  /** Workspace variable name or block parameter path */
+  name: string
+
+  /** C member name */
+  member: string
+
+  value: WorkspaceValue
+  description?: string
+}
+
+/**
+ * Generates the <model>_params_t struct that holds the model workspace and
+ * the selected block parameters, and rewrites the blocks to read from it
+ */
+export class ParameterStructGenerator {
+  private workspace: WorkspaceVariable[]
+  private tunableParameters: string[]
+  private table: boolean
+  private members: ParameterMember[] = []
+  private warnings: string[] = []
+
+  /** C code of the block parameters read from the struct, by block ID and parameter */
+  private blockBindings = new Map<string, Map<string, unknown>>()
+
+  constructor(workspace: WorkspaceVariable[] = [], options: ParameterStructOptions = {}) {
+    this.workspace = workspace
+    this.tunableParameters = options.tunableParameters ?? []
+    this.table = options.generateTable ?? false
+    this.resetMembers()
+  }
+
+  hasParameters(): boolean {
+    return this.members.length > 0
+  }
+
+  hasTable(): boolean {
+    return this.table && this.hasParameters()
+  }
+
+  /**
+   * Whether any parameter of a block is read from the parameter struct
+   */
+  isTunableBlock(blockId: string): boolean {
+    return this.blockBindings.has(blockId)
+  }
+
+  /**
+   * Whether the generated code reads a block parameter from the parameter struct
+   */
+  isTunableParameter(blockId: string, parameter: string): boolean {
+    return this.blockBindings.get(blockId)?.has(parameter) ?? false
+  }
+
+  /**
+   * Expressions over the workspace that the generated code cannot tune,
+   * found by the last resolveSheets()
+   */
+  getWarnings(): string[] {
+    return this.warnings
+  }
+
+  /**
+   * Replace every parameter expression in the sheets by its value. The
+   * values of the selected block parameters are collected for the
+   * parameter struct, and the C code reading them and the tunable
+   * expressions is kept for bindBlockParameters().
+   */
+  resolveSheets(sheets: Sheet[]): Sheet[] {
+    this.resetMembers()
+    const selected = this.findTunableParameters(sheets)
+
+    return resolveWorkspaceParameters(sheets, this.workspace, (value, block, parameter) => {
+      const resolved = resolveParameterValue(value, this.workspace)
+      const path = selected.get(block.id)?.get(parameter)
+      if (path) {
+        const member = this.addBlockParameter(path, resolved)
+        this.bindBlockParameter(block, parameter, this.generateAccessors(`model->params.${member}`, resolved))
+      } else if (this.readsWorkspace(value)) {
+        const code = TUNABLE_BLOCK_PARAMETERS[block.type]?.includes(parameter)
+          ? this.generateParameterCode(value, resolved)
+          : null
+        if (code === null) {
+          this.warnings.push(
+            `Block "${block.name}" parameter "${parameter}" is not tunable: the generated code uses its current value, not the workspace variables`
+          )
+        } else {
+          this.bindBlockParameter(block, parameter, code)
+        }
+      }
+      return resolved
+    })
+  }
+
+  /**
+   * Point the tunable block parameters of the flattened model at the
+   * parameter struct. Run after validation, which needs the values.
+   */
+  bindBlockParameters(model: FlattenedModel): void {
+    for (const flattenedBlock of model.blocks) {
+      const bindings = this.blockBindings.get(flattenedBlock.originalId)
+      if (!bindings) continue
+
+      const parameters = { ...flattenedBlock.block.parameters, ...Object.fromEntries(bindings) }
+      flattenedBlock.block = { ...flattenedBlock.block, parameters }
+    }
+  }
+
+  /**
+   * Generate the parameter struct type definition, and the table entry
+   * type if a table is exported
+   */
+  generateStruct(modelName: string): string {
+    const members = this.members.map(parameter => CCodeBuilder.generateStructMember(
+      'double',
+      parameter.member,
+      this.getDimensions(parameter.value),
+      parameter.description
+    ))
+
+    let code = CCodeBuilder.generateStruct(
+      `${modelName}_params`,
+      members,
+      'Tunable model parameters, initialized from the model'
+    )
+
+    if (this.hasTable()) {
+      code += '\n'
+      code += CCodeBuilder.generateStruct(
+        `${modelName}_param_info`,
+        [
+          CCodeBuilder.generateStructMember('const char*', 'name', undefined, 'Workspace variable or block parameter path'),
+          CCodeBuilder.generateStructMember('size_t', 'offset', undefined, `Byte offset in ${modelName}_params_t`),
+          CCodeBuilder.generateStructMember('const char*', 'type', undefined, 'C type of each element'),
+          CCodeBuilder.generateStructMember('int', 'count', undefined, 'Number of elements')
+        ],
+        'Where a tunable parameter lives in the parameter struct, for calibration tools'
+      )
+    }
+
+    return code
+  }
+
+  /**
+   * Generate the model structure member holding the parameters
+   */
+  generateStructMember(modelName: string): string {
+    return `    ${modelName}_params_t params; /* Tunable parameters */`
+  }
+
+  /**
+   * Generate the extern declarations of the parameter table
+   */
+  generateTableDeclarations(modelName: string): string {
+    let code = '/* Tunable parameter table: patch a value at (char*)&model->params + offset */\n'
+    code += `extern const ${modelName}_param_info_t ${modelName}_param_table[];\n`
+    code += `extern const int ${modelName}_param_count;\n`
+    return code
+  }
+
+  /**
+   * Generate the parameter table definition
+   */
+  generateTable(modelName: string): string {
+    const entries = this.members.map(parameter => {
+      const count = Array.isArray(parameter.value) ? parameter.value.flat().length : 1
+      const name = parameter.name.replace(/["\\]/g, '\\$&')
+      return `    { "${name}", offsetof(${modelName}_params_t, ${parameter.member}), "double", ${count} }`
+    })
+
+    let code = CCodeBuilder.generateCommentBlock(['Tunable parameter table for calibration tools'])
+    code += `const ${modelName}_param_info_t ${modelName}_param_table[] = {\n`
+    code += entries.join(',\n') + '\n'
+    code += '};\n'
+    code += `const int ${modelName}_param_count = ${entries.length};\n\n`
+    return code
+  }
+
+  /**
+   * Generate the statements that set the parameters to their model values
+   */
+  generateInit(): string {
+    let code = '    /* Initialize tunable parameters */\n'
+
+    for (const parameter of this.members) {
+      const name = `model->params.${parameter.member}`
+      const value = parameter.value
+      if (!Array.isArray(value)) {
+        code += `    ${name} = ${BlockModuleUtils.formatDouble(value)};\n`
+      } else if (Array.isArray(value[0])) {
+        (value as number[][]).forEach((row, i) => row.forEach((element, j) => {
+          code += `    ${name}[${i}][${j}] = ${BlockModuleUtils.formatDouble(element)};\n`
+        }))
+      } else {
+        (value as number[]).forEach((element, i) => {
+          code += `    ${name}[${i}] = ${BlockModuleUtils.formatDouble(element)};\n`
+        })
+      }
+    }
+
+    return code + '\n'
+  }
+
+  private resetMembers(): void {
+    this.members = this.workspace.map(variable => ({
+      name: variable.name,
+      member: variable.name,
+      value: variable.value,
+      description: variable.description
+    }))
+    this.warnings = []
+    this.blockBindings.clear()
+  }
+
+  /**
+   * Find the blocks the tunable parameter paths refer to, following
+   * subsystem names from the top-level sheets
+   */
+  private findTunableParameters(sheets: Sheet[]): Map<string, Map<string, string>> {
+    const selected = new Map<string, Map<string, string>>()
+
+    for (const path of this.tunableParameters) {
+      const segments = path.split('/')
+      const last = segments.pop()!
+      const dot = last.indexOf('.')
+      if (dot < 0) {
+        throw new Error(`Invalid parameter path "${path}": expected "Block.parameter"`)
+      }
+      const blockName = last.slice(0, dot)
+      const parameter = last.slice(dot + 1)
+
+      let searchSheets = sheets
+      for (const subsystemName of segments) {
+        const subsystem = searchSheets
+          .flatMap(sheet => sheet.blocks)
+          .find(block => block.name === subsystemName && block.type === 'subsystem')
+        if (!subsystem) {
+          throw new Error(`Parameter path "${path}": no subsystem named "${subsystemName}"`)
+        }
+        searchSheets = subsystem.parameters?.sheets ?? []
+      }
+
+      const block = searchSheets.flatMap(sheet => sheet.blocks).find(b => b.name === blockName)
+      if (!block) {
+        throw new Error(`Parameter path "${path}": no block named "${blockName}"`)
+      }
+      if (!TUNABLE_BLOCK_PARAMETERS[block.type]?.includes(parameter)) {
+        throw new Error(`Parameter path "${path}": ${block.type} parameter "${parameter}" cannot be tuned`)
+      }
+      if (block.parameters?.[parameter] === undefined) {
+        throw new Error(`Parameter path "${path}": block ${blockName} has no parameter "${parameter}"`)
+      }
+
+      if (!selected.has(block.id)) {
+        selected.set(block.id, new Map())
+      }
+      selected.get(block.id)!.set(parameter, path)
+    }
+
+    return selected
+  }
+
+  /**
+   * Add a selected block parameter to the struct, returning its member name
+   */
+  private addBlockParameter(path: string, value: unknown): string {
+    const member = CCodeBuilder.sanitizeIdentifier(path.replace(/[/.]/g, '_'))
+    const existing = this.members.find(other => other.member === member)
+    if (existing) {
+      throw new Error(`"${path}" and "${existing.name}" have the same parameter struct member ${member}`)
+    }
+
+    const error = getWorkspaceVariableError({ name: member, value: value as WorkspaceValue }, [])
+    if (error) {
+      throw new Error(`Parameter path "${path}" must hold finite numbers`)
+    }
+
+    this.members.push({ name: path, member, value: value as WorkspaceValue })
+    return member
+  }
+
+  private bindBlockParameter(block: BlockData, parameter: string, code: unknown): void {
+    if (!this.blockBindings.has(block.id)) {
+      this.blockBindings.set(block.id, new Map())
+    }
+    this.blockBindings.get(block.id)!.set(parameter, code)
+  }
+
+  /**
+   * Whether a parameter value holds an expression naming a workspace variable
+   */
+  private readsWorkspace(value: unknown): boolean {
+    if (Array.isArray(value)) {
+      return value.some(element => this.readsWorkspace(element))
+    }
+    return isParameterExpression(value) && c99Tokenizer(value).some(token =>
+      token.type === C99TokenType.IDENTIFIER && this.workspace.some(variable => variable.name === token.value)
+    )
+  }
+
+  /**
+   * C expressions reading a parameter from the struct, in the shape of its value
+   */
+  private generateAccessors(name: string, value: unknown): unknown {
+    if (!Array.isArray(value)) {
+      return name
+    }
+    return value.map((element, i) => this.generateAccessors(`${name}[${i}]`, element))
+  }
+
+  /**
+   * C code for a tunable parameter value in the shape of its resolved
+   * value: a vector or matrix variable on its own is read element by
+   * element, scalar expressions become C expressions, and numbers are
+   * kept. Returns null for a bracketed array expression, which has no C
+   * equivalent.
+   */
+  private generateParameterCode(value: unknown, resolved: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((element, i) => this.generateParameterCode(element, (resolved as unknown[])[i]))
+    }
+    if (!isParameterExpression(value)) {
+      return resolved
+    }
+
+    const text = value.trim()
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(text)) {
+      return this.generateAccessors(`model->params.${text}`, resolved)
+    }
+    if (typeof resolved !== 'number') {
+      return null
+    }
+
+    const expr = this.withDoubleLiterals(parseParameterExpression(text))
+    const variables = Object.fromEntries(
+      getExpressionVariables(expr).map(name => [name, `model->params.${name}`])
+    )
+    return c99ExpressionToCode(expr, [], variables).code
+  }
+
+  /**
+   * Mark number literals as doubles so that e.g. 1/2 is not integer division in C
+   */
+  private withDoubleLiterals(expr: Expression): Expression {
+    switch (expr.type) {
+      case 'NumberLiteral':
+        return { ...expr, isFloat: true }
+      case 'BinaryExpression':
+        return { ...expr, left: this.withDoubleLiterals(expr.left), right: this.withDoubleLiterals(expr.right) }
+      case 'UnaryExpression':
+        return { ...expr, operand: this.withDoubleLiterals(expr.operand) }
+      case 'FunctionCall':
+        return { ...expr, arguments: expr.arguments.map(arg => this.withDoubleLiterals(arg)) }
+      case 'ConditionalExpression':
+        return {
+          ...expr,
+          condition: this.withDoubleLiterals(expr.condition),
+          trueBranch: this.withDoubleLiterals(expr.trueBranch),
+          falseBranch: this.withDoubleLiterals(expr.falseBranch)
+        }
+      default:
+        return expr
+    }
+  }
+
+  private getDimensions(value: WorkspaceValue): number[] | undefined {
+    if (!Array.isArray(value)) {
+      return undefined
+    }
+    if (Array.isArray(value[0])) {
+      return [value.length, (value[0] as number[]).length]
+    }
+    return [value.length]
+  }
+}
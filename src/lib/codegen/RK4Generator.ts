@@ -3,6 +3,7 @@
 import { FlattenedModel, FlattenedBlock } from './ModelFlattener'
 import { CCodeBuilder } from './CCodeBuilder'
 import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+import { IBlockModule } from '../blocks/BlockModule'
 import { EnableEvaluator } from './EnableEvaluator'
 
 /**
@@ -14,9 +15,11 @@ export class RK4Generator {
   private modelName: string
   private enableEvaluator: EnableEvaluator
   private hasEnableSubsystems: boolean
+  private typeMap: Map<string, string>
   
-  constructor(model: FlattenedModel) {
+  constructor(model: FlattenedModel, typeMap: Map<string, string> = new Map()) {
     this.model = model
+    this.typeMap = typeMap
     this.modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
     this.enableEvaluator = new EnableEvaluator(model)
     this.hasEnableSubsystems = model.subsystemEnableInfo.some(info => info.hasEnableInput)
@@ -41,10 +44,12 @@ export class RK4Generator {
       'Calculate state derivatives for integration',
       'This is part of the algebraic layer - computes derivatives without modifying states',
       'Takes current states and signals, returns derivatives',
+      'Reads only the tunable parameters from the model',
       this.hasEnableSubsystems ? 'Enable states control which blocks compute derivatives' : ''
     ].filter(Boolean))
     
     const params = [
+      `const ${this.modelName}_t* model`,
       'double t',
       `const ${this.modelName}_inputs_t* inputs`,
       `const ${this.modelName}_signals_t* signals`,
@@ -131,7 +136,7 @@ export class RK4Generator {
       code += '\n'
       
     } catch (error) {
-      code += `    /* Error generating derivatives for ${block.block.type}: ${error} */\n\n`
+      code += `    /* Error generating derivatives for ${block.block.type}: ${CCodeBuilder.escapeComment(String(error))} */\n\n`
     }
     
     return code
@@ -142,10 +147,10 @@ export class RK4Generator {
    */
   private generateDerivativeComputation(
     block: FlattenedBlock,
-    generator: any
+    generator: IBlockModule
   ): string {
-    // For transfer functions, use the generateStateDerivative method
-    if (block.block.type === 'transfer_function' && generator.generateStateDerivative) {
+    // Blocks with continuous states generate their own derivative code
+    if (generator.generateStateDerivative) {
       // Get block inputs from signals
       const inputConnections = this.model.connections
         .filter(c => c.targetBlockId === block.originalId)
@@ -159,7 +164,7 @@ export class RK4Generator {
         )
         
         if (sourceBlock) {
-          const safeName = CCodeBuilder.sanitizeIdentifier(sourceBlock.block.name)
+          const safeName = BlockModuleFactory.getOutputSignalName(sourceBlock.block, inputConnections[0].sourcePortIndex)
           
           // All signals should be available in the signals struct
           inputExpr = `signals->${safeName}`
@@ -183,13 +188,14 @@ export class RK4Generator {
   }
   
   /**
-   * Get all blocks that have state
+   * Get all blocks that have continuous state.
+   * Discrete states are updated in the step function, not integrated.
    */
   private getStatefulBlocks(): FlattenedBlock[] {
     return this.model.blocks.filter(block => {
       try {
         const generator = BlockModuleFactory.getBlockModule(block.block.type)
-        return generator.requiresState(block.block)
+        return generator.requiresState(block.block) && !generator.generateDiscreteUpdate
       } catch {
         return false
       }
@@ -207,7 +213,9 @@ export class RK4Generator {
    * Get output type for a block
    */
   private getBlockOutputType(block: FlattenedBlock): string {
-    // This should use the type map from type propagation
+    const propagatedType = this.typeMap.get(block.originalId)
+    if (propagatedType) return propagatedType
+    
     const dataType = block.block.parameters?.dataType
     if (dataType) return dataType
     
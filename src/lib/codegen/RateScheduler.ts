@@ -0,0 +1,146 @@
+// lib/codegen/RateScheduler.ts
+
+import { FlattenedModel } from './ModelFlattener'
+import { CCodeBuilder } from './CCodeBuilder'
+import { BlockModuleUtils } from '../blocks/BlockModule'
+
+/**
+ * A sample rate used by one or more blocks in the model
+ */
+export interface SampleRate {
+  /** Sample time in seconds */
+  sampleTime: number
+
+  /** C identifier of the rate counter (e.g. rate_0_02) */
+  name: string
+
+  /** Flattened names of the blocks running at this rate */
+  blockNames: string[]
+}
+
+/**
+ * Generates the rate counters for multi-rate models.
+ * The step function is the base-rate tick; each slower rate keeps a counter
+ * that is zero on its sample hits and wraps after period = Ts / dt ticks.
+ */
+export class RateScheduler {
+  private model: FlattenedModel
+  private modelName: string
+  private rates: SampleRate[]
+
+  constructor(model: FlattenedModel) {
+    this.model = model
+    this.modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
+    this.rates = this.collectRates()
+  }
+
+  /**
+   * Get the sample rates used in the model, fastest first
+   */
+  getRates(): SampleRate[] {
+    return this.rates
+  }
+
+  /**
+   * Check if any block runs at its own sample rate
+   */
+  hasRates(): boolean {
+    return this.rates.length > 0
+  }
+
+  /**
+   * Generate the rate counter type definitions for the header
+   */
+  generateTypeDefinitions(): string {
+    if (!this.hasRates()) {
+      return ''
+    }
+
+    let code = CCodeBuilder.generateStruct(
+      'rate_counter',
+      [
+        '    uint32_t counter; /* Base-rate ticks since the last sample hit */',
+        '    uint32_t period; /* Sample time in base-rate ticks */'
+      ],
+      'Counter for a sample rate that is a multiple of the base rate'
+    )
+    code += '\n'
+
+    const members = this.rates.map(rate =>
+      `    rate_counter_t ${rate.name}; /* ${rate.sampleTime} s: ${rate.blockNames.join(', ')} */`
+    )
+    code += CCodeBuilder.generateStruct(
+      `${this.modelName}_rates`,
+      members,
+      'Rate counters, one per sample time'
+    )
+
+    return code
+  }
+
+  /**
+   * Generate the model structure member holding the rate counters
+   */
+  generateStructMember(): string | null {
+    return this.hasRates() ? `    ${this.modelName}_rates_t rates;` : null
+  }
+
+  /**
+   * Generate the rate counter initialization for the init function
+   */
+  generateInit(): string {
+    if (!this.hasRates()) {
+      return ''
+    }
+
+    let code = '    /* Initialize rate counters */\n'
+    for (const rate of this.rates) {
+      const counter = `model->rates.${rate.name}`
+      code += `    ${counter}.counter = 0u;\n`
+      code += `    ${counter}.period = (uint32_t)floor(${BlockModuleUtils.formatDouble(rate.sampleTime)} / dt + 0.5);\n`
+      code += `    if (${counter}.period == 0u) ${counter}.period = 1u;\n`
+    }
+    code += '\n'
+    return code
+  }
+
+  /**
+   * Generate the rate counter advance at the end of the base-rate step
+   */
+  generateTick(): string {
+    if (!this.hasRates()) {
+      return ''
+    }
+
+    let code = '    /* Advance rate counters */\n'
+    for (const rate of this.rates) {
+      const counter = `model->rates.${rate.name}`
+      code += `    if (++${counter}.counter >= ${counter}.period) ${counter}.counter = 0u;\n`
+    }
+    return code
+  }
+
+  /**
+   * Collect the distinct sample times of blocks with their own sample rate
+   */
+  private collectRates(): SampleRate[] {
+    const rates = new Map<string, SampleRate>()
+
+    for (const block of this.model.blocks) {
+      const sampleTime = BlockModuleUtils.getSampleTime(block.block)
+      if (sampleTime <= 0) {
+        continue
+      }
+
+      const name = BlockModuleUtils.getRateName(sampleTime)
+      const rate = rates.get(name)
+      if (rate) {
+        rate.blockNames.push(block.flattenedName)
+      } else {
+        rates.set(name, { sampleTime, name, blockNames: [block.flattenedName] })
+      }
+    }
+
+    return Array.from(rates.values()).sort((a, b) => a.sampleTime - b.sampleTime)
+  }
+}
@@ -1,8 +1,9 @@
 // lib/codegen/StateIntegrator.ts - Updated implementation
 
-import { FlattenedModel, FlattenedBlock } from './ModelFlattener'
+import { FlattenedModel, FlattenedBlock, FlattenedConnection } from './ModelFlattener'
 import { CCodeBuilder } from './CCodeBuilder'
 import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '../blocks/BlockModule'
 
 /**
  * Options for state integration code generation
@@ -23,12 +24,15 @@ export class StateIntegrator {
   private model: FlattenedModel
   private modelName: string
   private options: Required<StateIntegratorOptions>
+  private typeMap: Map<string, string>
   
   constructor(
     model: FlattenedModel,
-    options: StateIntegratorOptions = {}
+    options: StateIntegratorOptions = {},
+    typeMap: Map<string, string> = new Map()
   ) {
     this.model = model
+    this.typeMap = typeMap
     this.modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
     this.options = {
       includeComments: options.includeComments ?? true,
@@ -80,6 +84,7 @@ export class StateIntegrator {
     code += '    /* Calculate derivatives */\n'
     code += `    ${this.modelName}_states_t derivatives;\n`
     code += `    ${this.modelName}_derivatives(\n`
+    code += '        model,\n'
     code += '        model->time,\n'
     code += '        &model->inputs,\n'
     code += '        &model->signals,\n'
@@ -133,7 +138,7 @@ export class StateIntegrator {
       }
       
     } catch (error) {
-      code += `    /* Error generating state update for ${block.block.type}: ${error} */\n`
+      code += `    /* Error generating state update for ${block.block.type}: ${CCodeBuilder.escapeComment(String(error))} */\n`
     }
     
     return code
@@ -150,42 +155,164 @@ export class StateIntegrator {
     const indent = '    '.repeat(indentLevel)
     let code = ''
     
-    // For transfer functions, we need to update states based on derivatives
-    if (block.block.type === 'transfer_function') {
-      const safeName = CCodeBuilder.sanitizeIdentifier(block.block.name)
-      const denominator = block.block.parameters?.denominator || [1, 1]
-      const stateOrder = Math.max(0, denominator.length - 1)
+    // Update each continuous state from its derivative
+    const safeName = CCodeBuilder.sanitizeIdentifier(block.block.name)
+    const stateOrder = BlockModuleFactory.getContinuousStateOrder(block.block)
+    
+    if (stateOrder > 0) {
+      const typeInfo = this.getBlockTypeInfo(block)
       
-      if (stateOrder > 0) {
-        const typeInfo = this.getBlockTypeInfo(block)
+      if (typeInfo.isMatrix) {
+        const [rows, cols] = typeInfo.dimensions
+        code += `${indent}for (int i = 0; i < ${rows}; i++) {\n`
+        code += `${indent}    for (int j = 0; j < ${cols}; j++) {\n`
+        code += `${indent}        for (int k = 0; k < ${stateOrder}; k++) {\n`
+        code += `${indent}            model->states.${safeName}_states[i][j][k] += model->dt * derivatives.${safeName}_states[i][j][k];\n`
+        code += `${indent}        }\n`
+        code += `${indent}    }\n`
+        code += `${indent}}\n`
+      } else if (typeInfo.isVector) {
+        const size = typeInfo.dimensions[0]
+        code += `${indent}for (int i = 0; i < ${size}; i++) {\n`
+        code += `${indent}    for (int j = 0; j < ${stateOrder}; j++) {\n`
+        code += `${indent}        model->states.${safeName}_states[i][j] += model->dt * derivatives.${safeName}_states[i][j];\n`
+        code += `${indent}    }\n`
+        code += `${indent}}\n`
+      } else {
+        code += `${indent}for (int i = 0; i < ${stateOrder}; i++) {\n`
+        code += `${indent}    model->states.${safeName}_states[i] += model->dt * derivatives.${safeName}_states[i];\n`
+        code += `${indent}}\n`
+      }
+    }
+    
+    return code
+  }
+  
+  /**
+   * Generate code applying state limits and resets after integration
+   * (e.g. integrator saturation). Like the discrete updates, the inputs
+   * come from model->signals, computed at the start of the step.
+   */
+  generateStateConstraints(): string {
+    let code = ''
+
+    for (const block of this.getStatefulBlocks()) {
+      try {
+        const generator = BlockModuleFactory.getBlockModule(block.block.type)
+        const constraints = generator.generateStateConstraints?.(
+          block.block,
+          this.getSignalInputs(block),
+          this.getSignalInputTypes(block)
+        )
+
+        if (!constraints) continue
+
+        if (this.options.includeComments) {
+          code += `    /* Constrain states of ${block.flattenedName} */\n`
+        }
+
+        if (this.options.checkEnableStates && this.hasEnableScope(block)) {
+          code += `    if (${this.generateEnableCheck(block)}) {\n`
+          code += constraints.split('\n').map(line => line ? '    ' + line : line).join('\n')
+          code += '    }\n'
+        } else {
+          code += constraints
+        }
+      } catch (error) {
+        code += `    /* Error generating state constraints for ${block.block.type}: ${CCodeBuilder.escapeComment(String(error))} */\n`
+      }
+    }
+
+    return code
+  }
+
+  /**
+   * Generate discrete state update code.
+   * Must run after continuous integration: model->signals still holds the
+   * values computed at the start of the step, which are the inputs sampled
+   * by discrete blocks.
+   *
+   * Only the blocks in the given triggered subsystem are updated, or those
+   * outside any triggered subsystem when it is null.
+   */
+  generateDiscreteUpdate(triggerScope: string | null = null): string {
+    const discreteBlocks = this.getDiscreteBlocks()
+      .filter(block => block.triggerScope === triggerScope)
+    
+    if (discreteBlocks.length === 0) {
+      return ''
+    }
+    
+    let code = ''
+    
+    if (this.options.includeComments) {
+      code += '    /* Update discrete states on their sample hits */\n'
+    }
+    
+    for (const block of discreteBlocks) {
+      try {
+        const generator = BlockModuleFactory.getBlockModule(block.block.type)
+        const update = generator.generateDiscreteUpdate!(
+          block.block,
+          this.getSignalInputs(block),
+          this.getSignalInputTypes(block)
+        )
         
-        if (typeInfo.isMatrix) {
-          const [rows, cols] = typeInfo.dimensions
-          code += `${indent}for (int i = 0; i < ${rows}; i++) {\n`
-          code += `${indent}    for (int j = 0; j < ${cols}; j++) {\n`
-          code += `${indent}        for (int k = 0; k < ${stateOrder}; k++) {\n`
-          code += `${indent}            model->states.${safeName}_states[i][j][k] += model->dt * derivatives.${safeName}_states[i][j][k];\n`
-          code += `${indent}        }\n`
-          code += `${indent}    }\n`
-          code += `${indent}}\n`
-        } else if (typeInfo.isVector) {
-          const size = typeInfo.dimensions[0]
-          code += `${indent}for (int i = 0; i < ${size}; i++) {\n`
-          code += `${indent}    for (int j = 0; j < ${stateOrder}; j++) {\n`
-          code += `${indent}        model->states.${safeName}_states[i][j] += model->dt * derivatives.${safeName}_states[i][j];\n`
-          code += `${indent}    }\n`
-          code += `${indent}}\n`
+        if (!update) continue
+        
+        if (this.options.includeComments) {
+          code += `    /* ${block.flattenedName} */\n`
+        }
+        
+        // Guard with the block's sample hit and enable scope
+        const conditions: string[] = []
+        const sampleHit = BlockModuleUtils.generateSampleHitCondition(block.block)
+        if (sampleHit) {
+          conditions.push(sampleHit)
+        }
+        if (this.options.checkEnableStates && this.hasEnableScope(block)) {
+          conditions.push(this.generateEnableCheck(block))
+        }
+        
+        if (conditions.length > 0) {
+          code += `    if (${conditions.join(' && ')}) {\n`
+          code += update.split('\n').map(line => line ? '    ' + line : line).join('\n')
+          code += '    }\n'
         } else {
-          code += `${indent}for (int i = 0; i < ${stateOrder}; i++) {\n`
-          code += `${indent}    model->states.${safeName}_states[i] += model->dt * derivatives.${safeName}_states[i];\n`
-          code += `${indent}}\n`
+          code += update
         }
+      } catch (error) {
+        code += `    /* Error generating discrete update for ${block.block.type}: ${CCodeBuilder.escapeComment(String(error))} */\n`
       }
     }
     
     return code
   }
   
+  /**
+   * Get input expressions for a block from the model signals
+   */
+  private getSignalInputs(block: FlattenedBlock): string[] {
+    return this.model.connections
+      .filter(c => c.targetBlockId === block.originalId)
+      .sort((a, b) => a.targetPortIndex - b.targetPortIndex)
+      .map(c => ({ connection: c, source: this.model.blocks.find(b => b.originalId === c.sourceBlockId) }))
+      .filter((input): input is { connection: FlattenedConnection, source: FlattenedBlock } => input.source !== undefined)
+      .map(({ connection, source }) =>
+        `model->signals.${BlockModuleFactory.getOutputSignalName(source.block, connection.sourcePortIndex)}`
+      )
+  }
+  
+  /**
+   * Get input types for a block from the type map
+   */
+  private getSignalInputTypes(block: FlattenedBlock): string[] {
+    return this.model.connections
+      .filter(c => c.targetBlockId === block.originalId)
+      .sort((a, b) => a.targetPortIndex - b.targetPortIndex)
+      .map(c => this.typeMap.get(c.sourceBlockId) || 'double')
+  }
+  
   /**
    * Generate RK4 integration code
    */
@@ -205,15 +332,14 @@ export class StateIntegrator {
     // Declare RK4 temporary variables
     code += '    /* RK4 temporary variables */\n'
     code += `    ${this.modelName}_states_t k1, k2, k3, k4;\n`
-    code += `    ${this.modelName}_states_t temp_states;\n`
-    code += `    ${this.modelName}_signals_t temp_signals;\n`
-    code += `    ${this.modelName}_outputs_t temp_outputs;\n`
+    code += `    ${this.modelName}_t temp_model = *model;\n`
     code += '    double h = model->dt;\n'
     code += '    double half_h = h * 0.5;\n\n'
     
     // k1 = f(t, y)
     code += '    /* Calculate k1 = f(t, y) */\n'
     code += `    ${this.modelName}_derivatives(\n`
+    code += '        model,\n'
     code += '        model->time,\n'
     code += '        &model->inputs,\n'
     code += '        &model->signals,\n'
@@ -228,21 +354,16 @@ export class StateIntegrator {
     
     // k2 = f(t + h/2, y + h/2 * k1)
     code += '    /* Calculate k2 = f(t + h/2, y + h/2 * k1) */\n'
-    code += this.generateStateUpdate('temp_states', 'model->states', 'k1', 'half_h')
+    code += this.generateStateUpdate('temp_model.states', 'model->states', 'k1', 'half_h')
     code += '\n'
     code += '    /* Re-evaluate algebraic relationships with updated states */\n'
-    code += `    ${this.modelName}_evaluate_algebraic(\n`
-    code += '        &model->inputs,\n'
-    code += '        &temp_states,\n'
-    code += '        &temp_signals,\n'
-    code += '        &temp_outputs,\n'
-    code += '        &model->enable_states\n'
-    code += '    );\n'
+    code += `    ${this.modelName}_evaluate_algebraic(&temp_model);\n`
     code += `    ${this.modelName}_derivatives(\n`
+    code += '        model,\n'
     code += '        model->time + half_h,\n'
     code += '        &model->inputs,\n'
-    code += '        &temp_signals,\n'
-    code += '        &temp_states,\n'
+    code += '        &temp_model.signals,\n'
+    code += '        &temp_model.states,\n'
     code += '        &k2'
     
     if (this.hasEnableSubsystems()) {
@@ -253,21 +374,16 @@ export class StateIntegrator {
     
     // k3 = f(t + h/2, y + h/2 * k2)
     code += '    /* Calculate k3 = f(t + h/2, y + h/2 * k2) */\n'
-    code += this.generateStateUpdate('temp_states', 'model->states', 'k2', 'half_h')
+    code += this.generateStateUpdate('temp_model.states', 'model->states', 'k2', 'half_h')
     code += '\n'
     code += '    /* Re-evaluate algebraic relationships with updated states */\n'
-    code += `    ${this.modelName}_evaluate_algebraic(\n`
-    code += '        &model->inputs,\n'
-    code += '        &temp_states,\n'
-    code += '        &temp_signals,\n'
-    code += '        &temp_outputs,\n'
-    code += '        &model->enable_states\n'
-    code += '    );\n'
+    code += `    ${this.modelName}_evaluate_algebraic(&temp_model);\n`
     code += `    ${this.modelName}_derivatives(\n`
+    code += '        model,\n'
     code += '        model->time + half_h,\n'
     code += '        &model->inputs,\n'
-    code += '        &temp_signals,\n'
-    code += '        &temp_states,\n'
+    code += '        &temp_model.signals,\n'
+    code += '        &temp_model.states,\n'
     code += '        &k3'
     
     if (this.hasEnableSubsystems()) {
@@ -278,21 +394,16 @@ export class StateIntegrator {
     
     // k4 = f(t + h, y + h * k3)
     code += '    /* Calculate k4 = f(t + h, y + h * k3) */\n'
-    code += this.generateStateUpdate('temp_states', 'model->states', 'k3', 'h')
+    code += this.generateStateUpdate('temp_model.states', 'model->states', 'k3', 'h')
     code += '\n'
     code += '    /* Re-evaluate algebraic relationships with updated states */\n'
-    code += `    ${this.modelName}_evaluate_algebraic(\n`
-    code += '        &model->inputs,\n'
-    code += '        &temp_states,\n'
-    code += '        &temp_signals,\n'
-    code += '        &temp_outputs,\n'
-    code += '        &model->enable_states\n'
-    code += '    );\n'
+    code += `    ${this.modelName}_evaluate_algebraic(&temp_model);\n`
     code += `    ${this.modelName}_derivatives(\n`
+    code += '        model,\n'
     code += '        model->time + h,\n'
     code += '        &model->inputs,\n'
-    code += '        &temp_signals,\n'
-    code += '        &temp_states,\n'
+    code += '        &temp_model.signals,\n'
+    code += '        &temp_model.states,\n'
     code += '        &k4'
     
     if (this.hasEnableSubsystems()) {
@@ -321,35 +432,32 @@ export class StateIntegrator {
     const statefulBlocks = this.getStatefulBlocks()
     
     for (const block of statefulBlocks) {
-      if (block.block.type === 'transfer_function') {
-        const safeName = CCodeBuilder.sanitizeIdentifier(block.block.name)
-        const denominator = block.block.parameters?.denominator || [1, 1]
-        const stateOrder = Math.max(0, denominator.length - 1)
+      const safeName = CCodeBuilder.sanitizeIdentifier(block.block.name)
+      const stateOrder = BlockModuleFactory.getContinuousStateOrder(block.block)
+      
+      if (stateOrder > 0) {
+        const typeInfo = this.getBlockTypeInfo(block)
         
-        if (stateOrder > 0) {
-          const typeInfo = this.getBlockTypeInfo(block)
-          
-          if (typeInfo.isMatrix) {
-            const [rows, cols] = typeInfo.dimensions
-            code += `    for (int i = 0; i < ${rows}; i++) {\n`
-            code += `        for (int j = 0; j < ${cols}; j++) {\n`
-            code += `            for (int k = 0; k < ${stateOrder}; k++) {\n`
-            code += `                ${dest}.${safeName}_states[i][j][k] = ${source}.${safeName}_states[i][j][k] + ${factor} * ${derivative}.${safeName}_states[i][j][k];\n`
-            code += `            }\n`
-            code += `        }\n`
-            code += `    }\n`
-          } else if (typeInfo.isVector) {
-            const size = typeInfo.dimensions[0]
-            code += `    for (int i = 0; i < ${size}; i++) {\n`
-            code += `        for (int j = 0; j < ${stateOrder}; j++) {\n`
-            code += `            ${dest}.${safeName}_states[i][j] = ${source}.${safeName}_states[i][j] + ${factor} * ${derivative}.${safeName}_states[i][j];\n`
-            code += `        }\n`
-            code += `    }\n`
-          } else {
-            code += `    for (int i = 0; i < ${stateOrder}; i++) {\n`
-            code += `        ${dest}.${safeName}_states[i] = ${source}.${safeName}_states[i] + ${factor} * ${derivative}.${safeName}_states[i];\n`
-            code += `    }\n`
-          }
+        if (typeInfo.isMatrix) {
+          const [rows, cols] = typeInfo.dimensions
+          code += `    for (int i = 0; i < ${rows}; i++) {\n`
+          code += `        for (int j = 0; j < ${cols}; j++) {\n`
+          code += `            for (int k = 0; k < ${stateOrder}; k++) {\n`
+          code += `                ${dest}.${safeName}_states[i][j][k] = ${source}.${safeName}_states[i][j][k] + ${factor} * ${derivative}.${safeName}_states[i][j][k];\n`
+          code += `            }\n`
+          code += `        }\n`
+          code += `    }\n`
+        } else if (typeInfo.isVector) {
+          const size = typeInfo.dimensions[0]
+          code += `    for (int i = 0; i < ${size}; i++) {\n`
+          code += `        for (int j = 0; j < ${stateOrder}; j++) {\n`
+          code += `            ${dest}.${safeName}_states[i][j] = ${source}.${safeName}_states[i][j] + ${factor} * ${derivative}.${safeName}_states[i][j];\n`
+          code += `        }\n`
+          code += `    }\n`
+        } else {
+          code += `    for (int i = 0; i < ${stateOrder}; i++) {\n`
+          code += `        ${dest}.${safeName}_states[i] = ${source}.${safeName}_states[i] + ${factor} * ${derivative}.${safeName}_states[i];\n`
+          code += `    }\n`
         }
       }
     }
@@ -364,16 +472,14 @@ export class StateIntegrator {
     let code = ''
     
     for (const block of statefulBlocks) {
-      if (block.block.type === 'transfer_function') {
-        // Check if block is in an enable scope
-        if (this.options.checkEnableStates && this.hasEnableScope(block)) {
-          const enableCheck = this.generateEnableCheck(block)
-          code += `    if (${enableCheck}) {\n`
-          code += this.generateRK4BlockUpdate(block, 2)
-          code += '    }\n'
-        } else {
-          code += this.generateRK4BlockUpdate(block, 1)
-        }
+      // Check if block is in an enable scope
+      if (this.options.checkEnableStates && this.hasEnableScope(block)) {
+        const enableCheck = this.generateEnableCheck(block)
+        code += `    if (${enableCheck}) {\n`
+        code += this.generateRK4BlockUpdate(block, 2)
+        code += '    }\n'
+      } else {
+        code += this.generateRK4BlockUpdate(block, 1)
       }
     }
     
@@ -388,8 +494,7 @@ export class StateIntegrator {
     let code = ''
     
     const safeName = CCodeBuilder.sanitizeIdentifier(block.block.name)
-    const denominator = block.block.parameters?.denominator || [1, 1]
-    const stateOrder = Math.max(0, denominator.length - 1)
+    const stateOrder = BlockModuleFactory.getContinuousStateOrder(block.block)
     
     if (stateOrder > 0) {
       const typeInfo = this.getBlockTypeInfo(block)
@@ -513,13 +618,27 @@ export class StateIntegrator {
   }
   
   /**
-   * Get all blocks that have state
+   * Get all blocks that have continuous state
    */
   private getStatefulBlocks(): FlattenedBlock[] {
     return this.model.blocks.filter(block => {
       try {
         const generator = BlockModuleFactory.getBlockModule(block.block.type)
-        return generator.requiresState(block.block)
+        return generator.requiresState(block.block) && !generator.generateDiscreteUpdate
+      } catch {
+        return false
+      }
+    })
+  }
+  
+  /**
+   * Get all blocks whose states are updated on sample hits
+   */
+  private getDiscreteBlocks(): FlattenedBlock[] {
+    return this.model.blocks.filter(block => {
+      try {
+        const generator = BlockModuleFactory.getBlockModule(block.block.type)
+        return !!generator.generateDiscreteUpdate
       } catch {
         return false
       }
@@ -530,7 +649,9 @@ export class StateIntegrator {
    * Get output type for a block
    */
   private getBlockOutputType(block: FlattenedBlock): string {
-    // This should ideally come from a type map
+    const propagatedType = this.typeMap.get(block.originalId)
+    if (propagatedType) return propagatedType
+    
     const dataType = block.block.parameters?.dataType
     if (dataType) return dataType
     
@@ -543,4 +664,11 @@ export class StateIntegrator {
   hasStatefulBlocks(): boolean {
     return this.getStatefulBlocks().length > 0
   }
+  
+  /**
+   * Check if the model has any discrete-time blocks
+   */
+  hasDiscreteBlocks(): boolean {
+    return this.getDiscreteBlocks().length > 0
+  }
 }
\ No newline at end of file
@@ -0,0 +1,175 @@
+// lib/codegen/TriggerEvaluator.ts
+
+import { FlattenedModel, SubsystemEnableInfo } from './ModelFlattener'
+import { CCodeBuilder } from './CCodeBuilder'
+import { AlgebraicEvaluator } from './AlgebraicEvaluator'
+import { StateIntegrator } from './StateIntegrator'
+import { SubsystemBlockModule } from '../blocks/SubsystemBlockModule'
+import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+
+/**
+ * Generates a function for each triggered subsystem, and the edge detection
+ * that calls it. The blocks of a triggered subsystem are computed and their
+ * discrete states updated only by its trigger function, so between trigger
+ * events their signals hold the values of the last event.
+ */
+export class TriggerEvaluator {
+  private model: FlattenedModel
+  private modelName: string
+  private typeMap: Map<string, string>
+
+  constructor(model: FlattenedModel, typeMap: Map<string, string> = new Map()) {
+    this.model = model
+    this.modelName = CCodeBuilder.sanitizeIdentifier(model.metadata.modelName)
+    this.typeMap = typeMap
+  }
+
+  /**
+   * Check if the model has subsystems with trigger inputs
+   */
+  hasTriggeredSubsystems(): boolean {
+    return this.model.subsystemEnableInfo.some(info => info.triggerType !== null)
+  }
+
+  /**
+   * Get the function name for the trigger evaluation function
+   */
+  getFunctionName(): string {
+    return `${this.modelName}_evaluate_triggers`
+  }
+
+  /**
+   * Generate the trigger functions, innermost subsystems first so each is
+   * defined before the function that calls it, then the trigger evaluation
+   * function called by the step after evaluate_algebraic
+   */
+  generate(): string {
+    if (!this.hasTriggeredSubsystems()) {
+      return ''
+    }
+
+    let code = ''
+    const triggered = this.model.subsystemEnableInfo.filter(info => info.triggerType !== null)
+    for (const info of [...triggered].reverse()) {
+      code += this.generateTriggerFunction(info)
+      code += '\n'
+    }
+
+    code += CCodeBuilder.generateCommentBlock([
+      'Detect trigger events and run the triggered subsystems',
+      'Called after evaluate_algebraic, so the trigger signals are current'
+    ])
+    code += CCodeBuilder.generateFunctionHeader(
+      'void',
+      this.getFunctionName(),
+      [`${this.modelName}_t* model`]
+    )
+    const algebraicEvaluator = new AlgebraicEvaluator(this.model, this.typeMap)
+    code += algebraicEvaluator.generateShorthands()
+    code += this.generateTriggerChecks(null)
+    code += '\n'
+    
+    // Output ports read the new outputs of the subsystems within the step
+    code += algebraicEvaluator.generateOutputCopy()
+    code += '}\n'
+
+    return code
+  }
+
+  /**
+   * Generate the function that runs one trigger event of a subsystem
+   */
+  private generateTriggerFunction(info: SubsystemEnableInfo): string {
+    const algebraicEvaluator = new AlgebraicEvaluator(this.model, this.typeMap)
+    const stateIntegrator = new StateIntegrator(this.model, { includeComments: true }, this.typeMap)
+
+    let code = CCodeBuilder.generateCommentBlock([
+      `Trigger event of ${info.subsystemName} (${this.describeTrigger(info)})`
+    ])
+    code += CCodeBuilder.generateFunctionHeader(
+      'static void',
+      this.getTriggerFunctionName(info),
+      [`${this.modelName}_t* model`]
+    )
+    code += algebraicEvaluator.generateTriggeredComputations(info.subsystemId)
+    code += this.generateTriggerChecks(info.subsystemId)
+    code += stateIntegrator.generateDiscreteUpdate(info.subsystemId)
+    code += '}\n'
+
+    return code
+  }
+
+  /**
+   * Generate the edge detection of the triggered subsystems directly inside
+   * the given triggered subsystem, or outside any when it is null
+   */
+  private generateTriggerChecks(triggerScope: string | null): string {
+    let code = ''
+
+    const children = this.model.subsystemEnableInfo.filter(info =>
+      info.triggerType !== null && this.getTriggerScope(info) === triggerScope
+    )
+
+    for (const info of children) {
+      const safeName = CCodeBuilder.sanitizeIdentifier(info.subsystemName)
+      const source = info.triggerWire && this.model.blocks.find(b => b.originalId === info.triggerWire!.sourceBlockId)
+      if (!source) {
+        code += `\n    /* ${info.subsystemName}: no trigger signal connected */\n`
+        continue
+      }
+
+      // Vector trigger signals trigger on their first element
+      const outputType = this.typeMap.get(source.originalId) || 'double'
+      const element = '[0]'.repeat((outputType.match(/\[/g) || []).length)
+      const signalName = BlockModuleFactory.getOutputSignalName(source.block, info.triggerWire!.sourcePortIndex)
+      const signal = `model->signals.${signalName}${element}`
+      const previous = `model->enable_states.${safeName}_trigger_prev`
+      const condition = SubsystemBlockModule.generateTriggerCondition(info.triggerType!, previous, 'trigger')
+      const parentEnable = this.getParentEnableCheck(info)
+
+      code += `\n    /* ${info.subsystemName}: ${this.describeTrigger(info)} */\n`
+      code += parentEnable ? `    if (${parentEnable}) {\n` : '    {\n'
+      code += `        const double trigger = (double)${signal};\n`
+      code += info.hasEnableInput
+        ? `        if (model->enable_states.${safeName}_enabled && ${condition}) {\n`
+        : `        if (${condition}) {\n`
+      code += `            ${this.getTriggerFunctionName(info)}(model);\n`
+      code += '        }\n'
+      code += `        ${previous} = trigger;\n`
+      code += '    }\n'
+    }
+
+    return code
+  }
+
+  private getTriggerFunctionName(info: SubsystemEnableInfo): string {
+    return `${this.modelName}_${CCodeBuilder.sanitizeIdentifier(info.subsystemName)}_trigger`
+  }
+
+  private describeTrigger(info: SubsystemEnableInfo): string {
+    return info.triggerType === 'function_call' ? 'function call' : `${info.triggerType} edge`
+  }
+
+  /**
+   * The innermost triggered subsystem containing a subsystem, or null
+   */
+  private getTriggerScope(info: SubsystemEnableInfo): string | null {
+    let parent = this.model.subsystemEnableInfo.find(s => s.subsystemId === info.parentSubsystemId)
+    while (parent && parent.triggerType === null) {
+      parent = this.model.subsystemEnableInfo.find(s => s.subsystemId === parent!.parentSubsystemId)
+    }
+    return parent?.subsystemId ?? null
+  }
+
+  /**
+   * Enable state of the innermost enabled subsystem containing a subsystem.
+   * Its trigger signal is not watched while that subsystem is disabled.
+   */
+  private getParentEnableCheck(info: SubsystemEnableInfo): string | null {
+    let parent = this.model.subsystemEnableInfo.find(s => s.subsystemId === info.parentSubsystemId)
+    while (parent && !parent.hasEnableInput) {
+      parent = this.model.subsystemEnableInfo.find(s => s.subsystemId === parent!.parentSubsystemId)
+    }
+    return parent ? `model->enable_states.${CCodeBuilder.sanitizeIdentifier(parent.subsystemName)}_enabled` : null
+  }
+}
@@ -45,34 +45,41 @@ export class TypePropagator {
     // Calculate execution order for type propagation
     const executionOrder = this.calculateExecutionOrder()
     
-    // Second pass: Propagate types through the execution order
-    for (const block of executionOrder) {
-      if (block.block.type === 'input_port' || block.block.type === 'source') {
-        continue // Already handled
-      }
-      
-      // Get input types for this block
-      const inputTypes = this.getBlockInputTypes(block)
-      
-      // Skip if block type is not supported
-      if (!BlockModuleFactory.isSupported(block.block.type)) {
-        continue
-      }
-      
-      try {
-        const module = BlockModuleFactory.getBlockModule(block.block.type)
-        const outputType = module.getOutputType(block.block, inputTypes)
+    // Second pass: Propagate types through the execution order, repeating
+    // until stable so types also reach around feedback loops
+    let changed = true
+    for (let pass = 0; changed && pass <= this.model.blocks.length; pass++) {
+      changed = false
+      for (const block of executionOrder) {
+        if (block.block.type === 'input_port' || block.block.type === 'source') {
+          continue // Already handled
+        }
         
-        // Validate the output type
-        if (isValidType(outputType)) {
-          this.blockOutputTypes.set(block.originalId, normalizeType(outputType))
-        } else {
-          console.warn(`Invalid output type for block ${block.block.name}: ${outputType}`)
-          this.blockOutputTypes.set(block.originalId, 'double')
+        // Skip if block type is not supported
+        if (!BlockModuleFactory.isSupported(block.block.type)) {
+          continue
+        }
+        
+        const inputTypes = this.getBlockInputTypes(block)
+        if (inputTypes === null) {
+          continue // Wait for an input type to become known
+        }
+        
+        const outputType = this.determineOutputType(block, inputTypes)
+        if (this.blockOutputTypes.get(block.originalId) !== outputType) {
+          this.blockOutputTypes.set(block.originalId, outputType)
+          changed = true
         }
-      } catch (error) {
-        console.warn(`Failed to determine output type for block ${block.block.name}:`, error)
-        this.blockOutputTypes.set(block.originalId, 'double') // Default
+      }
+    }
+    
+    // Blocks only fed from loops without any typed input default to double inputs
+    for (const block of executionOrder) {
+      if (!this.blockOutputTypes.has(block.originalId) && BlockModuleFactory.isSupported(block.block.type)) {
+        const inputTypes = this.model.connections
+          .filter(c => c.targetBlockId === block.originalId)
+          .map(() => 'double')
+        this.blockOutputTypes.set(block.originalId, this.determineOutputType(block, inputTypes))
       }
     }
     
@@ -87,22 +94,44 @@ export class TypePropagator {
   }
   
   /**
-   * Get input types for a block based on its connections
+   * Determine a block's output type from the types of its inputs
    */
-  private getBlockInputTypes(block: FlattenedBlock): string[] {
-    const types: string[] = []
-    
+  private determineOutputType(block: FlattenedBlock, inputTypes: string[]): string {
+    try {
+      const module = BlockModuleFactory.getBlockModule(block.block.type)
+      const outputType = module.getOutputType(block.block, inputTypes)
+      
+      // Validate the output type
+      if (isValidType(outputType)) {
+        return normalizeType(outputType)
+      }
+      console.warn(`Invalid output type for block ${block.block.name}: ${outputType}`)
+      return 'double'
+    } catch (error) {
+      console.warn(`Failed to determine output type for block ${block.block.name}:`, error)
+      return 'double' // Default
+    }
+  }
+  
+  /**
+   * Get input types for a block based on its connections. Inputs fed back
+   * from blocks later in the order have no type yet on the first pass and
+   * are left out; null means no input type is known yet.
+   */
+  private getBlockInputTypes(block: FlattenedBlock): string[] | null {
     // Find all connections to this block, sorted by target port index
     const connections = this.model.connections
       .filter(c => c.targetBlockId === block.originalId)
       .sort((a, b) => a.targetPortIndex - b.targetPortIndex)
     
-    for (const connection of connections) {
-      const sourceType = this.blockOutputTypes.get(connection.sourceBlockId) || 'double'
-      types.push(sourceType)
-    }
+    const knownTypes = connections
+      .map(connection => this.blockOutputTypes.get(connection.sourceBlockId))
+      .filter((type): type is string => type !== undefined)
     
-    return types
+    if (connections.length > 0 && knownTypes.length === 0) {
+      return null
+    }
+    return knownTypes
   }
   
   /**
@@ -2,6 +2,8 @@
 import { BlockData, PortInfo } from '@/components/BlockNode'
 import { WireData } from '@/components/Wire'
 import { PortCountAdapter } from './validation/PortCountAdapter'
+import { findAlgebraicLoops } from './algebraicLoopDetector'
+import { SubsystemBlockModule } from './blocks/SubsystemBlockModule'
 
 export interface ValidationResult {
   isValid: boolean
@@ -107,6 +109,14 @@ export function validateConnection(
         errorMessage: `Enable port requires boolean signal, but source provides ${sourceType}`
       }
     }
+  } else if (targetPort.portIndex === -2) {
+    // Trigger port (port index -2) reads any numeric signal for its edges
+    if (!SubsystemBlockModule.getTriggerType(targetBlock)) {
+      return {
+        isValid: false,
+        errorMessage: "Block does not have a trigger port"
+      }
+    }
   } else {
     // Regular port validation
     if (sourcePort.portIndex >= sourcePortCount) {
@@ -178,45 +188,28 @@ export function validatePortForConnection(
 }
 
 /**
- * Check for potential algebraic loops (basic detection)
+ * Check whether a new wire would close an algebraic loop. Feedback through
+ * blocks without direct feedthrough (delays, integrators) is allowed.
  */
 export function detectAlgebraicLoop(
   newWire: WireData,
-  existingWires: WireData[]
+  existingWires: WireData[],
+  blocks: BlockData[]
 ): ValidationResult {
-  // Enable connections don't participate in algebraic loops
-  if (newWire.targetPortIndex === -1) {
+  // Enable and trigger connections don't participate in algebraic loops
+  if (newWire.targetPortIndex < 0) {
     return { isValid: true }
   }
 
-  // Create a simple path from the new connection's target back to its source
-  const visited = new Set<string>()
-  const stack = [newWire.targetBlockId]
-
-  while (stack.length > 0) {
-    const currentBlockId = stack.pop()!
-    
-    if (visited.has(currentBlockId)) {
-      continue
-    }
-    
-    visited.add(currentBlockId)
-    
-    // If we reach the source block, we have a loop
-    if (currentBlockId === newWire.sourceBlockId) {
-      return {
-        isValid: false,
-        errorMessage: "Connection would create an algebraic loop"
-      }
-    }
+  const loops = findAlgebraicLoops(blocks, [...existingWires, newWire])
+  const closesLoop = loops.some(loop =>
+    loop.blockIds.includes(newWire.sourceBlockId) && loop.blockIds.includes(newWire.targetBlockId)
+  )
 
-    // Find all blocks that this block connects to
-    const outgoingWires = existingWires.filter(wire => 
-      wire.sourceBlockId === currentBlockId
-    )
-    
-    for (const wire of outgoingWires) {
-      stack.push(wire.targetBlockId)
+  if (closesLoop) {
+    return {
+      isValid: false,
+      errorMessage: "Connection would create an algebraic loop"
     }
   }
 
@@ -0,0 +1,166 @@
+// lib/fixedPoint.ts
+
+import { FixedPointFormat, parseType } from './typeValidator'
+
+/**
+ * Block types that compute with saturating integer arithmetic on
+ * fixed-point inputs, or wrap bitwise results to the integer width
+ */
+export const FIXED_POINT_ARITHMETIC_BLOCK_TYPES = ['sum', 'scale', 'unit_delay', 'saturation', 'data_type_conversion', 'bitwise_operator']
+
+/**
+ * Block types that can carry fixed-point signals. Every other block
+ * computes in floating point and rejects fixdt inputs.
+ */
+export const FIXED_POINT_BLOCK_TYPES = [
+  ...FIXED_POINT_ARITHMETIC_BLOCK_TYPES,
+  'source', 'input_port', 'output_port', 'subsystem',
+  'multiport_switch', 'switch_case', 'merge',
+  'relational_operator', 'logical_operator',
+  'sheet_label_sink', 'sheet_label_source',
+  'signal_display', 'signal_logger'
+]
+
+/**
+ * Rounding modes of the Data Type Conversion block. Nearest rounds
+ * halfway cases up, like floor(x + 0.5).
+ */
+export const FIXED_POINT_ROUNDING_MODES = ['nearest', 'floor', 'ceil', 'zero'] as const
+export type FixedPointRounding = typeof FIXED_POINT_ROUNDING_MODES[number]
+
+/**
+ * Fraction length of the Q16 integer that holds a Scale block gain
+ */
+export const FIXED_POINT_GAIN_FRACTION_LENGTH = 16
+
+/**
+ * Gets the fixed-point format of a type string, or undefined for
+ * floating-point and invalid types
+ */
+export function getFixedPointFormat(typeString: string | undefined): FixedPointFormat | undefined {
+  if (!typeString) return undefined
+  try {
+    return parseType(typeString).fixedPoint
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Smallest and largest stored integers of a fixed-point format
+ */
+export function getStoredIntegerRange(format: FixedPointFormat): { min: number, max: number } {
+  if (format.signed) {
+    return { min: -Math.pow(2, format.wordLength - 1), max: Math.pow(2, format.wordLength - 1) - 1 }
+  }
+  return { min: 0, max: Math.pow(2, format.wordLength) - 1 }
+}
+
+/**
+ * Clamps a stored integer to the range of the format, as the generated
+ * code does instead of wrapping on overflow
+ */
+export function saturateStoredInteger(stored: number, format: FixedPointFormat): number {
+  const { min, max } = getStoredIntegerRange(format)
+  return Math.min(Math.max(stored, min), max)
+}
+
+/**
+ * Wraps a stored integer into the range of the format, as a C cast to the
+ * container type does on overflow
+ */
+export function wrapStoredInteger(stored: number, format: FixedPointFormat): number {
+  if (!isFinite(stored)) return 0
+  const { min } = getStoredIntegerRange(format)
+  const modulus = Math.pow(2, format.wordLength)
+  return ((stored - min) % modulus + modulus) % modulus + min
+}
+
+/**
+ * Converts a real value to a stored integer with the given rounding mode,
+ * then saturates or wraps values outside the range of the format
+ */
+export function convertToStoredInteger(
+  value: number,
+  format: FixedPointFormat,
+  rounding: FixedPointRounding,
+  saturate: boolean
+): number {
+  if (isNaN(value)) return 0
+  const scaled = value * Math.pow(2, format.fractionLength)
+  let stored: number
+  switch (rounding) {
+    case 'floor':
+      stored = Math.floor(scaled)
+      break
+    case 'ceil':
+      stored = Math.ceil(scaled)
+      break
+    case 'zero':
+      stored = Math.trunc(scaled)
+      break
+    default:
+      stored = Math.floor(scaled + 0.5)
+  }
+  // Adding zero turns a rounded -0 into 0
+  stored += 0
+  return saturate ? saturateStoredInteger(stored, format) : wrapStoredInteger(stored, format)
+}
+
+/**
+ * Converts a real value to its stored integer, rounding to the nearest
+ * representable value and saturating
+ */
+export function toStoredInteger(value: number, format: FixedPointFormat): number {
+  if (isNaN(value)) return 0
+  // Adding zero turns a rounded -0 into 0
+  return saturateStoredInteger(Math.round(value * Math.pow(2, format.fractionLength)) + 0, format)
+}
+
+/**
+ * Converts a stored integer back to the real value it represents
+ */
+export function fromStoredInteger(stored: number, format: FixedPointFormat): number {
+  return stored / Math.pow(2, format.fractionLength)
+}
+
+/**
+ * Rounds a real value onto the grid of the format
+ */
+export function quantize(value: number, format: FixedPointFormat): number {
+  return fromStoredInteger(toStoredInteger(value, format), format)
+}
+
+/**
+ * Applies quantize to every element of a signal value
+ */
+export function quantizeSignal<T>(value: T, format: FixedPointFormat): T {
+  if (Array.isArray(value)) {
+    return value.map(element => quantizeSignal(element, format)) as unknown as T
+  }
+  if (typeof value === 'number') {
+    return quantize(value, format) as unknown as T
+  }
+  return value
+}
+
+/**
+ * Multiplies a stored integer by a Q16 gain and shifts the product back,
+ * flooring like an arithmetic right shift of the 64-bit C product
+ */
+export function multiplyByGain(stored: number, gainStored: number): number {
+  const product = BigInt(stored) * BigInt(gainStored)
+  return Number(product >> BigInt(FIXED_POINT_GAIN_FRACTION_LENGTH))
+}
+
+/**
+ * Converts a gain to the Q16 integer used by the generated code
+ * @throws Error if the gain does not fit in 32 bits
+ */
+export function toGainStoredInteger(gain: number): number {
+  const stored = Math.round(gain * Math.pow(2, FIXED_POINT_GAIN_FRACTION_LENGTH))
+  if (stored < -2147483648 || stored > 2147483647) {
+    throw new Error(`Gain ${gain} is out of range for a fixed-point Scale block (|gain| < 32768)`)
+  }
+  return stored
+}
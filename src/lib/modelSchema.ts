@@ -13,8 +13,9 @@ const PositionSchema = z.object({
 })
 
 // Signal type schema as C-language types
-const SignalTypeSchema = z.enum(['float', 'double', 'long', 'bool'])
-  .or(z.string().regex(/^(float|double|long|bool)\[\d+\]$/, 'Invalid array type syntax'))
+const SignalTypeSchema = z.enum(['float', 'double', 'long', 'bool', 'int8', 'int16', 'int32', 'uint8', 'uint16', 'uint32'])
+  .or(z.string().regex(/^(float|double|long|bool|u?int(8|16|32))\[\d+\]$/, 'Invalid array type syntax'))
+  .or(z.string().regex(/^fixdt\(\s*[01]\s*,\s*(8|16|32)\s*,\s*\d+\s*\)(\[\d+\])?$/, 'Invalid fixed-point type syntax'))
 
 // Forward declaration for recursive schema
 const SheetSchema: z.ZodType<any> = z.lazy(() => SheetSchemaDefinition)
@@ -36,7 +37,7 @@ const BlockParametersSchema = z.record(z.any()).optional().superRefine((params,
     if (!result.success) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        message: `Invalid dataType: ${params.dataType}. Must be a valid C-style type (float, double, long, bool) or 1D array.`,
+        message: `Invalid dataType: ${params.dataType}. Must be a valid C-style type (float, double, long, bool), a sized integer (int8, int16, int32, uint8, uint16, uint32), a fixed-point fixdt(signed, wordLength, fractionLength) type, or 1D array.`,
         path: ['dataType']
       })
     }
@@ -85,7 +86,7 @@ const SignalTypeInfoSchema = z.object({
   targetPortIndex: z.number(),
   type: SignalTypeSchema,
   parsedType: z.object({
-    baseType: z.enum(['float', 'double', 'long', 'bool']),
+    baseType: z.enum(['float', 'double', 'long', 'bool', 'int8', 'int16', 'int32', 'uint8', 'uint16', 'uint32']),
     isArray: z.boolean(),
     arraySize: z.number().optional()
   })
@@ -111,7 +112,27 @@ const SheetSchemaDefinition = z.object({
 // Global settings schema
 const GlobalSettingsSchema = z.object({
   simulationTimeStep: z.number().positive('Simulation time step must be positive'),
-  simulationDuration: z.number().positive('Simulation duration must be positive')
+  simulationDuration: z.number().positive('Simulation duration must be positive'),
+  // Solver for continuous states; the tolerances and step limits apply to rk45 only
+  integrationMethod: z.enum(['euler', 'rk4', 'rk45']).optional(),
+  relativeTolerance: z.number().positive('Relative tolerance must be positive').optional(),
+  absoluteTolerance: z.number().positive('Absolute tolerance must be positive').optional(),
+  minStep: z.number().positive('Minimum step must be positive').optional(),
+  maxStep: z.number().positive('Maximum step must be positive').optional()
+})
+
+// Workspace variable schema: a named scalar, vector or matrix that block
+// parameters can refer to in expressions
+const WorkspaceValueSchema = z.union([
+  z.number(),
+  z.array(z.number()),
+  z.array(z.array(z.number()))
+])
+
+const WorkspaceVariableSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Workspace variable names must be valid C identifiers'),
+  value: WorkspaceValueSchema,
+  description: z.string().optional()
 })
 
 // Metadata schema
@@ -125,7 +146,8 @@ export const ModelDataSchema = z.object({
   version: z.enum(['1.0', '2.0']).default('1.0'), // Support both versions
   metadata: MetadataSchema,
   sheets: z.array(SheetSchema).min(1, 'Model must have at least one sheet'),
-  globalSettings: GlobalSettingsSchema
+  globalSettings: GlobalSettingsSchema,
+  workspace: z.array(WorkspaceVariableSchema).optional()
 })
 
 // Complete model schema (as stored in database)
@@ -147,6 +169,8 @@ export type Position = z.infer<typeof PositionSchema>
 export type Extents = z.infer<typeof ExtentsSchema>
 export type GlobalSettings = z.infer<typeof GlobalSettingsSchema>
 export type Metadata = z.infer<typeof MetadataSchema>
+export type WorkspaceValue = z.infer<typeof WorkspaceValueSchema>
+export type WorkspaceVariable = z.infer<typeof WorkspaceVariableSchema>
 export type SignalType = z.infer<typeof SignalTypeSchema>
 export type SignalTypeInfo = z.infer<typeof SignalTypeInfoSchema>
 export type SubsystemParameters = z.infer<typeof SubsystemParametersSchema>
@@ -154,6 +178,12 @@ export type SubsystemParameters = z.infer<typeof SubsystemParametersSchema>
 // Helper type to extract subsystem blocks
 export type SubsystemBlock = Extract<Block, { type: 'subsystem' }>
 
+// Settings for new models, and for models saved without them
+export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
+  simulationTimeStep: 0.01,
+  simulationDuration: 10.0
+}
+
 // Validation functions
 export function validateModelData(data: unknown): ModelData {
   return ModelDataSchema.parse(data)
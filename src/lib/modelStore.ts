@@ -5,7 +5,9 @@ import { WireData } from '@/components/Wire'
 import { SimulationResults, SimulationEngine } from '@/lib/simulationEngine'
 import { Model, ModelVersion } from '@/lib/types'
 import { supabase } from '@/lib/supabaseClient'
-import { SignalValue } from '@/lib/modelSchema'
+import { DEFAULT_GLOBAL_SETTINGS, GlobalSettings, SignalValue, WorkspaceVariable } from '@/lib/modelSchema'
+import { expandSubsystem, groupIntoSubsystem } from '@/lib/subsystemRefactoring'
+import { DEFAULT_RUN_HISTORY_LIMIT, MAX_RUN_HISTORY_LIMIT, SimulationRun, addRun, createSimulationRun } from '@/lib/simulation/runHistory'
 
 export interface Sheet {
   id: string
@@ -18,6 +20,37 @@ export interface Sheet {
   }
 }
 
+/**
+ * The editable content of a model. Undo and redo restore it as a whole;
+ * unchanged sheets, blocks and wires are shared between history entries.
+ */
+export interface ModelDocument {
+  sheets: Sheet[]
+  activeSheetId: string
+  blocks: BlockData[]
+  wires: WireData[]
+  workspace: WorkspaceVariable[]
+  globalSettings: GlobalSettings
+}
+
+/**
+ * One undoable edit: the document before and after the command ran
+ */
+export interface HistoryEntry {
+  label: string
+  before: ModelDocument
+  after: ModelDocument
+}
+
+/**
+ * An open group of edits (such as a drag) that becomes a single history entry
+ */
+export interface HistoryGroup {
+  label: string
+  before: ModelDocument
+  depth: number
+}
+
 export interface ModelState {
   // Model data
   model: Model | null
@@ -30,6 +63,12 @@ export interface ModelState {
   blocks: BlockData[]
   wires: WireData[]
   
+  // Named values that block parameters can refer to
+  workspace: WorkspaceVariable[]
+
+  // Time step, duration and solver of simulation runs
+  globalSettings: GlobalSettings
+  
   // UI state
   selectedBlockId: string | null
   selectedWireId: string | null
@@ -37,6 +76,13 @@ export interface ModelState {
   
   // Simulation state
   globalSimulationResults: Map<string, SimulationResults> | null
+  // The run before the latest one, which signal displays can overlay
+  previousSimulationResults: Map<string, SimulationResults> | null
+
+  // Completed runs for the data inspector, oldest first
+  simulationRuns: SimulationRun[]
+  runHistoryLimit: number
+  simulationRunCount: number
   currentSheetSimulationResults: SimulationResults | null 
   simulationResults: SimulationResults | null
   isSimulating: boolean
@@ -51,6 +97,11 @@ export interface ModelState {
   // Auto-save state
   autoSaveEnabled: boolean
   lastAutoSave: string | null
+  
+  // Undo/redo history
+  undoStack: HistoryEntry[]
+  redoStack: HistoryEntry[]
+  historyGroup: HistoryGroup | null
 }
 
 export interface ModelActions {
@@ -84,6 +135,18 @@ export interface ModelActions {
   deleteBlock: (blockId: string) => void
   addWire: (wire: WireData) => void
   deleteWire: (wireId: string) => void
+  pasteBlocks: (blocks: BlockData[], wires: WireData[]) => void
+  setWorkspace: (workspace: WorkspaceVariable[]) => void
+  setGlobalSettings: (globalSettings: GlobalSettings) => void
+  groupIntoSubsystem: (blockIds: string[]) => void
+  expandSubsystem: (subsystemId: string) => void
+  
+  // History actions
+  undo: () => void
+  redo: () => void
+  beginHistoryGroup: (label: string) => void
+  endHistoryGroup: () => void
+  clearHistory: () => void
   
   // Selection actions
   setSelectedBlockId: (blockId: string | null) => void
@@ -97,6 +160,10 @@ export interface ModelActions {
   setOutputPortValues: (values: Map<string, SignalValue > | null | undefined) => void
   setGlobalSimulationResults: (results: Map<string, SimulationResults>) => void
   clearGlobalSimulationResults: () => void
+  keepPreviousSimulationResults: () => void
+  recordSimulationRun: (run: { modelVersion: number, sheets: Sheet[], workspace: WorkspaceVariable[] }) => void
+  removeSimulationRun: (id: number) => void
+  setRunHistoryLimit: (limit: number) => void
   
   // Composite actions
   switchToSheet: (sheetId: string) => void
@@ -118,6 +185,8 @@ export const useModelStore = create<ModelStore>()(
     activeSheetId: 'main',
     blocks: [],
     wires: [],
+    workspace: [],
+    globalSettings: DEFAULT_GLOBAL_SETTINGS,
     selectedBlockId: null,
     selectedWireId: null,
     configBlock: null,
@@ -131,7 +200,14 @@ export const useModelStore = create<ModelStore>()(
     autoSaveEnabled: true,
     lastAutoSave: null,
     globalSimulationResults: null,
+    previousSimulationResults: null,
+    simulationRuns: [],
+    runHistoryLimit: DEFAULT_RUN_HISTORY_LIMIT,
+    simulationRunCount: 0,
     currentSheetSimulationResults: null,
+    undoStack: [],
+    redoStack: [],
+    historyGroup: null,
 
     // Model actions
     setModel: (model) => set({ model }),
@@ -186,10 +262,8 @@ export const useModelStore = create<ModelStore>()(
             description: `Model ${updatedState.model.name}`
           },
           sheets: updatedState.sheets, // This now includes all subsystem sheets embedded in their blocks
-          globalSettings: {
-            simulationTimeStep: 0.01,
-            simulationDuration: 10.0
-          }
+          globalSettings: updatedState.globalSettings,
+          workspace: updatedState.workspace
         }
 
         // Get the next version number
@@ -290,10 +364,8 @@ export const useModelStore = create<ModelStore>()(
             description: `Model ${newName}`
           },
           sheets: updatedState.sheets,
-          globalSettings: {
-            simulationTimeStep: 0.01,
-            simulationDuration: 10.0
-          }
+          globalSettings: updatedState.globalSettings,
+          workspace: updatedState.workspace
         }
 
         // Create new model metadata
@@ -371,10 +443,8 @@ export const useModelStore = create<ModelStore>()(
             description: `Model ${updatedState.model.name} (auto-save)`
           },
           sheets: updatedState.sheets,
-          globalSettings: {
-            simulationTimeStep: 0.01,
-            simulationDuration: 10.0
-          }
+          globalSettings: updatedState.globalSettings,
+          workspace: updatedState.workspace
         }
         
         // Check if auto-save (version 0) already exists
@@ -433,7 +503,7 @@ export const useModelStore = create<ModelStore>()(
     // In lib/modelStore.ts, add this function to the store:
 
     saveAsModel: async (newName: string) => {
-      const { model, sheets, currentVersion, initializeFromModel } = get()
+      const { model, sheets, workspace, globalSettings, currentVersion, initializeFromModel } = get()
 
       if (!model) return false
 
@@ -461,10 +531,8 @@ export const useModelStore = create<ModelStore>()(
             description: `Copy of ${model.name}`
           },
           sheets,
-          globalSettings: {
-            simulationTimeStep: 0.01,
-            simulationDuration: 10
-          }
+          globalSettings,
+          workspace
         }
 
         // Save as version 1 of the new model
@@ -520,11 +588,11 @@ export const useModelStore = create<ModelStore>()(
     setSheets: (sheets) => set({ sheets }),
     setActiveSheetId: (activeSheetId) => set({ activeSheetId }),
     
-    addSheet: (sheet) => set((state) => ({ 
+    addSheet: (sheet) => set((state) => withHistory(state, 'Add sheet', { 
       sheets: [...state.sheets, sheet] 
     })),
     
-    updateSheet: (sheetId, updates) => set((state) => ({
+    updateSheet: (sheetId, updates) => set((state) => withHistory(state, 'Update sheet', {
       sheets: state.sheets.map(sheet =>
         sheet.id === sheetId ? { ...sheet, ...updates } : sheet
       )
@@ -542,13 +610,13 @@ export const useModelStore = create<ModelStore>()(
         ? remainingSheets[0]?.id || 'main'
         : state.activeSheetId
       
-      return {
+      return withHistory(state, 'Delete sheet', {
         sheets: remainingSheets,
         activeSheetId: newActiveSheetId
-      }
+      })
     }),
     
-    renameSheet: (sheetId, newName) => set((state) => ({
+    renameSheet: (sheetId, newName) => set((state) => withHistory(state, 'Rename sheet', {
       sheets: state.sheets.map(sheet =>
         sheet.id === sheetId ? { ...sheet, name: newName } : sheet
       )
@@ -564,17 +632,17 @@ export const useModelStore = create<ModelStore>()(
     setBlocks: (blocks) => set({ blocks }),
     setWires: (wires) => set({ wires }),
     
-    addBlock: (block) => set((state) => ({ 
+    addBlock: (block) => set((state) => withHistory(state, 'Add block', { 
       blocks: [...state.blocks, block] 
     })),
     
-    updateBlock: (blockId, updates) => set((state) => ({
+    updateBlock: (blockId, updates) => set((state) => withHistory(state, updates.position ? 'Move block' : 'Edit block', {
       blocks: state.blocks.map(block =>
         block.id === blockId ? { ...block, ...updates } : block
       )
     })),
     
-    deleteBlock: (blockId) => set((state) => ({
+    deleteBlock: (blockId) => set((state) => withHistory(state, 'Delete block', {
       blocks: state.blocks.filter(block => block.id !== blockId),
       // Also remove any wires connected to this block
       wires: state.wires.filter(wire => 
@@ -582,13 +650,88 @@ export const useModelStore = create<ModelStore>()(
       )
     })),
     
-    addWire: (wire) => set((state) => ({ 
+    addWire: (wire) => set((state) => withHistory(state, 'Add wire', { 
       wires: [...state.wires, wire] 
     })),
     
-    deleteWire: (wireId) => set((state) => ({
+    deleteWire: (wireId) => set((state) => withHistory(state, 'Delete wire', {
       wires: state.wires.filter(wire => wire.id !== wireId)
     })),
+    
+    pasteBlocks: (blocks, wires) => set((state) => withHistory(state, 'Paste', {
+      blocks: [...state.blocks, ...blocks],
+      wires: [...state.wires, ...wires]
+    })),
+
+    setWorkspace: (workspace) => set((state) => withHistory(state, 'Edit workspace', { workspace })),
+
+    setGlobalSettings: (globalSettings) => set((state) => withHistory(state, 'Edit simulation settings', { globalSettings })),
+
+    // Throws with a message for the user when the blocks cannot be grouped
+    groupIntoSubsystem: (blockIds) => set((state) => {
+      const { blocks, wires, subsystem } = groupIntoSubsystem(state.blocks, state.wires, blockIds)
+      return withHistory(state, 'Group into subsystem', { blocks, wires, selectedBlockId: subsystem.id })
+    }),
+
+    // Throws with a message for the user when the subsystem cannot be expanded
+    expandSubsystem: (subsystemId) => set((state) => {
+      const { blocks, wires } = expandSubsystem(state.blocks, state.wires, subsystemId)
+      return withHistory(state, 'Expand subsystem', { blocks, wires, selectedBlockId: null })
+    }),
+
+    // History actions
+    undo: () => set((state) => {
+      const entry = state.undoStack[state.undoStack.length - 1]
+      if (!entry || state.historyGroup) {
+        return state
+      }
+      return {
+        ...restoreDocument(state, entry.before),
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, entry]
+      }
+    }),
+    
+    redo: () => set((state) => {
+      const entry = state.redoStack[state.redoStack.length - 1]
+      if (!entry || state.historyGroup) {
+        return state
+      }
+      return {
+        ...restoreDocument(state, entry.after),
+        undoStack: [...state.undoStack, entry],
+        redoStack: state.redoStack.slice(0, -1)
+      }
+    }),
+    
+    beginHistoryGroup: (label) => set((state) => ({
+      historyGroup: state.historyGroup
+        ? { ...state.historyGroup, depth: state.historyGroup.depth + 1 }
+        : { label, before: getModelDocument(state), depth: 1 }
+    })),
+    
+    endHistoryGroup: () => set((state) => {
+      const group = state.historyGroup
+      if (!group) {
+        return state
+      }
+      if (group.depth > 1) {
+        return { historyGroup: { ...group, depth: group.depth - 1 } }
+      }
+      
+      // Groups without any edits (such as a click without a drag) leave no entry
+      const after = getModelDocument(state)
+      if (isSameDocument(group.before, after)) {
+        return { historyGroup: null }
+      }
+      return {
+        historyGroup: null,
+        undoStack: [...state.undoStack, { label: group.label, before: group.before, after }].slice(-MAX_HISTORY_ENTRIES),
+        redoStack: []
+      }
+    }),
+    
+    clearHistory: () => set({ undoStack: [], redoStack: [], historyGroup: null }),
 
     // Selection actions
     setSelectedBlockId: (selectedBlockId) => set({ selectedBlockId }),
@@ -654,6 +797,36 @@ export const useModelStore = create<ModelStore>()(
       })
     },
 
+    keepPreviousSimulationResults: () => {
+      const { globalSimulationResults } = get()
+      if (globalSimulationResults) {
+        set({ previousSimulationResults: globalSimulationResults })
+      }
+    },
+
+    recordSimulationRun: (run) => {
+      const { globalSimulationResults, simulationRuns, runHistoryLimit, simulationRunCount } = get()
+      if (!globalSimulationResults) return
+
+      const id = simulationRunCount + 1
+      set({
+        simulationRuns: addRun(simulationRuns, createSimulationRun(id, { ...run, results: globalSimulationResults }), runHistoryLimit),
+        simulationRunCount: id
+      })
+    },
+
+    removeSimulationRun: (id) => {
+      set({ simulationRuns: get().simulationRuns.filter(run => run.id !== id) })
+    },
+
+    setRunHistoryLimit: (limit) => {
+      const runHistoryLimit = Math.min(MAX_RUN_HISTORY_LIMIT, Math.max(1, Math.round(limit) || 1))
+      set({
+        runHistoryLimit,
+        simulationRuns: get().simulationRuns.slice(-runHistoryLimit)
+      })
+    },
+
     clearGlobalSimulationResults: () => {
       set({
         globalSimulationResults: null,
@@ -762,9 +935,9 @@ export const useModelStore = create<ModelStore>()(
         })
       }
       
-      return {
+      return withHistory(state, 'Edit subsystem', {
         sheets: updateSheetsInHierarchy(state.sheets)
-      }
+      })
     }),
     
     initializeFromModel: (model, versionData) => {
@@ -793,11 +966,18 @@ export const useModelStore = create<ModelStore>()(
           activeSheetId: firstSheetId,
           blocks: firstSheet?.blocks || [],
           wires: firstSheet?.connections || [],
+          workspace: versionData.data.workspace ?? [],
+          globalSettings: versionData.data.globalSettings ?? DEFAULT_GLOBAL_SETTINGS,
           selectedBlockId: null,
           selectedWireId: null,
           simulationResults: null,
+          previousSimulationResults: null,
+          simulationRuns: [],
           error: null,
-          modelLoading: false
+          modelLoading: false,
+          undoStack: [],
+          redoStack: [],
+          historyGroup: null
         })
       } else {
         set({
@@ -809,6 +989,63 @@ export const useModelStore = create<ModelStore>()(
   }))
 )
 
+// Oldest entries are dropped beyond this many undo steps
+const MAX_HISTORY_ENTRIES = 100
+
+function getModelDocument(state: ModelState): ModelDocument {
+  return {
+    sheets: state.sheets,
+    activeSheetId: state.activeSheetId,
+    blocks: state.blocks,
+    wires: state.wires,
+    workspace: state.workspace,
+    globalSettings: state.globalSettings
+  }
+}
+
+function isSameDocument(a: ModelDocument, b: ModelDocument): boolean {
+  return a.sheets === b.sheets &&
+    a.activeSheetId === b.activeSheetId &&
+    a.blocks === b.blocks &&
+    a.wires === b.wires &&
+    a.workspace === b.workspace &&
+    a.globalSettings === b.globalSettings
+}
+
+// Apply the changes of an edit and record it on the undo stack. Inside a
+// history group only the changes are applied; the group records one entry
+// when it ends.
+function withHistory(state: ModelState, label: string, changes: Partial<ModelState>): Partial<ModelState> {
+  if (state.historyGroup) {
+    return changes
+  }
+  const entry: HistoryEntry = {
+    label,
+    before: getModelDocument(state),
+    after: getModelDocument({ ...state, ...changes })
+  }
+  return {
+    ...changes,
+    undoStack: [...state.undoStack, entry].slice(-MAX_HISTORY_ENTRIES),
+    redoStack: []
+  }
+}
+
+// Restore a document, switching to the sheet where the edit was made so a
+// change inside a subsystem is visible when it is undone
+function restoreDocument(state: ModelState, document: ModelDocument): Partial<ModelState> {
+  const activeSheetChanged = document.activeSheetId !== state.activeSheetId
+  return {
+    ...document,
+    selectedBlockId: null,
+    selectedWireId: null,
+    configBlock: null,
+    ...(activeSheetChanged && {
+      currentSheetSimulationResults: state.globalSimulationResults?.get(document.activeSheetId) || null
+    })
+  }
+}
+
 function getParentSheet(sheets: Sheet[], targetSheetId: string): Sheet | null {
   for (const sheet of sheets) {
     // Check if any subsystem in this sheet contains the target sheet
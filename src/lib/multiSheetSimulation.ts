@@ -1,10 +1,13 @@
 // lib/multiSheetSimulation.ts - Updated with enable state support
 
-import { SimulationEngine, SimulationConfig, SimulationResults, Sheet } from './simulationEngine'
+import { SimulationEngine, SimulationConfig, SimulationResults, Sheet, RateTransition } from './simulationEngine'
 import { BlockData } from '@/components/BlockNode'
 import { WireData } from '@/components/Wire'
 import { SimulationAlgebraicEvaluator } from './simulation/SimulationAlgebraicEvaluator'
-import { SimulationStateIntegrator } from './simulation/SimulationStateIntegrator'
+import { SimulationStateIntegrator, StepStatistics } from './simulation/SimulationStateIntegrator'
+import { BlockModuleFactory } from './blocks/BlockModuleFactory'
+import { BlockModuleUtils } from './blocks/BlockModule'
+import { SubsystemBlockModule } from './blocks/SubsystemBlockModule'
 
 
 
@@ -19,6 +22,16 @@ export class MultiSheetSimulationEngine {
   private blockToSubsystem: Map<string, string | null> = new Map() // blockId -> containing subsystemId
   private algebraicEvaluators: Map<string, SimulationAlgebraicEvaluator> = new Map()
   private stateIntegrators: Map<string, SimulationStateIntegrator> = new Map()
+  private sheetSampleTimes: Map<string, number> = new Map() // sheetId -> sample time inherited from subsystems
+  // Whether each subsystem is enabled by its own and its parents' enable
+  // inputs, whether or not a trigger runs it this step
+  private subsystemEnabled: Map<string, boolean> = new Map()
+  private triggerValues: Map<string, number> = new Map() // subsystemId -> trigger signal at its last evaluation
+  // Run progress, kept between calls to step() so a run can be advanced
+  // a few steps at a time
+  private time = 0
+  private timePoints: number[] = []
+  private sheetSignalData: Map<string, Map<string, any[]>> | null = null
   
   
 /**
@@ -133,9 +146,10 @@ export class MultiSheetSimulationEngine {
     
     // Create engines for all sheets (including nested)
     const allSheets = this.getAllSheets(sheets)
+    this.buildSheetSampleTimes(sheets)
     for (const sheet of allSheets) {
       const engine = new SimulationEngine(
-        sheet.blocks,
+        this.getSampledBlocks(sheet, sheet.blocks),
         sheet.connections,
         config,
         undefined,
@@ -144,7 +158,12 @@ export class MultiSheetSimulationEngine {
       this.blockEngines.set(sheet.id, engine)
 
       const algebraicEvaluator = new SimulationAlgebraicEvaluator()
-      const stateIntegrator = new SimulationStateIntegrator('rk4', algebraicEvaluator) 
+      const stateIntegrator = new SimulationStateIntegrator(config.integrationMethod ?? 'rk4', algebraicEvaluator, {
+        relativeTolerance: config.relativeTolerance,
+        absoluteTolerance: config.absoluteTolerance,
+        minStep: config.minStep,
+        maxStep: config.maxStep
+      })
       
       this.algebraicEvaluators.set(sheet.id, algebraicEvaluator)
       this.stateIntegrators.set(sheet.id, stateIntegrator)
@@ -164,6 +183,14 @@ export class MultiSheetSimulationEngine {
     
     // Compute initial outputs for all subsystems
     this.computeInitialSubsystemOutputs()
+
+    // Triggered subsystems hold their initial outputs until their first event
+    for (const subsystemId of this.subsystemHierarchy.keys()) {
+      const subsystem = this.findBlock(subsystemId)
+      if (subsystem && SubsystemBlockModule.getTriggerType(subsystem)) {
+        this.setTriggeredSubsystemActive(subsystemId, false)
+      }
+    }
   }
   
   /**
@@ -282,7 +309,24 @@ export class MultiSheetSimulationEngine {
       return effectiveEnabled
     }
     
+    // Triggered subsystems, and everything inside them, only run when
+    // runTriggeredSubsystems finds a trigger event
+    const activeStates = new Map<string, boolean>()
+    const computeActiveState = (subsystemId: string): boolean => {
+      if (activeStates.has(subsystemId)) {
+        return activeStates.get(subsystemId)!
+      }
+      const subsystem = this.findBlock(subsystemId)
+      const parentId = this.subsystemHierarchy.get(subsystemId)
+      const active = computeEffectiveEnableState(subsystemId) &&
+        !(subsystem && SubsystemBlockModule.getTriggerType(subsystem)) &&
+        (parentId ? computeActiveState(parentId) : true)
+      activeStates.set(subsystemId, active)
+      return active
+    }
+    
     // Step 3: Update all subsystem states
+    const resetSubsystems: BlockData[] = []
     for (const sheet of allSheets) {
       for (const block of sheet.blocks) {
         if (block.type === 'subsystem') {
@@ -292,8 +336,16 @@ export class MultiSheetSimulationEngine {
           const state = engine.getState()
           const previousState = state.subsystemEnableStates.get(block.id) ?? true
           
+          // Subsystems set to reset their states do so when enabled again
+          const wasEnabled = this.subsystemEnabled.get(block.id) ?? true
+          const enabled = computeEffectiveEnableState(block.id)
+          this.subsystemEnabled.set(block.id, enabled)
+          if (!wasEnabled && enabled && SubsystemBlockModule.getStatesWhenEnabling(block) === 'reset') {
+            resetSubsystems.push(block)
+          }
+          
           // Compute effective enable state
-          const newState = computeEffectiveEnableState(block.id)
+          const newState = computeActiveState(block.id)
           
           // Update engine state
           state.subsystemEnableStates.set(block.id, newState)
@@ -314,7 +366,121 @@ export class MultiSheetSimulationEngine {
     }
     
     // Step 4: Update enable states in all engines for cross-sheet access
-    this.propagateEnableStatesToEngines(effectiveEnableStates)
+    this.propagateEnableStatesToEngines(activeStates)
+    
+    // Step 5: Reset states, and recompute outputs from the reset states
+    for (const block of resetSubsystems) {
+      this.resetSubsystemStates(block)
+      this.executeSubsystem(block, allSheets)
+    }
+  }
+  
+  /**
+   * Run the triggered subsystems that see a trigger event this step. A
+   * triggered subsystem reads its inputs and computes its outputs only when
+   * it runs, and its states advance in the following integration, so it
+   * executes once per event and holds its outputs in between. Nested
+   * triggered subsystems are evaluated after their parent has run.
+   */
+  private runTriggeredSubsystems(allSheets: Sheet[]) {
+    const triggered = allSheets
+      .flatMap(sheet => sheet.blocks)
+      .filter(block => SubsystemBlockModule.getTriggerType(block))
+      .sort((a, b) => this.getSubsystemDepth(a.id) - this.getSubsystemDepth(b.id))
+    
+    for (const block of triggered) {
+      // Inside a subsystem that is not running, the trigger is not evaluated
+      const parentId = this.subsystemHierarchy.get(block.id)
+      if (parentId && !this.isSubsystemEnabled(parentId)) continue
+      
+      const sheetId = this.blockToSheet.get(block.id)!
+      const sheet = allSheets.find(s => s.id === sheetId)
+      const triggerWire = sheet?.connections.find(w => w.targetBlockId === block.id && w.targetPortIndex === -2)
+      if (!triggerWire) continue
+      
+      const signalValue = this.blockEngines.get(sheetId)?.getState().signalValues
+        .get(`${triggerWire.sourceBlockId}_output_${triggerWire.sourcePortIndex}`)
+      const value = Number(Array.isArray(signalValue) ? signalValue.flat(2)[0] : signalValue) || 0
+      const previous = this.triggerValues.get(block.id) ?? 0
+      this.triggerValues.set(block.id, value)
+      
+      const triggerType = SubsystemBlockModule.getTriggerType(block)!
+      if (!(this.subsystemEnabled.get(block.id) ?? true) || !SubsystemBlockModule.isTriggerEvent(triggerType, previous, value)) {
+        continue
+      }
+      
+      this.setTriggeredSubsystemActive(block.id, true)
+      this.executeSubsystem(block, allSheets)
+      
+      // Later evaluations in the step read the held outputs
+      const subsystemState = this.blockEngines.get(sheetId)?.getState().blockStates.get(block.id)
+      if (subsystemState) {
+        subsystemState.frozenOutputs = [...subsystemState.outputs]
+      }
+    }
+  }
+  
+  /**
+   * Evaluate a subsystem's contents again within the step: read its inputs,
+   * evaluate its sheets and pass on its outputs
+   */
+  private executeSubsystem(subsystem: BlockData, allSheets: Sheet[]) {
+    const subsystemSheets = new Set(this.getAllSheets(subsystem.parameters?.sheets ?? []).map(s => s.id))
+    this.handleCrossSheetConnections(allSheets, subsystemSheets)
+    for (const sheet of allSheets.filter(s => subsystemSheets.has(s.id))) {
+      this.evaluateSheet(sheet)
+    }
+    this.handleCrossSheetConnections(allSheets, subsystemSheets)
+  }
+  
+  /**
+   * Mark a triggered subsystem, and the enabled subsystems inside it that
+   * are not triggered themselves, as running or not
+   */
+  private setTriggeredSubsystemActive(subsystemId: string, active: boolean) {
+    const setActive = (id: string) => {
+      const engine = this.blockEngines.get(this.blockToSheet.get(id) ?? '')
+      engine?.getState().subsystemEnableStates.set(id, active && (this.subsystemEnabled.get(id) ?? true))
+      for (const [childId, parentId] of this.subsystemHierarchy) {
+        const child = parentId === id ? this.findBlock(childId) : undefined
+        if (child && !SubsystemBlockModule.getTriggerType(child)) {
+          setActive(childId)
+        }
+      }
+    }
+    setActive(subsystemId)
+  }
+  
+  /**
+   * Stop the triggered subsystems that ran this step. Their own outputs were
+   * held when they ran.
+   */
+  private completeTriggeredSubsystems(allSheets: Sheet[]) {
+    for (const sheet of allSheets) {
+      for (const block of sheet.blocks) {
+        if (SubsystemBlockModule.getTriggerType(block) && this.isSubsystemEnabled(block.id)) {
+          this.setTriggeredSubsystemActive(block.id, false)
+          this.freezeSubsystemAndChildren(block.id)
+        }
+      }
+    }
+  }
+  
+  /**
+   * Return the stateful blocks inside a subsystem to their initial states
+   */
+  private resetSubsystemStates(subsystem: BlockData) {
+    for (const sheet of this.getAllSheets(subsystem.parameters?.sheets ?? [])) {
+      const statefulBlocks = sheet.blocks.filter(block =>
+        BlockModuleFactory.hasDiscreteStates(block) || BlockModuleFactory.getContinuousStateOrder(block) > 0
+      )
+      this.blockEngines.get(sheet.id)?.resetBlocks(new Set(statefulBlocks.map(block => block.id)))
+    }
+  }
+  
+  private findBlock(blockId: string): BlockData | undefined {
+    const sheetId = this.blockToSheet.get(blockId)
+    return this.getAllSheets(this.sheets).find(sheet => sheet.id === sheetId)?.blocks.find(block => block.id === blockId)
   }
   
   /**
@@ -480,8 +646,12 @@ export class MultiSheetSimulationEngine {
     // First pass: collect all dependencies from wires
     for (const sheet of allSheets) {
       for (const wire of sheet.connections) {
-        // Skip enable connections in dependency graph
-        if (wire.targetPortIndex === -1) continue
+        // Skip enable and trigger connections in dependency graph
+        if (wire.targetPortIndex < 0) continue
+        
+        // Skip inputs of discrete blocks that only read them on state updates
+        const target = sheet.blocks.find(b => b.id === wire.targetBlockId)
+        if (target && BlockModuleFactory.breaksAlgebraicDependency(target)) continue
         
         if (!dependencies.has(wire.targetBlockId)) {
           dependencies.set(wire.targetBlockId, new Set())
@@ -579,6 +749,21 @@ export class MultiSheetSimulationEngine {
     return this.blockEngines.get(sheetId)
   }
 
+  /**
+   * Get the adaptive RK45 step counts, summed over all sheets
+   */
+  getStepStatistics(): StepStatistics {
+    const total: StepStatistics = { acceptedSteps: 0, rejectedSteps: 0, smallestStep: Infinity, largestStep: 0 }
+    for (const integrator of this.stateIntegrators.values()) {
+      const statistics = integrator.getStepStatistics()
+      total.acceptedSteps += statistics.acceptedSteps
+      total.rejectedSteps += statistics.rejectedSteps
+      total.smallestStep = Math.min(total.smallestStep, statistics.smallestStep)
+      total.largestStep = Math.max(total.largestStep, statistics.largestStep)
+    }
+    return total
+  }
+
   /**
    * Get output port values from a specific sheet or all sheets
    * @param sheetId - Optional sheet ID. If not provided, returns values from all sheets
@@ -611,118 +796,189 @@ export class MultiSheetSimulationEngine {
 
 
   run(): Map<string, SimulationResults> {
-    const results = new Map<string, SimulationResults>()
-    const timePoints: number[] = []
-    const sheetSignalData = new Map<string, Map<string, any[]>>()
+    this.startRun()
+    while (this.step()) {
+      // Each call advances one time step
+    }
+    return this.getResults()
+  }
+
+  /**
+   * Reset data collection for a new run
+   */
+  private startRun(): void {
+    this.time = 0
+    this.timePoints = []
+    this.sheetSignalData = new Map()
     
     // Initialize signal data collection
-    const allSheets = this.getAllSheets(this.sheets)
-    for (const sheet of allSheets) {
+    for (const sheet of this.getAllSheets(this.sheets)) {
       const signalData = new Map<string, any[]>()
       for (const block of sheet.blocks) {
         if (block.type === 'signal_display' || block.type === 'signal_logger') {
           signalData.set(block.id, [])
         }
       }
-      sheetSignalData.set(sheet.id, signalData)
+      this.sheetSignalData.set(sheet.id, signalData)
+    }
+  }
+
+  /**
+   * Advance the simulation by one time step. Returns false without doing
+   * anything once the configured duration has been reached.
+   */
+  step(): boolean {
+    if (!this.sheetSignalData) {
+      this.startRun()
+    }
+    if (this.isFinished()) {
+      return false
+    }
+    
+    const allSheets = this.getAllSheets(this.sheets)
+    this.timePoints.push(this.time)
+    
+    // Phase 1: Algebraic evaluation for each sheet
+    for (const sheet of allSheets) {
+      this.evaluateSheet(sheet)
     }
     
-    // Main simulation loop
-    let time = 0
-    while (time < this.config.duration) {
-      timePoints.push(time)
+    // Phase 2: Handle cross-sheet connections
+    this.handleCrossSheetConnections(allSheets)
+    
+    // Phase 3: Update enable states and run triggered subsystems
+    this.updateAllSubsystemEnableStates()
+    this.runTriggeredSubsystems(allSheets)
+    
+    // Phase 4: Collect signal data for displays and loggers, including the
+    // new outputs of triggered subsystems
+    this.collectSignalData(allSheets, this.sheetSignalData!)
+    
+    // Phase 5: State integration for all sheets
+    for (const sheet of allSheets) {
+      const engine = this.blockEngines.get(sheet.id)
+      const integrator = this.stateIntegrators.get(sheet.id)
       
-      // Phase 1: Algebraic evaluation for each sheet
-      for (const sheet of allSheets) {
-        const engine = this.blockEngines.get(sheet.id)
-        const evaluator = this.algebraicEvaluators.get(sheet.id)
+      if (engine && integrator) {
+        // Check if subsystem is enabled before integrating
+        const engineState = engine.getState()
         
-        if (engine && evaluator) {
-          // Get current state
-          const engineState = engine.getState()
-          
-          // Perform algebraic evaluation
-          const algebraicResult = evaluator.evaluate({
-            blockStates: engineState.blockStates,
-            simulationState: engineState,
-            sheet: sheet
-          })
-          
-          // Update signal values from algebraic outputs
-          for (const [blockId, outputs] of algebraicResult.blockOutputs) {
-            for (let i = 0; i < outputs.length; i++) {
-              const signalKey = `${blockId}_output_${i}`
-              engineState.signalValues.set(signalKey, outputs[i])
-            }
-          }
+        // Filter blocks based on enable state
+        const enabledBlocks = sheet.blocks.filter(block => {
+          const containingSubsystem = this.blockToSubsystem.get(block.id)
+          if (!containingSubsystem) return true // Root blocks always enabled
+          return this.isSubsystemEnabled(containingSubsystem)
+        })
+        
+        // Create filtered sheet with only enabled blocks
+        const filteredSheet: Sheet = {
+          ...sheet,
+          blocks: this.getSampledBlocks(sheet, enabledBlocks)
         }
+        
+        // Integrate states only for enabled blocks
+        integrator.integrate({
+          blockStates: engineState.blockStates,
+          simulationState: engineState,
+          sheet: filteredSheet,
+          timeStep: this.config.timeStep
+        })
       }
+    }
+    
+    // Triggered subsystems hold their outputs until their next event
+    this.completeTriggeredSubsystems(allSheets)
+    
+    // Phase 6: Advance time for all engines
+    for (const [_, engine] of this.blockEngines) {
+      engine.advanceTime(this.config.timeStep)
+    }
+    
+    this.time += this.config.timeStep
+    return true
+  }
+
+  /**
+   * Evaluate the algebraic outputs of a sheet's blocks
+   */
+  private evaluateSheet(sheet: Sheet): void {
+    const engine = this.blockEngines.get(sheet.id)
+    const evaluator = this.algebraicEvaluators.get(sheet.id)
+    
+    if (engine && evaluator) {
+      // Get current state
+      const engineState = engine.getState()
       
-      // Phase 2: Handle cross-sheet connections
-      this.handleCrossSheetConnections(allSheets)
-      
-      // Phase 3: Collect signal data for displays and loggers
-      this.collectSignalData(allSheets, sheetSignalData)
-      
-      // Phase 4: Update enable states
-      this.updateAllSubsystemEnableStates()
+      // Perform algebraic evaluation, with the sample times blocks inherit
+      // from their subsystems
+      const algebraicResult = evaluator.evaluate({
+        blockStates: engineState.blockStates,
+        simulationState: engineState,
+        sheet: { ...sheet, blocks: this.getSampledBlocks(sheet, sheet.blocks) }
+      })
       
-      // Phase 5: State integration for all sheets
-      for (const sheet of allSheets) {
-        const engine = this.blockEngines.get(sheet.id)
-        const integrator = this.stateIntegrators.get(sheet.id)
-        
-        if (engine && integrator) {
-          // Check if subsystem is enabled before integrating
-          const engineState = engine.getState()
-          
-          // Filter blocks based on enable state
-          const enabledBlocks = sheet.blocks.filter(block => {
-            const containingSubsystem = this.blockToSubsystem.get(block.id)
-            if (!containingSubsystem) return true // Root blocks always enabled
-            return this.isSubsystemEnabled(containingSubsystem)
-          })
-          
-          // Create filtered sheet with only enabled blocks
-          const filteredSheet: Sheet = {
-            ...sheet,
-            blocks: enabledBlocks
-          }
-          
-          // Integrate states only for enabled blocks
-          integrator.integrate({
-            blockStates: engineState.blockStates,
-            simulationState: engineState,
-            sheet: filteredSheet,
-            timeStep: this.config.timeStep
-          })
+      // Update signal values from algebraic outputs
+      for (const [blockId, outputs] of algebraicResult.blockOutputs) {
+        for (let i = 0; i < outputs.length; i++) {
+          const signalKey = `${blockId}_output_${i}`
+          engineState.signalValues.set(signalKey, outputs[i])
         }
       }
-      
-      // Phase 6: Advance time for all engines
-      for (const [_, engine] of this.blockEngines) {
-        engine.advanceTime(this.config.timeStep)
-      }
-      
-      time += this.config.timeStep
     }
-    
-    // Package results by sheet
-    for (const [sheetId, signalData] of sheetSignalData) {
+  }
+
+  /**
+   * Current simulation time of the run
+   */
+  getTime(): number {
+    return this.time
+  }
+
+  isFinished(): boolean {
+    return this.time >= this.config.duration
+  }
+
+  /**
+   * Number of time points collected so far
+   */
+  getSampleCount(): number {
+    return this.timePoints.length
+  }
+
+  /**
+   * Results collected so far, packaged by sheet, optionally starting at a
+   * given sample. The arrays are copies, so the results do not change as
+   * the run continues.
+   */
+  getResults(fromSample: number = 0): Map<string, SimulationResults> {
+    const results = new Map<string, SimulationResults>()
+    for (const [sheetId, signalData] of this.sheetSignalData ?? []) {
       results.set(sheetId, {
-        timePoints: [...timePoints],
-        signalData,
-        finalTime: time
+        timePoints: this.timePoints.slice(fromSample),
+        signalData: new Map(Array.from(signalData, ([blockId, values]) => [blockId, values.slice(fromSample)])),
+        finalTime: this.time
       })
     }
-    
     return results
   }
+
+  /**
+   * Change a block's parameters in the middle of a run. Returns false if
+   * the block cannot be tuned while running (see TUNABLE_BLOCK_TYPES).
+   */
+  updateBlockParameters(blockId: string, parameters: BlockData['parameters']): boolean {
+    const sheetId = this.blockToSheet.get(blockId)
+    const engine = sheetId ? this.blockEngines.get(sheetId) : undefined
+    return engine?.updateBlockParameters(blockId, parameters) ?? false
+  }
   
-  // New helper method to handle cross-sheet connections
-  private handleCrossSheetConnections(allSheets: Sheet[]): void {
+  // New helper method to handle cross-sheet connections, optionally only
+  // for the blocks of some sheets
+  private handleCrossSheetConnections(allSheets: Sheet[], sheetIds?: Set<string>): void {
     // Execute blocks in global order for cross-sheet dependencies
     for (const { sheetId, blockId } of this.executionOrder) {
+      if (sheetIds && !sheetIds.has(sheetId)) continue
+      
       const engine = this.blockEngines.get(sheetId)
       if (!engine) continue
       
@@ -768,19 +1024,25 @@ export class MultiSheetSimulationEngine {
       const sheet = allSheets.find((s: Sheet) => s.id === sheetId)!
       for (const block of sheet.blocks) {
         if (block.type === 'signal_display' || block.type === 'signal_logger') {
-          const inputWire = sheet.connections.find((w: WireData) => 
-            w.targetBlockId === block.id && w.targetPortIndex === 0
-          )
-          
-          if (inputWire) {
+          // XY displays record both inputs together as [x, y]
+          const portCount = block.type === 'signal_display' && block.parameters?.displayMode === 'xy' ? 2 : 1
+          const values = []
+          for (let portIndex = 0; portIndex < portCount; portIndex++) {
+            const inputWire = sheet.connections.find((w: WireData) => 
+              w.targetBlockId === block.id && w.targetPortIndex === portIndex
+            )
+            if (!inputWire) break
+            
             const signalKey = `${inputWire.sourceBlockId}_output_${inputWire.sourcePortIndex}`
             const signalValue = engineState.signalValues.get(signalKey)
-            
-            if (signalValue !== undefined) {
-              const dataArray = signalData.get(block.id)
-              if (dataArray) {
-                dataArray.push(signalValue)
-              }
+            if (signalValue === undefined) break
+            values.push(signalValue)
+          }
+          
+          if (values.length === portCount) {
+            const dataArray = signalData.get(block.id)
+            if (dataArray) {
+              dataArray.push(portCount === 1 ? values[0] : values)
             }
           }
         }
@@ -877,7 +1139,8 @@ export class MultiSheetSimulationEngine {
             }
             
             // Use frozen output if subsystem is disabled
-            if (this.isSubsystemEnabled(subsystemBlock.block.id)) {
+            subsystemBlockState.outputsUpdated = this.isSubsystemEnabled(subsystemBlock.block.id)
+            if (subsystemBlockState.outputsUpdated) {
               subsystemBlockState.outputs[portIndex] = value
               parentEngine.getState().signalValues.set(
                 `${subsystemBlock.block.id}_output_${portIndex}`, 
@@ -954,6 +1217,30 @@ export class MultiSheetSimulationEngine {
     return allSheets
   }
 
+  /**
+   * Record the sample time each sheet inherits from its enclosing subsystems
+   */
+  private buildSheetSampleTimes(sheets: Sheet[], inheritedSampleTime: number = -1) {
+    for (const sheet of sheets) {
+      this.sheetSampleTimes.set(sheet.id, inheritedSampleTime)
+      
+      for (const block of sheet.blocks) {
+        if (block.type === 'subsystem' && block.parameters?.sheets) {
+          const sampleTime = BlockModuleUtils.getSampleTime(block)
+          this.buildSheetSampleTimes(block.parameters.sheets, sampleTime > 0 ? sampleTime : inheritedSampleTime)
+        }
+      }
+    }
+  }
+  
+  /**
+   * Apply the inherited subsystem sample time to the blocks of a sheet
+   */
+  private getSampledBlocks(sheet: Sheet, blocks: BlockData[]): BlockData[] {
+    const sampleTime = this.sheetSampleTimes.get(sheet.id) ?? -1
+    return blocks.map(block => BlockModuleFactory.inheritSampleTime(block, sampleTime))
+  }
+  
   private findContainingSubsystem(blockId: string, allSheets: Sheet[]): 
     { block: BlockData, sheetId: string } | null {
     for (const sheet of allSheets) {
@@ -1212,6 +1499,16 @@ export class MultiSheetSimulationEngine {
     }
   }
   
+  /**
+   * Get the wires on every sheet that connect blocks running at different
+   * sample rates, with the sheet each one is on
+   */
+  public getRateTransitions(): (RateTransition & { sheetId: string })[] {
+    return Array.from(this.blockEngines.entries()).flatMap(([sheetId, engine]) =>
+      engine.getRateTransitions().map(transition => ({ ...transition, sheetId }))
+    )
+  }
+
   /**
    * Get the root sheet ID (first sheet in the model)
    */
@@ -129,9 +129,28 @@ function getRequiredInputCount(blockType: string): number {
     case 'multiply':
       return 2 // Minimum 2 inputs
     case 'lookup_2d':
+    case 'multiport_switch':
+      return 2 // Index and at least one data input
+    case 'relational_operator':
       return 2
     case 'scale':
     case 'transfer_function':
+    case 'unit_delay':
+    case 'zero_order_hold':
+    case 'discrete_transfer_function':
+    case 'discrete_integrator':
+    case 'integrator':
+    case 'derivative':
+    case 'pid':
+    case 'saturation':
+    case 'rate_limiter':
+    case 'dead_zone':
+    case 'quantizer':
+    case 'data_type_conversion':
+    case 'switch_case':
+    case 'merge':
+    case 'logical_operator':
+    case 'bitwise_operator':
     case 'signal_display':
     case 'signal_logger':
     case 'output_port':
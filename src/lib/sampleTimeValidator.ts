@@ -0,0 +1,77 @@
+// lib/sampleTimeValidator.ts
+import { BlockData } from '@/components/BlockNode'
+import { BlockModuleUtils } from '@/lib/blocks/BlockModule'
+import { MultiSheetSimulationEngine } from '@/lib/multiSheetSimulation'
+import { Sheet } from '@/lib/simulationEngine'
+
+/**
+ * A sample time setting that runs differently from how it reads
+ */
+export interface SampleTimeWarning {
+  sheetId: string
+  blockId?: string
+  wireId?: string
+  message: string
+}
+
+/**
+ * Check block sample times against the simulation time step.
+ *
+ * Blocks only run on base-rate steps, so a sample time that is not an
+ * integer multiple of the time step is rounded to the nearest one (and
+ * never below one step), both in simulation and in generated code. Each
+ * wire between blocks at different rates is reported too, since the
+ * slower side only sees the signal on its own sample hits.
+ */
+export function validateSampleTimes(sheets: Sheet[], timeStep: number): SampleTimeWarning[] {
+  const warnings: SampleTimeWarning[] = []
+  const blockNames = new Map<string, string>()
+
+  const checkSheets = (currentSheets: Sheet[]) => {
+    for (const sheet of currentSheets) {
+      for (const block of sheet.blocks) {
+        blockNames.set(block.id, block.name)
+        const message = checkSampleTime(block, timeStep)
+        if (message) {
+          warnings.push({ sheetId: sheet.id, blockId: block.id, message })
+        }
+        if (block.type === 'subsystem' && block.parameters?.sheets) {
+          checkSheets(block.parameters.sheets)
+        }
+      }
+    }
+  }
+  checkSheets(sheets)
+
+  const engine = new MultiSheetSimulationEngine(sheets, { timeStep, duration: timeStep })
+  for (const transition of engine.getRateTransitions()) {
+    const source = blockNames.get(transition.sourceBlockId) ?? transition.sourceBlockId
+    const target = blockNames.get(transition.targetBlockId) ?? transition.targetBlockId
+    const effect = transition.direction === 'fast_to_slow'
+      ? `"${target}" only samples it every ${transition.targetSampleTime} s`
+      : `"${target}" holds it between updates`
+    warnings.push({
+      sheetId: transition.sheetId,
+      wireId: transition.wireId,
+      message: `Rate transition from "${source}" (${transition.sourceSampleTime} s) to "${target}" (${transition.targetSampleTime} s): ${effect}`
+    })
+  }
+
+  return warnings
+}
+
+function checkSampleTime(block: BlockData, timeStep: number): string | null {
+  const sampleTime = BlockModuleUtils.getSampleTime(block)
+  if (sampleTime <= 0 || !(timeStep > 0)) {
+    return null
+  }
+
+  const ratio = sampleTime / timeStep
+  const period = Math.max(1, Math.floor(ratio + 0.5))
+  if (Math.abs(ratio - period) <= 1e-9 * ratio) {
+    return null
+  }
+
+  const effectiveSampleTime = Number((period * timeStep).toPrecision(12))
+  return `Block "${block.name}" sample time ${sampleTime} s is not a multiple of the ${timeStep} s time step, so it runs every ${effectiveSampleTime} s`
+}
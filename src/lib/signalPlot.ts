@@ -0,0 +1,209 @@
+// lib/signalPlot.ts
+
+/**
+ * Chart data and axis math for the Signal Display block: turning recorded
+ * samples into chart rows, autoscaling, zooming and panning the axes, and
+ * reading values under the measurement cursors.
+ */
+
+export type DisplaySample = number | boolean | number[] | boolean[] | (number | boolean)[][]
+
+export type SignalDisplayMode = 'time' | 'xy'
+
+export type AxisDomain = [number, number]
+
+/** One time point of a time plot, keyed by series name */
+export type PlotRow = { time: number } & Record<string, number>
+
+export interface TimePlot {
+  rows: PlotRow[]
+  series: string[]
+}
+
+export interface XYPoint {
+  x: number
+  y: number
+}
+
+export interface CursorValue {
+  series: string
+  y1: number | null
+  y2: number | null
+  deltaY: number | null
+}
+
+export interface CursorReadout {
+  t1: number
+  t2: number
+  deltaT: number
+  values: CursorValue[]
+}
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : (value ? 1 : 0)
+
+export const seriesKey = (index: number, vectorWidth: number) =>
+  vectorWidth > 0 ? `element_${index}` : 'value'
+
+export const seriesLabel = (series: string) =>
+  series === 'value' ? 'Value' : `Element ${series.slice('element_'.length)}`
+
+/**
+ * Rows for a time plot of the last maxSamples samples. Scalars use the
+ * "value" series and vectors one "element_i" series per element.
+ */
+export function buildTimePlot(times: number[], samples: DisplaySample[], maxSamples = Infinity): TimePlot {
+  const start = Math.max(0, Math.min(times.length, samples.length) - maxSamples)
+  const count = Math.min(times.length, samples.length)
+  const first = samples[start]
+  const width = Array.isArray(first) ? first.length : 0
+  const series = width > 0 ? Array.from({ length: width }, (_, i) => seriesKey(i, width)) : ['value']
+
+  const rows: PlotRow[] = []
+  for (let index = start; index < count; index++) {
+    const sample = samples[index]
+    const row = { time: times[index] } as PlotRow
+    if (width > 0) {
+      for (let i = 0; i < width; i++) {
+        row[series[i]] = toNumber(Array.isArray(sample) ? sample[i] : undefined)
+      }
+    } else {
+      row.value = toNumber(sample)
+    }
+    rows.push(row)
+  }
+  return { rows, series }
+}
+
+/**
+ * One trace per element for an XY plot. Each sample holds the [x, y] inputs
+ * of the display; vector inputs are paired element by element.
+ */
+export function buildXYTraces(samples: DisplaySample[], maxSamples = Infinity): XYPoint[][] {
+  const recent = samples.slice(-maxSamples)
+  const first = recent[0]
+  if (!Array.isArray(first)) return []
+
+  const [x0, y0] = first as unknown[]
+  const width = Array.isArray(x0) || Array.isArray(y0)
+    ? Math.min(Array.isArray(x0) ? x0.length : 1, Array.isArray(y0) ? y0.length : 1)
+    : 1
+
+  const traces: XYPoint[][] = Array.from({ length: width }, () => [])
+  for (const sample of recent) {
+    if (!Array.isArray(sample)) continue
+    const [x, y] = sample as unknown[]
+    for (let i = 0; i < width; i++) {
+      traces[i].push({
+        x: toNumber(Array.isArray(x) ? x[i] : x),
+        y: toNumber(Array.isArray(y) ? y[i] : y)
+      })
+    }
+  }
+  return traces
+}
+
+/**
+ * The range of the given values with 10% padding on each side. A flat
+ * signal gets a small band around its value so it stays visible.
+ */
+export function fitDomain(values: Iterable<number>): AxisDomain {
+  let min = Infinity
+  let max = -Infinity
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue
+    min = Math.min(min, value)
+    max = Math.max(max, value)
+  }
+  if (min > max) return [-1, 1]
+
+  const padding = (max - min) * 0.1 || Math.abs(max) * 0.1 || 0.1
+  return [min - padding, max + padding]
+}
+
+/** The range of times covered by the rows, without padding */
+export function timeExtent(rows: PlotRow[]): AxisDomain {
+  if (rows.length === 0) return [0, 1]
+  const first = rows[0].time
+  const last = rows[rows.length - 1].time
+  return first < last ? [first, last] : [first, first + 1]
+}
+
+/**
+ * The y values of the series over the rows that fall inside the time window,
+ * so autoscaling follows a zoomed time axis.
+ */
+export function* seriesValues(rows: PlotRow[], series: string[], window?: AxisDomain): Generator<number> {
+  for (const row of rows) {
+    if (window && (row.time < window[0] || row.time > window[1])) continue
+    for (const key of series) {
+      yield row[key]
+    }
+  }
+}
+
+/**
+ * The domain selected by dragging from one point to another. Returns null
+ * for a selection too narrow to be a deliberate zoom.
+ */
+export function zoomDomain(from: number, to: number, current: AxisDomain): AxisDomain | null {
+  const low = Math.min(from, to)
+  const high = Math.max(from, to)
+  const minimumWidth = (current[1] - current[0]) * 1e-3
+  return high - low > minimumWidth ? [low, high] : null
+}
+
+/** Shift the domain by the given distance in axis units */
+export function panDomain(domain: AxisDomain, distance: number): AxisDomain {
+  return [domain[0] + distance, domain[1] + distance]
+}
+
+/**
+ * The axis distance covered by a drag of the given number of pixels across
+ * a plot area of the given width
+ */
+export function pixelsToAxis(pixels: number, plotWidth: number, domain: AxisDomain): number {
+  return plotWidth > 0 ? pixels * (domain[1] - domain[0]) / plotWidth : 0
+}
+
+/**
+ * The value of a series at the given time, interpolated linearly between the
+ * surrounding rows. Returns null outside the recorded time range.
+ */
+export function valueAt(rows: PlotRow[], series: string, time: number): number | null {
+  if (rows.length === 0 || time < rows[0].time || time > rows[rows.length - 1].time) {
+    return null
+  }
+
+  // Binary search for the last row at or before the time
+  let low = 0
+  let high = rows.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (rows[mid].time <= time) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+
+  const before = rows[low]
+  const after = rows[Math.min(low + 1, rows.length - 1)]
+  if (after.time === before.time) return before[series]
+  const fraction = (time - before.time) / (after.time - before.time)
+  return before[series] + fraction * (after[series] - before[series])
+}
+
+/** The values of every series at two cursor times and their differences */
+export function readCursors(rows: PlotRow[], series: string[], t1: number, t2: number): CursorReadout {
+  return {
+    t1,
+    t2,
+    deltaT: t2 - t1,
+    values: series.map(key => {
+      const y1 = valueAt(rows, key, t1)
+      const y2 = valueAt(rows, key, t2)
+      return { series: key, y1, y2, deltaY: y1 !== null && y2 !== null ? y2 - y1 : null }
+    })
+  }
+}
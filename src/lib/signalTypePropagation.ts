@@ -2,8 +2,17 @@
 
 import { BlockData } from '@/components/BlockNode'
 import { WireData } from '@/components/Wire'
-import { areTypesCompatible, getTypeCompatibilityError, parseType, ParsedType, typeToString, isMatrixType, getMatrixDimensions } from './typeValidator'
+import { areTypesCompatible, getTypeCompatibilityError, parseType, ParsedType, typeToString, isMatrixType, getMatrixDimensions, withBaseType } from './typeValidator'
 import { ca } from 'zod/v4/locales'
+import { FIXED_POINT_BLOCK_TYPES, getFixedPointFormat } from './fixedPoint'
+import { MultiportSwitchBlockModule } from './blocks/MultiportSwitchBlockModule'
+import { SwitchCaseBlockModule } from './blocks/SwitchCaseBlockModule'
+import { MergeBlockModule } from './blocks/MergeBlockModule'
+import { StateChartBlockModule } from './blocks/StateChartBlockModule'
+import { LogicalOperatorBlockModule } from './blocks/LogicalOperatorBlockModule'
+import { BitwiseOperatorBlockModule } from './blocks/BitwiseOperatorBlockModule'
+import { EvaluateBlockModule } from './blocks/EvaluateBlockModule'
+import { BlockModuleUtils } from './blocks/BlockModule'
 
 /**
  * Represents the type information for a signal (wire)
@@ -64,15 +73,36 @@ function getBlockOutputType(block: BlockData): string | null {
     case 'multiply':
     case 'scale':
     case 'transfer_function':
+    case 'unit_delay':
+    case 'zero_order_hold':
+    case 'discrete_transfer_function':
+    case 'discrete_integrator':
+    case 'integrator':
+    case 'derivative':
+    case 'pid':
+    case 'saturation':
+    case 'rate_limiter':
+    case 'dead_zone':
+    case 'quantizer':
+    case 'data_type_conversion':
     case 'lookup_1d':
     case 'lookup_2d':
     case 'matrix_multiply':  // New: matrix multiply output depends on inputs
+    case 'multiport_switch':
+    case 'switch_case':
+    case 'merge':
+    case 'condition':
+    case 'if':
+    case 'relational_operator':
+    case 'logical_operator':
+    case 'bitwise_operator':
+    case 'evaluate':
       // These blocks output type depends on their inputs
       // Will be determined during propagation
       return null
 
-    case 'evaluate':
-      // Evaluate block always outputs double
+    case 'state_chart':
+      // State Chart blocks always output double
       return 'double'
     
     case 'mux':  // New: mux output type depends on configuration
@@ -122,7 +152,8 @@ function getBlockOutputType(block: BlockData): string | null {
  */
 function determineProcessingBlockOutputType(
   blockType: string,
-  inputTypes: string[]
+  inputTypes: string[],
+  parameters?: Record<string, any>
 ): string | null {
   if (inputTypes.length === 0) return null
   
@@ -162,9 +193,28 @@ function determineProcessingBlockOutputType(
       return typeToString(parsedTypes[0])
     
     case 'transfer_function':
-      // Transfer function: output type matches input type
+    case 'unit_delay':
+    case 'zero_order_hold':
+    case 'discrete_transfer_function':
+    case 'discrete_integrator':
+    case 'integrator':
+    case 'derivative':
+    case 'pid':
+    case 'saturation':
+    case 'rate_limiter':
+    case 'dead_zone':
+    case 'quantizer':
+      // Transfer function, discrete and nonlinear blocks: output type matches input type
       // Arrays and matrices are processed element-wise
       return typeToString(parsedTypes[0])
+
+    case 'data_type_conversion':
+      // Conversion keeps the input dimensions with the configured element type
+      try {
+        return withBaseType(typeToString(parsedTypes[0]), parameters?.outputDataType || 'int16')
+      } catch {
+        return null
+      }
     
     case 'lookup_1d':
     case 'lookup_2d':
@@ -231,6 +281,48 @@ function determineProcessingBlockOutputType(
       // Demux always outputs the base type as scalar
       const inputType = parsedTypes[0]
       return inputType.baseType
+
+    case 'multiport_switch':
+    case 'merge': {
+      // Output type matches the data inputs, which must all be the same.
+      // The first input of a Multiport Switch is its index.
+      const dataTypes = (blockType === 'multiport_switch' ? parsedTypes.slice(1) : parsedTypes).map(typeToString)
+      if (dataTypes.length === 0 || dataTypes.some(type => type !== dataTypes[0])) {
+        return null
+      }
+      return dataTypes[0]
+    }
+
+    case 'switch_case':
+      // Every case output is a boolean action signal
+      return 'bool'
+
+    case 'condition':
+      // The comparison with a constant is a scalar bool
+      return 'bool'
+
+    case 'if':
+      // Output type matches input1, which must match input2
+      return typeToString(parsedTypes[0])
+
+    case 'relational_operator':
+    case 'logical_operator': {
+      // Element-wise bool of the shape of the vector or matrix inputs,
+      // which must all have the same dimensions
+      const shape = BlockModuleUtils.getElementWiseType(inputTypes)
+      return shape ? withBaseType(shape, 'bool') : null
+    }
+
+    case 'bitwise_operator': {
+      // The inputs share one integer type, which the output keeps
+      const shape = BlockModuleUtils.getElementWiseType(inputTypes)
+      const sameBaseType = parsedTypes.every(t => t.baseType === parsedTypes[0].baseType)
+      return shape && sameBaseType ? shape : null
+    }
+
+    case 'evaluate':
+      // double outputs of the size of the vector the expression computes
+      return EvaluateBlockModule.getOutputTypeFor(parameters || {}, inputTypes)
     
     default:
       return null
@@ -381,7 +473,19 @@ export function propagateSignalTypes(
       if (!outputType) {
         // Try to determine output type based on inputs
         const inputTypes = getBlockInputTypes(currentBlock, wiresByTarget, blockOutputTypes)
-        const determinedType = determineProcessingBlockOutputType(currentBlock.type, inputTypes)
+        
+        // Only some blocks have saturating integer implementations
+        const fixedPointInput = inputTypes.find(type => getFixedPointFormat(type))
+        if (fixedPointInput && !FIXED_POINT_BLOCK_TYPES.includes(currentBlock.type)) {
+          errors.push({
+            blockId: currentBlock.id,
+            message: `${currentBlock.name} (${currentBlock.type}) does not support fixed-point signals (input ${fixedPointInput})`,
+            severity: 'error'
+          })
+          continue
+        }
+        
+        const determinedType = determineProcessingBlockOutputType(currentBlock.type, inputTypes, currentBlock.parameters)
         
         if (determinedType) {
           blockOutputTypes.set(outputKey, determinedType)
@@ -782,12 +886,37 @@ function getBlockOutputPortCount(block: BlockData): number {
     case 'multiply':
     case 'scale':
     case 'transfer_function':
+    case 'unit_delay':
+    case 'zero_order_hold':
+    case 'discrete_transfer_function':
+    case 'discrete_integrator':
+    case 'integrator':
+    case 'derivative':
+    case 'pid':
+    case 'saturation':
+    case 'rate_limiter':
+    case 'dead_zone':
+    case 'quantizer':
+    case 'data_type_conversion':
     case 'lookup_1d':
     case 'lookup_2d':
     case 'input_port':
     case 'source':
     case 'matrix_multiply':
+    case 'multiport_switch':
+    case 'merge':
+    case 'condition':
+    case 'if':
+    case 'relational_operator':
+    case 'logical_operator':
+    case 'bitwise_operator':
       return 1
+    case 'switch_case':
+      return SwitchCaseBlockModule.getOutputCount(block.parameters || {})
+    case 'state_chart':
+      return StateChartBlockModule.getDefinition(block.parameters || {}).outputs.length
+    case 'evaluate':
+      return EvaluateBlockModule.getOutputCount(block.parameters || {})
     case 'output_port':
     case 'signal_display':
     case 'signal_logger':
@@ -813,14 +942,47 @@ function getBlockInputPortCount(block: BlockData): number {
       return 2 // Default, but can have more
     case 'scale':
     case 'transfer_function':
-    case 'signal_display':
+    case 'unit_delay':
+    case 'zero_order_hold':
+    case 'discrete_transfer_function':
+    case 'discrete_integrator':
+    case 'derivative':
+    case 'saturation':
+    case 'rate_limiter':
+    case 'dead_zone':
+    case 'quantizer':
+    case 'data_type_conversion':
     case 'signal_logger':
     case 'output_port':
     case 'lookup_1d':
       return 1
+    case 'signal_display':
+      return block.parameters?.displayMode === 'xy' ? 2 : 1
     case 'lookup_2d':
     case 'matrix_multiply':
       return 2
+    case 'integrator':
+    case 'pid':
+      return block.parameters?.showResetInput ? 2 : 1
+    case 'multiport_switch':
+      return MultiportSwitchBlockModule.getOptions(block.parameters || {}).numInputs + 1
+    case 'merge':
+      return MergeBlockModule.getNumInputs(block.parameters || {})
+    case 'switch_case':
+    case 'condition':
+      return 1
+    case 'if':
+      return 3
+    case 'relational_operator':
+      return 2
+    case 'logical_operator':
+      return LogicalOperatorBlockModule.getOptions(block.parameters || {}).numInputs
+    case 'bitwise_operator':
+      return BitwiseOperatorBlockModule.getOptions(block.parameters || {}).numInputs
+    case 'state_chart':
+      return StateChartBlockModule.getDefinition(block.parameters || {}).inputs.length
+    case 'evaluate':
+      return block.parameters?.numInputs || 1
     case 'input_port':
     case 'source':
       return 0
@@ -1029,8 +1191,33 @@ export function getMatrixBlockOutputType(
       return getElementWiseOutputType(block.type, parsedInputs)
     
     case 'transfer_function':
-      // Transfer functions process each element independently
+    case 'unit_delay':
+    case 'zero_order_hold':
+    case 'discrete_transfer_function':
+    case 'discrete_integrator':
+    case 'integrator':
+    case 'derivative':
+    case 'pid':
+    case 'saturation':
+    case 'rate_limiter':
+    case 'dead_zone':
+    case 'quantizer':
+      // Transfer functions, discrete and nonlinear blocks process each element independently
       return parsedInputs.length > 0 ? typeToString(parsedInputs[0]) : null
+
+    case 'data_type_conversion':
+    case 'multiport_switch':
+    case 'merge':
+    case 'switch_case':
+    case 'condition':
+    case 'if':
+    case 'relational_operator':
+    case 'logical_operator':
+    case 'bitwise_operator':
+    case 'evaluate':
+      return parsedInputs.length > 0
+        ? determineProcessingBlockOutputType(block.type, inputTypes, block.parameters)
+        : null
     
     default:
       return null
@@ -3,6 +3,7 @@
 import { BlockData } from '@/components/BlockNode'
 import { BlockState, SimulationState } from '@/lib/simulationEngine'
 import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '@/lib/blocks/BlockModule'
 
 /**
  * Adapter that delegates block simulation execution to the appropriate block modules.
@@ -50,6 +51,51 @@ export class BlockSimulationAdapter {
     }
   }
   
+  /**
+   * Update a block's discrete states if the current time is one of its
+   * sample hits. Must be called after all block outputs for the step have
+   * been computed.
+   * @param block - The block data
+   * @param blockState - The current state of the block
+   * @param inputs - Array of input values at the current step
+   * @param simulationState - The global simulation state
+   */
+  static updateDiscreteStates(
+    block: BlockData,
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const blockModule = BlockModuleFactory.getBlockModule(block.type)
+    
+    if (!blockModule.updateDiscreteStates) {
+      return
+    }
+    
+    const sampleTime = BlockModuleUtils.getSampleTime(block)
+    if (BlockModuleUtils.isSampleHit(simulationState.time, simulationState.timeStep, sampleTime)) {
+      blockModule.updateDiscreteStates({ ...blockState, blockData: block }, inputs, simulationState)
+    }
+  }
+  
+  /**
+   * Apply a block's limits and resets to its continuous states. Must be
+   * called after the states have been integrated for the step.
+   * @param block - The block data
+   * @param blockState - The current state of the block
+   * @param inputs - Array of input values from the start of the step
+   * @param simulationState - The global simulation state
+   */
+  static constrainStates(
+    block: BlockData,
+    blockState: BlockState,
+    inputs: (number | number[] | boolean | boolean[] | number[][])[],
+    simulationState: SimulationState
+  ): void {
+    const blockModule = BlockModuleFactory.getBlockModule(block.type)
+    blockModule.constrainStates?.({ ...blockState, blockData: block }, inputs, simulationState)
+  }
+  
   /**
    * Check if a block type has a simulation module
    * @param blockType - The type of block
@@ -0,0 +1,207 @@
+// lib/simulation/InteractiveSimulation.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { MultiSheetSimulationEngine } from '../multiSheetSimulation'
+import { SimulationResults } from '../simulationEngine'
+
+export type InteractiveSimulationStatus = 'running' | 'paused' | 'finished' | 'stopped'
+
+export interface InteractiveSimulationOptions {
+  /** Simulated seconds per wall-clock second (Infinity runs as fast as possible) */
+  realTimeFactor?: number
+
+  /**
+   * Updates carry only the samples produced since the previous update,
+   * instead of everything collected so far
+   */
+  incrementalUpdates?: boolean
+
+  /** Called with the collected results whenever new samples are produced */
+  onUpdate: (results: Map<string, SimulationResults>, time: number) => void
+
+  /** Called whenever the run is started, paused, finished or stopped */
+  onStatusChange?: (status: InteractiveSimulationStatus) => void
+
+  /** Called if a step throws; the run is stopped */
+  onError?: (error: unknown) => void
+}
+
+/** Delay between batches of steps, roughly one animation frame */
+const FRAME_INTERVAL_MS = 16
+
+/** Longest a batch of steps may keep the main thread busy */
+const FRAME_BUDGET_MS = 12
+
+/**
+ * Drives a MultiSheetSimulationEngine a batch of steps at a time, so the
+ * editor stays responsive and displays can show signals as they are
+ * produced. Runs can be paused, single-stepped and paced against the wall
+ * clock, and tunable block parameters can be changed between steps.
+ */
+export class InteractiveSimulation {
+  private engine: MultiSheetSimulationEngine
+  private options: InteractiveSimulationOptions
+  private status: InteractiveSimulationStatus = 'paused'
+  private realTimeFactor: number
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private publishedSamples = 0
+
+  // Wall-clock and simulation time at which pacing was last (re)started,
+  // so pausing or changing the factor does not make the run jump ahead
+  private paceStartWallTime = 0
+  private paceStartSimTime = 0
+
+  constructor(engine: MultiSheetSimulationEngine, options: InteractiveSimulationOptions) {
+    this.engine = engine
+    this.options = options
+    this.realTimeFactor = options.realTimeFactor ?? Infinity
+  }
+
+  getStatus(): InteractiveSimulationStatus {
+    return this.status
+  }
+
+  getTime(): number {
+    return this.engine.getTime()
+  }
+
+  getEngine(): MultiSheetSimulationEngine {
+    return this.engine
+  }
+
+  /**
+   * Start or resume the run
+   */
+  start(): void {
+    if (this.status === 'running' || this.isDone()) {
+      return
+    }
+    this.setStatus('running')
+    this.restartPacing()
+    this.schedule()
+  }
+
+  pause(): void {
+    if (this.status !== 'running') {
+      return
+    }
+    this.cancelTimer()
+    this.setStatus('paused')
+  }
+
+  /**
+   * Advance exactly one time step, pausing the run first if needed
+   */
+  step(): void {
+    if (this.isDone()) {
+      return
+    }
+    this.pause()
+    if (this.advance(() => this.engine.step())) {
+      this.publish()
+    }
+    this.finishIfComplete()
+  }
+
+  /**
+   * End the run early. The results collected so far are kept.
+   */
+  stop(): void {
+    if (this.isDone()) {
+      return
+    }
+    this.cancelTimer()
+    this.setStatus('stopped')
+  }
+
+  setRealTimeFactor(factor: number): void {
+    this.realTimeFactor = factor
+    this.restartPacing()
+  }
+
+  /**
+   * Change a block's parameters; the next step uses the new values.
+   * Returns false if the block cannot be tuned while running.
+   */
+  updateBlockParameters(blockId: string, parameters: BlockData['parameters']): boolean {
+    if (this.isDone()) {
+      return false
+    }
+    return this.engine.updateBlockParameters(blockId, parameters)
+  }
+
+  private isDone(): boolean {
+    return this.status === 'finished' || this.status === 'stopped'
+  }
+
+  private setStatus(status: InteractiveSimulationStatus): void {
+    this.status = status
+    this.options.onStatusChange?.(status)
+  }
+
+  private restartPacing(): void {
+    this.paceStartWallTime = Date.now()
+    this.paceStartSimTime = this.engine.getTime()
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => this.tick(), FRAME_INTERVAL_MS)
+  }
+
+  private cancelTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  // Run the steps that are due, within the frame budget
+  private tick(): void {
+    this.timer = null
+    const deadline = Date.now() + FRAME_BUDGET_MS
+    const targetTime = Number.isFinite(this.realTimeFactor)
+      ? this.paceStartSimTime + (Date.now() - this.paceStartWallTime) / 1000 * this.realTimeFactor
+      : Infinity
+
+    const stepped = this.advance(() => {
+      let advanced = false
+      while (this.engine.getTime() < targetTime && Date.now() <= deadline && this.engine.step()) {
+        advanced = true
+      }
+      return advanced
+    })
+    if (stepped) {
+      this.publish()
+    }
+
+    this.finishIfComplete()
+    if (this.status === 'running') {
+      this.schedule()
+    }
+  }
+
+  // Run some steps, stopping the run if one throws
+  private advance(run: () => boolean): boolean {
+    try {
+      return run()
+    } catch (error) {
+      this.cancelTimer()
+      this.options.onError?.(error)
+      this.setStatus('stopped')
+      return false
+    }
+  }
+
+  private publish(): void {
+    const fromSample = this.options.incrementalUpdates ? this.publishedSamples : 0
+    this.publishedSamples = this.engine.getSampleCount()
+    this.options.onUpdate(this.engine.getResults(fromSample), this.engine.getTime())
+  }
+
+  private finishIfComplete(): void {
+    if (!this.isDone() && this.engine.isFinished()) {
+      this.cancelTimer()
+      this.setStatus('finished')
+    }
+  }
+}
@@ -2,6 +2,8 @@
 
 import { BlockState, SimulationState, Sheet } from '../simulationEngine'
 import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '../blocks/BlockModule'
+import { MergeBlockModule } from '../blocks/MergeBlockModule'
 import { BlockData } from '@/components/BlockNode'
 import { WireData } from '@/components/Wire'
 import { StateContainer } from './SimulationStateIntegrator'
@@ -67,21 +69,36 @@ export class SimulationAlgebraicEvaluator {
       
       // Execute block using its module
       try {
-        if (BlockModuleFactory.isSupported(block.type)) {
+        if (block.type === 'subsystem') {
+          // Subsystem outputs come from their output port blocks, set by the
+          // multi-sheet engine, so the module must not reset them
+          this.executeSubsystem(block, blockState, blockInputs, simulationState)
+          blockOutputs.set(blockId, [...blockState.outputs])
+        } else if (
+          BlockModuleFactory.holdsOutputsBetweenHits(block) &&
+          !BlockModuleUtils.isSampleHit(simulationState.time, simulationState.timeStep, BlockModuleUtils.getSampleTime(block))
+        ) {
+          // Blocks of a slower subsystem keep their outputs until its next sample hit
+          blockOutputs.set(blockId, [...blockState.outputs])
+        } else if (BlockModuleFactory.isSupported(block.type)) {
           const module = BlockModuleFactory.getBlockModule(block.type)
           
           // Update block state inputs
           //blockState.inputs = blockInputs
           
+          // Merge blocks pass on only the inputs updated this step
+          if (block.type === 'merge') {
+            blockState.internalState = {
+              ...blockState.internalState,
+              updatedInputs: this.getUpdatedInputs(block, sheet, blockStates)
+            }
+          }
+          
           // Execute the block's algebraic computation
           module.executeSimulation(blockState, blockInputs, simulationState)
           
           // Store outputs
           blockOutputs.set(blockId, [...blockState.outputs])
-        } else if (block.type === 'subsystem') {
-          // Handle subsystem blocks specially
-          this.executeSubsystem(block, blockState, blockInputs, simulationState)
-          blockOutputs.set(blockId, [...blockState.outputs])
         }
       } catch (error) {
         console.error(`Error executing block ${block.name}:`, error)
@@ -127,8 +144,12 @@ export class SimulationAlgebraicEvaluator {
       dependencies.set(block.id, new Set())
     }
     
-    // Add dependencies based on connections
+    // Add dependencies based on connections. Discrete blocks without
+    // direct feedthrough output stored states, so their inputs are not
+    // dependencies (this is what lets a unit delay close a feedback loop).
     for (const wire of sheet.connections) {
+      const target = this.findBlock(sheet, wire.targetBlockId)
+      if (target && BlockModuleFactory.breaksAlgebraicDependency(target)) continue
       const deps = dependencies.get(wire.targetBlockId)
       if (deps) {
         deps.add(wire.sourceBlockId)
@@ -197,6 +218,20 @@ export class SimulationAlgebraicEvaluator {
     return inputs
   }
   
+  /**
+   * Whether each input of a block was updated this step, in the same
+   * order as getBlockInputs
+   */
+  private getUpdatedInputs(block: BlockData, sheet: Sheet, blockStates: Map<string, BlockState>): boolean[] {
+    return sheet.connections
+      .filter(wire => wire.targetBlockId === block.id)
+      .sort((a, b) => a.targetPortIndex - b.targetPortIndex)
+      .map(wire => MergeBlockModule.isInputUpdated(
+        this.findBlock(sheet, wire.sourceBlockId),
+        blockStates.get(wire.sourceBlockId)
+      ))
+  }
+  
   /**
    * Execute a subsystem block
    */
@@ -215,8 +250,9 @@ export class SimulationAlgebraicEvaluator {
       blockState.outputs = new Array(outputPortCount).fill(0)
     }
     
-    // If subsystem has frozen outputs (from being disabled), use those
-    if (blockState.frozenOutputs && blockState.frozenOutputs.length === outputPortCount) {
+    // If subsystem is disabled, use the outputs frozen when it was disabled
+    if (simulationState.subsystemEnableStates.get(block.id) === false &&
+        blockState.frozenOutputs && blockState.frozenOutputs.length === outputPortCount) {
       blockState.outputs = [...blockState.frozenOutputs]
     }
   }
@@ -271,9 +307,7 @@ export class SimulationAlgebraicEvaluator {
       const states = temporaryStates.getBlockStates(blockId)
       if (states && tempState.internalState) {
         // Update internal state with temporary values
-        if (tempState.blockType === 'transfer_function') {
-          tempState.internalState.states = [...states]
-        }
+        tempState.internalState.states = [...states]
       }
     }
     
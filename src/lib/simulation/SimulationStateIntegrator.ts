@@ -4,6 +4,7 @@ import { BlockState, SimulationState, Sheet } from '../simulationEngine'
 import { BlockModuleFactory } from '../blocks/BlockModuleFactory'
 import { BlockData } from '@/components/BlockNode'
 import { SimulationAlgebraicEvaluator } from './SimulationAlgebraicEvaluator'
+import { BlockSimulationAdapter } from './BlockSimulationAdapter'
 
 /**
  * Container for managing block states during integration
@@ -69,7 +70,70 @@ export interface IntegrationInputs {
 /**
  * Integration methods available
  */
-export type IntegrationMethod = 'euler' | 'rk4'
+export type IntegrationMethod = 'euler' | 'rk4' | 'rk45'
+
+/**
+ * Error control settings for the adaptive RK45 method
+ */
+export interface AdaptiveStepOptions {
+  /** Relative error tolerance per state (default 1e-3) */
+  relativeTolerance?: number
+  
+  /** Absolute error tolerance per state (default 1e-6) */
+  absoluteTolerance?: number
+  
+  /** Smallest step the controller may take (default 1e-6 of the time step) */
+  minStep?: number
+  
+  /** Largest step the controller may take (default 1/50 of the duration, at least the time step) */
+  maxStep?: number
+}
+
+/**
+ * Step counts of the adaptive RK45 method
+ */
+export interface StepStatistics {
+  acceptedSteps: number
+  rejectedSteps: number
+  smallestStep: number
+  largestStep: number
+}
+
+/**
+ * An accepted RK45 step, kept so that the time steps it covers can be
+ * interpolated without stepping again
+ */
+interface AdaptiveStep {
+  startTime: number
+  endTime: number
+  startStates: StateContainer
+  endStates: StateContainer
+  startDerivatives: Map<string, number[]>
+  endDerivatives: Map<string, number[]>
+}
+
+/**
+ * Blocks whose outputs are set from outside the sheet once per time step
+ */
+const GRID_INPUT_BLOCK_TYPES = ['input_port', 'sheet_label_source', 'subsystem']
+
+/**
+ * Dormand–Prince 5(4) tableau. Row i holds the weights of k1..ki used for
+ * stage i + 2; the last row gives the 5th-order solution, whose derivative
+ * is also the first stage of the next step (FSAL).
+ */
+const DORMAND_PRINCE_A: number[][] = [
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+]
+const DORMAND_PRINCE_C = [1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1]
+
+/** Difference between the 5th- and embedded 4th-order weights of k1..k7 */
+const DORMAND_PRINCE_ERROR = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40]
 
 /**
  * Handles state integration for the simulation.
@@ -82,10 +146,27 @@ export type IntegrationMethod = 'euler' | 'rk4'
 export class SimulationStateIntegrator {
   private integrationMethod: IntegrationMethod
   private algebraicEvaluator?: SimulationAlgebraicEvaluator
+  private adaptiveOptions: AdaptiveStepOptions
+  private proposedStep?: number // Step size carried over between RK45 intervals
+  private lastStep?: AdaptiveStep // Last accepted RK45 step, which may reach past the current time
+  private lastOutput?: { time: number, states: StateContainer } // States handed back at the end of the last time step
+  private stepStatistics: StepStatistics = { acceptedSteps: 0, rejectedSteps: 0, smallestStep: Infinity, largestStep: 0 }
   
-  constructor(method: IntegrationMethod = 'rk4', algebraicEvaluator?: SimulationAlgebraicEvaluator) {
+  constructor(
+    method: IntegrationMethod = 'rk4',
+    algebraicEvaluator?: SimulationAlgebraicEvaluator,
+    adaptiveOptions: AdaptiveStepOptions = {}
+  ) {
     this.integrationMethod = method
     this.algebraicEvaluator = algebraicEvaluator
+    this.adaptiveOptions = adaptiveOptions
+  }
+  
+  /**
+   * Step counts of the adaptive RK45 method so far
+   */
+  getStepStatistics(): StepStatistics {
+    return { ...this.stepStatistics }
   }
   
   /**
@@ -97,22 +178,80 @@ export class SimulationStateIntegrator {
     // Get all stateful blocks
     const statefulBlocks = this.getStatefulBlocks(sheet)
     
-    if (statefulBlocks.length === 0) {
-      return // No integration needed
+    // Capture the inputs read after integration (discrete updates, state
+    // limits and resets) before RK4 stages overwrite block outputs
+    const discreteBlocks = sheet.blocks.filter(block => BlockModuleFactory.hasDiscreteStates(block))
+    const stepInputs = new Map<string, (number | number[] | boolean | boolean[] | number[][])[]>()
+    for (const block of [...discreteBlocks, ...statefulBlocks]) {
+      stepInputs.set(block.id, this.getBlockInputs(block, sheet, blockStates))
     }
     
-    // Create state container
-    const stateContainer = this.createStateContainer(statefulBlocks, blockStates)
-    
-    // Perform integration based on method
-    if (this.integrationMethod === 'euler') {
-      this.integrateEuler(inputs, statefulBlocks, stateContainer)
-    } else if (this.integrationMethod === 'rk4') {
-      this.integrateRK4(inputs, statefulBlocks, stateContainer)
+    if (statefulBlocks.length > 0) {
+      // Create state container
+      const stateContainer = this.createStateContainer(statefulBlocks, blockStates)
+      
+      // Perform integration based on method
+      if (this.integrationMethod === 'euler') {
+        this.integrateEuler(inputs, statefulBlocks, stateContainer)
+      } else if (this.integrationMethod === 'rk4') {
+        this.integrateRK4(inputs, statefulBlocks, stateContainer)
+      } else if (this.integrationMethod === 'rk45') {
+        this.integrateRK45(inputs, statefulBlocks, stateContainer)
+      }
+      
+      // Update block states with integrated values
+      this.updateBlockStates(statefulBlocks, blockStates, stateContainer)
+      
+      // Apply limits and resets to the integrated states
+      this.constrainStates(statefulBlocks, stepInputs, blockStates, simulationState)
     }
     
-    // Update block states with integrated values
-    this.updateBlockStates(statefulBlocks, blockStates, stateContainer)
+    // Discrete states advance only on their own sample hits
+    this.updateDiscreteStates(discreteBlocks, stepInputs, blockStates, simulationState)
+  }
+
+  /**
+   * Apply block-specific limits and resets to continuous states after integration
+   */
+  private constrainStates(
+    statefulBlocks: BlockData[],
+    stepInputs: Map<string, (number | number[] | boolean | boolean[] | number[][])[]>,
+    blockStates: Map<string, BlockState>,
+    simulationState: SimulationState
+  ): void {
+    for (const block of statefulBlocks) {
+      const blockState = blockStates.get(block.id)
+      if (!blockState) continue
+      
+      BlockSimulationAdapter.constrainStates(
+        block,
+        blockState,
+        stepInputs.get(block.id) || [],
+        simulationState
+      )
+    }
+  }
+
+  /**
+   * Update discrete states of blocks whose sample time hits at the current time
+   */
+  private updateDiscreteStates(
+    discreteBlocks: BlockData[],
+    discreteInputs: Map<string, (number | number[] | boolean | boolean[] | number[][])[]>,
+    blockStates: Map<string, BlockState>,
+    simulationState: SimulationState
+  ): void {
+    for (const block of discreteBlocks) {
+      const blockState = blockStates.get(block.id)
+      if (!blockState) continue
+      
+      BlockSimulationAdapter.updateDiscreteStates(
+        block,
+        blockState,
+        discreteInputs.get(block.id) || [],
+        simulationState
+      )
+    }
   }
 
   /**
@@ -226,6 +365,12 @@ export class SimulationStateIntegrator {
               }
             }
           }
+        } else {
+          // Other continuous blocks keep one flat state array for all elements
+          const states = blockState.internalState.states || []
+          if (states.length > 0) {
+            container.setBlockStates(block.id, states)
+          }
         }
       }
     }
@@ -349,6 +494,11 @@ export class SimulationStateIntegrator {
             }
           }
         }
+      } else {
+        const states = stateContainer.getBlockStates(block.id)
+        if (states) {
+          blockState.internalState.states = [...states]
+        }
       }
     }
   }
@@ -365,10 +515,11 @@ export class SimulationStateIntegrator {
   }
   
   /**
-   * Get all stateful blocks in a sheet
+   * Get all continuous stateful blocks in a sheet.
+   * Discrete blocks are updated separately on their sample hits.
    */
   private getStatefulBlocks(sheet: Sheet): BlockData[] {
-    return sheet.blocks.filter(block => this.hasState(block))
+    return sheet.blocks.filter(block => this.hasState(block) && !BlockModuleFactory.hasDiscreteStates(block))
   }
   
   /**
@@ -530,6 +681,252 @@ export class SimulationStateIntegrator {
     return derivatives
   }
   
+  /**
+   * Adaptive Dormand–Prince RK45 integration to the end of one time step.
+   * Steps are as long as the error tolerances allow and may reach past the
+   * end of the time step; the states at the end of the time step are then
+   * interpolated from the step that covers it, and later time steps inside
+   * the same step are interpolated without stepping again. Sheets whose
+   * continuous blocks can see inputs change at each time step (discrete
+   * states, subsystems, ports and sheet labels) end every step on the time
+   * step grid instead, with block inputs held at their start-of-step values
+   * as for RK4.
+   */
+  private integrateRK45(
+    inputs: IntegrationInputs,
+    statefulBlocks: BlockData[],
+    stateContainer: StateContainer
+  ): void {
+    const { blockStates, simulationState, sheet, timeStep } = inputs
+    const relativeTolerance = this.adaptiveOptions.relativeTolerance ?? 1e-3
+    const absoluteTolerance = this.adaptiveOptions.absoluteTolerance ?? 1e-6
+    const maxStep = this.adaptiveOptions.maxStep ?? Math.max(simulationState.duration / 50, timeStep)
+    const minStep = Math.min(this.adaptiveOptions.minStep ?? timeStep * 1e-6, maxStep)
+    const startTime = simulationState.time
+    const targetTime = startTime + timeStep
+    const timeTolerance = timeStep * 1e-9
+    const spansTimeSteps = !sheet.blocks.some(block =>
+      BlockModuleFactory.hasDiscreteStates(block) || GRID_INPUT_BLOCK_TYPES.includes(block.type)
+    )
+    const stepLimit = spansTimeSteps ? Math.max(simulationState.duration, targetTime) : targetTime
+    const originalStates = stateContainer.clone()
+    
+    // Carry on from the last step unless the states have changed since its
+    // output (limits, resets, disabled blocks or a restarted run)
+    let step = this.lastStep
+    if (!step || !this.lastOutput || Math.abs(this.lastOutput.time - startTime) > timeTolerance ||
+        !this.hasSameStates(this.lastOutput.states, stateContainer)) {
+      // k1 at the start of the step uses the outputs already computed for it
+      const k1 = this.computeAllDerivativesWithValidation(statefulBlocks, blockStates, sheet, startTime)
+      if (!k1) {
+        console.error('RK45 failed at k1 computation')
+        return
+      }
+      step = {
+        startTime,
+        endTime: startTime,
+        startStates: originalStates,
+        endStates: originalStates,
+        startDerivatives: k1,
+        endDerivatives: k1
+      }
+    }
+    
+    let h = Math.min(Math.max(this.proposedStep ?? Math.min(timeStep, maxStep), minStep), maxStep)
+    
+    while (targetTime - step.endTime > timeTolerance) {
+      const stepSize = Math.min(h, stepLimit - step.endTime)
+      const time: number = step.endTime
+      
+      // Stages k2..k7, each evaluated at the combination of earlier stages
+      const stages: Map<string, number[]>[] = [step.endDerivatives]
+      let candidate: StateContainer = step.endStates
+      for (let i = 0; i < DORMAND_PRINCE_A.length; i++) {
+        candidate = this.combineStates(step.endStates, stages, DORMAND_PRINCE_A[i], stepSize)
+        const stageTime = time + DORMAND_PRINCE_C[i] * stepSize
+        const k = this.evaluateStage(inputs, statefulBlocks, candidate, stageTime, spansTimeSteps)
+        if (!k) {
+          console.error(`RK45 failed at k${i + 2} computation`)
+          this.updateBlockStatesFromContainer(statefulBlocks, blockStates, originalStates)
+          this.lastStep = undefined
+          return
+        }
+        stages.push(k)
+      }
+      
+      const error = this.computeErrorNorm(step.endStates, candidate, stages, stepSize, relativeTolerance, absoluteTolerance)
+      const atMinStep = stepSize <= minStep
+      
+      if (error <= 1 || atMinStep) {
+        if (error > 1) {
+          console.warn(`RK45 error tolerance not met at minimum step ${minStep} (t = ${time})`)
+        }
+        step = {
+          startTime: time,
+          endTime: time + stepSize,
+          startStates: step.endStates,
+          endStates: candidate,
+          startDerivatives: step.endDerivatives,
+          endDerivatives: stages[stages.length - 1] // FSAL: k7 is the derivative at the new state
+        }
+        this.stepStatistics.acceptedSteps++
+        this.stepStatistics.smallestStep = Math.min(this.stepStatistics.smallestStep, stepSize)
+        this.stepStatistics.largestStep = Math.max(this.stepStatistics.largestStep, stepSize)
+      } else {
+        this.stepStatistics.rejectedSteps++
+      }
+      
+      // Standard step size controller for a 5th-order method, with safety factor
+      const factor = error === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(error, -1 / 5)))
+      // A step shortened to reach the step limit says nothing about the next one
+      if (stepSize === h || error > 1) {
+        h = Math.min(Math.max(stepSize * factor, minStep), maxStep)
+      }
+    }
+    
+    const states = step.endTime - targetTime <= timeTolerance
+      ? step.endStates
+      : this.interpolateStates(step, targetTime)
+    this.proposedStep = h
+    this.lastStep = step
+    this.lastOutput = { time: targetTime, states }
+    for (const [blockId, values] of states.getAllStates()) {
+      stateContainer.setBlockStates(blockId, values)
+    }
+  }
+  
+  /**
+   * Cubic Hermite interpolation of the states inside an accepted RK45 step,
+   * from the states and derivatives at both of its ends
+   */
+  private interpolateStates(step: AdaptiveStep, time: number): StateContainer {
+    const h = step.endTime - step.startTime
+    const s = (time - step.startTime) / h
+    const h00 = (1 + 2 * s) * (1 - s) * (1 - s)
+    const h10 = s * (1 - s) * (1 - s)
+    const h01 = s * s * (3 - 2 * s)
+    const h11 = s * s * (s - 1)
+    const result = new SimpleStateContainer()
+    
+    for (const [blockId, startStates] of step.startStates.getAllStates()) {
+      const endStates = step.endStates.getBlockStates(blockId) || startStates
+      const startDerivatives = step.startDerivatives.get(blockId) || []
+      const endDerivatives = step.endDerivatives.get(blockId) || []
+      result.setBlockStates(blockId, startStates.map((start, i) =>
+        h00 * start + h10 * h * (startDerivatives[i] || 0) +
+        h01 * endStates[i] + h11 * h * (endDerivatives[i] || 0)
+      ))
+    }
+    
+    return result
+  }
+  
+  /**
+   * Check whether two containers hold exactly the same states
+   */
+  private hasSameStates(a: StateContainer, b: StateContainer): boolean {
+    const statesA = a.getAllStates()
+    const statesB = b.getAllStates()
+    if (statesA.size !== statesB.size) {
+      return false
+    }
+    for (const [blockId, states] of statesA) {
+      const other = statesB.get(blockId)
+      if (!other || other.length !== states.length || states.some((state, i) => state !== other[i])) {
+        return false
+      }
+    }
+    return true
+  }
+  
+  /**
+   * Evaluate the derivatives at an intermediate state, re-evaluating the
+   * algebraic outputs that feed the stateful blocks first
+   */
+  private evaluateStage(
+    inputs: IntegrationInputs,
+    statefulBlocks: BlockData[],
+    stageStates: StateContainer,
+    time: number,
+    atStageTime: boolean = false
+  ): Map<string, number[]> | null {
+    const { blockStates, simulationState, sheet } = inputs
+    
+    this.updateBlockStatesFromContainer(statefulBlocks, blockStates, stageStates)
+    
+    if (this.algebraicEvaluator) {
+      const algebraicResult = this.algebraicEvaluator.evaluateWithStates(
+        {
+          blockStates,
+          // Sources follow the stage time when steps may span time steps
+          simulationState: atStageTime ? { ...simulationState, time } : simulationState,
+          sheet
+        },
+        stageStates
+      )
+      
+      for (const [blockId, outputs] of algebraicResult.blockOutputs) {
+        const blockState = blockStates.get(blockId)
+        if (blockState) {
+          blockState.outputs = outputs
+        }
+      }
+    }
+    
+    return this.computeAllDerivativesWithValidation(statefulBlocks, blockStates, sheet, time)
+  }
+  
+  /**
+   * Compute base + h * sum(weights[j] * stages[j]) for every block state
+   */
+  private combineStates(
+    base: StateContainer,
+    stages: Map<string, number[]>[],
+    weights: number[],
+    h: number
+  ): StateContainer {
+    const result = new SimpleStateContainer()
+    
+    for (const [blockId, states] of base.getAllStates()) {
+      result.setBlockStates(blockId, states.map((state, i) =>
+        weights.reduce((sum, weight, j) => sum + h * weight * (stages[j].get(blockId)?.[i] || 0), state)
+      ))
+    }
+    
+    return result
+  }
+  
+  /**
+   * RMS of the local error estimate, scaled by the tolerances.
+   * Values up to 1 meet the tolerances.
+   */
+  private computeErrorNorm(
+    previous: StateContainer,
+    next: StateContainer,
+    stages: Map<string, number[]>[],
+    h: number,
+    relativeTolerance: number,
+    absoluteTolerance: number
+  ): number {
+    let sumSquares = 0
+    let count = 0
+    
+    for (const [blockId, nextStates] of next.getAllStates()) {
+      const previousStates = previous.getBlockStates(blockId) || []
+      nextStates.forEach((state, i) => {
+        const error = DORMAND_PRINCE_ERROR.reduce(
+          (sum, weight, j) => sum + h * weight * (stages[j].get(blockId)?.[i] || 0),
+          0
+        )
+        const scale = absoluteTolerance + relativeTolerance * Math.max(Math.abs(previousStates[i] ?? 0), Math.abs(state))
+        sumSquares += (error / scale) ** 2
+        count++
+      })
+    }
+    
+    return count > 0 ? Math.sqrt(sumSquares / count) : 0
+  }
+  
   /**
    * Updated integrateRK4 with validation
    */
@@ -0,0 +1,151 @@
+// lib/simulation/SimulationWorkerClient.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { Sheet, SimulationConfig, SimulationResults } from '../simulationEngine'
+import { BatchSimulationResults, BatchSimulationSpec } from './batchSimulation'
+import { InteractiveSimulationStatus } from './InteractiveSimulation'
+import {
+  SheetRunOutputs,
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+  decodeResults
+} from './simulationWorkerProtocol'
+
+/**
+ * The parts of a Worker the client uses, so tests can connect it to the
+ * handler in-process
+ */
+export interface SimulationWorkerLike {
+  postMessage(message: SimulationWorkerRequest): void
+  onmessage: ((event: MessageEvent<SimulationWorkerResponse>) => void) | null
+  terminate(): void
+}
+
+export interface SimulationWorkerCallbacks {
+  /** Everything received so far, by sheet */
+  onResults?: (results: Map<string, SimulationResults>) => void
+  onStatusChange?: (status: InteractiveSimulationStatus) => void
+  onProgress?: (time: number, duration: number) => void
+  onComplete?: (outputs: SheetRunOutputs[]) => void
+  onError?: (message: string) => void
+  onBatchProgress?: (completed: number, total: number) => void
+  onBatchComplete?: (results: BatchSimulationResults) => void
+}
+
+/**
+ * Editor side of the simulation worker. Sends run controls and puts the
+ * streamed samples back together into SimulationResults.
+ */
+export class SimulationWorkerClient {
+  private worker: SimulationWorkerLike
+  private callbacks: SimulationWorkerCallbacks
+  private results = new Map<string, SimulationResults>()
+
+  constructor(worker: SimulationWorkerLike, callbacks: SimulationWorkerCallbacks) {
+    this.worker = worker
+    this.callbacks = callbacks
+    this.worker.onmessage = (event) => this.handleMessage(event.data)
+  }
+
+  start(sheets: Sheet[], config: SimulationConfig, realTimeFactor: number): void {
+    this.results = new Map()
+    this.worker.postMessage({ type: 'start', sheets, config, realTimeFactor })
+  }
+
+  /**
+   * Run a parameter sweep or Monte Carlo batch; cancel() ends it after the
+   * current case
+   */
+  startBatch(sheets: Sheet[], config: SimulationConfig, spec: BatchSimulationSpec): void {
+    this.worker.postMessage({ type: 'startBatch', sheets, config, spec })
+  }
+
+  pause(): void {
+    this.worker.postMessage({ type: 'pause' })
+  }
+
+  resume(): void {
+    this.worker.postMessage({ type: 'resume' })
+  }
+
+  step(): void {
+    this.worker.postMessage({ type: 'step' })
+  }
+
+  cancel(): void {
+    this.worker.postMessage({ type: 'cancel' })
+  }
+
+  setRealTimeFactor(factor: number): void {
+    this.worker.postMessage({ type: 'setRealTimeFactor', factor })
+  }
+
+  updateBlockParameters(blockId: string, parameters: BlockData['parameters']): void {
+    this.worker.postMessage({ type: 'updateBlockParameters', blockId, parameters })
+  }
+
+  /**
+   * Stop the worker immediately, even in the middle of a step
+   */
+  dispose(): void {
+    this.worker.onmessage = null
+    this.worker.terminate()
+  }
+
+  private handleMessage(message: SimulationWorkerResponse): void {
+    switch (message.type) {
+      case 'status':
+        this.callbacks.onStatusChange?.(message.status)
+        break
+      case 'progress':
+        this.callbacks.onProgress?.(message.time, message.duration)
+        break
+      case 'partialResults':
+        this.appendResults(decodeResults(message.results))
+        this.callbacks.onResults?.(this.snapshot())
+        break
+      case 'complete':
+        this.results = decodeResults(message.results)
+        this.callbacks.onResults?.(this.snapshot())
+        this.callbacks.onComplete?.(message.outputs)
+        break
+      case 'error':
+        this.callbacks.onError?.(message.message)
+        break
+      case 'batchProgress':
+        this.callbacks.onBatchProgress?.(message.completed, message.total)
+        break
+      case 'batchComplete':
+        this.callbacks.onBatchComplete?.(message.results)
+        break
+    }
+  }
+
+  private appendResults(partial: Map<string, SimulationResults>): void {
+    for (const [sheetId, sheetResults] of partial) {
+      const existing = this.results.get(sheetId)
+      if (!existing) {
+        this.results.set(sheetId, sheetResults)
+        continue
+      }
+      existing.timePoints.push(...sheetResults.timePoints)
+      for (const [blockId, samples] of sheetResults.signalData) {
+        const existingSamples = existing.signalData.get(blockId)
+        if (existingSamples) {
+          existingSamples.push(...samples)
+        } else {
+          existing.signalData.set(blockId, samples)
+        }
+      }
+      existing.finalTime = sheetResults.finalTime
+    }
+  }
+
+  // New result objects each time, so the store sees a change
+  private snapshot(): Map<string, SimulationResults> {
+    return new Map(Array.from(this.results, ([sheetId, sheetResults]) => [
+      sheetId,
+      { ...sheetResults, signalData: new Map(sheetResults.signalData) }
+    ]))
+  }
+}
@@ -0,0 +1,438 @@
+// lib/simulation/batchSimulation.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { MultiSheetSimulationEngine } from '../multiSheetSimulation'
+import { Sheet, SimulationConfig } from '../simulationEngine'
+
+/** Most runs a single batch may contain */
+export const MAX_BATCH_RUNS = 1000
+
+/** Default settling band, as a fraction of the output's total change */
+export const DEFAULT_SETTLING_TOLERANCE = 0.02
+
+/**
+ * Values a batch parameter takes. Lists and ranges form the grid of a
+ * sweep; in Monte Carlo runs a random grid value is picked. Uniform and
+ * normal distributions are only available in Monte Carlo runs.
+ */
+export type BatchParameterValues =
+  | { type: 'list', values: number[] }
+  | { type: 'range', start: number, stop: number, count: number }
+  | { type: 'uniform', min: number, max: number }
+  | { type: 'normal', mean: number, standardDeviation: number }
+
+export interface BatchParameter {
+  /**
+   * Subsystem names, then the block name and parameter, for example
+   * "Controller/Kp.gain"
+   */
+  path: string
+  values: BatchParameterValues
+}
+
+export interface BatchSimulationSpec {
+  /** 'sweep' runs every combination of values, 'monteCarlo' random cases */
+  mode: 'sweep' | 'monteCarlo'
+  parameters: BatchParameter[]
+
+  /** Names of the top-level output ports to trace */
+  outputs: string[]
+
+  /** Number of Monte Carlo runs */
+  runs?: number
+
+  /** Seed of the Monte Carlo draws, so a batch can be repeated */
+  seed?: number
+
+  settlingTolerance?: number
+}
+
+/** One run of a batch: a value for every parameter path */
+export interface BatchCase {
+  index: number
+  parameters: Record<string, number>
+}
+
+export interface OutputMetrics {
+  finalValue: number
+
+  /** Peak beyond the final value, in percent of the total change */
+  maxOvershoot: number
+
+  /** Time after which the output stays within the settling band */
+  settlingTime: number
+}
+
+export interface BatchRunResult extends BatchCase {
+  timePoints: number[]
+
+  /** Output port name to its value at each time point */
+  traces: Record<string, number[]>
+  metrics: Record<string, OutputMetrics>
+
+  /** Why the run failed; failed runs are left out of the summary */
+  error?: string
+}
+
+export interface MetricStatistics {
+  min: number
+  max: number
+  mean: number
+  standardDeviation: number
+}
+
+export type OutputSummary = Record<keyof OutputMetrics, MetricStatistics>
+
+export interface BatchSimulationResults {
+  runs: BatchRunResult[]
+
+  /** Statistics of each output's metrics over the successful runs */
+  summary: Record<string, OutputSummary>
+  seed?: number
+}
+
+const METRIC_NAMES: (keyof OutputMetrics)[] = ['finalValue', 'maxOvershoot', 'settlingTime']
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function validateParameter(parameter: BatchParameter): void {
+  const { path, values } = parameter
+  if (typeof path !== 'string' || !path.includes('.')) {
+    throw new Error(`Invalid parameter path "${path}": expected "Block.parameter"`)
+  }
+  switch (values?.type) {
+    case 'list':
+      if (!Array.isArray(values.values) || values.values.length === 0 || !values.values.every(isFiniteNumber)) {
+        throw new Error(`Parameter ${path}: list needs at least one number`)
+      }
+      break
+    case 'range':
+      if (![values.start, values.stop].every(isFiniteNumber) || !Number.isInteger(values.count) || values.count < 1) {
+        throw new Error(`Parameter ${path}: range needs a start, a stop and a count of at least 1`)
+      }
+      break
+    case 'uniform':
+      if (![values.min, values.max].every(isFiniteNumber) || values.min > values.max) {
+        throw new Error(`Parameter ${path}: uniform distribution needs min <= max`)
+      }
+      break
+    case 'normal':
+      if (![values.mean, values.standardDeviation].every(isFiniteNumber) || values.standardDeviation < 0) {
+        throw new Error(`Parameter ${path}: normal distribution needs a mean and a non-negative standard deviation`)
+      }
+      break
+    default:
+      throw new Error(`Parameter ${path}: unknown value type "${(values as { type?: string })?.type}"`)
+  }
+}
+
+// Values of a list or range, or null for a random distribution
+function gridValues(values: BatchParameterValues): number[] | null {
+  switch (values.type) {
+    case 'list':
+      return values.values
+    case 'range':
+      if (values.count === 1) {
+        return [values.start]
+      }
+      return Array.from({ length: values.count }, (_, i) =>
+        values.start + (values.stop - values.start) * i / (values.count - 1))
+    default:
+      return null
+  }
+}
+
+function drawValue(values: BatchParameterValues, random: () => number): number {
+  const grid = gridValues(values)
+  if (grid) {
+    return grid[Math.min(Math.floor(random() * grid.length), grid.length - 1)]
+  }
+  if (values.type === 'uniform') {
+    return values.min + (values.max - values.min) * random()
+  }
+  if (values.type === 'normal') {
+    // Box-Muller transform
+    const u = 1 - random()
+    const v = random()
+    return values.mean + values.standardDeviation * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  }
+  throw new Error('Unknown parameter value type')
+}
+
+/**
+ * Expand a batch specification into the cases to run. Throws if the
+ * specification is invalid or has too many runs.
+ */
+export function createBatchCases(spec: BatchSimulationSpec): BatchCase[] {
+  if (!Array.isArray(spec.parameters) || spec.parameters.length === 0) {
+    throw new Error('Add at least one parameter to vary')
+  }
+  if (!Array.isArray(spec.outputs) || spec.outputs.length === 0) {
+    throw new Error('Choose at least one output port')
+  }
+  spec.parameters.forEach(validateParameter)
+
+  if (spec.mode === 'monteCarlo') {
+    const runs = spec.runs ?? 0
+    if (!Number.isInteger(runs) || runs < 1 || runs > MAX_BATCH_RUNS) {
+      throw new Error(`Monte Carlo runs must be a whole number from 1 to ${MAX_BATCH_RUNS}`)
+    }
+    const random = createRandom(spec.seed ?? 0)
+    return Array.from({ length: runs }, (_, index) => ({
+      index,
+      parameters: Object.fromEntries(spec.parameters.map(p => [p.path, drawValue(p.values, random)]))
+    }))
+  }
+
+  if (spec.mode !== 'sweep') {
+    throw new Error(`Unknown batch mode "${spec.mode}"`)
+  }
+
+  const grids = spec.parameters.map(parameter => {
+    const grid = gridValues(parameter.values)
+    if (!grid) {
+      throw new Error(`Parameter ${parameter.path}: random distributions need a Monte Carlo batch`)
+    }
+    return grid
+  })
+  const total = grids.reduce((product, grid) => product * grid.length, 1)
+  if (total > MAX_BATCH_RUNS) {
+    throw new Error(`The sweep has ${total} runs; at most ${MAX_BATCH_RUNS} are allowed`)
+  }
+
+  // Cartesian product, the last parameter varying fastest
+  const cases: BatchCase[] = []
+  for (let index = 0; index < total; index++) {
+    const parameters: Record<string, number> = {}
+    let remainder = index
+    for (let p = spec.parameters.length - 1; p >= 0; p--) {
+      parameters[spec.parameters[p].path] = grids[p][remainder % grids[p].length]
+      remainder = Math.floor(remainder / grids[p].length)
+    }
+    cases.push({ index, parameters })
+  }
+  return cases
+}
+
+/**
+ * Find the block a parameter path refers to, following subsystem names
+ * from the top-level sheets
+ */
+function resolveParameterPath(sheets: Sheet[], path: string): { block: BlockData, parameter: string } {
+  const segments = path.split('/')
+  const last = segments.pop()!
+  const dot = last.indexOf('.')
+  const blockName = last.slice(0, dot)
+  const parameter = last.slice(dot + 1)
+
+  let searchSheets = sheets
+  for (const subsystemName of segments) {
+    const subsystem = searchSheets
+      .flatMap(sheet => sheet.blocks)
+      .find(block => block.name === subsystemName && block.type === 'subsystem')
+    if (!subsystem) {
+      throw new Error(`Parameter path "${path}": no subsystem named "${subsystemName}"`)
+    }
+    searchSheets = subsystem.parameters?.sheets ?? []
+  }
+
+  const block = searchSheets.flatMap(sheet => sheet.blocks).find(b => b.name === blockName)
+  if (!block) {
+    throw new Error(`Parameter path "${path}": no block named "${blockName}"`)
+  }
+  if (block.parameters?.[parameter] === undefined) {
+    throw new Error(`Parameter path "${path}": block ${blockName} has no parameter "${parameter}"`)
+  }
+  if (typeof block.parameters[parameter] !== 'number') {
+    throw new Error(`Parameter path "${path}": ${parameter} is not a number`)
+  }
+  return { block, parameter }
+}
+
+/**
+ * Copy of the model's sheets with the case's parameter values applied
+ */
+export function applyBatchCase(sheets: Sheet[], batchCase: BatchCase): Sheet[] {
+  const copy: Sheet[] = JSON.parse(JSON.stringify(sheets))
+  for (const [path, value] of Object.entries(batchCase.parameters)) {
+    const { block, parameter } = resolveParameterPath(copy, path)
+    block.parameters![parameter] = value
+  }
+  return copy
+}
+
+/**
+ * Final value, overshoot and settling time of one output trace
+ */
+export function computeOutputMetrics(
+  timePoints: number[],
+  values: number[],
+  settlingTolerance: number = DEFAULT_SETTLING_TOLERANCE
+): OutputMetrics {
+  if (values.length === 0) {
+    return { finalValue: 0, maxOvershoot: 0, settlingTime: 0 }
+  }
+
+  const initialValue = values[0]
+  const finalValue = values[values.length - 1]
+  const change = finalValue - initialValue
+
+  let maxOvershoot = 0
+  if (change !== 0) {
+    // Reduce rather than spread: long traces exceed the engine's argument limit
+    const peak = change > 0
+      ? values.reduce((max, value) => Math.max(max, value), -Infinity)
+      : values.reduce((min, value) => Math.min(min, value), Infinity)
+    maxOvershoot = Math.max(0, (peak - finalValue) / change) * 100
+  }
+
+  const band = settlingTolerance * Math.abs(change)
+  let lastOutside = -1
+  for (let i = values.length - 1; i >= 0; i--) {
+    if (Math.abs(values[i] - finalValue) > band) {
+      lastOutside = i
+      break
+    }
+  }
+  const settlingTime = lastOutside < 0 ? timePoints[0] ?? 0 : timePoints[lastOutside + 1]
+
+  return { finalValue, maxOvershoot, settlingTime }
+}
+
+function outputNames(sheets: Sheet[]): Set<string> {
+  return new Set(sheets
+    .flatMap(sheet => sheet.blocks)
+    .filter(block => block.type === 'output_port')
+    .map(block => block.parameters?.portName ?? block.name))
+}
+
+/**
+ * Expand a batch into its cases and check that its parameter paths and
+ * output ports exist in the model. Throws if anything is wrong, before any
+ * run starts.
+ */
+export function prepareBatch(sheets: Sheet[], spec: BatchSimulationSpec): BatchCase[] {
+  const cases = createBatchCases(spec)
+  const available = outputNames(sheets)
+  const missing = spec.outputs.find(output => !available.has(output))
+  if (missing) {
+    throw new Error(`No top-level output port named "${missing}"`)
+  }
+  applyBatchCase(sheets, cases[0])
+  return cases
+}
+
+/**
+ * Simulate one case of a batch and trace the chosen output ports. A run
+ * that fails is returned with its error instead of throwing, so the rest of
+ * the batch can go on.
+ */
+export function runBatchCase(
+  sheets: Sheet[],
+  config: SimulationConfig,
+  spec: BatchSimulationSpec,
+  batchCase: BatchCase
+): BatchRunResult {
+  const result: BatchRunResult = { ...batchCase, timePoints: [], traces: {}, metrics: {} }
+  try {
+    const engine = new MultiSheetSimulationEngine(applyBatchCase(sheets, batchCase), config)
+    const traces = spec.outputs.map(() => [] as number[])
+    while (!engine.isFinished()) {
+      const time = engine.getTime()
+      engine.step()
+      const values = engine.getOutputPortValues()
+      spec.outputs.forEach((output, i) => {
+        const value = values.get(output)
+        if (Array.isArray(value)) {
+          throw new Error(`Output port ${output} is not a scalar signal`)
+        }
+        traces[i].push(Number(value ?? 0))
+      })
+      result.timePoints.push(time)
+    }
+
+    spec.outputs.forEach((output, i) => {
+      result.traces[output] = traces[i]
+      result.metrics[output] = computeOutputMetrics(result.timePoints, traces[i], spec.settlingTolerance)
+    })
+    return result
+  } catch (error) {
+    return {
+      ...result,
+      timePoints: [],
+      traces: {},
+      metrics: {},
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+function statistics(values: number[]): MetricStatistics {
+  if (values.length === 0) {
+    return { min: 0, max: 0, mean: 0, standardDeviation: 0 }
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  return {
+    min: values.reduce((min, value) => Math.min(min, value), Infinity),
+    max: values.reduce((max, value) => Math.max(max, value), -Infinity),
+    mean,
+    standardDeviation: Math.sqrt(variance)
+  }
+}
+
+/**
+ * Statistics of each output's metrics over the runs that succeeded
+ */
+export function summarizeBatch(runs: BatchRunResult[], outputs: string[]): Record<string, OutputSummary> {
+  const succeeded = runs.filter(run => !run.error)
+  const summary: Record<string, OutputSummary> = {}
+  for (const output of outputs) {
+    summary[output] = Object.fromEntries(METRIC_NAMES.map(metric => [
+      metric,
+      statistics(succeeded.map(run => run.metrics[output][metric]).filter(Number.isFinite))
+    ])) as OutputSummary
+  }
+  return summary
+}
+
+/**
+ * Package the runs of a batch, which may have been cancelled part way
+ */
+export function createBatchResults(runs: BatchRunResult[], spec: BatchSimulationSpec): BatchSimulationResults {
+  return {
+    runs,
+    summary: summarizeBatch(runs, spec.outputs),
+    seed: spec.mode === 'monteCarlo' ? spec.seed ?? 0 : undefined
+  }
+}
+
+/**
+ * Run every case of a batch one after the other. Throws if the batch is
+ * invalid for the model; individual runs that fail are reported in the
+ * results.
+ */
+export function runBatchSimulation(
+  sheets: Sheet[],
+  config: SimulationConfig,
+  spec: BatchSimulationSpec
+): BatchSimulationResults {
+  const runs = prepareBatch(sheets, spec).map(batchCase => runBatchCase(sheets, config, spec, batchCase))
+  return createBatchResults(runs, spec)
+}
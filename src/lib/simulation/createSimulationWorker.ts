@@ -0,0 +1,9 @@
+// lib/simulation/createSimulationWorker.ts
+
+/**
+ * Start a simulation worker. Kept in its own module because the bundler
+ * resolves the worker from `import.meta.url`, which tests cannot load.
+ */
+export function createSimulationWorker(): Worker {
+  return new Worker(new URL('./simulation.worker.ts', import.meta.url))
+}
@@ -0,0 +1,253 @@
+// lib/simulation/runHistory.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { Sheet, SimulationResults } from '../simulationEngine'
+import { WorkspaceVariable } from '../workspace'
+
+/** Runs the data inspector keeps unless set otherwise */
+export const DEFAULT_RUN_HISTORY_LIMIT = 10
+
+/** Most runs the data inspector can keep */
+export const MAX_RUN_HISTORY_LIMIT = 50
+
+export interface TraceTolerance {
+  absoluteTolerance: number
+  relativeTolerance: number
+}
+
+export const DEFAULT_TRACE_TOLERANCE: TraceTolerance = {
+  absoluteTolerance: 1e-6,
+  relativeTolerance: 1e-3
+}
+
+/** A display or logger block whose samples a run recorded */
+export interface LoggedSignal {
+  /** Sheet and block id, the same in every run of the model */
+  key: string
+  sheetId: string
+  blockId: string
+
+  /**
+   * Subsystem names, then the block name, for example
+   * "Controller/Scope"
+   */
+  path: string
+}
+
+/** A completed simulation run and what it was run with */
+export interface SimulationRun {
+  /** Counts up over the editing session */
+  id: number
+  startedAt: string
+  modelVersion: number
+
+  /**
+   * Block path to the parameters the run used, with workspace
+   * expressions already evaluated
+   */
+  parameters: Record<string, Record<string, unknown>>
+  workspace: WorkspaceVariable[]
+  signals: LoggedSignal[]
+  results: Map<string, SimulationResults>
+}
+
+/** A signal's samples, each flattened to its elements */
+export interface SignalTrace {
+  time: number[]
+  values: number[][]
+}
+
+export interface TraceComparison {
+  /** Reference times the candidate run covers */
+  time: number[]
+
+  /** Candidate minus reference for each element at each time */
+  difference: number[][]
+
+  /** Largest difference allowed for each element at each time */
+  band: number[][]
+  maxDifference: number
+
+  /** Where the difference first leaves the tolerance band */
+  firstViolation?: { time: number, element: number }
+  passed: boolean
+}
+
+function forEachBlock(sheets: Sheet[], visit: (block: BlockData, sheet: Sheet, path: string) => void, prefix = ''): void {
+  for (const sheet of sheets) {
+    for (const block of sheet.blocks) {
+      const path = `${prefix}${block.name}`
+      visit(block, sheet, path)
+      if (block.type === 'subsystem') {
+        forEachBlock(block.parameters?.sheets ?? [], visit, `${path}/`)
+      }
+    }
+  }
+}
+
+/**
+ * Every block's parameters by block path. Subsystem contents are listed
+ * under their own paths rather than copied with the subsystem.
+ */
+export function snapshotParameters(sheets: Sheet[]): Record<string, Record<string, unknown>> {
+  const snapshot: Record<string, Record<string, unknown>> = {}
+  forEachBlock(sheets, (block, _sheet, path) => {
+    const parameters = JSON.parse(JSON.stringify(block.parameters ?? {}))
+    delete parameters.sheets
+    snapshot[path] = parameters
+  })
+  return snapshot
+}
+
+/**
+ * The signal display and logger blocks of the model, including those
+ * inside subsystems
+ */
+export function listLoggedSignals(sheets: Sheet[]): LoggedSignal[] {
+  const signals: LoggedSignal[] = []
+  forEachBlock(sheets, (block, sheet, path) => {
+    if (block.type === 'signal_display' || block.type === 'signal_logger') {
+      signals.push({ key: `${sheet.id}/${block.id}`, sheetId: sheet.id, blockId: block.id, path })
+    }
+  })
+  return signals
+}
+
+export function createSimulationRun(
+  id: number,
+  run: { modelVersion: number, sheets: Sheet[], workspace: WorkspaceVariable[], results: Map<string, SimulationResults> }
+): SimulationRun {
+  return {
+    id,
+    startedAt: new Date().toISOString(),
+    modelVersion: run.modelVersion,
+    parameters: snapshotParameters(run.sheets),
+    workspace: JSON.parse(JSON.stringify(run.workspace)),
+    signals: listLoggedSignals(run.sheets),
+    results: run.results
+  }
+}
+
+/** Add a run, dropping the oldest runs beyond the limit */
+export function addRun(runs: SimulationRun[], run: SimulationRun, limit: number): SimulationRun[] {
+  return [...runs, run].slice(-Math.max(1, limit))
+}
+
+const formatParameter = (value: unknown) => value === undefined ? '(none)' : JSON.stringify(value)
+
+/**
+ * What changed from one run's parameters and workspace to another's, one
+ * line per block parameter or variable
+ */
+export function describeParameterChanges(before: SimulationRun, after: SimulationRun): string[] {
+  const changes: string[] = []
+
+  for (const path of Object.keys(before.parameters)) {
+    if (!(path in after.parameters)) changes.push(`Removed ${path}`)
+  }
+  for (const [path, parameters] of Object.entries(after.parameters)) {
+    const previous = before.parameters[path]
+    if (!previous) {
+      changes.push(`Added ${path}`)
+      continue
+    }
+    for (const name of new Set([...Object.keys(previous), ...Object.keys(parameters)])) {
+      const from = formatParameter(previous[name])
+      const to = formatParameter(parameters[name])
+      if (from !== to) changes.push(`${path}.${name}: ${from} → ${to}`)
+    }
+  }
+
+  const previousWorkspace = new Map(before.workspace.map(variable => [variable.name, formatParameter(variable.value)]))
+  for (const variable of after.workspace) {
+    const from = previousWorkspace.get(variable.name) ?? '(none)'
+    const to = formatParameter(variable.value)
+    if (from !== to) changes.push(`Workspace ${variable.name}: ${from} → ${to}`)
+    previousWorkspace.delete(variable.name)
+  }
+  for (const name of previousWorkspace.keys()) {
+    changes.push(`Removed workspace ${name}`)
+  }
+
+  return changes
+}
+
+const flattenSample = (sample: unknown): number[] =>
+  (Array.isArray(sample) ? sample.flat(2) : [sample]).map(value => typeof value === 'number' ? value : (value ? 1 : 0))
+
+/**
+ * The samples a run recorded for a signal, or null when the run has no
+ * such signal
+ */
+export function getSignalTrace(run: SimulationRun, signalKey: string): SignalTrace | null {
+  const signal = run.signals.find(s => s.key === signalKey)
+  const sheetResults = signal && run.results.get(signal.sheetId)
+  const samples = sheetResults?.signalData.get(signal!.blockId)
+  if (!sheetResults || !samples) return null
+
+  const count = Math.min(sheetResults.timePoints.length, samples.length)
+  return {
+    time: sheetResults.timePoints.slice(0, count),
+    values: samples.slice(0, count).map(flattenSample)
+  }
+}
+
+// Linear interpolation of one element of a trace at the given time
+function interpolate(trace: SignalTrace, element: number, time: number, start: number): { value: number, index: number } {
+  let index = start
+  while (index < trace.time.length - 2 && trace.time[index + 1] <= time) {
+    index++
+  }
+  const t0 = trace.time[index]
+  const t1 = trace.time[index + 1] ?? t0
+  const v0 = trace.values[index][element]
+  const v1 = trace.values[index + 1]?.[element] ?? v0
+  const value = t1 > t0 ? v0 + (time - t0) / (t1 - t0) * (v1 - v0) : v0
+  return { value, index }
+}
+
+/**
+ * Difference of a candidate trace from a reference trace at the reference
+ * times. The candidate is interpolated, so runs with different time steps
+ * can be compared. An element passes while
+ * |difference| <= absoluteTolerance + relativeTolerance * |reference|.
+ */
+export function compareTraces(reference: SignalTrace, candidate: SignalTrace, tolerance: TraceTolerance): TraceComparison {
+  const width = reference.values[0]?.length ?? 0
+  const candidateWidth = candidate.values[0]?.length ?? 0
+  if (reference.values.length > 0 && candidate.values.length > 0 && width !== candidateWidth) {
+    throw new Error(`Cannot compare signals of different widths (${width} and ${candidateWidth})`)
+  }
+
+  const comparison: TraceComparison = { time: [], difference: [], band: [], maxDifference: 0, passed: true }
+  if (candidate.time.length === 0) return comparison
+
+  const lastTime = candidate.time[candidate.time.length - 1]
+  let searchStart = 0
+  reference.time.forEach((time, sample) => {
+    if (time < candidate.time[0] || time > lastTime) return
+
+    const difference: number[] = []
+    const band: number[] = []
+    for (let element = 0; element < width; element++) {
+      const { value, index } = interpolate(candidate, element, time, searchStart)
+      searchStart = index
+      const referenceValue = reference.values[sample][element]
+      const allowed = tolerance.absoluteTolerance + tolerance.relativeTolerance * Math.abs(referenceValue)
+      const delta = value - referenceValue
+      difference.push(delta)
+      band.push(allowed)
+
+      comparison.maxDifference = Math.max(comparison.maxDifference, Math.abs(delta))
+      if (comparison.passed && !(Math.abs(delta) <= allowed)) {
+        comparison.passed = false
+        comparison.firstViolation = { time, element }
+      }
+    }
+    comparison.time.push(time)
+    comparison.difference.push(difference)
+    comparison.band.push(band)
+  })
+
+  return comparison
+}
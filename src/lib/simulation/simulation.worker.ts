@@ -0,0 +1,11 @@
+// lib/simulation/simulation.worker.ts - Entry point of the simulation Web Worker
+
+import { createSimulationWorkerHandler } from './simulationWorkerHandler'
+import { SimulationWorkerRequest } from './simulationWorkerProtocol'
+
+// The worker scope's postMessage has the same shape as a Worker's
+const scope = self as unknown as Worker
+
+const handle = createSimulationWorkerHandler((message, transfer) => scope.postMessage(message, transfer ?? []))
+
+scope.onmessage = (event: MessageEvent<SimulationWorkerRequest>) => handle(event.data)
@@ -0,0 +1,151 @@
+// lib/simulation/simulationWorkerHandler.ts
+
+import { MultiSheetSimulationEngine } from '../multiSheetSimulation'
+import { BatchRunResult, createBatchResults, prepareBatch, runBatchCase } from './batchSimulation'
+import { InteractiveSimulation } from './InteractiveSimulation'
+import {
+  SheetRunOutputs,
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+  encodeResults,
+  getTransferables
+} from './simulationWorkerProtocol'
+
+export type PostSimulationMessage = (message: SimulationWorkerResponse, transfer?: Transferable[]) => void
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function collectOutputs(engine: MultiSheetSimulationEngine, sheetIds: string[]): SheetRunOutputs[] {
+  return sheetIds.map(sheetId => ({
+    sheetId,
+    outputPortValues: Array.from(engine.getOutputPortValues(sheetId)),
+    loggedDataCsv: engine.getSheetEngine(sheetId)?.exportAllLoggedDataAsCSV() ?? ''
+  }))
+}
+
+/**
+ * The simulation worker's message handling, kept apart from the worker
+ * entry point so it can run in-process. Runs an InteractiveSimulation and
+ * posts its progress, new samples since the last message, and the final
+ * results when the run finishes or is cancelled. Batches run one case per
+ * task, so a cancel in between is seen.
+ */
+export function createSimulationWorkerHandler(post: PostSimulationMessage): (request: SimulationWorkerRequest) => void {
+  let simulation: InteractiveSimulation | null = null
+  let batch: { cancelled: boolean } | null = null
+
+  // A run replaced by a new one reports nothing more
+  const replaceRun = () => {
+    const previous = simulation
+    simulation = null
+    previous?.stop()
+    batch = null
+  }
+
+  const start = (request: Extract<SimulationWorkerRequest, { type: 'start' }>) => {
+    replaceRun()
+
+    let engine: MultiSheetSimulationEngine
+    try {
+      engine = new MultiSheetSimulationEngine(request.sheets, request.config)
+    } catch (error) {
+      post({ type: 'error', message: errorMessage(error) })
+      post({ type: 'status', status: 'stopped' })
+      return
+    }
+
+    const current: InteractiveSimulation = new InteractiveSimulation(engine, {
+      realTimeFactor: request.realTimeFactor,
+      incrementalUpdates: true,
+      onUpdate: (results, time) => {
+        if (simulation !== current) return
+        const encoded = encodeResults(results)
+        post({ type: 'partialResults', results: encoded }, getTransferables(encoded))
+        post({ type: 'progress', time, duration: request.config.duration })
+      },
+      onStatusChange: (status) => {
+        if (simulation !== current) return
+        post({ type: 'status', status })
+        if (status === 'finished' || status === 'stopped') {
+          const results = engine.getResults()
+          const encoded = encodeResults(results)
+          post(
+            { type: 'complete', results: encoded, outputs: collectOutputs(engine, Array.from(results.keys())) },
+            getTransferables(encoded)
+          )
+        }
+      },
+      onError: (error) => {
+        if (simulation !== current) return
+        console.error('Simulation error:', error)
+        post({ type: 'error', message: errorMessage(error) })
+      }
+    })
+    simulation = current
+    current.start()
+  }
+
+  const startBatch = (request: Extract<SimulationWorkerRequest, { type: 'startBatch' }>) => {
+    replaceRun()
+
+    let cases: ReturnType<typeof prepareBatch>
+    try {
+      cases = prepareBatch(request.sheets, request.spec)
+    } catch (error) {
+      post({ type: 'error', message: errorMessage(error) })
+      return
+    }
+
+    const current = { cancelled: false }
+    const runs: BatchRunResult[] = []
+    const runNext = () => {
+      if (batch !== current) return
+      if (!current.cancelled) {
+        runs.push(runBatchCase(request.sheets, request.config, request.spec, cases[runs.length]))
+        post({ type: 'batchProgress', completed: runs.length, total: cases.length })
+      }
+      if (current.cancelled || runs.length === cases.length) {
+        batch = null
+        post({ type: 'batchComplete', results: createBatchResults(runs, request.spec) })
+        return
+      }
+      setTimeout(runNext, 0)
+    }
+    batch = current
+    setTimeout(runNext, 0)
+  }
+
+  return (request) => {
+    switch (request.type) {
+      case 'start':
+        start(request)
+        break
+      case 'pause':
+        simulation?.pause()
+        break
+      case 'resume':
+        simulation?.start()
+        break
+      case 'step':
+        simulation?.step()
+        break
+      case 'cancel':
+        simulation?.stop()
+        if (batch) {
+          batch.cancelled = true
+        }
+        break
+      case 'setRealTimeFactor':
+        simulation?.setRealTimeFactor(request.factor)
+        break
+      case 'updateBlockParameters':
+        simulation?.updateBlockParameters(request.blockId, request.parameters)
+        break
+      case 'startBatch':
+        startBatch(request)
+        break
+    }
+  }
+}
@@ -0,0 +1,154 @@
+// lib/simulation/simulationWorkerProtocol.ts
+
+import { BlockData } from '@/components/BlockNode'
+import { SignalValue } from '../modelSchema'
+import { Sheet, SimulationConfig, SimulationResults } from '../simulationEngine'
+import { BatchSimulationResults, BatchSimulationSpec } from './batchSimulation'
+import { InteractiveSimulationStatus } from './InteractiveSimulation'
+
+/**
+ * One display or logger signal, packed into a typed array so it can be
+ * transferred between threads without copying
+ */
+export interface EncodedSignal {
+  blockId: string
+
+  /** Dimensions of one sample: [] scalar, [n] vector, [rows, cols] matrix */
+  shape: number[]
+
+  /** Samples were booleans, stored as 0 and 1 */
+  isBoolean: boolean
+
+  /** All samples, flattened row-major one after the other */
+  data: Float64Array
+}
+
+/**
+ * SimulationResults of one sheet in transferable form
+ */
+export interface EncodedSheetResults {
+  sheetId: string
+  timePoints: Float64Array
+  signals: EncodedSignal[]
+  finalTime: number
+}
+
+/**
+ * Values that only exist inside the worker's engines, sent with the final
+ * results
+ */
+export interface SheetRunOutputs {
+  sheetId: string
+  outputPortValues: [string, SignalValue][]
+  loggedDataCsv: string
+}
+
+/** Messages from the editor to the simulation worker */
+export type SimulationWorkerRequest =
+  | { type: 'start', sheets: Sheet[], config: SimulationConfig, realTimeFactor: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'step' }
+  | { type: 'cancel' }
+  | { type: 'setRealTimeFactor', factor: number }
+  | { type: 'updateBlockParameters', blockId: string, parameters: BlockData['parameters'] }
+  | { type: 'startBatch', sheets: Sheet[], config: SimulationConfig, spec: BatchSimulationSpec }
+
+/** Messages from the simulation worker to the editor */
+export type SimulationWorkerResponse =
+  | { type: 'status', status: InteractiveSimulationStatus }
+  | { type: 'progress', time: number, duration: number }
+  | { type: 'partialResults', results: EncodedSheetResults[] }
+  | { type: 'complete', results: EncodedSheetResults[], outputs: SheetRunOutputs[] }
+  | { type: 'error', message: string }
+  | { type: 'batchProgress', completed: number, total: number }
+  | { type: 'batchComplete', results: BatchSimulationResults }
+
+function sampleShape(sample: SignalValue | undefined): number[] {
+  if (!Array.isArray(sample)) {
+    return []
+  }
+  const first = sample[0]
+  return Array.isArray(first) ? [sample.length, first.length] : [sample.length]
+}
+
+function isBooleanSample(sample: SignalValue | undefined): boolean {
+  const first = Array.isArray(sample) ? (Array.isArray(sample[0]) ? sample[0][0] : sample[0]) : sample
+  return typeof first === 'boolean'
+}
+
+/**
+ * Pack one sheet's results into typed arrays. Every sample of a signal is
+ * stored with the shape of its first sample.
+ */
+export function encodeSheetResults(sheetId: string, results: SimulationResults): EncodedSheetResults {
+  const signals: EncodedSignal[] = []
+  for (const [blockId, samples] of results.signalData) {
+    const shape = sampleShape(samples[0])
+    const size = shape.reduce((product, dimension) => product * dimension, 1)
+    const data = new Float64Array(samples.length * size)
+    samples.forEach((sample, index) => {
+      const flat = Array.isArray(sample) ? (sample as (number | boolean | number[])[]).flat() : [sample]
+      for (let i = 0; i < size; i++) {
+        data[index * size + i] = Number(flat[i] ?? 0)
+      }
+    })
+    signals.push({ blockId, shape, isBoolean: isBooleanSample(samples[0]), data })
+  }
+
+  return {
+    sheetId,
+    timePoints: Float64Array.from(results.timePoints),
+    signals,
+    finalTime: results.finalTime
+  }
+}
+
+export function encodeResults(results: Map<string, SimulationResults>): EncodedSheetResults[] {
+  return Array.from(results, ([sheetId, sheetResults]) => encodeSheetResults(sheetId, sheetResults))
+}
+
+/**
+ * Unpack results encoded by encodeSheetResults
+ */
+export function decodeResults(encoded: EncodedSheetResults[]): Map<string, SimulationResults> {
+  const results = new Map<string, SimulationResults>()
+  for (const sheet of encoded) {
+    const signalData = new Map<string, SignalValue[]>()
+    for (const signal of sheet.signals) {
+      const size = signal.shape.reduce((product, dimension) => product * dimension, 1)
+      const toValue = (value: number) => signal.isBoolean ? value !== 0 : value
+      // Empty vectors take no space, so count their samples by time point
+      const sampleCount = size > 0 ? signal.data.length / size : sheet.timePoints.length
+      const samples: SignalValue[] = []
+      for (let index = 0; index < sampleCount; index++) {
+        const flat = Array.from(signal.data.subarray(index * size, (index + 1) * size), toValue)
+        if (signal.shape.length === 0) {
+          samples.push(flat[0])
+        } else if (signal.shape.length === 1) {
+          samples.push(flat as number[] | boolean[])
+        } else {
+          const [rows, cols] = signal.shape
+          samples.push(Array.from({ length: rows }, (_, row) => flat.slice(row * cols, (row + 1) * cols) as number[]))
+        }
+      }
+      signalData.set(signal.blockId, samples)
+    }
+    results.set(sheet.sheetId, {
+      timePoints: Array.from(sheet.timePoints),
+      signalData,
+      finalTime: sheet.finalTime
+    })
+  }
+  return results
+}
+
+/**
+ * The buffers to hand over with postMessage instead of copying
+ */
+export function getTransferables(encoded: EncodedSheetResults[]): ArrayBuffer[] {
+  return encoded.flatMap(sheet => [
+    sheet.timePoints.buffer as ArrayBuffer,
+    ...sheet.signals.map(signal => signal.data.buffer as ArrayBuffer)
+  ])
+}
@@ -1,9 +1,16 @@
 // lib/simulationEngine.ts - Updated with enable state tracking
 import { BlockData } from '@/components/BlockNode'
 import { WireData } from '@/components/Wire'
-import { parseType, ParsedType } from '@/lib/typeValidator'
+import { parseType, ParsedType, typeToString } from '@/lib/typeValidator'
 import { BlockSimulationAdapter } from '@/lib/simulation/BlockSimulationAdapter'
-import { SignalValue } from '@/lib/modelSchema'
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '@/lib/blocks/BlockModule'
+import { MergeBlockModule } from '@/lib/blocks/MergeBlockModule'
+import { SwitchCaseBlockModule } from '@/lib/blocks/SwitchCaseBlockModule'
+import { StateChartBlockModule } from '@/lib/blocks/StateChartBlockModule'
+import { EvaluateBlockModule } from '@/lib/blocks/EvaluateBlockModule'
+import { DEFAULT_GLOBAL_SETTINGS, GlobalSettings, SignalValue } from '@/lib/modelSchema'
+import { FIXED_POINT_ARITHMETIC_BLOCK_TYPES } from '@/lib/fixedPoint'
 
 export interface Sheet {
   id: string
@@ -20,7 +27,28 @@ export interface Sheet {
 export interface SimulationConfig {
   timeStep: number
   duration: number
-  integrationMethod?: 'euler' | 'rk4'  // Add this field
+  integrationMethod?: 'euler' | 'rk4' | 'rk45'
+  // Adaptive RK45 only: error tolerances and step limits. Steps may be
+  // longer than timeStep; results are interpolated onto the timeStep grid.
+  relativeTolerance?: number
+  absoluteTolerance?: number
+  minStep?: number
+  maxStep?: number
+}
+
+/**
+ * Get the simulation configuration from a model's global settings
+ */
+export function getSimulationConfig(settings: Partial<GlobalSettings> = DEFAULT_GLOBAL_SETTINGS): SimulationConfig {
+  return {
+    timeStep: settings.simulationTimeStep || DEFAULT_GLOBAL_SETTINGS.simulationTimeStep,
+    duration: settings.simulationDuration || DEFAULT_GLOBAL_SETTINGS.simulationDuration,
+    integrationMethod: settings.integrationMethod,
+    relativeTolerance: settings.relativeTolerance,
+    absoluteTolerance: settings.absoluteTolerance,
+    minStep: settings.minStep,
+    maxStep: settings.maxStep
+  }
 }
 
 
@@ -45,6 +73,8 @@ export interface BlockState {
   outputTypes?: ParsedType[]
   frozenOutputs?: (SignalValue)[]
   lastEnabledTime?: number
+  /** Subsystems: whether the outputs were written by a running subsystem in the last step */
+  outputsUpdated?: boolean
   blockData?: BlockData 
 }
 
@@ -53,12 +83,40 @@ export interface SimulationConfig {
   duration: number
 }
 
+/**
+ * A wire that connects blocks running at different sample rates
+ */
+export interface RateTransition {
+  wireId: string
+  sourceBlockId: string
+  targetBlockId: string
+  sourceSampleTime: number
+  targetSampleTime: number
+  direction: 'fast_to_slow' | 'slow_to_fast'
+}
+
 export interface SimulationResults {
   timePoints: number[]
   signalData: Map<string, (number | number[] | boolean | boolean[] | number[][])[]>
   finalTime: number
 }
 
+/**
+ * Block types whose simulation state is made only of their parameters, so
+ * the parameters can be changed while a simulation runs without losing
+ * any dynamic state
+ */
+export const TUNABLE_BLOCK_TYPES = [
+  'scale',
+  'source',
+  'lookup_1d',
+  'lookup_2d',
+  'saturation',
+  'dead_zone',
+  'quantizer',
+  'data_type_conversion'
+]
+
 export class SimulationEngine {
   private blocks: BlockData[]
   private wires: WireData[]
@@ -67,6 +125,8 @@ export class SimulationEngine {
   private getExternalInput?: (portName: string) => number | number[] | boolean | boolean[] | number[][] | undefined
   private allSheets: Sheet[] = [] // Store all sheets for subsystem simulation
   private subsystemEngines: Map<string, SimulationEngine> = new Map() // Cache for subsystem engines
+  private blockSampleTimes: Map<string, number> = new Map() // blockId -> effective sample time
+  private rateTransitions: RateTransition[] = []
 
   constructor(blocks: BlockData[], wires: WireData[], config: SimulationConfig, externalInputs?: (portName: string) => number | number[] | boolean | boolean[] | number[][] | undefined, allSheets?: Sheet[]) {
     this.blocks = blocks
@@ -89,6 +149,7 @@ export class SimulationEngine {
     this.initializeBlocks()
     this.initializeEnableStates()
     this.calculateExecutionOrder()
+    this.propagateOutputTypes()
     this.computeInitialOutputs() // Add this line
   }
 
@@ -283,6 +344,9 @@ export class SimulationEngine {
       this.executeBlock(blockId)
     }
 
+    // Latch discrete states once all outputs for this step are known
+    this.updateDiscreteStates()
+
     // Update subsystem enable states at end of time step
     this.updateSubsystemEnableStates()
 
@@ -290,6 +354,23 @@ export class SimulationEngine {
     return true
   }
 
+  /**
+   * Update the discrete states of enabled blocks on their sample hits
+   */
+  public updateDiscreteStates(): void {
+    for (const blockId of this.executionOrder) {
+      const block = this.blocks.find(b => b.id === blockId)
+      const blockState = this.state.blockStates.get(blockId)
+      if (!block || !blockState || !BlockModuleFactory.hasDiscreteStates(block)) continue
+
+      const containingSubsystem = this.getContainingSubsystem(blockId)
+      if (containingSubsystem && !this.isSubsystemEnabled(containingSubsystem)) continue
+
+      const inputs = this.getBlockInputs(blockId)
+      BlockSimulationAdapter.updateDiscreteStates(block, blockState, inputs, this.state)
+    }
+  }
+
   private getBlockOutputTypes(block: BlockData): ParsedType[] {
     // For blocks with explicit data types
     if (block.type === 'source' || block.type === 'input_port') {
@@ -306,6 +387,50 @@ export class SimulationEngine {
     return []
   }
 
+  /**
+   * Propagate output types from ports and sources to the blocks that model
+   * fixed-point arithmetic, so they saturate and round like generated code.
+   * Repeats until stable so types also reach around unit delay feedback loops.
+   */
+  private propagateOutputTypes() {
+    const types = new Map<string, string>()
+    for (const block of this.blocks) {
+      const outputType = this.state.blockStates.get(block.id)?.outputTypes?.[0]
+      if (outputType) {
+        types.set(block.id, typeToString(outputType))
+      }
+    }
+
+    let changed = true
+    for (let pass = 0; changed && pass <= this.blocks.length; pass++) {
+      changed = false
+      for (const blockId of this.executionOrder) {
+        const block = this.blocks.find(b => b.id === blockId)
+        const blockState = this.state.blockStates.get(blockId)
+        if (!block || !blockState || !FIXED_POINT_ARITHMETIC_BLOCK_TYPES.includes(block.type)) continue
+
+        // Inputs whose type is not known yet are left out
+        const inputTypes = this.wires
+          .filter(wire => wire.targetBlockId === blockId && wire.targetPortIndex >= 0)
+          .sort((a, b) => a.targetPortIndex - b.targetPortIndex)
+          .map(wire => types.get(wire.sourceBlockId))
+          .filter((type): type is string => type !== undefined)
+        if (inputTypes.length === 0) continue
+
+        try {
+          const outputType = BlockModuleFactory.getBlockModule(block.type).getOutputType(block, inputTypes)
+          if (types.get(blockId) !== outputType) {
+            blockState.outputTypes = [parseType(outputType)]
+            types.set(blockId, outputType)
+            changed = true
+          }
+        } catch {
+          // Leave the block computing in floating point
+        }
+      }
+    }
+  }
+
   private getInitialOutputs(blockType: string, parameters?: Record<string, any>): (number | number[] | boolean | boolean[] | number[][])[] {
     // For source blocks, check if they output vectors
     if (blockType === 'source' || blockType === 'input_port') {
@@ -330,15 +455,44 @@ export class SimulationEngine {
       case 'multiply':
       case 'scale':
       case 'transfer_function':
+      case 'unit_delay':
+      case 'zero_order_hold':
+      case 'discrete_transfer_function':
+      case 'discrete_integrator':
+      case 'integrator':
+      case 'derivative':
+      case 'pid':
+      case 'saturation':
+      case 'rate_limiter':
+      case 'dead_zone':
+      case 'quantizer':
+      case 'data_type_conversion':
       case 'lookup_1d':
       case 'lookup_2d':
       case 'matrix_multiply':
       case 'mux':
+      case 'multiport_switch':
         return [0] // Single output, actual type determined by inputs
+      case 'merge':
+        // Holds its initial output until an input is updated
+        return [MergeBlockModule.getInitialOutput(parameters || {})]
       case 'demux':
         // Demux has dynamic outputs based on input
         const outputCount = parameters?.outputCount || 1
         return new Array(outputCount).fill(0)
+      case 'switch_case':
+        return new Array(SwitchCaseBlockModule.getOutputCount(parameters || {})).fill(false)
+      case 'evaluate':
+        return new Array(EvaluateBlockModule.getOutputCount(parameters || {})).fill(0)
+      case 'relational_operator':
+      case 'logical_operator':
+        return [false]
+      case 'bitwise_operator':
+        return [0]
+      case 'state_chart':
+        // Outputs hold their initial values until the chart first runs
+        return StateChartBlockModule.getDefinition(parameters || {}).outputs
+          .map(output => Number(output.initialValue) || 0)
       case 'input_port':
       case 'source':
         return [0] // Single output
@@ -382,7 +536,8 @@ export class SimulationEngine {
           f0: parameters?.f0 || 0.1,
           f1: parameters?.f1 || 10,
           duration: parameters?.duration || 10,
-          mean: parameters?.mean || 0
+          mean: parameters?.mean || 0,
+          seed: parameters?.seed || 0
         }
       case 'input_port':
         return {
@@ -403,7 +558,9 @@ export class SimulationEngine {
       case 'evaluate':
         return {
           numInputs: parameters?.numInputs || 2,
-          expression: parameters?.expression || 'in(0) + in(1)'
+          numOutputs: parameters?.numOutputs || 1,
+          expression: parameters?.expression || 'in(0) + in(1)',
+          workspaceVariables: parameters?.workspaceVariables || {}
         }
       case 'transfer_function':
         const numerator = parameters?.numerator || [1]
@@ -420,6 +577,92 @@ export class SimulationEngine {
           prevInput: 0,
           prevOutput: 0
         }
+      case 'unit_delay':
+        return {
+          initialCondition: parameters?.initialCondition || 0,
+          sampleTime: parameters?.sampleTime || -1,
+          state: []
+        }
+      case 'zero_order_hold':
+        return {
+          sampleTime: parameters?.sampleTime || -1,
+          held: []
+        }
+      case 'discrete_transfer_function':
+        return {
+          numerator: parameters?.numerator || [1],
+          denominator: parameters?.denominator || [1, -0.5],
+          sampleTime: parameters?.sampleTime || -1,
+          // One DF2T state vector per signal element, sized on first update
+          elementStates: []
+        }
+      case 'discrete_integrator':
+        return {
+          gain: parameters?.gain ?? 1,
+          initialCondition: parameters?.initialCondition || 0,
+          upperLimit: parameters?.upperLimit,
+          lowerLimit: parameters?.lowerLimit,
+          sampleTime: parameters?.sampleTime || -1,
+          state: []
+        }
+      case 'integrator':
+        return {
+          initialCondition: parameters?.initialCondition || 0,
+          upperLimit: parameters?.upperLimit,
+          lowerLimit: parameters?.lowerLimit,
+          showResetInput: parameters?.showResetInput || false,
+          // One state per signal element, sized when the input is known
+          states: []
+        }
+      case 'derivative':
+        return {
+          filterCoefficient: parameters?.filterCoefficient || 100,
+          states: []
+        }
+      case 'pid':
+        return {
+          form: parameters?.form || 'parallel',
+          kp: parameters?.kp ?? 1,
+          ki: parameters?.ki ?? 0,
+          kd: parameters?.kd ?? 0,
+          filterCoefficient: parameters?.filterCoefficient || 100,
+          upperLimit: parameters?.upperLimit,
+          lowerLimit: parameters?.lowerLimit,
+          antiWindup: parameters?.antiWindup || 'clamping',
+          backCalculationGain: parameters?.backCalculationGain ?? 1,
+          initialCondition: parameters?.initialCondition || 0,
+          showResetInput: parameters?.showResetInput || false,
+          // Integral and filter state per signal element, sized when the input is known
+          states: []
+        }
+      case 'saturation':
+        return {
+          upperLimit: parameters?.upperLimit ?? 1,
+          lowerLimit: parameters?.lowerLimit ?? -1
+        }
+      case 'rate_limiter':
+        return {
+          risingSlewRate: parameters?.risingSlewRate ?? 1,
+          fallingSlewRate: parameters?.fallingSlewRate ?? -1,
+          initialCondition: parameters?.initialCondition || 0,
+          sampleTime: parameters?.sampleTime || -1,
+          state: []
+        }
+      case 'dead_zone':
+        return {
+          start: parameters?.start ?? -0.5,
+          end: parameters?.end ?? 0.5
+        }
+      case 'quantizer':
+        return {
+          interval: parameters?.interval || 0.5
+        }
+      case 'data_type_conversion':
+        return {
+          outputDataType: parameters?.outputDataType || 'int16',
+          rounding: parameters?.rounding || 'floor',
+          saturateOnOverflow: parameters?.saturateOnOverflow ?? true
+        }
       case 'lookup_1d':
         return {
           inputValues: parameters?.inputValues || [0, 1],
@@ -436,7 +679,8 @@ export class SimulationEngine {
       case 'signal_display':
         return {
           samples: [],
-          maxSamples: parameters?.maxSamples || 1000
+          maxSamples: parameters?.maxSamples || 1000,
+          displayMode: parameters?.displayMode || 'time'
         }
       case 'signal_logger':
         return {
@@ -476,6 +720,42 @@ export class SimulationEngine {
         return {
           condition: parameters?.condition || '> 0'
         }
+      case 'multiport_switch':
+        return {
+          numInputs: parameters?.numInputs || 3,
+          indexBase: parameters?.indexBase || 'one'
+        }
+      case 'switch_case':
+        return {
+          cases: parameters?.cases || [1, 2],
+          showDefaultCase: parameters?.showDefaultCase ?? true
+        }
+      case 'merge':
+        return {
+          numInputs: parameters?.numInputs || 2,
+          initialOutput: parameters?.initialOutput || 0
+        }
+      case 'relational_operator':
+        return {
+          operator: parameters?.operator || '<='
+        }
+      case 'logical_operator':
+        return {
+          operator: parameters?.operator || 'AND',
+          numInputs: parameters?.numInputs || 2
+        }
+      case 'bitwise_operator':
+        return {
+          operator: parameters?.operator || 'AND',
+          numInputs: parameters?.numInputs || 2,
+          useBitMask: parameters?.useBitMask ?? false,
+          bitMask: parameters?.bitMask ?? ''
+        }
+      case 'state_chart':
+        return {
+          ...StateChartBlockModule.getDefinition(parameters || {}),
+          activeState: -1 // No state is active until the chart first runs
+        }
       default:
         return {}
     }
@@ -489,7 +769,8 @@ export class SimulationEngine {
 
     const visit = (blockId: string) => {
       if (visiting.has(blockId)) {
-        // Potential cycle - for now, just continue
+        // Cycle: either broken by a block with state, or an algebraic loop
+        // that findAlgebraicLoops reports before simulation
         return
       }
       if (visited.has(blockId)) {
@@ -501,6 +782,10 @@ export class SimulationEngine {
       // Find all blocks that depend on this block's output
       const dependentWires = this.wires.filter(wire => wire.sourceBlockId === blockId)
       for (const wire of dependentWires) {
+        // Discrete blocks without feedthrough only read their inputs when
+        // updating states, so they do not need to run after their sources
+        const target = this.blocks.find(b => b.id === wire.targetBlockId)
+        if (target && BlockModuleFactory.breaksAlgebraicDependency(target)) continue
         visit(wire.targetBlockId)
       }
 
@@ -524,6 +809,7 @@ export class SimulationEngine {
     }
 
     this.executionOrder = order
+    this.detectRateTransitions()
 
     // Debug: log execution order with Sheet Label blocks highlighted
     /*
@@ -538,6 +824,68 @@ export class SimulationEngine {
   }
 
 
+  /**
+   * Resolve the sample time of every block and record the wires that cross
+   * between rates. Blocks without their own sample time inherit the fastest
+   * rate driving them; sources and continuous blocks run at the base rate.
+   */
+  private detectRateTransitions() {
+    const baseRate = this.state.timeStep
+    this.blockSampleTimes.clear()
+
+    for (const blockId of this.executionOrder) {
+      const block = this.blocks.find(b => b.id === blockId)
+      if (!block) continue
+
+      let sampleTime = BlockModuleUtils.getSampleTime(block)
+      if (sampleTime <= 0) {
+        const inheritsRate = !BlockModuleFactory.isSupported(block.type) ||
+          !BlockModuleFactory.getBlockModule(block.type).requiresState(block)
+        const inputRates = inheritsRate
+          ? this.wires
+              .filter(wire => wire.targetBlockId === blockId && this.blockSampleTimes.has(wire.sourceBlockId))
+              .map(wire => this.blockSampleTimes.get(wire.sourceBlockId)!)
+          : []
+        sampleTime = inputRates.length > 0 ? Math.min(...inputRates) : baseRate
+      }
+      this.blockSampleTimes.set(blockId, sampleTime)
+    }
+
+    this.rateTransitions = []
+    for (const wire of this.wires) {
+      // Enable wires are sampled every step and never cross rates
+      if (wire.targetPortIndex < 0) continue
+
+      const sourceSampleTime = this.blockSampleTimes.get(wire.sourceBlockId)
+      const targetSampleTime = this.blockSampleTimes.get(wire.targetBlockId)
+      if (sourceSampleTime === undefined || targetSampleTime === undefined) continue
+      if (Math.abs(sourceSampleTime - targetSampleTime) <= baseRate * 1e-9) continue
+
+      this.rateTransitions.push({
+        wireId: wire.id,
+        sourceBlockId: wire.sourceBlockId,
+        targetBlockId: wire.targetBlockId,
+        sourceSampleTime,
+        targetSampleTime,
+        direction: sourceSampleTime < targetSampleTime ? 'fast_to_slow' : 'slow_to_fast'
+      })
+    }
+  }
+
+  /**
+   * Get the wires that connect blocks running at different sample rates
+   */
+  public getRateTransitions(): RateTransition[] {
+    return this.rateTransitions
+  }
+
+  /**
+   * Get the effective sample time of a block, after inheritance
+   */
+  public getBlockSampleTime(blockId: string): number {
+    return this.blockSampleTimes.get(blockId) ?? this.state.timeStep
+  }
+
   private isSourceBlock(blockType: string): boolean {
     return ['input_port', 'source'].includes(blockType)
   }
@@ -817,7 +1165,10 @@ export class SimulationEngine {
           const blockState = this.state.blockStates.get(block.id)
           if (blockState) {
             const inputs = this.getBlockInputs(block.id)
-            const value = inputs[0]
+            // XY displays record both inputs together as [x, y]
+            const value = block.type === 'signal_display' && block.parameters?.displayMode === 'xy'
+              ? [inputs[0] ?? 0, inputs[1] ?? 0] as number[] | number[][]
+              : inputs[0]
             const dataArray = signalData.get(block.id)
             if (dataArray) {
               // Store the complete value (scalar or vector)
@@ -1018,12 +1369,41 @@ export class SimulationEngine {
     return undefined
   }
 
+  /**
+   * Apply new parameters to a block while the simulation is running.
+   * Returns false if the block's type is not tunable.
+   */
+  public updateBlockParameters(blockId: string, parameters: BlockData['parameters']): boolean {
+    const blockState = this.state.blockStates.get(blockId)
+    if (!blockState || !TUNABLE_BLOCK_TYPES.includes(blockState.blockType)) {
+      return false
+    }
+    this.blocks = this.blocks.map(block => block.id === blockId ? { ...block, parameters } : block)
+    blockState.internalState = this.getInitialInternalState(blockState.blockType, parameters)
+    return true
+  }
+
   public reset() {
     this.state.time = 0
     this.state.isRunning = false
     this.initializeBlocks()
   }
 
+  /**
+   * Return some blocks to their initial outputs and states, as when a
+   * subsystem that resets its states is enabled again
+   */
+  public resetBlocks(blockIds: Set<string>): void {
+    for (const block of this.blocks) {
+      const blockState = this.state.blockStates.get(block.id)
+      if (!blockIds.has(block.id) || !blockState) continue
+
+      blockState.outputs = this.getInitialOutputs(block.type, block.parameters)
+      blockState.internalState = this.getInitialInternalState(block.type, block.parameters)
+      blockState.frozenOutputs = [...blockState.outputs]
+    }
+  }
+
   // In simulationEngine.ts - Add initial output computation method
 
   /**
@@ -1144,6 +1524,24 @@ export class SimulationEngine {
         case 'matrix_multiply':
         case 'mux':
         case 'demux':
+        case 'unit_delay':
+        case 'zero_order_hold':
+        case 'discrete_transfer_function':
+        case 'discrete_integrator':
+        case 'integrator':
+        case 'derivative':
+        case 'pid':
+        case 'saturation':
+        case 'rate_limiter':
+        case 'dead_zone':
+        case 'quantizer':
+        case 'data_type_conversion':
+        case 'multiport_switch':
+        case 'switch_case':
+        case 'state_chart':
+        case 'relational_operator':
+        case 'logical_operator':
+        case 'bitwise_operator':
           BlockSimulationAdapter.executeBlock(blockId, block, blockState, inputs, this.state)
           break
       }
@@ -0,0 +1,279 @@
+// lib/subsystemRefactoring.ts
+import { BlockData } from '@/components/BlockNode'
+import { WireData } from '@/components/Wire'
+import { Sheet } from '@/lib/simulationEngine'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+import { FlattenedBlock, ModelFlattener } from '@/lib/codegen/ModelFlattener'
+import { BlockModuleFactory } from '@/lib/blocks/BlockModuleFactory'
+import { BlockModuleUtils } from '@/lib/blocks/BlockModule'
+import { propagateSignalTypes } from '@/lib/signalTypePropagation'
+import { createUniqueBlockName } from '@/lib/blockClipboard'
+
+export interface SheetContents {
+  blocks: BlockData[]
+  wires: WireData[]
+}
+
+export interface GroupResult extends SheetContents {
+  subsystem: BlockData
+}
+
+// A signal crossing the selection boundary: one source port and every
+// wire it drives on the other side
+interface CrossingSignal {
+  sourceBlockId: string
+  sourcePortIndex: number
+  wires: WireData[]
+}
+
+const SHEET_LABEL_TYPES = ['sheet_label_sink', 'sheet_label_source']
+
+function usedIdentifiers(blocks: BlockData[]): Set<string> {
+  return new Set(blocks.map(block => CCodeBuilder.sanitizeIdentifier(block.name)))
+}
+
+// Group wires by the source port that drives them, so a signal fanning out
+// to several blocks crosses the boundary through a single port
+function groupBySource(wires: WireData[]): CrossingSignal[] {
+  const signals = new Map<string, CrossingSignal>()
+  for (const wire of wires) {
+    const key = `${wire.sourceBlockId}:${wire.sourcePortIndex}`
+    const signal = signals.get(key)
+    if (signal) {
+      signal.wires.push(wire)
+    } else {
+      signals.set(key, { sourceBlockId: wire.sourceBlockId, sourcePortIndex: wire.sourcePortIndex, wires: [wire] })
+    }
+  }
+  return Array.from(signals.values())
+}
+
+/**
+ * Move the selected blocks into a new subsystem. Every signal crossing the
+ * selection gets an input or output port block on the subsystem's sheet,
+ * ordered top to bottom, and the parent sheet is rewired to the subsystem.
+ */
+export function groupIntoSubsystem(
+  blocks: BlockData[],
+  wires: WireData[],
+  selectedBlockIds: Iterable<string>
+): GroupResult {
+  const selected = new Set(selectedBlockIds)
+  const inner = blocks.filter(block => selected.has(block.id))
+  const outer = blocks.filter(block => !selected.has(block.id))
+
+  if (inner.length === 0) {
+    throw new Error('Select at least one block to group into a subsystem')
+  }
+  if (inner.some(block => block.type === 'input_port' || block.type === 'output_port')) {
+    throw new Error('Input and output ports cannot be grouped into a subsystem')
+  }
+  // Sheet labels are scoped to their subsystem, so moving one would
+  // silently disconnect it from its partners on this level
+  if (inner.some(block => SHEET_LABEL_TYPES.includes(block.type))) {
+    throw new Error('Sheet labels cannot be grouped into a subsystem. Replace them with wires first.')
+  }
+
+  const subsystemId = `subsystem_${Date.now()}`
+  const sheetId = `${subsystemId}_main`
+  const positionOf = new Map(blocks.map(block => [block.id, block.position]))
+
+  const internalWires = wires.filter(w => selected.has(w.sourceBlockId) && selected.has(w.targetBlockId))
+  const incoming = groupBySource(wires.filter(w => !selected.has(w.sourceBlockId) && selected.has(w.targetBlockId)))
+  const outgoing = groupBySource(wires.filter(w => selected.has(w.sourceBlockId) && !selected.has(w.targetBlockId)))
+
+  // Number the ports by the height of the blocks they connect to inside
+  const innerY = (blockId: string) => positionOf.get(blockId)?.y ?? 0
+  incoming.sort((a, b) => innerY(a.wires[0].targetBlockId) - innerY(b.wires[0].targetBlockId))
+  outgoing.sort((a, b) => innerY(a.sourceBlockId) - innerY(b.sourceBlockId))
+
+  // Lay the selection out on the new sheet with room for the ports on
+  // either side
+  const minX = Math.min(...inner.map(block => block.position.x))
+  const minY = Math.min(...inner.map(block => block.position.y))
+  const maxX = Math.max(...inner.map(block => block.position.x))
+  const moveInside = (position: { x: number; y: number }) => ({ x: position.x - minX + 300, y: position.y - minY + 100 })
+
+  const signalTypes = propagateSignalTypes(blocks, wires).signalTypes
+  const sheetBlocks: BlockData[] = inner.map(block => ({ ...block, position: moveInside(block.position) }))
+  const sheetWires: WireData[] = [...internalWires]
+  const parentWires: WireData[] = wires.filter(w => !selected.has(w.sourceBlockId) && !selected.has(w.targetBlockId))
+
+  const inputPorts = incoming.map((signal, index) => {
+    const portName = `Input${index + 1}`
+    const portId = `${sheetId}_input${index + 1}`
+    sheetBlocks.push({
+      id: portId,
+      type: 'input_port',
+      name: portName,
+      position: { x: 100, y: moveInside(positionOf.get(signal.wires[0].targetBlockId)!).y },
+      parameters: {
+        portName,
+        dataType: signalTypes.get(signal.wires[0].id)?.type || 'double',
+        defaultValue: 0
+      }
+    })
+    for (const wire of signal.wires) {
+      sheetWires.push({ ...wire, sourceBlockId: portId, sourcePortIndex: 0 })
+    }
+    parentWires.push({
+      id: `${sheetId}_wire_in${index + 1}`,
+      sourceBlockId: signal.sourceBlockId,
+      sourcePortIndex: signal.sourcePortIndex,
+      targetBlockId: subsystemId,
+      targetPortIndex: index
+    })
+    return portName
+  })
+
+  const outputPorts = outgoing.map((signal, index) => {
+    const portName = `Output${index + 1}`
+    const portId = `${sheetId}_output${index + 1}`
+    sheetBlocks.push({
+      id: portId,
+      type: 'output_port',
+      name: portName,
+      position: { x: maxX - minX + 550, y: moveInside(positionOf.get(signal.sourceBlockId)!).y },
+      parameters: { portName }
+    })
+    sheetWires.push({
+      id: `${sheetId}_wire_out${index + 1}`,
+      sourceBlockId: signal.sourceBlockId,
+      sourcePortIndex: signal.sourcePortIndex,
+      targetBlockId: portId,
+      targetPortIndex: 0
+    })
+    for (const wire of signal.wires) {
+      parentWires.push({ ...wire, sourceBlockId: subsystemId, sourcePortIndex: index })
+    }
+    return portName
+  })
+
+  const name = createUniqueBlockName('Subsystem1', usedIdentifiers(outer))
+  const sheet: Sheet = {
+    id: sheetId,
+    name: `${name} Main`,
+    blocks: sheetBlocks,
+    connections: sheetWires,
+    extents: { width: 1000, height: 800 }
+  }
+  const subsystem: BlockData = {
+    id: subsystemId,
+    type: 'subsystem',
+    name,
+    position: { x: minX, y: minY },
+    parameters: {
+      sheets: [sheet],
+      inputPorts,
+      outputPorts
+    }
+  }
+
+  return { blocks: [...outer, subsystem], wires: parentWires, subsystem }
+}
+
+/**
+ * Inline a subsystem's sheets into the sheet that contains it. Connections
+ * through the subsystem's ports are remapped the same way the code
+ * generator's flattener removes them.
+ */
+export function expandSubsystem(
+  blocks: BlockData[],
+  wires: WireData[],
+  subsystemId: string
+): SheetContents {
+  const subsystem = blocks.find(block => block.id === subsystemId)
+  if (!subsystem || subsystem.type !== 'subsystem') {
+    throw new Error('Only subsystem blocks can be expanded')
+  }
+  if (subsystem.parameters?.showEnableInput) {
+    throw new Error(`${subsystem.name} has an enable input, which its blocks would lose if it were expanded`)
+  }
+  if (subsystem.parameters?.showTriggerInput) {
+    throw new Error(`${subsystem.name} has a trigger input, which its blocks would lose if it were expanded`)
+  }
+
+  const subsystemSheets = (subsystem.parameters?.sheets || []) as Sheet[]
+  const outer = blocks.filter(block => block.id !== subsystemId)
+  const innerBlocks = subsystemSheets.flatMap(sheet => sheet.blocks)
+  const innerWires = subsystemSheets.flatMap(sheet => sheet.connections)
+
+  const outerSignals = new Set(
+    outer.filter(block => SHEET_LABEL_TYPES.includes(block.type)).map(block => block.parameters?.signalName)
+  )
+  const clash = innerBlocks.find(block =>
+    SHEET_LABEL_TYPES.includes(block.type) && outerSignals.has(block.parameters?.signalName)
+  )
+  if (clash) {
+    throw new Error(`${subsystem.name} uses sheet label "${clash.parameters?.signalName}", which is already used on this sheet`)
+  }
+
+  // Keep the inner layout, moved to where the subsystem block was. Blocks
+  // keep the subsystem's sample time and names stay unique.
+  const contents = innerBlocks.filter(block => block.type !== 'input_port' && block.type !== 'output_port')
+  const minX = Math.min(...contents.map(block => block.position.x))
+  const minY = Math.min(...contents.map(block => block.position.y))
+  const names = usedIdentifiers(outer)
+  const sampleTime = BlockModuleUtils.getSampleTime(subsystem)
+  const inlined = contents.map(block => {
+    const name = createUniqueBlockName(block.name, names)
+    names.add(CCodeBuilder.sanitizeIdentifier(name))
+    return {
+      ...BlockModuleFactory.inheritSampleTime(block, sampleTime),
+      name,
+      position: {
+        x: block.position.x - minX + subsystem.position.x,
+        y: block.position.y - minY + subsystem.position.y
+      }
+    }
+  })
+
+  const flattener = new ModelFlattener()
+  const portMapping = flattener.createPortMapping(subsystem)
+  const flattenedBlocks: FlattenedBlock[] = [...outer, ...inlined].map(block => ({
+    block,
+    flattenedName: block.name,
+    subsystemPath: [],
+    enableScope: null,
+    triggerScope: null,
+    originalSheetId: '',
+    originalId: block.id
+  }))
+  const connections = flattener.removeSubsystemPorts(
+    [...wires, ...innerWires],
+    new Map([[subsystemId, portMapping]]),
+    flattenedBlocks
+  )
+  const expandedWires: WireData[] = connections.map(connection => ({
+    id: connection.id,
+    sourceBlockId: connection.sourceBlockId,
+    sourcePortIndex: connection.sourcePortIndex,
+    targetBlockId: connection.targetBlockId,
+    targetPortIndex: connection.targetPortIndex
+  }))
+
+  // Ports wired straight through the subsystem become direct wires
+  const inputIndex = new Map(Array.from(portMapping.inputPorts, ([index, blockId]) => [blockId, index]))
+  const outputIndex = new Map(Array.from(portMapping.outputPorts, ([index, blockId]) => [blockId, index]))
+  for (const passThrough of innerWires) {
+    const fromInput = inputIndex.get(passThrough.sourceBlockId)
+    const toOutput = outputIndex.get(passThrough.targetBlockId)
+    if (fromInput === undefined || toOutput === undefined) {
+      continue
+    }
+    const source = wires.find(w => w.targetBlockId === subsystemId && w.targetPortIndex === fromInput)
+    if (!source) {
+      continue
+    }
+    for (const target of wires.filter(w => w.sourceBlockId === subsystemId && w.sourcePortIndex === toOutput)) {
+      expandedWires.push({
+        ...target,
+        id: `${source.id}_${target.id}`,
+        sourceBlockId: source.sourceBlockId,
+        sourcePortIndex: source.sourcePortIndex
+      })
+    }
+  }
+
+  return { blocks: [...outer, ...inlined], wires: expandedWires }
+}
@@ -2,9 +2,14 @@
 
 import { BlockData } from '@/components/BlockNode'
 import { WireData } from '@/components/Wire'
-import { parseType, ParsedType, areTypesCompatible } from './typeValidator'
+import { parseType, ParsedType, areTypesCompatible, typeToString } from './typeValidator'
 import { propagateSignalTypes, TypePropagationResult, propagateSignalTypesMultiSheet } from './signalTypePropagation'
 import { validateSheetLabels } from './sheetLabelUtils'
+import { getFixedPointFormat } from './fixedPoint'
+import { BITWISE_INTEGER_TYPES } from './blocks/BitwiseOperatorBlockModule'
+import { EvaluateBlockModule } from './blocks/EvaluateBlockModule'
+import { MATH_CONSTANTS } from './c99ExpressionValidator'
+import { C99TokenType, c99Tokenizer } from './c99Tokenizer'
 
 /**
  * Type compatibility validation error
@@ -14,6 +19,8 @@ export interface TypeCompatibilityError {
   blockId?: string
   sourceBlockId?: string
   targetBlockId?: string
+  /** All blocks of an algebraic loop, for errors that span several blocks */
+  loopBlockIds?: string[]
   message: string
   severity: 'error' | 'warning'
   details?: {
@@ -145,14 +152,29 @@ export function validateModelTypeCompatibility(
       })
     }
 
-     // Validate multi-input blocks (Sum, Multiply)
+     // Validate multi-input blocks (Sum, Multiply, Merge)
     for (const block of blocks) {
-      if (['sum', 'multiply'].includes(block.type)) {
+      if (['sum', 'multiply', 'merge'].includes(block.type)) {
         const inputErrors = validateMultiInputBlock(block, wires, propagationResult)
         errors.push(...inputErrors)
       }
     }
     
+    // Validate element-wise operator blocks
+    for (const block of blocks) {
+      if (['relational_operator', 'logical_operator', 'bitwise_operator'].includes(block.type)) {
+        const elementWiseErrors = validateElementWiseBlock(block, wires, propagationResult)
+        errors.push(...elementWiseErrors)
+      }
+    }
+    
+    // Validate evaluate block expressions
+    for (const block of blocks) {
+      if (block.type === 'evaluate') {
+        errors.push(...validateEvaluateBlock(block, wires, propagationResult))
+      }
+    }
+    
     // Validate lookup blocks for scalar inputs
     for (const block of blocks) {
       if (['lookup_1d', 'lookup_2d'].includes(block.type)) {
@@ -192,14 +214,29 @@ export function validateModelTypeCompatibility(
     }
   }
   
-  // Validate multi-input blocks (Sum, Multiply)
+  // Validate multi-input blocks (Sum, Multiply, Merge)
   for (const block of blocks) {
-    if (['sum', 'multiply'].includes(block.type)) {
+    if (['sum', 'multiply', 'merge'].includes(block.type)) {
       const inputErrors = validateMultiInputBlock(block, wires, propagationResult)
       errors.push(...inputErrors)
     }
   }
   
+  // Validate element-wise operator blocks
+  for (const block of blocks) {
+    if (['relational_operator', 'logical_operator', 'bitwise_operator'].includes(block.type)) {
+      const elementWiseErrors = validateElementWiseBlock(block, wires, propagationResult)
+      errors.push(...elementWiseErrors)
+    }
+  }
+  
+  // Validate evaluate block expressions
+  for (const block of blocks) {
+    if (block.type === 'evaluate') {
+      errors.push(...validateEvaluateBlock(block, wires, propagationResult))
+    }
+  }
+  
   // Validate lookup blocks for scalar inputs
   for (const block of blocks) {
     if (['lookup_1d', 'lookup_2d'].includes(block.type)) {
@@ -474,7 +511,54 @@ function validateBlockInputType(
       }
       // For ports 0 and 2, type matching is validated separately
       break
+
+    case 'multiport_switch':
+    case 'switch_case':
+      // The index of a Multiport Switch and the input of a Switch Case
+      // select a single case, so must be scalar
+      if (portIndex === 0 && (parsedInputType.isArray || parsedInputType.isMatrix)) {
+        return {
+          blockId: block.id,
+          message: `${block.name} index input must be scalar but received ${inputType} from ${sourceBlock.name}`,
+          severity: 'error',
+          details: {
+            expectedType: 'scalar (bool or numeric)',
+            actualType: inputType
+          }
+        }
+      }
+      break
+
+    case 'state_chart':
+      // Guards and actions read every input as a scalar
+      if (parsedInputType.isArray || parsedInputType.isMatrix) {
+        return {
+          blockId: block.id,
+          message: `${block.name} input ${portIndex + 1} must be scalar but received ${inputType} from ${sourceBlock.name}`,
+          severity: 'error',
+          details: {
+            expectedType: 'scalar (bool or numeric)',
+            actualType: inputType
+          }
+        }
+      }
+      break
       
+    case 'bitwise_operator':
+      // Bits are only defined for integer signals
+      if (!BITWISE_INTEGER_TYPES.includes(parsedInputType.baseType)) {
+        return {
+          blockId: block.id,
+          message: `${block.name} requires integer inputs but received ${inputType} from ${sourceBlock.name}`,
+          severity: 'error',
+          details: {
+            expectedType: BITWISE_INTEGER_TYPES.join(', '),
+            actualType: inputType
+          }
+        }
+      }
+      break
+
     case 'matrix_multiply':
       // Matrix multiply can accept scalars, vectors, or matrices
       // Dimension compatibility is checked separately
@@ -510,8 +594,58 @@ function validateBlockInputType(
       }
       break
       
+    case 'integrator':
+    case 'pid':
+      // The reset input accepts boolean as well as numeric signals
+      if (portIndex === 0 && parsedInputType.baseType === 'bool') {
+        return {
+          blockId: block.id,
+          message: `${block.name} cannot process boolean signals`,
+          severity: 'error',
+          details: {
+            expectedType: 'numeric type (float, double, long)',
+            actualType: inputType
+          }
+        }
+      }
+      break
+      
+    case 'data_type_conversion': {
+      // Any numeric or boolean input converts to a floating-point, integer
+      // or fixed-point element type
+      const outputDataType = block.parameters?.outputDataType || 'int16'
+      let outputType: ParsedType | null = null
+      try {
+        outputType = parseType(outputDataType)
+      } catch {
+        // Reported below
+      }
+      if (!outputType || outputType.isArray || outputType.isMatrix ||
+          outputType.baseType === 'bool' || outputType.baseType === 'long') {
+        return {
+          blockId: block.id,
+          message: `${block.name} cannot convert to ${outputDataType}`,
+          severity: 'error',
+          details: {
+            expectedType: 'scalar double, float, integer or fixed-point type',
+            actualType: outputDataType
+          }
+        }
+      }
+      break
+    }
+
     case 'scale':
     case 'transfer_function':
+    case 'unit_delay':
+    case 'zero_order_hold':
+    case 'discrete_transfer_function':
+    case 'discrete_integrator':
+    case 'derivative':
+    case 'saturation':
+    case 'rate_limiter':
+    case 'dead_zone':
+    case 'quantizer':
     case 'signal_display':
     case 'signal_logger':
     case 'output_port':
@@ -592,9 +726,13 @@ function validateMultiInputBlock(
   
   if (mismatchedTypes.length > 0) {
     const allTypes = [firstType.type, ...mismatchedTypes]
+    // Integer and fixed-point signals are never converted implicitly
+    const hint = allTypes.some(type => getFixedPointFormat(type))
+      ? '. Use a Data Type Conversion block to combine integer or fixed-point signals with other types.'
+      : ''
     errors.push({
       blockId: block.id,
-      message: `Type mismatch at ${block.name}: All inputs must have the same type. Found: ${allTypes.join(', ')}`,
+      message: `Type mismatch at ${block.name}: All inputs must have the same type. Found: ${allTypes.join(', ')}${hint}`,
       severity: 'error',
       details: {
         expectedType: firstType.type,
@@ -843,6 +981,119 @@ function validateIfBlock(
   return errors
 }
 
+/**
+ * Validates that the vector and matrix inputs of an element-wise operator
+ * block have the same dimensions; scalar inputs expand to them. The inputs
+ * of a Bitwise Operator must also share one integer type.
+ */
+function validateElementWiseBlock(
+  block: BlockData,
+  wires: WireData[],
+  propagationResult: TypePropagationResult
+): TypeCompatibilityError[] {
+  const errors: TypeCompatibilityError[] = []
+
+  const inputTypes = wires
+    .filter(w => w.targetBlockId === block.id)
+    .sort((a, b) => a.targetPortIndex - b.targetPortIndex)
+    .map(w => propagationResult.signalTypes.get(w.id)?.type)
+    .filter((type): type is string => type !== undefined)
+
+  let parsedTypes: ParsedType[]
+  try {
+    parsedTypes = inputTypes.map(type => parseType(type))
+  } catch {
+    // Invalid type, already reported elsewhere
+    return errors
+  }
+
+  const shaped = parsedTypes.filter(type => type.isArray || type.isMatrix)
+  const mismatched = shaped.filter(type =>
+    type.isMatrix !== shaped[0].isMatrix || type.arraySize !== shaped[0].arraySize ||
+    type.rows !== shaped[0].rows || type.cols !== shaped[0].cols
+  )
+  if (mismatched.length > 0) {
+    const expectedType = typeToString(shaped[0])
+    const actualTypes = mismatched.map(typeToString)
+    errors.push({
+      blockId: block.id,
+      message: `${block.name} requires vector and matrix inputs of the same dimensions. Found: ${[expectedType, ...actualTypes].join(', ')}`,
+      severity: 'error',
+      details: {
+        expectedType,
+        actualType: actualTypes.join(', ')
+      }
+    })
+  }
+
+  if (block.type === 'bitwise_operator') {
+    const baseTypes = [...new Set(parsedTypes.map(type => type.baseType))]
+    if (baseTypes.length > 1) {
+      errors.push({
+        blockId: block.id,
+        message: `${block.name} requires all inputs to have the same integer type. Found: ${baseTypes.join(', ')}. Use a Data Type Conversion block to convert them.`,
+        severity: 'error',
+        details: {
+          expectedType: baseTypes[0],
+          actualType: baseTypes.slice(1).join(', ')
+        }
+      })
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validates the expression of an Evaluate block against the sizes of its
+ * inputs. Workspace variables are only copied into the block when it is
+ * resolved for a run, so unresolved expressions that read them are left
+ * to the block dialog, which checks them against the workspace.
+ */
+function validateEvaluateBlock(
+  block: BlockData,
+  wires: WireData[],
+  propagationResult: TypePropagationResult
+): TypeCompatibilityError[] {
+  const params = block.parameters || {}
+  const inputTypes = wires
+    .filter(w => w.targetBlockId === block.id)
+    .sort((a, b) => a.targetPortIndex - b.targetPortIndex)
+    .map(w => propagationResult.signalTypes.get(w.id)?.type)
+    .filter((type): type is string => type !== undefined)
+
+  // Unconnected inputs are reported elsewhere
+  if (inputTypes.length !== (params.numInputs || 1)) {
+    return []
+  }
+
+  if (params.workspaceVariables === undefined) {
+    // Names that are not function calls or math constants are workspace variables
+    const tokens = c99Tokenizer(String(params.expression || '0'))
+    const readsWorkspace = tokens.some((token, k) =>
+      token.type === C99TokenType.IDENTIFIER &&
+      tokens[k + 1]?.type !== C99TokenType.LPAREN &&
+      !(token.value in MATH_CONSTANTS)
+    )
+    if (readsWorkspace) {
+      return []
+    }
+  }
+
+  let messages: string[]
+  try {
+    messages = EvaluateBlockModule.analyze(params, EvaluateBlockModule.getInputSizes(inputTypes)).errors
+  } catch (error) {
+    messages = [error instanceof Error ? error.message : String(error)]
+  }
+
+  return messages.map(message => ({
+    blockId: block.id,
+    message: `${block.name}: ${message}`,
+    severity: 'error' as const
+  }))
+}
+
 /**
  * Validates matrix multiply dimension compatibility
  */
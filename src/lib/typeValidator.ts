@@ -3,8 +3,34 @@
 /**
  * Supported base data types in the system
  */
-export const SUPPORTED_BASE_TYPES = ['float', 'double', 'long', 'bool'] as const
-export type BaseType = typeof SUPPORTED_BASE_TYPES[number]
+export const SUPPORTED_BASE_TYPES = ['float', 'double', 'long', 'bool', 'int8', 'int16', 'int32', 'uint8', 'uint16', 'uint32'] as const
+
+/**
+ * Sized integer types, stored in the matching <stdint.h> type
+ */
+export type IntegerType = 'int8' | 'int16' | 'int32' | 'uint8' | 'uint16' | 'uint32'
+
+/**
+ * Fixed-point types are written fixdt(signed, wordLength, fractionLength),
+ * e.g. fixdt(1,16,12) for a signed 16-bit Q3.12 value
+ */
+export type FixedPointType = `fixdt(${0 | 1},${number},${number})`
+export type BaseType = typeof SUPPORTED_BASE_TYPES[number] | FixedPointType
+
+/**
+ * Word lengths that map onto the C integer types of the target
+ */
+export const FIXED_POINT_WORD_LENGTHS = [8, 16, 32] as const
+
+/**
+ * Binary-point scaling of a fixed-point type: the stored integer is the
+ * real value times 2^fractionLength
+ */
+export interface FixedPointFormat {
+  signed: boolean
+  wordLength: typeof FIXED_POINT_WORD_LENGTHS[number]
+  fractionLength: number
+}
 
 /**
  * Represents a parsed data type
@@ -16,6 +42,55 @@ export interface ParsedType {
   isMatrix?: boolean  // New field for matrices
   rows?: number       // New field for matrix rows
   cols?: number       // New field for matrix columns
+  fixedPoint?: FixedPointFormat  // Set for fixdt(...) and sized integer base types
+}
+
+/**
+ * Sized integers behave as fixed-point types without fraction bits, so
+ * they share the saturating arithmetic of fixdt signals
+ */
+export const INTEGER_TYPE_FORMATS: Record<IntegerType, FixedPointFormat> = {
+  int8: { signed: true, wordLength: 8, fractionLength: 0 },
+  int16: { signed: true, wordLength: 16, fractionLength: 0 },
+  int32: { signed: true, wordLength: 32, fractionLength: 0 },
+  uint8: { signed: false, wordLength: 8, fractionLength: 0 },
+  uint16: { signed: false, wordLength: 16, fractionLength: 0 },
+  uint32: { signed: false, wordLength: 32, fractionLength: 0 }
+}
+
+const BASE_TYPE_PATTERN = '(float|double|long|bool|u?int(?:8|16|32)|fixdt\\([^)]*\\))'
+
+/**
+ * Parses a scalar base type name, normalizing fixdt(...) spacing
+ */
+function parseBaseType(text: string): { baseType: BaseType, fixedPoint?: FixedPointFormat } {
+  if (text in INTEGER_TYPE_FORMATS) {
+    return { baseType: text as IntegerType, fixedPoint: INTEGER_TYPE_FORMATS[text as IntegerType] }
+  }
+  if (SUPPORTED_BASE_TYPES.includes(text as typeof SUPPORTED_BASE_TYPES[number])) {
+    return { baseType: text as BaseType }
+  }
+
+  const fixedMatch = text.match(/^fixdt\(\s*([01])\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/)
+  if (!fixedMatch) {
+    throw new Error(`Invalid fixed-point type: "${text}". Use fixdt(signed, wordLength, fractionLength), e.g. fixdt(1,16,12)`)
+  }
+
+  const signed = fixedMatch[1] === '1'
+  const wordLength = parseInt(fixedMatch[2], 10)
+  const fractionLength = parseInt(fixedMatch[3], 10)
+
+  if (!FIXED_POINT_WORD_LENGTHS.includes(wordLength as FixedPointFormat['wordLength'])) {
+    throw new Error(`Fixed-point word length must be ${FIXED_POINT_WORD_LENGTHS.join(', ')} bits, got ${wordLength}`)
+  }
+  if (fractionLength > wordLength) {
+    throw new Error(`Fixed-point fraction length ${fractionLength} exceeds the word length ${wordLength}`)
+  }
+
+  return {
+    baseType: `fixdt(${signed ? 1 : 0},${wordLength},${fractionLength})` as FixedPointType,
+    fixedPoint: { signed, wordLength: wordLength as FixedPointFormat['wordLength'], fractionLength }
+  }
 }
 
 /**
@@ -46,10 +121,10 @@ export function parseType(typeString: string): ParsedType {
   const trimmed = typeString.trim()
   
   // Check for 2D matrix syntax first (e.g., double[3][4])
-  const matrixMatch = trimmed.match(/^(float|double|long|bool)\[(\d+)\]\[(\d+)\]$/)
+  const matrixMatch = trimmed.match(new RegExp(`^${BASE_TYPE_PATTERN}\\[(\\d+)\\]\\[(\\d+)\\]$`))
   
   if (matrixMatch) {
-    const baseType = matrixMatch[1] as BaseType
+    const base = parseBaseType(matrixMatch[1])
     const rows = parseInt(matrixMatch[2], 10)
     const cols = parseInt(matrixMatch[3], 10)
     
@@ -58,7 +133,7 @@ export function parseType(typeString: string): ParsedType {
     }
     
     return {
-      baseType,
+      ...base,
       isArray: false,  // We distinguish between 1D arrays and 2D matrices
       isMatrix: true,
       rows,
@@ -67,10 +142,10 @@ export function parseType(typeString: string): ParsedType {
   }
   
   // Check for 1D array syntax (e.g., float[3])
-  const arrayMatch = trimmed.match(/^(float|double|long|bool)\[(\d+)\]$/)
+  const arrayMatch = trimmed.match(new RegExp(`^${BASE_TYPE_PATTERN}\\[(\\d+)\\]$`))
   
   if (arrayMatch) {
-    const baseType = arrayMatch[1] as BaseType
+    const base = parseBaseType(arrayMatch[1])
     const arraySize = parseInt(arrayMatch[2], 10)
     
     if (arraySize <= 0) {
@@ -78,7 +153,7 @@ export function parseType(typeString: string): ParsedType {
     }
     
     return {
-      baseType,
+      ...base,
       isArray: true,
       arraySize,
       isMatrix: false
@@ -86,15 +161,15 @@ export function parseType(typeString: string): ParsedType {
   }
   
   // Check for scalar type
-  if (SUPPORTED_BASE_TYPES.includes(trimmed as BaseType)) {
+  if (new RegExp(`^${BASE_TYPE_PATTERN}$`).test(trimmed)) {
     return {
-      baseType: trimmed as BaseType,
+      ...parseBaseType(trimmed),
       isArray: false,
       isMatrix: false
     }
   }
   
-  throw new Error(`Invalid type: "${typeString}". Supported types are: ${SUPPORTED_BASE_TYPES.join(', ')}, their 1D arrays (e.g., float[3]), and 2D matrices (e.g., double[3][4])`)
+  throw new Error(`Invalid type: "${typeString}". Supported types are: ${SUPPORTED_BASE_TYPES.join(', ')}, fixed-point fixdt(signed, wordLength, fractionLength), their 1D arrays (e.g., float[3]), and 2D matrices (e.g., double[3][4])`)
 }
 
 /**
@@ -247,6 +322,22 @@ export function normalizeType(typeString: string): string {
   return typeToString(parsed)
 }
 
+/**
+ * Replaces the base type of a type string, keeping its array or matrix
+ * dimensions (e.g., double[3] with int16 gives int16[3])
+ * @param typeString - The type whose dimensions are kept
+ * @param baseTypeString - A scalar type string for the elements
+ * @returns Type string with the new base type
+ * @throws Error if either type is invalid or the base type is not scalar
+ */
+export function withBaseType(typeString: string, baseTypeString: string): string {
+  const base = parseType(baseTypeString)
+  if (base.isArray || base.isMatrix) {
+    throw new Error(`Expected a scalar type but got "${baseTypeString}"`)
+  }
+  return typeToString({ ...parseType(typeString), baseType: base.baseType })
+}
+
 /**
  * Gets the default value for a given type
  * @param typeString - The type string
@@ -351,6 +442,12 @@ export function isValidValue(value: any, typeString: string): boolean {
             case 'bool':
               return typeof element === 'boolean'
             case 'long':
+            case 'int8':
+            case 'int16':
+            case 'int32':
+            case 'uint8':
+            case 'uint16':
+            case 'uint32':
               return Number.isInteger(element)
             default:
               return typeof element === 'number' && !isNaN(element)
@@ -369,6 +466,12 @@ export function isValidValue(value: any, typeString: string): boolean {
           case 'bool':
             return typeof element === 'boolean'
           case 'long':
+          case 'int8':
+          case 'int16':
+          case 'int32':
+          case 'uint8':
+          case 'uint16':
+          case 'uint32':
             return Number.isInteger(element)
           default:
             return typeof element === 'number' && !isNaN(element)
@@ -381,6 +484,12 @@ export function isValidValue(value: any, typeString: string): boolean {
       case 'bool':
         return typeof value === 'boolean'
       case 'long':
+      case 'int8':
+      case 'int16':
+      case 'int32':
+      case 'uint8':
+      case 'uint16':
+      case 'uint32':
         return Number.isInteger(value)
       default:
         return typeof value === 'number' && !isNaN(value)
@@ -428,6 +537,12 @@ export function getValueValidationError(value: any, typeString: string): string
               }
               break
             case 'long':
+            case 'int8':
+            case 'int16':
+            case 'int32':
+            case 'uint8':
+            case 'uint16':
+            case 'uint32':
               if (!Number.isInteger(element)) {
                 return `Element at [${i + 1}][${j + 1}] must be integer but got ${element}`
               }
@@ -460,6 +575,12 @@ export function getValueValidationError(value: any, typeString: string): string
             }
             break
           case 'long':
+          case 'int8':
+          case 'int16':
+          case 'int32':
+          case 'uint8':
+          case 'uint16':
+          case 'uint32':
             if (!Number.isInteger(element)) {
               return `Element at index ${i} must be integer but got ${element}`
             }
@@ -481,6 +602,12 @@ export function getValueValidationError(value: any, typeString: string): string
         }
         break
       case 'long':
+      case 'int8':
+      case 'int16':
+      case 'int32':
+      case 'uint8':
+      case 'uint16':
+      case 'uint32':
         if (!Number.isInteger(value)) {
           return `Expected integer but got ${value}`
         }
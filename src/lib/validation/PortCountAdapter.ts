@@ -87,7 +87,7 @@ export class PortCountAdapter {
    */
   static hasDynamicPorts(block: BlockData): boolean {
     // Blocks with dynamic ports
-    const dynamicPortBlocks = ['mux', 'demux', 'subsystem']
+    const dynamicPortBlocks = ['mux', 'demux', 'subsystem', 'multiport_switch', 'switch_case', 'merge', 'state_chart', 'logical_operator', 'bitwise_operator', 'evaluate']
     return dynamicPortBlocks.includes(block.type)
   }
 }
\ No newline at end of file
@@ -0,0 +1,317 @@
+// lib/workspace.ts
+import { BlockData } from '@/components/BlockNode'
+import { Sheet } from '@/lib/simulationEngine'
+import { WorkspaceValue, WorkspaceVariable } from '@/lib/modelSchema'
+import { C99ExpressionEvaluator } from '@/lib/c99ExpressionEvaluator'
+import { Expression, parseC99Expression } from '@/lib/c99ExpressionParser'
+import { C99TokenType, c99Tokenizer } from '@/lib/c99Tokenizer'
+import { CCodeBuilder } from '@/lib/codegen/CCodeBuilder'
+
+export type { WorkspaceValue, WorkspaceVariable }
+
+/**
+ * Block parameters that hold numbers, and so may also hold an expression
+ * over the model workspace such as "Kp * 2" or "wn^2". Array parameters
+ * take an expression per element or one expression for the whole array.
+ */
+export const NUMERIC_PARAMETERS: Record<string, string[]> = {
+  source: [
+    'value', 'stepTime', 'stepValue', 'slope', 'startTime', 'frequency', 'amplitude',
+    'phase', 'offset', 'f0', 'f1', 'duration', 'mean'
+  ],
+  scale: ['gain', 'factor'],
+  transfer_function: ['numerator', 'denominator'],
+  integrator: ['initialCondition', 'lowerLimit', 'upperLimit'],
+  derivative: ['filterCoefficient'],
+  pid: ['kp', 'ki', 'kd', 'filterCoefficient', 'backCalculationGain', 'initialCondition', 'lowerLimit', 'upperLimit'],
+  rate_limiter: ['risingSlewRate', 'fallingSlewRate', 'initialCondition'],
+  unit_delay: ['initialCondition'],
+  discrete_transfer_function: ['numerator', 'denominator'],
+  discrete_integrator: ['gain', 'initialCondition', 'lowerLimit', 'upperLimit'],
+  lookup_1d: ['inputValues', 'outputValues'],
+  lookup_2d: ['input1Values', 'input2Values', 'outputTable'],
+  saturation: ['lowerLimit', 'upperLimit'],
+  dead_zone: ['start', 'end'],
+  quantizer: ['interval']
+}
+
+/**
+ * Block parameters holding expressions that read workspace variables by
+ * name while the model runs. Resolving a block copies the variables its
+ * expressions read into its workspaceVariables parameter.
+ */
+export const EXPRESSION_PARAMETERS: Record<string, string[]> = {
+  evaluate: ['expression']
+}
+
+// In parameter expressions '^' is exponentiation, as users expect from wn^2
+const EXPRESSION_OPTIONS = { caretIsPower: true }
+
+const NUMBER_LITERAL = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+
+/**
+ * Whether a parameter value is an expression to evaluate. Numbers, plain
+ * numeric strings and empty strings (e.g. an unset limit) are left alone.
+ */
+export function isParameterExpression(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '' && !NUMBER_LITERAL.test(value.trim())
+}
+
+export function parseParameterExpression(text: string): Expression {
+  return parseC99Expression(text, EXPRESSION_OPTIONS)
+}
+
+/**
+ * Names of the variables an expression refers to (function names excluded)
+ */
+export function getExpressionVariables(expr: Expression): string[] {
+  switch (expr.type) {
+    case 'Identifier':
+      return [expr.name]
+    case 'BinaryExpression':
+      return [...getExpressionVariables(expr.left), ...getExpressionVariables(expr.right)]
+    case 'UnaryExpression':
+      return getExpressionVariables(expr.operand)
+    case 'FunctionCall':
+      return expr.arguments.flatMap(getExpressionVariables)
+    case 'ConditionalExpression':
+      return [
+        ...getExpressionVariables(expr.condition),
+        ...getExpressionVariables(expr.trueBranch),
+        ...getExpressionVariables(expr.falseBranch)
+      ]
+    case 'IndexExpression':
+      return [...getExpressionVariables(expr.object), ...getExpressionVariables(expr.index)]
+    default:
+      return []
+  }
+}
+
+/**
+ * Check a variable against the rest of the workspace, returning an error
+ * message or an empty string
+ */
+export function getWorkspaceVariableError(variable: WorkspaceVariable, workspace: WorkspaceVariable[]): string {
+  const { name, value } = variable
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    return 'Variable names must start with a letter or underscore and contain only letters, digits and underscores'
+  }
+  if (CCodeBuilder.sanitizeIdentifier(name) !== name) {
+    return `"${name}" is a reserved C keyword`
+  }
+  if (workspace.filter(other => other.name === name).length > 1) {
+    return `Variable "${name}" is defined more than once`
+  }
+  const elements = Array.isArray(value) ? value.flat() : [value]
+  if (elements.length === 0 || !elements.every(element => typeof element === 'number' && Number.isFinite(element))) {
+    return `Variable "${name}" must hold finite numbers`
+  }
+  if (Array.isArray(value) && Array.isArray(value[0])) {
+    const rows = value as number[][]
+    if (!rows.every(row => Array.isArray(row) && row.length === rows[0].length)) {
+      return `Matrix "${name}" must have rows of equal length`
+    }
+  }
+  return ''
+}
+
+function findVariable(name: string, workspace: WorkspaceVariable[]): WorkspaceVariable {
+  const variable = workspace.find(v => v.name === name)
+  if (!variable) {
+    throw new Error(`Unknown workspace variable "${name}"`)
+  }
+  return variable
+}
+
+/**
+ * Values of the scalar workspace variables an expression uses
+ */
+export function getScalarVariables(expr: Expression, workspace: WorkspaceVariable[]): Record<string, number> {
+  const scalars: Record<string, number> = {}
+  for (const name of getExpressionVariables(expr)) {
+    const variable = findVariable(name, workspace)
+    if (typeof variable.value !== 'number') {
+      throw new Error(`Workspace variable "${name}" is not a scalar, so it can only be used on its own`)
+    }
+    scalars[name] = variable.value
+  }
+  return scalars
+}
+
+function evaluateScalar(text: string, workspace: WorkspaceVariable[]): number {
+  const expr = parseParameterExpression(text)
+  const value = new C99ExpressionEvaluator([], getScalarVariables(expr, workspace)).evaluate(expr)
+  if (!Number.isFinite(value)) {
+    throw new Error(`"${text}" does not evaluate to a finite number`)
+  }
+  return value
+}
+
+/**
+ * Split bracket contents at separators that are not nested in brackets or
+ * function call parentheses
+ */
+function splitTopLevel(text: string, separators: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '(' || char === '[') depth++
+    else if (char === ')' || char === ']') depth--
+    else if (depth === 0 && separators.includes(char)) {
+      parts.push(text.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(text.slice(start))
+  return parts.map(part => part.trim())
+}
+
+/**
+ * Evaluate a bracketed literal: [a, b, c] is a vector, [a, b; c, d] and
+ * [[a, b], [c, d]] are matrices. Elements may be scalar expressions.
+ */
+function evaluateArrayLiteral(text: string, workspace: WorkspaceVariable[]): number[] | number[][] {
+  const content = text.slice(1, -1).trim()
+  if (content === '') {
+    throw new Error('Arrays need at least one element')
+  }
+
+  const rows = splitTopLevel(content, ';')
+  if (rows.length > 1) {
+    const matrix = rows.map(row => splitTopLevel(row, ',').map(element => evaluateScalar(element, workspace)))
+    if (!matrix.every(row => row.length === matrix[0].length)) {
+      throw new Error('Matrix rows must have the same number of elements')
+    }
+    return matrix
+  }
+
+  const elements = splitTopLevel(content, ',')
+  if (elements.every(element => element.startsWith('[') && element.endsWith(']'))) {
+    const matrix = elements.map(element => {
+      const row = evaluateArrayLiteral(element, workspace)
+      if (Array.isArray(row[0])) {
+        throw new Error('Arrays can have at most two dimensions')
+      }
+      return row as number[]
+    })
+    if (!matrix.every(row => row.length === matrix[0].length)) {
+      throw new Error('Matrix rows must have the same number of elements')
+    }
+    return matrix
+  }
+  return elements.map(element => evaluateScalar(element, workspace))
+}
+
+/**
+ * Evaluate a parameter expression against the workspace. A vector or
+ * matrix variable may be used on its own; arithmetic is on scalars.
+ */
+export function evaluateParameterExpression(text: string, workspace: WorkspaceVariable[]): WorkspaceValue {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    return evaluateArrayLiteral(trimmed, workspace)
+  }
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(trimmed)) {
+    return findVariable(trimmed, workspace).value
+  }
+  return evaluateScalar(trimmed, workspace)
+}
+
+/**
+ * Replace the expressions in a parameter value by their values. Array
+ * elements must evaluate to scalars.
+ */
+export function resolveParameterValue(value: unknown, workspace: WorkspaceVariable[]): unknown {
+  if (isParameterExpression(value)) {
+    return evaluateParameterExpression(value, workspace)
+  }
+  if (Array.isArray(value)) {
+    return value.map(element => {
+      const resolved = resolveParameterValue(element, workspace)
+      if (typeof element === 'string' && typeof resolved !== 'number') {
+        throw new Error(`Array element "${element}" must be a scalar`)
+      }
+      return resolved
+    })
+  }
+  return value
+}
+
+/**
+ * Resolves one numeric parameter of a block
+ */
+export type ParameterResolver = (value: unknown, block: BlockData, parameter: string) => unknown
+
+/**
+ * Resolve a block's numeric parameters, and those of every block in a
+ * subsystem's sheets. Errors name the block and parameter.
+ */
+export function resolveBlockParameters(
+  block: BlockData,
+  workspace: WorkspaceVariable[],
+  resolve: ParameterResolver = value => resolveParameterValue(value, workspace)
+): BlockData {
+  if (!block.parameters) {
+    return block
+  }
+
+  const parameters: BlockData['parameters'] = { ...block.parameters }
+  for (const name of NUMERIC_PARAMETERS[block.type] ?? []) {
+    if (parameters[name] === undefined) continue
+    try {
+      parameters[name] = resolve(parameters[name], block, name)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new Error(`Block "${block.name}" parameter "${name}": ${message}`)
+    }
+  }
+
+  const expressions = EXPRESSION_PARAMETERS[block.type] ?? []
+  if (expressions.length > 0) {
+    // Names are matched by token, so expressions with errors are left to the block to report
+    const names = new Set(expressions
+      .filter(name => typeof parameters[name] === 'string')
+      .flatMap(name => c99Tokenizer(parameters[name]))
+      .filter(token => token.type === C99TokenType.IDENTIFIER)
+      .map(token => token.value))
+    parameters.workspaceVariables = Object.fromEntries(
+      workspace.filter(variable => names.has(variable.name)).map(variable => [variable.name, variable.value])
+    )
+  }
+
+  if (block.type === 'subsystem' && Array.isArray(parameters.sheets)) {
+    parameters.sheets = resolveWorkspaceParameters(parameters.sheets, workspace, resolve)
+  }
+
+  return { ...block, parameters }
+}
+
+/**
+ * Copy of the sheets with every parameter expression replaced by its value,
+ * ready for simulation
+ */
+export function resolveWorkspaceParameters(
+  sheets: Sheet[],
+  workspace: WorkspaceVariable[],
+  resolve: ParameterResolver = value => resolveParameterValue(value, workspace)
+): Sheet[] {
+  return sheets.map(sheet => ({
+    ...sheet,
+    blocks: sheet.blocks.map(block => resolveBlockParameters(block, workspace, resolve))
+  }))
+}
+
+/**
+ * Format a workspace value for display and editing, e.g. "[1, 2; 3, 4]"
+ */
+export function formatWorkspaceValue(value: WorkspaceValue): string {
+  if (!Array.isArray(value)) {
+    return String(value)
+  }
+  if (Array.isArray(value[0])) {
+    return `[${(value as number[][]).map(row => row.join(', ')).join('; ')}]`
+  }
+  return `[${value.join(', ')}]`
+}